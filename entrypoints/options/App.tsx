@@ -2,8 +2,29 @@ import { useState, useEffect } from 'react';
 import type { CSSProperties } from 'react';
 import { browser } from 'wxt/browser';
 import { loadSettings, saveSettings } from '@/storage/settings-storage';
+import { requestApiPermission } from '@/chrome/permissions';
 import type { AppSettings } from '@/types/settings';
 import { SETTINGS_DEFAULTS } from '@/types/settings';
+import { SnapshotHistory } from './SnapshotHistory';
+import { BackupSettings } from './BackupSettings';
+import { OrganizeRules } from './OrganizeRules';
+
+const HIBERNATE_AFTER_OPTIONS: readonly { minutes: number; label: string }[] = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 720, label: '12 hours' },
+];
+
+const MARKDOWN_DEPTH_OPTIONS: readonly { depth: number; label: string }[] = [
+  { depth: 0, label: 'All levels' },
+  { depth: 1, label: '1 level' },
+  { depth: 2, label: '2 levels' },
+  { depth: 3, label: '3 levels' },
+  { depth: 4, label: '4 levels' },
+];
 
 export function App() {
   const [settings, setSettings] = useState<AppSettings>(SETTINGS_DEFAULTS);
@@ -22,12 +43,24 @@ export function App() {
     };
   }, []);
 
-  function handleChange(key: keyof AppSettings, value: boolean): void {
+  function handleChange<K extends keyof AppSettings>(
+    key: K,
+    value: AppSettings[K],
+  ): void {
     const updated = { ...settings, [key]: value };
     setSettings(updated);
     void saveSettings({ [key]: value });
   }
 
+  // Display bounds let restores clamp saved windows to the screens that
+  // exist now. Declining is fine: restores then keep only the saved size.
+  function handleWindowPosChange(value: boolean): void {
+    if (value) {
+      void requestApiPermission('system.display').catch(() => false);
+    }
+    handleChange('openSavedWindowsInOriginalPos', value);
+  }
+
   const manifest = browser.runtime.getManifest();
   const version = manifest.version_name ?? manifest.version;
 
@@ -60,6 +93,103 @@ export function App() {
               </span>
             </span>
           </label>
+          <label style={styles.row}>
+            <input
+              type="checkbox"
+              checked={settings.relateNewTabToOpener}
+              onChange={(e) =>
+                handleChange(
+                  'relateNewTabToOpener',
+                  (e.target as HTMLInputElement).checked,
+                )
+              }
+            />
+            <span style={styles.labelText}>
+              Nest new tabs under their opener
+              <span style={styles.labelDesc}>
+                Tabs opened from a link or another tab appear as children of
+                that tab, building a tree of tabs. Disable to add every new tab
+                at the end of its window.
+              </span>
+            </span>
+          </label>
+          <label style={styles.row}>
+            <input
+              type="checkbox"
+              checked={settings.openSavedWindowsInOriginalPos}
+              onChange={(e) =>
+                handleWindowPosChange((e.target as HTMLInputElement).checked)
+              }
+            />
+            <span style={styles.labelText}>
+              Restore windows at their original position
+              <span style={styles.labelDesc}>
+                Reopen saved windows with the size, position and maximized state
+                they had when closed, moved onto a current display if theirs is
+                gone. Disable to let the browser place them.
+              </span>
+            </span>
+          </label>
+          <label style={styles.row}>
+            <input
+              type="checkbox"
+              checked={settings.restoreTabsDiscarded}
+              onChange={(e) =>
+                handleChange(
+                  'restoreTabsDiscarded',
+                  (e.target as HTMLInputElement).checked,
+                )
+              }
+            />
+            <span style={styles.labelText}>
+              Restore windows with their tabs unloaded
+              <span style={styles.labelDesc}>
+                When reopening a whole saved window or group, only its active
+                tab loads right away; the others load when you first switch to
+                them.
+              </span>
+            </span>
+          </label>
+          <label style={styles.row}>
+            <input
+              type="checkbox"
+              checked={settings.autoHibernateTabs}
+              onChange={(e) =>
+                handleChange(
+                  'autoHibernateTabs',
+                  (e.target as HTMLInputElement).checked,
+                )
+              }
+            />
+            <span style={styles.labelText}>
+              <span>
+                Hibernate tabs not used for{' '}
+                <select
+                  style={styles.inlineSelect}
+                  value={settings.autoHibernateAfterMinutes}
+                  disabled={!settings.autoHibernateTabs}
+                  onChange={(e) =>
+                    handleChange(
+                      'autoHibernateAfterMinutes',
+                      Number((e.target as HTMLSelectElement).value),
+                    )
+                  }
+                >
+                  {HIBERNATE_AFTER_OPTIONS.map((o) => (
+                    <option key={o.minutes} value={o.minutes}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </span>
+              <span style={styles.labelDesc}>
+                Unload tabs you haven't switched to for a while to free memory.
+                They stay open, show as sleeping in the tree, and reload when
+                you switch back. Pinned tabs and tabs playing audio are never
+                unloaded.
+              </span>
+            </span>
+          </label>
           <label style={styles.row}>
             <input
               type="checkbox"
@@ -84,6 +214,101 @@ export function App() {
           </label>
         </section>
 
+        {/* Markdown Export */}
+        <section style={styles.section}>
+          <h2 style={styles.sectionTitle}>Markdown Export</h2>
+          <label style={styles.row}>
+            <span style={styles.labelText}>
+              <span>
+                Include{' '}
+                <select
+                  style={styles.inlineSelect}
+                  value={settings.markdownExportDepth}
+                  onChange={(e) =>
+                    handleChange(
+                      'markdownExportDepth',
+                      Number((e.target as HTMLSelectElement).value),
+                    )
+                  }
+                >
+                  {MARKDOWN_DEPTH_OPTIONS.map((o) => (
+                    <option key={o.depth} value={o.depth}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </span>
+              <span style={styles.labelDesc}>
+                How deep the exported bullet list goes. Windows are the first
+                level; deeper items are left out.
+              </span>
+            </span>
+          </label>
+          <label style={styles.row}>
+            <input
+              type="checkbox"
+              checked={settings.markdownExportLiveTabs}
+              onChange={(e) =>
+                handleChange(
+                  'markdownExportLiveTabs',
+                  (e.target as HTMLInputElement).checked,
+                )
+              }
+            />
+            <span style={styles.labelText}>Include open tabs</span>
+          </label>
+          <label style={styles.row}>
+            <input
+              type="checkbox"
+              checked={settings.markdownExportSavedTabs}
+              onChange={(e) =>
+                handleChange(
+                  'markdownExportSavedTabs',
+                  (e.target as HTMLInputElement).checked,
+                )
+              }
+            />
+            <span style={styles.labelText}>Include saved tabs</span>
+          </label>
+          <label style={styles.row}>
+            <input
+              type="checkbox"
+              checked={settings.markdownExportCustomTitles}
+              onChange={(e) =>
+                handleChange(
+                  'markdownExportCustomTitles',
+                  (e.target as HTMLInputElement).checked,
+                )
+              }
+            />
+            <span style={styles.labelText}>
+              Use custom titles for links
+              <span style={styles.labelDesc}>
+                Link a tab with the title you gave it instead of its page title.
+                Disable to always use the page title.
+              </span>
+            </span>
+          </label>
+        </section>
+
+        {/* Auto-Organize */}
+        <section style={styles.section}>
+          <h2 style={styles.sectionTitle}>Auto-Organize</h2>
+          <OrganizeRules />
+        </section>
+
+        {/* Snapshot History */}
+        <section style={styles.section}>
+          <h2 style={styles.sectionTitle}>Snapshot History</h2>
+          <SnapshotHistory />
+        </section>
+
+        {/* Remote Backup */}
+        <section style={styles.section}>
+          <h2 style={styles.sectionTitle}>Remote Backup</h2>
+          <BackupSettings />
+        </section>
+
         {/* Coming Soon */}
         <section style={{ ...styles.section, ...styles.comingSoonSection }}>
           <h2 style={styles.comingSoonTitle}>Coming Soon</h2>
@@ -163,6 +388,14 @@ const styles: Record<string, CSSProperties> = {
     color: '#c8d8e8',
     lineHeight: '1.4',
   },
+  inlineSelect: {
+    background: '#1e1e1e',
+    border: '1px solid #3a4a5a',
+    borderRadius: '4px',
+    color: '#c8d8e8',
+    fontSize: '12px',
+    padding: '2px 4px',
+  },
   labelDesc: {
     fontSize: '12px',
     color: '#6a8a9a',
@@ -0,0 +1,549 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CSSProperties } from 'react';
+import { onStorageChanged } from '@/chrome/storage';
+import { requestOriginPermission } from '@/chrome/permissions';
+import {
+  loadBackupSettings,
+  saveBackupSettings,
+  loadBackupStatus,
+} from '@/storage/backup-storage';
+import {
+  createBackupProvider,
+  isBackupConfigured,
+  isInsecureBackupTarget,
+} from '@/backup/registry';
+import { BACKUP_STATUS_KEY } from '@/types/backup';
+import type {
+  BackupEntry,
+  BackupSettings as BackupSettingsValue,
+  BackupStatus,
+  HttpBackupConfig,
+  HttpBackupDialect,
+} from '@/types/backup';
+import type { BackgroundToViewMessage } from '@/types/messages';
+import { usePort } from '@/view/hooks/use-port';
+import { backupNow } from '@/view/tree-actions';
+
+const INTERVAL_OPTIONS: readonly { hours: number; label: string }[] = [
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 12, label: 'Every 12 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+];
+
+type Notice = { kind: 'info' | 'error'; text: string } | null;
+
+function formatTimestamp(ts: number): string {
+  return new Date(ts).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatSize(bytes: number | null): string {
+  if (bytes === null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Options-page section for remote backups: target configuration, last run
+ * status and the list of backups stored on the target.
+ *
+ * Uploads go through the background (it owns the tree and the schedule);
+ * listing, download and delete talk to the target directly from here.
+ */
+export function BackupSettings() {
+  const [settings, setSettings] = useState<BackupSettingsValue | null>(null);
+  const [status, setStatus] = useState<BackupStatus | null>(null);
+  const [history, setHistory] = useState<BackupEntry[] | null>(null);
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refreshHistory = useCallback(async (s: BackupSettingsValue) => {
+    if (!isBackupConfigured(s)) {
+      setHistory(null);
+      return;
+    }
+    try {
+      setHistory(await createBackupProvider(s).list());
+    } catch (err) {
+      setHistory(null);
+      setNotice({
+        kind: 'error',
+        text: `Could not list backups: ${errorText(err)}`,
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadBackupSettings().then((s) => {
+      if (cancelled) return;
+      setSettings(s);
+      void refreshHistory(s);
+    });
+    const refreshStatus = () => {
+      void loadBackupStatus().then((s) => {
+        if (!cancelled) setStatus(s);
+      });
+    };
+    refreshStatus();
+    const cleanup = onStorageChanged('local', BACKUP_STATUS_KEY, refreshStatus);
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [refreshHistory]);
+
+  const handleMessage = useCallback(
+    (msg: BackgroundToViewMessage) => {
+      if (msg.command !== 'msg2view_backupResult') return;
+      setBusy(false);
+      if (msg.success) {
+        setNotice({ kind: 'info', text: `Uploaded ${msg.backupId as string}` });
+        if (settings) void refreshHistory(settings);
+      } else {
+        setNotice({
+          kind: 'error',
+          text: `Backup failed: ${(msg.error as string | undefined) ?? 'unknown error'}`,
+        });
+      }
+    },
+    [settings, refreshHistory],
+  );
+  const { postMessage, isConnected } = usePort(handleMessage, () => {});
+
+  if (!settings) return null;
+
+  function update(partial: Partial<BackupSettingsValue>): void {
+    setSettings((s) => (s ? { ...s, ...partial } : s));
+  }
+
+  function updateHttp(partial: Partial<HttpBackupConfig>): void {
+    setSettings((s) => (s ? { ...s, http: { ...s.http, ...partial } } : s));
+  }
+
+  async function handleSave(): Promise<void> {
+    if (!settings) return;
+    setNotice(null);
+    const endpoint = settings.http.endpoint.trim();
+    if (endpoint) {
+      try {
+        createBackupProvider(settings);
+      } catch (err) {
+        setNotice({ kind: 'error', text: errorText(err) });
+        return;
+      }
+      // Host access is optional and granted per endpoint origin.
+      const granted = await requestOriginPermission(endpoint).catch(
+        () => false,
+      );
+      if (!granted) {
+        setNotice({
+          kind: 'error',
+          text: 'Access to the backup server was not granted.',
+        });
+        return;
+      }
+    }
+    await saveBackupSettings(settings);
+    setNotice({ kind: 'info', text: 'Backup settings saved.' });
+    void refreshHistory(settings);
+  }
+
+  function handleBackupNow(): void {
+    setNotice(null);
+    setBusy(true);
+    postMessage(backupNow());
+  }
+
+  async function handleDownload(entry: BackupEntry): Promise<void> {
+    if (!settings) return;
+    try {
+      const content = await createBackupProvider(settings).download(entry.id);
+      const url = URL.createObjectURL(
+        new Blob([content], { type: 'application/json' }),
+      );
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = entry.id;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setNotice({ kind: 'error', text: `Download failed: ${errorText(err)}` });
+    }
+  }
+
+  async function handleDelete(entry: BackupEntry): Promise<void> {
+    if (!settings) return;
+    if (!window.confirm(`Delete ${entry.id} from the backup server?`)) return;
+    try {
+      await createBackupProvider(settings).delete(entry.id);
+      void refreshHistory(settings);
+    } catch (err) {
+      setNotice({ kind: 'error', text: `Delete failed: ${errorText(err)}` });
+    }
+  }
+
+  const { http } = settings;
+  const isS3 = http.dialect === 's3';
+
+  return (
+    <>
+      <p style={styles.intro}>
+        Upload a copy of the tree to your own WebDAV server or S3-compatible
+        bucket. Backups are regular .tree files and can be imported from the
+        tree view.
+      </p>
+
+      <label style={styles.field}>
+        <span style={styles.fieldLabel}>Protocol</span>
+        <select
+          style={styles.input}
+          value={http.dialect}
+          onChange={(e) =>
+            updateHttp({
+              dialect: (e.target as HTMLSelectElement)
+                .value as HttpBackupDialect,
+            })
+          }
+        >
+          <option value="webdav">WebDAV</option>
+          <option value="s3">S3-compatible</option>
+        </select>
+      </label>
+      <label style={styles.field}>
+        <span style={styles.fieldLabel}>
+          {isS3 ? 'Bucket URL' : 'Folder URL'}
+        </span>
+        <input
+          style={styles.input}
+          type="url"
+          placeholder={
+            isS3
+              ? 'https://s3.example.com/my-bucket'
+              : 'https://dav.example.com/backups/'
+          }
+          value={http.endpoint}
+          onChange={(e) =>
+            updateHttp({ endpoint: (e.target as HTMLInputElement).value })
+          }
+        />
+      </label>
+      {isInsecureBackupTarget(settings) && (
+        <p style={styles.error}>
+          WebDAV sends the password readable to anyone on the network over
+          http://. Use an https:// URL; this one will not be saved.
+        </p>
+      )}
+      <label style={styles.field}>
+        <span style={styles.fieldLabel}>
+          {isS3 ? 'Access key ID' : 'User name'}
+        </span>
+        <input
+          style={styles.input}
+          autoComplete="off"
+          value={http.username}
+          onChange={(e) =>
+            updateHttp({ username: (e.target as HTMLInputElement).value })
+          }
+        />
+      </label>
+      <label style={styles.field}>
+        <span style={styles.fieldLabel}>
+          {isS3 ? 'Secret access key' : 'Password'}
+        </span>
+        <input
+          style={styles.input}
+          type="password"
+          autoComplete="off"
+          value={http.password}
+          onChange={(e) =>
+            updateHttp({ password: (e.target as HTMLInputElement).value })
+          }
+        />
+      </label>
+      {isS3 && (
+        <label style={styles.field}>
+          <span style={styles.fieldLabel}>Region</span>
+          <input
+            style={styles.input}
+            value={http.region}
+            onChange={(e) =>
+              updateHttp({ region: (e.target as HTMLInputElement).value })
+            }
+          />
+        </label>
+      )}
+
+      <label style={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) =>
+            update({ enabled: (e.target as HTMLInputElement).checked })
+          }
+        />
+        <span>Back up automatically</span>
+        <select
+          style={styles.inlineSelect}
+          value={settings.intervalHours}
+          disabled={!settings.enabled}
+          onChange={(e) =>
+            update({
+              intervalHours: Number((e.target as HTMLSelectElement).value),
+            })
+          }
+        >
+          {INTERVAL_OPTIONS.map((o) => (
+            <option key={o.hours} value={o.hours}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={styles.checkboxRow}>
+        <span>Keep the newest</span>
+        <input
+          style={styles.numberInput}
+          type="number"
+          min={1}
+          max={365}
+          value={settings.keep}
+          onChange={(e) =>
+            update({
+              keep: Math.max(
+                1,
+                Math.floor(Number((e.target as HTMLInputElement).value)) || 1,
+              ),
+            })
+          }
+        />
+        <span>backups</span>
+      </label>
+
+      <div style={styles.actions}>
+        <button
+          type="button"
+          style={styles.button}
+          onClick={() => void handleSave()}
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          style={styles.button}
+          disabled={!isConnected || busy || !isBackupConfigured(settings)}
+          onClick={handleBackupNow}
+        >
+          {busy ? 'Backing up…' : 'Back up now'}
+        </button>
+      </div>
+
+      {notice && (
+        <p style={notice.kind === 'error' ? styles.error : styles.success}>
+          {notice.text}
+        </p>
+      )}
+
+      {status && (
+        <p style={styles.status}>
+          Last backup:{' '}
+          {status.lastSuccessAt !== null
+            ? formatTimestamp(status.lastSuccessAt)
+            : 'never'}
+          {status.lastError && (
+            <span style={styles.statusError}>
+              {' '}
+              — last attempt failed: {status.lastError}
+            </span>
+          )}
+        </p>
+      )}
+
+      {history !== null && (
+        <>
+          <div style={styles.historyHeader}>
+            <span>Stored backups</span>
+            <button
+              type="button"
+              style={styles.linkButton}
+              onClick={() => void refreshHistory(settings)}
+            >
+              Refresh
+            </button>
+          </div>
+          {history.length === 0 ? (
+            <p style={styles.empty}>No backups on the server yet.</p>
+          ) : (
+            <ul style={styles.list}>
+              {history.map((entry) => (
+                <li key={entry.id} style={styles.item}>
+                  <span style={styles.when}>
+                    {formatTimestamp(entry.timestamp)}
+                  </span>
+                  <span style={styles.size}>{formatSize(entry.size)}</span>
+                  <button
+                    type="button"
+                    style={styles.button}
+                    onClick={() => void handleDownload(entry)}
+                  >
+                    Download
+                  </button>
+                  <button
+                    type="button"
+                    style={styles.button}
+                    onClick={() => void handleDelete(entry)}
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  intro: {
+    fontSize: '12px',
+    color: '#6a8a9a',
+    margin: '0 0 12px',
+    lineHeight: '1.4',
+  },
+  field: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    marginBottom: '8px',
+  },
+  fieldLabel: {
+    width: '120px',
+    fontSize: '13px',
+    color: '#c8d8e8',
+  },
+  input: {
+    flex: 1,
+    background: '#1e1e1e',
+    border: '1px solid #3a4a5a',
+    borderRadius: '4px',
+    color: '#c8d8e8',
+    fontSize: '13px',
+    padding: '4px 6px',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    margin: '12px 0 0',
+    fontSize: '13px',
+    color: '#c8d8e8',
+  },
+  inlineSelect: {
+    background: '#1e1e1e',
+    border: '1px solid #3a4a5a',
+    borderRadius: '4px',
+    color: '#c8d8e8',
+    fontSize: '12px',
+    padding: '2px 4px',
+  },
+  numberInput: {
+    width: '56px',
+    background: '#1e1e1e',
+    border: '1px solid #3a4a5a',
+    borderRadius: '4px',
+    color: '#c8d8e8',
+    fontSize: '13px',
+    padding: '2px 4px',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+    marginTop: '14px',
+  },
+  button: {
+    background: '#34495e',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#cce0f5',
+    fontSize: '12px',
+    padding: '3px 10px',
+    cursor: 'pointer',
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    color: '#6aa3d5',
+    fontSize: '12px',
+    cursor: 'pointer',
+    padding: 0,
+  },
+  status: {
+    fontSize: '12px',
+    color: '#9cb7d3',
+    margin: '12px 0 0',
+  },
+  statusError: {
+    color: '#e07070',
+  },
+  historyHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    margin: '14px 0 4px',
+    fontSize: '12px',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.04em',
+    color: '#7a9ab8',
+  },
+  empty: {
+    fontSize: '13px',
+    color: '#9cb7d3',
+    margin: 0,
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    maxHeight: '240px',
+    overflowY: 'auto' as const,
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '6px 0',
+    borderBottom: '1px solid rgba(255,255,255,0.06)',
+    fontSize: '13px',
+    color: '#c8d8e8',
+  },
+  when: {
+    flex: 1,
+  },
+  size: {
+    color: '#6a8a9a',
+    fontSize: '12px',
+  },
+  success: {
+    fontSize: '12px',
+    color: '#7fbf7f',
+    margin: '10px 0 0',
+  },
+  error: {
+    fontSize: '12px',
+    color: '#e07070',
+    margin: '10px 0 0',
+  },
+};
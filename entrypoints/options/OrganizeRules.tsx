@@ -0,0 +1,360 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CSSProperties } from 'react';
+import {
+  loadOrganizeRules,
+  saveOrganizeRules,
+} from '@/storage/organize-storage';
+import type {
+  OrganizeAction,
+  OrganizePreviewEntry,
+  OrganizeRule,
+} from '@/types/organize';
+import type { BackgroundToViewMessage } from '@/types/messages';
+import { usePort } from '@/view/hooks/use-port';
+import { previewOrganizeRules } from '@/view/tree-actions';
+
+const DEFAULT_MARK_COLOR = '#e05050';
+
+function newRule(): OrganizeRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    enabled: true,
+    urlPattern: '',
+    titleContains: '',
+    windowTitleContains: '',
+    action: { kind: 'moveToGroup', groupPath: '' },
+  };
+}
+
+/**
+ * Options-page editor for auto-organize rules.
+ *
+ * Edits stay local until saved; the background picks saved rules up from
+ * storage. Preview asks the background (over the tree view's port) what
+ * the rules as currently edited would change in the existing tree.
+ */
+export function OrganizeRules() {
+  const [rules, setRules] = useState<OrganizeRule[] | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [preview, setPreview] = useState<
+    readonly OrganizePreviewEntry[] | null
+  >(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadOrganizeRules().then((stored) => {
+      if (!cancelled) setRules(stored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleMessage = useCallback((msg: BackgroundToViewMessage) => {
+    if (msg.command !== 'msg2view_organizePreviewResult') return;
+    setPreview(msg.entries as readonly OrganizePreviewEntry[]);
+  }, []);
+  const { postMessage, isConnected } = usePort(handleMessage, () => {});
+
+  if (!rules) return null;
+
+  function edit(next: OrganizeRule[]): void {
+    setRules(next);
+    setDirty(true);
+    setPreview(null);
+  }
+
+  function updateRule(index: number, partial: Partial<OrganizeRule>): void {
+    if (!rules) return;
+    edit(rules.map((r, i) => (i === index ? { ...r, ...partial } : r)));
+  }
+
+  function setActionKind(index: number, kind: OrganizeAction['kind']): void {
+    updateRule(index, {
+      action:
+        kind === 'mark'
+          ? { kind, color: DEFAULT_MARK_COLOR }
+          : { kind, groupPath: '' },
+    });
+  }
+
+  function handleSave(): void {
+    if (!rules) return;
+    void saveOrganizeRules(rules).then(() => setDirty(false));
+  }
+
+  const ruleNumber = (id: string) => rules.findIndex((r) => r.id === id) + 1;
+
+  return (
+    <>
+      <p style={styles.intro}>
+        File tabs into groups or color them when they open, finish loading or
+        get saved. Groups are created inside the tab&apos;s window as needed;
+        use / for nested groups. Of the rules matching a tab, the first move and
+        the first color apply.
+      </p>
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} style={styles.rule}>
+          <div style={styles.ruleHeader}>
+            <label style={styles.checkboxRow}>
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) =>
+                  updateRule(index, {
+                    enabled: (e.target as HTMLInputElement).checked,
+                  })
+                }
+              />
+              <span>Rule {index + 1}</span>
+            </label>
+            <button
+              type="button"
+              style={styles.linkButton}
+              onClick={() => edit(rules.filter((_, i) => i !== index))}
+            >
+              Remove
+            </button>
+          </div>
+          <label style={styles.field}>
+            <span style={styles.fieldLabel}>URL matches</span>
+            <input
+              style={styles.input}
+              placeholder="github.com/myorg/*"
+              value={rule.urlPattern}
+              onChange={(e) =>
+                updateRule(index, {
+                  urlPattern: (e.target as HTMLInputElement).value,
+                })
+              }
+            />
+          </label>
+          <label style={styles.field}>
+            <span style={styles.fieldLabel}>Title contains</span>
+            <input
+              style={styles.input}
+              value={rule.titleContains}
+              onChange={(e) =>
+                updateRule(index, {
+                  titleContains: (e.target as HTMLInputElement).value,
+                })
+              }
+            />
+          </label>
+          <label style={styles.field}>
+            <span style={styles.fieldLabel}>Window title contains</span>
+            <input
+              style={styles.input}
+              placeholder="Research"
+              value={rule.windowTitleContains}
+              onChange={(e) =>
+                updateRule(index, {
+                  windowTitleContains: (e.target as HTMLInputElement).value,
+                })
+              }
+            />
+          </label>
+          <div style={styles.field}>
+            <select
+              style={{ ...styles.input, ...styles.actionSelect }}
+              value={rule.action.kind}
+              onChange={(e) =>
+                setActionKind(
+                  index,
+                  (e.target as HTMLSelectElement)
+                    .value as OrganizeAction['kind'],
+                )
+              }
+            >
+              <option value="moveToGroup">Move to group</option>
+              <option value="mark">Mark with color</option>
+            </select>
+            {rule.action.kind === 'moveToGroup' ? (
+              <input
+                style={styles.input}
+                placeholder="Work/Repos"
+                value={rule.action.groupPath}
+                onChange={(e) =>
+                  updateRule(index, {
+                    action: {
+                      kind: 'moveToGroup',
+                      groupPath: (e.target as HTMLInputElement).value,
+                    },
+                  })
+                }
+              />
+            ) : (
+              <input
+                type="color"
+                value={rule.action.color}
+                onChange={(e) =>
+                  updateRule(index, {
+                    action: {
+                      kind: 'mark',
+                      color: (e.target as HTMLInputElement).value,
+                    },
+                  })
+                }
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div style={styles.actions}>
+        <button
+          type="button"
+          style={styles.button}
+          onClick={() => edit([...rules, newRule()])}
+        >
+          Add rule
+        </button>
+        <button
+          type="button"
+          style={styles.button}
+          disabled={!dirty}
+          onClick={handleSave}
+        >
+          {dirty ? 'Save' : 'Saved'}
+        </button>
+        <button
+          type="button"
+          style={styles.button}
+          disabled={!isConnected || rules.length === 0}
+          onClick={() => postMessage(previewOrganizeRules(rules))}
+        >
+          Preview
+        </button>
+      </div>
+
+      {preview !== null &&
+        (preview.length === 0 ? (
+          <p style={styles.empty}>No existing tabs would change.</p>
+        ) : (
+          <ul style={styles.list}>
+            {preview.map((entry) => (
+              <li
+                key={`${entry.idMVC}:${entry.ruleId}`}
+                style={styles.item}
+                title={entry.href}
+              >
+                <span style={styles.ruleTag}>#{ruleNumber(entry.ruleId)}</span>
+                <span style={styles.nodeText}>{entry.nodeText}</span>
+                <span style={styles.change}>{entry.change}</span>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  intro: {
+    fontSize: '12px',
+    color: '#6a8a9a',
+    margin: '0 0 12px',
+    lineHeight: '1.4',
+  },
+  rule: {
+    border: '1px solid #3a4a5a',
+    borderRadius: '6px',
+    padding: '8px 10px 2px',
+    marginBottom: '10px',
+  },
+  ruleHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '8px',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '13px',
+    color: '#c8d8e8',
+  },
+  field: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    marginBottom: '8px',
+  },
+  fieldLabel: {
+    width: '150px',
+    fontSize: '13px',
+    color: '#c8d8e8',
+  },
+  input: {
+    flex: 1,
+    background: '#1e1e1e',
+    border: '1px solid #3a4a5a',
+    borderRadius: '4px',
+    color: '#c8d8e8',
+    fontSize: '13px',
+    padding: '4px 6px',
+  },
+  actionSelect: {
+    flex: 'none',
+    width: '150px',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+    marginTop: '4px',
+  },
+  button: {
+    background: '#34495e',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#cce0f5',
+    fontSize: '12px',
+    padding: '3px 10px',
+    cursor: 'pointer',
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    color: '#6aa3d5',
+    fontSize: '12px',
+    cursor: 'pointer',
+    padding: 0,
+  },
+  empty: {
+    fontSize: '13px',
+    color: '#9cb7d3',
+    margin: '12px 0 0',
+  },
+  list: {
+    listStyle: 'none',
+    margin: '12px 0 0',
+    padding: 0,
+    maxHeight: '240px',
+    overflowY: 'auto' as const,
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '6px 0',
+    borderBottom: '1px solid rgba(255,255,255,0.06)',
+    fontSize: '13px',
+    color: '#c8d8e8',
+  },
+  ruleTag: {
+    color: '#7a9ab8',
+    fontSize: '11px',
+  },
+  nodeText: {
+    flex: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  change: {
+    color: '#6a8a9a',
+    fontSize: '12px',
+  },
+};
@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CSSProperties } from 'react';
+import { onStorageChanged } from '@/chrome/storage';
+import { listSnapshots } from '@/storage/snapshot-storage';
+import { SNAPSHOT_INDEX_KEY } from '@/types/snapshot';
+import type { SnapshotMeta } from '@/types/snapshot';
+import type { BackgroundToViewMessage } from '@/types/messages';
+import { usePort } from '@/view/hooks/use-port';
+import { restoreSnapshot } from '@/view/tree-actions';
+
+type RestoreStatus =
+  | { kind: 'idle' }
+  | { kind: 'pending'; id: string }
+  | { kind: 'done'; nodeCount: number }
+  | { kind: 'error'; message: string };
+
+function formatTimestamp(ts: number): string {
+  return new Date(ts).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Options-page list of rolling tree snapshots with a restore action.
+ *
+ * The list is read straight from storage; restore goes through the
+ * background (over the same port the tree view uses) so the live session
+ * swaps its tree and every open view re-initializes.
+ */
+export function SnapshotHistory() {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[] | null>(null);
+  const [status, setStatus] = useState<RestoreStatus>({ kind: 'idle' });
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      void listSnapshots().then((list) => {
+        if (!cancelled) setSnapshots(list);
+      });
+    };
+    refresh();
+    const cleanup = onStorageChanged('local', SNAPSHOT_INDEX_KEY, refresh);
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, []);
+
+  const handleMessage = useCallback((msg: BackgroundToViewMessage) => {
+    if (msg.command !== 'msg2view_snapshotRestoreResult') return;
+    setStatus(
+      msg.success
+        ? { kind: 'done', nodeCount: msg.nodeCount as number }
+        : {
+            kind: 'error',
+            message: (msg.error as string | undefined) ?? 'Restore failed',
+          },
+    );
+  }, []);
+  const { postMessage, isConnected } = usePort(handleMessage, () => {});
+
+  function handleRestore(meta: SnapshotMeta): void {
+    const ok = window.confirm(
+      `Replace the current tree with the ${meta.tier} snapshot from ${formatTimestamp(meta.timestamp)}?\n\nOpen tabs and windows are kept; everything else in the tree is replaced.`,
+    );
+    if (!ok) return;
+    setStatus({ kind: 'pending', id: meta.id });
+    postMessage(restoreSnapshot(meta.id));
+  }
+
+  if (snapshots === null) return null;
+
+  return (
+    <>
+      <p style={styles.intro}>
+        A copy of the tree is kept every hour (last 24), day (last 7) and week
+        (last 4). Restoring replaces the whole tree.
+      </p>
+      {snapshots.length === 0 ? (
+        <p style={styles.empty}>No snapshots yet.</p>
+      ) : (
+        <ul style={styles.list}>
+          {snapshots.map((meta) => (
+            <li key={meta.id} style={styles.item}>
+              <span style={styles.tier}>{meta.tier}</span>
+              <span style={styles.when}>{formatTimestamp(meta.timestamp)}</span>
+              <span style={styles.count}>{meta.nodeCount} nodes</span>
+              <button
+                type="button"
+                style={styles.button}
+                disabled={!isConnected || status.kind === 'pending'}
+                onClick={() => handleRestore(meta)}
+              >
+                {status.kind === 'pending' && status.id === meta.id
+                  ? 'Restoring…'
+                  : 'Restore'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {status.kind === 'done' && (
+        <p style={styles.success}>
+          Restored {status.nodeCount} nodes. Open tree views have been
+          refreshed.
+        </p>
+      )}
+      {status.kind === 'error' && (
+        <p style={styles.error}>Restore failed: {status.message}</p>
+      )}
+    </>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  intro: {
+    fontSize: '12px',
+    color: '#6a8a9a',
+    margin: '0 0 12px',
+    lineHeight: '1.4',
+  },
+  empty: {
+    fontSize: '13px',
+    color: '#9cb7d3',
+    margin: 0,
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    maxHeight: '280px',
+    overflowY: 'auto' as const,
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '6px 0',
+    borderBottom: '1px solid rgba(255,255,255,0.06)',
+    fontSize: '13px',
+    color: '#c8d8e8',
+  },
+  tier: {
+    width: '56px',
+    fontSize: '11px',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.04em',
+    color: '#7a9ab8',
+  },
+  when: {
+    flex: 1,
+  },
+  count: {
+    color: '#6a8a9a',
+    fontSize: '12px',
+  },
+  button: {
+    background: '#34495e',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#cce0f5',
+    fontSize: '12px',
+    padding: '3px 10px',
+    cursor: 'pointer',
+  },
+  success: {
+    fontSize: '12px',
+    color: '#7fbf7f',
+    margin: '10px 0 0',
+  },
+  error: {
+    fontSize: '12px',
+    color: '#e07070',
+    margin: '10px 0 0',
+  },
+};
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState, type CSSProperties } from 'react';
+import { browser } from 'wxt/browser';
+import {
+  parsePlaceholderUrl,
+  type PlaceholderReason,
+} from '@/chrome/placeholder';
+import { createTab, getCurrentTab, updateTab } from '@/chrome/tabs';
+
+const EXPLANATIONS: Record<PlaceholderReason, string> = {
+  'file-access':
+    'This is a file on your computer. The browser only lets Tabs Outliner ' +
+    'open files when "Allow access to file URLs" is turned on in its ' +
+    'extension settings.',
+  blocked:
+    'This is a browser debugging page that extensions are not allowed to ' +
+    'open.',
+  expired:
+    'This address pointed at data held by the page that created it, which ' +
+    'no longer exists.',
+  untrusted:
+    'This address carries its own page content or belongs to another ' +
+    'extension, so Tabs Outliner does not open it without asking.',
+  unsupported: 'The browser cannot show this kind of address in a tab.',
+  failed: 'The browser refused to open this address.',
+};
+
+/** Reasons that may go away, so trying again is worth offering. */
+const RETRYABLE: ReadonlySet<PlaceholderReason> = new Set([
+  'file-access',
+  'failed',
+]);
+
+/** Reasons the user can override, after confirming, to open the address. */
+const CONFIRMABLE: ReadonlySet<PlaceholderReason> = new Set([
+  'expired',
+  'untrusted',
+]);
+
+/**
+ * Placeholder page: stands in for a saved tab whose URL couldn't be
+ * reopened, showing the original address and why.
+ */
+export function App() {
+  const target = useMemo(() => parsePlaceholderUrl(window.location.href), []);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (target) document.title = target.title || target.url;
+  }, [target]);
+
+  if (!target) {
+    return (
+      <div style={styles.page}>
+        <div style={styles.card}>
+          <p style={styles.text}>No address to show.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(target.url);
+      setStatus('Address copied.');
+    } catch {
+      setStatus('Could not copy the address.');
+    }
+  };
+
+  const retry = async () => {
+    try {
+      const tab = await getCurrentTab();
+      if (tab?.id == null) return;
+      await updateTab(tab.id, { url: target.url });
+    } catch {
+      setStatus('The browser still refuses to open this address.');
+    }
+  };
+
+  const openAnyway = () => {
+    if (!window.confirm(`Open this address?\n\n${target.url}`)) return;
+    void retry();
+  };
+
+  const openExtensionSettings = () => {
+    void createTab({ url: `chrome://extensions/?id=${browser.runtime.id}` });
+  };
+
+  return (
+    <div style={styles.page}>
+      <div style={styles.card}>
+        <h1 style={styles.title}>{target.title || 'Tab not reopened'}</h1>
+        <p style={styles.text}>{EXPLANATIONS[target.reason]}</p>
+        <code style={styles.url}>{target.url}</code>
+        <div style={styles.actions}>
+          <button style={styles.button} onClick={() => void copy()}>
+            Copy address
+          </button>
+          {target.reason === 'file-access' && (
+            <button style={styles.button} onClick={openExtensionSettings}>
+              Open extension settings
+            </button>
+          )}
+          {RETRYABLE.has(target.reason) && (
+            <button style={styles.button} onClick={() => void retry()}>
+              Try again
+            </button>
+          )}
+          {CONFIRMABLE.has(target.reason) && (
+            <button style={styles.button} onClick={openAnyway}>
+              Open anyway
+            </button>
+          )}
+        </div>
+        {status && <p style={styles.status}>{status}</p>}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, CSSProperties> = {
+  page: {
+    minHeight: '100vh',
+    background: '#202020',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+    padding: '24px',
+  },
+  card: {
+    background: '#2a2a2a',
+    borderRadius: '12px',
+    maxWidth: '560px',
+    width: '100%',
+    padding: '32px',
+    boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+  },
+  title: {
+    margin: '0 0 12px',
+    fontSize: '20px',
+    fontWeight: 600,
+    color: '#cce0f5',
+    overflowWrap: 'anywhere',
+  },
+  text: {
+    margin: '0 0 16px',
+    fontSize: '14px',
+    lineHeight: '1.6',
+    color: '#c8d8e8',
+  },
+  url: {
+    display: 'block',
+    background: '#1f1f1f',
+    border: '1px solid #3a3a3a',
+    borderRadius: '6px',
+    padding: '10px 12px',
+    fontSize: '13px',
+    color: '#9cb7d3',
+    overflowWrap: 'anywhere',
+    userSelect: 'all',
+  },
+  actions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginTop: '16px',
+  },
+  button: {
+    background: '#3b7bb8',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '6px',
+    padding: '8px 16px',
+    fontSize: '14px',
+    cursor: 'pointer',
+  },
+  status: {
+    margin: '12px 0 0',
+    fontSize: '13px',
+    color: '#7a9ab8',
+  },
+};
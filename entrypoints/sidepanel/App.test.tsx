@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/preact';
+import type { PortState } from '@/chrome/runtime';
+
+// Capture hook callbacks for driving the test
+let capturedOnMessage: ((msg: unknown) => void) | null = null;
+let capturedOnReconnect: (() => void) | null = null;
+let mockConnectionState: PortState = 'connected';
+
+const mockPostMessage = vi.fn();
+
+// Mock the view module hooks
+vi.mock('@/view/index', async () => {
+  const actual = await vi.importActual('@/view/index');
+  return {
+    ...actual,
+    usePort: (onMessage: (msg: unknown) => void, onReconnect: () => void) => {
+      capturedOnMessage = onMessage;
+      capturedOnReconnect = onReconnect;
+      return {
+        postMessage: mockPostMessage,
+        connectionState: mockConnectionState,
+        isConnected: mockConnectionState === 'connected',
+      };
+    },
+  };
+});
+
+import { App } from './App';
+import { makeTree } from '@/view/__tests__/fixtures';
+import type { NodeDTO } from '@/types/node-dto';
+import type { Msg_InitTreeView } from '@/types/messages';
+import { act } from '@testing-library/preact';
+
+function init(root: NodeDTO) {
+  const initMsg: Msg_InitTreeView = {
+    command: 'msg2view_initTreeView',
+    rootNode_currentSession: root,
+    globalViewId: 1,
+    instanceId: 'test',
+    deltaSeq: 0,
+  };
+  act(() => capturedOnMessage!(initMsg));
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  capturedOnMessage = null;
+  capturedOnReconnect = null;
+  mockConnectionState = 'connected';
+});
+
+describe('Side panel App', () => {
+  it('shows loading state initially', () => {
+    render(<App />);
+    expect(screen.getByText('Loading tree...')).toBeTruthy();
+  });
+
+  it('requests tree on mount and on reconnect', () => {
+    render(<App />);
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      request: 'request2bkg_get_tree_structure',
+    });
+    mockPostMessage.mockClear();
+
+    act(() => capturedOnReconnect!());
+
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      request: 'request2bkg_get_tree_structure',
+    });
+  });
+
+  it('shows an empty state when no window is focused', () => {
+    render(<App />);
+    init(makeTree());
+    expect(screen.getByText('No window to show')).toBeTruthy();
+  });
+
+  it('renders the tree once a window is focused', () => {
+    render(<App />);
+    const root = makeTree();
+    root.subnodes[0].isFocusedWindow = true;
+    init(root);
+
+    // react-arborist's virtualized output doesn't render text in happy-dom,
+    // so we verify the placeholders are gone
+    expect(screen.queryByText('Loading tree...')).toBeNull();
+    expect(screen.queryByText('No window to show')).toBeNull();
+  });
+
+  it('shows connection banner when disconnected', () => {
+    mockConnectionState = 'connecting';
+    render(<App />);
+    expect(screen.getByText('Reconnecting to background...')).toBeTruthy();
+  });
+});
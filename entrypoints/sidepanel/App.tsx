@@ -0,0 +1,147 @@
+import { useRef, useCallback, useState, useMemo } from 'react';
+import { Tree, type TreeApi, type NodeApi } from 'react-arborist';
+import type { NodeDTO } from '@/types/node-dto';
+import {
+  usePort,
+  useTreeData,
+  useWindowSize,
+  useTreeSync,
+  useTreeInteractions,
+  useCurrentWindow,
+  nodeId,
+  nodeChildren,
+  requestTree,
+  moveHierarchy,
+} from '@/view/index';
+import { TreeContext } from '../tree/components/TreeContext';
+import { NodeRow } from '../tree/components/NodeRow';
+import { ClickRow } from '../tree/components/ClickRow';
+import { HoveringMenu } from '../tree/components/HoveringMenu';
+import { makeDragPreview } from '../tree/components/DragPreview';
+
+/** Row height as configured on the Tree component. */
+const ROW_HEIGHT = 24;
+
+const noop = () => {};
+
+// Nothing can be dropped beside the shown window at the top level, so
+// drags stay inside it.
+const isOutsideWindow = ({ parentNode }: { parentNode: NodeApi<NodeDTO> }) =>
+  parentNode.isRoot;
+
+/**
+ * Side panel: the tree view narrowed to the current window. It talks to
+ * the background over the same 'tree-view' port as the full tree page and
+ * reuses its row components, but leaves out the toolbar, search, context
+ * menu and clipboard — the full tree page is one click away for those.
+ */
+export function App() {
+  const treeRef = useRef<TreeApi<NodeDTO>>(null);
+  const [treeContainer, setTreeContainer] = useState<HTMLDivElement | null>(
+    null,
+  );
+  const { state, isLoading, handleMessage, clearEditing } = useTreeData();
+  const { height: windowHeight } = useWindowSize();
+  // postMessage is stable (useCallback with [] deps in usePort) — safe to omit from deps.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const onReconnect = useCallback(() => postMessage(requestTree()), []);
+  const { postMessage, connectionState } = usePort(handleMessage, onReconnect);
+
+  const currentWindow = useCurrentWindow(state.root);
+
+  const { onToggle, onActivate } = useTreeSync({
+    treeRef,
+    root: state.root,
+    globalViewId: state.globalViewId,
+    needsFullRefresh: state.needsFullRefresh,
+    postMessage,
+  });
+  const { hoverState, clearHover, handleAction, ctxValue, localCursorId } =
+    useTreeInteractions({
+      postMessage,
+      treeContainer,
+      selectedId: state.selectedId,
+      editingNode: state.editingNode,
+      clearEditing,
+      onOpenContextMenu: noop,
+      hasClipboard: false,
+      clipboardEntry: null,
+    });
+
+  const handleTreeMove = useCallback(
+    ({
+      dragIds,
+      parentId,
+      index,
+    }: {
+      dragIds: string[];
+      parentId: string | null;
+      index: number;
+    }) => {
+      if (dragIds.length === 0) return;
+      postMessage(moveHierarchy(dragIds[0], parentId, index));
+    },
+    [postMessage],
+  );
+
+  // The window row itself can't be picked up.
+  const currentWindowId = currentWindow?.idMVC;
+  const isWindowRow = useCallback(
+    (data: NodeDTO) => data.idMVC === currentWindowId,
+    [currentWindowId],
+  );
+
+  const dragPreview = useMemo(() => makeDragPreview({ treeRef }), []);
+
+  return (
+    <div className="tree-view-container">
+      {connectionState !== 'connected' && (
+        <div className="connection-banner">
+          {connectionState === 'connecting'
+            ? 'Reconnecting to background...'
+            : 'Disconnected from background'}
+        </div>
+      )}
+      {isLoading ? (
+        <div className="loading">Loading tree...</div>
+      ) : !currentWindow ? (
+        <div className="sidepanel-empty">No window to show</div>
+      ) : (
+        <div ref={setTreeContainer} onMouseLeave={clearHover}>
+          <TreeContext.Provider value={ctxValue}>
+            <Tree<NodeDTO>
+              ref={treeRef}
+              data={[currentWindow]}
+              idAccessor={nodeId}
+              childrenAccessor={nodeChildren}
+              initialOpenState={state.initialOpenMap ?? {}}
+              onToggle={onToggle}
+              onActivate={onActivate}
+              onMove={handleTreeMove}
+              disableDrag={isWindowRow}
+              disableDrop={isOutsideWindow}
+              disableMultiSelection
+              renderRow={ClickRow}
+              renderDragPreview={dragPreview}
+              selection={localCursorId ?? undefined}
+              width="100%"
+              height={windowHeight - 10}
+              rowHeight={ROW_HEIGHT}
+              indent={16}
+            >
+              {NodeRow}
+            </Tree>
+          </TreeContext.Provider>
+          {hoverState && (
+            <HoveringMenu
+              idMVC={hoverState.idMVC}
+              actions={hoverState.actions.actions}
+              anchorRect={hoverState.rect}
+              onAction={handleAction}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import { render } from 'preact';
+import { App } from './App';
+import '../tree/style.css';
+import './style.css';
+
+render(<App />, document.getElementById('root') as HTMLElement);
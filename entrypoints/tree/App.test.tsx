@@ -61,6 +61,7 @@ describe('Tree App', () => {
       rootNode_currentSession: makeTree(),
       globalViewId: 1,
       instanceId: 'test',
+      deltaSeq: 0,
     };
 
     act(() => capturedOnMessage!(initMsg));
@@ -97,6 +98,7 @@ describe('Tree App', () => {
       rootNode_currentSession: makeTree(),
       globalViewId: 1,
       instanceId: 'test',
+      deltaSeq: 0,
     };
 
     act(() => capturedOnMessage!(initMsg));
@@ -117,6 +119,7 @@ describe('Tree App', () => {
       rootNode_currentSession: makeTree(),
       globalViewId: 1,
       instanceId: 'test',
+      deltaSeq: 0,
     };
     act(() => capturedOnMessage!(initMsg));
     expect(
@@ -147,6 +150,7 @@ describe('Tree App', () => {
       rootNode_currentSession: makeTree(),
       globalViewId: 1,
       instanceId: 'test',
+      deltaSeq: 0,
     };
 
     act(() => capturedOnMessage!(initMsg));
@@ -12,13 +12,19 @@ import {
   useClipboard,
   useContextMenu,
   useKeyboardShortcuts,
+  useSelection,
+  useTreeSearch,
+  useDuplicates,
   nodeId,
   nodeChildren,
   requestTree,
   moveHierarchy,
+  moveHierarchies,
   executeAction,
   activateNode,
+  revealNode,
 } from '@/view/index';
+import { DAY_MS, STALE_AFTER_DAYS } from '@/view/node-age';
 import { TreeContext } from './components/TreeContext';
 import { NodeRow } from './components/NodeRow';
 import { ClickRow } from './components/ClickRow';
@@ -26,15 +32,20 @@ import { HoveringMenu } from './components/HoveringMenu';
 import { ContextMenu } from './components/ContextMenu';
 import { FirstRunImport } from './components/FirstRunImport';
 import { MainToolbar } from './components/MainToolbar';
+import { SearchBar } from './components/SearchBar';
+import { DuplicatesPanel } from './components/DuplicatesPanel';
 import { makeDragPreview } from './components/DragPreview';
 
 /** Height of the fixed combined toolbar at the bottom. */
 const TOOLBAR_HEIGHT = 32;
+/** Height of the search bar above the tree. */
+const SEARCH_BAR_HEIGHT = 28;
 /** Row height as configured on the Tree component. */
 const ROW_HEIGHT = 24;
 
 export function App() {
   const treeRef = useRef<TreeApi<NodeDTO>>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
   // Callback-ref state instead of useRef: the ref'd div is gated by
   // `isLoading` so it doesn't exist at App mount. A useState-driven
   // callback re-renders consumers when the element actually mounts,
@@ -49,7 +60,12 @@ export function App() {
     handleMessage,
     clearExport,
     clearExportHtml,
+    clearExportBookmarks,
+    clearExportMarkdown,
+    clearExportOpml,
     clearEditing,
+    findMatches,
+    hasNode,
   } = useTreeData();
   const { height: windowHeight } = useWindowSize();
   // postMessage is stable (useCallback with [] deps in usePort) — safe to omit from deps.
@@ -58,9 +74,32 @@ export function App() {
   const { postMessage, connectionState } = usePort(handleMessage, onReconnect);
 
   const clipboard = useClipboard({ postMessage });
+  const selection = useSelection();
   const { contextMenuState, openContextMenu, closeContextMenu } =
     useContextMenu();
 
+  const search = useTreeSearch({
+    postMessage,
+    root: state.root,
+    findMatches,
+    hasNode,
+    result: state.searchResult,
+  });
+  const duplicates = useDuplicates({
+    postMessage,
+    root: state.root,
+    groups: state.duplicateGroups,
+  });
+
+  // The aging view's cutoff is fixed when it is turned on; toggling it
+  // again picks up the current time.
+  const [staleBefore, setStaleBefore] = useState<number | null>(null);
+  const toggleAgingView = useCallback(() => {
+    setStaleBefore((prev) =>
+      prev == null ? Date.now() - STALE_AFTER_DAYS * DAY_MS : null,
+    );
+  }, []);
+
   const { onToggle, onActivate } = useTreeSync({
     treeRef,
     root: state.root,
@@ -84,17 +123,93 @@ export function App() {
     onOpenContextMenu: openContextMenu,
     hasClipboard: clipboard.hasClipboard,
     clipboardEntry: clipboard.entry,
+    searchTerms: search.terms,
+    searchCurrentId: search.currentId,
+    duplicateCounts: duplicates.counts,
+    staleBefore,
   });
 
+  // While filtering, react-arborist keeps a separate open map for the
+  // filtered view — expanding a folder there is a transient view action
+  // and must not persist a collapse change to the background.
+  const handleToggle = useCallback(
+    (id: string) => {
+      if (!search.isActive) onToggle(id);
+    },
+    [search.isActive, onToggle],
+  );
+
+  const { onNodeClick } = ctxValue;
+  const goToNode = useCallback(
+    (id: string | null) => {
+      if (!id) return;
+      onNodeClick(id);
+      void treeRef.current?.scrollTo(id);
+    },
+    [onNodeClick],
+  );
+
+  // A duplicate or search hit may sit inside a collapsed container, where
+  // the view has no row for it: ask the background to expand its ancestors
+  // and scroll once the refreshed tree contains it.
+  const pendingJumpRef = useRef<string | null>(null);
+  const revealAndGoTo = useCallback(
+    (id: string | null) => {
+      if (!id) return;
+      if (treeRef.current?.get(id)) {
+        goToNode(id);
+      } else {
+        pendingJumpRef.current = id;
+        postMessage(revealNode(id));
+      }
+    },
+    [goToNode, postMessage],
+  );
+  useEffect(() => {
+    const id = pendingJumpRef.current;
+    if (id && treeRef.current?.get(id)) {
+      pendingJumpRef.current = null;
+      goToNode(id);
+    }
+  }, [state.root, goToNode]);
+  // Before revealing a hit the view has no row for, re-ask the background:
+  // the answer that listed it predates any tree changes since the query.
+  const goToHit = useCallback(
+    (id: string | null) => {
+      if (id && !treeRef.current?.get(id)) search.refresh();
+      revealAndGoTo(id);
+    },
+    [revealAndGoTo, search],
+  );
+  const searchNext = useCallback(
+    () => goToHit(search.next()),
+    [goToHit, search],
+  );
+  const searchPrev = useCallback(
+    () => goToHit(search.prev()),
+    [goToHit, search],
+  );
+  const searchStep = useCallback(
+    (direction: 1 | -1) => (direction === 1 ? searchNext() : searchPrev()),
+    [searchNext, searchPrev],
+  );
+  const focusSearch = useCallback(() => {
+    searchInputRef.current?.focus();
+    searchInputRef.current?.select();
+  }, []);
+
   useKeyboardShortcuts({
     treeRef,
     postMessage,
     selectedId: localCursorId,
+    multiSelection: selection.selectedIds,
     lastKeyboardTargetId,
     editingId: state.editingNode?.idMVC ?? null,
     clipboard,
     closeContextMenu,
     contextMenuOpen: contextMenuState !== null,
+    onFocusSearch: focusSearch,
+    onSearchStep: searchStep,
   });
 
   const handleTreeMove = useCallback(
@@ -108,11 +223,12 @@ export function App() {
       index: number;
     }) => {
       if (dragIds.length === 0) return;
-      // Multi-drag not yet supported — only the first node is moved.
-      if (dragIds.length > 1) {
-        console.warn('[App] Multi-drag not supported; only moving first node');
-      }
-      postMessage(moveHierarchy(dragIds[0], parentId, index));
+      // Dragging a selected row drags the whole selection.
+      postMessage(
+        dragIds.length > 1
+          ? moveHierarchies(dragIds, parentId, index)
+          : moveHierarchy(dragIds[0], parentId, index),
+      );
     },
     [postMessage],
   );
@@ -143,10 +259,23 @@ export function App() {
     importResult: state.importResult,
     exportJson: state.exportJson,
     exportHtml: state.exportHtml,
+    exportBookmarks: state.exportBookmarks,
+    exportMarkdown: state.exportMarkdown,
+    exportOpml: state.exportOpml,
     clearExport,
     clearExportHtml,
+    clearExportBookmarks,
+    clearExportMarkdown,
+    clearExportOpml,
   });
 
+  // Text written to the OS clipboard on cut/copy: one line per node.
+  const nodeTexts = useCallback(
+    (ids: readonly string[]) =>
+      ids.map((id) => treeRef.current?.get(id)?.data.nodeText ?? '').join('\n'),
+    [],
+  );
+
   // Stable identity so react-arborist doesn't re-render the drag layer on
   // every App render. treeRef itself is stable across renders.
   const dragPreview = useMemo(() => makeDragPreview({ treeRef }), []);
@@ -160,6 +289,18 @@ export function App() {
             : 'Disconnected from background'}
         </div>
       )}
+      {!isLoading && (
+        <SearchBar
+          inputRef={searchInputRef}
+          query={search.query}
+          onQueryChange={search.setQuery}
+          matchCount={search.matchIds.length}
+          currentIndex={search.currentIndex}
+          onNext={searchNext}
+          onPrev={searchPrev}
+          onClear={search.clear}
+        />
+      )}
       {isLoading ? (
         <div className="loading">Loading tree...</div>
       ) : (
@@ -180,9 +321,12 @@ export function App() {
               idAccessor={nodeId}
               childrenAccessor={nodeChildren}
               initialOpenState={state.initialOpenMap ?? {}}
-              onToggle={onToggle}
+              onToggle={handleToggle}
               onActivate={onActivate}
               onMove={handleTreeMove}
+              onSelect={selection.onSelect}
+              searchTerm={search.isActive ? search.query : undefined}
+              searchMatch={(node) => search.matchSet.has(node.id)}
               renderRow={ClickRow}
               renderDragPreview={dragPreview}
               renderCursor={({ top, left, indent }) => (
@@ -220,7 +364,7 @@ export function App() {
               )}
               selection={localCursorId ?? undefined}
               width="100%"
-              height={windowHeight - TOOLBAR_HEIGHT - 10}
+              height={windowHeight - TOOLBAR_HEIGHT - SEARCH_BAR_HEIGHT - 10}
               rowHeight={ROW_HEIGHT}
               paddingBottom={scrollPadding}
               indent={20}
@@ -240,6 +384,7 @@ export function App() {
             <ContextMenu
               idMVC={contextMenuState.idMVC}
               nodeDTO={contextMenuState.nodeDTO}
+              targetIds={selection.targetsFor(contextMenuState.idMVC)}
               x={contextMenuState.x}
               y={contextMenuState.y}
               hasClipboard={clipboard.hasClipboard}
@@ -250,17 +395,13 @@ export function App() {
                 closeContextMenu();
               }}
               onCut={() => {
-                clipboard.cut(
-                  contextMenuState.idMVC,
-                  contextMenuState.nodeDTO.nodeText ?? '',
-                );
+                const ids = selection.targetsFor(contextMenuState.idMVC);
+                clipboard.cut(ids, nodeTexts(ids));
                 closeContextMenu();
               }}
               onCopy={() => {
-                clipboard.copy(
-                  contextMenuState.idMVC,
-                  contextMenuState.nodeDTO.nodeText ?? '',
-                );
+                const ids = selection.targetsFor(contextMenuState.idMVC);
+                clipboard.copy(ids, nodeTexts(ids));
                 closeContextMenu();
               }}
               onPaste={(parentId, pos) => {
@@ -271,11 +412,24 @@ export function App() {
                 postMessage(activateNode(id));
                 closeContextMenu();
               }}
+              onImport={handleImport}
               onClose={closeContextMenu}
             />
           )}
         </div>
       )}
+      {duplicates.isOpen && !isLoading && (
+        <DuplicatesPanel
+          groups={duplicates.groups}
+          options={duplicates.options}
+          onOptionChange={duplicates.setOption}
+          flagInTree={duplicates.flagInTree}
+          onFlagInTreeChange={duplicates.setFlagInTree}
+          onJump={revealAndGoTo}
+          onKeep={duplicates.keepOnly}
+          onClose={duplicates.close}
+        />
+      )}
       {showFirstRun && !isLoading && (
         <FirstRunImport
           onImport={handleImport}
@@ -288,6 +442,9 @@ export function App() {
           cursorIdRef={lastKeyboardTargetId}
           postMessage={postMessage}
           onOpenImport={openImport}
+          onToggleDuplicates={duplicates.toggle}
+          agingView={staleBefore != null}
+          onToggleAgingView={toggleAgingView}
         />
       )}
     </div>
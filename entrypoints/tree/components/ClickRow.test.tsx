@@ -33,8 +33,12 @@ function makeCtx(overrides: Partial<TreeContextValue> = {}): TreeContextValue {
     onNodeClick: vi.fn(),
     hasClipboard: false,
     isScrolling: false,
-    clipboardSourceId: null,
+    clipboardSourceIds: [],
     clipboardKind: null,
+    searchTerms: [],
+    searchCurrentId: null,
+    duplicateCounts: new Map(),
+    staleBefore: null,
     ...overrides,
   };
 }
@@ -130,6 +134,16 @@ describe('ClickRow', () => {
       expect(node.activate).not.toHaveBeenCalled();
     });
 
+    it('ctrl+click toggles like meta+click and skips the mousedown select', () => {
+      const node = makeNodeApi({ isSelected: false });
+      const { container } = renderClickRow(node);
+      const el = container.querySelector('[role="treeitem"]')!;
+      fireEvent.mouseDown(el, { button: 0, ctrlKey: true });
+      fireEvent.click(el, { ctrlKey: true });
+      expect(node.select).not.toHaveBeenCalled();
+      expect(node.selectMulti).toHaveBeenCalled();
+    });
+
     it('shift+click calls selectContiguous', () => {
       const node = makeNodeApi();
       const { container } = renderClickRow(node);
@@ -38,14 +38,16 @@ export function ClickRow({
         // their semantics depend on the full press-release pair.
         if (editingId) return;
         if (e.button !== 0) return;
-        if (e.metaKey || e.shiftKey) return;
+        if (e.ctrlKey || e.metaKey || e.shiftKey) return;
         selectNode();
       }}
       onClick={(e) => {
         // Suppress tree selection while any node is being inline-edited.
         // Without this, node.select() steals focus from the edit input.
         if (editingId) return;
-        if (e.metaKey) {
+        // Ctrl (Cmd on macOS) toggles a node in the multi-selection; Shift
+        // extends it from the anchor. Bulk actions act on the selection.
+        if (e.ctrlKey || e.metaKey) {
           if (node.isSelected) {
             node.deselect();
           } else {
@@ -9,20 +9,46 @@
  * accesses are inside useCallback or direct event handlers — never during
  * render — but the linter traces through closure chains and flags them.
  *
+ * Right-clicking a node inside a multi-selection turns cut/copy, save &
+ * close, hibernate, restore, delete and "Move to New Group" into bulk
+ * actions on
+ * `targetIds`; edit, moves, notes and sorting still act on the clicked node.
+ *
+ * Export and import act on the clicked node's subtree: it is exported on
+ * its own, and a picked file is imported as its first or last children.
+ *
  * Closes on: Escape keydown, click outside, or parent calling onClose.
  */
 
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { Fragment, useEffect, useRef, useCallback, useState } from 'react';
 import { createPortal } from 'react-dom';
 import type { TreeApi } from 'react-arborist';
 import type { NodeDTO } from '@/types/node-dto';
 import type { HoveringMenuActionId } from '@/types/node';
-import type { ViewToBackgroundMessage } from '@/types/messages';
-import { moveHierarchy } from '@/view/tree-actions';
+import type { Req_ExportTree, ViewToBackgroundMessage } from '@/types/messages';
+import type { SortDirection, SortKey } from '@/types/sort';
+import {
+  moveHierarchy,
+  addNote,
+  closeAllWindowsExceptThis,
+  executeActionOnNodes,
+  restoreNodes,
+  moveToNewGroup,
+  sortSubnodes,
+  groupSubnodesByDomain,
+  exportTree,
+  exportTreeHtml,
+  exportTreeMarkdown,
+  exportTreeOpml,
+} from '@/view/tree-actions';
+import type { NotePlacement } from '@/view/tree-actions';
+import { pickTreeFile } from './drag-import';
 
 export interface ContextMenuProps {
   idMVC: string;
   nodeDTO: NodeDTO;
+  /** Nodes the bulk-capable items act on: the selection or just idMVC. */
+  targetIds: readonly string[];
   x: number;
   y: number;
   hasClipboard: boolean;
@@ -33,10 +59,28 @@ export interface ContextMenuProps {
   onCopy: () => void;
   onPaste: (parentId: string | null, position: number) => void;
   onRestore: (idMVC: string) => void;
+  /** Import tree JSON as children of `parentId` at `position` (-1 = last). */
+  onImport: (json: string, parentId: string, position: number) => void;
   onClose: () => void;
 }
 
 const MENU_WIDTH = 220;
+
+const SORT_OPTIONS: readonly {
+  readonly label: string;
+  readonly by: SortKey;
+  readonly direction: SortDirection;
+}[] = [
+  { label: 'Title (A→Z)', by: 'title', direction: 'asc' },
+  { label: 'Title (Z→A)', by: 'title', direction: 'desc' },
+  { label: 'URL (A→Z)', by: 'url', direction: 'asc' },
+  { label: 'URL (Z→A)', by: 'url', direction: 'desc' },
+  { label: 'Domain (A→Z)', by: 'domain', direction: 'asc' },
+  { label: 'Domain (Z→A)', by: 'domain', direction: 'desc' },
+  { label: 'Date (Oldest First)', by: 'date', direction: 'asc' },
+  { label: 'Date (Newest First)', by: 'date', direction: 'desc' },
+];
+
 function clampPosition(
   x: number,
   y: number,
@@ -53,6 +97,7 @@ function clampPosition(
 export function ContextMenu({
   idMVC,
   nodeDTO,
+  targetIds,
   x,
   y,
   hasClipboard,
@@ -63,6 +108,7 @@ export function ContextMenu({
   onCopy,
   onPaste,
   onRestore,
+  onImport,
   onClose,
 }: ContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
@@ -87,16 +133,20 @@ export function ContextMenu({
 
   // Initial position uses a conservative estimate; corrected after mount
   // once actual menu height is known to avoid clipping variable-height sections.
+  // Re-measured when the sort options are shown or hidden (x/y are stable
+  // for the lifetime of this mount).
+  const [showSort, setShowSort] = useState(false);
   const [position, setPosition] = useState(() => clampPosition(x, y, 400));
   useEffect(() => {
     if (!menuRef.current) return;
     const actualHeight = menuRef.current.offsetHeight;
     setPosition(clampPosition(x, y, actualHeight));
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps -- x/y are stable for the lifetime of this mount
+  }, [showSort, x, y]);
   const { top, left } = position;
 
   const actions = nodeDTO.hoveringMenuActions;
   const hasClose = !!actions.closeAction;
+  const hasHibernate = !!actions.hibernateAction;
   const hasDelete = !!actions.deleteAction;
   const hasEdit = !!actions.editTitleAction;
   const isInternal = nodeDTO.isSubnodesPresent || nodeDTO.subnodes.length > 0;
@@ -105,6 +155,13 @@ export function ContextMenu({
   const isSavedWindow =
     nodeDTO.titleBackgroundCssClass === 'windowFrame' && !hasClose;
   const canRestore = isSavedTab || isSavedWindow;
+  const isActiveWindow =
+    nodeDTO.titleBackgroundCssClass === 'windowFrame' && hasClose;
+  // The clicked node's own actions don't describe a mixed selection, so
+  // bulk items are always offered; the background skips nodes they don't
+  // apply to.
+  const isBatch = targetIds.length > 1;
+  const count = isBatch ? ` (${targetIds.length})` : '';
 
   // Pre-compute which move directions are valid for the right-clicked node.
   // Accessing treeRef.current during render is intentional here — disabled
@@ -216,6 +273,54 @@ export function ContextMenu({
     [idMVC, treeRef, postMessage, onClose],
   );
 
+  const handleBulk = useCallback(
+    (
+      actionId:
+        | 'closeAction'
+        | 'deleteAction'
+        | 'hibernateAction'
+        | 'restore'
+        | 'group',
+    ) => {
+      if (actionId === 'restore') {
+        postMessage(restoreNodes(targetIds));
+      } else if (actionId === 'group') {
+        postMessage(moveToNewGroup(targetIds));
+      } else {
+        postMessage(executeActionOnNodes(targetIds, actionId));
+      }
+      onClose();
+    },
+    [targetIds, postMessage, onClose],
+  );
+
+  const handleAddNote = useCallback(
+    (placement: NotePlacement) => {
+      postMessage(addNote(placement, idMVC));
+      onClose();
+    },
+    [idMVC, postMessage, onClose],
+  );
+
+  const handleExport = useCallback(
+    (exportRequest: (rootIdMVC: string) => Req_ExportTree) => {
+      postMessage(exportRequest(idMVC));
+      onClose();
+    },
+    [idMVC, postMessage, onClose],
+  );
+
+  // The menu closes right away; the import is sent once a file is picked.
+  const handleImportHere = useCallback(
+    (position: number) => {
+      onClose();
+      void pickTreeFile().then((json) => {
+        if (json) onImport(json, idMVC, position);
+      });
+    },
+    [idMVC, onImport, onClose],
+  );
+
   const item = (
     label: string,
     shortcut: string,
@@ -249,11 +354,11 @@ export function ContextMenu({
       onContextMenu={(e) => e.preventDefault()}
     >
       <div className="ctx-menu-section">
-        {item('Cut', 'Ctrl+X', () => {
+        {item(`Cut${count}`, 'Ctrl+X', () => {
           onCut();
           onClose();
         })}
-        {item('Copy', 'Ctrl+C', () => {
+        {item(`Copy${count}`, 'Ctrl+C', () => {
           onCopy();
           onClose();
         })}
@@ -269,31 +374,55 @@ export function ContextMenu({
         )}
       </div>
 
-      {(hasEdit || hasClose || hasDelete || canRestore) && (
+      {isBatch && (
         <>
           {separator()}
           <div className="ctx-menu-section">
-            {hasEdit &&
-              item('Edit', 'F2', () => {
-                onAction(idMVC, 'editTitleAction');
-              })}
-            {hasClose &&
-              item('Save & Close', 'Backspace', () => {
-                onAction(idMVC, 'closeAction');
-              })}
-            {canRestore &&
-              item('Restore', 'o', () => {
-                onRestore(idMVC);
-                onClose();
-              })}
-            {hasDelete &&
-              item('Delete', 'Del', () => {
-                onAction(idMVC, 'deleteAction');
-              })}
+            {item(`Save & Close${count}`, 'Backspace', () =>
+              handleBulk('closeAction'),
+            )}
+            {item(`Hibernate${count}`, '', () => handleBulk('hibernateAction'))}
+            {item(`Restore${count}`, 'o', () => handleBulk('restore'))}
+            {item(`Delete${count}`, 'Del', () => handleBulk('deleteAction'))}
           </div>
         </>
       )}
 
+      {!isBatch &&
+        (hasEdit || hasClose || hasHibernate || hasDelete || canRestore) && (
+          <>
+            {separator()}
+            <div className="ctx-menu-section">
+              {hasEdit &&
+                item('Edit', 'F2', () => {
+                  onAction(idMVC, 'editTitleAction');
+                })}
+              {hasClose &&
+                item('Save & Close', 'Backspace', () => {
+                  onAction(idMVC, 'closeAction');
+                })}
+              {hasHibernate &&
+                item('Hibernate', '', () => {
+                  onAction(idMVC, 'hibernateAction');
+                })}
+              {isActiveWindow &&
+                item('Close Other Windows', '', () => {
+                  postMessage(closeAllWindowsExceptThis(idMVC));
+                  onClose();
+                })}
+              {canRestore &&
+                item('Restore', 'o', () => {
+                  onRestore(idMVC);
+                  onClose();
+                })}
+              {hasDelete &&
+                item('Delete', 'Del', () => {
+                  onAction(idMVC, 'deleteAction');
+                })}
+            </div>
+          </>
+        )}
+
       {separator()}
       <div className="ctx-menu-section">
         {item('Move Up', 'Ctrl+↑', () => handleMove('up'), !canMoveUp)}
@@ -307,6 +436,37 @@ export function ContextMenu({
           !canMoveFirst,
         )}
         {item('To Last', 'Ctrl+End', () => handleMove('last'), !canMoveLast)}
+        {item(`Move to New Group${count}`, '', () => handleBulk('group'))}
+      </div>
+
+      {separator()}
+      <div className="ctx-menu-section">
+        {item('Add Note After', 'n', () => handleAddNote('nextSibling'))}
+        {item('Add Note Before', 'Shift+N', () => handleAddNote('prevSibling'))}
+        {item('Add Note as First Child', 'Shift+A', () =>
+          handleAddNote('firstSubnode'),
+        )}
+        {item('Add Note as Last Child', 'a', () =>
+          handleAddNote('lastSubnode'),
+        )}
+        {item('Wrap in Note', 'p', () => handleAddNote('parent'))}
+        {item('Add Note at End of Tree', 'e', () => handleAddNote('endOfTree'))}
+      </div>
+
+      {separator()}
+      <div className="ctx-menu-section">
+        {item('Export This Node…', '', () => handleExport(exportTree))}
+        {item('Export This Node as HTML…', '', () =>
+          handleExport(exportTreeHtml),
+        )}
+        {item('Export This Node as Markdown…', '', () =>
+          handleExport(exportTreeMarkdown),
+        )}
+        {item('Export This Node as OPML…', '', () =>
+          handleExport(exportTreeOpml),
+        )}
+        {item('Import Here as First Child…', '', () => handleImportHere(0))}
+        {item('Import Here as Last Child…', '', () => handleImportHere(-1))}
       </div>
 
       {isInternal && (
@@ -321,6 +481,25 @@ export function ContextMenu({
               });
               onClose();
             })}
+            {item(showSort ? 'Sort Children ▾' : 'Sort Children ▸', '', () =>
+              setShowSort((shown) => !shown),
+            )}
+            {showSort && (
+              <div className="ctx-menu-submenu">
+                {SORT_OPTIONS.map(({ label, by, direction }) => (
+                  <Fragment key={label}>
+                    {item(`by ${label}`, '', () => {
+                      postMessage(sortSubnodes(idMVC, by, direction));
+                      onClose();
+                    })}
+                  </Fragment>
+                ))}
+                {item('Group by Domain', '', () => {
+                  postMessage(groupSubnodesByDomain(idMVC));
+                  onClose();
+                })}
+              </div>
+            )}
           </div>
         </>
       )}
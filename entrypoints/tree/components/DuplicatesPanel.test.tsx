@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, fireEvent } from '@testing-library/preact';
+import { DuplicatesPanel } from './DuplicatesPanel';
+import {
+  DEFAULT_DUPLICATE_SCAN_OPTIONS,
+  type DuplicateGroup,
+} from '@/types/duplicates';
+
+const GROUP: DuplicateGroup = {
+  url: 'https://example.com/',
+  occurrences: [
+    {
+      idMVC: 'a',
+      nodeText: 'Example',
+      href: 'https://example.com/',
+      active: true,
+      containerText: 'Window',
+    },
+    {
+      idMVC: 'b',
+      nodeText: '',
+      href: 'https://example.com/#top',
+      active: false,
+      containerText: '',
+    },
+  ],
+};
+
+function renderPanel(
+  overrides: Partial<Parameters<typeof DuplicatesPanel>[0]> = {},
+) {
+  const props = {
+    groups: [GROUP],
+    options: DEFAULT_DUPLICATE_SCAN_OPTIONS,
+    onOptionChange: vi.fn(),
+    flagInTree: false,
+    onFlagInTreeChange: vi.fn(),
+    onJump: vi.fn(),
+    onKeep: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  return { props, ...render(<DuplicatesPanel {...props} />) };
+}
+
+describe('DuplicatesPanel', () => {
+  it('summarizes groups and extra copies', () => {
+    const { container } = renderPanel();
+    expect(container.querySelector('.duplicates-summary')!.textContent).toBe(
+      '1 URL, 1 extra copy',
+    );
+  });
+
+  it('says so when there are no duplicates', () => {
+    const { container } = renderPanel({ groups: [] });
+    expect(container.querySelector('.duplicates-summary')!.textContent).toBe(
+      'No duplicates',
+    );
+    expect(container.querySelector('.duplicates-group')).toBeNull();
+  });
+
+  it('lists occurrences, falling back to the href for untitled ones', () => {
+    const { container } = renderPanel();
+    const jumps = container.querySelectorAll('.duplicates-jump');
+    expect([...jumps].map((el) => el.textContent)).toEqual([
+      'Example',
+      'https://example.com/#top',
+    ]);
+    const where = container.querySelectorAll('.duplicates-where');
+    expect(where[0].textContent).toBe('open · Window');
+    expect(where[1].textContent).toBe('saved');
+  });
+
+  it('jumps to and keeps an occurrence', () => {
+    const { container, props } = renderPanel();
+    fireEvent.click(container.querySelectorAll('.duplicates-jump')[1]);
+    expect(props.onJump).toHaveBeenCalledWith('b');
+    fireEvent.click(container.querySelectorAll('.duplicates-keep')[0]);
+    expect(props.onKeep).toHaveBeenCalledWith(GROUP, 'a');
+  });
+
+  it('reports option and flag changes', () => {
+    const { container, props } = renderPanel();
+    const boxes = container.querySelectorAll('input[type="checkbox"]');
+    fireEvent.click(boxes[0]);
+    expect(props.onOptionChange).toHaveBeenCalledWith('ignoreFragment', false);
+    fireEvent.click(boxes[3]);
+    expect(props.onFlagInTreeChange).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,110 @@
+import type { DuplicateGroup, DuplicateScanOptions } from '@/types/duplicates';
+
+interface DuplicatesPanelProps {
+  groups: readonly DuplicateGroup[];
+  options: DuplicateScanOptions;
+  onOptionChange: (key: keyof DuplicateScanOptions, value: boolean) => void;
+  flagInTree: boolean;
+  onFlagInTreeChange: (flag: boolean) => void;
+  /** Move the cursor to an occurrence and scroll it into view. */
+  onJump: (idMVC: string) => void;
+  /** Keep `idMVC` and remove the group's other occurrences. */
+  onKeep: (group: DuplicateGroup, idMVC: string) => void;
+  onClose: () => void;
+}
+
+const OPTION_LABELS: ReadonlyArray<[keyof DuplicateScanOptions, string]> = [
+  ['ignoreFragment', 'Ignore #fragment'],
+  ['ignoreTrackingParams', 'Ignore tracking params'],
+  ['ignoreTrailingSlash', 'Ignore trailing slash'],
+];
+
+function summarize(groups: readonly DuplicateGroup[]): string {
+  if (groups.length === 0) return 'No duplicates';
+  const extra = groups.reduce((n, g) => n + g.occurrences.length - 1, 0);
+  return `${groups.length} ${groups.length === 1 ? 'URL' : 'URLs'}, ${extra} extra ${extra === 1 ? 'copy' : 'copies'}`;
+}
+
+export function DuplicatesPanel({
+  groups,
+  options,
+  onOptionChange,
+  flagInTree,
+  onFlagInTreeChange,
+  onJump,
+  onKeep,
+  onClose,
+}: DuplicatesPanelProps) {
+  return (
+    <div className="duplicates-panel" role="dialog" aria-label="Duplicates">
+      <div className="duplicates-header">
+        <span className="duplicates-title">Duplicates</span>
+        <span className="duplicates-summary">{summarize(groups)}</span>
+        <button
+          type="button"
+          className="duplicates-close"
+          title="Close"
+          onClick={onClose}
+        >
+          ✕
+        </button>
+      </div>
+      <div className="duplicates-options">
+        {OPTION_LABELS.map(([key, label]) => (
+          <label key={key}>
+            <input
+              type="checkbox"
+              checked={options[key]}
+              onChange={(e) => onOptionChange(key, e.currentTarget.checked)}
+            />
+            {label}
+          </label>
+        ))}
+        <label>
+          <input
+            type="checkbox"
+            checked={flagInTree}
+            onChange={(e) => onFlagInTreeChange(e.currentTarget.checked)}
+          />
+          Flag in tree
+        </label>
+      </div>
+      <ul className="duplicates-list">
+        {groups.map((group) => (
+          <li key={group.url} className="duplicates-group">
+            <div className="duplicates-url" title={group.url}>
+              {group.url}
+            </div>
+            <ul>
+              {group.occurrences.map((occurrence) => (
+                <li key={occurrence.idMVC} className="duplicates-occurrence">
+                  <button
+                    type="button"
+                    className="duplicates-jump"
+                    title={occurrence.href}
+                    onClick={() => onJump(occurrence.idMVC)}
+                  >
+                    {occurrence.nodeText || occurrence.href}
+                  </button>
+                  <span className="duplicates-where">
+                    {occurrence.active ? 'open' : 'saved'}
+                    {occurrence.containerText &&
+                      ` · ${occurrence.containerText}`}
+                  </span>
+                  <button
+                    type="button"
+                    className="duplicates-keep"
+                    title="Keep this one and remove the others"
+                    onClick={() => onKeep(group, occurrence.idMVC)}
+                  >
+                    Keep
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,11 @@
 import type { ViewToBackgroundMessage } from '@/types/messages';
-import { exportTree, exportTreeHtml } from '@/view/tree-actions';
+import {
+  exportTree,
+  exportTreeHtml,
+  exportTreeBookmarks,
+  exportTreeMarkdown,
+  exportTreeOpml,
+} from '@/view/tree-actions';
 
 interface ExportToolbarProps {
   postMessage: (msg: ViewToBackgroundMessage) => void;
@@ -22,6 +28,27 @@ export function ExportToolbar({ postMessage }: ExportToolbarProps) {
       >
         Export .html
       </button>
+      <button
+        type="button"
+        className="import-btn"
+        onClick={() => postMessage(exportTreeBookmarks())}
+      >
+        Export bookmarks
+      </button>
+      <button
+        type="button"
+        className="import-btn"
+        onClick={() => postMessage(exportTreeMarkdown())}
+      >
+        Export .md
+      </button>
+      <button
+        type="button"
+        className="import-btn"
+        onClick={() => postMessage(exportTreeOpml())}
+      >
+        Export .opml
+      </button>
     </div>
   );
 }
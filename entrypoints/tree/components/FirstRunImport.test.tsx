@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, fireEvent } from '@testing-library/preact';
+import { render, fireEvent, waitFor } from '@testing-library/preact';
 import { FirstRunImport } from './FirstRunImport';
 
 beforeEach(() => {
@@ -171,7 +171,7 @@ describe('FirstRunImport', () => {
     expect(btn.textContent).toBe('Choose .tree File');
   });
 
-  it('file input is restricted to .tree and .json files', () => {
+  it('file input is restricted to .tree, .json and .html files', () => {
     const { container } = render(
       <FirstRunImport
         onImport={vi.fn()}
@@ -184,7 +184,36 @@ describe('FirstRunImport', () => {
       'input[type="file"]',
     ) as HTMLInputElement;
     expect(input).toBeTruthy();
-    expect(input.getAttribute('accept')).toBe('.tree,.json');
+    expect(input.getAttribute('accept')).toBe('.tree,.json,.html,.htm,.opml');
+  });
+
+  it('converts a chosen bookmark file to tree JSON', async () => {
+    const onImport = vi.fn();
+    const { container } = render(
+      <FirstRunImport
+        onImport={onImport}
+        onDismiss={vi.fn()}
+        importResult={null}
+      />,
+    );
+
+    const input = container.querySelector(
+      'input[type="file"]',
+    ) as HTMLInputElement;
+    const file = new File(
+      [
+        '<!DOCTYPE NETSCAPE-Bookmark-file-1><DL><p>' +
+          '<DT><A HREF="https://a.com">A</A></DL><p>',
+      ],
+      'bookmarks.html',
+      { type: 'text/html' },
+    );
+    Object.defineProperty(input, 'files', { value: [file] });
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+
+    await waitFor(() => expect(onImport).toHaveBeenCalled());
+    const tree = JSON.parse(onImport.mock.calls[0][0]);
+    expect(tree.s[0].n.data).toEqual({ url: 'https://a.com', title: 'A' });
   });
 
   it('adds drag-over class during dragover', () => {
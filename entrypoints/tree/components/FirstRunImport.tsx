@@ -6,7 +6,12 @@ import type {
 } from 'react';
 import { browser } from 'wxt/browser';
 import type { ImportResultState } from '@/view/hooks/use-tree-data';
-import { extractTreeFromDrag, readFileAsText } from './drag-import';
+import {
+  extractTreeFromDrag,
+  IMPORT_FILE_ACCEPT,
+  parseImportFile,
+  readFileAsText,
+} from './drag-import';
 
 export interface FirstRunImportProps {
   onImport: (json: string) => void;
@@ -27,7 +32,12 @@ export function FirstRunImport({
     (file: File) => {
       setIsReading(true);
       readFileAsText(file)
-        .then((text) => onImport(text))
+        .then((text) => {
+          // Bookmark, outline HTML and OPML files are converted here; the
+          // background only reads JSON, and reports anything unparsed as a
+          // failure.
+          onImport(parseImportFile(file.name, text) ?? text);
+        })
         .finally(() => setIsReading(false));
     },
     [onImport],
@@ -102,7 +112,8 @@ export function FirstRunImport({
         <h2>Welcome to {browser.runtime.getManifest().name}</h2>
         <p>
           Import your tree from the original Tabs Outliner by dragging it here,
-          or choose a <code>.tree</code> backup file.
+          or choose a <code>.tree</code> backup file, a browser bookmarks export
+          (<code>.html</code>) or an OPML outline (<code>.opml</code>).
         </p>
 
         <div
@@ -128,7 +139,7 @@ export function FirstRunImport({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".tree,.json"
+          accept={IMPORT_FILE_ACCEPT}
           onChange={handleFileChange}
           style={{ display: 'none' }}
         />
@@ -44,6 +44,17 @@ describe('HoveringMenu', () => {
     expect(getByTitle('Delete')).toBeTruthy();
   });
 
+  it('calls onAction with hibernateAction on hibernate click', () => {
+    const onAction = vi.fn();
+    const { getByTitle, queryByTitle } = renderMenu({
+      onAction,
+      actions: { hibernateAction: { id: 'hibernateAction' } },
+    });
+    expect(queryByTitle('Close')).toBeNull();
+    fireEvent.click(getByTitle('Hibernate (unload tabs, keep them open)'));
+    expect(onAction).toHaveBeenCalledWith('node1', 'hibernateAction');
+  });
+
   it('returns null when no actions available', () => {
     const { container } = renderMenu({ actions: {} });
     expect(container.querySelector('.hovering-menu')).toBeNull();
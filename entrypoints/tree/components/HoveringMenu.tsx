@@ -18,10 +18,11 @@ export function HoveringMenu({
 }: HoveringMenuProps) {
   const { isScrolling } = useContext(TreeContext);
   const hasNote = !!actions.addNoteAction;
+  const hasHibernate = !!actions.hibernateAction;
   const hasClose = !!actions.closeAction;
   const hasDelete = !!actions.deleteAction;
 
-  if (!hasNote && !hasClose && !hasDelete) return null;
+  if (!hasNote && !hasHibernate && !hasClose && !hasDelete) return null;
 
   // Anchor the right edge of the menu to the row's right edge so buttons
   // stay in a consistent position regardless of how many are rendered.
@@ -50,6 +51,19 @@ export function HoveringMenu({
           ✎
         </button>
       )}
+      {hasHibernate && (
+        <button
+          className="hovering-menu-btn"
+          title="Hibernate (unload tabs, keep them open)"
+          disabled={isScrolling}
+          onClick={(e) => {
+            e.stopPropagation();
+            onAction(idMVC, 'hibernateAction');
+          }}
+        >
+          💤
+        </button>
+      )}
       {hasClose && (
         <button
           className="hovering-menu-btn"
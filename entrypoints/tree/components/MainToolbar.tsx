@@ -6,13 +6,22 @@ import {
   createSeparator,
   exportTree,
   exportTreeHtml,
+  exportTreeBookmarks,
+  exportTreeMarkdown,
+  exportTreeOpml,
+  closeAllWindowsExceptThis,
 } from '@/view/tree-actions';
+import { STALE_AFTER_DAYS } from '@/view/node-age';
 
 interface MainToolbarProps {
   /** Ref to the last deliberately-interacted node idMVC (same ref used by keyboard shortcuts). */
   cursorIdRef: { current: string | null };
   postMessage: (msg: ViewToBackgroundMessage) => void;
   onOpenImport: () => void;
+  onToggleDuplicates: () => void;
+  /** Whether the aging view (stale saved tabs flagged) is on. */
+  agingView: boolean;
+  onToggleAgingView: () => void;
 }
 
 function openSettings() {
@@ -27,6 +36,9 @@ export function MainToolbar({
   cursorIdRef,
   postMessage,
   onOpenImport,
+  onToggleDuplicates,
+  agingView,
+  onToggleAgingView,
 }: MainToolbarProps) {
   return (
     <div className="main-toolbar" role="toolbar" aria-label="Tree actions">
@@ -55,6 +67,31 @@ export function MainToolbar({
 
         <span className="main-toolbar-divider" />
 
+        <button
+          type="button"
+          title="Save and close every window except this one"
+          onClick={() => postMessage(closeAllWindowsExceptThis())}
+        >
+          Close Others
+        </button>
+        <button
+          type="button"
+          title="Find tabs and saved tabs with the same URL"
+          onClick={onToggleDuplicates}
+        >
+          Duplicates
+        </button>
+        <button
+          type="button"
+          title={`Highlight saved tabs not visited for ${STALE_AFTER_DAYS} days or more`}
+          aria-pressed={agingView}
+          onClick={onToggleAgingView}
+        >
+          Aging
+        </button>
+
+        <span className="main-toolbar-divider" />
+
         <button
           type="button"
           title="Export tree as .tree file"
@@ -69,6 +106,27 @@ export function MainToolbar({
         >
           Export .html
         </button>
+        <button
+          type="button"
+          title="Export tree as a browser bookmark file"
+          onClick={() => postMessage(exportTreeBookmarks())}
+        >
+          Export bookmarks
+        </button>
+        <button
+          type="button"
+          title="Export tree as a Markdown list (options in Settings)"
+          onClick={() => postMessage(exportTreeMarkdown())}
+        >
+          Export .md
+        </button>
+        <button
+          type="button"
+          title="Export tree as an OPML outline"
+          onClick={() => postMessage(exportTreeOpml())}
+        >
+          Export .opml
+        </button>
 
         <span className="main-toolbar-divider" />
 
@@ -47,8 +47,12 @@ function makeCtx(overrides: Partial<TreeContextValue> = {}): TreeContextValue {
     onNodeClick: vi.fn(),
     hasClipboard: false,
     isScrolling: false,
-    clipboardSourceId: null,
+    clipboardSourceIds: [],
     clipboardKind: null,
+    searchTerms: [],
+    searchCurrentId: null,
+    duplicateCounts: new Map(),
+    staleBefore: null,
     ...overrides,
   };
 }
@@ -353,4 +357,85 @@ describe('NodeRow', () => {
     const { container } = renderNodeRow(makeNodeApi(data));
     expect(container.querySelector('.node-note')).toBeNull();
   });
+
+  it('highlights search terms in node text', () => {
+    const data = makeNodeDTO({ nodeText: 'Stack Overflow' });
+    const ctx = makeCtx({ searchTerms: ['over'] });
+    const { container } = renderNodeRow(makeNodeApi(data), ctx);
+    const marks = container.querySelectorAll('mark.search-hit');
+    expect(marks).toHaveLength(1);
+    expect(marks[0].textContent).toBe('Over');
+    expect(container.querySelector('.node-text')!.textContent).toBe(
+      'Stack Overflow',
+    );
+  });
+
+  it('highlights search terms in a tab note', () => {
+    const data = makeNodeDTO({
+      titleBackgroundCssClass: 'tabFrame' as TitleBackgroundCssClass,
+      customTitle: 'Meeting notes',
+      nodeText: 'Google Docs',
+      href: 'https://docs.google.com',
+    });
+    const ctx = makeCtx({ searchTerms: ['notes'] });
+    const { container } = renderNodeRow(makeNodeApi(data), ctx);
+    expect(container.querySelector('.node-note mark')!.textContent).toBe(
+      'notes',
+    );
+  });
+
+  it('renders no highlights when search is inactive', () => {
+    const data = makeNodeDTO({ nodeText: 'Stack Overflow' });
+    const { container } = renderNodeRow(makeNodeApi(data));
+    expect(container.querySelector('mark')).toBeNull();
+  });
+
+  it('applies search-current class to the current search hit', () => {
+    const data = makeNodeDTO({ idMVC: 'hit' as MvcId });
+    const ctx = makeCtx({ searchCurrentId: 'hit' });
+    const { container } = renderNodeRow(makeNodeApi(data), ctx);
+    expect(container.querySelector('.search-current')).toBeTruthy();
+  });
+
+  it('renders a duplicate badge with the group size', () => {
+    const data = makeNodeDTO({ idMVC: 'dup' as MvcId });
+    const ctx = makeCtx({ duplicateCounts: new Map([['dup', 3]]) });
+    const { container } = renderNodeRow(makeNodeApi(data), ctx);
+    expect(container.querySelector('.duplicate-badge')!.textContent).toBe('×3');
+  });
+
+  it('renders no duplicate badge for a unique node', () => {
+    const data = makeNodeDTO({ idMVC: 'unique' as MvcId });
+    const ctx = makeCtx({ duplicateCounts: new Map([['dup', 3]]) });
+    const { container } = renderNodeRow(makeNodeApi(data), ctx);
+    expect(container.querySelector('.duplicate-badge')).toBeNull();
+  });
+
+  it('flags stale saved tabs while the aging view is on', () => {
+    const data = makeNodeDTO({ titleCssClass: 'savedtab', created: 1000 });
+    const aging = renderNodeRow(
+      makeNodeApi(data),
+      makeCtx({ staleBefore: 2000 }),
+    );
+    expect(aging.container.querySelector('.tree-node.is-stale')).toBeTruthy();
+    aging.unmount();
+
+    const off = renderNodeRow(makeNodeApi(data));
+    expect(off.container.querySelector('.is-stale')).toBeNull();
+  });
+
+  it('renders tab state indicators with titles', () => {
+    const data = makeNodeDTO({ tabStateIndicators: ['pinned', 'audible'] });
+    const { container } = renderNodeRow(makeNodeApi(data));
+    const icons = container.querySelectorAll('.tab-indicators span');
+    expect([...icons].map((el) => el.getAttribute('title'))).toEqual([
+      'Pinned',
+      'Playing audio',
+    ]);
+  });
+
+  it('renders no indicators when the tab has none', () => {
+    const { container } = renderNodeRow(makeNodeApi(makeNodeDTO()));
+    expect(container.querySelector('.tab-indicators')).toBeNull();
+  });
 });
@@ -2,7 +2,10 @@ import { useContext, useRef, useEffect } from 'react';
 import type { CSSProperties } from 'react';
 import type { NodeRendererProps } from 'react-arborist';
 import type { NodeDTO } from '@/types/node-dto';
+import type { TabStateIndicator } from '@/types/node';
 import type { EditKind } from '@/types/tree-context';
+import { splitHighlights } from '@/view/tree-search';
+import { isStaleSavedTab } from '@/view/node-age';
 import { TreeContext } from './TreeContext';
 import { WindowFrame } from './WindowFrame';
 import { StatsBlockView } from './StatsBlock';
@@ -15,6 +18,32 @@ function parseCustomStyle(raw: string | null): { color: string } | undefined {
   return match ? { color: match[1] } : undefined;
 }
 
+/** Wrap search-term occurrences in <mark>; plain text when not searching. */
+function highlight(text: string, terms: readonly string[]) {
+  if (terms.length === 0) return text;
+  return splitHighlights(text, terms).map((seg, i) =>
+    seg.match ? (
+      <mark key={i} className="search-hit">
+        {seg.text}
+      </mark>
+    ) : (
+      seg.text
+    ),
+  );
+}
+
+const TAB_INDICATOR_ICONS: Record<TabStateIndicator, string> = {
+  pinned: '📌',
+  muted: '🔇',
+  audible: '🔊',
+};
+
+const TAB_INDICATOR_TITLES: Record<TabStateIndicator, string> = {
+  pinned: 'Pinned',
+  muted: 'Muted',
+  audible: 'Playing audio',
+};
+
 /** Derive the edit kind from the node's background CSS class. */
 function editKindFromFrame(
   frame: NodeDTO['titleBackgroundCssClass'],
@@ -43,7 +72,7 @@ export function NodeRow({
     editCommittedRef.current = false;
   }, [ctx.editingId]);
 
-  const isClipboardSource = ctx.clipboardSourceId === data.idMVC;
+  const isClipboardSource = ctx.clipboardSourceIds.includes(data.idMVC);
   const classNames = [
     'tree-node',
     node.isSelected ? 'selected' : '',
@@ -55,6 +84,10 @@ export function NodeRow({
     data.nodeContentCssClass ? `ncc-${data.nodeContentCssClass}` : '',
     isClipboardSource && ctx.clipboardKind === 'cut' ? 'clipboard-cut' : '',
     isClipboardSource && ctx.clipboardKind === 'copy' ? 'clipboard-copy' : '',
+    ctx.searchCurrentId === data.idMVC ? 'search-current' : '',
+    ctx.staleBefore != null && isStaleSavedTab(data, ctx.staleBefore)
+      ? 'is-stale'
+      : '',
   ]
     .filter(Boolean)
     .join(' ');
@@ -78,7 +111,9 @@ export function NodeRow({
   const notePrefix =
     isTab && data.customTitle ? (
       <>
-        <span className="node-note">{data.customTitle}</span>
+        <span className="node-note">
+          {highlight(data.customTitle, ctx.searchTerms)}
+        </span>
         {' ~ '}
       </>
     ) : null;
@@ -88,19 +123,20 @@ export function NodeRow({
       href={data.href}
       draggable={false}
       onClick={(e) => {
-        // Allow ctrl+click / middle-click to follow link naturally
-        if (!e.ctrlKey && !e.metaKey && e.button === 0) {
+        // Left clicks (plain or Ctrl/Cmd for multi-select) are handled by
+        // ClickRow; middle-click still follows the link naturally.
+        if (e.button === 0) {
           e.preventDefault();
         }
       }}
     >
       {notePrefix}
-      {data.nodeText}
+      {highlight(data.nodeText, ctx.searchTerms)}
     </a>
   ) : (
     <>
       {notePrefix}
-      {data.nodeText}
+      {highlight(data.nodeText, ctx.searchTerms)}
     </>
   );
 
@@ -169,6 +205,26 @@ export function NodeRow({
       <StatsBlockView data={data.statsBlockData} />
     ) : null;
 
+  const duplicateCount = ctx.duplicateCounts.get(data.idMVC);
+  const duplicateBadge = duplicateCount ? (
+    <span
+      className="duplicate-badge"
+      title={`Same URL appears ${duplicateCount} times in the tree`}
+    >
+      ×{duplicateCount}
+    </span>
+  ) : null;
+
+  const indicators = data.tabStateIndicators?.length ? (
+    <span className="tab-indicators">
+      {data.tabStateIndicators.map((indicator) => (
+        <span key={indicator} title={TAB_INDICATOR_TITLES[indicator]}>
+          {TAB_INDICATOR_ICONS[indicator]}
+        </span>
+      ))}
+    </span>
+  ) : null;
+
   const innerContent = isWindowFrame ? (
     <>
       <WindowFrame type={data.titleCssClass}>
@@ -181,6 +237,8 @@ export function NodeRow({
     <>
       {icon}
       {textEl}
+      {indicators}
+      {duplicateBadge}
       {statsBlock}
     </>
   );
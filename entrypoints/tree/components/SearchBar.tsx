@@ -0,0 +1,83 @@
+import type { RefObject } from 'react';
+
+interface SearchBarProps {
+  inputRef: RefObject<HTMLInputElement | null>;
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  /** Index of the current hit, or -1 before any next/prev navigation. */
+  currentIndex: number;
+  onNext: () => void;
+  onPrev: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Search box above the tree. Typing filters the tree to matching nodes
+ * (plus their ancestors); Enter / ↓ jumps to the next hit, Shift+Enter / ↑
+ * to the previous one, Escape clears the query and returns focus to the tree.
+ */
+export function SearchBar({
+  inputRef,
+  query,
+  onQueryChange,
+  matchCount,
+  currentIndex,
+  onNext,
+  onPrev,
+  onClear,
+}: SearchBarProps) {
+  const hasQuery = query.trim().length > 0;
+  const counter = !hasQuery
+    ? null
+    : matchCount === 0
+      ? 'No matches'
+      : `${currentIndex >= 0 ? currentIndex + 1 : 0}/${matchCount}`;
+
+  return (
+    <div className="search-bar" role="search">
+      <input
+        ref={inputRef}
+        type="search"
+        className="search-input"
+        placeholder="Search (Ctrl+F)"
+        aria-label="Search tree"
+        title="Search titles and URLs. older:90d or newer:2w filters by when a node was last created, saved or visited"
+        value={query}
+        onChange={(e) => onQueryChange(e.currentTarget.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === 'ArrowDown' || e.key === 'F3') {
+            e.preventDefault();
+            if (e.shiftKey && e.key !== 'ArrowDown') onPrev();
+            else onNext();
+          } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            onPrev();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClear();
+            e.currentTarget.blur();
+          }
+          // Keep tree shortcuts (Delete, Backspace, o, -) from firing on
+          // keystrokes typed into the box.
+          e.stopPropagation();
+        }}
+      />
+      {counter && (
+        <span className="search-count" aria-live="polite">
+          {counter}
+        </span>
+      )}
+      {hasQuery && (
+        <button
+          type="button"
+          className="search-clear"
+          title="Clear search (Esc)"
+          onClick={onClear}
+        >
+          {'✕'}
+        </button>
+      )}
+    </div>
+  );
+}
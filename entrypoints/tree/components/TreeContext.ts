@@ -20,6 +20,10 @@ export const TreeContext = createContext<TreeContextValue>({
   onNodeClick: () => {},
   hasClipboard: false,
   isScrolling: false,
-  clipboardSourceId: null,
+  clipboardSourceIds: [],
   clipboardKind: null,
+  searchTerms: [],
+  searchCurrentId: null,
+  duplicateCounts: new Map(),
+  staleBefore: null,
 });
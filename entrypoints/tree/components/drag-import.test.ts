@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { importContainsTabs, extractTreeFromDrag } from './drag-import';
+import {
+  importContainsTabs,
+  extractTreeFromDrag,
+  parseImportFile,
+} from './drag-import';
 
 describe('importContainsTabs', () => {
   it('returns true for HierarchyJSO with savedtab children (no type field)', () => {
@@ -144,3 +148,20 @@ describe('extractTreeFromDrag — HTML customTitle extraction', () => {
     expect(tab.marks).toBeUndefined();
   });
 });
+
+describe('parseImportFile', () => {
+  it('converts OPML files and passes tree files through', () => {
+    const opml =
+      '<opml version="2.0"><body>' +
+      '<outline text="Docs" htmlUrl="https://docs.com"/>' +
+      '</body></opml>';
+    const tree = JSON.parse(parseImportFile('outline.opml', opml)!);
+    expect(tree.s[0].n.data).toEqual({
+      url: 'https://docs.com',
+      title: 'Docs',
+    });
+
+    expect(parseImportFile('backup.tree', '{"n":{}}')).toBe('{"n":{}}');
+    expect(parseImportFile('feeds.xml', '<rss></rss>')).toBeNull();
+  });
+});
@@ -1,5 +1,10 @@
 import type { HierarchyJSO } from '@/types/serialized';
 import type { SerializedNode } from '@/types/serialized';
+import {
+  isBookmarksHtml,
+  parseBookmarksHtml,
+} from '@/serialization/bookmarks-html';
+import { parseOpml } from '@/serialization/opml';
 
 /** Non-tab node types — everything else is a tab variant (or defaults to savedtab). */
 const NON_TAB_TYPES = new Set([
@@ -183,15 +188,61 @@ function parseHtmlTreeDrop(html: string): HierarchyJSO | null {
 }
 
 /**
- * Parse an HTML file's text content into a tree JSON string.
+ * Parse an HTML file's text content — a browser bookmark file or an
+ * outline export — into a tree JSON string.
  * Returns null if the HTML doesn't contain a recognizable tree structure.
  */
 export function parseHtmlFile(html: string): string | null {
-  const hierarchy = parseHtmlTreeDrop(html);
+  const hierarchy = isBookmarksHtml(html)
+    ? parseBookmarksHtml(html)
+    : parseHtmlTreeDrop(html);
   if (!hierarchy) return null;
   return JSON.stringify(hierarchy);
 }
 
+/**
+ * Turn a chosen or dropped file into tree JSON. HTML and OPML files are
+ * converted here (null if they hold no tree); anything else is taken to
+ * be tree JSON already.
+ */
+export function parseImportFile(fileName: string, text: string): string | null {
+  if (/\.html?$/i.test(fileName)) return parseHtmlFile(text);
+  if (/\.(opml|xml)$/i.test(fileName)) {
+    const hierarchy = parseOpml(text);
+    return hierarchy ? JSON.stringify(hierarchy) : null;
+  }
+  return text;
+}
+
+/** File types the import choosers offer. */
+export const IMPORT_FILE_ACCEPT = '.tree,.json,.html,.htm,.opml';
+
+/**
+ * Open a file chooser for a .tree, .json, .html or .opml export and return
+ * its tree JSON. Resolves null when the user cancels or the file can't be
+ * read.
+ */
+export function pickTreeFile(): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = IMPORT_FILE_ACCEPT;
+    input.addEventListener('cancel', () => resolve(null));
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      readFileAsText(file).then(
+        (text) => resolve(parseImportFile(file.name, text)),
+        () => resolve(null),
+      );
+    });
+    input.click();
+  });
+}
+
 /**
  * Walk the HTML string as a tag stream. Track depth via <ul>/<\/ul> tags.
  * Extract node data from each <li>...</li> span.
@@ -1,15 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
 import { ActiveSession } from '../active-session';
 import { resetMvcIdCounter } from '@/tree/mvc-id';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
 import { NodeTypesEnum } from '@/types/enums';
+import { SETTINGS_KEY } from '@/types/settings';
 
 // Mock all external dependencies
 vi.mock('@/storage/tree-storage', () => ({
-  loadTree: vi.fn().mockResolvedValue(null),
-  saveTree: vi.fn().mockResolvedValue(undefined),
+  TreeStore: vi.fn(),
   treeExists: vi.fn().mockResolvedValue(false),
 }));
 
+vi.mock('@/storage/snapshot-storage', () => ({
+  takeSnapshot: vi.fn().mockResolvedValue([]),
+  loadSnapshot: vi.fn().mockResolvedValue(null),
+}));
+
 vi.mock('@/storage/migration', () => ({
   isMigrationNeeded: vi.fn().mockResolvedValue(false),
   migrateFromLegacy: vi.fn().mockResolvedValue(null),
@@ -19,6 +27,7 @@ vi.mock('@/chrome/windows', () => ({
   queryWindows: vi.fn().mockResolvedValue([]),
   onWindowCreated: vi.fn(() => vi.fn()),
   onWindowRemoved: vi.fn(() => vi.fn()),
+  onWindowBoundsChanged: vi.fn(() => vi.fn()),
   onWindowFocusChanged: vi.fn(() => vi.fn()),
 }));
 
@@ -59,22 +68,35 @@ vi.mock('@/storage/settings-storage', () => ({
     oneClickToOpen: false,
     lightBackground: false,
     wrapImportsInContainer: true,
+    relateNewTabToOpener: true,
+    openSavedWindowsInOriginalPos: true,
+    restoreTabsDiscarded: false,
+    autoHibernateTabs: false,
+    autoHibernateAfterMinutes: 60,
+    markdownExportDepth: 0,
+    markdownExportLiveTabs: true,
+    markdownExportSavedTabs: true,
+    markdownExportCustomTitles: true,
   }),
 }));
 
-import { treeExists, loadTree, saveTree } from '@/storage/tree-storage';
+import { TreeStore, treeExists } from '@/storage/tree-storage';
 import { isMigrationNeeded, migrateFromLegacy } from '@/storage/migration';
 import { loadSettings } from '@/storage/settings-storage';
+import { takeSnapshot, loadSnapshot } from '@/storage/snapshot-storage';
 import { createAlarm, clearAlarm } from '@/chrome/alarms';
 import { queryWindows } from '@/chrome/windows';
 import { queryTabs } from '@/chrome/tabs';
 
 const mockTreeExists = treeExists as ReturnType<typeof vi.fn>;
-const mockLoadTree = loadTree as ReturnType<typeof vi.fn>;
-const mockSaveTree = saveTree as ReturnType<typeof vi.fn>;
+const MockTreeStore = TreeStore as unknown as ReturnType<typeof vi.fn>;
+const mockLoadTree = vi.fn();
+const mockSaveChanges = vi.fn();
 const mockIsMigrationNeeded = isMigrationNeeded as ReturnType<typeof vi.fn>;
 const mockMigrateFromLegacy = migrateFromLegacy as ReturnType<typeof vi.fn>;
 const mockLoadSettings = loadSettings as ReturnType<typeof vi.fn>;
+const mockTakeSnapshot = takeSnapshot as ReturnType<typeof vi.fn>;
+const mockLoadSnapshot = loadSnapshot as ReturnType<typeof vi.fn>;
 
 const DEFAULT_SETTINGS = {
   autoScrollToTab: false,
@@ -82,6 +104,15 @@ const DEFAULT_SETTINGS = {
   oneClickToOpen: false,
   lightBackground: false,
   wrapImportsInContainer: true,
+  relateNewTabToOpener: true,
+  openSavedWindowsInOriginalPos: true,
+  restoreTabsDiscarded: false,
+  autoHibernateTabs: false,
+  autoHibernateAfterMinutes: 60,
+  markdownExportDepth: 0,
+  markdownExportLiveTabs: true,
+  markdownExportSavedTabs: true,
+  markdownExportCustomTitles: true,
 };
 
 beforeEach(() => {
@@ -89,10 +120,20 @@ beforeEach(() => {
   vi.clearAllMocks();
   mockTreeExists.mockResolvedValue(false);
   mockLoadTree.mockResolvedValue(null);
-  mockSaveTree.mockResolvedValue(undefined);
+  mockSaveChanges.mockResolvedValue(undefined);
+  MockTreeStore.mockImplementation(function () {
+    return {
+      load: mockLoadTree,
+      saveChanges: mockSaveChanges,
+      committed: { rootDid: '', entries: new Map(), allKnots: new Map() },
+      nextDId: 1,
+    };
+  });
   mockIsMigrationNeeded.mockResolvedValue(false);
   mockMigrateFromLegacy.mockResolvedValue(null);
   mockLoadSettings.mockResolvedValue(DEFAULT_SETTINGS);
+  mockTakeSnapshot.mockResolvedValue([]);
+  mockLoadSnapshot.mockResolvedValue(null);
 });
 
 describe('ActiveSession', () => {
@@ -167,6 +208,30 @@ describe('ActiveSession', () => {
       await session.dispose();
     });
 
+    it('starts the snapshot alarm and checks for due snapshots', async () => {
+      const session = await ActiveSession.create();
+
+      expect(createAlarm).toHaveBeenCalledWith('tabs-outliner-snapshot', 60);
+      expect(mockTakeSnapshot).toHaveBeenCalledTimes(1);
+      expect(createAlarm).toHaveBeenCalledWith('tabs-outliner-backup', 30);
+      expect(createAlarm).toHaveBeenCalledWith(
+        'tabs-outliner-auto-hibernate',
+        5,
+      );
+
+      await session.dispose();
+    });
+
+    it('does not fail when the startup snapshot throws', async () => {
+      mockTakeSnapshot.mockRejectedValue(new Error('quota'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const session = await ActiveSession.create();
+      expect(session.treeModel).toBeDefined();
+
+      await session.dispose();
+    });
+
     it('runs crash recovery', async () => {
       // queryWindows and queryTabs are already mocked to return []
       const session = await ActiveSession.create();
@@ -176,6 +241,19 @@ describe('ActiveSession', () => {
 
       await session.dispose();
     });
+
+    it('keeps its settings in sync with storage', async () => {
+      const session = await ActiveSession.create();
+      expect(session.settings.relateNewTabToOpener).toBe(true);
+
+      await fakeBrowser.storage.local.set({
+        [SETTINGS_KEY]: { relateNewTabToOpener: false },
+      });
+      expect(session.settings.relateNewTabToOpener).toBe(false);
+      expect(session.settings.wrapImportsInContainer).toBe(true);
+
+      await session.dispose();
+    });
   });
 
   describe('getInitMessage()', () => {
@@ -207,13 +285,17 @@ describe('ActiveSession', () => {
   });
 
   describe('saveNow()', () => {
-    it('calls saveTree with current hierarchy', async () => {
+    it('commits the tree changes to the store', async () => {
       const session = await ActiveSession.create();
-      mockSaveTree.mockClear();
+      mockSaveChanges.mockClear();
 
       await session.saveNow();
 
-      expect(mockSaveTree).toHaveBeenCalled();
+      const root = session.treeModel.root;
+      expect(mockSaveChanges).toHaveBeenCalledWith(
+        expect.objectContaining({ rootDid: root.dId.toString(36) }),
+        session.treeModel.getNextDId(),
+      );
 
       await session.dispose();
     });
@@ -244,7 +326,7 @@ describe('ActiveSession', () => {
 
       expect(result.success).toBe(true);
       expect(result.nodeCount).toBe(3); // window + 2 tabs (root is skipped)
-      expect(mockSaveTree).toHaveBeenCalled();
+      expect(mockSaveChanges).toHaveBeenCalled();
       // Imported window appended to existing children
       expect(session.treeModel.root.subnodes.length).toBe(
         existingChildCount + 1,
@@ -253,6 +335,29 @@ describe('ActiveSession', () => {
       await session.dispose();
     });
 
+    it('records the import as a single undoable step', async () => {
+      const session = await ActiveSession.create();
+      const existingChildCount = session.treeModel.root.subnodes.length;
+
+      const jso = {
+        n: {
+          type: 'session',
+          data: { treeId: 'imported', nextDId: 1, nonDumpedDId: 1 },
+        },
+        s: [
+          { n: { type: 'savedwin', data: { id: 1 } } },
+          { n: { type: 'savedwin', data: { id: 2 } } },
+        ],
+      };
+      await session.importTree(JSON.stringify(jso));
+
+      expect(session.undoStack.undo(session.treeModel)?.label).toBe('Import');
+      expect(session.treeModel.root.subnodes.length).toBe(existingChildCount);
+      expect(session.undoStack.canUndo).toBe(false);
+
+      await session.dispose();
+    });
+
     it('imports valid operations log (legacy .tree format)', async () => {
       const session = await ActiveSession.create();
       const existingChildCount = session.treeModel.root.subnodes.length;
@@ -575,6 +680,72 @@ describe('ActiveSession', () => {
       await session.dispose();
     });
 
+    it('inserts under the target node at the given position', async () => {
+      const session = await ActiveSession.create();
+      const group = new GroupTreeNode();
+      session.treeModel.insertAsLastChild(session.treeModel.root, group);
+      session.treeModel.insertAsLastChild(group, new GroupTreeNode());
+
+      const jso = {
+        n: { type: 'session', data: { treeId: 'x', nextDId: 1 } },
+        s: [
+          { n: { type: 'textnote', data: { note: 'one' } } },
+          { n: { type: 'textnote', data: { note: 'two' } } },
+        ],
+      };
+      const result = await session.importTree(JSON.stringify(jso), {
+        parentIdMVC: group.idMVC,
+        position: 0,
+      });
+
+      expect(result).toEqual({ success: true, nodeCount: 2 });
+      expect(group.subnodes.map((n) => n.type)).toEqual([
+        'textnote',
+        'textnote',
+        'group',
+      ]);
+      expect(group.subnodes[0].getNodeText()).toBe('one');
+      expect(session.undoStack.undo(session.treeModel)?.label).toBe('Import');
+      expect(group.subnodes).toHaveLength(1);
+
+      await session.dispose();
+    });
+
+    it('keeps the root of a subtree export', async () => {
+      const session = await ActiveSession.create();
+      const group = new GroupTreeNode();
+      session.treeModel.insertAsLastChild(session.treeModel.root, group);
+
+      const jso = {
+        n: { type: 'savedwin', data: { id: 1 } },
+        s: [{ n: { data: { url: 'https://a.com', title: 'A' } } }],
+      };
+      const result = await session.importTree(JSON.stringify(jso), {
+        parentIdMVC: group.idMVC,
+        position: -1,
+      });
+
+      expect(result.nodeCount).toBe(2);
+      expect(group.subnodes[0].type).toBe('savedwin');
+      expect(group.subnodes[0].subnodes).toHaveLength(1);
+
+      await session.dispose();
+    });
+
+    it('fails when the target node is gone', async () => {
+      const session = await ActiveSession.create();
+
+      const result = await session.importTree(
+        JSON.stringify({ n: { type: 'savedwin', data: {} } }),
+        { parentIdMVC: 'missing', position: -1 },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeTruthy();
+
+      await session.dispose();
+    });
+
     it('returns error for invalid JSON', async () => {
       const session = await ActiveSession.create();
 
@@ -601,6 +772,71 @@ describe('ActiveSession', () => {
     });
   });
 
+  describe('restoreSnapshot()', () => {
+    it('replaces the tree with the snapshot and saves', async () => {
+      mockLoadSnapshot.mockResolvedValue({
+        n: {
+          type: 'session',
+          data: { treeId: 'snap', nextDId: 1, nonDumpedDId: 1 },
+        },
+        s: [
+          {
+            n: { type: 'savedwin', data: {} },
+            s: [{ n: { data: { url: 'https://a.com', title: 'A' } } }],
+          },
+        ],
+      });
+      const session = await ActiveSession.create();
+      const model = session.treeModel;
+      mockSaveChanges.mockClear();
+
+      const result = await session.restoreSnapshot('hourly-1');
+
+      expect(result).toEqual({ success: true, nodeCount: 3 });
+      expect(mockLoadSnapshot).toHaveBeenCalledWith('hourly-1');
+      // Same model instance — only its contents were swapped
+      expect(session.treeModel).toBe(model);
+      expect(model.root.subnodes).toHaveLength(1);
+      expect(model.root.subnodes[0].subnodes).toHaveLength(1);
+      expect(mockSaveChanges).toHaveBeenCalled();
+
+      await session.dispose();
+    });
+
+    it('clears undo history that refers to the replaced tree', async () => {
+      mockLoadSnapshot.mockResolvedValue({
+        n: { type: 'session', data: { treeId: 'snap', nextDId: 1 } },
+      });
+      const session = await ActiveSession.create();
+      await session.importTree(
+        JSON.stringify({
+          n: { type: 'session', data: { treeId: 'i', nextDId: 1 } },
+          s: [{ n: { type: 'savedwin', data: {} } }],
+        }),
+      );
+      expect(session.undoStack.canUndo).toBe(true);
+
+      await session.restoreSnapshot('hourly-1');
+
+      expect(session.undoStack.canUndo).toBe(false);
+
+      await session.dispose();
+    });
+
+    it('returns an error and leaves the tree alone when missing', async () => {
+      const session = await ActiveSession.create();
+      const before = session.treeModel.root;
+
+      const result = await session.restoreSnapshot('nope');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not found/);
+      expect(session.treeModel.root).toBe(before);
+
+      await session.dispose();
+    });
+  });
+
   describe('exportTree()', () => {
     it('returns valid JSON string', async () => {
       const session = await ActiveSession.create();
@@ -614,29 +850,82 @@ describe('ActiveSession', () => {
 
       await session.dispose();
     });
+
+    it('exports only the subtree at rootIdMVC', async () => {
+      const session = await ActiveSession.create();
+      const group = new GroupTreeNode();
+      session.treeModel.insertAsLastChild(session.treeModel.root, group);
+      session.treeModel.insertAsLastChild(group, new GroupTreeNode());
+
+      const result = session.exportTree(group.idMVC);
+
+      const parsed = JSON.parse(result.treeJson!);
+      expect(parsed.n.type).toBe('group');
+      expect(parsed.s).toHaveLength(1);
+      expect(session.exportTreeHtml(group.idMVC).success).toBe(true);
+      expect(session.exportTreeBookmarks(group.idMVC).bookmarksHtml).toContain(
+        '<DT><H3',
+      );
+      expect(session.exportTreeOpml(group.idMVC).treeOpml).toContain(
+        '<outline text="Group"',
+      );
+
+      await session.dispose();
+    });
+
+    it('shapes Markdown exports with the markdownExport settings', async () => {
+      const session = await ActiveSession.create();
+      const group = new GroupTreeNode();
+      session.treeModel.insertAsLastChild(session.treeModel.root, group);
+      session.treeModel.insertAsLastChild(
+        group,
+        new SavedTabTreeNode({ url: 'https://a.com', title: 'A' }),
+      );
+
+      expect(session.exportTreeMarkdown().treeMarkdown).toBe(
+        '- Group\n  - [A](https://a.com)\n',
+      );
+      session.settings = { ...DEFAULT_SETTINGS, markdownExportDepth: 1 };
+      expect(session.exportTreeMarkdown().treeMarkdown).toBe('- Group\n');
+
+      await session.dispose();
+    });
+
+    it('fails for an unknown rootIdMVC', async () => {
+      const session = await ActiveSession.create();
+
+      expect(session.exportTree('missing').success).toBe(false);
+      expect(session.exportTreeBookmarks('missing').success).toBe(false);
+      expect(session.exportTreeHtml('missing').success).toBe(false);
+
+      await session.dispose();
+    });
   });
 
   describe('dispose()', () => {
     it('saves tree, clears alarm, and disconnects ports', async () => {
       const session = await ActiveSession.create();
-      mockSaveTree.mockClear();
+      mockSaveChanges.mockClear();
 
       await session.dispose();
 
-      expect(mockSaveTree).toHaveBeenCalled();
+      expect(mockSaveChanges).toHaveBeenCalled();
       expect(clearAlarm).toHaveBeenCalledWith('tabs-outliner-keep-alive');
+      expect(clearAlarm).toHaveBeenCalledWith('tabs-outliner-snapshot');
+      expect(clearAlarm).toHaveBeenCalledWith('tabs-outliner-backup');
+      expect(clearAlarm).toHaveBeenCalledWith('tabs-outliner-auto-hibernate');
       expect(session.viewBridge.portCount).toBe(0);
     });
 
     it('second dispose() call is a no-op — does not re-save', async () => {
       const session = await ActiveSession.create();
-      mockSaveTree.mockClear();
+      mockSaveChanges.mockClear();
 
       await session.dispose();
-      expect(mockSaveTree).toHaveBeenCalledTimes(1);
+      expect(mockSaveChanges).toHaveBeenCalledTimes(1);
 
       await session.dispose(); // Should be a no-op
-      expect(mockSaveTree).toHaveBeenCalledTimes(1); // Not called again
+      expect(mockSaveChanges).toHaveBeenCalledTimes(1); // Not called again
     });
   });
 });
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import type { BackupProvider } from '@/backup/provider';
+import type { HierarchyJSO } from '@/types/serialized';
+
+const provider = {
+  upload: vi.fn<BackupProvider['upload']>(),
+  list: vi.fn<BackupProvider['list']>(),
+  download: vi.fn<BackupProvider['download']>(),
+  delete: vi.fn<BackupProvider['delete']>(),
+  rotate: vi.fn<BackupProvider['rotate']>(),
+};
+
+vi.mock('@/backup/registry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/backup/registry')>()),
+  createBackupProvider: vi.fn(() => provider),
+}));
+
+import { BackupScheduler } from '../backup-scheduler';
+import {
+  loadBackupStatus,
+  saveBackupSettings,
+  saveBackupStatus,
+} from '@/storage/backup-storage';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 1);
+
+const tree: HierarchyJSO = {
+  n: { type: 'session', data: { treeId: 'test', nextDId: 1 } },
+};
+
+function configure(enabled = true) {
+  return saveBackupSettings({
+    enabled,
+    intervalHours: 24,
+    keep: 3,
+    http: {
+      dialect: 'webdav',
+      endpoint: 'https://dav.example.com/backups',
+      username: '',
+      password: '',
+      region: '',
+    },
+  });
+}
+
+describe('BackupScheduler', () => {
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.clearAllMocks();
+    provider.upload.mockResolvedValue(undefined);
+    provider.rotate.mockResolvedValue([]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('runNow()', () => {
+    it('uploads the exported tree, rotates and records success', async () => {
+      await configure();
+      const scheduler = new BackupScheduler(() => tree);
+
+      const result = await scheduler.runNow(T0);
+
+      expect(result).toEqual({
+        success: true,
+        backupId: 'tabs-outliner-backup-20250101T000000Z.tree',
+      });
+      const [name, content] = provider.upload.mock.calls[0];
+      expect(name).toBe(result.backupId);
+      expect(JSON.parse(content)).toMatchObject({ n: { type: 'session' } });
+      expect(provider.rotate).toHaveBeenCalledWith(3);
+      expect(await loadBackupStatus()).toEqual({
+        lastAttemptAt: T0,
+        lastSuccessAt: T0,
+        lastError: null,
+      });
+    });
+
+    it('records failures without losing the last success', async () => {
+      await configure();
+      await saveBackupStatus({
+        lastAttemptAt: T0,
+        lastSuccessAt: T0,
+        lastError: null,
+      });
+      provider.upload.mockRejectedValue(new Error('PUT failed: 507'));
+      const scheduler = new BackupScheduler(() => tree);
+
+      const result = await scheduler.runNow(T0 + HOUR);
+
+      expect(result).toEqual({ success: false, error: 'PUT failed: 507' });
+      expect(await loadBackupStatus()).toEqual({
+        lastAttemptAt: T0 + HOUR,
+        lastSuccessAt: T0,
+        lastError: 'PUT failed: 507',
+      });
+    });
+
+    it('still succeeds when rotation fails', async () => {
+      await configure();
+      provider.rotate.mockRejectedValue(new Error('DELETE failed'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await new BackupScheduler(() => tree).runNow(T0);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('fails when no endpoint is configured', async () => {
+      const result = await new BackupScheduler(() => tree).runNow(T0);
+
+      expect(result.success).toBe(false);
+      expect(provider.upload).not.toHaveBeenCalled();
+    });
+
+    it('shares one run between concurrent calls', async () => {
+      await configure();
+      const scheduler = new BackupScheduler(() => tree);
+
+      const [a, b] = await Promise.all([
+        scheduler.runNow(T0),
+        scheduler.runNow(T0),
+      ]);
+
+      expect(a).toBe(b);
+      expect(provider.upload).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('runIfDue()', () => {
+    it('does nothing when scheduling is disabled', async () => {
+      await configure(false);
+
+      expect(await new BackupScheduler(() => tree).runIfDue(T0)).toBeNull();
+      expect(provider.upload).not.toHaveBeenCalled();
+    });
+
+    it('runs when no backup has succeeded yet', async () => {
+      await configure();
+
+      const result = await new BackupScheduler(() => tree).runIfDue(T0);
+
+      expect(result?.success).toBe(true);
+    });
+
+    it('waits for the interval to elapse', async () => {
+      await configure();
+      await saveBackupStatus({
+        lastAttemptAt: T0,
+        lastSuccessAt: T0,
+        lastError: null,
+      });
+      const scheduler = new BackupScheduler(() => tree);
+
+      expect(await scheduler.runIfDue(T0 + 12 * HOUR)).toBeNull();
+      expect((await scheduler.runIfDue(T0 + 24 * HOUR))?.success).toBe(true);
+    });
+  });
+});
@@ -10,10 +10,13 @@ import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
 import { TreeNode } from '@/tree/tree-node';
 import { TabTreeNode } from '@/tree/nodes/tab-node';
 import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
 import { resetMvcIdCounter } from '@/tree/mvc-id';
 import { NodeTypesEnum } from '@/types/enums';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
 import type { TabData, WindowData } from '@/types/node-data';
 import type { ActiveSession } from '../active-session';
+import type { TreeDelta } from '@/types/messages';
 
 // Mock all Chrome event subscriptions
 const mockEventCleanups: Array<() => void> = [];
@@ -55,11 +58,19 @@ vi.mock('@/chrome/windows', () => ({
   onWindowCreated: mockEventSubscription(),
   onWindowRemoved: mockEventSubscription(),
   onWindowFocusChanged: mockEventSubscription(),
+  onWindowBoundsChanged: mockEventSubscription(),
   getWindow: vi.fn().mockResolvedValue(null),
   focusWindow: vi.fn().mockResolvedValue(undefined),
   removeWindow: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock('@/chrome/tab-groups', () => ({
+  TAB_GROUP_ID_NONE: -1,
+  onTabGroupCreated: mockEventSubscription(),
+  onTabGroupUpdated: mockEventSubscription(),
+  onTabGroupRemoved: mockEventSubscription(),
+}));
+
 import {
   onTabCreated,
   onTabRemoved,
@@ -75,8 +86,15 @@ import {
   onWindowCreated,
   onWindowRemoved,
   onWindowFocusChanged,
+  onWindowBoundsChanged,
   getWindow,
 } from '@/chrome/windows';
+import {
+  onTabGroupCreated,
+  onTabGroupUpdated,
+  onTabGroupRemoved,
+} from '@/chrome/tab-groups';
+import { tabGroupRestoreWindowIds } from '../tab-group-state';
 
 function getListeners(
   mockFn: ReturnType<typeof vi.fn>,
@@ -99,6 +117,8 @@ function createMockSession(treeModel: TreeModel): ActiveSession {
     instanceId: 'test-123',
     closeTracker: new CloseTracker(),
     viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
     scheduleSave: vi.fn(),
     saveNow: vi.fn().mockResolvedValue(undefined),
     getInitMessage: vi.fn(),
@@ -187,6 +207,10 @@ describe('registerChromeEventHandlers()', () => {
     expect(onWindowCreated).toHaveBeenCalled();
     expect(onWindowRemoved).toHaveBeenCalled();
     expect(onWindowFocusChanged).toHaveBeenCalled();
+    expect(onWindowBoundsChanged).toHaveBeenCalled();
+    expect(onTabGroupCreated).toHaveBeenCalled();
+    expect(onTabGroupUpdated).toHaveBeenCalled();
+    expect(onTabGroupRemoved).toHaveBeenCalled();
 
     expect(typeof cleanup).toBe('function');
   });
@@ -382,7 +406,7 @@ describe('onTabRemoved handler', () => {
     expect(session.closeTracker.size).toBe(1);
   });
 
-  it('broadcasts onNodeRemoved only for actual removals, not replacements', () => {
+  it('sends a remove delta only for actual removals, not replacements', () => {
     const { model, tab } = buildTreeWithWindow();
     tab.marks = { relicons: [], customTitle: 'Keep' };
     const session = createMockSession(model);
@@ -411,14 +435,12 @@ describe('onTabRemoved handler', () => {
       isWindowClosing: false,
     });
 
-    // Should NOT have broadcast onNodeRemoved (it was replaced, not removed)
-    const messages = (
-      mockPort.postMessage as ReturnType<typeof vi.fn>
-    ).mock.calls.map((c) => (c[0] as { parameters?: unknown[] }).parameters);
-    const hasRemoved = messages.some(
-      (p) => Array.isArray(p) && p.includes('onNodeRemoved'),
-    );
-    expect(hasRemoved).toBe(false);
+    // Replaced by a saved tab, not removed
+    const ops = (mockPort.postMessage as ReturnType<typeof vi.fn>).mock.calls
+      .map((c) => c[0] as { command: string; delta?: { op: string } })
+      .filter((m) => m.command === 'msg2view_treeDelta')
+      .map((m) => m.delta?.op);
+    expect(ops).toEqual(['replace']);
   });
 
   it('removes empty unmarked window parent after last tab removed', () => {
@@ -486,10 +508,9 @@ describe('onTabRemoved handler', () => {
     ).mock.calls.map((c) => c[0] as Record<string, unknown>);
     const windowRemoved = broadcasts.find(
       (m) =>
-        m.command === 'msg2view_notifyObserver' &&
-        Array.isArray(m.parameters) &&
-        (m.parameters as string[]).includes('onNodeRemoved') &&
-        m.idMVC === activeWinIdMVC,
+        m.command === 'msg2view_treeDelta' &&
+        (m.delta as TreeDelta).op === 'remove' &&
+        (m.delta as TreeDelta & { op: 'remove' }).idMVC === activeWinIdMVC,
     );
     expect(windowRemoved).toBeDefined();
   });
@@ -589,6 +610,20 @@ describe('onTabUpdated handler', () => {
     expect((tab!.data as TabData).title).toBe('Updated');
     expect(session.scheduleSave).toHaveBeenCalled();
   });
+
+  it('tracks the tab being discarded and loaded again', () => {
+    const { model } = buildTreeWithWindow();
+    const session = createMockSession(model);
+    registerChromeEventHandlers(session, session.viewBridge);
+    const listener = getLastListener(onTabUpdated as ReturnType<typeof vi.fn>);
+    const tabData = { id: 10, windowId: 1, url: 'https://a.com', title: 'A' };
+
+    listener(10, { discarded: true }, { ...tabData, discarded: true });
+    expect(model.findActiveTab(10)!.getNodeContentCssClass()).toBe('sleeping');
+
+    listener(10, { discarded: false }, { ...tabData, discarded: false });
+    expect(model.findActiveTab(10)!.getNodeContentCssClass()).toBeNull();
+  });
 });
 
 describe('onTabMoved handler', () => {
@@ -612,7 +647,10 @@ describe('onTabMoved handler', () => {
     root.insertSubnode(0, win);
     win.insertSubnode(0, tab1);
     win.insertSubnode(1, tab2);
-    const model = new TreeModel(root);
+    const kinds: string[] = [];
+    const model = new TreeModel(root, {
+      onMutation: (result) => kinds.push(result.type),
+    });
     const session = createMockSession(model);
     registerChromeEventHandlers(session, session.viewBridge);
 
@@ -626,13 +664,18 @@ describe('onTabMoved handler', () => {
     expect(win.subnodes[0].type).toBe(NodeTypesEnum.TAB);
     expect((win.subnodes[0].data as TabData).id).toBe(11);
     expect((win.subnodes[1].data as TabData).id).toBe(10);
+    expect(kinds).toEqual(['move']);
     expect(session.scheduleSave).toHaveBeenCalled();
   });
 });
 
 describe('onTabAttached handler', () => {
   it('moves tab to a different window', () => {
-    const { model, win1, win2 } = buildTreeWithTwoWindows();
+    const { model: built, win1, win2 } = buildTreeWithTwoWindows();
+    const kinds: string[] = [];
+    const model = new TreeModel(built.root, {
+      onMutation: (result) => kinds.push(result.type),
+    });
     const session = createMockSession(model);
     registerChromeEventHandlers(session, session.viewBridge);
 
@@ -645,6 +688,7 @@ describe('onTabAttached handler', () => {
     expect(win1.subnodes.length).toBe(0);
     expect(win2.subnodes.length).toBe(2);
     expect((win2.subnodes[1].data as TabData).id).toBe(10);
+    expect(kinds).toEqual(['move']);
     expect(session.scheduleSave).toHaveBeenCalled();
   });
 });
@@ -683,6 +727,31 @@ describe('onTabActivated handler', () => {
     expect((model.findActiveTab(11)!.data as TabData).active).toBe(true);
     expect(session.scheduleSave).toHaveBeenCalled();
   });
+
+  it('stamps the tabs switched from and to as last activated and visited now', () => {
+    const { model, win, tab } = buildTreeWithWindow();
+    const other = new TabTreeNode({
+      id: 11,
+      windowId: 1,
+      url: 'https://b.com',
+    });
+    model.insertSubnode(win, 1, other);
+    tab.lastActivatedAt = 0;
+    other.lastActivatedAt = 0;
+    const session = createMockSession(model);
+    registerChromeEventHandlers(session, session.viewBridge);
+
+    const before = Date.now();
+    getLastListener(onTabActivated as ReturnType<typeof vi.fn>)({
+      tabId: 11,
+      windowId: 1,
+    });
+
+    expect(tab.lastActivatedAt).toBeGreaterThanOrEqual(before);
+    expect(other.lastActivatedAt).toBeGreaterThanOrEqual(before);
+    expect(tab.lastVisited).toBeGreaterThanOrEqual(before);
+    expect(other.lastVisited).toBe(other.lastActivatedAt);
+  });
 });
 
 describe('onTabReplaced handler', () => {
@@ -747,6 +816,45 @@ describe('onTabReplaced handler', () => {
   });
 });
 
+describe('onWindowBoundsChanged handler', () => {
+  it('records the new bounds and state on the window node', () => {
+    const { model, win } = buildTreeWithWindow();
+    const session = createMockSession(model);
+    registerChromeEventHandlers(session, session.viewBridge);
+
+    getLastListener(onWindowBoundsChanged as ReturnType<typeof vi.fn>)({
+      id: 1,
+      type: 'normal',
+      focused: true,
+      state: 'maximized',
+      rect: { left: 10, top: 20, width: 800, height: 600 },
+    });
+
+    expect(win.data.rect).toEqual({
+      left: 10,
+      top: 20,
+      width: 800,
+      height: 600,
+    });
+    expect(win.data.state).toBe('maximized');
+    expect(session.scheduleSave).toHaveBeenCalled();
+  });
+
+  it('ignores windows that are not in the tree', () => {
+    const { model } = buildTreeWithWindow();
+    const session = createMockSession(model);
+    registerChromeEventHandlers(session, session.viewBridge);
+
+    getLastListener(onWindowBoundsChanged as ReturnType<typeof vi.fn>)({
+      id: 99,
+      type: 'normal',
+      focused: false,
+    });
+
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+  });
+});
+
 describe('onWindowCreated handler', () => {
   it('creates a new window node when it has user tabs', async () => {
     const { model } = buildTreeWithWindow();
@@ -884,6 +992,8 @@ describe('onWindowRemoved handler', () => {
     // Active flag must be cleared so saved tabs don't keep
     // the "selected tab" highlight from Chrome runtime state
     expect(savedTab.isSelectedTab()).toBe(false);
+    // ...but remembered for restoring the whole window later.
+    expect((savedTab.data as TabData).wasActive).toBe(true);
     expect(session.scheduleSave).toHaveBeenCalled();
   });
 
@@ -943,3 +1053,359 @@ describe('onWindowFocusChanged handler', () => {
     expect(session.scheduleSave).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('Chrome tab group handlers', () => {
+  /** root → win (window 1): tabA (10), tabB (11), tabC (12) */
+  function setup() {
+    const root = new SessionTreeNode();
+    const win = new WindowTreeNode({ id: 1, type: 'normal', focused: true });
+    root.insertSubnode(0, win);
+    const tabs = [10, 11, 12].map((id) => {
+      const tab = new TabTreeNode({
+        id,
+        windowId: 1,
+        url: `https://x.com/${id}`,
+        title: String(id),
+      });
+      win.insertSubnode(-1, tab);
+      return tab;
+    });
+    const model = new TreeModel(root);
+    const session = createMockSession(model);
+    registerChromeEventHandlers(session, session.viewBridge);
+    return { model, win, tabs, session };
+  }
+
+  const fire = (mockFn: unknown, ...args: unknown[]) =>
+    getLastListener(mockFn as ReturnType<typeof vi.fn>)(...args);
+
+  const group = { id: 7, windowId: 1, title: 'Work', color: 'blue' } as const;
+
+  /** Simulate Chrome putting `tabId` into group 7. */
+  const join = (tabId: number, groupId = 7) =>
+    fire(
+      onTabUpdated,
+      tabId,
+      { groupId },
+      {
+        id: tabId,
+        windowId: 1,
+        url: `https://x.com/${tabId}`,
+        title: String(tabId),
+        groupId,
+      },
+    );
+
+  it('mirrors a new group under its window and moves joining tabs in', () => {
+    const { model, win, tabs, session } = setup();
+
+    fire(onTabGroupCreated, group);
+    join(11);
+    join(12);
+
+    const groupNode = model.findActiveTabGroup(7);
+    expect(groupNode).toBeInstanceOf(GroupTreeNode);
+    // The group takes the place of its first tab.
+    expect(win.subnodes).toEqual([tabs[0], groupNode]);
+    expect(groupNode!.subnodes).toEqual([tabs[1], tabs[2]]);
+    expect(groupNode!.getNodeText()).toBe('Work');
+    expect(session.scheduleSave).toHaveBeenCalled();
+  });
+
+  it('creates the group node lazily when a tab joins first', () => {
+    const { model, win, tabs } = setup();
+
+    join(10);
+
+    const groupNode = model.findActiveTabGroup(7);
+    expect(win.subnodes).toEqual([groupNode, tabs[1], tabs[2]]);
+    expect(groupNode!.subnodes).toEqual([tabs[0]]);
+  });
+
+  it('ignores tab updates that do not change the group', () => {
+    const { win, tabs } = setup();
+
+    fire(
+      onTabUpdated,
+      10,
+      { title: 'New' },
+      { id: 10, windowId: 1, title: 'New', groupId: 7 },
+    );
+
+    expect(win.subnodes).toEqual(tabs);
+  });
+
+  it('moves a leaving tab right after its group', () => {
+    const { model, win, tabs } = setup();
+    fire(onTabGroupCreated, group);
+    join(10);
+    join(11);
+
+    join(10, -1);
+
+    const groupNode = model.findActiveTabGroup(7);
+    expect(win.subnodes).toEqual([groupNode, tabs[0], tabs[2]]);
+    expect(groupNode!.subnodes).toEqual([tabs[1]]);
+  });
+
+  it('updates title and color', () => {
+    const { model } = setup();
+    fire(onTabGroupCreated, group);
+
+    fire(onTabGroupUpdated, { ...group, title: 'Play', color: 'red' });
+
+    const groupNode = model.findActiveTabGroup(7)!;
+    expect(groupNode.getNodeText()).toBe('Play');
+    expect(groupNode.getNodeContentCssClass()).toBe('tabgroup-red');
+  });
+
+  it('removes a group node that Chrome removed once empty', () => {
+    const { model, win, tabs } = setup();
+    fire(onTabGroupCreated, group);
+
+    fire(onTabGroupRemoved, group);
+
+    expect(model.findActiveTabGroup(7)).toBeNull();
+    expect(win.subnodes).toEqual(tabs);
+  });
+
+  it('keeps grouped tabs in their group when Chrome moves them', () => {
+    const { model, tabs } = setup();
+    fire(onTabGroupCreated, group);
+    join(10);
+    join(11);
+
+    fire(onTabMoved, 11, { windowId: 1, fromIndex: 1, toIndex: 2 });
+
+    expect(model.findActiveTabGroup(7)!.subnodes).toEqual([tabs[0], tabs[1]]);
+  });
+
+  it('saves a closing window with its group, title and color intact', () => {
+    const { model } = setup();
+    fire(onTabGroupCreated, group);
+    join(11);
+
+    // Window close: tabs go first, then the group, then the window.
+    for (const tabId of [10, 11, 12]) {
+      fire(onTabRemoved, tabId, { windowId: 1, isWindowClosing: true });
+    }
+    fire(onTabGroupRemoved, group);
+    fire(onWindowRemoved, 1);
+
+    const savedWin = model.root.subnodes[0];
+    expect(savedWin.type).toBe(NodeTypesEnum.SAVEDWINDOW);
+    const savedGroup = savedWin.subnodes[1] as GroupTreeNode;
+    expect(savedGroup.data).toEqual({
+      title: 'Work',
+      color: 'blue',
+      collapsed: undefined,
+    });
+    expect(savedGroup.subnodes.map((n) => n.type)).toEqual([
+      NodeTypesEnum.SAVEDTAB,
+    ]);
+    expect(model.findActiveTabGroup(7)).toBeNull();
+  });
+
+  it('leaves windows whose groups are being restored alone', () => {
+    const { model, win, tabs } = setup();
+    tabGroupRestoreWindowIds.add(1);
+    try {
+      fire(onTabGroupCreated, group);
+      join(10);
+    } finally {
+      tabGroupRestoreWindowIds.delete(1);
+    }
+
+    expect(model.findActiveTabGroup(7)).toBeNull();
+    expect(win.subnodes).toEqual(tabs);
+  });
+});
+
+describe('opener nesting', () => {
+  const tabIds = (node: TreeNode) =>
+    node.subnodes.map((n) => (n.data as TabData).id);
+
+  /** Window 1: tab 10 (with child tab 11), tab 12. Window 2: tab 20. */
+  function setup() {
+    const { model, win1, win2, tab1 } = buildTreeWithTwoWindows();
+    const child = new TabTreeNode({
+      id: 11,
+      windowId: 1,
+      url: 'https://c.com',
+    });
+    const next = new TabTreeNode({ id: 12, windowId: 1, url: 'https://d.com' });
+    model.insertSubnode(tab1, 0, child);
+    model.insertSubnode(win1, 1, next);
+    const session = createMockSession(model);
+    registerChromeEventHandlers(session, session.viewBridge);
+    return { model, session, win1, win2, tab1, child, next };
+  }
+
+  const created = (tab: Partial<TabData>) =>
+    getLastListener(onTabCreated as ReturnType<typeof vi.fn>)({
+      windowId: 1,
+      url: 'https://new.com',
+      ...tab,
+    });
+
+  it('nests a new tab as the last child of its opener', () => {
+    const { tab1 } = setup();
+    created({ id: 13, openerTabId: 10 });
+    expect(tabIds(tab1)).toEqual([11, 13]);
+  });
+
+  it('appends to the window when the setting is off', () => {
+    const { session, win1, tab1 } = setup();
+    session.settings.relateNewTabToOpener = false;
+    created({ id: 13, openerTabId: 10 });
+    expect(tabIds(tab1)).toEqual([11]);
+    expect(tabIds(win1)).toEqual([10, 12, 13]);
+  });
+
+  it('ignores openers in another window', () => {
+    const { win2 } = setup();
+    created({ id: 21, windowId: 2, openerTabId: 10 });
+    expect(tabIds(win2)).toEqual([20, 21]);
+  });
+
+  it('keeps a nested tab in place when the strip order agrees', () => {
+    const { session, tab1 } = setup();
+    getLastListener(onTabMoved as ReturnType<typeof vi.fn>)(11, {
+      windowId: 1,
+      fromIndex: 2,
+      toIndex: 1,
+    });
+    expect(tabIds(tab1)).toEqual([11]);
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+  });
+
+  it('moves a tab after the tab now in front of it, with its subtree', () => {
+    const { win1, tab1, next } = setup();
+    getLastListener(onTabMoved as ReturnType<typeof vi.fn>)(10, {
+      windowId: 1,
+      fromIndex: 0,
+      toIndex: 1,
+    });
+    expect(tabIds(win1)).toEqual([12, 10]);
+    expect(tabIds(tab1)).toEqual([11]);
+
+    // Behind a tab's last child, it joins that tab's children.
+    getLastListener(onTabMoved as ReturnType<typeof vi.fn>)(12, {
+      windowId: 1,
+      fromIndex: 0,
+      toIndex: 2,
+    });
+    expect(tabIds(win1)).toEqual([10]);
+    expect(tabIds(tab1)).toEqual([11, 12]);
+    expect(next.parent).toBe(tab1);
+  });
+
+  it('leaves the children of a tab attached elsewhere in the old window', () => {
+    const { win1, win2 } = setup();
+    getLastListener(onTabAttached as ReturnType<typeof vi.fn>)(10, {
+      newWindowId: 2,
+      newPosition: 1,
+    });
+    expect(tabIds(win1)).toEqual([11, 12]);
+    expect(tabIds(win2)).toEqual([20, 10]);
+  });
+
+  it('keeps a tab already nested inside the target window', () => {
+    const { win2, tab1 } = setup();
+    const tab20 = win2.subnodes[0];
+    tab1.removeFromParent();
+    tab20.insertSubnode(0, tab1);
+    getLastListener(onTabAttached as ReturnType<typeof vi.fn>)(10, {
+      newWindowId: 2,
+      newPosition: 1,
+    });
+    expect(tab1.parent).toBe(tab20);
+    expect(tabIds(tab1)).toEqual([11]);
+  });
+
+  it('saves nested tabs when their window closes', () => {
+    const { model } = setup();
+    getLastListener(onWindowRemoved as ReturnType<typeof vi.fn>)(1);
+
+    expect(model.findActiveTab(11)).toBeNull();
+    const savedWin = model.root.subnodes[0];
+    expect(savedWin.subnodes[0].subnodes[0].type).toBe(NodeTypesEnum.SAVEDTAB);
+  });
+});
+
+describe('auto-organize rules', () => {
+  const repoRule = {
+    id: 'r1',
+    enabled: true,
+    urlPattern: 'github.com/myorg/*',
+    titleContains: '',
+    windowTitleContains: '',
+    action: { kind: 'moveToGroup', groupPath: 'Work/Repos' },
+  } as const;
+
+  function setup() {
+    const { model, win } = buildTreeWithWindow();
+    const session = createMockSession(model);
+    (session as { organizeRules: unknown }).organizeRules = [repoRule];
+    registerChromeEventHandlers(session, session.viewBridge);
+    return { model, win, session };
+  }
+
+  it('files a new tab into the group named by a matching rule', () => {
+    const { model, win, session } = setup();
+    const broadcastDelta = vi.spyOn(session.viewBridge, 'broadcastDelta');
+
+    getLastListener(onTabCreated as ReturnType<typeof vi.fn>)({
+      id: 20,
+      windowId: 1,
+      url: 'https://github.com/myorg/app',
+      title: 'app',
+    });
+
+    const work = win.subnodes[1];
+    expect(work.getNodeText()).toBe('Work');
+    expect(work.subnodes[0].getNodeText()).toBe('Repos');
+    expect(model.findActiveTab(20)!.parent).toBe(work.subnodes[0]);
+    // The tab, the two groups, then the tab's move into them.
+    expect(broadcastDelta.mock.calls.map(([delta]) => delta.op)).toEqual([
+      'insert',
+      'insert',
+      'insert',
+      'move',
+    ]);
+    expect(session.getInitMessage).not.toHaveBeenCalled();
+  });
+
+  it('checks the rules again once a navigation completes', () => {
+    const { model, win } = setup();
+    const listener = getLastListener(onTabUpdated as ReturnType<typeof vi.fn>);
+    const tabData = {
+      id: 10,
+      windowId: 1,
+      url: 'https://github.com/myorg/lib',
+      title: 'lib',
+    };
+
+    listener(10, { url: tabData.url }, tabData);
+    expect(model.findActiveTab(10)!.parent).toBe(win);
+
+    listener(10, { status: 'complete' }, tabData);
+    expect(model.findActiveTab(10)!.parent!.getNodeText()).toBe('Repos');
+  });
+
+  it('applies the rules to tabs saved with their window', () => {
+    const { model, session } = setup();
+    (session as { organizeRules: unknown }).organizeRules = [
+      {
+        ...repoRule,
+        urlPattern: 'example.com',
+        action: { kind: 'mark', color: '#ff0000' },
+      },
+    ];
+
+    getLastListener(onWindowRemoved as ReturnType<typeof vi.fn>)(1);
+
+    const savedTab = model.root.subnodes[0].subnodes[0];
+    expect(savedTab.marks.customColorSaved).toBe('#ff0000');
+  });
+});
@@ -6,6 +6,7 @@ import { SessionTreeNode } from '@/tree/nodes/session-node';
 import { WindowTreeNode } from '@/tree/nodes/window-node';
 import { TabTreeNode } from '@/tree/nodes/tab-node';
 import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
 import { resetMvcIdCounter } from '@/tree/mvc-id';
 import { NodeTypesEnum } from '@/types/enums';
 
@@ -22,11 +23,18 @@ vi.mock('@/chrome/tabs', () => ({
   }),
 }));
 
+vi.mock('@/chrome/tab-groups', () => ({
+  TAB_GROUP_ID_NONE: -1,
+  queryTabGroups: vi.fn().mockResolvedValue([]),
+}));
+
 import { queryWindows } from '@/chrome/windows';
 import { queryTabs } from '@/chrome/tabs';
+import { queryTabGroups } from '@/chrome/tab-groups';
 
 const mockQueryWindows = queryWindows as ReturnType<typeof vi.fn>;
 const mockQueryTabs = queryTabs as ReturnType<typeof vi.fn>;
+const mockQueryTabGroups = queryTabGroups as ReturnType<typeof vi.fn>;
 
 beforeEach(() => {
   resetMvcIdCounter();
@@ -372,4 +380,73 @@ describe('synchronizeTreeWithChrome()', () => {
     expect(win.subnodes.length).toBe(1);
     expect(win.subnodes[0]).toBe(childTab);
   });
+
+  it('unbinds tab group nodes whose Chrome group is gone', async () => {
+    const model = buildTree([
+      { id: 1, tabs: [{ id: 10, url: 'https://a.com' }] },
+    ]);
+    const win = model.root.subnodes[0];
+    const group = new GroupTreeNode({ id: 5, windowId: 1, title: 'Old' });
+    model.insertAsLastChild(win, group);
+
+    mockQueryWindows.mockResolvedValue([{ id: 1, type: 'normal' }]);
+    mockQueryTabs.mockResolvedValue([
+      { id: 10, windowId: 1, url: 'https://a.com' },
+    ]);
+
+    const result = await synchronizeTreeWithChrome(model);
+
+    expect(result.recoveredCount).toBe(1);
+    expect(model.findActiveTabGroup(5)).toBeNull();
+    const saved = win.subnodes[1];
+    expect(saved.type).toBe(NodeTypesEnum.GROUP);
+    expect(saved.getNodeText()).toBe('Old');
+  });
+
+  it('nests new grouped tabs under a node for their group', async () => {
+    const model = buildTree([]);
+
+    mockQueryWindows.mockResolvedValue([{ id: 1, type: 'normal' }]);
+    mockQueryTabs.mockResolvedValue([
+      { id: 10, windowId: 1, url: 'https://a.com' },
+      { id: 11, windowId: 1, url: 'https://b.com', groupId: 5 },
+      { id: 12, windowId: 1, url: 'https://c.com', groupId: 5 },
+    ]);
+    mockQueryTabGroups.mockResolvedValueOnce([
+      { id: 5, windowId: 1, title: 'Docs', color: 'green' },
+    ]);
+
+    const result = await synchronizeTreeWithChrome(model);
+
+    // window + group + 3 tabs
+    expect(result.newCount).toBe(5);
+    const win = model.root.subnodes[0];
+    const group = model.findActiveTabGroup(5);
+    expect(win.subnodes).toEqual([model.findActiveTab(10), group]);
+    expect(group!.getNodeText()).toBe('Docs');
+    expect(group!.subnodes).toEqual([
+      model.findActiveTab(11),
+      model.findActiveTab(12),
+    ]);
+  });
+
+  it('nests new tabs under their opener when asked to', async () => {
+    const chromeTabs = [
+      { id: 10, windowId: 1, url: 'https://a.com' },
+      { id: 11, windowId: 1, url: 'https://b.com', openerTabId: 10 },
+      { id: 12, windowId: 1, url: 'https://c.com', openerTabId: 99 },
+    ];
+    mockQueryWindows.mockResolvedValue([{ id: 1, type: 'normal' }]);
+    mockQueryTabs.mockResolvedValue(chromeTabs);
+
+    const model = buildTree([]);
+    await synchronizeTreeWithChrome(model, { relateNewTabToOpener: true });
+    const opener = model.findActiveTab(10);
+    expect(opener!.subnodes).toEqual([model.findActiveTab(11)]);
+    expect(model.findActiveTab(12)!.parent).toBe(model.root.subnodes[0]);
+
+    const flat = buildTree([]);
+    await synchronizeTreeWithChrome(flat);
+    expect(flat.findActiveTab(10)!.subnodes).toEqual([]);
+  });
 });
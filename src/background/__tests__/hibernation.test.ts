@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/chrome/tabs', () => ({
+  discardTab: vi.fn(),
+  queryTabs: vi.fn(),
+}));
+vi.mock('@/chrome/alarms', () => ({
+  createAlarm: vi.fn(),
+  onAlarm: vi.fn(() => vi.fn()),
+  clearAlarm: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { hibernateTabs, AutoHibernateScheduler } from '../hibernation';
+import { discardTab, queryTabs } from '@/chrome/tabs';
+import { createAlarm, onAlarm, clearAlarm } from '@/chrome/alarms';
+import { TreeModel } from '@/tree/tree-model';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { WindowTreeNode } from '@/tree/nodes/window-node';
+import { TabTreeNode } from '@/tree/nodes/tab-node';
+import { resetMvcIdCounter } from '@/tree/mvc-id';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
+import type { TabData } from '@/types/node-data';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1, 12);
+
+function tab(id: number, data: Partial<TabData> = {}): TabTreeNode {
+  return new TabTreeNode({
+    id,
+    windowId: 1,
+    url: `https://x.com/${id}`,
+    ...data,
+  });
+}
+
+beforeEach(() => {
+  resetMvcIdCounter();
+  vi.clearAllMocks();
+  vi.mocked(discardTab).mockImplementation(async (id) => ({
+    id,
+    discarded: true,
+  }));
+});
+
+describe('hibernateTabs', () => {
+  it('discards every tab that is neither active nor already asleep', async () => {
+    const tabs = [
+      tab(1),
+      tab(2, { active: true }),
+      tab(3, { discarded: true }),
+      tab(4),
+    ];
+
+    expect(await hibernateTabs(tabs)).toBe(2);
+    expect(vi.mocked(discardTab).mock.calls).toEqual([[1], [4]]);
+  });
+
+  it('keeps going when a tab fails to discard', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(discardTab)
+      .mockRejectedValueOnce(new Error('gone'))
+      .mockResolvedValueOnce(null);
+
+    expect(await hibernateTabs([tab(1), tab(2), tab(3)])).toBe(1);
+    expect(discardTab).toHaveBeenCalledTimes(3);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe('AutoHibernateScheduler', () => {
+  function setup(...tabs: TabTreeNode[]) {
+    const root = new SessionTreeNode();
+    const win = new WindowTreeNode({ id: 1, type: 'normal' });
+    root.insertSubnode(0, win);
+    tabs.forEach((node, i) => win.insertSubnode(i, node));
+    const session = {
+      treeModel: new TreeModel(root),
+      settings: {
+        ...SETTINGS_DEFAULTS,
+        autoHibernateTabs: true,
+        autoHibernateAfterMinutes: 30,
+      },
+    };
+    // Chrome reports every tab as a candidate; filtering is its job.
+    vi.mocked(queryTabs).mockResolvedValue(
+      tabs.map((node) => node.chromeTabObj),
+    );
+    return { session, scheduler: new AutoHibernateScheduler(session) };
+  }
+
+  it('discards tabs idle past the limit', async () => {
+    const idle = tab(1);
+    idle.lastActivatedAt = NOW - 31 * MINUTE;
+    const recent = tab(2);
+    recent.lastActivatedAt = NOW - 5 * MINUTE;
+    const { scheduler } = setup(idle, recent);
+
+    expect(await scheduler.runIfDue(NOW)).toBe(1);
+    expect(vi.mocked(discardTab).mock.calls).toEqual([[1]]);
+  });
+
+  it("measures idle time from Chrome's lastAccessed after a restart", async () => {
+    // Nodes rebuilt when the service worker restarted look freshly active;
+    // Chrome still knows when each tab was last used.
+    const stale = tab(1, { lastAccessed: NOW - 60 * MINUTE });
+    stale.lastActivatedAt = NOW;
+    const used = tab(2, { lastAccessed: NOW - 5 * MINUTE });
+    used.lastActivatedAt = NOW;
+    const { scheduler } = setup(stale, used);
+
+    expect(await scheduler.runIfDue(NOW)).toBe(1);
+    expect(vi.mocked(discardTab).mock.calls).toEqual([[1]]);
+  });
+
+  it('asks Chrome only for inactive, unpinned, silent, loaded tabs', async () => {
+    const { scheduler } = setup(tab(1));
+
+    await scheduler.runIfDue(NOW);
+
+    expect(queryTabs).toHaveBeenCalledWith({
+      active: false,
+      pinned: false,
+      audible: false,
+      discarded: false,
+    });
+  });
+
+  it('ignores tabs that are not in the tree', async () => {
+    const { scheduler } = setup();
+    vi.mocked(queryTabs).mockResolvedValue([{ id: 99, windowId: 1 }]);
+
+    expect(await scheduler.runIfDue(NOW)).toBe(0);
+    expect(discardTab).not.toHaveBeenCalled();
+  });
+
+  it('does nothing while auto-hibernation is off', async () => {
+    const idle = tab(1);
+    idle.lastActivatedAt = NOW - 600 * MINUTE;
+    const { session, scheduler } = setup(idle);
+    session.settings.autoHibernateTabs = false;
+
+    expect(await scheduler.runIfDue(NOW)).toBe(0);
+    expect(queryTabs).not.toHaveBeenCalled();
+  });
+
+  it('arms and clears its alarm', async () => {
+    const { scheduler } = setup();
+
+    scheduler.start();
+    expect(createAlarm).toHaveBeenCalledWith('tabs-outliner-auto-hibernate', 5);
+    expect(onAlarm).toHaveBeenCalledWith(
+      'tabs-outliner-auto-hibernate',
+      expect.any(Function),
+    );
+
+    await scheduler.stop();
+    expect(clearAlarm).toHaveBeenCalledWith('tabs-outliner-auto-hibernate');
+  });
+});
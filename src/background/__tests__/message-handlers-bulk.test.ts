@@ -0,0 +1,440 @@
+/**
+ * Tests for multi-target (multi-selection) message handlers: bulk move,
+ * copy, group, delete, save & close, hibernate and restore.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleViewMessage } from '../message-handlers';
+import { ViewBridge } from '../view-bridge';
+import { TreeModel } from '@/tree/tree-model';
+import { CloseTracker } from '@/tree/close-tracker';
+import { UndoStack } from '@/tree/undo-stack';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { WindowTreeNode } from '@/tree/nodes/window-node';
+import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { TabTreeNode } from '@/tree/nodes/tab-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { TextNoteTreeNode } from '@/tree/nodes/text-note-node';
+import { resetMvcIdCounter } from '@/tree/mvc-id';
+import { NodeTypesEnum } from '@/types/enums';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
+import type { TreeNode } from '@/tree/tree-node';
+import type { ActiveSession } from '../active-session';
+import type {
+  Msg_InitTreeView,
+  ViewToBackgroundMessage,
+} from '@/types/messages';
+
+vi.mock('@/chrome/tabs', () => ({
+  focusTab: vi.fn(),
+  createTab: vi.fn(),
+  removeTab: vi.fn().mockResolvedValue(undefined),
+  moveTab: vi.fn().mockResolvedValue({}),
+  discardTab: vi.fn().mockResolvedValue({}),
+}));
+vi.mock('@/chrome/windows', () => ({
+  focusWindow: vi.fn(),
+  removeWindow: vi.fn().mockResolvedValue(undefined),
+  getWindow: vi.fn().mockResolvedValue(null),
+  createWindowWithUrl: vi.fn(),
+  createWindowFromTab: vi.fn(),
+}));
+
+import { createTab, removeTab, moveTab, discardTab } from '@/chrome/tabs';
+import { removeWindow, createWindowWithUrl } from '@/chrome/windows';
+
+function createMockSession(model: TreeModel, undoStack: UndoStack) {
+  let nextViewId = 0;
+  const session = {
+    treeModel: model,
+    instanceId: 'test-bulk',
+    closeTracker: new CloseTracker(),
+    undoStack,
+    viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
+    scheduleSave: vi.fn(),
+    getInitMessage: vi.fn().mockImplementation(
+      () =>
+        ({
+          command: 'msg2view_initTreeView',
+          rootNode_currentSession: {},
+          globalViewId: ++nextViewId,
+          instanceId: 'test-bulk',
+        }) as unknown as Msg_InitTreeView,
+    ),
+  };
+  return session as typeof session & ActiveSession;
+}
+
+function tab(id: number, windowId: number): TabTreeNode {
+  return new TabTreeNode({
+    id,
+    windowId,
+    url: `https://example.com/${id}`,
+    title: `Tab ${id}`,
+    active: false,
+  });
+}
+
+function savedTab(name: string): SavedTabTreeNode {
+  return new SavedTabTreeNode({
+    url: `https://saved.com/${name}`,
+    title: name,
+  });
+}
+
+/**
+ * root
+ * ├─ winA (window 1): t1, t2, t3
+ * ├─ saved (saved window): s1, s2
+ * └─ note
+ */
+function setup() {
+  const root = new SessionTreeNode();
+  const winA = new WindowTreeNode({ id: 1, type: 'normal', focused: true });
+  const [t1, t2, t3] = [tab(11, 1), tab(12, 1), tab(13, 1)];
+  const saved = new SavedWindowTreeNode();
+  const [s1, s2] = [savedTab('s1'), savedTab('s2')];
+  const note = new TextNoteTreeNode({ note: 'note' });
+  root.insertSubnode(0, winA);
+  root.insertSubnode(1, saved);
+  root.insertSubnode(2, note);
+  [t1, t2, t3].forEach((node, i) => winA.insertSubnode(i, node));
+  [s1, s2].forEach((node, i) => saved.insertSubnode(i, node));
+
+  const undoStack = new UndoStack();
+  const model = new TreeModel(root, {
+    onMutation: (r) => undoStack.observe(r),
+  });
+  const session = createMockSession(model, undoStack);
+  const bridge = new ViewBridge();
+  const broadcastSpy = vi.spyOn(bridge, 'broadcast');
+  const send = (msg: ViewToBackgroundMessage) =>
+    handleViewMessage(msg, {} as Browser.runtime.Port, session, bridge);
+
+  return {
+    root,
+    winA,
+    t1,
+    t2,
+    t3,
+    saved,
+    s1,
+    s2,
+    note,
+    model,
+    undoStack,
+    session,
+    broadcastSpy,
+    send,
+  };
+}
+
+const ids = (node: TreeNode) => node.subnodes.map((child) => child.idMVC);
+
+beforeEach(() => {
+  resetMvcIdCounter();
+  vi.clearAllMocks();
+});
+
+describe('request2bkg_moveHierarchies', () => {
+  it('moves the batch in tree order as one undo step with one save', () => {
+    const {
+      winA,
+      t1,
+      t2,
+      t3,
+      saved,
+      s1,
+      s2,
+      undoStack,
+      model,
+      session,
+      broadcastSpy,
+      send,
+    } = setup();
+
+    send({
+      request: 'request2bkg_moveHierarchies',
+      targetNodeIdsMVC: [s2.idMVC, s1.idMVC],
+      containerIdMVC: winA.idMVC,
+      position: 1,
+    });
+
+    expect(ids(winA)).toEqual([t1, s1, s2, t2, t3].map((n) => n.idMVC));
+    expect(saved.subnodes).toHaveLength(0);
+    // One move delta per node instead of a full refresh.
+    expect(
+      broadcastSpy.mock.calls.map(([msg]) =>
+        msg.command === 'msg2view_treeDelta' ? msg.delta : null,
+      ),
+    ).toEqual([
+      expect.objectContaining({ op: 'move', idMVC: s1.idMVC, index: 1 }),
+      expect.objectContaining({ op: 'move', idMVC: s2.idMVC, index: 2 }),
+    ]);
+    expect(session.getInitMessage).not.toHaveBeenCalled();
+    expect(session.scheduleSave).toHaveBeenCalledTimes(1);
+
+    undoStack.undo(model);
+    expect(ids(saved)).toEqual([s1.idMVC, s2.idMVC]);
+    expect(ids(winA)).toEqual([t1, t2, t3].map((n) => n.idMVC));
+    expect(undoStack.canUndo).toBe(false);
+  });
+
+  it('counts the position with the moved nodes still in place', () => {
+    const { winA, t1, t2, t3, send } = setup();
+
+    send({
+      request: 'request2bkg_moveHierarchies',
+      targetNodeIdsMVC: [t1.idMVC, t3.idMVC],
+      containerIdMVC: winA.idMVC,
+      position: 3,
+    });
+
+    expect(ids(winA)).toEqual([t2, t1, t3].map((n) => n.idMVC));
+    // Same Chrome window — nothing to move in the browser.
+    expect(moveTab).not.toHaveBeenCalled();
+  });
+
+  it('skips unknown ids and nodes nested under another moved node', () => {
+    const { root, winA, saved, s1, s2, note, send } = setup();
+
+    send({
+      request: 'request2bkg_moveHierarchies',
+      targetNodeIdsMVC: [s1.idMVC, 'missing', saved.idMVC],
+      containerIdMVC: null,
+      position: 0,
+    });
+
+    expect(ids(root)).toEqual([saved, winA, note].map((n) => n.idMVC));
+    expect(ids(saved)).toEqual([s1.idMVC, s2.idMVC]);
+  });
+
+  it('rejects the whole batch when the target is inside a moved node', () => {
+    const { root, winA, saved, s1, note, session, send } = setup();
+
+    send({
+      request: 'request2bkg_moveHierarchies',
+      targetNodeIdsMVC: [note.idMVC, saved.idMVC],
+      containerIdMVC: s1.idMVC,
+      position: 0,
+    });
+
+    expect(ids(root)).toEqual([winA, saved, note].map((n) => n.idMVC));
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+  });
+
+  it('wraps tabs dropped at root in a single saved window', () => {
+    const { root, s1, s2, send } = setup();
+
+    send({
+      request: 'request2bkg_moveHierarchies',
+      targetNodeIdsMVC: [s1.idMVC, s2.idMVC],
+      containerIdMVC: null,
+      position: 3,
+    });
+
+    const wrapper = root.subnodes[3];
+    expect(wrapper.type).toBe(NodeTypesEnum.SAVEDWINDOW);
+    expect(ids(wrapper)).toEqual([s1.idMVC, s2.idMVC]);
+  });
+
+  it('moves active tabs into the destination Chrome window', () => {
+    const { root, t1, t2, model, send } = setup();
+    const winB = new WindowTreeNode({ id: 2, type: 'normal', focused: false });
+    model.insertSubnode(root, 3, winB);
+
+    send({
+      request: 'request2bkg_moveHierarchies',
+      targetNodeIdsMVC: [t1.idMVC, t2.idMVC],
+      containerIdMVC: winB.idMVC,
+      position: 0,
+    });
+
+    expect(ids(winB)).toEqual([t1.idMVC, t2.idMVC]);
+    expect(moveTab).toHaveBeenCalledWith(11, 2);
+    expect(moveTab).toHaveBeenCalledWith(12, 2);
+  });
+});
+
+describe('request2bkg_moveHierarchiesToNewGroup', () => {
+  it('wraps the batch in a group at the first node and focuses it', () => {
+    const { winA, t1, t2, t3, broadcastSpy, undoStack, model, send } = setup();
+
+    send({
+      request: 'request2bkg_moveHierarchiesToNewGroup',
+      targetNodeIdsMVC: [t3.idMVC, t1.idMVC],
+    });
+
+    const group = winA.subnodes[0];
+    expect(group.type).toBe(NodeTypesEnum.GROUP);
+    expect(ids(group)).toEqual([t1.idMVC, t3.idMVC]);
+    expect(ids(winA)).toEqual([group.idMVC, t2.idMVC]);
+    // Grouped inside their own window, the tabs stay where they are.
+    expect(moveTab).not.toHaveBeenCalled();
+    expect(broadcastSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: 'msg2view_setCursorHere',
+        targetNodeIdMVC: group.idMVC,
+      }),
+    );
+
+    undoStack.undo(model);
+    expect(ids(winA)).toEqual([t1, t2, t3].map((n) => n.idMVC));
+  });
+});
+
+describe('request2bkg_copyHierarchies', () => {
+  it('pastes clones of the batch in tree order', () => {
+    const { winA, t1, t2, t3, s1, note, model, session, send } = setup();
+
+    send({
+      request: 'request2bkg_copyHierarchies',
+      sourceIdsMVC: [note.idMVC, s1.idMVC],
+      targetParentIdMVC: winA.idMVC,
+      targetPosition: -1,
+    });
+
+    expect(winA.subnodes).toHaveLength(5);
+    const [sClone, noteClone] = winA.subnodes.slice(3);
+    expect(ids(winA).slice(0, 3)).toEqual([t1, t2, t3].map((n) => n.idMVC));
+    expect(sClone.type).toBe(NodeTypesEnum.SAVEDTAB);
+    expect(sClone.idMVC).not.toBe(s1.idMVC);
+    expect(noteClone.type).toBe(NodeTypesEnum.TEXTNOTE);
+    expect(model.findByMvcId(s1.idMVC)).toBe(s1);
+    expect(session.scheduleSave).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('request2bkg_activateHoveringMenuActionOnNodes', () => {
+  it('deletes the batch as one undo step and moves the cursor', () => {
+    const { root, winA, t1, t2, t3, saved, note, broadcastSpy, ...rest } =
+      setup();
+
+    rest.send({
+      request: 'request2bkg_activateHoveringMenuActionOnNodes',
+      targetNodeIdsMVC: [t2.idMVC, note.idMVC, t3.idMVC],
+      actionId: 'deleteAction',
+    });
+
+    expect(ids(root)).toEqual([winA.idMVC, saved.idMVC]);
+    expect(ids(winA)).toEqual([t1.idMVC]);
+    expect(broadcastSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: 'msg2view_setCursorHere',
+        targetNodeIdMVC: saved.idMVC,
+      }),
+    );
+    expect(rest.session.scheduleSave).toHaveBeenCalledTimes(1);
+
+    rest.undoStack.undo(rest.model);
+    expect(ids(root)).toEqual([winA, saved, note].map((n) => n.idMVC));
+    expect(ids(winA)).toEqual([t1, t2, t3].map((n) => n.idMVC));
+  });
+
+  it('removes a window the deletion leaves empty', () => {
+    const { root, winA, saved, s1, s2, note, send } = setup();
+
+    send({
+      request: 'request2bkg_activateHoveringMenuActionOnNodes',
+      targetNodeIdsMVC: [s1.idMVC, s2.idMVC],
+      actionId: 'deleteAction',
+    });
+
+    expect(ids(root)).toEqual([winA.idMVC, note.idMVC]);
+    expect(saved.parent).toBeNull();
+  });
+
+  it('saves and closes active tabs with a single save', () => {
+    const { winA, t1, t2, t3, s1, session, send } = setup();
+
+    send({
+      request: 'request2bkg_activateHoveringMenuActionOnNodes',
+      targetNodeIdsMVC: [t1.idMVC, t3.idMVC, s1.idMVC],
+      actionId: 'closeAction',
+    });
+
+    expect(winA.subnodes.map((n) => n.type)).toEqual([
+      NodeTypesEnum.SAVEDTAB,
+      NodeTypesEnum.TAB,
+      NodeTypesEnum.SAVEDTAB,
+    ]);
+    expect(winA.subnodes[1]).toBe(t2);
+    expect(removeTab).toHaveBeenCalledTimes(2);
+    expect(removeTab).toHaveBeenCalledWith(11);
+    expect(removeTab).toHaveBeenCalledWith(13);
+    expect(session.scheduleSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes a window once when its tabs are selected too', () => {
+    const { root, winA, t1, send } = setup();
+
+    send({
+      request: 'request2bkg_activateHoveringMenuActionOnNodes',
+      targetNodeIdsMVC: [t1.idMVC, winA.idMVC],
+      actionId: 'closeAction',
+    });
+
+    expect(root.subnodes[0].type).toBe(NodeTypesEnum.SAVEDWINDOW);
+    expect(removeWindow).toHaveBeenCalledTimes(1);
+    expect(removeWindow).toHaveBeenCalledWith(1);
+    expect(removeTab).not.toHaveBeenCalled();
+  });
+});
+
+describe('request2bkg_activateHoveringMenuActionOnNodes — hibernate', () => {
+  it('discards every live tab under the batch and leaves the tree as is', async () => {
+    const { winA, t2, s1, send, session } = setup();
+    const child = tab(14, 1);
+    t2.insertSubnode(0, child);
+
+    send({
+      request: 'request2bkg_activateHoveringMenuActionOnNodes',
+      targetNodeIdsMVC: [t2.idMVC, winA.idMVC, s1.idMVC],
+      actionId: 'hibernateAction',
+    });
+
+    await vi.waitFor(() => {
+      expect(discardTab).toHaveBeenCalledTimes(4);
+    });
+    expect(vi.mocked(discardTab).mock.calls).toEqual([[11], [12], [14], [13]]);
+    expect(winA.subnodes.every((n) => n.type === NodeTypesEnum.TAB)).toBe(true);
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+  });
+});
+
+describe('request2bkg_restoreNodes', () => {
+  it('restores saved tabs one by one into a shared window', async () => {
+    vi.mocked(createWindowWithUrl).mockResolvedValue({
+      id: 100,
+      windowId: 7,
+      url: 'https://saved.com/s1',
+      active: true,
+    });
+    vi.mocked(createTab).mockResolvedValue({
+      id: 101,
+      windowId: 7,
+      url: 'https://saved.com/s2',
+      active: true,
+    });
+    const { t1, s1, s2, send } = setup();
+
+    send({
+      request: 'request2bkg_restoreNodes',
+      targetNodeIdsMVC: [s2.idMVC, t1.idMVC, s1.idMVC],
+    });
+
+    await vi.waitFor(() => {
+      expect(createTab).toHaveBeenCalledWith({
+        url: 'https://saved.com/s2',
+        windowId: 7,
+      });
+    });
+    expect(createWindowWithUrl).toHaveBeenCalledTimes(1);
+    expect(createWindowWithUrl).toHaveBeenCalledWith(
+      'https://saved.com/s1',
+      {},
+    );
+  });
+});
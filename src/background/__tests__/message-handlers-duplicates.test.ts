@@ -0,0 +1,300 @@
+/**
+ * Tests for the duplicate review handlers: scan, merge (keep one, remove
+ * the rest) and reveal — plus the full-tree search, whose hits are
+ * revealed the same way.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleViewMessage } from '../message-handlers';
+import { ViewBridge } from '../view-bridge';
+import { TreeModel } from '@/tree/tree-model';
+import { CloseTracker } from '@/tree/close-tracker';
+import { UndoStack } from '@/tree/undo-stack';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { WindowTreeNode } from '@/tree/nodes/window-node';
+import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { TabTreeNode } from '@/tree/nodes/tab-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { resetMvcIdCounter } from '@/tree/mvc-id';
+import { NodeTypesEnum } from '@/types/enums';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
+import { DEFAULT_DUPLICATE_SCAN_OPTIONS } from '@/types/duplicates';
+import type { TreeNode } from '@/tree/tree-node';
+import type { ActiveSession } from '../active-session';
+import type {
+  Msg_InitTreeView,
+  ViewToBackgroundMessage,
+} from '@/types/messages';
+
+vi.mock('@/chrome/tabs', () => ({
+  focusTab: vi.fn(),
+  createTab: vi.fn(),
+  removeTab: vi.fn().mockResolvedValue(undefined),
+  moveTab: vi.fn().mockResolvedValue({}),
+}));
+vi.mock('@/chrome/windows', () => ({
+  focusWindow: vi.fn(),
+  removeWindow: vi.fn().mockResolvedValue(undefined),
+  getWindow: vi.fn().mockResolvedValue(null),
+  createWindowWithUrl: vi.fn(),
+  createWindowFromTab: vi.fn(),
+}));
+
+import { removeTab } from '@/chrome/tabs';
+
+function createMockSession(model: TreeModel, undoStack: UndoStack) {
+  const session = {
+    treeModel: model,
+    instanceId: 'test-duplicates',
+    closeTracker: new CloseTracker(),
+    undoStack,
+    viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
+    scheduleSave: vi.fn(),
+    getInitMessage: vi.fn().mockReturnValue({
+      command: 'msg2view_initTreeView',
+      rootNode_currentSession: {},
+      globalViewId: 1,
+      instanceId: 'test-duplicates',
+    } as unknown as Msg_InitTreeView),
+  };
+  return session as typeof session & ActiveSession;
+}
+
+/**
+ * root
+ * ├─ win (window 1): open (tab 11, /a) ─ child (tab 12, /child), other (tab 13, /z)
+ * └─ saved (saved window, collapsed): savedA (/a/), savedB (/a#top)
+ */
+function setup() {
+  const root = new SessionTreeNode();
+  const win = new WindowTreeNode({ id: 1, type: 'normal', focused: true });
+  const open = new TabTreeNode({
+    id: 11,
+    windowId: 1,
+    url: 'https://x.com/a',
+    title: 'A',
+  });
+  const child = new TabTreeNode({
+    id: 12,
+    windowId: 1,
+    url: 'https://x.com/child',
+    title: 'Child',
+  });
+  const other = new TabTreeNode({
+    id: 13,
+    windowId: 1,
+    url: 'https://x.com/z',
+    title: 'Z',
+  });
+  const saved = new SavedWindowTreeNode();
+  const savedA = new SavedTabTreeNode({ url: 'https://x.com/a/', title: 'A' });
+  const savedB = new SavedTabTreeNode({
+    url: 'https://x.com/a#top',
+    title: 'A',
+  });
+  root.insertSubnode(0, win);
+  root.insertSubnode(1, saved);
+  win.insertSubnode(0, open);
+  win.insertSubnode(1, other);
+  open.insertSubnode(0, child);
+  saved.insertSubnode(0, savedA);
+  saved.insertSubnode(1, savedB);
+  saved.colapsed = true;
+
+  const undoStack = new UndoStack();
+  const model = new TreeModel(root, {
+    onMutation: (r) => undoStack.observe(r),
+  });
+  const session = createMockSession(model, undoStack);
+  const bridge = new ViewBridge();
+  const broadcastSpy = vi.spyOn(bridge, 'broadcast');
+  const sendToSpy = vi.spyOn(bridge, 'sendTo');
+  const port = {} as Browser.runtime.Port;
+  const send = (msg: ViewToBackgroundMessage) =>
+    handleViewMessage(msg, port, session, bridge);
+
+  return {
+    win,
+    open,
+    child,
+    other,
+    saved,
+    savedA,
+    savedB,
+    model,
+    undoStack,
+    session,
+    broadcastSpy,
+    sendToSpy,
+    port,
+    send,
+  };
+}
+
+const ids = (node: TreeNode) => node.subnodes.map((n) => n.idMVC);
+
+beforeEach(() => {
+  resetMvcIdCounter();
+  vi.clearAllMocks();
+});
+
+describe('request2bkg_findDuplicates', () => {
+  it('replies to the requesting view only', () => {
+    const { open, savedA, savedB, sendToSpy, broadcastSpy, port, send } =
+      setup();
+
+    send({
+      request: 'request2bkg_findDuplicates',
+      options: DEFAULT_DUPLICATE_SCAN_OPTIONS,
+    });
+
+    expect(broadcastSpy).not.toHaveBeenCalled();
+    expect(sendToSpy).toHaveBeenCalledWith(port, {
+      command: 'msg2view_duplicatesResult',
+      groups: [
+        expect.objectContaining({
+          url: 'https://x.com/a',
+          occurrences: [open, savedA, savedB].map((n) =>
+            expect.objectContaining({ idMVC: n.idMVC }),
+          ),
+        }),
+      ],
+    });
+  });
+});
+
+describe('request2bkg_searchTree', () => {
+  it('answers the requesting view with hits inside collapsed windows', () => {
+    const { open, savedA, savedB, saved, sendToSpy, broadcastSpy, port, send } =
+      setup();
+
+    send({ request: 'request2bkg_searchTree', query: 'x.com/a' });
+
+    expect(broadcastSpy).not.toHaveBeenCalled();
+    expect(sendToSpy).toHaveBeenCalledWith(port, {
+      command: 'msg2view_searchResult',
+      query: 'x.com/a',
+      matchIds: [open.idMVC, savedA.idMVC, savedB.idMVC],
+    });
+    // Searching is read-only: nothing is expanded until a hit is revealed.
+    expect(saved.colapsed).toBe(true);
+  });
+});
+
+describe('request2bkg_mergeDuplicates', () => {
+  it('removes saved duplicates as one undo step', () => {
+    const {
+      open,
+      saved,
+      savedA,
+      savedB,
+      model,
+      undoStack,
+      session,
+      broadcastSpy,
+      send,
+    } = setup();
+
+    send({
+      request: 'request2bkg_mergeDuplicates',
+      keepIdMVC: savedA.idMVC,
+      removeIdsMVC: [savedB.idMVC],
+    });
+
+    expect(ids(saved)).toEqual([savedA.idMVC]);
+    expect(model.findByMvcId(open.idMVC)).toBe(open);
+    expect(broadcastSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: 'msg2view_treeDelta',
+        delta: expect.objectContaining({ op: 'remove', idMVC: savedB.idMVC }),
+      }),
+    );
+    expect(session.getInitMessage).not.toHaveBeenCalled();
+    expect(session.scheduleSave).toHaveBeenCalledTimes(1);
+
+    undoStack.undo(model);
+    expect(ids(saved)).toEqual([savedA.idMVC, savedB.idMVC]);
+  });
+
+  it('closes open duplicates and lifts their children into place', () => {
+    const { win, open, child, other, savedA, model, undoStack, send } = setup();
+
+    send({
+      request: 'request2bkg_mergeDuplicates',
+      keepIdMVC: savedA.idMVC,
+      removeIdsMVC: [open.idMVC],
+    });
+
+    expect(removeTab).toHaveBeenCalledWith(11);
+    expect(ids(win)).toEqual([child.idMVC, other.idMVC]);
+
+    // Undo brings the closed tab back as a saved tab, not a dangling
+    // active node.
+    undoStack.undo(model);
+    expect(win.subnodes).toHaveLength(2);
+    const restored = win.subnodes[0];
+    expect(restored.type).toBe(NodeTypesEnum.SAVEDTAB);
+    expect(restored.getHref()).toBe('https://x.com/a');
+    expect(ids(restored)).toEqual([child.idMVC]);
+  });
+
+  it('never removes the kept node and ignores unknown ids', () => {
+    const { saved, savedA, savedB, session, send } = setup();
+
+    send({
+      request: 'request2bkg_mergeDuplicates',
+      keepIdMVC: savedA.idMVC,
+      removeIdsMVC: [savedA.idMVC, 'missing'],
+    });
+
+    expect(ids(saved)).toEqual([savedA.idMVC, savedB.idMVC]);
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when the kept node is gone', () => {
+    const { saved, savedA, savedB, send } = setup();
+
+    send({
+      request: 'request2bkg_mergeDuplicates',
+      keepIdMVC: 'missing',
+      removeIdsMVC: [savedA.idMVC],
+    });
+
+    expect(ids(saved)).toEqual([savedA.idMVC, savedB.idMVC]);
+  });
+});
+
+describe('request2bkg_revealNode', () => {
+  it('expands collapsed ancestors and moves the cursor, without undo', () => {
+    const { saved, savedB, undoStack, session, broadcastSpy, send } = setup();
+
+    send({ request: 'request2bkg_revealNode', targetNodeIdMVC: savedB.idMVC });
+
+    expect(saved.colapsed).toBe(false);
+    expect(broadcastSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: 'msg2view_notifyObserver_onNodeUpdated',
+        idMVC: saved.idMVC,
+      }),
+    );
+    expect(session.getInitMessage).not.toHaveBeenCalled();
+    expect(broadcastSpy).toHaveBeenLastCalledWith({
+      command: 'msg2view_setCursorHere',
+      targetNodeIdMVC: savedB.idMVC,
+      doNotScrollView: false,
+    });
+    expect(undoStack.canUndo).toBe(false);
+  });
+
+  it('only moves the cursor when the node is already visible', () => {
+    const { open, session, broadcastSpy, send } = setup();
+
+    send({ request: 'request2bkg_revealNode', targetNodeIdMVC: open.idMVC });
+
+    expect(session.getInitMessage).not.toHaveBeenCalled();
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+    expect(broadcastSpy).toHaveBeenCalledTimes(1);
+  });
+});
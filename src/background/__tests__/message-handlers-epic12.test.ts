@@ -7,6 +7,7 @@ import { handleViewMessage } from '../message-handlers';
 import { ViewBridge } from '../view-bridge';
 import { TreeModel } from '@/tree/tree-model';
 import { CloseTracker } from '@/tree/close-tracker';
+import { UndoStack } from '@/tree/undo-stack';
 import { SessionTreeNode } from '@/tree/nodes/session-node';
 import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
 import { GroupTreeNode } from '@/tree/nodes/group-node';
@@ -15,6 +16,7 @@ import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
 import { resetMvcIdCounter } from '@/tree/mvc-id';
 import type { ActiveSession } from '../active-session';
 import type { Msg_InitTreeView } from '@/types/messages';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
 
 vi.mock('@/chrome/tabs', () => ({
   focusTab: vi.fn(),
@@ -48,13 +50,19 @@ function createMockPort(): Browser.runtime.Port {
   } as unknown as Browser.runtime.Port;
 }
 
-function createMockSession(model: TreeModel): ActiveSession {
+function createMockSession(
+  model: TreeModel,
+  undoStack: UndoStack = new UndoStack(),
+): ActiveSession {
   let nextViewId = 0;
   return {
     treeModel: model,
     instanceId: 'test-epic12',
     closeTracker: new CloseTracker(),
+    undoStack,
     viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
     scheduleSave: vi.fn(),
     saveNow: vi.fn().mockResolvedValue(undefined),
     getInitMessage: vi.fn().mockImplementation(
@@ -152,7 +160,7 @@ describe('createWindow handler', () => {
     expect(model.root!.subnodes[1]).toBeInstanceOf(SavedWindowTreeNode);
   });
 
-  it('broadcasts onNodeUpdated for the new node', () => {
+  it('sends an insert delta for the new node', () => {
     const { model, win } = buildBaseModel();
     const port = createMockPort();
     const bridge = new ViewBridge();
@@ -169,7 +177,12 @@ describe('createWindow handler', () => {
 
     expect(bridge.broadcast).toHaveBeenCalledWith(
       expect.objectContaining({
-        command: 'msg2view_notifyObserver_onNodeUpdated',
+        command: 'msg2view_treeDelta',
+        delta: expect.objectContaining({
+          op: 'insert',
+          parentIdMVC: model.root!.idMVC,
+          index: 1,
+        }),
       }),
     );
   });
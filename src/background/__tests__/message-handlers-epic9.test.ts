@@ -7,6 +7,7 @@ import { handleViewMessage } from '../message-handlers';
 import { ViewBridge } from '../view-bridge';
 import { TreeModel } from '@/tree/tree-model';
 import { CloseTracker } from '@/tree/close-tracker';
+import { UndoStack } from '@/tree/undo-stack';
 import { SessionTreeNode } from '@/tree/nodes/session-node';
 import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
 import { TabTreeNode } from '@/tree/nodes/tab-node';
@@ -17,6 +18,7 @@ import { SeparatorTreeNode } from '@/tree/nodes/separator-node';
 import { resetMvcIdCounter } from '@/tree/mvc-id';
 import type { ActiveSession } from '../active-session';
 import type { Msg_InitTreeView } from '@/types/messages';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
 
 vi.mock('@/chrome/tabs', () => ({
   focusTab: vi.fn(),
@@ -50,13 +52,19 @@ function createMockPort(): Browser.runtime.Port {
   } as unknown as Browser.runtime.Port;
 }
 
-function createMockSession(model: TreeModel): ActiveSession {
+function createMockSession(
+  model: TreeModel,
+  undoStack: UndoStack = new UndoStack(),
+): ActiveSession {
   let nextViewId = 0;
   return {
     treeModel: model,
     instanceId: 'test-epic9',
     closeTracker: new CloseTracker(),
+    undoStack,
     viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
     scheduleSave: vi.fn(),
     saveNow: vi.fn().mockResolvedValue(undefined),
     getInitMessage: vi.fn().mockImplementation(
@@ -210,6 +218,7 @@ describe('editTitleAction for SEPARATOR', () => {
       expect.objectContaining({
         command: 'msg2view_notifyObserver_onNodeUpdated',
         idMVC: sep.idMVC,
+        parentIdMVC: win.idMVC,
       }),
     );
     expect(broadcastSpy).not.toHaveBeenCalledWith(
@@ -458,11 +467,17 @@ describe('request2bkg_copyHierarchy', () => {
     const clone = root.subnodes[originalChildCount];
     // Clone is a different node (new idMVC)
     expect(clone.idMVC).not.toBe(win.idMVC);
-    // Full broadcast sent
-    expect(session.getInitMessage).toHaveBeenCalled();
+    // The clone goes out as an insert delta
     expect(broadcastSpy).toHaveBeenCalledWith(
-      expect.objectContaining({ command: 'msg2view_initTreeView' }),
+      expect.objectContaining({
+        command: 'msg2view_treeDelta',
+        delta: expect.objectContaining({
+          op: 'insert',
+          index: originalChildCount,
+        }),
+      }),
     );
+    expect(session.getInitMessage).not.toHaveBeenCalled();
     expect(session.scheduleSave).toHaveBeenCalled();
   });
 
@@ -533,3 +548,165 @@ describe('request2bkg_copyHierarchy', () => {
     expect(broadcastSpy).not.toHaveBeenCalled();
   });
 });
+
+// ── Add note handlers ──────────────────────────────────────────────────────────
+
+describe('request2bkg_addNote*', () => {
+  function addNote(
+    request: Parameters<typeof handleViewMessage>[0]['request'],
+    targetNodeIdMVC?: string,
+  ) {
+    const base = buildBaseModel();
+    const tab2 = new SavedTabTreeNode({
+      url: 'https://two.example.com',
+      title: 'Two',
+      active: false,
+    });
+    base.model.insertSubnode(base.win, 1, tab2);
+    const session = createMockSession(base.model);
+    const bridge = new ViewBridge();
+    const broadcastSpy = vi.spyOn(bridge, 'broadcast');
+    const port = createMockPort();
+
+    handleViewMessage(
+      {
+        request,
+        targetNodeIdMVC: targetNodeIdMVC ?? base.tab.idMVC,
+      } as Parameters<typeof handleViewMessage>[0],
+      port,
+      session,
+      bridge,
+    );
+
+    const editMsg = (port.postMessage as ReturnType<typeof vi.fn>).mock
+      .calls[0]?.[0];
+    const note = editMsg
+      ? base.model.findByMvcId(editMsg.targetNodeIdMVC)
+      : null;
+    return { ...base, tab2, session, broadcastSpy, port, editMsg, note };
+  }
+
+  it('inserts a note after the cursor node and opens its editor', () => {
+    const { win, tab, tab2, note, editMsg, broadcastSpy, session } = addNote(
+      'request2bkg_addNoteAsNextSiblingOfCurrentNode',
+    );
+
+    expect(note).toBeInstanceOf(TextNoteTreeNode);
+    expect(win.subnodes).toEqual([tab, note, tab2]);
+    expect(editMsg).toEqual({
+      command: 'msg2view_activateNodeNoteEditTextPrompt',
+      targetNodeIdMVC: note!.idMVC,
+      defaultText: '',
+    });
+    expect(broadcastSpy).toHaveBeenCalledWith({
+      command: 'msg2view_setCursorHere',
+      targetNodeIdMVC: note!.idMVC,
+      doNotScrollView: false,
+    });
+    expect(session.scheduleSave).toHaveBeenCalled();
+  });
+
+  it('inserts a note before the cursor node', () => {
+    const { win, tab2, note, tab } = addNote(
+      'request2bkg_addNoteAsPrevSiblingOfCurrentNode',
+    );
+    expect(win.subnodes).toEqual([note, tab, tab2]);
+  });
+
+  it('inserts a note as first and last subnode', () => {
+    const first = addNote('request2bkg_addNoteAsFirstSubnodeOfCurrentNode');
+    expect(first.tab.subnodes).toEqual([first.note]);
+
+    resetMvcIdCounter();
+    const base = buildBaseModel();
+    const existing = new TextNoteTreeNode({ note: 'existing' });
+    base.model.insertSubnode(base.win, 0, existing);
+    const session = createMockSession(base.model);
+    const port = createMockPort();
+    handleViewMessage(
+      {
+        request: 'request2bkg_addNoteAsLastSubnodeOfCurrentNode',
+        targetNodeIdMVC: base.win.idMVC,
+      },
+      port,
+      session,
+      new ViewBridge(),
+    );
+    expect(base.win.subnodes).toHaveLength(3);
+    expect(base.win.subnodes[2]).toBeInstanceOf(TextNoteTreeNode);
+    expect(base.win.subnodes[2]).not.toBe(existing);
+  });
+
+  it('expands a collapsed node before adding a subnode', () => {
+    const base = buildBaseModel();
+    base.model.setCollapsed(base.win, true);
+    const session = createMockSession(base.model);
+
+    handleViewMessage(
+      {
+        request: 'request2bkg_addNoteAsFirstSubnodeOfCurrentNode',
+        targetNodeIdMVC: base.win.idMVC,
+      },
+      createMockPort(),
+      session,
+      new ViewBridge(),
+    );
+
+    expect(base.win.colapsed).toBe(false);
+    expect(base.win.subnodes[0]).toBeInstanceOf(TextNoteTreeNode);
+  });
+
+  it('wraps the cursor node under the new note', () => {
+    const { win, tab, tab2, note } = addNote(
+      'request2bkg_addNoteAsParentOfCurrentNode',
+    );
+
+    expect(win.subnodes).toEqual([note, tab2]);
+    expect(note!.subnodes).toEqual([tab]);
+    expect(tab.parent).toBe(note);
+  });
+
+  it('undoes a wrap as a single step', () => {
+    const root = new SessionTreeNode();
+    const win = new SavedWindowTreeNode();
+    const tab = new SavedTabTreeNode({ url: 'https://a.com', title: 'A' });
+    root.insertSubnode(0, win);
+    win.insertSubnode(0, tab);
+    const undoStack = new UndoStack();
+    const model = new TreeModel(root, {
+      onMutation: (r) => undoStack.observe(r),
+    });
+    const session = createMockSession(model, undoStack);
+
+    handleViewMessage(
+      {
+        request: 'request2bkg_addNoteAsParentOfCurrentNode',
+        targetNodeIdMVC: tab.idMVC,
+      },
+      createMockPort(),
+      session,
+      new ViewBridge(),
+    );
+    expect(tab.parent).toBeInstanceOf(TextNoteTreeNode);
+
+    undoStack.undo(model);
+
+    expect(win.subnodes).toEqual([tab]);
+    expect(tab.parent).toBe(win);
+    expect(undoStack.canUndo).toBe(false);
+  });
+
+  it('adds a note at the end of the tree regardless of the cursor', () => {
+    const { root, note } = addNote('request2bkg_addNoteAtTheEndOfTree');
+    expect(root.subnodes[root.subnodes.length - 1]).toBe(note);
+  });
+
+  it('falls back to the end of the tree when the cursor node is unknown', () => {
+    const { root, note } = addNote(
+      'request2bkg_addNoteAsNextSiblingOfCurrentNode',
+      'missing',
+    );
+    expect(note).not.toBeNull();
+    expect(root.subnodes[root.subnodes.length - 1]).toBe(note);
+  });
+});
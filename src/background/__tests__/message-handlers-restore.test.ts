@@ -0,0 +1,289 @@
+/**
+ * Tests for restoring a whole saved window or group in one action.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleViewMessage } from '../message-handlers';
+import { ViewBridge } from '../view-bridge';
+import { TreeModel } from '@/tree/tree-model';
+import { CloseTracker } from '@/tree/close-tracker';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { TabTreeNode } from '@/tree/nodes/tab-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
+import { TextNoteTreeNode } from '@/tree/nodes/text-note-node';
+import { resetMvcIdCounter } from '@/tree/mvc-id';
+import { NodeTypesEnum } from '@/types/enums';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
+import type { TabData } from '@/types/node-data';
+import type { ActiveSession } from '../active-session';
+import { parsePlaceholderUrl } from '@/chrome/placeholder';
+
+vi.mock('@/chrome/tabs', () => ({
+  focusTab: vi.fn(),
+  createTab: vi.fn(),
+  removeTab: vi.fn(),
+  moveTab: vi.fn(),
+  updateTab: vi.fn(),
+  discardTab: vi.fn(),
+}));
+vi.mock('@/chrome/windows', () => ({
+  focusWindow: vi.fn(),
+  removeWindow: vi.fn(),
+  getWindow: vi.fn(),
+  createWindowWithUrl: vi.fn(),
+  createWindowWithUrls: vi.fn(),
+  createWindowFromTab: vi.fn(),
+}));
+vi.mock('@/chrome/tab-groups', () => ({
+  groupTabs: vi.fn(),
+  updateTabGroup: vi.fn(),
+}));
+
+import { createTab, updateTab, discardTab } from '@/chrome/tabs';
+import {
+  getWindow,
+  createWindowWithUrl,
+  createWindowWithUrls,
+} from '@/chrome/windows';
+
+const NEW_WINDOW_ID = 5;
+const LIVE_WINDOW_ID = 9;
+const BLOB_URL = 'blob:https://x.com/5f0c2a';
+
+function createMockSession(model: TreeModel) {
+  const session = {
+    treeModel: model,
+    instanceId: 'test-restore',
+    closeTracker: new CloseTracker(),
+    viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
+    scheduleSave: vi.fn(),
+  };
+  return session as typeof session & ActiveSession;
+}
+
+/**
+ * root
+ * └─ savedWin
+ *    ├─ savedA (/a, pinned)
+ *    │  └─ savedB (/b, muted, was active)
+ *    ├─ note
+ *    │  └─ savedC (/c)
+ *    └─ savedD (blob: — opens as a placeholder)
+ */
+function setup(
+  data: { a?: TabData; b?: TabData } = {
+    a: { url: 'https://x.com/a', pinned: true },
+    b: { url: 'https://x.com/b', muted: true, wasActive: true },
+  },
+) {
+  const root = new SessionTreeNode();
+  const savedWin = new SavedWindowTreeNode({ type: 'normal' });
+  const savedA = new SavedTabTreeNode(data.a);
+  const savedB = new SavedTabTreeNode(data.b);
+  const note = new TextNoteTreeNode({ note: 'later' });
+  const savedC = new SavedTabTreeNode({ url: 'https://x.com/c' });
+  const savedD = new SavedTabTreeNode({ url: BLOB_URL });
+  root.insertSubnode(0, savedWin);
+  savedWin.insertSubnode(0, savedA);
+  savedA.insertSubnode(0, savedB);
+  savedWin.insertSubnode(1, note);
+  note.insertSubnode(0, savedC);
+  savedWin.insertSubnode(2, savedD);
+
+  const model = new TreeModel(root);
+  const session = createMockSession(model);
+  const activate = (node: { idMVC: string }) =>
+    handleViewMessage(
+      { request: 'request2bkg_activateNode', targetNodeIdMVC: node.idMVC },
+      {} as Browser.runtime.Port,
+      session,
+      session.viewBridge,
+    );
+  return { model, session, savedWin, note, activate };
+}
+
+beforeEach(() => {
+  resetMvcIdCounter();
+  vi.clearAllMocks();
+
+  // Each opened tab gets the next ID (101, 102, ...).
+  let nextTabId = 100;
+  const openTab = (url: string | undefined, windowId: number): TabData => ({
+    id: ++nextTabId,
+    windowId,
+    url,
+  });
+  vi.mocked(createWindowWithUrls).mockImplementation(async (urls) =>
+    urls.map((url) => openTab(url, NEW_WINDOW_ID)),
+  );
+  vi.mocked(createTab).mockImplementation(async ({ url, windowId }) =>
+    openTab(url, windowId ?? NEW_WINDOW_ID),
+  );
+  vi.mocked(updateTab).mockResolvedValue({});
+  vi.mocked(discardTab).mockResolvedValue(null);
+  vi.mocked(getWindow).mockResolvedValue({ id: NEW_WINDOW_ID, type: 'normal' });
+});
+
+describe('restoring a whole saved window', () => {
+  it('opens every saved tab of the subtree in one window, in tree order', async () => {
+    const { model, session, savedWin, activate } = setup();
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(createWindowWithUrls).toHaveBeenCalledTimes(1);
+    const [urls, props] = vi.mocked(createWindowWithUrls).mock.calls[0];
+    expect(urls.slice(0, 3)).toEqual([
+      'https://x.com/a',
+      'https://x.com/b',
+      'https://x.com/c',
+    ]);
+    expect(parsePlaceholderUrl(urls[3])).toEqual({
+      url: BLOB_URL,
+      reason: 'expired',
+      title: undefined,
+    });
+    expect(props).toEqual({});
+    expect(createWindowWithUrl).not.toHaveBeenCalled();
+    expect(createTab).not.toHaveBeenCalled();
+
+    // Promoted in place, with every tab where its saved node was.
+    const win = model.findActiveWindow(NEW_WINDOW_ID);
+    expect(win?.parent).toBe(model.root);
+    const [a, note, d] = win?.subnodes ?? [];
+    expect(a.type).toBe(NodeTypesEnum.TAB);
+    expect((a.data as TabData).id).toBe(101);
+    expect(a.subnodes[0].type).toBe(NodeTypesEnum.TAB);
+    expect((a.subnodes[0].data as TabData).id).toBe(102);
+    expect(note.type).toBe(NodeTypesEnum.TEXTNOTE);
+    expect((note.subnodes[0].data as TabData).id).toBe(103);
+    expect((d.data as TabData).id).toBe(104);
+  });
+
+  it('restores the saved pinned, muted and active state', async () => {
+    const { session, savedWin, activate } = setup();
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(updateTab).toHaveBeenCalledWith(101, { pinned: true });
+    expect(updateTab).toHaveBeenCalledWith(102, { active: true, muted: true });
+    expect(updateTab).toHaveBeenCalledTimes(2);
+    expect(discardTab).not.toHaveBeenCalled();
+  });
+
+  it('keeps tabs saved as not auto-discardable that way', async () => {
+    const { session, savedWin, activate } = setup({
+      a: { url: 'https://x.com/a', autoDiscardable: false },
+      b: { url: 'https://x.com/b' },
+    });
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(updateTab).toHaveBeenCalledWith(101, { autoDiscardable: false });
+    expect(updateTab).toHaveBeenCalledTimes(1);
+  });
+
+  it('unloads the tabs that were asleep when saved', async () => {
+    const { session, savedWin, activate } = setup({
+      a: { url: 'https://x.com/a', discarded: true },
+      b: { url: 'https://x.com/b', wasActive: true },
+    });
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(vi.mocked(discardTab).mock.calls).toEqual([[101]]);
+  });
+
+  it('unloads every tab but the active one when set to restore discarded', async () => {
+    const { session, savedWin, activate } = setup();
+    session.settings.restoreTabsDiscarded = true;
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(vi.mocked(discardTab).mock.calls).toEqual([[101], [103], [104]]);
+    // The saved active tab is activated before the others are discarded.
+    expect(vi.mocked(updateTab).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(discardTab).mock.invocationCallOrder[0],
+    );
+  });
+
+  it('keeps the first tab loaded when no tab was saved active', async () => {
+    const { session, savedWin, activate } = setup({
+      a: { url: 'https://x.com/a' },
+      b: { url: 'https://x.com/b' },
+    });
+    session.settings.restoreTabsDiscarded = true;
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(updateTab).not.toHaveBeenCalled();
+    expect(vi.mocked(discardTab).mock.calls).toEqual([[102], [103], [104]]);
+  });
+
+  it('opens the tabs in the window a sibling is already live in', async () => {
+    const { model, session, savedWin, activate } = setup();
+    const live = new TabTreeNode({
+      id: 50,
+      windowId: LIVE_WINDOW_ID,
+      url: 'https://x.com/live',
+    });
+    model.insertSubnode(savedWin, 0, live);
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(createWindowWithUrls).not.toHaveBeenCalled();
+    expect(createTab).toHaveBeenCalledTimes(4);
+    expect(createTab).toHaveBeenCalledWith({
+      url: 'https://x.com/a',
+      windowId: LIVE_WINDOW_ID,
+      active: false,
+    });
+  });
+
+  it('restores a plain group into a new window', async () => {
+    const root = new SessionTreeNode();
+    const group = new GroupTreeNode();
+    const saved = new SavedTabTreeNode({ url: 'https://x.com/g' });
+    root.insertSubnode(0, group);
+    group.insertSubnode(0, saved);
+    const model = new TreeModel(root);
+    const session = createMockSession(model);
+
+    handleViewMessage(
+      { request: 'request2bkg_activateNode', targetNodeIdMVC: group.idMVC },
+      {} as Browser.runtime.Port,
+      session,
+      session.viewBridge,
+    );
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(createWindowWithUrls).toHaveBeenCalledWith(['https://x.com/g'], {});
+    expect(group.subnodes[0].type).toBe(NodeTypesEnum.TAB);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for sorting a container's children and grouping them by domain.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleViewMessage } from '../message-handlers';
+import { ViewBridge } from '../view-bridge';
+import { TreeModel } from '@/tree/tree-model';
+import { CloseTracker } from '@/tree/close-tracker';
+import { UndoStack } from '@/tree/undo-stack';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { TextNoteTreeNode } from '@/tree/nodes/text-note-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
+import { resetMvcIdCounter } from '@/tree/mvc-id';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
+import type { TreeNode } from '@/tree/tree-node';
+import type { ActiveSession } from '../active-session';
+import type {
+  Msg_InitTreeView,
+  ViewToBackgroundMessage,
+} from '@/types/messages';
+
+function createMockSession(model: TreeModel, undoStack: UndoStack) {
+  const session = {
+    treeModel: model,
+    instanceId: 'test-sort',
+    closeTracker: new CloseTracker(),
+    undoStack,
+    viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
+    scheduleSave: vi.fn(),
+    getInitMessage: vi.fn().mockReturnValue({
+      command: 'msg2view_initTreeView',
+      rootNode_currentSession: {},
+      globalViewId: 1,
+      instanceId: 'test-sort',
+    } as unknown as Msg_InitTreeView),
+  };
+  return session as typeof session & ActiveSession;
+}
+
+/** root → saved window: b2 (b.com), note, a (a.com), b1 (www.b.com) */
+function setup() {
+  const root = new SessionTreeNode();
+  const win = new SavedWindowTreeNode();
+  const b2 = new SavedTabTreeNode({ url: 'https://b.com/2', title: 'B2' });
+  const note = new TextNoteTreeNode({ note: 'Note' });
+  const a = new SavedTabTreeNode({ url: 'https://a.com/', title: 'A' });
+  const b1 = new SavedTabTreeNode({ url: 'https://www.b.com/1', title: 'B1' });
+  root.insertSubnode(0, win);
+  [b2, note, a, b1].forEach((n, i) => win.insertSubnode(i, n));
+
+  const undoStack = new UndoStack();
+  const mutations = vi.fn();
+  const model = new TreeModel(root, {
+    onMutation: (r) => {
+      mutations(r);
+      undoStack.observe(r);
+    },
+  });
+  const session = createMockSession(model, undoStack);
+  const bridge = new ViewBridge();
+  const broadcastSpy = vi.spyOn(bridge, 'broadcast');
+  const port = {} as Browser.runtime.Port;
+  const send = (msg: ViewToBackgroundMessage) =>
+    handleViewMessage(msg, port, session, bridge);
+
+  return {
+    win,
+    b2,
+    note,
+    a,
+    b1,
+    model,
+    undoStack,
+    session,
+    mutations,
+    broadcastSpy,
+    send,
+  };
+}
+
+const texts = (node: TreeNode) => node.subnodes.map((n) => n.getNodeText());
+
+beforeEach(() => {
+  resetMvcIdCounter();
+  vi.clearAllMocks();
+});
+
+describe('request2bkg_sortSubnodes', () => {
+  it('reorders the children as one mutation, refresh and save', () => {
+    const { win, model, undoStack, session, mutations, broadcastSpy, send } =
+      setup();
+
+    send({
+      request: 'request2bkg_sortSubnodes',
+      targetNodeIdMVC: win.idMVC,
+      by: 'title',
+      direction: 'desc',
+    });
+
+    expect(texts(win)).toEqual(['Note', 'B2', 'B1', 'A']);
+    expect(mutations).toHaveBeenCalledTimes(1);
+    expect(broadcastSpy).toHaveBeenCalledTimes(1);
+    expect(session.scheduleSave).toHaveBeenCalledTimes(1);
+
+    expect(undoStack.undo(model)?.label).toBe('Sort');
+    expect(texts(win)).toEqual(['B2', 'Note', 'A', 'B1']);
+  });
+
+  it('does nothing when the children are already in order', () => {
+    const { win, model, undoStack, session, broadcastSpy, send } = setup();
+    const sort = {
+      request: 'request2bkg_sortSubnodes',
+      targetNodeIdMVC: win.idMVC,
+      by: 'domain',
+      direction: 'asc',
+    } as const;
+
+    send(sort);
+    vi.clearAllMocks();
+    send(sort);
+
+    expect(texts(win)).toEqual(['A', 'B2', 'B1', 'Note']);
+    expect(broadcastSpy).not.toHaveBeenCalled();
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+    undoStack.undo(model);
+    expect(undoStack.canUndo).toBe(false);
+  });
+});
+
+describe('request2bkg_groupSubnodesByDomain', () => {
+  it('moves links into one group per domain, undoable in one step', () => {
+    const { win, b2, a, b1, model, undoStack, session, mutations, send } =
+      setup();
+
+    send({
+      request: 'request2bkg_groupSubnodesByDomain',
+      targetNodeIdMVC: win.idMVC,
+    });
+
+    expect(texts(win)).toEqual(['Note', 'a.com', 'b.com']);
+    const [, aGroup, bGroup] = win.subnodes;
+    expect(aGroup).toBeInstanceOf(GroupTreeNode);
+    expect(aGroup.subnodes).toEqual([a]);
+    expect(bGroup.subnodes).toEqual([b2, b1]);
+    expect(model.findByMvcId(bGroup.idMVC)).toBe(bGroup);
+    expect(mutations).toHaveBeenCalledTimes(1);
+    expect(session.scheduleSave).toHaveBeenCalledTimes(1);
+
+    expect(undoStack.undo(model)?.label).toBe('Group by domain');
+    expect(texts(win)).toEqual(['B2', 'Note', 'A', 'B1']);
+    expect(model.findByMvcId(bGroup.idMVC)).toBeNull();
+  });
+
+  it('ignores containers without links', () => {
+    const { note, session, send } = setup();
+
+    send({
+      request: 'request2bkg_groupSubnodesByDomain',
+      targetNodeIdMVC: note.idMVC,
+    });
+
+    expect(session.scheduleSave).not.toHaveBeenCalled();
+  });
+});
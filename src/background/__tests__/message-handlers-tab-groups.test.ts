@@ -0,0 +1,189 @@
+/**
+ * Tests for recreating Chrome tab groups when saved windows and tabs are
+ * reopened from the tree.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleViewMessage } from '../message-handlers';
+import { ViewBridge } from '../view-bridge';
+import { tabGroupRestoreWindowIds } from '../tab-group-state';
+import { TreeModel } from '@/tree/tree-model';
+import { CloseTracker } from '@/tree/close-tracker';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
+import { resetMvcIdCounter } from '@/tree/mvc-id';
+import { NodeTypesEnum } from '@/types/enums';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
+import type { TabData } from '@/types/node-data';
+import type { ActiveSession } from '../active-session';
+
+vi.mock('@/chrome/tabs', () => ({
+  focusTab: vi.fn(),
+  createTab: vi.fn(),
+  removeTab: vi.fn(),
+  moveTab: vi.fn(),
+  updateTab: vi.fn(),
+  discardTab: vi.fn(),
+}));
+vi.mock('@/chrome/windows', () => ({
+  focusWindow: vi.fn(),
+  removeWindow: vi.fn(),
+  getWindow: vi.fn(),
+  createWindowWithUrl: vi.fn(),
+  createWindowWithUrls: vi.fn(),
+  createWindowFromTab: vi.fn(),
+}));
+vi.mock('@/chrome/tab-groups', () => ({
+  groupTabs: vi.fn(),
+  updateTabGroup: vi.fn(),
+}));
+
+import { createTab } from '@/chrome/tabs';
+import {
+  getWindow,
+  createWindowWithUrl,
+  createWindowWithUrls,
+} from '@/chrome/windows';
+import { groupTabs, updateTabGroup } from '@/chrome/tab-groups';
+
+const NEW_WINDOW_ID = 5;
+const NEW_GROUP_ID = 77;
+
+function createMockSession(model: TreeModel) {
+  const session = {
+    treeModel: model,
+    instanceId: 'test-tab-groups',
+    closeTracker: new CloseTracker(),
+    viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
+    scheduleSave: vi.fn(),
+  };
+  return session as typeof session & ActiveSession;
+}
+
+/**
+ * root
+ * └─ savedWin: savedA (/a), group "Work" (blue, collapsed): savedB, savedC
+ */
+function setup() {
+  const root = new SessionTreeNode();
+  const savedWin = new SavedWindowTreeNode({ type: 'normal' });
+  const savedA = new SavedTabTreeNode({ url: 'https://x.com/a', title: 'A' });
+  const group = new GroupTreeNode({
+    title: 'Work',
+    color: 'blue',
+    collapsed: true,
+  });
+  const savedB = new SavedTabTreeNode({ url: 'https://x.com/b', title: 'B' });
+  const savedC = new SavedTabTreeNode({ url: 'https://x.com/c', title: 'C' });
+  root.insertSubnode(0, savedWin);
+  savedWin.insertSubnode(0, savedA);
+  savedWin.insertSubnode(1, group);
+  group.insertSubnode(0, savedB);
+  group.insertSubnode(1, savedC);
+
+  const model = new TreeModel(root);
+  const session = createMockSession(model);
+  const activate = (node: { idMVC: string }) =>
+    handleViewMessage(
+      { request: 'request2bkg_activateNode', targetNodeIdMVC: node.idMVC },
+      {} as Browser.runtime.Port,
+      session,
+      session.viewBridge,
+    );
+  return { model, session, savedWin, group, savedB, activate };
+}
+
+beforeEach(() => {
+  resetMvcIdCounter();
+  vi.clearAllMocks();
+
+  // Each opened tab gets the next ID (101, 102, ...) in the new window.
+  let nextTabId = 100;
+  const openTab = ({ url }: { url?: string }): TabData => ({
+    id: ++nextTabId,
+    windowId: NEW_WINDOW_ID,
+    url,
+  });
+  vi.mocked(createWindowWithUrl).mockImplementation(async (url) =>
+    openTab({ url }),
+  );
+  vi.mocked(createWindowWithUrls).mockImplementation(async (urls) =>
+    urls.map((url) => openTab({ url })),
+  );
+  vi.mocked(createTab).mockImplementation(async (props) => openTab(props));
+  vi.mocked(getWindow).mockResolvedValue({ id: NEW_WINDOW_ID, type: 'normal' });
+  vi.mocked(groupTabs).mockResolvedValue(NEW_GROUP_ID);
+  vi.mocked(updateTabGroup).mockResolvedValue(undefined);
+});
+
+describe('restoring saved tab groups', () => {
+  it('recreates the group when its saved window is reopened', async () => {
+    const { model, session, savedWin, group, activate } = setup();
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(groupTabs).toHaveBeenCalledWith({
+      tabIds: [102, 103],
+      createProperties: { windowId: NEW_WINDOW_ID },
+    });
+    expect(updateTabGroup).toHaveBeenCalledWith(NEW_GROUP_ID, {
+      title: 'Work',
+      color: 'blue',
+      collapsed: true,
+    });
+
+    const win = model.findActiveWindow(NEW_WINDOW_ID);
+    const liveGroup = model.findActiveTabGroup(NEW_GROUP_ID);
+    expect(win?.subnodes).toEqual([model.findActiveTab(101), liveGroup]);
+    expect(liveGroup?.previousIdMVC).toBe(group.idMVC);
+    expect(liveGroup?.subnodes).toEqual([
+      model.findActiveTab(102),
+      model.findActiveTab(103),
+    ]);
+    expect(tabGroupRestoreWindowIds.size).toBe(0);
+  });
+
+  it('groups a single tab reopened from a saved group', async () => {
+    const { model, session, savedB, activate } = setup();
+
+    activate(savedB);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(model.root.subnodes[0].type).toBe(NodeTypesEnum.WINDOW);
+    expect(groupTabs).toHaveBeenCalledWith({
+      tabIds: [101],
+      createProperties: { windowId: NEW_WINDOW_ID },
+    });
+    expect(model.findActiveTab(101)?.parent).toBe(
+      model.findActiveTabGroup(NEW_GROUP_ID),
+    );
+  });
+
+  it('keeps the tabs open when Chrome refuses to group them', async () => {
+    vi.mocked(groupTabs).mockRejectedValue(new Error('no tabGroups'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { model, session, group, savedWin, activate } = setup();
+
+    activate(savedWin);
+
+    await vi.waitFor(() => {
+      expect(session.scheduleSave).toHaveBeenCalled();
+    });
+    expect(model.findActiveTabGroup(NEW_GROUP_ID)).toBeNull();
+    expect(group.subnodes.map((n) => n.type)).toEqual([
+      NodeTypesEnum.TAB,
+      NodeTypesEnum.TAB,
+    ]);
+    expect(tabGroupRestoreWindowIds.size).toBe(0);
+    consoleSpy.mockRestore();
+  });
+});
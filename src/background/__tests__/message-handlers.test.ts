@@ -3,6 +3,7 @@ import { handleViewMessage } from '../message-handlers';
 import { ViewBridge } from '../view-bridge';
 import { TreeModel } from '@/tree/tree-model';
 import { CloseTracker } from '@/tree/close-tracker';
+import { UndoStack } from '@/tree/undo-stack';
 import { SessionTreeNode } from '@/tree/nodes/session-node';
 import { WindowTreeNode } from '@/tree/nodes/window-node';
 import { TabTreeNode } from '@/tree/nodes/tab-node';
@@ -10,12 +11,15 @@ import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
 import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
 import { resetMvcIdCounter } from '@/tree/mvc-id';
 import { NodeTypesEnum } from '@/types/enums';
+import { SETTINGS_DEFAULTS } from '@/types/settings';
 import type { MvcId } from '@/types/brands';
 import type { TabData, WindowData } from '@/types/node-data';
 import type { ActiveSession } from '../active-session';
+import { parsePlaceholderUrl } from '@/chrome/placeholder';
 import type {
   ViewToBackgroundMessage,
   Msg_InitTreeView,
+  TreeDelta,
 } from '@/types/messages';
 
 vi.mock('@/chrome/tabs', () => ({
@@ -28,6 +32,7 @@ vi.mock('@/chrome/tabs', () => ({
     active: true,
   }),
   removeTab: vi.fn().mockResolvedValue(undefined),
+  discardTab: vi.fn().mockResolvedValue({}),
   moveTab: vi.fn().mockResolvedValue({
     id: 10,
     windowId: 2,
@@ -50,7 +55,7 @@ vi.mock('@/chrome/windows', () => ({
   }),
 }));
 
-import { focusTab, createTab, removeTab } from '@/chrome/tabs';
+import { focusTab, createTab, removeTab, discardTab } from '@/chrome/tabs';
 import {
   focusWindow,
   removeWindow,
@@ -78,13 +83,19 @@ function createMockPort(): Browser.runtime.Port {
   } as unknown as Browser.runtime.Port;
 }
 
-function createMockSession(model: TreeModel): ActiveSession {
+function createMockSession(
+  model: TreeModel,
+  undoStack: UndoStack = new UndoStack(),
+): ActiveSession {
   let nextViewId = 0;
   return {
     treeModel: model,
     instanceId: 'test-456',
     closeTracker: new CloseTracker(),
+    undoStack,
     viewBridge: new ViewBridge(),
+    settings: { ...SETTINGS_DEFAULTS },
+    organizeRules: [],
     scheduleSave: vi.fn(),
     saveNow: vi.fn().mockResolvedValue(undefined),
     getInitMessage: vi.fn().mockImplementation(() => {
@@ -107,6 +118,23 @@ function createMockSession(model: TreeModel): ActiveSession {
     exportTreeHtml: vi
       .fn()
       .mockReturnValue({ success: false, error: 'not configured' }),
+    exportTreeBookmarks: vi
+      .fn()
+      .mockReturnValue({ success: false, error: 'not configured' }),
+    exportTreeMarkdown: vi
+      .fn()
+      .mockReturnValue({ success: false, error: 'not configured' }),
+    exportTreeOpml: vi
+      .fn()
+      .mockReturnValue({ success: false, error: 'not configured' }),
+    restoreSnapshot: vi.fn().mockResolvedValue({
+      success: false,
+      nodeCount: 0,
+      error: 'not configured',
+    }),
+    backupNow: vi
+      .fn()
+      .mockResolvedValue({ success: false, error: 'not configured' }),
     dispose: vi.fn(),
   } as unknown as ActiveSession;
 }
@@ -250,18 +278,19 @@ describe('handleViewMessage()', () => {
       expect((activeTab as TabTreeNode).restoredFromSaved).toBe(true);
       expect(session.scheduleSave).toHaveBeenCalled();
 
-      // Verify onNodeReplaced broadcast with parent updates
+      // Verify the replace delta carries parent updates
       const broadcasts = (
         viewPort.postMessage as ReturnType<typeof vi.fn>
       ).mock.calls.map((c) => c[0] as Record<string, unknown>);
       const replaceBroadcast = broadcasts.find(
         (m) =>
-          m.command === 'msg2view_notifyObserver' &&
-          Array.isArray(m.parameters) &&
-          (m.parameters as string[]).includes('onNodeReplaced'),
+          m.command === 'msg2view_treeDelta' &&
+          (m.delta as TreeDelta).op === 'replace',
       );
       expect(replaceBroadcast).toBeDefined();
-      expect(replaceBroadcast!.parentsUpdateData).toBeDefined();
+      expect(
+        (replaceBroadcast!.delta as TreeDelta).parentsUpdateData[win.idMVC],
+      ).toBeDefined();
     });
 
     it('preserves marks when replacing saved tab with active tab', async () => {
@@ -358,15 +387,14 @@ describe('handleViewMessage()', () => {
       expect(win.subnodes.length).toBe(1);
       expect(win.subnodes[0].type).toBe(NodeTypesEnum.TAB);
 
-      // Verify onNodeRemoved was broadcast for the duplicate
+      // Verify a remove delta was sent for the duplicate
       const broadcasts = (
         viewPort.postMessage as ReturnType<typeof vi.fn>
       ).mock.calls.map((c) => c[0] as Record<string, unknown>);
       const removeBroadcast = broadcasts.find(
         (m) =>
-          m.command === 'msg2view_notifyObserver' &&
-          Array.isArray(m.parameters) &&
-          (m.parameters as string[]).includes('onNodeRemoved'),
+          m.command === 'msg2view_treeDelta' &&
+          (m.delta as TreeDelta).op === 'remove',
       );
       expect(removeBroadcast).toBeDefined();
     });
@@ -443,13 +471,79 @@ describe('handleViewMessage()', () => {
       );
 
       await vi.waitFor(() => {
-        expect(createWindowWithUrl).toHaveBeenCalledWith('https://saved.com');
+        expect(createWindowWithUrl).toHaveBeenCalledWith(
+          'https://saved.com',
+          {},
+        );
         // SAVEDTAB replaced with active TAB under its original SAVEDWINDOW
         expect(savedWin.subnodes[0].type).toBe(NodeTypesEnum.TAB);
       });
       expect(createTab).not.toHaveBeenCalled();
     });
 
+    it('reopens the window in its saved state', async () => {
+      (getWindow as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      const root = new SessionTreeNode();
+      const savedWin = new SavedWindowTreeNode({
+        id: 7,
+        type: 'normal',
+        state: 'maximized',
+        rect: { left: 0, top: 0, width: 1440, height: 900 },
+      });
+      const savedTab = new SavedTabTreeNode({ url: 'https://saved.com' });
+      root.insertSubnode(0, savedWin);
+      savedWin.insertSubnode(0, savedTab);
+      const session = createMockSession(new TreeModel(root));
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_activateNode',
+          targetNodeIdMVC: savedTab.idMVC,
+        },
+        createMockPort(),
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(createWindowWithUrl).toHaveBeenCalledWith('https://saved.com', {
+          state: 'maximized',
+        });
+      });
+    });
+
+    it('leaves window placement to Chrome when the setting is off', async () => {
+      (getWindow as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      const root = new SessionTreeNode();
+      const savedWin = new SavedWindowTreeNode({
+        id: 7,
+        type: 'normal',
+        state: 'maximized',
+      });
+      const savedTab = new SavedTabTreeNode({ url: 'https://saved.com' });
+      root.insertSubnode(0, savedWin);
+      savedWin.insertSubnode(0, savedTab);
+      const session = createMockSession(new TreeModel(root));
+      session.settings.openSavedWindowsInOriginalPos = false;
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_activateNode',
+          targetNodeIdMVC: savedTab.idMVC,
+        },
+        createMockPort(),
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(createWindowWithUrl).toHaveBeenCalledWith(
+          'https://saved.com',
+          {},
+        );
+      });
+    });
+
     it('reuses the window from a prior SAVEDTAB restore when siblings are active', async () => {
       // Simulates clicking the second SAVEDTAB from the same SAVEDWINDOW after
       // the first one already opened a new Chrome window (window 999).
@@ -666,7 +760,7 @@ describe('handleViewMessage()', () => {
       spy.mockRestore();
     });
 
-    it('blocks non-http/https URLs', async () => {
+    it('opens a placeholder page for a URL the browser cannot open', async () => {
       const root = new SessionTreeNode();
       const win = new WindowTreeNode({ id: 1, type: 'normal', focused: true });
       const savedTab = new SavedTabTreeNode({
@@ -689,10 +783,43 @@ describe('handleViewMessage()', () => {
         session.viewBridge,
       );
 
-      await new Promise((r) => setTimeout(r, 10));
+      await vi.waitFor(() => {
+        expect(createTab).toHaveBeenCalledTimes(1);
+      });
+      const { url } = vi.mocked(createTab).mock.calls[0][0];
+      expect(parsePlaceholderUrl(url)).toEqual({
+        url: 'javascript:alert(1)',
+        reason: 'unsupported',
+        title: 'XSS',
+      });
+    });
 
-      expect(createTab).not.toHaveBeenCalled();
-      expect(win.subnodes[0].type).toBe(NodeTypesEnum.SAVEDTAB);
+    it('opens browser pages directly', async () => {
+      const root = new SessionTreeNode();
+      const win = new WindowTreeNode({ id: 1, type: 'normal', focused: true });
+      const savedTab = new SavedTabTreeNode({ url: 'chrome://settings' });
+      root.insertSubnode(0, win);
+      win.insertSubnode(0, savedTab);
+      const model = new TreeModel(root);
+      const session = createMockSession(model);
+      const port = createMockPort();
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_activateNode',
+          targetNodeIdMVC: savedTab.idMVC,
+        },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(createTab).toHaveBeenCalledWith({
+          url: 'chrome://settings',
+          windowId: 1,
+        });
+      });
     });
 
     it('focuses an active window', async () => {
@@ -795,8 +922,10 @@ describe('handleViewMessage()', () => {
       // Verify broadcast
       const broadcastMsg = (viewPort.postMessage as ReturnType<typeof vi.fn>)
         .mock.calls[0][0];
-      expect(broadcastMsg.command).toBe('msg2view_notifyObserver');
-      expect(broadcastMsg.parameters).toContain('onNodeRemoved');
+      expect(broadcastMsg).toMatchObject({
+        command: 'msg2view_treeDelta',
+        delta: { op: 'remove', idMVC: tabIdMVC },
+      });
     });
 
     it('deleteAction removes empty unmarked window parent after last child', () => {
@@ -838,10 +967,9 @@ describe('handleViewMessage()', () => {
       ).mock.calls.map((c) => c[0] as Record<string, unknown>);
       const windowRemoved = broadcasts.find(
         (m) =>
-          m.command === 'msg2view_notifyObserver' &&
-          Array.isArray(m.parameters) &&
-          (m.parameters as string[]).includes('onNodeRemoved') &&
-          m.idMVC === savedWinIdMVC,
+          m.command === 'msg2view_treeDelta' &&
+          (m.delta as TreeDelta).op === 'remove' &&
+          (m.delta as TreeDelta & { op: 'remove' }).idMVC === savedWinIdMVC,
       );
       expect(windowRemoved).toBeDefined();
     });
@@ -876,6 +1004,35 @@ describe('handleViewMessage()', () => {
       expect(root.subnodes[0]).toBe(savedWin);
     });
 
+    it('hibernates every inactive live tab in a window', async () => {
+      const { model, win } = buildModel();
+      const other = new TabTreeNode({
+        id: 11,
+        windowId: 1,
+        url: 'https://b.com',
+      });
+      model.insertSubnode(win, 1, other);
+      const session = createMockSession(model);
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_activateHoveringMenuActionOnNode',
+          targetNodeIdMVC: win.idMVC,
+          actionId: 'hibernateAction',
+        },
+        createMockPort(),
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(discardTab).toHaveBeenCalledWith(11);
+      });
+      // Chrome won't discard the active tab, so it isn't asked to.
+      expect(discardTab).not.toHaveBeenCalledWith(10);
+      expect(win.subnodes).toEqual([expect.any(TabTreeNode), other]);
+    });
+
     it('handles closeAction on a tab by converting to saved then closing', () => {
       const { model, tab, win } = buildModel();
       const session = createMockSession(model);
@@ -905,8 +1062,8 @@ describe('handleViewMessage()', () => {
       // View should be notified of the replacement
       expect(viewPort.postMessage).toHaveBeenCalledWith(
         expect.objectContaining({
-          command: 'msg2view_notifyObserver',
-          parameters: ['onNodeReplaced'],
+          command: 'msg2view_treeDelta',
+          delta: expect.objectContaining({ op: 'replace', idMVC: tab.idMVC }),
         }),
       );
     });
@@ -948,8 +1105,8 @@ describe('handleViewMessage()', () => {
       // View notified of the closure
       expect(viewPort.postMessage).toHaveBeenCalledWith(
         expect.objectContaining({
-          command: 'msg2view_notifyObserver',
-          parameters: ['onWindowClosed'],
+          command: 'msg2view_treeDelta',
+          delta: expect.objectContaining({ op: 'replace', idMVC: win.idMVC }),
         }),
       );
 
@@ -997,8 +1154,8 @@ describe('handleViewMessage()', () => {
       // Still broadcasts and saves
       expect(viewPort.postMessage).toHaveBeenCalledWith(
         expect.objectContaining({
-          command: 'msg2view_notifyObserver',
-          parameters: ['onWindowClosed'],
+          command: 'msg2view_treeDelta',
+          delta: expect.objectContaining({ op: 'replace', idMVC: win.idMVC }),
         }),
       );
       expect(session.scheduleSave).toHaveBeenCalled();
@@ -1209,6 +1366,97 @@ describe('handleViewMessage()', () => {
     });
   });
 
+  describe('request2bkg_restoreSnapshot', () => {
+    it('restores the snapshot and broadcasts init', async () => {
+      const { model } = buildModel();
+      const session = createMockSession(model);
+      (session.restoreSnapshot as ReturnType<typeof vi.fn>).mockResolvedValue({
+        success: true,
+        nodeCount: 7,
+      });
+      const port = createMockPort();
+      const viewPort = createMockPort();
+      session.viewBridge.addPort(viewPort);
+
+      handleViewMessage(
+        { request: 'request2bkg_restoreSnapshot', snapshotId: 'hourly-1' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(port.postMessage).toHaveBeenCalledWith({
+          command: 'msg2view_snapshotRestoreResult',
+          success: true,
+          nodeCount: 7,
+          error: undefined,
+        });
+      });
+      expect(session.restoreSnapshot).toHaveBeenCalledWith('hourly-1');
+      expect(session.getInitMessage).toHaveBeenCalled();
+      expect(viewPort.postMessage).toHaveBeenCalled();
+    });
+
+    it('reports failure without broadcasting', async () => {
+      const { model } = buildModel();
+      const session = createMockSession(model);
+      (session.restoreSnapshot as ReturnType<typeof vi.fn>).mockResolvedValue({
+        success: false,
+        nodeCount: 0,
+        error: 'Snapshot not found',
+      });
+      const port = createMockPort();
+
+      handleViewMessage(
+        { request: 'request2bkg_restoreSnapshot', snapshotId: 'gone' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(port.postMessage).toHaveBeenCalled();
+      });
+      const resultMsg = (port.postMessage as ReturnType<typeof vi.fn>).mock
+        .calls[0][0];
+      expect(resultMsg.success).toBe(false);
+      expect(resultMsg.error).toBe('Snapshot not found');
+      expect(session.getInitMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request2bkg_backupNow', () => {
+    it('runs a backup and replies to the requesting port only', async () => {
+      const { model } = buildModel();
+      const session = createMockSession(model);
+      (session.backupNow as ReturnType<typeof vi.fn>).mockResolvedValue({
+        success: true,
+        backupId: 'tabs-outliner-backup-20250101T000000Z.tree',
+      });
+      const port = createMockPort();
+      const viewPort = createMockPort();
+      session.viewBridge.addPort(viewPort);
+
+      handleViewMessage(
+        { request: 'request2bkg_backupNow' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(port.postMessage).toHaveBeenCalledWith({
+          command: 'msg2view_backupResult',
+          success: true,
+          backupId: 'tabs-outliner-backup-20250101T000000Z.tree',
+          error: undefined,
+        });
+      });
+      expect(viewPort.postMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('request2bkg_import_tree', () => {
     it('imports valid HierarchyJSO and broadcasts init', async () => {
       const { model } = buildModel();
@@ -1230,7 +1478,7 @@ describe('handleViewMessage()', () => {
       );
 
       await vi.waitFor(() => {
-        expect(session.importTree).toHaveBeenCalledWith(treeJson);
+        expect(session.importTree).toHaveBeenCalledWith(treeJson, undefined);
       });
 
       // Result sent to requesting port
@@ -1245,6 +1493,34 @@ describe('handleViewMessage()', () => {
       expect(viewPort.postMessage).toHaveBeenCalled();
     });
 
+    it('passes the import target through', async () => {
+      const { model } = buildModel();
+      const session = createMockSession(model);
+      (session.importTree as ReturnType<typeof vi.fn>).mockResolvedValue({
+        success: true,
+        nodeCount: 1,
+      });
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_import_tree',
+          treeJson: '{}',
+          targetParentIdMVC: 'group',
+          targetPosition: 2,
+        },
+        createMockPort(),
+        session,
+        session.viewBridge,
+      );
+
+      await vi.waitFor(() => {
+        expect(session.importTree).toHaveBeenCalledWith('{}', {
+          parentIdMVC: 'group',
+          position: 2,
+        });
+      });
+    });
+
     it('sends error result on import failure without broadcasting', async () => {
       const { model } = buildModel();
       const session = createMockSession(model);
@@ -1350,6 +1626,67 @@ describe('handleViewMessage()', () => {
       expect(resultMsg.success).toBe(false);
       expect(resultMsg.error).toBe('Serialization failed');
     });
+
+    it('sends a bookmark file when format is bookmarks', () => {
+      const { model } = buildModel();
+      const session = createMockSession(model);
+      (session.exportTreeBookmarks as ReturnType<typeof vi.fn>).mockReturnValue(
+        { success: true, bookmarksHtml: '<DL><p></DL><p>' },
+      );
+      const port = createMockPort();
+
+      handleViewMessage(
+        { request: 'request2bkg_export_tree', format: 'bookmarks' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      expect(session.exportTreeHtml).not.toHaveBeenCalled();
+      const resultMsg = (port.postMessage as ReturnType<typeof vi.fn>).mock
+        .calls[0][0];
+      expect(resultMsg.command).toBe('msg2view_exportResult');
+      expect(resultMsg.bookmarksHtml).toBe('<DL><p></DL><p>');
+    });
+
+    it('sends Markdown and OPML outlines for their formats', () => {
+      const { model } = buildModel();
+      const session = createMockSession(model);
+      (session.exportTreeMarkdown as ReturnType<typeof vi.fn>).mockReturnValue({
+        success: true,
+        treeMarkdown: '- Window\n',
+      });
+      (session.exportTreeOpml as ReturnType<typeof vi.fn>).mockReturnValue({
+        success: true,
+        treeOpml: '<opml version="2.0"></opml>',
+      });
+      const port = createMockPort();
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_export_tree',
+          format: 'markdown',
+          rootIdMVC: 'a',
+        },
+        port,
+        session,
+        session.viewBridge,
+      );
+      handleViewMessage(
+        { request: 'request2bkg_export_tree', format: 'opml' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      expect(session.exportTreeMarkdown).toHaveBeenCalledWith('a');
+      expect(session.exportTreeOpml).toHaveBeenCalledWith(undefined);
+      const [[markdownMsg], [opmlMsg]] = (
+        port.postMessage as ReturnType<typeof vi.fn>
+      ).mock.calls;
+      expect(markdownMsg.treeMarkdown).toBe('- Window\n');
+      expect(opmlMsg.treeOpml).toBe('<opml version="2.0"></opml>');
+    });
   });
 
   describe('request2bkg_moveHierarchy', () => {
@@ -1383,9 +1720,13 @@ describe('handleViewMessage()', () => {
       // Broadcast fired with correct idMVC
       expect(broadcastSpy).toHaveBeenCalledWith(
         expect.objectContaining({
-          command: 'msg2view_notifyObserver',
-          idMVC: tabIdMVC,
-          parameters: ['onNodeMoved'],
+          command: 'msg2view_treeDelta',
+          delta: expect.objectContaining({
+            op: 'move',
+            idMVC: tabIdMVC,
+            parentIdMVC: wrapper?.idMVC,
+            index: 0,
+          }),
         }),
       );
       expect(session.scheduleSave).toHaveBeenCalled();
@@ -1431,7 +1772,13 @@ describe('handleViewMessage()', () => {
       expect(win1.subnodes).toHaveLength(0);
       expect(win2.subnodes[0].idMVC).toBe(tab.idMVC);
       expect(broadcastSpy).toHaveBeenCalledWith(
-        expect.objectContaining({ parameters: ['onNodeMoved'] }),
+        expect.objectContaining({
+          delta: expect.objectContaining({
+            op: 'move',
+            parentIdMVC: win2.idMVC,
+            index: 0,
+          }),
+        }),
       );
       expect(session.scheduleSave).toHaveBeenCalled();
     });
@@ -1509,6 +1856,221 @@ describe('handleViewMessage()', () => {
     });
   });
 
+  describe('request2bkg_closeAllWindowsExceptThis', () => {
+    function buildThreeWindows() {
+      const root = new SessionTreeNode();
+      const wins = [1, 2, 3].map((id) => {
+        const win = new WindowTreeNode({ id, type: 'normal', focused: false });
+        win.insertSubnode(
+          0,
+          new TabTreeNode({
+            id: id * 10,
+            windowId: id,
+            url: `https://w${id}.com`,
+            title: `W${id}`,
+            active: true,
+          }),
+        );
+        root.insertSubnode(-1, win);
+        return win;
+      });
+      wins[1].marks = { relicons: [], customTitle: 'Work' };
+      const model = new TreeModel(root);
+      return { model, root, wins };
+    }
+
+    it('saves and closes every other window in place', () => {
+      const { model, root } = buildThreeWindows();
+      const session = createMockSession(model);
+      const viewPort = createMockPort();
+      session.viewBridge.addPort(viewPort);
+
+      handleViewMessage(
+        { request: 'request2bkg_closeAllWindowsExceptThis', preserveWinId: 1 },
+        createMockPort(),
+        session,
+        session.viewBridge,
+      );
+
+      expect(root.subnodes.map((n) => n.type)).toEqual([
+        NodeTypesEnum.WINDOW,
+        NodeTypesEnum.SAVEDWINDOW,
+        NodeTypesEnum.SAVEDWINDOW,
+      ]);
+      expect(root.subnodes[1].marks.customTitle).toBe('Work');
+      expect(root.subnodes[2].subnodes[0].type).toBe(NodeTypesEnum.SAVEDTAB);
+      expect(removeWindow).toHaveBeenCalledTimes(2);
+      expect(removeWindow).toHaveBeenCalledWith(2);
+      expect(removeWindow).toHaveBeenCalledWith(3);
+      expect(session.closeTracker.size).toBe(2);
+      expect(session.scheduleSave).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the window node given by preserveIdMVC', () => {
+      const { model, wins } = buildThreeWindows();
+      const session = createMockSession(model);
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_closeAllWindowsExceptThis',
+          preserveIdMVC: wins[2].idMVC,
+        },
+        createMockPort(),
+        session,
+        session.viewBridge,
+      );
+
+      expect(model.findActiveWindow(3)).toBe(wins[2]);
+      expect(model.findActiveWindow(1)).toBeNull();
+      expect(model.findActiveWindow(2)).toBeNull();
+    });
+
+    it("keeps the requesting view's own window", () => {
+      const { model } = buildThreeWindows();
+      const session = createMockSession(model);
+      const port = {
+        ...createMockPort(),
+        sender: { tab: { windowId: 2 } },
+      } as unknown as Browser.runtime.Port;
+
+      handleViewMessage(
+        { request: 'request2bkg_closeAllWindowsExceptThis' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      expect(model.findActiveWindow(2)).not.toBeNull();
+      expect(removeWindow).toHaveBeenCalledTimes(2);
+      expect(removeWindow).not.toHaveBeenCalledWith(2);
+    });
+
+    it('does nothing when only preserved windows are open', () => {
+      const { model } = buildModel();
+      const session = createMockSession(model);
+
+      handleViewMessage(
+        { request: 'request2bkg_closeAllWindowsExceptThis', preserveWinId: 1 },
+        createMockPort(),
+        session,
+        session.viewBridge,
+      );
+
+      expect(removeWindow).not.toHaveBeenCalled();
+      expect(session.scheduleSave).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request2bkg_undo / request2bkg_redo', () => {
+    function buildUndoableSession() {
+      const root = new SessionTreeNode();
+      const savedWin = new SavedWindowTreeNode({ type: 'normal' });
+      const savedTab = new SavedTabTreeNode({
+        url: 'https://example.com',
+        title: 'Example',
+      });
+      root.insertSubnode(0, savedWin);
+      savedWin.insertSubnode(0, savedTab);
+      const undoStack = new UndoStack();
+      const model = new TreeModel(root, {
+        onMutation: (r) => undoStack.observe(r),
+      });
+      const session = createMockSession(model, undoStack);
+      return { model, session, root, savedWin, savedTab };
+    }
+
+    it('undoes a delete including the removed empty window', () => {
+      const { model, session, root, savedWin, savedTab } =
+        buildUndoableSession();
+      const port = createMockPort();
+      const viewPort = createMockPort();
+      session.viewBridge.addPort(viewPort);
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_activateHoveringMenuActionOnNode',
+          targetNodeIdMVC: savedTab.idMVC,
+          actionId: 'deleteAction',
+        },
+        port,
+        session,
+        session.viewBridge,
+      );
+      expect(root.subnodes).toHaveLength(0);
+
+      (viewPort.postMessage as ReturnType<typeof vi.fn>).mockClear();
+      handleViewMessage(
+        { request: 'request2bkg_undo' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      expect(root.subnodes[0]).toBe(savedWin);
+      expect(model.findByMvcId(savedTab.idMVC)).toBe(savedTab);
+      const commands = (
+        viewPort.postMessage as ReturnType<typeof vi.fn>
+      ).mock.calls.map((c) => (c[0] as { command: string }).command);
+      // One delta per reverted step: the window, then the tab.
+      expect(commands).toEqual([
+        'msg2view_treeDelta',
+        'msg2view_treeDelta',
+        'msg2view_setCursorHere',
+      ]);
+      expect(session.scheduleSave).toHaveBeenCalled();
+
+      handleViewMessage(
+        { request: 'request2bkg_redo' },
+        port,
+        session,
+        session.viewBridge,
+      );
+      expect(root.subnodes).toHaveLength(0);
+    });
+
+    it('undoes a title edit', () => {
+      const { session, savedTab } = buildUndoableSession();
+      const port = createMockPort();
+
+      handleViewMessage(
+        {
+          request: 'request2bkg_onOkAfterSetNodeTabTextPrompt',
+          targetNodeIdMVC: savedTab.idMVC,
+          newText: 'Renamed',
+        },
+        port,
+        session,
+        session.viewBridge,
+      );
+      expect(savedTab.marks.customTitle).toBe('Renamed');
+
+      handleViewMessage(
+        { request: 'request2bkg_undo' },
+        port,
+        session,
+        session.viewBridge,
+      );
+      expect(savedTab.marks.customTitle).toBeUndefined();
+    });
+
+    it('does nothing when there is nothing to undo', () => {
+      const { session } = buildUndoableSession();
+      const port = createMockPort();
+      const viewPort = createMockPort();
+      session.viewBridge.addPort(viewPort);
+
+      handleViewMessage(
+        { request: 'request2bkg_undo' },
+        port,
+        session,
+        session.viewBridge,
+      );
+
+      expect(viewPort.postMessage).not.toHaveBeenCalled();
+      expect(session.scheduleSave).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deferred handlers', () => {
     it('logs warning for deferred Epic 8 messages', () => {
       const { model } = buildModel();
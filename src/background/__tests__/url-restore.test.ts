@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockHasFileSchemeAccess = vi.fn();
+vi.mock('@/chrome/permissions', () => ({
+  hasFileSchemeAccess: (...args: unknown[]) => mockHasFileSchemeAccess(...args),
+}));
+
+import {
+  classifyUrl,
+  resolveRestoreUrl,
+  openRestoredUrl,
+} from '../url-restore';
+import { browser } from 'wxt/browser';
+import { parsePlaceholderUrl, placeholderUrl } from '@/chrome/placeholder';
+
+beforeEach(() => {
+  mockHasFileSchemeAccess.mockReset();
+  mockHasFileSchemeAccess.mockResolvedValue(false);
+});
+
+describe('classifyUrl', () => {
+  it.each([
+    ['https://example.com', 'web'],
+    ['http://example.com', 'web'],
+    ['file:///home/me/a.txt', 'file'],
+    ['chrome://settings', 'chrome'],
+    ['about:blank', 'chrome'],
+    ['chrome-extension://abc/page.html', 'extension'],
+    ['data:text/plain,hi', 'data'],
+    ['blob:https://example.com/1234', 'blob'],
+    ['view-source:https://example.com', 'view-source'],
+    ['javascript:alert(1)', 'unsupported'],
+    ['not a url', 'unsupported'],
+  ])('classifies %s as %s', (url, kind) => {
+    expect(classifyUrl(url)).toBe(kind);
+  });
+});
+
+describe('resolveRestoreUrl', () => {
+  it('opens web, browser and own extension URLs as-is', async () => {
+    for (const url of [
+      'https://example.com',
+      'chrome://settings',
+      browser.runtime.getURL('/options.html'),
+    ]) {
+      expect(await resolveRestoreUrl(url)).toBe(url);
+    }
+  });
+
+  it('holds data and other extension URLs for confirmation', async () => {
+    for (const url of [
+      'data:text/html,<script>alert(1)</script>',
+      'chrome-extension://someotherextensionid/page.html',
+    ]) {
+      expect(parsePlaceholderUrl(await resolveRestoreUrl(url))).toEqual({
+        url,
+        reason: 'untrusted',
+        title: undefined,
+      });
+    }
+  });
+
+  it('never hands data, blob or foreign extension URLs to the opener', async () => {
+    const open = vi.fn().mockResolvedValue('tab');
+    for (const url of [
+      'data:text/plain,hi',
+      'blob:https://example.com/1234',
+      'chrome-extension://someotherextensionid/page.html',
+    ]) {
+      await openRestoredUrl(url, undefined, open);
+    }
+    for (const [opened] of open.mock.calls) {
+      expect(parsePlaceholderUrl(opened)).not.toBeNull();
+    }
+    expect(open).toHaveBeenCalledTimes(3);
+  });
+
+  it('opens file URLs when file access is allowed', async () => {
+    mockHasFileSchemeAccess.mockResolvedValue(true);
+    expect(await resolveRestoreUrl('file:///a.txt')).toBe('file:///a.txt');
+  });
+
+  it('opens a placeholder for file URLs without file access', async () => {
+    const url = await resolveRestoreUrl('file:///a.txt', 'A');
+    expect(parsePlaceholderUrl(url)).toEqual({
+      url: 'file:///a.txt',
+      reason: 'file-access',
+      title: 'A',
+    });
+  });
+
+  it('assumes no file access when the check fails', async () => {
+    mockHasFileSchemeAccess.mockRejectedValue(new Error('nope'));
+    const url = await resolveRestoreUrl('file:///a.txt');
+    expect(parsePlaceholderUrl(url)?.reason).toBe('file-access');
+  });
+
+  it('blocks browser debug pages', async () => {
+    const url = await resolveRestoreUrl('chrome://kill');
+    expect(parsePlaceholderUrl(url)?.reason).toBe('blocked');
+  });
+
+  it('marks blob URLs as expired', async () => {
+    const url = await resolveRestoreUrl('blob:https://example.com/1234');
+    expect(parsePlaceholderUrl(url)?.reason).toBe('expired');
+  });
+
+  it('judges view-source URLs by the page they show', async () => {
+    expect(await resolveRestoreUrl('view-source:https://example.com')).toBe(
+      'view-source:https://example.com',
+    );
+    const url = await resolveRestoreUrl('view-source:file:///a.txt');
+    expect(parsePlaceholderUrl(url)).toMatchObject({
+      url: 'view-source:file:///a.txt',
+      reason: 'file-access',
+    });
+  });
+
+  it('opens a placeholder for unsupported schemes', async () => {
+    const url = await resolveRestoreUrl('javascript:alert(1)');
+    expect(parsePlaceholderUrl(url)?.reason).toBe('unsupported');
+  });
+
+  it('resolves a saved placeholder by the URL it stands in for', async () => {
+    mockHasFileSchemeAccess.mockResolvedValue(true);
+    const saved = placeholderUrl({
+      url: 'file:///a.txt',
+      reason: 'file-access',
+      title: 'A',
+    });
+    expect(await resolveRestoreUrl(saved)).toBe('file:///a.txt');
+  });
+});
+
+describe('openRestoredUrl', () => {
+  it('opens the resolved URL', async () => {
+    const open = vi.fn().mockResolvedValue('tab');
+    expect(await openRestoredUrl('https://example.com', 'E', open)).toBe('tab');
+    expect(open).toHaveBeenCalledWith('https://example.com');
+  });
+
+  it('falls back to a placeholder when the browser refuses the URL', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const open = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Cannot navigate'))
+      .mockResolvedValue('placeholder');
+
+    expect(await openRestoredUrl('chrome://flags', 'Flags', open)).toBe(
+      'placeholder',
+    );
+    expect(open).toHaveBeenCalledTimes(2);
+    expect(parsePlaceholderUrl(open.mock.calls[1][0])).toEqual({
+      url: 'chrome://flags',
+      reason: 'failed',
+      title: 'Flags',
+    });
+    warn.mockRestore();
+  });
+
+  it('does not retry when the placeholder itself fails to open', async () => {
+    const open = vi.fn().mockRejectedValue(new Error('gone'));
+    await expect(
+      openRestoredUrl('blob:https://example.com/1', undefined, open),
+    ).rejects.toThrow('gone');
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+});
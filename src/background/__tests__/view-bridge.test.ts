@@ -140,6 +140,30 @@ describe('ViewBridge', () => {
     });
   });
 
+  describe('broadcastDelta()', () => {
+    it('numbers deltas consecutively, even with no ports', () => {
+      const delta = {
+        op: 'remove',
+        idMVC: 'tab',
+        parentIdMVC: 'win',
+        parentsUpdateData: {},
+      } as const;
+      expect(bridge.deltaSeq).toBe(0);
+
+      bridge.broadcastDelta(delta);
+      const port = createMockPort();
+      bridge.addPort(port);
+      bridge.broadcastDelta(delta);
+
+      expect(bridge.deltaSeq).toBe(2);
+      expect(port.postMessage).toHaveBeenCalledWith({
+        command: 'msg2view_treeDelta',
+        seq: 2,
+        delta,
+      });
+    });
+  });
+
   describe('sendTo()', () => {
     it('sends message to a specific port', () => {
       const port = createMockPort();
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockGetWorkAreas = vi.fn();
+vi.mock('@/chrome/display', () => ({
+  getWorkAreas: (...args: unknown[]) => mockGetWorkAreas(...args),
+}));
+
+import { fitRectToWorkAreas, savedWindowCreateProps } from '../window-geometry';
+
+const PRIMARY = { left: 0, top: 0, width: 1440, height: 900 };
+const SECONDARY = { left: 1440, top: 0, width: 1920, height: 1080 };
+
+beforeEach(() => {
+  mockGetWorkAreas.mockReset();
+  mockGetWorkAreas.mockResolvedValue([PRIMARY, SECONDARY]);
+});
+
+describe('fitRectToWorkAreas', () => {
+  it('keeps a rect that already fits', () => {
+    const rect = { left: 1500, top: 100, width: 800, height: 600 };
+    expect(fitRectToWorkAreas(rect, [PRIMARY, SECONDARY])).toEqual(rect);
+  });
+
+  it('pulls a rect straddling an edge onto the display it overlaps most', () => {
+    const rect = { left: 2900, top: 700, width: 800, height: 600 };
+    expect(fitRectToWorkAreas(rect, [PRIMARY, SECONDARY])).toEqual({
+      left: 2560,
+      top: 480,
+      width: 800,
+      height: 600,
+    });
+  });
+
+  it('moves a rect from an unplugged display onto the primary', () => {
+    const rect = { left: 5000, top: 200, width: 800, height: 600 };
+    expect(fitRectToWorkAreas(rect, [PRIMARY])).toEqual({
+      left: 640,
+      top: 200,
+      width: 800,
+      height: 600,
+    });
+  });
+
+  it('shrinks a rect larger than its display', () => {
+    const rect = { left: -50, top: -50, width: 3000, height: 2000 };
+    expect(fitRectToWorkAreas(rect, [PRIMARY])).toEqual(PRIMARY);
+  });
+});
+
+describe('savedWindowCreateProps', () => {
+  it('returns the fitted, rounded bounds', async () => {
+    const props = await savedWindowCreateProps({
+      id: 1,
+      type: 'normal',
+      rect: { left: 10.4, top: 20.6, width: 800, height: 600 },
+    });
+    expect(props).toEqual({ left: 10, top: 21, width: 800, height: 600 });
+  });
+
+  it('keeps the popup type', async () => {
+    const props = await savedWindowCreateProps({
+      id: 1,
+      type: 'popup',
+      rect: { left: 10, top: 20, width: 400, height: 300 },
+    });
+    expect(props).toEqual({
+      type: 'popup',
+      left: 10,
+      top: 20,
+      width: 400,
+      height: 300,
+    });
+  });
+
+  it('reopens app windows as popups', async () => {
+    const props = await savedWindowCreateProps({ id: 1, type: 'app' });
+    expect(props).toEqual({ type: 'popup' });
+  });
+
+  it('returns only the state for maximized windows', async () => {
+    const props = await savedWindowCreateProps({
+      id: 1,
+      type: 'normal',
+      state: 'maximized',
+      rect: { left: 0, top: 0, width: 1440, height: 900 },
+    });
+    expect(props).toEqual({ state: 'maximized' });
+    expect(mockGetWorkAreas).not.toHaveBeenCalled();
+  });
+
+  it('brings minimized windows back with their bounds', async () => {
+    const props = await savedWindowCreateProps({
+      id: 1,
+      type: 'normal',
+      state: 'minimized',
+      rect: { left: 10, top: 20, width: 800, height: 600 },
+    });
+    expect(props).toEqual({ left: 10, top: 20, width: 800, height: 600 });
+  });
+
+  it('returns nothing without a usable rect', async () => {
+    expect(await savedWindowCreateProps({ id: 1, type: 'normal' })).toEqual({});
+    expect(
+      await savedWindowCreateProps({
+        id: 1,
+        type: 'normal',
+        rect: { left: 0, top: 0, width: 0, height: 600 },
+      }),
+    ).toEqual({});
+  });
+
+  it('falls back to the saved size when displays cannot be read', async () => {
+    mockGetWorkAreas.mockRejectedValue(new Error('permission denied'));
+    const props = await savedWindowCreateProps({
+      id: 1,
+      type: 'normal',
+      rect: { left: 5000, top: 20, width: 800, height: 600 },
+    });
+    expect(props).toEqual({ width: 800, height: 600 });
+  });
+});
@@ -8,94 +8,161 @@
 
 import { TreeModel } from '@/tree/tree-model';
 import { CloseTracker } from '@/tree/close-tracker';
+import { UndoStack } from '@/tree/undo-stack';
+import type { TreeModelOptions } from '@/tree/types';
 import { toNodeDTO } from '@/tree/dto';
-import { loadTree, saveTree, treeExists } from '@/storage/tree-storage';
+import { TreeStore, treeExists } from '@/storage/tree-storage';
+import { takeSnapshot, loadSnapshot } from '@/storage/snapshot-storage';
 import { isMigrationNeeded, migrateFromLegacy } from '@/storage/migration';
 import {
   isValidHierarchyJSO,
   exportTreeFile,
+  countNodes,
 } from '@/serialization/hierarchy-jso';
 import { treeToHtml } from '@/serialization/html-export';
+import { hierarchyToBookmarksHtml } from '@/serialization/bookmarks-html';
+import { treeToMarkdown } from '@/serialization/markdown-export';
+import { treeToOpml } from '@/serialization/opml';
 import {
   validateOperationsLog,
   operationsToHierarchy,
 } from '@/serialization/operations-codec';
 import { restoreTree } from '@/tree/deserialize';
 import { GroupTreeNode } from '@/tree/nodes/group-node';
+import type { TreeNode } from '@/tree/tree-node';
 import { loadSettings } from '@/storage/settings-storage';
+import { SETTINGS_DEFAULTS, SETTINGS_KEY } from '@/types/settings';
+import type { AppSettings } from '@/types/settings';
+import { loadOrganizeRules } from '@/storage/organize-storage';
+import { ORGANIZE_RULES_KEY } from '@/types/organize';
+import type { OrganizeRule } from '@/types/organize';
 import type { HierarchyJSO } from '@/types/serialized';
+import type { MvcId } from '@/types/brands';
 import type { Msg_InitTreeView } from '@/types/messages';
 import { NodeTypesEnum } from '@/types/enums';
 import { SaveScheduler } from './save-scheduler';
+import { BackupScheduler } from './backup-scheduler';
+import type { BackupRunResult } from './backup-scheduler';
+import { AutoHibernateScheduler } from './hibernation';
 import { ViewBridge } from './view-bridge';
 import { registerChromeEventHandlers } from './chrome-event-handlers';
 import { synchronizeTreeWithChrome } from './crash-recovery';
 import { updateBadge } from './badge-manager';
 import { createAlarm, onAlarm, clearAlarm } from '@/chrome/alarms';
+import { onStorageChanged } from '@/chrome/storage';
 
 const KEEP_ALIVE_ALARM = 'tabs-outliner-keep-alive';
 /** Chrome alarms API requires minutes; 25 seconds keeps SW alive under 30s timeout. */
 const KEEP_ALIVE_INTERVAL_SECONDS = 25;
 const KEEP_ALIVE_PERIOD_MINUTES = KEEP_ALIVE_INTERVAL_SECONDS / 60;
 
+const SNAPSHOT_ALARM = 'tabs-outliner-snapshot';
+/** Finest snapshot tier is hourly; coarser tiers piggyback on the same tick. */
+const SNAPSHOT_PERIOD_MINUTES = 60;
+
 export class ActiveSession {
   readonly treeModel: TreeModel;
   readonly instanceId: string;
   readonly closeTracker: CloseTracker;
+  readonly undoStack: UndoStack;
   readonly viewBridge: ViewBridge;
+  /**
+   * Current settings, kept in sync with storage so Chrome event handlers
+   * can read them synchronously.
+   */
+  settings: AppSettings = SETTINGS_DEFAULTS;
+  /** Auto-organize rules, kept in sync with storage like `settings`. */
+  organizeRules: readonly OrganizeRule[] = [];
 
   private readonly _saveScheduler: SaveScheduler;
+  private readonly _backupScheduler: BackupScheduler;
+  private readonly _hibernateScheduler: AutoHibernateScheduler;
   private _nextViewId = 0;
   private _cleanupChromeEvents: (() => void) | null = null;
   private _cleanupKeepAlive: (() => void) | null = null;
+  private _cleanupSnapshots: (() => void) | null = null;
+  private _cleanupSettings: (() => void) | null = null;
+  private _cleanupOrganizeRules: (() => void) | null = null;
   private _disposed = false;
 
-  private constructor(treeModel: TreeModel) {
+  private constructor(
+    treeModel: TreeModel,
+    undoStack: UndoStack,
+    treeStore: TreeStore,
+  ) {
     this.treeModel = treeModel;
     this.instanceId = String(Date.now());
     this.closeTracker = new CloseTracker();
+    this.undoStack = undoStack;
     this.viewBridge = new ViewBridge();
 
+    // Only what changed since the last commit is written.
     this._saveScheduler = new SaveScheduler(async () => {
-      const jso = this.treeModel.toHierarchyJSO();
-      await saveTree(jso);
+      const changes = this.treeModel.serializeForDiff(
+        treeStore.nextDId,
+        treeStore.committed,
+      );
+      await treeStore.saveChanges(changes, this.treeModel.getNextDId());
     });
+    this._backupScheduler = new BackupScheduler(() =>
+      this.treeModel.toHierarchyJSO(),
+    );
+    this._hibernateScheduler = new AutoHibernateScheduler(this);
   }
 
   /** Initialize from persisted storage + Chrome state. */
   static async create(): Promise<ActiveSession> {
-    let treeModel: TreeModel;
+    // The model is built before the session, so the undo stack is created
+    // up front and handed to both.
+    const undoStack = new UndoStack();
+    const modelOptions: TreeModelOptions = {
+      onMutation: (result) => undoStack.observe(result),
+    };
 
     // Try loading from new storage first
-    const hasTree = await treeExists();
-    if (hasTree) {
-      const jso = await loadTree();
-      if (jso) {
-        treeModel = TreeModel.fromHierarchyJSO(jso);
-      } else {
-        treeModel = TreeModel.createEmpty();
-      }
+    const treeStore = new TreeStore();
+    let jso: HierarchyJSO | null = null;
+    if (await treeExists()) {
+      jso = await treeStore.load();
     } else if (await isMigrationNeeded()) {
       // Migrate from legacy IndexedDB (saves to new storage internally)
       const result = await migrateFromLegacy();
       if (result.success && result.nodeCount > 0) {
-        const jso = await loadTree();
-        if (jso) {
-          treeModel = TreeModel.fromHierarchyJSO(jso);
-        } else {
-          treeModel = TreeModel.createEmpty();
-        }
-      } else {
-        treeModel = TreeModel.createEmpty();
+        jso = await treeStore.load();
       }
-    } else {
-      treeModel = TreeModel.createEmpty();
     }
+    const treeModel = jso
+      ? TreeModel.fromHierarchyJSO(jso, modelOptions)
+      : TreeModel.createEmpty(modelOptions);
+
+    const session = new ActiveSession(treeModel, undoStack, treeStore);
+
+    session.settings = await loadSettings();
+    session._cleanupSettings = onStorageChanged(
+      'local',
+      SETTINGS_KEY,
+      (newValue) => {
+        session.settings = {
+          ...SETTINGS_DEFAULTS,
+          ...(newValue as Partial<AppSettings> | undefined),
+        };
+      },
+    );
 
-    const session = new ActiveSession(treeModel);
+    session.organizeRules = await loadOrganizeRules();
+    session._cleanupOrganizeRules = onStorageChanged(
+      'local',
+      ORGANIZE_RULES_KEY,
+      (newValue) => {
+        session.organizeRules = (newValue as OrganizeRule[] | undefined) ?? [];
+      },
+    );
 
     // Synchronize tree with current Chrome state (crash recovery)
-    const recovery = await synchronizeTreeWithChrome(treeModel);
+    const recovery = await synchronizeTreeWithChrome(
+      treeModel,
+      session.settings,
+    );
     if (
       recovery.recoveredCount > 0 ||
       recovery.newCount > 0 ||
@@ -105,7 +172,7 @@ export class ActiveSession {
         `[ActiveSession] Crash recovery: ${recovery.recoveredCount} recovered, ${recovery.newCount} new, ${recovery.cleanedCount} cleaned`,
       );
       // Save the recovered state
-      await saveTree(treeModel.toHierarchyJSO());
+      await session.saveNow();
     }
 
     // Register Chrome event handlers
@@ -120,6 +187,20 @@ export class ActiveSession {
       // Keep-alive: just being called keeps the SW alive
     });
 
+    // Rolling snapshot history. Also check on startup so a SW that never
+    // lives a full hour still records its tiers.
+    createAlarm(SNAPSHOT_ALARM, SNAPSHOT_PERIOD_MINUTES);
+    session._cleanupSnapshots = onAlarm(SNAPSHOT_ALARM, () => {
+      void session.snapshotNow();
+    });
+    await session.snapshotNow();
+
+    // Remote backups (no-op until a target is configured in options)
+    session._backupScheduler.start();
+
+    // Idle-tab hibernation (no-op until enabled in options)
+    session._hibernateScheduler.start();
+
     // Initial badge update
     void updateBadge(treeModel);
 
@@ -134,12 +215,18 @@ export class ActiveSession {
       rootNode_currentSession: toNodeDTO(this.treeModel.root),
       globalViewId: this._nextViewId,
       instanceId: this.instanceId,
+      deltaSeq: this.viewBridge.deltaSeq,
     };
   }
 
-  /** Import a tree from JSON (HierarchyJSO or legacy operations log). */
+  /**
+   * Import a tree from JSON (HierarchyJSO or legacy operations log). With
+   * a `target` the imported nodes become children of that node at
+   * `position` (-1 = last); otherwise they go at the end of the tree.
+   */
   async importTree(
     treeJson: string,
+    target?: { parentIdMVC: string; position: number },
   ): Promise<{ success: boolean; nodeCount: number; error?: string }> {
     const MAX_IMPORT_SIZE = 10 * 1024 * 1024; // 10 MB
     if (treeJson.length > MAX_IMPORT_SIZE) {
@@ -185,17 +272,46 @@ export class ActiveSession {
       const deactivated = deactivateHierarchy(hierarchy);
       console.log(`[importTree] Deactivated ${deactivated} active nodes`);
 
+      // A whole-tree file brings its own session root, which ours stands in
+      // for; a subtree export is rooted at the exported node itself.
+      const imported =
+        hierarchy.n.type === NodeTypesEnum.SESSION
+          ? (hierarchy.s ?? [])
+          : [hierarchy];
+      let importedNodeCount = 0;
+
+      if (target) {
+        const parent = this.treeModel.findByMvcId(target.parentIdMVC as MvcId);
+        if (!parent) {
+          return {
+            success: false,
+            nodeCount: 0,
+            error: 'Import target no longer exists',
+          };
+        }
+        this.undoStack.transaction('Import', () => {
+          let index =
+            target.position < 0 ? parent.subnodes.length : target.position;
+          for (const childJSO of imported) {
+            const childNode = restoreTree(childJSO);
+            if (!childNode) continue;
+            importedNodeCount += countHierarchyNodes(childJSO);
+            this.treeModel.insertSubnode(parent, index++, childNode);
+          }
+        });
+        await this.finishImport();
+        return { success: true, nodeCount: importedNodeCount };
+      }
+
       // Append imported children to root. When the wrap-in-container setting
       // is on (default), nest them under a dated group so repeat imports stay
       // visually grouped; when off, insert them as direct siblings of the
       // user's existing tree so no container-level delete can take the whole
-      // import down in one click. Skip the imported root — our session node
-      // already stands in for it.
+      // import down in one click.
       //
-      // insertAsLastChild on the detached container is safe today because
-      // ActiveSession does not wire onMutation; if that changes, switch to
-      // container.insertSubnode to avoid firing view events for a parent
-      // that isn't in the tree yet.
+      // Children are attached to the detached container with the raw
+      // container.insertSubnode, not the TreeModel, so onMutation (and the
+      // undo stack) only sees the single insert into the live tree.
       const { wrapImportsInContainer } = await loadSettings();
       // Tabs at the top level violate the data model — they should always
       // sit inside a window/group. Most commonly triggered by legacy DnD of
@@ -205,45 +321,112 @@ export class ActiveSession {
       // savedwin when that wrapper is off — otherwise we'd create a
       // redundant `Group → savedwin → tabs` chain.
       const children = wrapImportsInContainer
-        ? (hierarchy.s ?? [])
-        : wrapOrphanTabs(hierarchy.s ?? []);
-      let importedNodeCount = 0;
-
-      if (wrapImportsInContainer) {
-        const container = new GroupTreeNode();
-        container.setMarks({
-          relicons: [],
-          customTitle: `Imported ${formatImportTimestamp(new Date())}`,
-        });
-        for (const childJSO of children) {
-          importedNodeCount += countHierarchyNodes(childJSO);
-          const childNode = restoreTree(childJSO);
-          if (childNode) {
-            this.treeModel.insertAsLastChild(container, childNode);
+        ? imported
+        : wrapOrphanTabs(imported);
+
+      this.undoStack.transaction('Import', () => {
+        if (wrapImportsInContainer) {
+          const container = new GroupTreeNode();
+          container.setMarks({
+            relicons: [],
+            customTitle: `Imported ${formatImportTimestamp(new Date())}`,
+          });
+          for (const childJSO of children) {
+            importedNodeCount += countHierarchyNodes(childJSO);
+            const childNode = restoreTree(childJSO);
+            if (childNode) {
+              container.insertSubnode(-1, childNode);
+            }
           }
-        }
-        if (container.subnodes.length > 0) {
-          this.treeModel.insertAsLastChild(this.treeModel.root, container);
-        }
-      } else {
-        for (const childJSO of children) {
-          importedNodeCount += countHierarchyNodes(childJSO);
-          const childNode = restoreTree(childJSO);
-          if (childNode) {
-            this.treeModel.insertAsLastChild(this.treeModel.root, childNode);
+          container.calculateIsProtectedFromGoneOnClose();
+          if (container.subnodes.length > 0) {
+            this.treeModel.insertAsLastChild(this.treeModel.root, container);
+          }
+        } else {
+          for (const childJSO of children) {
+            importedNodeCount += countHierarchyNodes(childJSO);
+            const childNode = restoreTree(childJSO);
+            if (childNode) {
+              this.treeModel.insertAsLastChild(this.treeModel.root, childNode);
+            }
           }
         }
+      });
+
+      await this.finishImport();
+      return { success: true, nodeCount: importedNodeCount };
+    } catch (err) {
+      return {
+        success: false,
+        nodeCount: 0,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  private async finishImport(): Promise<void> {
+    // Convert orphaned active nodes → saved (imported tabs/windows
+    // won't match any current Chrome entities)
+    const recovery = await synchronizeTreeWithChrome(
+      this.treeModel,
+      this.settings,
+    );
+    console.log(
+      `[importTree] Crash recovery: ${recovery.recoveredCount} recovered, ${recovery.newCount} new, ${recovery.cleanedCount} cleaned`,
+    );
+    await this.saveNow();
+  }
+
+  /**
+   * Record a snapshot for every due tier. Failures are logged, never
+   * thrown — snapshots are a safety net and must not break the session.
+   */
+  async snapshotNow(): Promise<void> {
+    try {
+      const created = await takeSnapshot(this.treeModel.toHierarchyJSO());
+      if (created.length > 0) {
+        console.log(
+          `[ActiveSession] Snapshot taken: ${created.map((m) => m.tier).join(', ')}`,
+        );
+      }
+    } catch (err) {
+      console.error('[ActiveSession] Snapshot failed:', err);
+    }
+  }
+
+  /**
+   * Replace the whole tree with a stored snapshot. Uses TreeModel.replaceWith
+   * so the model identity held by handlers and the save scheduler survives,
+   * then reconciles with Chrome (tabs in the snapshot that are still open
+   * stay live, the rest become saved) and persists immediately.
+   */
+  async restoreSnapshot(
+    snapshotId: string,
+  ): Promise<{ success: boolean; nodeCount: number; error?: string }> {
+    try {
+      const hierarchy = await loadSnapshot(snapshotId);
+      if (!hierarchy) {
+        return {
+          success: false,
+          nodeCount: 0,
+          error: 'Snapshot not found or unreadable',
+        };
       }
 
-      // Convert orphaned active nodes → saved (imported tabs/windows
-      // won't match any current Chrome entities)
-      const recovery = await synchronizeTreeWithChrome(this.treeModel);
+      this.treeModel.replaceWith(TreeModel.fromHierarchyJSO(hierarchy));
+      // Undo history references nodes of the tree just thrown away.
+      this.undoStack.clear();
+      const recovery = await synchronizeTreeWithChrome(
+        this.treeModel,
+        this.settings,
+      );
       console.log(
-        `[importTree] Crash recovery: ${recovery.recoveredCount} recovered, ${recovery.newCount} new, ${recovery.cleanedCount} cleaned`,
+        `[restoreSnapshot] Crash recovery: ${recovery.recoveredCount} recovered, ${recovery.newCount} new, ${recovery.cleanedCount} cleaned`,
       );
-      await saveTree(this.treeModel.toHierarchyJSO());
+      await this.saveNow();
+      void updateBadge(this.treeModel);
 
-      return { success: true, nodeCount: importedNodeCount };
+      return { success: true, nodeCount: countNodes(hierarchy) };
     } catch (err) {
       return {
         success: false,
@@ -253,11 +436,92 @@ export class ActiveSession {
     }
   }
 
-  /** Export the current tree as a JSON string. */
-  exportTree(): { success: boolean; treeJson?: string; error?: string } {
+  /** Upload a backup to the configured remote target right away. */
+  backupNow(): Promise<BackupRunResult> {
+    return this._backupScheduler.runNow();
+  }
+
+  /** Export the current tree, or the subtree at `rootIdMVC`, as a JSON string. */
+  exportTree(rootIdMVC?: string): {
+    success: boolean;
+    treeJson?: string;
+    error?: string;
+  } {
+    try {
+      const root = this.exportRoot(rootIdMVC);
+      if (!root) return { success: false, error: 'Node not found' };
+      return {
+        success: true,
+        treeJson: exportTreeFile(root.serializeToHierarchy()),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  /** Export the current tree, or the subtree at `rootIdMVC`, as HTML. */
+  exportTreeHtml(rootIdMVC?: string): {
+    success: boolean;
+    treeHtml?: string;
+    error?: string;
+  } {
+    try {
+      const root = this.exportRoot(rootIdMVC);
+      if (!root) return { success: false, error: 'Node not found' };
+      return { success: true, treeHtml: treeToHtml(root) };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  /** Export the current tree, or the subtree at `rootIdMVC`, as a bookmark file. */
+  exportTreeBookmarks(rootIdMVC?: string): {
+    success: boolean;
+    bookmarksHtml?: string;
+    error?: string;
+  } {
+    try {
+      const root = this.exportRoot(rootIdMVC);
+      if (!root) return { success: false, error: 'Node not found' };
+      return {
+        success: true,
+        bookmarksHtml: hierarchyToBookmarksHtml(root.serializeToHierarchy()),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  /**
+   * Export the current tree, or the subtree at `rootIdMVC`, as a Markdown
+   * list shaped by the markdownExport* settings.
+   */
+  exportTreeMarkdown(rootIdMVC?: string): {
+    success: boolean;
+    treeMarkdown?: string;
+    error?: string;
+  } {
     try {
-      const hierarchy = this.treeModel.toHierarchyJSO();
-      return { success: true, treeJson: exportTreeFile(hierarchy) };
+      const root = this.exportRoot(rootIdMVC);
+      if (!root) return { success: false, error: 'Node not found' };
+      return {
+        success: true,
+        treeMarkdown: treeToMarkdown(root, {
+          maxDepth: this.settings.markdownExportDepth,
+          includeLiveTabs: this.settings.markdownExportLiveTabs,
+          includeSavedTabs: this.settings.markdownExportSavedTabs,
+          useCustomTitles: this.settings.markdownExportCustomTitles,
+        }),
+      };
     } catch (err) {
       return {
         success: false,
@@ -266,11 +530,16 @@ export class ActiveSession {
     }
   }
 
-  /** Export the current tree as HTML. */
-  exportTreeHtml(): { success: boolean; treeHtml?: string; error?: string } {
+  /** Export the current tree, or the subtree at `rootIdMVC`, as OPML. */
+  exportTreeOpml(rootIdMVC?: string): {
+    success: boolean;
+    treeOpml?: string;
+    error?: string;
+  } {
     try {
-      const html = treeToHtml(this.treeModel.root);
-      return { success: true, treeHtml: html };
+      const root = this.exportRoot(rootIdMVC);
+      if (!root) return { success: false, error: 'Node not found' };
+      return { success: true, treeOpml: treeToOpml(root) };
     } catch (err) {
       return {
         success: false,
@@ -279,6 +548,12 @@ export class ActiveSession {
     }
   }
 
+  private exportRoot(rootIdMVC?: string): TreeNode | null {
+    return rootIdMVC === undefined
+      ? this.treeModel.root
+      : this.treeModel.findByMvcId(rootIdMVC as MvcId);
+  }
+
   /** Schedule a debounced save. */
   scheduleSave(): void {
     this._saveScheduler.schedule();
@@ -305,6 +580,24 @@ export class ActiveSession {
     }
     await clearAlarm(KEEP_ALIVE_ALARM);
 
+    if (this._cleanupSnapshots) {
+      this._cleanupSnapshots();
+      this._cleanupSnapshots = null;
+    }
+    await clearAlarm(SNAPSHOT_ALARM);
+
+    await this._backupScheduler.stop();
+    await this._hibernateScheduler.stop();
+
+    if (this._cleanupSettings) {
+      this._cleanupSettings();
+      this._cleanupSettings = null;
+    }
+    if (this._cleanupOrganizeRules) {
+      this._cleanupOrganizeRules();
+      this._cleanupOrganizeRules = null;
+    }
+
     // Unregister Chrome event handlers
     if (this._cleanupChromeEvents) {
       this._cleanupChromeEvents();
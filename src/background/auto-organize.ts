@@ -0,0 +1,52 @@
+/**
+ * Auto-organize — runs the user's rules (see @/tree/organize) on tabs as
+ * they are opened, finish loading or get saved.
+ *
+ * Rule-driven changes come from Chrome events rather than user actions, so
+ * they stay off the undo stack. Views get a delta for each step, groups
+ * created on the way included.
+ */
+
+import { organizeNode } from '@/tree/organize';
+import type { TreeNode } from '@/tree/tree-node';
+import type { MutationRecord } from '@/tree/types';
+import type { ActiveSession } from './active-session';
+import type { ViewBridge } from './view-bridge';
+import { notifyMutation } from './tree-deltas';
+
+/**
+ * Apply the session's rules to `nodes`. Returns whether the tree changed;
+ * the caller schedules the save.
+ */
+export function organizeTabs(
+  session: ActiveSession,
+  bridge: ViewBridge,
+  nodes: readonly TreeNode[],
+): boolean {
+  const rules = session.organizeRules;
+  if (rules.length === 0) return false;
+
+  const notify = (record: MutationRecord) => notifyMutation(bridge, record);
+  let changed = false;
+  for (const node of nodes) {
+    if (organizeNode(session.treeModel, rules, node, notify)) changed = true;
+  }
+  return changed;
+}
+
+/** Apply the rules to every tab inside a window that was just saved. */
+export function organizeSavedWindow(
+  session: ActiveSession,
+  bridge: ViewBridge,
+  savedWindow: TreeNode,
+): boolean {
+  const nodes: TreeNode[] = [];
+  const collect = (node: TreeNode) => {
+    for (const child of node.subnodes) {
+      nodes.push(child);
+      collect(child);
+    }
+  };
+  collect(savedWindow);
+  return organizeTabs(session, bridge, nodes);
+}
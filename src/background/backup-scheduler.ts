@@ -0,0 +1,129 @@
+/**
+ * BackupScheduler — periodic upload of the tree to the configured remote
+ * backup provider.
+ *
+ * An alarm ticks every BACKUP_CHECK_PERIOD_MINUTES; each tick re-reads the
+ * backup settings, so changes made on the options page apply without
+ * re-arming anything. A backup runs when scheduling is enabled and the
+ * last success is older than the configured interval. Every run records
+ * its outcome in BackupStatus for the options page.
+ */
+
+import { createAlarm, onAlarm, clearAlarm } from '@/chrome/alarms';
+import {
+  loadBackupSettings,
+  loadBackupStatus,
+  saveBackupStatus,
+} from '@/storage/backup-storage';
+import { backupFileName } from '@/backup/provider';
+import { createBackupProvider, isBackupConfigured } from '@/backup/registry';
+import { exportTreeFile } from '@/serialization/hierarchy-jso';
+import type { HierarchyJSO } from '@/types/serialized';
+
+export const BACKUP_ALARM = 'tabs-outliner-backup';
+const BACKUP_CHECK_PERIOD_MINUTES = 30;
+const HOUR_MS = 60 * 60 * 1000;
+/** Alarm jitter tolerance, as for snapshots. */
+const DUE_GRACE_MS = 5 * 60 * 1000;
+
+export interface BackupRunResult {
+  readonly success: boolean;
+  /** Name of the uploaded backup on success. */
+  readonly backupId?: string;
+  readonly error?: string;
+}
+
+export class BackupScheduler {
+  private readonly _getHierarchy: () => HierarchyJSO;
+  private _cleanupAlarm: (() => void) | null = null;
+  private _running: Promise<BackupRunResult> | null = null;
+
+  constructor(getHierarchy: () => HierarchyJSO) {
+    this._getHierarchy = getHierarchy;
+  }
+
+  start(): void {
+    createAlarm(BACKUP_ALARM, BACKUP_CHECK_PERIOD_MINUTES);
+    this._cleanupAlarm = onAlarm(BACKUP_ALARM, () => {
+      this.runIfDue().catch((err: unknown) => {
+        console.error('[BackupScheduler] Scheduled check failed:', err);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this._cleanupAlarm) {
+      this._cleanupAlarm();
+      this._cleanupAlarm = null;
+    }
+    await clearAlarm(BACKUP_ALARM);
+  }
+
+  /** Run a backup if scheduling is on and the interval has elapsed. */
+  async runIfDue(now: number = Date.now()): Promise<BackupRunResult | null> {
+    const settings = await loadBackupSettings();
+    if (!settings.enabled || !isBackupConfigured(settings)) return null;
+
+    const { lastSuccessAt } = await loadBackupStatus();
+    const intervalMs = settings.intervalHours * HOUR_MS;
+    if (
+      lastSuccessAt !== null &&
+      now - lastSuccessAt < intervalMs - DUE_GRACE_MS
+    ) {
+      return null;
+    }
+    return this.runNow(now);
+  }
+
+  /**
+   * Upload a backup now, then rotate old ones. Never throws — failures are
+   * returned and recorded in BackupStatus. Concurrent calls share one run.
+   */
+  runNow(now: number = Date.now()): Promise<BackupRunResult> {
+    if (!this._running) {
+      this._running = this._run(now).finally(() => {
+        this._running = null;
+      });
+    }
+    return this._running;
+  }
+
+  private async _run(now: number): Promise<BackupRunResult> {
+    let lastSuccessAt: number | null = null;
+    try {
+      lastSuccessAt = (await loadBackupStatus()).lastSuccessAt;
+      const settings = await loadBackupSettings();
+      if (!isBackupConfigured(settings)) {
+        throw new Error('No backup target configured');
+      }
+      const provider = createBackupProvider(settings);
+      const backupId = backupFileName(now);
+      await provider.upload(backupId, exportTreeFile(this._getHierarchy()));
+
+      // The upload already succeeded; a failed rotation only leaves extra
+      // files behind and is retried on the next run.
+      try {
+        await provider.rotate(settings.keep);
+      } catch (err) {
+        console.warn('[BackupScheduler] Rotation failed:', err);
+      }
+
+      await saveBackupStatus({
+        lastAttemptAt: now,
+        lastSuccessAt: now,
+        lastError: null,
+      });
+      console.log(`[BackupScheduler] Uploaded ${backupId}`);
+      return { success: true, backupId };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.error('[BackupScheduler] Backup failed:', err);
+      await saveBackupStatus({
+        lastAttemptAt: now,
+        lastSuccessAt,
+        lastError: error,
+      }).catch(() => {});
+      return { success: false, error };
+    }
+  }
+}
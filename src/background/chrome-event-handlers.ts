@@ -1,5 +1,6 @@
 /**
- * Chrome event handlers — map Chrome tab/window events to tree mutations.
+ * Chrome event handlers — map Chrome tab/window/tab group events to tree
+ * mutations.
  *
  * Each handler:
  * 1. Finds the relevant tree node (by Chrome ID)
@@ -12,16 +13,30 @@
 import type { ActiveSession } from './active-session';
 import type { ViewBridge } from './view-bridge';
 import { dndPendingTabIds } from './dnd-state';
+import { findOpenerNode } from './tab-opener';
+import { tabGroupRestoreWindowIds } from './tab-group-state';
+import { organizeSavedWindow, organizeTabs } from './auto-organize';
+import {
+  notifyNodeInserted,
+  notifyNodeMoved,
+  notifyNodeRemoved,
+  notifyNodeReplaced,
+  notifyNodeUpdated,
+} from './tree-deltas';
 import { NodeTypesEnum } from '@/types/enums';
 import type { TabData, WindowData } from '@/types/node-data';
-import type { ChromeTabData, ChromeWindowData } from '@/types/chrome';
+import type {
+  ChromeTabData,
+  ChromeTabGroupData,
+  ChromeWindowData,
+} from '@/types/chrome';
 import { TreeModel } from '@/tree/tree-model';
 import { TreeNode } from '@/tree/tree-node';
 import { TabTreeNode } from '@/tree/nodes/tab-node';
 import { WindowTreeNode } from '@/tree/nodes/window-node';
 import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
 import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
-import { toNodeDTO, computeParentUpdatesToRoot } from '@/tree/dto';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
 import {
   onTabCreated,
   onTabRemoved,
@@ -39,12 +54,22 @@ import {
   onWindowCreated,
   onWindowRemoved,
   onWindowFocusChanged,
+  onWindowBoundsChanged,
   getWindow,
 } from '@/chrome/windows';
+import {
+  TAB_GROUP_ID_NONE,
+  onTabGroupCreated,
+  onTabGroupUpdated,
+  onTabGroupRemoved,
+} from '@/chrome/tab-groups';
 
 const WINDOW_FOCUS_DEBOUNCE_MS = 100;
 
-/** Register all Chrome tab/window event listeners. Returns cleanup function. */
+/**
+ * Register all Chrome tab/window/tab group event listeners. Returns cleanup
+ * function.
+ */
 export function registerChromeEventHandlers(
   session: ActiveSession,
   bridge: ViewBridge,
@@ -60,8 +85,8 @@ export function registerChromeEventHandlers(
   );
 
   cleanups.push(
-    onTabUpdated((tabId, _changeInfo, tab) =>
-      handleTabUpdated(session, bridge, tabId, tab),
+    onTabUpdated((tabId, changeInfo, tab) =>
+      handleTabUpdated(session, bridge, tabId, changeInfo, tab),
     ),
   );
 
@@ -105,6 +130,26 @@ export function registerChromeEventHandlers(
     ),
   );
 
+  cleanups.push(
+    onTabGroupCreated((group) =>
+      handleTabGroupCreatedOrUpdated(session, bridge, group),
+    ),
+  );
+
+  cleanups.push(
+    onTabGroupUpdated((group) =>
+      handleTabGroupCreatedOrUpdated(session, bridge, group),
+    ),
+  );
+
+  cleanups.push(
+    onTabGroupRemoved((group) => handleTabGroupRemoved(session, bridge, group)),
+  );
+
+  cleanups.push(
+    onWindowBoundsChanged((win) => handleWindowBoundsChanged(session, win)),
+  );
+
   let focusDebounceTimer: ReturnType<typeof setTimeout> | null = null;
   cleanups.push(
     onWindowFocusChanged((windowId) => {
@@ -165,6 +210,9 @@ async function handleTabCreated(
   }
 
   const tabNode = new TabTreeNode(tab as TabData);
+  const opener = session.settings.relateNewTabToOpener
+    ? findOpenerNode(session.treeModel, tab)
+    : null;
 
   if (closeRecord) {
     // Restore at original position if parent still exists
@@ -175,11 +223,22 @@ async function handleTabCreated(
     } else {
       session.treeModel.insertAsLastChild(winNode, tabNode);
     }
+  } else if (opener) {
+    // Chrome places tabs opened from the same tab one after another, so
+    // the newest one goes last among the opener's children.
+    session.treeModel.insertAsLastChild(opener, tabNode);
   } else {
     session.treeModel.insertAsLastChild(winNode, tabNode);
   }
 
   notifyNodeInserted(bridge, tabNode);
+  // Tabs opened inside a group (e.g. "New tab in group") never get a
+  // groupId change event, so place them now.
+  if (tab.groupId != null && tab.groupId !== TAB_GROUP_ID_NONE) {
+    syncTabGroupMembership(session, bridge, tabNode, tab.groupId);
+  }
+  // A reopened tab was put back where it was closed; leave it there.
+  if (!closeRecord) organizeTabs(session, bridge, [tabNode]);
   session.scheduleSave();
 }
 
@@ -222,24 +281,12 @@ function handleTabRemoved(
       return;
     }
     session.treeModel.replaceNode(node, saved);
-    bridge.broadcast({
-      command: 'msg2view_notifyObserver',
-      idMVC: saved.idMVC,
-      parameters: ['onNodeReplaced'],
-      parentsUpdateData: computeParentUpdatesToRoot(oldParent),
-    });
+    notifyNodeReplaced(bridge, saved);
   } else {
     // Remove entirely — unmarked tab with no children
     const oldParent = node.parent;
     session.treeModel.removeSubtree(node);
-    bridge.broadcast({
-      command: 'msg2view_notifyObserver',
-      idMVC: node.idMVC,
-      parameters: ['onNodeRemoved'],
-      parentsUpdateData: oldParent
-        ? computeParentUpdatesToRoot(oldParent)
-        : undefined,
-    });
+    if (oldParent) notifyNodeRemoved(bridge, node, oldParent);
     removeEmptyWindowParent(session, bridge, oldParent);
   }
 
@@ -250,6 +297,7 @@ function handleTabUpdated(
   session: ActiveSession,
   bridge: ViewBridge,
   tabId: number,
+  changeInfo: Browser.tabs.OnUpdatedInfo,
   tab: ChromeTabData,
 ): void {
   const node = session.treeModel.findActiveTab(tabId);
@@ -260,12 +308,7 @@ function handleTabUpdated(
     const parent = node.parent;
     session.treeModel.removeSubtree(node);
     if (parent) {
-      bridge.broadcast({
-        command: 'msg2view_notifyObserver',
-        idMVC: node.idMVC,
-        parameters: ['onNodeRemoved'],
-        parentsUpdateData: computeParentUpdatesToRoot(parent),
-      });
+      notifyNodeRemoved(bridge, node, parent);
       removeEmptyWindowParent(session, bridge, parent);
     }
     session.scheduleSave();
@@ -273,12 +316,76 @@ function handleTabUpdated(
   }
 
   if (node.type === NodeTypesEnum.TAB) {
+    // Also how discards and reloads reach the tree: `tab.discarded` flips
+    // with changeInfo.discarded, and the row's sleeping style follows it.
     (node as TabTreeNode).updateChromeData(tab as TabData);
     notifyNodeUpdated(bridge, node);
+    // Only react to actual membership changes so a tab the user dragged
+    // elsewhere in the tree isn't pulled back on every title update.
+    if (changeInfo.groupId !== undefined) {
+      syncTabGroupMembership(session, bridge, node, changeInfo.groupId);
+    }
+    // Re-check the rules once per page load, when the final URL and title
+    // are known, rather than on every title change.
+    if (changeInfo.status === 'complete') {
+      organizeTabs(session, bridge, [node]);
+    }
     session.scheduleSave();
   }
 }
 
+/**
+ * Move a tab node into (or out of) the node mirroring its Chrome tab group.
+ *
+ * Joining a group whose node is still empty first moves the group node to
+ * where the tab is, so a fresh group appears in place rather than at the
+ * end of the window. Leaving a group drops the tab right after it.
+ */
+function syncTabGroupMembership(
+  session: ActiveSession,
+  bridge: ViewBridge,
+  node: TreeNode,
+  groupId: number,
+): void {
+  const windowId = (node.data as TabData).windowId;
+  if (windowId == null || tabGroupRestoreWindowIds.has(windowId)) return;
+
+  const model = session.treeModel;
+  const current = enclosingTabGroup(node);
+  if (current?.tabGroupId === groupId) return;
+
+  const tabParent = node.parent;
+  if (!tabParent) return;
+
+  if (groupId === TAB_GROUP_ID_NONE) {
+    const container = current?.parent;
+    if (!current || !container) return;
+    model.moveNode(node, {
+      containerIdMVC: container.idMVC,
+      position: container.subnodes.indexOf(current) + 1,
+    });
+  } else {
+    const groupNode =
+      model.findActiveTabGroup(groupId) ??
+      insertTabGroupNode(session, bridge, { id: groupId, windowId });
+    if (!groupNode) return;
+    const groupParent = groupNode.parent;
+    if (groupNode.subnodes.length === 0 && groupParent) {
+      model.moveNode(groupNode, {
+        containerIdMVC: tabParent.idMVC,
+        position: tabParent.subnodes.indexOf(node),
+      });
+      notifyNodeMoved(bridge, groupNode, groupParent);
+    }
+    model.moveNode(node, {
+      containerIdMVC: groupNode.idMVC,
+      position: groupNode.subnodes.length,
+    });
+  }
+
+  notifyNodeMoved(bridge, node, tabParent);
+}
+
 function handleTabMoved(
   session: ActiveSession,
   bridge: ViewBridge,
@@ -288,6 +395,16 @@ function handleTabMoved(
   const node = session.treeModel.findActiveTab(tabId);
   if (!node || !node.parent) return;
 
+  // Grouped tabs stay inside their group node: Chrome keeps a group's tabs
+  // contiguous, and leaving the group arrives separately as a groupId
+  // change. Groups being recreated are still unbound, so skip those too.
+  if (
+    enclosingTabGroup(node) ||
+    tabGroupRestoreWindowIds.has(moveInfo.windowId)
+  ) {
+    return;
+  }
+
   const winNode = session.treeModel.findActiveWindow(moveInfo.windowId);
   if (!winNode) {
     console.warn(
@@ -296,17 +413,13 @@ function handleTabMoved(
     return;
   }
 
-  // Reorder within the window: remove and re-insert at new position
-  node.removeFromParent();
-  const insertIdx = Math.min(moveInfo.toIndex, winNode.subnodes.length);
-  winNode.insertSubnode(insertIdx, node);
+  // A nested tab whose tree order still matches the strip stays put, so
+  // opener nesting isn't flattened by unrelated strip reorders.
+  if (windowTabNodes(winNode).indexOf(node) === moveInfo.toIndex) return;
 
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver',
-    idMVC: node.idMVC,
-    parameters: ['onNodeMoved'],
-    parentsUpdateData: computeParentUpdatesToRoot(winNode),
-  });
+  const oldParent = node.parent;
+  moveToStripIndex(session.treeModel, winNode, node, moveInfo.toIndex);
+  notifyNodeMoved(bridge, node, oldParent);
 
   session.scheduleSave();
 }
@@ -332,27 +445,32 @@ function handleTabAttached(
     return;
   }
 
-  // If the tab is already under the target window (e.g., DnD handler
+  // If the tab is already inside the target window (e.g., DnD handler
   // already moved it in the tree before chrome.tabs.move fired), skip
   // the tree move to preserve the user's chosen drop position.
-  if (node.parent === newWinNode) return;
-
-  // Move tab to new window
-  if (node.parent) {
-    node.removeFromParent();
+  for (let p = node.parent; p; p = p.parent) {
+    if (p === newWinNode) return;
   }
-  const insertIdx = Math.min(
-    attachInfo.newPosition,
-    newWinNode.subnodes.length,
-  );
-  newWinNode.insertSubnode(insertIdx, node);
 
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver',
-    idMVC: node.idMVC,
-    parameters: ['onNodeMoved'],
-    parentsUpdateData: computeParentUpdatesToRoot(newWinNode),
-  });
+  // Chrome moved only this tab: its children stay in the old window,
+  // taking its place there.
+  const oldParent = node.parent;
+  if (oldParent) {
+    const idx = oldParent.subnodes.indexOf(node);
+    [...node.subnodes].forEach((child, i) => {
+      session.treeModel.moveNode(child, {
+        containerIdMVC: oldParent.idMVC,
+        position: idx + 1 + i,
+      });
+      notifyNodeMoved(bridge, child, node);
+    });
+  }
+  moveToStripIndex(session.treeModel, newWinNode, node, attachInfo.newPosition);
+  if (oldParent) {
+    notifyNodeMoved(bridge, node, oldParent);
+  } else {
+    notifyNodeInserted(bridge, node);
+  }
 
   session.scheduleSave();
 }
@@ -362,12 +480,17 @@ function handleTabActivated(
   bridge: ViewBridge,
   activeInfo: Browser.tabs.OnActivatedInfo,
 ): void {
-  // Deactivate all tabs in this window, then activate the new one
+  // Deactivate all tabs in this window, then activate the new one. Both
+  // were active until now: that is their last visit, and what
+  // auto-hibernation measures from.
   const winNode = session.treeModel.findActiveWindow(activeInfo.windowId);
   if (!winNode) return;
+  const now = Date.now();
 
-  for (const child of winNode.subnodes) {
-    if (child.type === NodeTypesEnum.TAB && (child.data as TabData).active) {
+  for (const child of windowTabNodes(winNode)) {
+    if ((child.data as TabData).active) {
+      (child as TabTreeNode).lastActivatedAt = now;
+      child.lastVisited = now;
       (child as TabTreeNode).updateChromeData({
         ...(child.data as TabData),
         active: false,
@@ -378,6 +501,8 @@ function handleTabActivated(
 
   const node = session.treeModel.findActiveTab(activeInfo.tabId);
   if (node && node.type === NodeTypesEnum.TAB) {
+    (node as TabTreeNode).lastActivatedAt = now;
+    node.lastVisited = now;
     (node as TabTreeNode).updateChromeData({
       ...(node.data as TabData),
       active: true,
@@ -406,12 +531,7 @@ async function handleTabReplaced(
     const parent = node.parent;
     session.treeModel.removeSubtree(node);
     if (parent) {
-      bridge.broadcast({
-        command: 'msg2view_notifyObserver',
-        idMVC: node.idMVC,
-        parameters: ['onNodeRemoved'],
-        parentsUpdateData: computeParentUpdatesToRoot(parent),
-      });
+      notifyNodeRemoved(bridge, node, parent);
       removeEmptyWindowParent(session, bridge, parent);
     }
     session.scheduleSave();
@@ -465,6 +585,69 @@ async function handleWindowCreated(
   session.scheduleSave();
 }
 
+/**
+ * Mirror a Chrome tab group as a group node under its window. Returns null
+ * when the window isn't tracked (e.g. a DevTools window).
+ */
+function insertTabGroupNode(
+  session: ActiveSession,
+  bridge: ViewBridge,
+  group: ChromeTabGroupData,
+): GroupTreeNode | null {
+  if (group.windowId == null) return null;
+  const winNode = session.treeModel.findActiveWindow(group.windowId);
+  if (!winNode) return null;
+
+  const groupNode = new GroupTreeNode(group);
+  session.treeModel.insertAsLastChild(winNode, groupNode);
+  notifyNodeInserted(bridge, groupNode);
+  return groupNode;
+}
+
+function handleTabGroupCreatedOrUpdated(
+  session: ActiveSession,
+  bridge: ViewBridge,
+  group: ChromeTabGroupData,
+): void {
+  if (group.id == null || group.windowId == null) return;
+  if (tabGroupRestoreWindowIds.has(group.windowId)) return;
+
+  const node = session.treeModel.findActiveTabGroup(group.id);
+  if (node) {
+    (node as GroupTreeNode).updateTabGroupData(group);
+    notifyNodeUpdated(bridge, node);
+  } else if (!insertTabGroupNode(session, bridge, group)) {
+    return;
+  }
+  session.scheduleSave();
+}
+
+function handleTabGroupRemoved(
+  session: ActiveSession,
+  bridge: ViewBridge,
+  group: ChromeTabGroupData,
+): void {
+  if (group.id == null) return;
+  const node = session.treeModel.findActiveTabGroup(group.id);
+  const parent = node?.parent;
+  if (!node || !parent) return;
+
+  if (node.subnodes.length === 0 && !node.isCustomMarksPresent()) {
+    session.treeModel.removeSubtree(node);
+    notifyNodeRemoved(bridge, node, parent);
+    removeEmptyWindowParent(session, bridge, parent);
+  } else {
+    // Still holding tabs: the window is closing (its tabs are kept until
+    // onWindowRemoved) or the user dragged nodes into it. Keep the group
+    // with its title and color, unbound from the dead Chrome ID.
+    const saved = (node as GroupTreeNode).cloneAsSaved();
+    session.treeModel.replaceNode(node, saved);
+    notifyNodeReplaced(bridge, saved);
+  }
+
+  session.scheduleSave();
+}
+
 /**
  * Convert an active window node (and its active tab children) to saved.
  *
@@ -473,8 +656,8 @@ async function handleWindowCreated(
  * save scheduling, close-tracker recording, and Chrome API calls.
  *
  * NOTE: Individual child replacements emit onMutation events but are not
- * broadcast to the view. The caller is expected to issue a single
- * onWindowClosed broadcast that triggers a full tree refresh.
+ * broadcast to the view. The caller is expected to notify the window's
+ * replacement once, which carries the converted children along.
  */
 export function convertWindowToSaved(
   model: TreeModel,
@@ -489,13 +672,26 @@ export function convertWindowToSaved(
 
   // Convert all active tabs to saved before replacing the window.
   // Clear active/focused so saved nodes don't inherit the
-  // "selected tab" highlight from Chrome runtime state.
+  // "selected tab" highlight from Chrome runtime state; wasActive
+  // remembers the tab for a later restore of the whole window.
+  for (const child of windowTabNodes(node)) {
+    const tabData = child.data as TabData;
+    const savedTab = new SavedTabTreeNode({
+      ...tabData,
+      active: false,
+      wasActive: tabData.active,
+    });
+    savedTab.copyMarksAndCollapsedFrom(child);
+    model.replaceNode(child, savedTab);
+  }
+
+  // Tab groups keep their title and color so a restore can recreate them.
   for (const child of [...node.subnodes]) {
-    if (child.type === NodeTypesEnum.TAB) {
-      const tabData = child.data as TabData;
-      const savedTab = new SavedTabTreeNode({ ...tabData, active: false });
-      savedTab.copyMarksAndCollapsedFrom(child);
-      model.replaceNode(child, savedTab);
+    if (
+      child.type === NodeTypesEnum.GROUP &&
+      (child as GroupTreeNode).tabGroupId != null
+    ) {
+      model.replaceNode(child, (child as GroupTreeNode).cloneAsSaved());
     }
   }
 
@@ -512,13 +708,8 @@ function handleWindowRemoved(
   if (!node) return;
 
   const saved = convertWindowToSaved(session.treeModel, node);
-
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver',
-    idMVC: node.idMVC,
-    parameters: ['onWindowClosed'],
-    parentsUpdateData: computeParentUpdatesToRoot(saved),
-  });
+  notifyNodeReplaced(bridge, saved);
+  organizeSavedWindow(session, bridge, saved);
 
   session.scheduleSave();
 }
@@ -545,34 +736,112 @@ function handleWindowFocusChanged(
   session.scheduleSave();
 }
 
-// -- Notification helpers --
-
-function notifyNodeInserted(bridge: ViewBridge, node: TreeNode): void {
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver_onNodeUpdated',
-    idMVC: node.idMVC,
-    modelDataCopy: toNodeDTO(node),
+/**
+ * Keep the window's last bounds and state current so closing it saves
+ * where it was — restores reopen it there. Nothing visible changes, so no
+ * view notification.
+ */
+function handleWindowBoundsChanged(
+  session: ActiveSession,
+  win: ChromeWindowData,
+): void {
+  if (win.id == null) return;
+  const winNode = session.treeModel.findActiveWindow(win.id);
+  if (!winNode) return;
+  (winNode as WindowTreeNode).updateChromeData({
+    ...(winNode.data as WindowData),
+    rect: win.rect,
+    state: win.state,
   });
+  session.scheduleSave();
+}
 
-  // Propagate parent state changes (e.g., isSubnodesPresent)
-  if (node.parent) {
-    bridge.broadcast({
-      command: 'msg2view_notifyObserver',
-      idMVC: node.parent.idMVC,
-      parameters: ['onParentUpdated'],
-      parentsUpdateData: computeParentUpdatesToRoot(node.parent),
-    });
+// -- Tab group helpers --
+
+/** Nearest ancestor of `node` mirroring a live tab group, below its window. */
+function enclosingTabGroup(node: TreeNode): GroupTreeNode | null {
+  for (
+    let p = node.parent;
+    p && p.type !== NodeTypesEnum.WINDOW;
+    p = p.parent
+  ) {
+    if (
+      p.type === NodeTypesEnum.GROUP &&
+      (p as GroupTreeNode).tabGroupId != null
+    ) {
+      return p as GroupTreeNode;
+    }
   }
+  return null;
+}
+
+/**
+ * Active tab nodes anywhere inside a window — nested under other tabs or
+ * inside its tab groups — in tree order, which mirrors the tab strip.
+ * The `exclude` subtree is left out.
+ */
+function windowTabNodes(winNode: TreeNode, exclude?: TreeNode): TreeNode[] {
+  const tabs: TreeNode[] = [];
+  const visit = (parent: TreeNode) => {
+    for (const child of parent.subnodes) {
+      if (child === exclude) continue;
+      if (child.type === NodeTypesEnum.TAB) tabs.push(child);
+      visit(child);
+    }
+  };
+  visit(winNode);
+  return tabs;
 }
 
-function notifyNodeUpdated(bridge: ViewBridge, node: TreeNode): void {
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver_onNodeUpdated',
-    idMVC: node.idMVC,
-    modelDataCopy: toNodeDTO(node),
+/**
+ * Move a tab node so it follows the tab in front of it in the strip: as
+ * that tab's first child when it has children (keeping tree order equal
+ * to strip order), otherwise as its next sibling. A tab landing behind a
+ * tab group goes after the group node. `index` is the strip position with
+ * the node's own subtree taken out, as Chrome reports it.
+ */
+function moveToStripIndex(
+  model: TreeModel,
+  winNode: TreeNode,
+  node: TreeNode,
+  index: number,
+): void {
+  const tabs = windowTabNodes(winNode, node);
+  const prev = index > 0 ? tabs[Math.min(index, tabs.length) - 1] : undefined;
+  if (!prev) {
+    moveNodeTo(model, node, winNode, 0);
+    return;
+  }
+  const anchor = enclosingTabGroup(prev) ?? prev;
+  const container = anchor.parent;
+  if (anchor === prev && prev.subnodes.some((child) => child !== node)) {
+    moveNodeTo(model, node, prev, 0);
+  } else if (container) {
+    const siblings = container.subnodes.filter((child) => child !== node);
+    moveNodeTo(model, node, container, siblings.indexOf(anchor) + 1);
+  }
+}
+
+/**
+ * Move `node` through the model to end up at `index` among `parent`'s
+ * children (counted without the node itself).
+ */
+function moveNodeTo(
+  model: TreeModel,
+  node: TreeNode,
+  parent: TreeNode,
+  index: number,
+): void {
+  // moveNode takes a position counted with the source still present.
+  const from = node.parent === parent ? parent.subnodes.indexOf(node) : -1;
+  model.moveNode(node, {
+    containerIdMVC: parent.idMVC,
+    position: from >= 0 && from < index ? index + 1 : index,
   });
 }
 
+// -- Notification helpers --
+
 /**
  * Remove a window/saved-window parent that has become empty and has no marks.
  * Called after a child is removed to clean up orphan window headers.
@@ -593,12 +862,5 @@ export function removeEmptyWindowParent(
 
   const grandparent = parent.parent;
   session.treeModel.removeSubtree(parent);
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver',
-    idMVC: parent.idMVC,
-    parameters: ['onNodeRemoved'],
-    parentsUpdateData: grandparent
-      ? computeParentUpdatesToRoot(grandparent)
-      : undefined,
-  });
+  if (grandparent) notifyNodeRemoved(bridge, parent, grandparent);
 }
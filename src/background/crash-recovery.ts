@@ -1,24 +1,28 @@
 /**
  * Crash recovery — correlate persisted tree with live Chrome state.
  *
- * On startup, the persisted tree may reference Chrome windows/tabs
- * that no longer exist (browser crash, Chrome update, etc.). This
+ * On startup, the persisted tree may reference Chrome windows/tabs/tab
+ * groups that no longer exist (browser crash, Chrome update, etc.). This
  * module walks the tree and:
  * 1. Converts active nodes whose Chrome entity no longer exists → saved
- * 2. Creates new nodes for Chrome windows/tabs not in the tree
+ * 2. Creates new nodes for Chrome windows/tabs/tab groups not in the tree
  */
 
 import type { TreeModel } from '@/tree/tree-model';
 import { TreeNode } from '@/tree/tree-node';
 import { NodeTypesEnum } from '@/types/enums';
 import type { TabData, WindowData } from '@/types/node-data';
-import type { ChromeTabData } from '@/types/chrome';
+import type { ChromeTabData, ChromeTabGroupData } from '@/types/chrome';
+import type { AppSettings } from '@/types/settings';
 import { TabTreeNode } from '@/tree/nodes/tab-node';
 import { WindowTreeNode } from '@/tree/nodes/window-node';
 import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
 import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
 import { queryWindows } from '@/chrome/windows';
 import { queryTabs, isExtensionUrl } from '@/chrome/tabs';
+import { queryTabGroups, TAB_GROUP_ID_NONE } from '@/chrome/tab-groups';
+import { findOpenerNode } from './tab-opener';
 
 export interface RecoveryResult {
   readonly recoveredCount: number;
@@ -26,18 +30,27 @@ export interface RecoveryResult {
   readonly cleanedCount: number;
 }
 
+export type RecoveryOptions = Partial<
+  Pick<AppSettings, 'relateNewTabToOpener'>
+>;
+
 /**
  * Correlate persisted tree with current Chrome state.
  *
- * - Active nodes whose Chrome tab/window no longer exists → convert to saved
- * - Chrome tabs/windows with no tree node → create new nodes
+ * - Active nodes whose Chrome tab/window/tab group no longer exists →
+ *   convert to saved
+ * - Chrome tabs/windows with no tree node → create new nodes, nesting
+ *   grouped tabs under a node for their tab group and, with
+ *   `relateNewTabToOpener`, tabs under the tab they were opened from
  */
 export async function synchronizeTreeWithChrome(
   model: TreeModel,
+  options: RecoveryOptions = {},
 ): Promise<RecoveryResult> {
-  const [chromeWindows, chromeTabs] = await Promise.all([
+  const [chromeWindows, chromeTabs, chromeTabGroups] = await Promise.all([
     queryWindows(),
     queryTabs({}),
+    queryTabGroups(),
   ]);
 
   const liveWindowIds = new Set(
@@ -46,6 +59,10 @@ export async function synchronizeTreeWithChrome(
   const liveTabIds = new Set(
     chromeTabs.map((t) => t.id).filter((id): id is number => id != null),
   );
+  const liveTabGroups = new Map<number, ChromeTabGroupData>();
+  for (const group of chromeTabGroups) {
+    if (group.id != null) liveTabGroups.set(group.id, group);
+  }
 
   let recoveredCount = 0;
   let newCount = 0;
@@ -53,6 +70,7 @@ export async function synchronizeTreeWithChrome(
   // Phase 1: Convert orphaned active nodes → saved
   const orphanedWindows = collectOrphanedWindows(model, liveWindowIds);
   const orphanedTabs = collectOrphanedTabs(model, liveTabIds);
+  const orphanedTabGroups = collectOrphanedTabGroups(model, liveTabGroups);
 
   for (const node of orphanedWindows) {
     const windowData = node.data as WindowData;
@@ -67,12 +85,20 @@ export async function synchronizeTreeWithChrome(
 
   for (const node of orphanedTabs) {
     const tabData = node.data as TabData;
-    const saved = new SavedTabTreeNode(tabData);
+    const saved = new SavedTabTreeNode({
+      ...tabData,
+      wasActive: tabData.active,
+    });
     saved.copyMarksAndCollapsedFrom(node);
     model.replaceNode(node, saved);
     recoveredCount++;
   }
 
+  for (const node of orphanedTabGroups) {
+    model.replaceNode(node, node.cloneAsSaved());
+    recoveredCount++;
+  }
+
   // Phase 1b: Remove extension's own tab nodes that leaked into the tree
   let cleanedCount = 0;
   const extNodes: TreeNode[] = [];
@@ -123,6 +149,27 @@ export async function synchronizeTreeWithChrome(
     }
   }
 
+  // Grouped tabs go under the node for their tab group, created on first
+  // use. Chrome lists tabs in strip order, so an opener opened in the same
+  // session is already in the tree by the time its tabs come up.
+  const containerFor = (winNode: TreeNode, tab: ChromeTabData): TreeNode => {
+    const opener = options.relateNewTabToOpener
+      ? findOpenerNode(model, tab)
+      : null;
+    if (opener) return opener;
+    const group =
+      tab.groupId != null && tab.groupId !== TAB_GROUP_ID_NONE
+        ? liveTabGroups.get(tab.groupId)
+        : undefined;
+    if (group?.id == null) return winNode;
+    const existing = model.findActiveTabGroup(group.id);
+    if (existing) return existing;
+    const groupNode = new GroupTreeNode(group);
+    model.insertAsLastChild(winNode, groupNode);
+    newCount++;
+    return groupNode;
+  };
+
   for (const win of chromeWindows) {
     if (win.id == null) continue;
     if (!treeWindowIds.has(win.id)) {
@@ -141,7 +188,7 @@ export async function synchronizeTreeWithChrome(
 
       for (const tab of tabs) {
         const tabNode = new TabTreeNode(tab as TabData);
-        model.insertAsLastChild(winNode, tabNode);
+        model.insertAsLastChild(containerFor(winNode, tab), tabNode);
         newCount++;
       }
     } else {
@@ -151,7 +198,7 @@ export async function synchronizeTreeWithChrome(
       const tabs = tabsByWindow.get(win.id) ?? [];
       for (const tab of tabs) {
         const tabNode = new TabTreeNode(tab as TabData);
-        model.insertAsLastChild(winNode, tabNode);
+        model.insertAsLastChild(containerFor(winNode, tab), tabNode);
         newCount++;
       }
       tabsByWindow.delete(win.id);
@@ -194,3 +241,20 @@ function collectOrphanedTabs(
   });
   return orphaned;
 }
+
+/** Find tab group nodes whose Chrome tab group no longer exists. */
+function collectOrphanedTabGroups(
+  model: TreeModel,
+  liveTabGroups: Map<number, ChromeTabGroupData>,
+): GroupTreeNode[] {
+  const orphaned: GroupTreeNode[] = [];
+  model.forEach((node) => {
+    if (node.type === NodeTypesEnum.GROUP) {
+      const groupId = (node as GroupTreeNode).tabGroupId;
+      if (groupId != null && !liveTabGroups.has(groupId)) {
+        orphaned.push(node as GroupTreeNode);
+      }
+    }
+  });
+  return orphaned;
+}
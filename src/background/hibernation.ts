@@ -0,0 +1,105 @@
+/**
+ * Hibernation — unloading live tabs to free memory without closing them.
+ *
+ * A hibernated tab is discarded: it stays open in its window and in the
+ * tree (as a sleeping row) and reloads when next focused. The hibernate
+ * action does this for a window or subtree on demand.
+ *
+ * AutoHibernateScheduler applies the auto-hibernate policy: an alarm ticks
+ * every AUTO_HIBERNATE_CHECK_PERIOD_MINUTES and discards the tabs that
+ * haven't been active for the configured number of minutes (by Chrome's
+ * `lastAccessed`), except pinned and audible ones. Each tick reads the session's current settings, so
+ * changes made on the options page apply without re-arming anything.
+ */
+
+import { createAlarm, onAlarm, clearAlarm } from '@/chrome/alarms';
+import { discardTab, queryTabs } from '@/chrome/tabs';
+import type { TabTreeNode } from '@/tree/nodes/tab-node';
+import { NodeTypesEnum } from '@/types/enums';
+import type { ActiveSession } from './active-session';
+
+export const AUTO_HIBERNATE_ALARM = 'tabs-outliner-auto-hibernate';
+const AUTO_HIBERNATE_CHECK_PERIOD_MINUTES = 5;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Discard the given tabs. Active tabs (Chrome won't discard them) and tabs
+ * already asleep are skipped, and a tab that fails is logged without
+ * stopping the rest. Returns how many tabs were discarded.
+ *
+ * The tree follows through onUpdated, which flips each node to sleeping.
+ */
+export async function hibernateTabs(
+  tabs: readonly TabTreeNode[],
+): Promise<number> {
+  let count = 0;
+  for (const tab of tabs) {
+    const { id, active, discarded } = tab.chromeTabObj;
+    if (id == null || active || discarded) continue;
+    try {
+      if (await discardTab(id)) count++;
+    } catch (err) {
+      console.warn(`[hibernation] Failed to discard tab ${id}:`, err);
+    }
+  }
+  return count;
+}
+
+export class AutoHibernateScheduler {
+  private readonly _session: Pick<ActiveSession, 'treeModel' | 'settings'>;
+  private _cleanupAlarm: (() => void) | null = null;
+
+  constructor(session: Pick<ActiveSession, 'treeModel' | 'settings'>) {
+    this._session = session;
+  }
+
+  start(): void {
+    createAlarm(AUTO_HIBERNATE_ALARM, AUTO_HIBERNATE_CHECK_PERIOD_MINUTES);
+    this._cleanupAlarm = onAlarm(AUTO_HIBERNATE_ALARM, () => {
+      this.runIfDue().catch((err: unknown) => {
+        console.error('[AutoHibernateScheduler] Scheduled check failed:', err);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this._cleanupAlarm) {
+      this._cleanupAlarm();
+      this._cleanupAlarm = null;
+    }
+    await clearAlarm(AUTO_HIBERNATE_ALARM);
+  }
+
+  /**
+   * Discard every tab idle for longer than the configured limit, if
+   * auto-hibernation is on. Returns how many tabs were discarded.
+   */
+  async runIfDue(now: number = Date.now()): Promise<number> {
+    const { autoHibernateTabs, autoHibernateAfterMinutes } =
+      this._session.settings;
+    if (!autoHibernateTabs) return 0;
+    const idleMs = autoHibernateAfterMinutes * MINUTE_MS;
+
+    // Ask Chrome rather than the tree which tabs are pinned or playing
+    // audio: audibility changes constantly and isn't mirrored in the tree.
+    const candidates = await queryTabs({
+      active: false,
+      pinned: false,
+      audible: false,
+      discarded: false,
+    });
+    const due: TabTreeNode[] = [];
+    for (const tab of candidates) {
+      if (tab.id == null) continue;
+      const node = this._session.treeModel.findActiveTab(tab.id);
+      if (node?.type !== NodeTypesEnum.TAB) continue;
+      const tabNode = node as TabTreeNode;
+      // Chrome's lastAccessed survives a service-worker or browser
+      // restart; the node's own timestamp restarts with it, and only
+      // stands in on browsers that don't report lastAccessed.
+      const lastActive = tab.lastAccessed ?? tabNode.lastActivatedAt;
+      if (now - lastActive >= idleMs) due.push(tabNode);
+    }
+    return hibernateTabs(due);
+  }
+}
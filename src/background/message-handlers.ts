@@ -23,19 +23,56 @@ import type {
   Req_CreateWindow,
   Req_CreateGroup,
   Req_CreateSeparator,
+  Req_RestoreSnapshot,
+  Req_AddNote,
+  Req_CloseAllWindowsExceptThis,
+  Req_MoveHierarchies,
+  Req_CopyHierarchies,
+  Req_ActivateHoveringMenuActionOnNodes,
+  Req_RestoreNodes,
+  Req_MoveHierarchiesToNewGroup,
+  Req_FindDuplicates,
+  Req_MergeDuplicates,
+  Req_SortSubnodes,
+  Req_GroupSubnodesByDomain,
+  Req_PreviewOrganizeRules,
+  Req_RevealNode,
+  Req_SearchTree,
 } from '@/types/messages';
 import type { MvcId } from '@/types/brands';
+import type { SortDirection, SortKey } from '@/types/sort';
 import type { ActiveSession } from './active-session';
 import type { ViewBridge } from './view-bridge';
-import { toNodeDTO, computeParentUpdatesToRoot } from '@/tree/dto';
-import { focusTab, createTab, removeTab, moveTab } from '@/chrome/tabs';
+import {
+  notifyNodeInserted,
+  notifyNodeMoved,
+  notifyNodeRemoved,
+  notifyNodeReplaced,
+  notifyNodeUpdated,
+  notifyMutation,
+} from './tree-deltas';
+import type { MutationRecord } from '@/tree/types';
+import { findDuplicateGroups } from '@/tree/duplicates';
+import { findSearchMatches } from '@/tree/search';
+import { groupedByDomain, sortedSubnodes } from '@/tree/sort';
+import { previewOrganizeRules } from '@/tree/organize';
+import {
+  focusTab,
+  createTab,
+  removeTab,
+  moveTab,
+  updateTab,
+  discardTab,
+} from '@/chrome/tabs';
 import {
   focusWindow,
   getWindow,
   removeWindow,
   createWindowWithUrl,
+  createWindowWithUrls,
   createWindowFromTab,
 } from '@/chrome/windows';
+import { groupTabs, updateTabGroup } from '@/chrome/tab-groups';
 import { TreeNode } from '@/tree/tree-node';
 import { TabTreeNode } from '@/tree/nodes/tab-node';
 import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
@@ -44,7 +81,7 @@ import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
 import { GroupTreeNode } from '@/tree/nodes/group-node';
 import { SeparatorTreeNode } from '@/tree/nodes/separator-node';
 import { TextNoteTreeNode } from '@/tree/nodes/text-note-node';
-import type { TabData, WindowData } from '@/types/node-data';
+import type { GroupData, TabData, WindowData } from '@/types/node-data';
 import { NodeTypesEnum } from '@/types/enums';
 import {
   removeEmptyWindowParent,
@@ -52,6 +89,12 @@ import {
 } from './chrome-event-handlers';
 
 import { dndPendingTabIds } from './dnd-state';
+import { tabGroupRestoreWindowIds } from './tab-group-state';
+import { savedWindowCreateProps } from './window-geometry';
+import type { WindowCreateProps } from './window-geometry';
+import { openRestoredUrl, resolveRestoreUrl } from './url-restore';
+import { organizeSavedWindow, organizeTabs } from './auto-organize';
+import { hibernateTabs } from './hibernation';
 
 const ALLOWED_ACTIONS = new Set([
   'addNoteAction',
@@ -59,6 +102,7 @@ const ALLOWED_ACTIONS = new Set([
   'deleteAction',
   'setCursorAction',
   'editTitleAction',
+  'hibernateAction',
 ]);
 
 /** Handle a typed view→background message. */
@@ -85,10 +129,12 @@ export function handleViewMessage(
       break;
 
     case 'request2bkg_invertCollapsedState':
-      handleInvertCollapsedState(
-        (msg as Req_InvertCollapsedState).targetNodeIdMVC,
-        session,
-        bridge,
+      session.undoStack.transaction('Collapse', () =>
+        handleInvertCollapsedState(
+          (msg as Req_InvertCollapsedState).targetNodeIdMVC,
+          session,
+          bridge,
+        ),
       );
       break;
 
@@ -116,7 +162,15 @@ export function handleViewMessage(
     case 'request2bkg_import_tree': {
       const importReq = msg as Req_ImportTree;
       void (async () => {
-        const result = await session.importTree(importReq.treeJson);
+        const result = await session.importTree(
+          importReq.treeJson,
+          importReq.targetParentIdMVC === undefined
+            ? undefined
+            : {
+                parentIdMVC: importReq.targetParentIdMVC,
+                position: importReq.targetPosition ?? -1,
+              },
+        );
         bridge.sendTo(port, {
           command: 'msg2view_importResult',
           success: result.success,
@@ -130,10 +184,63 @@ export function handleViewMessage(
       break;
     }
 
+    case 'request2bkg_restoreSnapshot': {
+      const restoreReq = msg as Req_RestoreSnapshot;
+      void (async () => {
+        const result = await session.restoreSnapshot(restoreReq.snapshotId);
+        bridge.sendTo(port, {
+          command: 'msg2view_snapshotRestoreResult',
+          success: result.success,
+          nodeCount: result.nodeCount,
+          error: result.error,
+        });
+        if (result.success) {
+          bridge.broadcast(session.getInitMessage());
+        }
+      })();
+      break;
+    }
+
+    case 'request2bkg_backupNow':
+      void (async () => {
+        const result = await session.backupNow();
+        bridge.sendTo(port, {
+          command: 'msg2view_backupResult',
+          success: result.success,
+          backupId: result.backupId,
+          error: result.error,
+        });
+      })();
+      break;
+
     case 'request2bkg_export_tree': {
       const exportReq = msg as Req_ExportTree;
-      if (exportReq.format === 'html') {
-        const result = session.exportTreeHtml();
+      if (exportReq.format === 'markdown') {
+        const result = session.exportTreeMarkdown(exportReq.rootIdMVC);
+        bridge.sendTo(port, {
+          command: 'msg2view_exportResult',
+          success: result.success,
+          treeMarkdown: result.treeMarkdown,
+          error: result.error,
+        });
+      } else if (exportReq.format === 'opml') {
+        const result = session.exportTreeOpml(exportReq.rootIdMVC);
+        bridge.sendTo(port, {
+          command: 'msg2view_exportResult',
+          success: result.success,
+          treeOpml: result.treeOpml,
+          error: result.error,
+        });
+      } else if (exportReq.format === 'bookmarks') {
+        const result = session.exportTreeBookmarks(exportReq.rootIdMVC);
+        bridge.sendTo(port, {
+          command: 'msg2view_exportResult',
+          success: result.success,
+          bookmarksHtml: result.bookmarksHtml,
+          error: result.error,
+        });
+      } else if (exportReq.format === 'html') {
+        const result = session.exportTreeHtml(exportReq.rootIdMVC);
         bridge.sendTo(port, {
           command: 'msg2view_exportResult',
           success: result.success,
@@ -141,7 +248,7 @@ export function handleViewMessage(
           error: result.error,
         });
       } else {
-        const result = session.exportTree();
+        const result = session.exportTree(exportReq.rootIdMVC);
         bridge.sendTo(port, {
           command: 'msg2view_exportResult',
           success: result.success,
@@ -154,53 +261,71 @@ export function handleViewMessage(
 
     case 'request2bkg_moveHierarchy': {
       const moveReq = msg as Req_MoveHierarchy;
-      handleMoveHierarchy(
-        moveReq.targetNodeIdMVC,
-        moveReq.containerIdMVC,
-        moveReq.position,
-        session,
-        bridge,
+      session.undoStack.transaction('Move', () =>
+        handleMoveHierarchy(
+          moveReq.targetNodeIdMVC,
+          moveReq.containerIdMVC,
+          moveReq.position,
+          session,
+          bridge,
+        ),
       );
       break;
     }
 
     case 'request2bkg_onOkAfterSetNodeTabTextPrompt':
-      handleApplyNodeTabText(
-        (msg as Req_OnOkAfterSetNodeTabText).targetNodeIdMVC,
-        (msg as Req_OnOkAfterSetNodeTabText).newText,
-        session,
-        bridge,
+      session.undoStack.transaction('Edit title', () =>
+        handleApplyNodeTabText(
+          (msg as Req_OnOkAfterSetNodeTabText).targetNodeIdMVC,
+          (msg as Req_OnOkAfterSetNodeTabText).newText,
+          session,
+          bridge,
+        ),
       );
       break;
 
     case 'request2bkg_onOkAfterSetNodeNoteTextPrompt':
-      handleApplyNodeNoteText(
-        (msg as Req_OnOkAfterSetNodeNoteText).targetNodeIdMVC,
-        (msg as Req_OnOkAfterSetNodeNoteText).newText,
-        session,
-        bridge,
+      session.undoStack.transaction('Edit note', () =>
+        handleApplyNodeNoteText(
+          (msg as Req_OnOkAfterSetNodeNoteText).targetNodeIdMVC,
+          (msg as Req_OnOkAfterSetNodeNoteText).newText,
+          session,
+          bridge,
+        ),
       );
       break;
 
     case 'request2bkg_onOkAfterSetNodeWindowTextPrompt':
-      handleApplyNodeWindowText(
-        (msg as Req_OnOkAfterSetNodeWindowText).targetNodeIdMVC,
-        (msg as Req_OnOkAfterSetNodeWindowText).newText,
-        session,
-        bridge,
+      session.undoStack.transaction('Edit title', () =>
+        handleApplyNodeWindowText(
+          (msg as Req_OnOkAfterSetNodeWindowText).targetNodeIdMVC,
+          (msg as Req_OnOkAfterSetNodeWindowText).newText,
+          session,
+          bridge,
+        ),
       );
       break;
 
     case 'request2bkg_copyHierarchy':
-      handleCopyHierarchy(
-        (msg as Req_CopyHierarchy).sourceIdMVC,
-        (msg as Req_CopyHierarchy).targetParentIdMVC,
-        (msg as Req_CopyHierarchy).targetPosition,
-        session,
-        bridge,
+      session.undoStack.transaction('Paste', () =>
+        handleCopyHierarchy(
+          (msg as Req_CopyHierarchy).sourceIdMVC,
+          (msg as Req_CopyHierarchy).targetParentIdMVC,
+          (msg as Req_CopyHierarchy).targetPosition,
+          session,
+          bridge,
+        ),
       );
       break;
 
+    case 'request2bkg_undo':
+      handleUndoRedo('undo', session, bridge);
+      break;
+
+    case 'request2bkg_redo':
+      handleUndoRedo('redo', session, bridge);
+      break;
+
     case 'request2bkg_createWindow':
       handleCreateNode(
         session,
@@ -228,29 +353,172 @@ export function handleViewMessage(
       );
       break;
 
-    // -- Deferred handlers (stubbed for later epics) --
-
-    case 'request2bkg_performDrop':
-    case 'request2bkg_deleteHierarchy':
-    case 'request2bkg_communicateDragStartDataToOtherViews':
-      console.warn(
-        `[message-handlers] Deferred handler: ${msg.request} (Epic 8)`,
-      );
-      break;
-
     case 'request2bkg_addNoteAsNextSiblingOfCurrentNode':
     case 'request2bkg_addNoteAsLastSubnodeOfCurrentNode':
     case 'request2bkg_addNoteAsParentOfCurrentNode':
     case 'request2bkg_addNoteAsFirstSubnodeOfCurrentNode':
     case 'request2bkg_addNoteAsPrevSiblingOfCurrentNode':
-    case 'request2bkg_addNoteAtTheEndOfTree':
-      console.warn(
-        `[message-handlers] Deferred handler: ${msg.request} (future epic)`,
+    case 'request2bkg_addNoteAtTheEndOfTree': {
+      const addReq = msg as Req_AddNote;
+      session.undoStack.transaction('Add note', () =>
+        handleAddNote(
+          addReq.request,
+          addReq.targetNodeIdMVC,
+          port,
+          session,
+          bridge,
+        ),
       );
       break;
+    }
 
     case 'request2bkg_closeAllWindowsExceptThis':
-      console.warn(`[message-handlers] Deferred handler: ${msg.request}`);
+      handleCloseAllWindowsExceptThis(
+        msg as Req_CloseAllWindowsExceptThis,
+        port,
+        session,
+        bridge,
+      );
+      break;
+
+    case 'request2bkg_moveHierarchies': {
+      const moveReq = msg as Req_MoveHierarchies;
+      session.undoStack.transaction('Move', () =>
+        handleMoveHierarchies(
+          moveReq.targetNodeIdsMVC,
+          moveReq.containerIdMVC,
+          moveReq.position,
+          session,
+          bridge,
+        ),
+      );
+      break;
+    }
+
+    case 'request2bkg_copyHierarchies': {
+      const copyReq = msg as Req_CopyHierarchies;
+      session.undoStack.transaction('Paste', () =>
+        handleCopyHierarchies(
+          copyReq.sourceIdsMVC,
+          copyReq.targetParentIdMVC,
+          copyReq.targetPosition,
+          session,
+          bridge,
+        ),
+      );
+      break;
+    }
+
+    case 'request2bkg_activateHoveringMenuActionOnNodes': {
+      const action = msg as Req_ActivateHoveringMenuActionOnNodes;
+      handleBulkHoveringMenuAction(
+        action.targetNodeIdsMVC,
+        action.actionId,
+        session,
+        bridge,
+      );
+      break;
+    }
+
+    case 'request2bkg_restoreNodes':
+      void handleRestoreNodes(
+        (msg as Req_RestoreNodes).targetNodeIdsMVC,
+        session,
+        bridge,
+      );
+      break;
+
+    case 'request2bkg_moveHierarchiesToNewGroup':
+      session.undoStack.transaction('Group', () =>
+        handleMoveToNewGroup(
+          (msg as Req_MoveHierarchiesToNewGroup).targetNodeIdsMVC,
+          session,
+          bridge,
+        ),
+      );
+      break;
+
+    case 'request2bkg_findDuplicates':
+      bridge.sendTo(port, {
+        command: 'msg2view_duplicatesResult',
+        groups: findDuplicateGroups(
+          session.treeModel,
+          (msg as Req_FindDuplicates).options,
+        ),
+      });
+      break;
+
+    case 'request2bkg_searchTree': {
+      const { query } = msg as Req_SearchTree;
+      bridge.sendTo(port, {
+        command: 'msg2view_searchResult',
+        query,
+        matchIds: findSearchMatches(session.treeModel, query),
+      });
+      break;
+    }
+
+    case 'request2bkg_mergeDuplicates': {
+      const mergeReq = msg as Req_MergeDuplicates;
+      handleMergeDuplicates(
+        mergeReq.keepIdMVC,
+        mergeReq.removeIdsMVC,
+        session,
+        bridge,
+      );
+      break;
+    }
+
+    case 'request2bkg_revealNode':
+      handleRevealNode(
+        (msg as Req_RevealNode).targetNodeIdMVC,
+        session,
+        bridge,
+      );
+      break;
+
+    case 'request2bkg_sortSubnodes': {
+      const sortReq = msg as Req_SortSubnodes;
+      session.undoStack.transaction('Sort', () =>
+        handleSortSubnodes(
+          sortReq.targetNodeIdMVC,
+          sortReq.by,
+          sortReq.direction,
+          session,
+          bridge,
+        ),
+      );
+      break;
+    }
+
+    case 'request2bkg_groupSubnodesByDomain':
+      session.undoStack.transaction('Group by domain', () =>
+        handleGroupSubnodesByDomain(
+          (msg as Req_GroupSubnodesByDomain).targetNodeIdMVC,
+          session,
+          bridge,
+        ),
+      );
+      break;
+
+    case 'request2bkg_previewOrganizeRules':
+      bridge.sendTo(port, {
+        command: 'msg2view_organizePreviewResult',
+        entries: previewOrganizeRules(
+          session.treeModel,
+          (msg as Req_PreviewOrganizeRules).rules,
+        ),
+      });
+      break;
+
+    // -- Deferred handlers (stubbed for later epics) --
+
+    case 'request2bkg_performDrop':
+    case 'request2bkg_deleteHierarchy':
+    case 'request2bkg_communicateDragStartDataToOtherViews':
+      console.warn(
+        `[message-handlers] Deferred handler: ${msg.request} (Epic 8)`,
+      );
       break;
 
     default:
@@ -275,17 +543,6 @@ function handleGetTreeStructure(
   }
 }
 
-/** Check if a URL is safe to restore (http/https only). */
-function isRestorableUrl(url: string | undefined | null): url is string {
-  if (!url) return false;
-  try {
-    const parsed = new URL(url);
-    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Walk the ancestor chain from a saved tab to find which Chrome window
  * it should open in. Returns undefined if no live window is found
@@ -332,6 +589,31 @@ async function findTargetWindowForTab(
   return undefined;
 }
 
+/** Whether `node` is a group node mirroring a (live or saved) tab group. */
+function isTabGroupNode(node: TreeNode | null): node is GroupTreeNode {
+  return node?.type === NodeTypesEnum.GROUP && node.data != null;
+}
+
+/**
+ * Saved tabs a container restores: every saved tab in its subtree —
+ * including those nested under other tabs, notes and tab groups — in tree
+ * (= tab strip) order. Windows inside the container are left alone.
+ */
+function collectSubtreeSavedTabs(container: TreeNode): TreeNode[] {
+  const tabs: TreeNode[] = [];
+  for (const child of container.subnodes) {
+    if (
+      child.type === NodeTypesEnum.WINDOW ||
+      child.type === NodeTypesEnum.SAVEDWINDOW
+    ) {
+      continue;
+    }
+    if (child.type === NodeTypesEnum.SAVEDTAB) tabs.push(child);
+    tabs.push(...collectSubtreeSavedTabs(child));
+  }
+  return tabs;
+}
+
 /** Find a Chrome window ID from an active child tab within a container. */
 function findActiveWindowIdInChildren(container: TreeNode): number | undefined {
   for (const child of container.subnodes) {
@@ -344,26 +626,75 @@ function findActiveWindowIdInChildren(container: TreeNode): number | undefined {
 }
 
 /**
- * Restore a single saved tab: create Chrome tab, clean up duplicates,
- * replace the saved node with an active one. Returns the resulting
- * window ID and parent node, or null if the restore was skipped.
+ * Properties for a window opened by a restore: the geometry of the saved
+ * window `node` is or sits in when the setting is on, else Chrome's
+ * defaults.
+ */
+async function restoredWindowProps(
+  node: TreeNode,
+  session: ActiveSession,
+): Promise<WindowCreateProps> {
+  if (!session.settings.openSavedWindowsInOriginalPos) return {};
+  for (let n: TreeNode | null = node; n; n = n.parent) {
+    if (n.type === NodeTypesEnum.SAVEDWINDOW) {
+      return savedWindowCreateProps(n.data as WindowData);
+    }
+  }
+  return {};
+}
+
+/**
+ * Restore a single saved tab: create Chrome tab (or a placeholder for a
+ * URL the browser won't open), clean up duplicates, replace the saved node
+ * with an active one. Returns the resulting window ID and parent node, or
+ * null if the restore was skipped.
  */
 async function restoreSavedTab(
   savedNodeIdMVC: string,
   url: string,
+  title: string | undefined,
   targetWindowId: number | undefined,
   session: ActiveSession,
   bridge: ViewBridge,
+  windowProps: WindowCreateProps = {},
 ): Promise<{
   windowId: number | undefined;
+  tabId: number | undefined;
   tabParent: TreeNode | null;
 } | null> {
-  const chromeTabData =
+  const chromeTabData = await openRestoredUrl(url, title, (target) =>
     targetWindowId != null
-      ? await createTab({ url, windowId: targetWindowId })
-      : await createWindowWithUrl(url);
+      ? createTab({ url: target, windowId: targetWindowId })
+      : createWindowWithUrl(target, windowProps),
+  );
+
+  const activeTabNode = replaceSavedTabWithLive(
+    savedNodeIdMVC,
+    chromeTabData,
+    session,
+    bridge,
+  );
+  if (!activeTabNode) return null;
+
+  return {
+    windowId: chromeTabData.windowId,
+    tabId: chromeTabData.id,
+    tabParent: activeTabNode.parent,
+  };
+}
 
-  // Chrome fires onTabCreated before this await resolves, so
+/**
+ * Replace a saved tab node with an active one for the Chrome tab just
+ * opened from it, keeping its position, children, marks and collapsed
+ * state. Returns null if the saved node went away during the async gap.
+ */
+function replaceSavedTabWithLive(
+  savedNodeIdMVC: string,
+  chromeTabData: TabData,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): TabTreeNode | null {
+  // Chrome fires onTabCreated before the create call resolves, so
   // handleTabCreated may have already inserted a node for this tab ID.
   // Remove the duplicate before we replace the saved node.
   if (chromeTabData.id != null) {
@@ -371,12 +702,7 @@ async function restoreSavedTab(
     if (duplicate?.parent) {
       const dupParent = duplicate.parent;
       session.treeModel.removeSubtree(duplicate);
-      bridge.broadcast({
-        command: 'msg2view_notifyObserver',
-        idMVC: duplicate.idMVC,
-        parameters: ['onNodeRemoved'],
-        parentsUpdateData: computeParentUpdatesToRoot(dupParent),
-      });
+      notifyNodeRemoved(bridge, duplicate, dupParent);
       removeEmptyWindowParent(session, bridge, dupParent);
     }
   }
@@ -385,25 +711,195 @@ async function restoreSavedTab(
   const currentNode = session.treeModel.findByMvcId(savedNodeIdMVC as MvcId);
   if (!currentNode || currentNode.type !== NodeTypesEnum.SAVEDTAB) return null;
 
-  const activeTabNode = new TabTreeNode(chromeTabData as TabData);
+  const activeTabNode = new TabTreeNode(chromeTabData);
   activeTabNode.restoredFromSaved = true;
   activeTabNode.copyMarksAndCollapsedFrom(currentNode);
-  const tabParent = currentNode.parent;
-  if (!tabParent) return null;
+  if (!currentNode.parent) return null;
   session.treeModel.replaceNode(currentNode, activeTabNode);
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver',
-    idMVC: activeTabNode.idMVC,
-    parameters: ['onNodeReplaced'],
-    parentsUpdateData: computeParentUpdatesToRoot(tabParent),
+  notifyNodeReplaced(bridge, activeTabNode);
+  return activeTabNode;
+}
+
+/** A tab opened by restoreContainer and the saved data it came from. */
+interface RestoredTab {
+  readonly tabId: number;
+  readonly saved: TabData;
+}
+
+/**
+ * Restore a saved window or group in one go: every saved tab in its
+ * subtree opens in a single new window (or the window one of its tabs is
+ * already live in), in tree order, and each saved node is replaced in
+ * place by a live one. The tabs get their saved pinned, muted and active
+ * state back, then a saved window is promoted to a live one. Returns
+ * whether there was anything to restore.
+ */
+async function restoreContainer(
+  container: TreeNode,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): Promise<boolean> {
+  const savedTabs = collectSubtreeSavedTabs(container).flatMap((node) => {
+    const data = node.data as TabData;
+    return data.url ? [{ idMVC: node.idMVC, data, url: data.url }] : [];
+  });
+  if (savedTabs.length === 0) return false;
+
+  // Reuse an existing live window if any sibling tab is already active.
+  const liveWindowId = findActiveWindowIdInChildren(container);
+  let created: TabData[];
+  if (liveWindowId != null) {
+    created = [];
+    for (const { url, data } of savedTabs) {
+      created.push(
+        await openRestoredUrl(url, data.title, (target) =>
+          createTab({ url: target, windowId: liveWindowId, active: false }),
+        ),
+      );
+    }
+  } else {
+    const urls = await Promise.all(
+      savedTabs.map(({ url, data }) => resolveRestoreUrl(url, data.title)),
+    );
+    created = await createWindowWithUrls(
+      urls,
+      await restoredWindowProps(container, session),
+    );
+  }
+
+  const restored: RestoredTab[] = [];
+  created.forEach((tab, i) => {
+    const savedTab = savedTabs[i];
+    if (!savedTab || tab.id == null) return;
+    if (replaceSavedTabWithLive(savedTab.idMVC, tab, session, bridge)) {
+      restored.push({ tabId: tab.id, saved: savedTab.data });
+    }
   });
+  await restoreSavedTabState(
+    restored,
+    liveWindowId == null,
+    session.settings.restoreTabsDiscarded,
+  );
+
+  const windowId = liveWindowId ?? created[0]?.windowId;
+  const current = session.treeModel.findByMvcId(container.idMVC);
+  await promoteSavedWindowToActive(current, windowId, session, bridge);
+  if (current?.type === NodeTypesEnum.GROUP && windowId != null) {
+    await restoreTabGroupsIn(current, windowId, session, bridge);
+    await restoreTabGroup(current, windowId, session, bridge);
+  }
+  return true;
+}
+
+/**
+ * Give restored tabs back the pinned, muted and active state they were
+ * saved with. With `discard`, every tab but the active one is unloaded so
+ * a large window doesn't load all of its tabs at once; without it, only
+ * the tabs that were asleep when saved are. Chrome makes the
+ * first tab of a new window active unless another one was saved active.
+ */
+async function restoreSavedTabState(
+  restored: readonly RestoredTab[],
+  inNewWindow: boolean,
+  discard: boolean,
+): Promise<void> {
+  const active =
+    restored.find((r) => r.saved.wasActive) ??
+    (inNewWindow ? restored[0] : undefined);
+  // Activate first: Chrome won't discard the tab that is still active.
+  const ordered = active
+    ? [active, ...restored.filter((r) => r !== active)]
+    : restored;
+  for (const r of ordered) {
+    const props: Browser.tabs.UpdateProperties = {};
+    if (r === active && r.saved.wasActive) props.active = true;
+    if (r.saved.pinned) props.pinned = true;
+    if (r.saved.muted) props.muted = true;
+    if (r.saved.autoDiscardable === false) props.autoDiscardable = false;
+    try {
+      if (Object.keys(props).length > 0) await updateTab(r.tabId, props);
+      if ((discard || r.saved.discarded) && r !== active) {
+        await discardTab(r.tabId);
+      }
+    } catch (err) {
+      console.error('[message-handlers] Failed to restore tab state:', err);
+    }
+  }
+}
+
+/**
+ * Turn the open tabs of a tab group node into a real Chrome tab group: add
+ * them to the live group the node is bound to, or create a group with the
+ * node's title and color and bind the node to it. No-op for other nodes.
+ */
+async function restoreTabGroup(
+  node: TreeNode | null,
+  windowId: number,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): Promise<void> {
+  if (!isTabGroupNode(node)) return;
+  const tabIds = node.subnodes
+    .filter(
+      (child) =>
+        child.type === NodeTypesEnum.TAB &&
+        (child.data as TabData).windowId === windowId,
+    )
+    .map((child) => (child.data as TabData).id)
+    .filter((id): id is number => id != null);
+  if (tabIds.length === 0) return;
+  const tabIdList = tabIds as [number, ...number[]];
+
+  const liveGroupId = node.tabGroupId;
+  tabGroupRestoreWindowIds.add(windowId);
+  try {
+    if (liveGroupId != null) {
+      await groupTabs({ groupId: liveGroupId, tabIds: tabIdList });
+      return;
+    }
+
+    const data = node.data as NonNullable<GroupData>;
+    const groupId = await groupTabs({
+      tabIds: tabIdList,
+      createProperties: { windowId },
+    });
+    await updateTabGroup(groupId, {
+      title: data.title,
+      color: data.color,
+      collapsed: data.collapsed,
+    });
 
-  return { windowId: chromeTabData.windowId, tabParent: activeTabNode.parent };
+    // Re-validate: the node may have been removed during the async gap.
+    const current = session.treeModel.findByMvcId(node.idMVC);
+    const parent = current?.parent;
+    if (!current || !parent) return;
+    const liveGroup = new GroupTreeNode({ ...data, id: groupId, windowId });
+    liveGroup.copyMarksAndCollapsedFrom(current);
+    session.treeModel.replaceNode(current, liveGroup);
+    notifyNodeReplaced(bridge, liveGroup);
+  } catch (err) {
+    console.error('[message-handlers] Failed to restore tab group:', err);
+  } finally {
+    tabGroupRestoreWindowIds.delete(windowId);
+  }
+}
+
+/** Recreate the tab groups among a container's children. */
+async function restoreTabGroupsIn(
+  container: TreeNode,
+  windowId: number,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): Promise<void> {
+  for (const child of [...container.subnodes]) {
+    await restoreTabGroup(child, windowId, session, bridge);
+  }
 }
 
 /**
  * If the given node is a SavedWindowTreeNode, promote it to an active
- * WindowTreeNode using the Chrome window data. No-op for other types.
+ * WindowTreeNode using the Chrome window data, recreating its tab groups.
+ * No-op for other types.
  */
 async function promoteSavedWindowToActive(
   node: TreeNode | null,
@@ -420,14 +916,9 @@ async function promoteSavedWindowToActive(
   const activeWin = new WindowTreeNode(winData as WindowData);
   activeWin.copyMarksAndCollapsedFrom(node);
   session.treeModel.replaceNode(node, activeWin);
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver',
-    idMVC: node.idMVC,
-    parameters: ['onNodeReplaced'],
-    parentsUpdateData: node.parent
-      ? computeParentUpdatesToRoot(node.parent)
-      : undefined,
-  });
+  notifyNodeReplaced(bridge, activeWin);
+
+  await restoreTabGroupsIn(activeWin, windowId, session, bridge);
 }
 
 async function handleActivateNode(
@@ -448,8 +939,8 @@ async function handleActivateNode(
     }
 
     case NodeTypesEnum.SAVEDTAB: {
-      const url = (node.data as TabData).url;
-      if (!url || !isRestorableUrl(url)) break;
+      const { url, title } = node.data as TabData;
+      if (!url) break;
 
       const targetWindowId = await findTargetWindowForTab(node);
 
@@ -457,18 +948,32 @@ async function handleActivateNode(
         const result = await restoreSavedTab(
           targetNodeIdMVC,
           url,
+          title,
           targetWindowId,
           session,
           bridge,
+          targetWindowId == null
+            ? await restoredWindowProps(node, session)
+            : undefined,
         );
         if (!result) break;
 
+        // A tab inside a tab group promotes the window around the group.
+        const { tabParent } = result;
         await promoteSavedWindowToActive(
-          result.tabParent,
+          isTabGroupNode(tabParent) ? tabParent.parent : tabParent,
           result.windowId,
           session,
           bridge,
         );
+        if (result.tabId != null && result.windowId != null) {
+          await restoreTabGroup(
+            session.treeModel.findActiveTab(result.tabId)?.parent ?? null,
+            result.windowId,
+            session,
+            bridge,
+          );
+        }
         session.scheduleSave();
       } catch (err) {
         console.error('[message-handlers] Failed to open saved tab:', err);
@@ -490,41 +995,10 @@ async function handleActivateNode(
 
     case NodeTypesEnum.SAVEDWINDOW:
     case NodeTypesEnum.GROUP: {
-      const savedChildren = node.subnodes.filter(
-        (child) =>
-          child.type === NodeTypesEnum.SAVEDTAB &&
-          isRestorableUrl((child.data as TabData).url),
-      );
-      if (savedChildren.length === 0) break;
-
-      // Reuse an existing live window if any sibling tab is already active.
-      let windowId = findActiveWindowIdInChildren(node);
-
       try {
-        for (const savedChild of savedChildren) {
-          const url = (savedChild.data as TabData).url;
-          if (!url) continue;
-
-          const result = await restoreSavedTab(
-            savedChild.idMVC,
-            url,
-            windowId,
-            session,
-            bridge,
-          );
-          if (!result) continue;
-
-          // Capture window ID from the first tab for subsequent tabs
-          if (windowId == null) windowId = result.windowId;
+        if (await restoreContainer(node, session, bridge)) {
+          session.scheduleSave();
         }
-
-        await promoteSavedWindowToActive(
-          session.treeModel.findByMvcId(targetNodeIdMVC as MvcId),
-          windowId,
-          session,
-          bridge,
-        );
-        session.scheduleSave();
       } catch (err) {
         console.error(
           '[message-handlers] Failed to restore container tabs:',
@@ -550,11 +1024,7 @@ function handleInvertCollapsedState(
 
   session.treeModel.setCollapsed(node, !node.colapsed);
 
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver_onNodeUpdated',
-    idMVC: node.idMVC,
-    modelDataCopy: toNodeDTO(node),
-  });
+  notifyNodeUpdated(bridge, node);
 
   session.scheduleSave();
 }
@@ -576,57 +1046,20 @@ function handleHoveringMenuAction(
   switch (actionId) {
     case 'closeAction': {
       if (node.type === NodeTypesEnum.TAB) {
-        const tabData = node.data as TabData;
-        // Convert to saved BEFORE closing — "Close" preserves the node.
-        // When handleTabRemoved fires, findActiveTab won't find the
-        // saved node, so it no-ops.
-        const saved = new SavedTabTreeNode({ ...tabData, active: false });
-        saved.copyMarksAndCollapsedFrom(node);
-        const oldParent = node.parent;
-        if (oldParent) {
-          session.treeModel.replaceNode(node, saved);
-          bridge.broadcast({
-            command: 'msg2view_notifyObserver',
-            idMVC: saved.idMVC,
-            parameters: ['onNodeReplaced'],
-            parentsUpdateData: computeParentUpdatesToRoot(oldParent),
-          });
-          session.scheduleSave();
-        }
-        if (tabData.id != null) {
-          void removeTab(tabData.id);
-        }
+        if (saveAndCloseTab(node, session, bridge)) session.scheduleSave();
       } else if (node.type === NodeTypesEnum.WINDOW) {
-        const winData = node.data as WindowData;
-
-        // Track all active child tabs for undo-close (F3) BEFORE
-        // conversion — track() reads node.parent which is cleared
-        // by replaceNode.
-        for (const child of node.subnodes) {
-          if (child.type === NodeTypesEnum.TAB) {
-            session.closeTracker.track(child);
-          }
-        }
-
-        // Convert to saved BEFORE closing — matches tab close pattern.
-        // When handleWindowRemoved fires, findActiveWindow won't find the
-        // saved node, so it no-ops.
-        const savedWin = convertWindowToSaved(session.treeModel, node);
-        bridge.broadcast({
-          command: 'msg2view_notifyObserver',
-          idMVC: node.idMVC,
-          parameters: ['onWindowClosed'],
-          parentsUpdateData: computeParentUpdatesToRoot(savedWin),
-        });
+        saveAndCloseWindow(node, session, bridge);
         session.scheduleSave();
-
-        if (winData.id != null) {
-          void removeWindow(winData.id);
-        }
       }
       break;
     }
 
+    case 'hibernateAction': {
+      // The tree follows through onUpdated; nothing to save here.
+      void hibernateTabs(collectActiveTabsInSubtree(node));
+      break;
+    }
+
     case 'deleteAction': {
       const oldParent = node.parent;
 
@@ -643,16 +1076,12 @@ function handleHoveringMenuAction(
         }
       }
 
-      session.treeModel.removeSubtree(node);
-      bridge.broadcast({
-        command: 'msg2view_notifyObserver',
-        idMVC: node.idMVC,
-        parameters: ['onNodeRemoved'],
-        parentsUpdateData: oldParent
-          ? computeParentUpdatesToRoot(oldParent)
-          : undefined,
+      // One undo entry covers the node and the empty window it may leave.
+      session.undoStack.transaction('Delete', () => {
+        session.treeModel.removeSubtree(node);
+        if (oldParent) notifyNodeRemoved(bridge, node, oldParent);
+        removeEmptyWindowParent(session, bridge, oldParent);
       });
-      removeEmptyWindowParent(session, bridge, oldParent);
 
       if (nextCursorId) {
         bridge.broadcast({
@@ -719,11 +1148,7 @@ function handleHoveringMenuAction(
       ) {
         // Separator edit cycles styles rather than showing a text prompt.
         (node as unknown as SeparatorTreeNode).cycleStyle();
-        bridge.broadcast({
-          command: 'msg2view_notifyObserver_onNodeUpdated',
-          idMVC: node.idMVC,
-          modelDataCopy: toNodeDTO(node),
-        });
+        notifyNodeUpdated(bridge, node);
         session.scheduleSave();
       }
       break;
@@ -734,6 +1159,104 @@ function handleHoveringMenuAction(
   }
 }
 
+/**
+ * Replace an active tab node with a saved tab (keeping its position,
+ * marks and collapsed state), then close the Chrome tab. Returns whether
+ * the tree changed.
+ */
+function saveAndCloseTab(
+  node: TreeNode,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): boolean {
+  const tabData = node.data as TabData;
+  // Convert to saved BEFORE closing — "Close" preserves the node.
+  // When handleTabRemoved fires, findActiveTab won't find the
+  // saved node, so it no-ops.
+  const saved = new SavedTabTreeNode({ ...tabData, active: false });
+  saved.copyMarksAndCollapsedFrom(node);
+  const oldParent = node.parent;
+  if (oldParent) {
+    session.treeModel.replaceNode(node, saved);
+    notifyNodeReplaced(bridge, saved);
+    organizeTabs(session, bridge, [saved]);
+  }
+  if (tabData.id != null) {
+    void removeTab(tabData.id);
+  }
+  return oldParent !== null;
+}
+
+/**
+ * Convert an active window node to a saved window in place (keeping its
+ * position, marks and collapsed state), then close the Chrome window.
+ */
+function saveAndCloseWindow(
+  node: TreeNode,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const winData = node.data as WindowData;
+
+  // Track all active child tabs for undo-close (F3) BEFORE
+  // conversion — track() reads node.parent which is cleared
+  // by replaceNode.
+  for (const child of node.subnodes) {
+    if (child.type === NodeTypesEnum.TAB) {
+      session.closeTracker.track(child);
+    }
+  }
+
+  // Convert to saved BEFORE closing — matches tab close pattern.
+  // When handleWindowRemoved fires, findActiveWindow won't find the
+  // saved node, so it no-ops.
+  const savedWin = convertWindowToSaved(session.treeModel, node);
+  notifyNodeReplaced(bridge, savedWin);
+  organizeSavedWindow(session, bridge, savedWin);
+
+  if (winData.id != null) {
+    void removeWindow(winData.id);
+  }
+}
+
+/**
+ * Save and close every active window except the preserved ones: the
+ * requested Chrome window, the requested window node, and the window
+ * hosting the requesting view.
+ */
+function handleCloseAllWindowsExceptThis(
+  msg: Req_CloseAllWindowsExceptThis,
+  port: Browser.runtime.Port,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const keep = new Set<number>();
+  if (msg.preserveWinId != null) keep.add(msg.preserveWinId);
+
+  const senderWindowId = port.sender?.tab?.windowId;
+  if (senderWindowId != null) keep.add(senderWindowId);
+
+  if (msg.preserveIdMVC) {
+    const preserved = session.treeModel.findByMvcId(msg.preserveIdMVC as MvcId);
+    const preservedId =
+      preserved?.type === NodeTypesEnum.WINDOW
+        ? (preserved.data as WindowData).id
+        : undefined;
+    if (preservedId != null) keep.add(preservedId);
+  }
+
+  const targets = session.treeModel.getActiveWindowNodes().filter((node) => {
+    const id = (node.data as WindowData).id;
+    return id != null && !keep.has(id);
+  });
+  if (targets.length === 0) return;
+
+  for (const node of targets) {
+    saveAndCloseWindow(node, session, bridge);
+  }
+  session.scheduleSave();
+}
+
 /**
  * Find the Chrome window ID for a node by walking up to its nearest
  * window-like ancestor. Checks active WINDOW nodes first, then falls
@@ -791,6 +1314,7 @@ function handleMoveHierarchy(
     const root = session.treeModel.root;
     if (!root) return;
     session.treeModel.insertSubnode(root, position, wrapper);
+    notifyNodeInserted(bridge, wrapper);
     containerIdMVC = wrapper.idMVC;
     movePosition = 0;
   }
@@ -819,25 +1343,33 @@ function handleMoveHierarchy(
     console.error('[message-handlers] moveNode failed:', err);
     return;
   }
+  notifyNodeMoved(bridge, source, oldParent);
 
   // If the target container was collapsed, expand it so the moved node
   // is visible (otherwise it appears to disappear).
   const targetParent = source.parent;
   if (targetParent && targetParent.colapsed) {
     session.treeModel.setCollapsed(targetParent, false);
-    bridge.broadcast({
-      command: 'msg2view_notifyObserver_onNodeUpdated',
-      idMVC: targetParent.idMVC,
-      modelDataCopy: toNodeDTO(targetParent),
-    });
+    notifyNodeUpdated(bridge, targetParent);
   }
 
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver',
-    idMVC: source.idMVC,
-    parameters: ['onNodeMoved'],
-    parentsUpdateData: computeParentUpdatesToRoot(oldParent),
-  });
+  moveTabsToWindow(activeTabs, newWindowId, targetParent, session, bridge);
+
+  session.scheduleSave();
+}
+
+/**
+ * Follow a tree move with the Chrome tabs it carried: move them into the
+ * destination's window, or open a window for them when the destination
+ * (a saved window or group) has none and promote the destination to it.
+ */
+function moveTabsToWindow(
+  activeTabs: TabTreeNode[],
+  newWindowId: number | undefined,
+  destination: TreeNode | null,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
   if (activeTabs.length > 0 && newWindowId != null) {
     // Both source and destination have a Chrome window — move tabs directly.
     for (const tab of activeTabs) {
@@ -896,19 +1428,12 @@ function handleMoveHierarchy(
         if (duplicate) {
           const dupParent = duplicate.parent;
           session.treeModel.removeSubtree(duplicate);
-          if (dupParent) {
-            bridge.broadcast({
-              command: 'msg2view_notifyObserver',
-              idMVC: duplicate.idMVC,
-              parameters: ['onNodeRemoved'],
-              parentsUpdateData: computeParentUpdatesToRoot(dupParent),
-            });
-          }
+          if (dupParent) notifyNodeRemoved(bridge, duplicate, dupParent);
         }
 
         // Promote the saved window / group to an active window
         await promoteSavedWindowToActive(
-          source.parent,
+          destination,
           createdWindowId,
           session,
           bridge,
@@ -924,8 +1449,6 @@ function handleMoveHierarchy(
       }
     })();
   }
-
-  session.scheduleSave();
 }
 
 function handleApplyNodeTabText(
@@ -942,11 +1465,7 @@ function handleApplyNodeTabText(
     customTitle: newText.trim() || undefined,
   });
 
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver_onNodeUpdated',
-    idMVC: node.idMVC,
-    modelDataCopy: toNodeDTO(node),
-  });
+  notifyNodeUpdated(bridge, node);
 
   session.scheduleSave();
 }
@@ -960,13 +1479,9 @@ function handleApplyNodeNoteText(
   const node = session.treeModel.findByMvcId(targetNodeIdMVC as MvcId);
   if (!node || node.type !== NodeTypesEnum.TEXTNOTE) return;
 
-  (node as unknown as TextNoteTreeNode).setNote(newText);
+  session.treeModel.setNoteText(node as unknown as TextNoteTreeNode, newText);
 
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver_onNodeUpdated',
-    idMVC: node.idMVC,
-    modelDataCopy: toNodeDTO(node),
-  });
+  notifyNodeUpdated(bridge, node);
 
   session.scheduleSave();
 }
@@ -985,11 +1500,7 @@ function handleApplyNodeWindowText(
     customTitle: newText.trim() || undefined,
   });
 
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver_onNodeUpdated',
-    idMVC: node.idMVC,
-    modelDataCopy: toNodeDTO(node),
-  });
+  notifyNodeUpdated(bridge, node);
 
   session.scheduleSave();
 }
@@ -1025,31 +1536,85 @@ function handleCreateNode(
     session.treeModel.insertAsLastChild(root, newNode);
   }
 
-  // Notify view of the new node
-  bridge.broadcast({
-    command: 'msg2view_notifyObserver_onNodeUpdated',
-    idMVC: newNode.idMVC,
-    modelDataCopy: toNodeDTO(newNode),
-  });
+  broadcastInsertedNode(newNode, bridge);
+  session.scheduleSave();
+}
 
-  // Notify parent so its subnodes list updates (skip root — it has no DTO row)
-  const parent = newNode.parent;
-  if (parent && parent.parent !== null) {
-    bridge.broadcast({
-      command: 'msg2view_notifyObserver_onNodeUpdated',
-      idMVC: parent.idMVC,
-      modelDataCopy: toNodeDTO(parent),
-    });
+/**
+ * Insert a new text note relative to the cursor node and open it in the
+ * requesting view's inline editor. "As parent" takes the cursor node's
+ * place and re-parents the cursor node under the note. Without a usable
+ * cursor node every placement falls back to the end of the tree.
+ */
+function handleAddNote(
+  placement: Req_AddNote['request'],
+  targetNodeIdMVC: string | undefined,
+  port: Browser.runtime.Port,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const model = session.treeModel;
+  const target = targetNodeIdMVC
+    ? model.findByMvcId(targetNodeIdMVC as MvcId)
+    : null;
+  const note = new TextNoteTreeNode();
+  let adopted: TreeNode | null = null;
+
+  if (!target || placement === 'request2bkg_addNoteAtTheEndOfTree') {
+    model.insertAsLastChild(model.root, note);
+  } else if (
+    placement === 'request2bkg_addNoteAsLastSubnodeOfCurrentNode' ||
+    placement === 'request2bkg_addNoteAsFirstSubnodeOfCurrentNode'
+  ) {
+    // Expand so the note (and its editor) is visible.
+    if (target.colapsed) {
+      model.setCollapsed(target, false);
+      notifyNodeUpdated(bridge, target);
+    }
+    if (placement === 'request2bkg_addNoteAsFirstSubnodeOfCurrentNode') {
+      model.insertAsFirstChild(target, note);
+    } else {
+      model.insertAsLastChild(target, note);
+    }
+  } else if (!target.parent) {
+    model.insertAsLastChild(model.root, note);
+  } else if (placement === 'request2bkg_addNoteAsPrevSiblingOfCurrentNode') {
+    model.insertBefore(target, note);
+  } else if (placement === 'request2bkg_addNoteAsParentOfCurrentNode') {
+    model.insertBefore(target, note);
+    adopted = target;
+  } else {
+    model.insertAfter(target, note);
+  }
+
+  broadcastInsertedNode(note, bridge);
+  // Announced empty first, so the views can replay the adoption as a move.
+  if (adopted) {
+    const oldParent = note.parent ?? model.root;
+    model.moveNode(adopted, { containerIdMVC: note.idMVC, position: 0 });
+    notifyNodeMoved(bridge, adopted, oldParent);
   }
 
+  // Only the requesting view edits; the others just see the new row.
+  bridge.sendTo(port, {
+    command: 'msg2view_activateNodeNoteEditTextPrompt',
+    targetNodeIdMVC: note.idMVC,
+    defaultText: '',
+  });
+
+  session.scheduleSave();
+}
+
+/** Send a freshly inserted node to the views and put the cursor on it. */
+function broadcastInsertedNode(node: TreeNode, bridge: ViewBridge): void {
+  notifyNodeInserted(bridge, node);
+
   // Move cursor to the new node and scroll it into view
   bridge.broadcast({
     command: 'msg2view_setCursorHere',
-    targetNodeIdMVC: newNode.idMVC,
+    targetNodeIdMVC: node.idMVC,
     doNotScrollView: false,
   });
-
-  session.scheduleSave();
 }
 
 /**
@@ -1093,6 +1658,7 @@ function handleCopyHierarchy(
     const wrapperPos =
       insertPosition === -1 ? root.subnodes.length : insertPosition;
     session.treeModel.insertSubnode(root, wrapperPos, wrapper);
+    notifyNodeInserted(bridge, wrapper);
     containerIdMVC = wrapper.idMVC;
     insertPosition = 0; // clone goes as first (and only) child of new wrapper
   }
@@ -1111,10 +1677,482 @@ function handleCopyHierarchy(
     finalPosition,
     clone,
   );
+  notifyNodeInserted(bridge, clone);
+
+  session.scheduleSave();
+}
+
+/**
+ * Resolve a multi-target request to the nodes it acts on: the top-most
+ * nodes in tree order. Unknown ids and the root are dropped, and so is
+ * any node whose ancestor is also in the batch — it goes along with
+ * that ancestor.
+ */
+function resolveBatch(
+  idsMVC: readonly string[],
+  session: ActiveSession,
+): TreeNode[] {
+  const model = session.treeModel;
+  const wanted = new Set<TreeNode>();
+  for (const id of idsMVC) {
+    const node = model.findByMvcId(id as MvcId);
+    if (node && node.parent) wanted.add(node);
+  }
+  if (wanted.size === 0) return [];
+
+  const ordered: TreeNode[] = [];
+  const visit = (node: TreeNode): void => {
+    if (wanted.has(node)) {
+      ordered.push(node);
+      return;
+    }
+    for (const child of node.subnodes) visit(child);
+  };
+  visit(model.root);
+  return ordered;
+}
+
+/**
+ * Move `sources` (tree order) into `container` so they end up adjacent,
+ * in order, before the first non-moved node at or after `position`
+ * (counted with the sources still in place, as moveNode does). Tabs
+ * dropped at root are wrapped in a saved window, one per consecutive run.
+ * `containerWindowId` must be read before anything moves.
+ */
+function moveBatch(
+  sources: readonly TreeNode[],
+  container: TreeNode,
+  position: number,
+  containerWindowId: number | undefined,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const model = session.treeModel;
+  const moving = new Set(sources);
+  const anchor =
+    container.subnodes.slice(position).find((node) => !moving.has(node)) ??
+    null;
+  const anchorIndex = () =>
+    anchor ? container.subnodes.indexOf(anchor) : container.subnodes.length;
+
+  const tabsByDestination = new Map<TreeNode, TabTreeNode[]>();
+  let wrapper: TreeNode | null = null;
+
+  for (const source of sources) {
+    const oldWindowId = findAncestorChromeWindowId(source.parent);
+    let destination = container;
+    let destinationWindowId = containerWindowId;
+    let index: number;
+    if (
+      container === model.root &&
+      source.titleBackgroundCssClass === 'tabFrame'
+    ) {
+      if (!wrapper) {
+        wrapper = new SavedWindowTreeNode();
+        model.insertSubnode(container, anchorIndex(), wrapper);
+        notifyNodeInserted(bridge, wrapper);
+      }
+      destination = wrapper;
+      destinationWindowId = undefined;
+      index = wrapper.subnodes.length;
+    } else {
+      wrapper = null;
+      index = anchorIndex();
+    }
+
+    if (oldWindowId != null && oldWindowId !== destinationWindowId) {
+      const tabs = tabsByDestination.get(destination) ?? [];
+      tabs.push(...collectActiveTabsInSubtree(source));
+      tabsByDestination.set(destination, tabs);
+    }
+
+    const oldParent = source.parent;
+    model.moveNode(source, {
+      containerIdMVC: destination === model.root ? null : destination.idMVC,
+      position: index,
+    });
+    if (oldParent) notifyNodeMoved(bridge, source, oldParent);
+  }
+
+  if (container.parent && container.colapsed) {
+    model.setCollapsed(container, false);
+    notifyNodeUpdated(bridge, container);
+  }
+
+  for (const [destination, tabs] of tabsByDestination) {
+    moveTabsToWindow(
+      tabs,
+      destination === container ? containerWindowId : undefined,
+      destination,
+      session,
+      bridge,
+    );
+  }
+}
+
+function handleMoveHierarchies(
+  idsMVC: readonly string[],
+  containerIdMVC: string | null,
+  position: number,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const model = session.treeModel;
+  const sources = resolveBatch(idsMVC, session);
+  const container = containerIdMVC
+    ? model.findByMvcId(containerIdMVC as MvcId)
+    : model.root;
+  if (sources.length === 0 || !container) return;
+
+  // A node can't move into its own subtree. Reject the whole batch rather
+  // than moving only part of it.
+  for (let node: TreeNode | null = container; node; node = node.parent) {
+    if (sources.includes(node)) return;
+  }
+
+  moveBatch(
+    sources,
+    container,
+    position,
+    findAncestorChromeWindowId(container),
+    session,
+    bridge,
+  );
+  session.scheduleSave();
+}
+
+/** Wrap the batch in a new group that takes the first node's place. */
+function handleMoveToNewGroup(
+  idsMVC: readonly string[],
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const sources = resolveBatch(idsMVC, session);
+  if (sources.length === 0) return;
+
+  const group = new GroupTreeNode();
+  session.treeModel.insertBefore(sources[0], group);
+  notifyNodeInserted(bridge, group);
+  // Tabs grouped inside a live window stay in that window.
+  moveBatch(
+    sources,
+    group,
+    0,
+    findAncestorChromeWindowId(group.parent),
+    session,
+    bridge,
+  );
+
+  bridge.broadcast({
+    command: 'msg2view_setCursorHere',
+    targetNodeIdMVC: group.idMVC,
+    doNotScrollView: false,
+  });
+  session.scheduleSave();
+}
+
+function handleCopyHierarchies(
+  idsMVC: readonly string[],
+  targetParentIdMVC: string | null,
+  targetPosition: number,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const model = session.treeModel;
+  const sources = resolveBatch(idsMVC, session);
+  const container = targetParentIdMVC
+    ? model.findByMvcId(targetParentIdMVC as MvcId)
+    : model.root;
+  if (sources.length === 0 || !container) return;
+
+  // Clone everything first so pasting into a copied subtree doesn't copy
+  // the earlier clones as well.
+  const clones = sources.map((source) => cloneSubtree(source));
+  let index =
+    targetPosition === -1
+      ? container.subnodes.length
+      : Math.min(targetPosition, container.subnodes.length);
+  let wrapper: TreeNode | null = null;
+
+  clones.forEach((clone, i) => {
+    // Tabs pasted at root share a saved window per consecutive run,
+    // mirroring handleMoveHierarchies.
+    if (
+      container === model.root &&
+      sources[i].titleBackgroundCssClass === 'tabFrame'
+    ) {
+      if (!wrapper) {
+        wrapper = new SavedWindowTreeNode();
+        model.insertSubnode(container, index++, wrapper);
+        notifyNodeInserted(bridge, wrapper);
+      }
+      model.insertSubnode(wrapper, wrapper.subnodes.length, clone);
+    } else {
+      wrapper = null;
+      model.insertSubnode(container, index++, clone);
+    }
+    notifyNodeInserted(bridge, clone);
+  });
+
+  session.scheduleSave();
+}
+
+/**
+ * Save & close, hibernate or delete every node in the batch with a single
+ * save.
+ */
+function handleBulkHoveringMenuAction(
+  idsMVC: readonly string[],
+  actionId: Req_ActivateHoveringMenuActionOnNodes['actionId'],
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const targets = resolveBatch(idsMVC, session);
+  if (targets.length === 0) return;
+
+  if (actionId === 'closeAction') {
+    // Not recorded for undo, same as a single close.
+    let changed = false;
+    for (const node of targets) {
+      if (node.type === NodeTypesEnum.TAB) {
+        changed = saveAndCloseTab(node, session, bridge) || changed;
+      } else if (node.type === NodeTypesEnum.WINDOW) {
+        saveAndCloseWindow(node, session, bridge);
+        changed = true;
+      }
+    }
+    if (changed) session.scheduleSave();
+    return;
+  }
+
+  if (actionId === 'hibernateAction') {
+    void hibernateTabs(
+      targets.flatMap((node) => collectActiveTabsInSubtree(node)),
+    );
+    return;
+  }
+
+  // The cursor moves to the nearest surviving sibling of the last node.
+  const last = targets[targets.length - 1];
+  const siblings = last.parent?.subnodes ?? [];
+  const lastIndex = siblings.indexOf(last);
+  const survivor = (node: TreeNode) => !targets.includes(node);
+  const nextCursor =
+    siblings.slice(lastIndex + 1).find(survivor) ??
+    siblings.slice(0, lastIndex).reverse().find(survivor) ??
+    null;
+
+  session.undoStack.transaction('Delete', () => {
+    for (const node of targets) {
+      const oldParent = node.parent;
+      session.treeModel.removeSubtree(node);
+      if (oldParent) notifyNodeRemoved(bridge, node, oldParent);
+      removeEmptyWindowParent(session, bridge, oldParent);
+    }
+  });
+
+  if (nextCursor && session.treeModel.findByMvcId(nextCursor.idMVC)) {
+    bridge.broadcast({
+      command: 'msg2view_setCursorHere',
+      targetNodeIdMVC: nextCursor.idMVC,
+      doNotScrollView: false,
+    });
+  }
+  session.scheduleSave();
+}
+
+/**
+ * Reorder a container's children in one mutation. Tree order within a
+ * live window isn't mirrored to Chrome, so its tabs keep their places in
+ * the tab strip.
+ */
+function handleSortSubnodes(
+  idMVC: string,
+  by: SortKey,
+  direction: SortDirection,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const parent = session.treeModel.findByMvcId(idMVC as MvcId);
+  if (!parent) return;
+
+  const sorted = sortedSubnodes(parent, by, direction);
+  if (sorted.every((node, i) => node === parent.subnodes[i])) return;
+  session.treeModel.rearrangeSubnodes(parent, sorted);
+
+  notifyNodeUpdated(bridge, parent);
+  session.scheduleSave();
+}
+
+function handleGroupSubnodesByDomain(
+  idMVC: string,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const parent = session.treeModel.findByMvcId(idMVC as MvcId);
+  if (!parent) return;
+
+  const layout = groupedByDomain(parent);
+  if (layout.every((slot) => slot instanceof TreeNode)) return;
+  session.treeModel.rearrangeSubnodes(parent, layout);
+
+  notifyNodeUpdated(bridge, parent);
+  session.scheduleSave();
+}
+
+/**
+ * Expand the collapsed ancestors of a node and put the cursor on it. View
+ * navigation rather than an edit, so the expansion is not recorded for
+ * undo.
+ */
+function handleRevealNode(
+  idMVC: string,
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const node = session.treeModel.findByMvcId(idMVC as MvcId);
+  if (!node) return;
+
+  let expanded = false;
+  for (let p = node.parent; p; p = p.parent) {
+    if (p.colapsed) {
+      session.treeModel.setCollapsed(p, false);
+      notifyNodeUpdated(bridge, p);
+      expanded = true;
+    }
+  }
+  if (expanded) session.scheduleSave();
+  bridge.broadcast({
+    command: 'msg2view_setCursorHere',
+    targetNodeIdMVC: node.idMVC,
+    doNotScrollView: false,
+  });
+}
+
+/**
+ * Keep one occurrence of a duplicated URL and remove the others. Open
+ * duplicates are saved and their Chrome tabs closed first, outside the
+ * undo entry like a plain close, so undo brings them back as saved tabs
+ * rather than as nodes for tabs that no longer exist. Children of a
+ * removed node are lifted into its place.
+ */
+function handleMergeDuplicates(
+  keepIdMVC: string,
+  removeIdsMVC: readonly string[],
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  const model = session.treeModel;
+  const keep = model.findByMvcId(keepIdMVC as MvcId);
+  if (!keep) return;
+
+  const targets: TreeNode[] = [];
+  for (const id of removeIdsMVC) {
+    let node = model.findByMvcId(id as MvcId);
+    if (!node?.parent || node === keep) continue;
+    if (node.type === NodeTypesEnum.TAB) {
+      const parent = node.parent;
+      const index = parent.subnodes.indexOf(node);
+      // The saved replacement takes the active node's position.
+      if (saveAndCloseTab(node, session, bridge)) {
+        node = parent.subnodes[index];
+      }
+    }
+    targets.push(node);
+  }
+  if (targets.length === 0) return;
+
+  session.undoStack.transaction('Merge duplicates', () => {
+    for (const node of targets) {
+      const parent = node.parent;
+      if (!parent) continue;
+      const containerIdMVC = parent === model.root ? null : parent.idMVC;
+      while (node.subnodes.length > 0) {
+        const child = node.subnodes[0];
+        model.moveNode(child, {
+          containerIdMVC,
+          position: parent.subnodes.indexOf(node),
+        });
+        notifyNodeMoved(bridge, child, node);
+      }
+      model.removeSubtree(node);
+      notifyNodeRemoved(bridge, node, parent);
+      removeEmptyWindowParent(session, bridge, parent);
+    }
+  });
+
+  session.scheduleSave();
+}
+
+/**
+ * Restore the saved tabs, windows and groups in the batch one after the
+ * other, so saved tabs sharing a window reuse the window opened for the
+ * first of them. Active nodes are skipped rather than focused.
+ */
+async function handleRestoreNodes(
+  idsMVC: readonly string[],
+  session: ActiveSession,
+  bridge: ViewBridge,
+): Promise<void> {
+  const targets = resolveBatch(idsMVC, session).filter(
+    (node) =>
+      node.type === NodeTypesEnum.SAVEDTAB ||
+      node.type === NodeTypesEnum.SAVEDWINDOW ||
+      node.type === NodeTypesEnum.GROUP,
+  );
+  for (const node of targets) {
+    await handleActivateNode(node.idMVC, session, bridge);
+  }
+}
 
-  // Full broadcast: clone adds a new node with a new idMVC;
-  // incremental diff not worth the complexity for a rare operation.
-  bridge.broadcast(session.getInitMessage());
+/**
+ * Undo or redo the last recorded user action. Only the tree is reverted:
+ * Chrome tabs/windows moved or closed as a side effect stay as they are,
+ * and the next Chrome event for them reconciles the tree as usual.
+ */
+function handleUndoRedo(
+  direction: 'undo' | 'redo',
+  session: ActiveSession,
+  bridge: ViewBridge,
+): void {
+  // Views follow each step as it is replayed (or rolled back).
+  const notify = (record: MutationRecord) => notifyMutation(bridge, record);
+  const entry =
+    direction === 'undo'
+      ? session.undoStack.undo(session.treeModel, notify)
+      : session.undoStack.redo(session.treeModel, notify);
+  if (!entry) return;
+
+  const focus = undoFocusNode(entry.records[0], direction);
+  if (focus && session.treeModel.findByMvcId(focus.idMVC) === focus) {
+    bridge.broadcast({
+      command: 'msg2view_setCursorHere',
+      targetNodeIdMVC: focus.idMVC,
+      doNotScrollView: false,
+    });
+  }
 
   session.scheduleSave();
 }
+
+/** Node to put the cursor on after undoing/redoing `record`. */
+function undoFocusNode(
+  record: MutationRecord | undefined,
+  direction: 'undo' | 'redo',
+): TreeNode | null {
+  if (!record) return null;
+  switch (record.kind) {
+    case 'insert':
+    case 'remove':
+      // The node itself when it is back in the tree, else where it was.
+      return (record.kind === 'remove') === (direction === 'undo')
+        ? record.node
+        : record.at.parent;
+    case 'replace':
+      return direction === 'undo' ? record.oldNode : record.newNode;
+    case 'replaceRoot':
+      return null;
+    default:
+      return record.node;
+  }
+}
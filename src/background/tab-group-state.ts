@@ -0,0 +1,9 @@
+/**
+ * Shared tab group state between message-handlers and chrome-event-handlers.
+ *
+ * Window IDs in which saved tab groups are currently being recreated.
+ * While chrome.tabs.group() is in flight the tree already holds the group
+ * node (not yet bound to its new Chrome ID), so the tab group and tab
+ * membership handlers skip these windows instead of mirroring a second copy.
+ */
+export const tabGroupRestoreWindowIds = new Set<number>();
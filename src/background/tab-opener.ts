@@ -0,0 +1,34 @@
+/**
+ * Opener nesting shared by the Chrome event handlers and crash recovery:
+ * with "relate new tab to opener" on, a tab opened from another tab goes
+ * under that tab's node instead of at the end of its window.
+ */
+
+import type { TreeModel } from '@/tree/tree-model';
+import type { TreeNode } from '@/tree/tree-node';
+import type { ChromeTabData } from '@/types/chrome';
+import type { TabData } from '@/types/node-data';
+import { TAB_GROUP_ID_NONE } from '@/chrome/tab-groups';
+
+/**
+ * The live node of the tab `tab` was opened from, or null when it has no
+ * opener in the tree. Openers in another window or tab group don't count:
+ * nesting there would show the tab under a window or group it isn't in.
+ */
+export function findOpenerNode(
+  model: TreeModel,
+  tab: ChromeTabData,
+): TreeNode | null {
+  if (tab.openerTabId == null) return null;
+  const opener = model.findActiveTab(tab.openerTabId);
+  if (!opener) return null;
+  const openerData = opener.data as TabData;
+  if (openerData.windowId !== tab.windowId) return null;
+  if (
+    (openerData.groupId ?? TAB_GROUP_ID_NONE) !==
+    (tab.groupId ?? TAB_GROUP_ID_NONE)
+  ) {
+    return null;
+  }
+  return opener;
+}
@@ -0,0 +1,124 @@
+/**
+ * Tree deltas — tell connected views about one structural change.
+ *
+ * Called right after the change is made to the model, while the node's
+ * parent and index still describe that single step: a handler making
+ * several changes notifies after each one, so the views replay them in
+ * the same order. Views patch their copy of the tree from the delta
+ * instead of refetching it; a view that cannot place one (or sees a gap
+ * in the sequence numbers) asks for a full refresh.
+ */
+
+import type { ViewBridge } from './view-bridge';
+import type { TreeNode } from '@/tree/tree-node';
+import type { MutationRecord } from '@/tree/types';
+import { toNodeDTO, computeParentUpdatesToRoot } from '@/tree/dto';
+
+/** `node`'s own display data changed; its place in the tree did not. */
+export function notifyNodeUpdated(bridge: ViewBridge, node: TreeNode): void {
+  bridge.broadcast({
+    command: 'msg2view_notifyObserver_onNodeUpdated',
+    idMVC: node.idMVC,
+    parentIdMVC: node.parent?.idMVC ?? null,
+    modelDataCopy: toNodeDTO(node),
+  });
+}
+
+/** `node` was inserted (with its subtree) under its current parent. */
+export function notifyNodeInserted(bridge: ViewBridge, node: TreeNode): void {
+  const parent = node.parent;
+  if (!parent) return;
+  bridge.broadcastDelta({
+    op: 'insert',
+    parentIdMVC: parent.idMVC,
+    index: parent.subnodes.indexOf(node),
+    node: toNodeDTO(node),
+    parentsUpdateData: computeParentUpdatesToRoot(parent),
+  });
+}
+
+/** `node` (with its subtree) was removed from `oldParent`. */
+export function notifyNodeRemoved(
+  bridge: ViewBridge,
+  node: TreeNode,
+  oldParent: TreeNode,
+): void {
+  bridge.broadcastDelta({
+    op: 'remove',
+    idMVC: node.idMVC,
+    parentIdMVC: oldParent.idMVC,
+    parentsUpdateData: computeParentUpdatesToRoot(oldParent),
+  });
+}
+
+/** `node` (with its subtree) moved from `oldParent` to where it is now. */
+export function notifyNodeMoved(
+  bridge: ViewBridge,
+  node: TreeNode,
+  oldParent: TreeNode,
+): void {
+  const parent = node.parent;
+  if (!parent) return;
+  bridge.broadcastDelta({
+    op: 'move',
+    idMVC: node.idMVC,
+    parentIdMVC: parent.idMVC,
+    index: parent.subnodes.indexOf(node),
+    parentsUpdateData: computeParentUpdatesToRoot(parent),
+    oldParentsUpdateData: computeParentUpdatesToRoot(oldParent),
+  });
+}
+
+/**
+ * `newNode` took the place of the node whose idMVC TreeModel.replaceNode
+ * recorded in `previousIdMVC`, children included.
+ */
+export function notifyNodeReplaced(
+  bridge: ViewBridge,
+  newNode: TreeNode,
+): void {
+  const parent = newNode.parent;
+  if (!parent || !newNode.previousIdMVC) return;
+  bridge.broadcastDelta({
+    op: 'replace',
+    idMVC: newNode.previousIdMVC,
+    parentIdMVC: parent.idMVC,
+    node: toNodeDTO(newNode),
+    parentsUpdateData: computeParentUpdatesToRoot(parent),
+  });
+}
+
+/**
+ * Notify for one step TreeModel recorded, as it was just applied — for
+ * code that makes its changes out of the handler's sight, such as the
+ * undo stack replaying an entry. A whole-tree swap has no delta; its
+ * caller sends a full refresh.
+ */
+export function notifyMutation(
+  bridge: ViewBridge,
+  record: MutationRecord,
+): void {
+  switch (record.kind) {
+    case 'insert':
+      notifyNodeInserted(bridge, record.node);
+      break;
+    case 'remove':
+      notifyNodeRemoved(bridge, record.node, record.at.parent);
+      break;
+    case 'move':
+      notifyNodeMoved(bridge, record.node, record.from.parent);
+      break;
+    case 'replace':
+      notifyNodeReplaced(bridge, record.newNode);
+      break;
+    case 'collapse':
+    case 'marks':
+    case 'note':
+    case 'rearrange':
+      // The node's DTO carries its (possibly regrouped) children.
+      notifyNodeUpdated(bridge, record.node);
+      break;
+    case 'replaceRoot':
+      break;
+  }
+}
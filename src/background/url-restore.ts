@@ -0,0 +1,156 @@
+/**
+ * URL restore strategies — how a saved tab's URL is reopened.
+ *
+ * Extensions can open most URLs with tabs.create, but not all of them:
+ * file:// needs the user's "Allow access to file URLs" toggle, Chrome's
+ * debug pages (chrome://kill and friends) are off limits, blob: URLs die
+ * with the page that created them, and some schemes can't be shown in a
+ * tab at all. data: URLs and other extensions' pages can be opened, but a
+ * tree imported from a file is not to be trusted with them, so they wait
+ * behind the placeholder page until the user confirms. Each URL is
+ * classified, and those that can't be opened get a placeholder page
+ * instead that shows the original URL and why.
+ *
+ * Kiosk and app windows are a window-level matter: savedWindowCreateProps
+ * reopens them as popups, the closest window type an extension can create.
+ */
+
+import { hasFileSchemeAccess } from '@/chrome/permissions';
+import {
+  placeholderUrl,
+  parsePlaceholderUrl,
+  type PlaceholderReason,
+} from '@/chrome/placeholder';
+import { isExtensionUrl } from '@/chrome/tabs';
+
+export type UrlKind =
+  | 'web'
+  | 'file'
+  | 'chrome'
+  | 'extension'
+  | 'data'
+  | 'blob'
+  | 'view-source'
+  | 'unsupported';
+
+/** Browser-internal schemes, opened as-is unless on the blocked list. */
+const BROWSER_SCHEMES = new Set(['chrome:', 'about:', 'edge:', 'brave:']);
+
+/**
+ * Chrome's debug URLs — they crash, hang or quit the browser, and
+ * tabs.create refuses them.
+ */
+const BLOCKED_BROWSER_HOSTS = new Set([
+  'badcastcrash',
+  'checkcrash',
+  'crash',
+  'crashdump',
+  'gpuclean',
+  'gpucrash',
+  'gpuhang',
+  'hang',
+  'inducebrowsercrashforrealz',
+  'inducebrowserdcheckforrealz',
+  'kill',
+  'memory-exhaust',
+  'memory-pressure-critical',
+  'memory-pressure-moderate',
+  'quit',
+  'restart',
+  'shorthang',
+  'webuijserror',
+]);
+
+export function classifyUrl(url: string): UrlKind {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return 'unsupported';
+  }
+  switch (protocol) {
+    case 'http:':
+    case 'https:':
+      return 'web';
+    case 'file:':
+      return 'file';
+    case 'chrome-extension:':
+      return 'extension';
+    case 'data:':
+      return 'data';
+    case 'blob:':
+      return 'blob';
+    case 'view-source:':
+      return 'view-source';
+    default:
+      return BROWSER_SCHEMES.has(protocol) ? 'chrome' : 'unsupported';
+  }
+}
+
+/** Why `url` can't be opened as-is, or null when it can. */
+async function unopenableReason(
+  url: string,
+): Promise<PlaceholderReason | null> {
+  switch (classifyUrl(url)) {
+    case 'web':
+      return null;
+    case 'extension':
+      return isExtensionUrl(url) ? null : 'untrusted';
+    case 'data':
+      return 'untrusted';
+    case 'file':
+      try {
+        return (await hasFileSchemeAccess()) ? null : 'file-access';
+      } catch {
+        return 'file-access';
+      }
+    case 'chrome':
+      return BLOCKED_BROWSER_HOSTS.has(new URL(url).hostname)
+        ? 'blocked'
+        : null;
+    case 'blob':
+      return 'expired';
+    case 'view-source':
+      // Opens when the page it shows the source of would.
+      return unopenableReason(url.slice('view-source:'.length));
+    case 'unsupported':
+      return 'unsupported';
+  }
+}
+
+/**
+ * The URL to open for a saved tab: its own URL when the browser will open
+ * it, else a placeholder page. A tab saved while showing a placeholder is
+ * resolved by the URL it stands in for, so it opens for real once it can.
+ */
+export async function resolveRestoreUrl(
+  url: string,
+  title?: string,
+): Promise<string> {
+  const original = parsePlaceholderUrl(url);
+  if (original) {
+    return resolveRestoreUrl(original.url, original.title ?? title);
+  }
+  const reason = await unopenableReason(url);
+  return reason ? placeholderUrl({ url, reason, title }) : url;
+}
+
+/**
+ * Open a saved tab's URL with `open` (tabs.create, windows.create, ...),
+ * resolving it first. If the browser still refuses the URL, a placeholder
+ * page opens in its place.
+ */
+export async function openRestoredUrl<T>(
+  url: string,
+  title: string | undefined,
+  open: (url: string) => Promise<T>,
+): Promise<T> {
+  const target = await resolveRestoreUrl(url, title);
+  if (parsePlaceholderUrl(target)) return open(target);
+  try {
+    return await open(target);
+  } catch (err) {
+    console.warn(`[url-restore] Failed to open ${target}:`, err);
+    return open(placeholderUrl({ url: target, reason: 'failed', title }));
+  }
+}
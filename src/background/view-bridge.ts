@@ -3,12 +3,14 @@
  *
  * Manages the set of connected view ports, provides broadcast and
  * point-to-point messaging, and automatically cleans up dead ports.
+ * Also numbers tree deltas, so views can detect a missed one.
  */
 
-import type { BackgroundToViewMessage } from '@/types/messages';
+import type { BackgroundToViewMessage, TreeDelta } from '@/types/messages';
 
 export class ViewBridge {
   private readonly _ports = new Set<Browser.runtime.Port>();
+  private _deltaSeq = 0;
 
   /** Register a view port connection. */
   addPort(port: Browser.runtime.Port): void {
@@ -38,6 +40,21 @@ export class ViewBridge {
     }
   }
 
+  /** Broadcast a tree delta under the next sequence number. */
+  broadcastDelta(delta: TreeDelta): void {
+    this._deltaSeq++;
+    this.broadcast({
+      command: 'msg2view_treeDelta',
+      seq: this._deltaSeq,
+      delta,
+    });
+  }
+
+  /** Seq of the last delta broadcast (0 before the first). */
+  get deltaSeq(): number {
+    return this._deltaSeq;
+  }
+
   /** Send a message to a specific port. */
   sendTo(port: Browser.runtime.Port, msg: BackgroundToViewMessage): void {
     try {
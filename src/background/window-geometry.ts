@@ -0,0 +1,110 @@
+/**
+ * Window geometry for restores — turns a saved window's last known type,
+ * bounds and state into `windows.create` properties that fit the current
+ * displays.
+ */
+
+import { getWorkAreas } from '@/chrome/display';
+import type { WorkArea } from '@/chrome/display';
+import type { WindowData } from '@/types/node-data';
+
+export type WindowRect = NonNullable<WindowData['rect']>;
+export type WindowCreateProps = Omit<Browser.windows.CreateData, 'url'>;
+
+/** A stored rect is only usable with finite coordinates and a real size. */
+function isUsableRect(rect: WindowRect): boolean {
+  return (
+    Number.isFinite(rect.left) &&
+    Number.isFinite(rect.top) &&
+    Number.isFinite(rect.width) &&
+    Number.isFinite(rect.height) &&
+    rect.width > 0 &&
+    rect.height > 0
+  );
+}
+
+function overlapArea(rect: WindowRect, area: WorkArea): number {
+  const w =
+    Math.min(rect.left + rect.width, area.left + area.width) -
+    Math.max(rect.left, area.left);
+  const h =
+    Math.min(rect.top + rect.height, area.top + area.height) -
+    Math.max(rect.top, area.top);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max));
+}
+
+/**
+ * Fit `rect` inside the work area it overlaps most — the first (primary)
+ * one when it is entirely off-screen, e.g. saved on a display that has
+ * since been unplugged. Shrinks it when it is larger than that area.
+ */
+export function fitRectToWorkAreas(
+  rect: WindowRect,
+  areas: readonly WorkArea[],
+): WindowRect {
+  let best = areas[0];
+  let bestOverlap = 0;
+  for (const area of areas) {
+    const overlap = overlapArea(rect, area);
+    if (overlap > bestOverlap) {
+      best = area;
+      bestOverlap = overlap;
+    }
+  }
+  if (!best) return rect;
+
+  const width = Math.min(rect.width, best.width);
+  const height = Math.min(rect.height, best.height);
+  return {
+    left: clamp(rect.left, best.left, best.left + best.width - width),
+    top: clamp(rect.top, best.top, best.top + best.height - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * `windows.create` properties that reopen a saved window as it was.
+ *
+ * Chrome rejects bounds combined with a maximized or fullscreen state, so
+ * those windows get the state alone. Minimized windows come back normal so
+ * the restore is visible. Without the optional `system.display` permission
+ * there is nothing to clamp against: the saved size is kept and Chrome
+ * picks the position.
+ */
+export async function savedWindowCreateProps(
+  data: WindowData,
+): Promise<WindowCreateProps> {
+  // App (and kiosk) windows can't be created by extensions; a popup is
+  // the closest match.
+  const props: WindowCreateProps =
+    data.type === 'popup' || data.type === 'app' ? { type: 'popup' } : {};
+  if (data.state === 'maximized' || data.state === 'fullscreen') {
+    return { ...props, state: data.state };
+  }
+
+  const rect = data.rect;
+  if (!rect || !isUsableRect(rect)) return props;
+
+  let fitted: WindowRect;
+  try {
+    fitted = fitRectToWorkAreas(rect, await getWorkAreas());
+  } catch {
+    return {
+      ...props,
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    };
+  }
+  return {
+    ...props,
+    left: Math.round(fitted.left),
+    top: Math.round(fitted.top),
+    width: Math.round(fitted.width),
+    height: Math.round(fitted.height),
+  };
+}
@@ -0,0 +1,205 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { HttpBackupProvider, exposesCredentials } from '../http-provider';
+import { BackupError, backupFileName } from '../provider';
+import type { HttpBackupConfig } from '@/types/backup';
+import { startMockBackupServer } from './mock-server';
+import type { MockBackupServer } from './mock-server';
+
+const T1 = Date.UTC(2025, 0, 1);
+const T2 = Date.UTC(2025, 0, 2);
+const T3 = Date.UTC(2025, 0, 3);
+
+function config(
+  server: MockBackupServer,
+  overrides: Partial<HttpBackupConfig> = {},
+): HttpBackupConfig {
+  return {
+    dialect: 'webdav',
+    endpoint: `${server.origin}/dav`,
+    username: '',
+    password: '',
+    region: 'us-east-1',
+    ...overrides,
+  };
+}
+
+describe('HttpBackupProvider', () => {
+  it('rejects invalid endpoints', () => {
+    const base = {
+      dialect: 'webdav',
+      username: '',
+      password: '',
+      region: '',
+    } as const;
+    expect(
+      () => new HttpBackupProvider({ ...base, endpoint: 'not a url' }),
+    ).toThrow(BackupError);
+    expect(
+      () => new HttpBackupProvider({ ...base, endpoint: 'ftp://host/x' }),
+    ).toThrow(/protocol/);
+  });
+
+  it('refuses WebDAV credentials over plain http to another host', () => {
+    const config = {
+      dialect: 'webdav',
+      username: 'me',
+      password: 'secret',
+      region: '',
+    } as const;
+    expect(
+      () =>
+        new HttpBackupProvider({ ...config, endpoint: 'http://dav.lan/x/' }),
+    ).toThrow(/https/);
+    expect(
+      exposesCredentials({ ...config, endpoint: 'http://dav.lan/x/' }),
+    ).toBe(true);
+
+    // Fine over https, to this machine, without credentials, or for S3,
+    // whose signature never carries the secret.
+    for (const ok of [
+      { ...config, endpoint: 'https://dav.lan/x/' },
+      { ...config, endpoint: 'http://localhost:8080/x/' },
+      { ...config, endpoint: 'http://dav.lan/x/', username: '' },
+      { ...config, endpoint: 'http://s3.lan/b', dialect: 's3' as const },
+    ]) {
+      expect(() => new HttpBackupProvider(ok)).not.toThrow();
+      expect(exposesCredentials(ok)).toBe(false);
+    }
+  });
+
+  describe.each(['webdav', 's3'] as const)('%s dialect', (dialect) => {
+    let server: MockBackupServer;
+    let provider: HttpBackupProvider;
+
+    beforeEach(async () => {
+      server = await startMockBackupServer({ pageSize: 2 });
+      provider = new HttpBackupProvider(
+        config(server, { dialect, endpoint: `${server.origin}/store` }),
+      );
+    });
+
+    afterEach(() => server.close());
+
+    it('uploads, lists newest first, downloads and deletes', async () => {
+      await provider.upload(backupFileName(T1), '{"a":1}');
+      await provider.upload(backupFileName(T3), '{"c":333}');
+      await provider.upload(backupFileName(T2), '{"b":22}');
+
+      const entries = await provider.list();
+      expect(entries).toEqual([
+        { id: backupFileName(T3), timestamp: T3, size: 9 },
+        { id: backupFileName(T2), timestamp: T2, size: 8 },
+        { id: backupFileName(T1), timestamp: T1, size: 7 },
+      ]);
+
+      expect(await provider.download(backupFileName(T2))).toBe('{"b":22}');
+
+      await provider.delete(backupFileName(T2));
+      expect((await provider.list()).map((e) => e.timestamp)).toEqual([T3, T1]);
+    });
+
+    it('skips foreign files when listing', async () => {
+      server.objects.set('/store/readme.txt', 'hello');
+      server.objects.set('/store/nested/' + backupFileName(T1), '{}');
+      await provider.upload(backupFileName(T2), '{}');
+
+      expect((await provider.list()).map((e) => e.id)).toEqual([
+        backupFileName(T2),
+      ]);
+    });
+
+    it('rotate keeps only the newest backups', async () => {
+      for (const t of [T1, T2, T3]) {
+        await provider.upload(backupFileName(t), '{}');
+      }
+      const evicted = await provider.rotate(1);
+      expect(evicted.map((e) => e.timestamp)).toEqual([T2, T1]);
+      expect([...server.objects.keys()]).toEqual([
+        '/store/' + backupFileName(T3),
+      ]);
+    });
+
+    it('treats deleting a missing backup as success', async () => {
+      await expect(
+        provider.delete(backupFileName(T1)),
+      ).resolves.toBeUndefined();
+    });
+
+    it('surfaces HTTP failures as BackupError with status', async () => {
+      const err = await provider
+        .download(backupFileName(T1))
+        .catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(BackupError);
+      expect((err as BackupError).status).toBe(404);
+    });
+  });
+
+  describe('auth', () => {
+    let server: MockBackupServer | null = null;
+
+    afterEach(async () => {
+      await server?.close();
+      server = null;
+    });
+
+    it('sends Basic auth for WebDAV', async () => {
+      const expected = 'Basic ' + btoa('alice:s3cret');
+      server = await startMockBackupServer({
+        requireAuthorization: (header) => header === expected,
+      });
+      const provider = new HttpBackupProvider(
+        config(server, { username: 'alice', password: 's3cret' }),
+      );
+
+      await provider.upload(backupFileName(T1), '{}');
+      expect(await provider.list()).toHaveLength(1);
+    });
+
+    it('reports 401 when credentials are wrong', async () => {
+      server = await startMockBackupServer({
+        requireAuthorization: () => false,
+      });
+      const provider = new HttpBackupProvider(
+        config(server, { username: 'alice', password: 'wrong' }),
+      );
+
+      await expect(provider.list()).rejects.toMatchObject({
+        name: 'BackupError',
+        status: 401,
+      });
+    });
+
+    it('signs S3 requests with SigV4', async () => {
+      server = await startMockBackupServer({
+        requireAuthorization: (header) =>
+          header?.startsWith('AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/') ===
+            true && header.includes('/eu-west-1/s3/aws4_request'),
+      });
+      const provider = new HttpBackupProvider(
+        config(server, {
+          dialect: 's3',
+          endpoint: `${server.origin}/bucket`,
+          username: 'AKIDEXAMPLE',
+          password: 'secret',
+          region: 'eu-west-1',
+        }),
+      );
+
+      await provider.upload(backupFileName(T1), '{}');
+      expect(await provider.list()).toHaveLength(1);
+
+      const put = server.requests.find((r) => r.method === 'PUT')!;
+      expect(put.headers['x-amz-content-sha256']).toMatch(/^[0-9a-f]{64}$/);
+      expect(put.headers['x-amz-date']).toMatch(/^\d{8}T\d{6}Z$/);
+    });
+
+    it('sends no Authorization header when anonymous', async () => {
+      server = await startMockBackupServer();
+      const provider = new HttpBackupProvider(config(server));
+
+      await provider.upload(backupFileName(T1), '{}');
+      expect(server.requests[0].headers.authorization).toBeUndefined();
+    });
+  });
+});
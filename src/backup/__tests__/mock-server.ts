@@ -0,0 +1,163 @@
+/**
+ * In-process mock backup server for provider tests.
+ *
+ * Speaks just enough WebDAV (PUT / GET / DELETE / PROPFIND Depth 1) and
+ * S3 (object PUT / GET / DELETE, ListObjectsV2 with paging) for
+ * HttpBackupProvider, storing objects in memory. Every request is logged
+ * so tests can assert on methods, paths and auth headers.
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface RecordedRequest {
+  readonly method: string;
+  readonly url: string;
+  readonly headers: IncomingMessage['headers'];
+}
+
+export interface MockServerOptions {
+  /** Reject requests whose Authorization header differs (401). */
+  readonly requireAuthorization?: (header: string | undefined) => boolean;
+  /** S3 ListObjectsV2 page size. */
+  readonly pageSize?: number;
+}
+
+export interface MockBackupServer {
+  /** `http://127.0.0.1:<port>` */
+  readonly origin: string;
+  /** Stored objects keyed by decoded URL path. */
+  readonly objects: Map<string, string>;
+  readonly requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+export async function startMockBackupServer(
+  options: MockServerOptions = {},
+): Promise<MockBackupServer> {
+  const objects = new Map<string, string>();
+  const requests: RecordedRequest[] = [];
+  const pageSize = options.pageSize ?? 1000;
+
+  const server: Server = createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const path = decodeURIComponent(url.pathname);
+      const method = req.method ?? 'GET';
+      const body = await readBody(req);
+      requests.push({ method, url: req.url ?? '/', headers: req.headers });
+
+      if (
+        options.requireAuthorization &&
+        !options.requireAuthorization(req.headers.authorization)
+      ) {
+        res.writeHead(401, 'Unauthorized').end();
+        return;
+      }
+
+      const children = (dir: string) =>
+        [...objects.keys()].filter(
+          (key) => key.startsWith(dir) && !key.slice(dir.length).includes('/'),
+        );
+
+      if (method === 'PROPFIND') {
+        const responses = children(path)
+          .map(
+            (key) =>
+              `<d:response><d:href>${escapeXml(encodeURI(key))}</d:href>` +
+              `<d:propstat><d:prop><d:getcontentlength>${(objects.get(key) ?? '').length}</d:getcontentlength></d:prop>` +
+              `<d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`,
+          )
+          .join('');
+        res
+          .writeHead(207, { 'Content-Type': 'application/xml' })
+          .end(
+            `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">` +
+              `<d:response><d:href>${escapeXml(path)}</d:href></d:response>` +
+              responses +
+              `</d:multistatus>`,
+          );
+        return;
+      }
+
+      if (method === 'GET' && url.searchParams.get('list-type') === '2') {
+        const prefix = url.searchParams.get('prefix') ?? '';
+        const start = Number(url.searchParams.get('continuation-token') ?? 0);
+        const keys = children(path)
+          .map((key) => key.slice(path.length))
+          .filter((key) => key.startsWith(prefix))
+          .sort();
+        const page = keys.slice(start, start + pageSize);
+        const truncated = start + pageSize < keys.length;
+        res
+          .writeHead(200, { 'Content-Type': 'application/xml' })
+          .end(
+            `<?xml version="1.0" encoding="UTF-8"?>` +
+              `<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">` +
+              page
+                .map(
+                  (key) =>
+                    `<Contents><Key>${escapeXml(key)}</Key><Size>${(objects.get(path + key) ?? '').length}</Size></Contents>`,
+                )
+                .join('') +
+              `<IsTruncated>${truncated}</IsTruncated>` +
+              (truncated
+                ? `<NextContinuationToken>${start + pageSize}</NextContinuationToken>`
+                : '') +
+              `</ListBucketResult>`,
+          );
+        return;
+      }
+
+      switch (method) {
+        case 'PUT':
+          objects.set(path, body);
+          res.writeHead(201).end();
+          return;
+        case 'GET':
+          if (!objects.has(path)) {
+            res.writeHead(404, 'Not Found').end();
+            return;
+          }
+          res.writeHead(200).end(objects.get(path));
+          return;
+        case 'DELETE':
+          res.writeHead(objects.delete(path) ? 204 : 404).end();
+          return;
+        default:
+          res.writeHead(405).end();
+      }
+    })();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    objects,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
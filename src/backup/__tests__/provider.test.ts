@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  backupFileName,
+  parseBackupTimestamp,
+  rotateBackups,
+  BACKUP_FILE_PREFIX,
+} from '../provider';
+import type { BackupProvider } from '../provider';
+import type { BackupEntry } from '@/types/backup';
+
+describe('backupFileName / parseBackupTimestamp', () => {
+  it('encodes a sortable UTC timestamp', () => {
+    const now = Date.UTC(2025, 0, 2, 3, 4, 5, 678);
+    expect(backupFileName(now)).toBe(
+      'tabs-outliner-backup-20250102T030405Z.tree',
+    );
+  });
+
+  it('round-trips to second precision', () => {
+    const now = Date.UTC(2024, 11, 31, 23, 59, 59);
+    expect(parseBackupTimestamp(backupFileName(now))).toBe(now);
+  });
+
+  it('returns null for foreign names', () => {
+    expect(parseBackupTimestamp('notes.txt')).toBeNull();
+    expect(parseBackupTimestamp(`${BACKUP_FILE_PREFIX}latest.tree`)).toBeNull();
+    expect(
+      parseBackupTimestamp(`${BACKUP_FILE_PREFIX}20250102T030405Z.json`),
+    ).toBeNull();
+  });
+});
+
+describe('rotateBackups', () => {
+  function memoryProvider(ids: string[]): BackupProvider & { ids: string[] } {
+    const provider = {
+      ids: [...ids],
+      upload: () => Promise.resolve(),
+      list: () =>
+        Promise.resolve(
+          provider.ids
+            .map(
+              (id): BackupEntry => ({
+                id,
+                timestamp: parseBackupTimestamp(id)!,
+                size: null,
+              }),
+            )
+            .sort((a, b) => b.timestamp - a.timestamp),
+        ),
+      download: () => Promise.resolve(''),
+      delete: (id: string) => {
+        provider.ids = provider.ids.filter((x) => x !== id);
+        return Promise.resolve();
+      },
+      rotate: (keep: number) => rotateBackups(provider, keep),
+    };
+    return provider;
+  }
+
+  const names = [1, 2, 3, 4].map((day) =>
+    backupFileName(Date.UTC(2025, 0, day)),
+  );
+
+  it('deletes everything past the newest `keep`', async () => {
+    const provider = memoryProvider(names);
+    const evicted = await provider.rotate(2);
+    expect(evicted.map((e) => e.id)).toEqual([names[1], names[0]]);
+    expect(provider.ids).toEqual([names[2], names[3]]);
+  });
+
+  it('keeps everything when under the limit', async () => {
+    const provider = memoryProvider(names);
+    expect(await provider.rotate(10)).toEqual([]);
+    expect(provider.ids).toHaveLength(4);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Minimal AWS Signature Version 4 signer for S3-compatible backup targets.
+ *
+ * Covers exactly what HttpBackupProvider needs — single-chunk requests
+ * signed in the Authorization header — using WebCrypto so it runs in the
+ * service worker without extra dependencies.
+ * Spec: https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+ */
+
+export interface SigV4Credentials {
+  readonly accessKeyId: string;
+  readonly secretAccessKey: string;
+  readonly region: string;
+  /** Defaults to 's3'. */
+  readonly service?: string;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buf: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buf), (b) =>
+    b.toString(16).padStart(2, '0'),
+  ).join('');
+}
+
+/** Hex SHA-256 of a UTF-8 string — also the x-amz-content-sha256 value. */
+export async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+}
+
+async function hmac(key: BufferSource, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/** RFC 3986 encoding as required for canonical query strings. */
+function rfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase(),
+  );
+}
+
+/** `20130524T000000Z` — the x-amz-date format. */
+export function amzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Sign a request. `headers` are the headers that will be sent (plus any
+ * extra to sign); the returned object adds x-amz-date,
+ * x-amz-content-sha256 and Authorization. Host is signed but not
+ * returned — fetch sets it and refuses to let callers override it.
+ */
+export async function signRequest(
+  method: string,
+  url: URL,
+  headers: Readonly<Record<string, string>>,
+  payloadHash: string,
+  credentials: SigV4Credentials,
+  now: Date = new Date(),
+): Promise<Record<string, string>> {
+  const timestamp = amzDate(now);
+  const date = timestamp.slice(0, 8);
+  const service = credentials.service ?? 's3';
+  const scope = `${date}/${credentials.region}/${service}/aws4_request`;
+
+  const signed: Record<string, string> = {
+    ...headers,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': timestamp,
+  };
+
+  const canonicalHeaderMap = new Map<string, string>();
+  canonicalHeaderMap.set('host', url.host);
+  for (const [name, value] of Object.entries(signed)) {
+    canonicalHeaderMap.set(
+      name.toLowerCase(),
+      value.trim().replace(/\s+/g, ' '),
+    );
+  }
+  const headerNames = [...canonicalHeaderMap.keys()].sort();
+  const canonicalHeaders = headerNames
+    .map((name) => `${name}:${canonicalHeaderMap.get(name)}\n`)
+    .join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalQuery = [...url.searchParams]
+    .map(([k, v]) => [rfc3986(k), rfc3986(v)])
+    .sort(([a, av], [b, bv]) =>
+      a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0,
+    )
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname || '/',
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    timestamp,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  let key = await hmac(
+    encoder.encode('AWS4' + credentials.secretAccessKey),
+    date,
+  );
+  key = await hmac(key, credentials.region);
+  key = await hmac(key, service);
+  key = await hmac(key, 'aws4_request');
+  const signature = toHex(await hmac(key, stringToSign));
+
+  signed['Authorization'] =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return signed;
+}
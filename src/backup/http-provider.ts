@@ -0,0 +1,277 @@
+/**
+ * HttpBackupProvider — generic backup target over plain HTTP.
+ *
+ * Two dialects share the same PUT / GET / DELETE object model and differ
+ * only in listing and auth:
+ *  - webdav: PROPFIND (Depth: 1) on the collection, HTTP Basic auth —
+ *            refused over plain http except to this machine, since Basic
+ *            auth sends the password readable to anyone on the path.
+ *  - s3:     ListObjectsV2 on the bucket, AWS SigV4 when a key is set.
+ *
+ * Responses are XML; the service worker has no DOMParser, so the few
+ * elements we need are pulled out with a namespace-agnostic regex.
+ */
+
+import type { BackupEntry, HttpBackupConfig } from '@/types/backup';
+import { signRequest, sha256Hex } from './aws-sigv4';
+import {
+  BackupError,
+  parseBackupTimestamp,
+  rotateBackups,
+  BACKUP_FILE_PREFIX,
+} from './provider';
+import type { BackupProvider } from './provider';
+
+/** Hosts whose traffic never leaves the machine. */
+const LOOPBACK_HOSTS: ReadonlySet<string> = new Set([
+  'localhost',
+  '127.0.0.1',
+  '[::1]',
+]);
+
+function sendsBasicAuthInClear(config: HttpBackupConfig, url: URL): boolean {
+  return (
+    config.dialect === 'webdav' &&
+    config.username !== '' &&
+    url.protocol === 'http:' &&
+    !LOOPBACK_HOSTS.has(url.hostname)
+  );
+}
+
+/**
+ * True when `config` asks for WebDAV credentials over plain http to
+ * another machine — a configuration HttpBackupProvider refuses.
+ */
+export function exposesCredentials(config: HttpBackupConfig): boolean {
+  try {
+    return sendsBasicAuthInClear(config, new URL(config.endpoint.trim()));
+  } catch {
+    return false;
+  }
+}
+
+const PROPFIND_BODY =
+  '<?xml version="1.0" encoding="utf-8"?>' +
+  '<d:propfind xmlns:d="DAV:"><d:prop><d:getcontentlength/></d:prop></d:propfind>';
+
+export class HttpBackupProvider implements BackupProvider {
+  private readonly base: URL;
+
+  constructor(private readonly config: HttpBackupConfig) {
+    let base: URL;
+    try {
+      base = new URL(config.endpoint);
+    } catch (err) {
+      throw new BackupError(
+        `Invalid endpoint URL: ${config.endpoint}`,
+        undefined,
+        err,
+      );
+    }
+    if (base.protocol !== 'https:' && base.protocol !== 'http:') {
+      throw new BackupError(`Unsupported endpoint protocol: ${base.protocol}`);
+    }
+    if (sendsBasicAuthInClear(config, base)) {
+      throw new BackupError(
+        'Refusing to send the WebDAV password over unencrypted http://; use an https:// URL',
+      );
+    }
+    // Treat the endpoint as a directory so object URLs resolve beneath it.
+    if (!base.pathname.endsWith('/')) base.pathname += '/';
+    base.search = '';
+    base.hash = '';
+    this.base = base;
+  }
+
+  async upload(name: string, content: string): Promise<void> {
+    await this.request('PUT', this.objectUrl(name), {
+      body: content,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async list(): Promise<BackupEntry[]> {
+    const entries =
+      this.config.dialect === 's3'
+        ? await this.listS3()
+        : await this.listWebDav();
+    return entries.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async download(id: string): Promise<string> {
+    const res = await this.request('GET', this.objectUrl(id));
+    return res.text();
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('DELETE', this.objectUrl(id), { allow404: true });
+  }
+
+  rotate(keep: number): Promise<BackupEntry[]> {
+    return rotateBackups(this, keep);
+  }
+
+  // -- Listing --
+
+  private async listWebDav(): Promise<BackupEntry[]> {
+    const res = await this.request('PROPFIND', this.base, {
+      body: PROPFIND_BODY,
+      headers: { Depth: '1', 'Content-Type': 'application/xml' },
+    });
+    const xml = await res.text();
+
+    const entries: BackupEntry[] = [];
+    for (const response of xmlElements(xml, 'response')) {
+      const href = xmlText(response, 'href');
+      if (!href) continue;
+      const name = lastPathSegment(href);
+      const timestamp = parseBackupTimestamp(name);
+      if (timestamp === null) continue;
+      entries.push({
+        id: name,
+        timestamp,
+        size: toSize(xmlText(response, 'getcontentlength')),
+      });
+    }
+    return entries;
+  }
+
+  private async listS3(): Promise<BackupEntry[]> {
+    const entries: BackupEntry[] = [];
+    let continuationToken: string | null = null;
+    do {
+      const url = new URL(this.base);
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', BACKUP_FILE_PREFIX);
+      if (continuationToken) {
+        url.searchParams.set('continuation-token', continuationToken);
+      }
+      const xml = await (await this.request('GET', url)).text();
+
+      for (const contents of xmlElements(xml, 'Contents')) {
+        const key = xmlText(contents, 'Key');
+        if (!key) continue;
+        const timestamp = parseBackupTimestamp(key);
+        if (timestamp === null) continue;
+        entries.push({
+          id: key,
+          timestamp,
+          size: toSize(xmlText(contents, 'Size')),
+        });
+      }
+      continuationToken =
+        xmlText(xml, 'IsTruncated') === 'true'
+          ? xmlText(xml, 'NextContinuationToken')
+          : null;
+    } while (continuationToken);
+    return entries;
+  }
+
+  // -- Transport --
+
+  private objectUrl(name: string): URL {
+    return new URL(encodeURIComponent(name), this.base);
+  }
+
+  private async request(
+    method: string,
+    url: URL,
+    options: {
+      body?: string;
+      headers?: Record<string, string>;
+      allow404?: boolean;
+    } = {},
+  ): Promise<Response> {
+    const headers = await this.authorize(
+      method,
+      url,
+      options.headers ?? {},
+      options.body ?? '',
+    );
+
+    let res: Response;
+    try {
+      res = await fetch(url, { method, headers, body: options.body });
+    } catch (err) {
+      throw new BackupError(
+        `${method} ${url.pathname} failed: network error`,
+        undefined,
+        err,
+      );
+    }
+    if (!res.ok && !(options.allow404 && res.status === 404)) {
+      throw new BackupError(
+        `${method} ${url.pathname} failed: ${res.status} ${res.statusText}`.trim(),
+        res.status,
+      );
+    }
+    return res;
+  }
+
+  private async authorize(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    body: string,
+  ): Promise<Record<string, string>> {
+    const { dialect, username, password, region } = this.config;
+    if (!username) return headers;
+
+    if (dialect === 's3') {
+      return signRequest(method, url, headers, await sha256Hex(body), {
+        accessKeyId: username,
+        secretAccessKey: password,
+        region: region || 'us-east-1',
+      });
+    }
+    return {
+      ...headers,
+      Authorization: 'Basic ' + base64Utf8(`${username}:${password}`),
+    };
+  }
+}
+
+// -- Helpers --
+
+function base64Utf8(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function toSize(text: string | null): number | null {
+  if (text === null) return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+function lastPathSegment(href: string): string {
+  const path = href.replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/\/+$/, '');
+  const segment = path.slice(path.lastIndexOf('/') + 1);
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/** Inner XML of every `<localName>` element, ignoring namespace prefixes. */
+function xmlElements(xml: string, localName: string): string[] {
+  const re = new RegExp(
+    `<(?:[\\w.-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${localName}>`,
+    'g',
+  );
+  return Array.from(xml.matchAll(re), (m) => m[1]);
+}
+
+/** Text of the first `<localName>` element, entity-decoded and trimmed. */
+function xmlText(xml: string, localName: string): string | null {
+  const [inner] = xmlElements(xml, localName);
+  if (inner === undefined) return null;
+  return inner
+    .trim()
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
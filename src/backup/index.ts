@@ -0,0 +1,16 @@
+// Remote backup — barrel export
+
+export {
+  BackupError,
+  backupFileName,
+  parseBackupTimestamp,
+  rotateBackups,
+  BACKUP_FILE_PREFIX,
+} from './provider';
+export type { BackupProvider } from './provider';
+export { HttpBackupProvider } from './http-provider';
+export {
+  createBackupProvider,
+  isBackupConfigured,
+  isInsecureBackupTarget,
+} from './registry';
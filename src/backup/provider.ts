@@ -0,0 +1,78 @@
+/**
+ * BackupProvider — the contract every remote backup target implements,
+ * plus the naming and rotation helpers they share.
+ *
+ * Providers store opaque files; the scheduler decides what goes in them
+ * (an exported HierarchyJSO, importable as a regular `.tree` file).
+ */
+
+import type { BackupEntry } from '@/types/backup';
+
+export interface BackupProvider {
+  /** Store `content` as a new backup named `name` (see backupFileName). */
+  upload(name: string, content: string): Promise<void>;
+  /** Backups present on the remote, newest first. Foreign files are skipped. */
+  list(): Promise<BackupEntry[]>;
+  /** Fetch a backup's content by BackupEntry.id. */
+  download(id: string): Promise<string>;
+  delete(id: string): Promise<void>;
+  /** Delete all but the newest `keep` backups. Returns the deleted entries. */
+  rotate(keep: number): Promise<BackupEntry[]>;
+}
+
+/** Failure talking to a backup target. `status` is the HTTP status, if any. */
+export class BackupError extends Error {
+  override readonly name = 'BackupError';
+
+  constructor(
+    message: string,
+    public readonly status?: number,
+    cause?: unknown,
+  ) {
+    super(message, cause !== undefined ? { cause } : undefined);
+  }
+}
+
+/** Every backup file name starts with this; also the S3 listing prefix. */
+export const BACKUP_FILE_PREFIX = 'tabs-outliner-backup-';
+const FILE_SUFFIX = '.tree';
+const STAMP_RE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/;
+
+/**
+ * Name for a backup taken at `now`, e.g.
+ * `tabs-outliner-backup-20250101T120000Z.tree`. The timestamp sorts
+ * lexically and needs no URL escaping.
+ */
+export function backupFileName(now: number): string {
+  const stamp = new Date(now)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+  return BACKUP_FILE_PREFIX + stamp + FILE_SUFFIX;
+}
+
+/** Timestamp encoded by backupFileName, or null for any other name. */
+export function parseBackupTimestamp(name: string): number | null {
+  if (!name.startsWith(BACKUP_FILE_PREFIX) || !name.endsWith(FILE_SUFFIX)) {
+    return null;
+  }
+  const m = STAMP_RE.exec(
+    name.slice(BACKUP_FILE_PREFIX.length, -FILE_SUFFIX.length),
+  );
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s] = m.map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi, s);
+}
+
+/** Shared rotate(): list, then delete everything past the newest `keep`. */
+export async function rotateBackups(
+  provider: BackupProvider,
+  keep: number,
+): Promise<BackupEntry[]> {
+  const entries = await provider.list();
+  const evicted = entries.slice(Math.max(0, keep));
+  for (const entry of evicted) {
+    await provider.delete(entry.id);
+  }
+  return evicted;
+}
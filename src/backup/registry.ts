@@ -0,0 +1,38 @@
+/**
+ * Provider lookup — maps BackupSettings.provider to an implementation.
+ * New targets (e.g. Google Drive appdata) register here.
+ */
+
+import type { BackupSettings } from '@/types/backup';
+import { HttpBackupProvider, exposesCredentials } from './http-provider';
+import type { BackupProvider } from './provider';
+
+/** True when the selected provider has enough configuration to run. */
+export function isBackupConfigured(settings: BackupSettings): boolean {
+  switch (settings.provider) {
+    case 'http':
+      return settings.http.endpoint.trim() !== '';
+  }
+}
+
+/**
+ * True when saving `settings` would be refused because the password
+ * would cross the network unencrypted; the options page warns up front.
+ */
+export function isInsecureBackupTarget(settings: BackupSettings): boolean {
+  switch (settings.provider) {
+    case 'http':
+      return exposesCredentials(settings.http);
+  }
+}
+
+/** Instantiate the provider selected in `settings`. Throws BackupError if misconfigured. */
+export function createBackupProvider(settings: BackupSettings): BackupProvider {
+  switch (settings.provider) {
+    case 'http':
+      return new HttpBackupProvider({
+        ...settings.http,
+        endpoint: settings.http.endpoint.trim(),
+      });
+  }
+}
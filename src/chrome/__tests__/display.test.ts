@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import { getWorkArea } from '../display';
+import { getWorkArea, getWorkAreas } from '../display';
 import { ChromeApiError } from '../errors';
 
 // fakeBrowser doesn't implement system.display — mock it manually
@@ -61,3 +61,23 @@ describe('getWorkArea', () => {
     await expect(getWorkArea()).rejects.toBeInstanceOf(ChromeApiError);
   });
 });
+
+describe('getWorkAreas', () => {
+  it('lists every display with the primary first', async () => {
+    mockGetInfo.mockResolvedValue([
+      {
+        isPrimary: false,
+        workArea: { top: 0, left: -1920, width: 1920, height: 1080 },
+      },
+      {
+        isPrimary: true,
+        workArea: { top: 0, left: 0, width: 1440, height: 900 },
+      },
+    ]);
+
+    expect(await getWorkAreas()).toEqual([
+      { top: 0, left: 0, width: 1440, height: 900 },
+      { top: 0, left: -1920, width: 1920, height: 1080 },
+    ]);
+  });
+});
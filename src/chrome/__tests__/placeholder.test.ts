@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import {
+  placeholderUrl,
+  parsePlaceholderUrl,
+  isPlaceholderUrl,
+} from '../placeholder';
+
+describe('placeholder', () => {
+  it('round-trips the URL, reason and title', () => {
+    const target = {
+      url: 'file:///home/me/a b.txt?x=1&y=2#top',
+      reason: 'file-access' as const,
+      title: 'Notes & todo',
+    };
+    const url = placeholderUrl(target);
+    expect(
+      url.startsWith(fakeBrowser.runtime.getURL('/placeholder.html')),
+    ).toBe(true);
+    expect(parsePlaceholderUrl(url)).toEqual(target);
+  });
+
+  it('leaves the title out when there is none', () => {
+    const url = placeholderUrl({
+      url: 'blob:https://x.com/1',
+      reason: 'expired',
+    });
+    expect(url).not.toContain('title=');
+    expect(parsePlaceholderUrl(url)?.title).toBeUndefined();
+  });
+
+  it('treats an unknown reason as a failed open', () => {
+    const base = fakeBrowser.runtime.getURL('/placeholder.html');
+    expect(
+      parsePlaceholderUrl(`${base}?url=ftp%3A%2F%2Fx&reason=bogus`),
+    ).toEqual({ url: 'ftp://x', reason: 'failed', title: undefined });
+  });
+
+  it('returns null for other URLs', () => {
+    expect(
+      parsePlaceholderUrl('https://example.com/placeholder.html'),
+    ).toBeNull();
+    expect(
+      parsePlaceholderUrl(fakeBrowser.runtime.getURL('/tree.html')),
+    ).toBeNull();
+    expect(parsePlaceholderUrl(undefined)).toBeNull();
+  });
+
+  it('returns null for a placeholder page without a URL', () => {
+    const base = fakeBrowser.runtime.getURL('/placeholder.html');
+    expect(isPlaceholderUrl(base)).toBe(false);
+    expect(isPlaceholderUrl(`${base}?reason=blocked`)).toBe(false);
+  });
+});
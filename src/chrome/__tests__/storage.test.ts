@@ -4,6 +4,7 @@ import {
   storageGet,
   storageSet,
   storageRemove,
+  storageKeys,
   onStorageChanged,
 } from '../storage';
 
@@ -61,6 +62,14 @@ describe('storage', () => {
     });
   });
 
+  describe('storageKeys', () => {
+    it('lists every key in the area', async () => {
+      await fakeBrowser.storage.local.set({ a: 1, b: 2 });
+      await fakeBrowser.storage.sync.set({ c: 3 });
+      expect((await storageKeys('local')).sort()).toEqual(['a', 'b']);
+    });
+  });
+
   describe('onStorageChanged', () => {
     it('fires the callback when the watched key changes', async () => {
       const changes: Array<{ newValue: unknown; oldValue: unknown }> = [];
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  toChromeTabGroupData,
+  queryTabGroups,
+  groupTabs,
+  onTabGroupCreated,
+} from '../tab-groups';
+import { ChromeApiError } from '../errors';
+
+// fakeBrowser doesn't implement tabGroups — mock it manually
+const mocks = vi.hoisted(() => ({
+  browser: {
+    tabs: { group: vi.fn() },
+    tabGroups: undefined as unknown,
+  },
+}));
+
+vi.mock('wxt/browser', () => ({ browser: mocks.browser }));
+
+const nativeGroup = {
+  id: 3,
+  windowId: 1,
+  title: 'Docs',
+  color: 'cyan',
+  collapsed: false,
+  shared: false,
+} as Browser.tabGroups.TabGroup;
+
+afterEach(() => {
+  mocks.browser.tabGroups = undefined;
+  mocks.browser.tabs.group.mockReset();
+});
+
+describe('toChromeTabGroupData', () => {
+  it('extracts only the persisted fields', () => {
+    expect(toChromeTabGroupData(nativeGroup)).toEqual({
+      id: 3,
+      windowId: 1,
+      title: 'Docs',
+      color: 'cyan',
+      collapsed: false,
+    });
+  });
+});
+
+describe('without the tabGroups API', () => {
+  it('queries resolve empty and subscriptions are no-ops', async () => {
+    await expect(queryTabGroups()).resolves.toEqual([]);
+    expect(onTabGroupCreated(vi.fn())).toBeTypeOf('function');
+  });
+});
+
+describe('with the tabGroups API', () => {
+  it('maps queried groups and wires event listeners', async () => {
+    const addListener = vi.fn();
+    const removeListener = vi.fn();
+    mocks.browser.tabGroups = {
+      query: vi.fn().mockResolvedValue([nativeGroup]),
+      onCreated: { addListener, removeListener },
+    };
+
+    const cb = vi.fn();
+    const cleanup = onTabGroupCreated(cb);
+    addListener.mock.calls[0][0](nativeGroup);
+    expect(cb).toHaveBeenCalledWith(toChromeTabGroupData(nativeGroup));
+
+    cleanup();
+    expect(removeListener).toHaveBeenCalledWith(addListener.mock.calls[0][0]);
+    await expect(queryTabGroups()).resolves.toEqual([
+      toChromeTabGroupData(nativeGroup),
+    ]);
+  });
+});
+
+describe('groupTabs', () => {
+  it('returns the group ID', async () => {
+    mocks.browser.tabs.group.mockResolvedValue(9);
+    await expect(
+      groupTabs({ tabIds: [1, 2], createProperties: { windowId: 1 } }),
+    ).resolves.toBe(9);
+  });
+
+  it('wraps failures in ChromeApiError', async () => {
+    mocks.browser.tabs.group.mockRejectedValue(new Error('boom'));
+    await expect(groupTabs({ groupId: 9, tabIds: [1] })).rejects.toThrow(
+      ChromeApiError,
+    );
+  });
+});
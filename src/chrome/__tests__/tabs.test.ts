@@ -13,6 +13,7 @@ import {
   isExtensionUrl,
 } from '../tabs';
 import { ChromeApiError } from '../errors';
+import { placeholderUrl } from '../placeholder';
 import type { ChromeTabData } from '@/types/chrome';
 
 describe('tabs', () => {
@@ -31,6 +32,14 @@ describe('tabs', () => {
       expect(isExtensionUrl(extUrl)).toBe(true);
     });
 
+    it('returns false for placeholder pages', () => {
+      const url = placeholderUrl({
+        url: 'file:///home/me/notes.txt',
+        reason: 'file-access',
+      });
+      expect(isExtensionUrl(url)).toBe(false);
+    });
+
     it('returns false for regular URLs', () => {
       expect(isExtensionUrl('https://example.com')).toBe(false);
     });
@@ -58,8 +67,12 @@ describe('tabs', () => {
         incognito: false,
         active: true,
         highlighted: true,
+        openerTabId: 3,
         audible: true,
         mutedInfo: { muted: false },
+        discarded: false,
+        autoDiscardable: true,
+        lastAccessed: 1767225600000,
       } as Browser.tabs.Tab;
 
       const result = toChromeTabData(chromeTab);
@@ -75,9 +88,14 @@ describe('tabs', () => {
         incognito: false,
         active: true,
         highlighted: true,
+        muted: false,
+        discarded: false,
+        autoDiscardable: true,
+        openerTabId: 3,
+        audible: true,
+        lastAccessed: 1767225600000,
       });
 
-      expect(result).not.toHaveProperty('audible');
       expect(result).not.toHaveProperty('mutedInfo');
       expect(result).not.toHaveProperty('index');
     });
@@ -14,14 +14,29 @@ export interface WorkArea {
 
 /** Get the work area of the primary display (excludes taskbar/dock). */
 export async function getWorkArea(): Promise<WorkArea> {
+  const [primary] = await getWorkAreas();
+  return primary;
+}
+
+/**
+ * Get the work areas of all displays, primary first. Requires the optional
+ * `system.display` permission; throws when it hasn't been granted.
+ */
+export async function getWorkAreas(): Promise<WorkArea[]> {
   try {
     const displays = await browser.system.display.getInfo();
     if (displays.length === 0) {
       throw new ChromeApiError('No displays found', 'system.display.getInfo');
     }
     const primary = displays.find((d) => d.isPrimary) ?? displays[0];
-    const wa = primary.workArea;
-    return { top: wa.top, left: wa.left, width: wa.width, height: wa.height };
+    return [primary, ...displays.filter((d) => d !== primary)].map(
+      ({ workArea: wa }) => ({
+        top: wa.top,
+        left: wa.left,
+        width: wa.width,
+        height: wa.height,
+      }),
+    );
   } catch (err) {
     if (err instanceof ChromeApiError) throw err;
     throw new ChromeApiError(
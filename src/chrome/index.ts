@@ -2,7 +2,8 @@
  * Chrome API integration layer.
  *
  * Thin adapters over WXT's `browser.*` that add:
- * - Conversion to domain types (ChromeTabData, ChromeWindowData)
+ * - Conversion to domain types (ChromeTabData, ChromeTabGroupData,
+ *   ChromeWindowData)
  * - Standardized error handling (ChromeApiError)
  * - Event listener cleanup utilities
  * - Port management with auto-reconnection
@@ -15,6 +16,7 @@ export {
   storageGet,
   storageSet,
   storageRemove,
+  storageKeys,
   onStorageChanged,
 } from './storage';
 
@@ -22,9 +24,11 @@ export {
   toChromeTabData,
   queryTabs,
   getTab,
+  getCurrentTab,
   createTab,
   removeTab,
   updateTab,
+  discardTab,
   focusTab,
   onTabCreated,
   onTabRemoved,
@@ -40,6 +44,7 @@ export {
   toChromeWindowData,
   queryWindows,
   getWindow,
+  getCurrentWindow,
   createWindow,
   removeWindow,
   updateWindow,
@@ -47,9 +52,23 @@ export {
   onWindowCreated,
   onWindowRemoved,
   onWindowFocusChanged,
+  onWindowBoundsChanged,
 } from './windows';
 
-export { getWorkArea } from './display';
+export {
+  TAB_GROUP_ID_NONE,
+  isTabGroupsSupported,
+  toChromeTabGroupData,
+  queryTabGroups,
+  getTabGroup,
+  updateTabGroup,
+  groupTabs,
+  onTabGroupCreated,
+  onTabGroupUpdated,
+  onTabGroupRemoved,
+} from './tab-groups';
+
+export { getWorkArea, getWorkAreas } from './display';
 export type { WorkArea } from './display';
 
 export {
@@ -63,6 +82,22 @@ export { onCommand } from './commands';
 
 export { getAuthToken, removeAuthToken, getProfileEmail } from './identity';
 
+export {
+  originPattern,
+  hasOriginPermission,
+  requestOriginPermission,
+  hasApiPermission,
+  requestApiPermission,
+  hasFileSchemeAccess,
+} from './permissions';
+
+export {
+  placeholderUrl,
+  parsePlaceholderUrl,
+  isPlaceholderUrl,
+} from './placeholder';
+export type { PlaceholderReason, PlaceholderTarget } from './placeholder';
+
 export { PortManager, onPortConnect } from './runtime';
 export type { PortState, PortManagerOptions } from './runtime';
 
@@ -0,0 +1,95 @@
+/**
+ * Optional permissions adapter — runtime host access for user-configured
+ * endpoints (e.g. the remote backup target), optional APIs such as
+ * `system.display`, and the user's "Allow access to file URLs" toggle.
+ */
+
+import { browser } from 'wxt/browser';
+import { ChromeApiError } from './errors';
+
+/** Match pattern covering every path on the origin of `url`. */
+export function originPattern(url: string): string {
+  return `${new URL(url).origin}/*`;
+}
+
+/** True if the extension may already fetch from `url`'s origin. */
+export async function hasOriginPermission(url: string): Promise<boolean> {
+  try {
+    return await browser.permissions.contains({
+      origins: [originPattern(url)],
+    });
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to check origin permission',
+      'permissions.contains',
+      err,
+    );
+  }
+}
+
+/**
+ * Ask the user for access to `url`'s origin. Must be called from a user
+ * gesture (click handler). Resolves false if the user declines.
+ */
+export async function requestOriginPermission(url: string): Promise<boolean> {
+  try {
+    return await browser.permissions.request({
+      origins: [originPattern(url)],
+    });
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to request origin permission',
+      'permissions.request',
+      err,
+    );
+  }
+}
+
+/** True if the optional API `permission` has been granted. */
+export async function hasApiPermission(
+  permission: Browser.runtime.ManifestPermission,
+): Promise<boolean> {
+  try {
+    return await browser.permissions.contains({ permissions: [permission] });
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to check API permission',
+      'permissions.contains',
+      err,
+    );
+  }
+}
+
+/**
+ * Ask the user for the optional API `permission`. Must be called from a
+ * user gesture (click handler). Resolves false if the user declines.
+ */
+export async function requestApiPermission(
+  permission: Browser.runtime.ManifestPermission,
+): Promise<boolean> {
+  try {
+    return await browser.permissions.request({ permissions: [permission] });
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to request API permission',
+      'permissions.request',
+      err,
+    );
+  }
+}
+
+/**
+ * True if the user has turned on "Allow access to file URLs" for the
+ * extension, which it needs to open file:// tabs.
+ */
+export async function hasFileSchemeAccess(): Promise<boolean> {
+  try {
+    return await browser.extension.isAllowedFileSchemeAccess();
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to check file URL access',
+      'extension.isAllowedFileSchemeAccess',
+      err,
+    );
+  }
+}
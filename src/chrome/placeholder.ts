@@ -0,0 +1,84 @@
+/**
+ * Placeholder page URLs — the extension page that stands in for a saved
+ * tab whose URL can't be reopened, carrying the original URL, title and
+ * the reason in its query string.
+ *
+ * Unlike the extension's other pages, a placeholder tab is tracked in the
+ * tree like any user tab: it is that tab, just not loaded.
+ */
+
+import { browser } from 'wxt/browser';
+
+/** Why a saved tab opened as a placeholder. */
+export type PlaceholderReason =
+  /** file:// URL while "Allow access to file URLs" is off. */
+  | 'file-access'
+  /** A browser page extensions may not open (chrome://kill etc.). */
+  | 'blocked'
+  /** A blob: URL, which died with the page that created it. */
+  | 'expired'
+  /**
+   * A data: URL or another extension's page — opened only once the user
+   * confirms, since the tree may come from an imported file.
+   */
+  | 'untrusted'
+  /** A scheme the browser can't open in a tab (javascript:, ftp:, ...). */
+  | 'unsupported'
+  /** The browser refused to open the URL. */
+  | 'failed';
+
+export interface PlaceholderTarget {
+  readonly url: string;
+  readonly reason: PlaceholderReason;
+  readonly title?: string;
+}
+
+const PLACEHOLDER_PATH = '/placeholder.html';
+
+const REASONS: ReadonlySet<string> = new Set<PlaceholderReason>([
+  'file-access',
+  'blocked',
+  'expired',
+  'untrusted',
+  'unsupported',
+  'failed',
+]);
+
+function placeholderBase(): string {
+  return browser.runtime.getURL(
+    PLACEHOLDER_PATH as Parameters<typeof browser.runtime.getURL>[0],
+  );
+}
+
+/** URL of a placeholder page standing in for `target`. */
+export function placeholderUrl(target: PlaceholderTarget): string {
+  const params = new URLSearchParams({
+    url: target.url,
+    reason: target.reason,
+  });
+  if (target.title) params.set('title', target.title);
+  return `${placeholderBase()}?${params}`;
+}
+
+/** The tab a placeholder page URL stands in for, or null for other URLs. */
+export function parsePlaceholderUrl(
+  url: string | undefined,
+): PlaceholderTarget | null {
+  if (!url) return null;
+  const base = placeholderBase();
+  if (url !== base && !url.startsWith(`${base}?`)) return null;
+  const params = new URL(url).searchParams;
+  const original = params.get('url');
+  if (!original) return null;
+  const reason = params.get('reason') ?? '';
+  return {
+    url: original,
+    reason: REASONS.has(reason) ? (reason as PlaceholderReason) : 'failed',
+    title: params.get('title') ?? undefined,
+  };
+}
+
+/** Whether `url` is a placeholder page. */
+export function isPlaceholderUrl(url: string | undefined): boolean {
+  return parsePlaceholderUrl(url) != null;
+}
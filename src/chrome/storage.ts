@@ -32,6 +32,24 @@ export async function storageGet<T>(
   }
 }
 
+/**
+ * Every key in a storage area. Uses getKeys where the browser has it
+ * (Chrome 130+), else reads the whole area.
+ */
+export async function storageKeys(area: StorageAreaName): Promise<string[]> {
+  try {
+    const storage = getArea(area);
+    if (typeof storage.getKeys === 'function') return await storage.getKeys();
+    return Object.keys(await storage.get(null));
+  } catch (err) {
+    throw new ChromeApiError(
+      `Failed to list keys in storage.${area}`,
+      `storage.${area}.getKeys`,
+      err,
+    );
+  }
+}
+
 /** Set one or more key-value pairs in storage. */
 export async function storageSet(
   area: StorageAreaName,
@@ -0,0 +1,122 @@
+/**
+ * Tab group adapter — converts between Chrome API types and domain types.
+ *
+ * chrome.tabGroups is Chromium-only. When the API is missing (other
+ * browsers, test doubles) queries resolve empty and event subscriptions
+ * are no-ops, so callers never need to feature-detect themselves.
+ */
+
+import { browser } from 'wxt/browser';
+import type { ChromeTabGroupData } from '@/types/chrome';
+import { ChromeApiError } from './errors';
+
+/** Sentinel `groupId` of a tab that is not in any group. */
+export const TAB_GROUP_ID_NONE = -1;
+
+/** Whether this browser exposes the tabGroups API. */
+export function isTabGroupsSupported(): boolean {
+  return browser.tabGroups != null;
+}
+
+/** Extract the fields we persist from a native Chrome tab group. */
+export function toChromeTabGroupData(
+  group: Browser.tabGroups.TabGroup,
+): ChromeTabGroupData {
+  return {
+    id: group.id,
+    windowId: group.windowId,
+    title: group.title,
+    color: group.color,
+    collapsed: group.collapsed,
+  };
+}
+
+export async function queryTabGroups(
+  queryInfo: Browser.tabGroups.QueryInfo = {},
+): Promise<ChromeTabGroupData[]> {
+  if (!isTabGroupsSupported()) return [];
+  try {
+    const groups = await browser.tabGroups.query(queryInfo);
+    return groups.map(toChromeTabGroupData);
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to query tab groups',
+      'tabGroups.query',
+      err,
+    );
+  }
+}
+
+export async function getTabGroup(
+  groupId: number,
+): Promise<ChromeTabGroupData | null> {
+  if (!isTabGroupsSupported()) return null;
+  try {
+    return toChromeTabGroupData(await browser.tabGroups.get(groupId));
+  } catch (err) {
+    if (err instanceof Error && /no group/i.test(err.message)) {
+      return null;
+    }
+    throw new ChromeApiError('Failed to get tab group', 'tabGroups.get', err);
+  }
+}
+
+export async function updateTabGroup(
+  groupId: number,
+  props: Browser.tabGroups.UpdateProperties,
+): Promise<void> {
+  try {
+    await browser.tabGroups.update(groupId, props);
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to update tab group',
+      'tabGroups.update',
+      err,
+    );
+  }
+}
+
+/**
+ * Add tabs to an existing group (`options.groupId`) or a new one
+ * (`options.createProperties`). Returns the group ID.
+ */
+export async function groupTabs(
+  options: Browser.tabs.GroupOptions,
+): Promise<number> {
+  try {
+    return await browser.tabs.group(options);
+  } catch (err) {
+    throw new ChromeApiError('Failed to group tabs', 'tabs.group', err);
+  }
+}
+
+// --- Event subscriptions (each returns a cleanup function) ---
+
+function subscribe(
+  event: 'onCreated' | 'onUpdated' | 'onRemoved',
+  cb: (group: ChromeTabGroupData) => void,
+): () => void {
+  if (!isTabGroupsSupported()) return () => {};
+  const listener = (group: Browser.tabGroups.TabGroup) =>
+    cb(toChromeTabGroupData(group));
+  browser.tabGroups[event].addListener(listener);
+  return () => browser.tabGroups[event].removeListener(listener);
+}
+
+export function onTabGroupCreated(
+  cb: (group: ChromeTabGroupData) => void,
+): () => void {
+  return subscribe('onCreated', cb);
+}
+
+export function onTabGroupUpdated(
+  cb: (group: ChromeTabGroupData) => void,
+): () => void {
+  return subscribe('onUpdated', cb);
+}
+
+export function onTabGroupRemoved(
+  cb: (group: ChromeTabGroupData) => void,
+): () => void {
+  return subscribe('onRemoved', cb);
+}
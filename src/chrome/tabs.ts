@@ -8,12 +8,16 @@
 import { browser } from 'wxt/browser';
 import type { ChromeTabData } from '@/types/chrome';
 import { ChromeApiError } from './errors';
+import { isPlaceholderUrl } from './placeholder';
 
-/** Check if a URL belongs to this extension (tree.html, options.html, etc.). */
+/**
+ * Check if a URL belongs to this extension (tree.html, options.html, etc.).
+ * Placeholder pages don't count: they stand in for the user's own tabs.
+ */
 export function isExtensionUrl(url: string | undefined): boolean {
   if (!url) return false;
   const extOrigin = browser.runtime.getURL('/');
-  return url.startsWith(extOrigin);
+  return url.startsWith(extOrigin) && !isPlaceholderUrl(url);
 }
 
 /** Extract the fields we persist from a native Chrome tab. */
@@ -29,6 +33,13 @@ export function toChromeTabData(tab: Browser.tabs.Tab): ChromeTabData {
     incognito: tab.incognito,
     active: tab.active,
     highlighted: tab.highlighted,
+    muted: tab.mutedInfo?.muted,
+    audible: tab.audible,
+    lastAccessed: tab.lastAccessed,
+    discarded: tab.discarded,
+    autoDiscardable: tab.autoDiscardable,
+    groupId: tab.groupId,
+    openerTabId: tab.openerTabId,
   };
 }
 
@@ -108,6 +119,33 @@ export async function updateTab(
   return toChromeTabData(tab);
 }
 
+/** The tab the calling extension page is shown in, or null elsewhere. */
+export async function getCurrentTab(): Promise<ChromeTabData | null> {
+  try {
+    const tab = await browser.tabs.getCurrent();
+    return tab ? toChromeTabData(tab) : null;
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to get current tab',
+      'tabs.getCurrent',
+      err,
+    );
+  }
+}
+
+/**
+ * Unload a tab from memory, keeping it in the tab strip until it is
+ * focused again. Returns null when Chrome declines (e.g. the active tab).
+ */
+export async function discardTab(tabId: number): Promise<ChromeTabData | null> {
+  try {
+    const tab = await browser.tabs.discard(tabId);
+    return tab ? toChromeTabData(tab) : null;
+  } catch (err) {
+    throw new ChromeApiError('Failed to discard tab', 'tabs.discard', err);
+  }
+}
+
 /** Activate a tab and focus its window. */
 export async function focusTab(tabId: number, windowId: number): Promise<void> {
   try {
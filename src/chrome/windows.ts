@@ -9,9 +9,11 @@ import { browser } from 'wxt/browser';
 import type {
   ChromeTabData,
   ChromeWindowData,
+  ChromeWindowState,
   ChromeWindowType,
 } from '@/types/chrome';
 import { ChromeApiError } from './errors';
+import { toChromeTabData } from './tabs';
 
 /** Extract the fields we persist from a native Chrome window. */
 export function toChromeWindowData(
@@ -20,6 +22,7 @@ export function toChromeWindowData(
   return {
     id: win.id,
     type: win.type as ChromeWindowType | undefined,
+    state: win.state as ChromeWindowState | undefined,
     incognito: win.incognito,
     alwaysOnTop: win.alwaysOnTop,
     focused: win.focused,
@@ -59,6 +62,20 @@ export async function getWindow(
   }
 }
 
+/** The window the calling extension page is shown in, or null elsewhere. */
+export async function getCurrentWindow(): Promise<ChromeWindowData | null> {
+  try {
+    const win = await browser.windows.getCurrent();
+    return win ? toChromeWindowData(win) : null;
+  } catch (err) {
+    throw new ChromeApiError(
+      'Failed to get current window',
+      'windows.getCurrent',
+      err,
+    );
+  }
+}
+
 export async function createWindow(
   props: Browser.windows.CreateData,
 ): Promise<ChromeWindowData> {
@@ -81,12 +98,28 @@ export async function createWindow(
  * Returns the tab data for that first tab.
  *
  * Use this when there is no existing window to target — e.g., when
- * restoring a saved tab whose parent window no longer exists.
+ * restoring a saved tab whose parent window no longer exists. `props`
+ * carries the window's type, bounds or state.
  */
-export async function createWindowWithUrl(url: string): Promise<ChromeTabData> {
+export async function createWindowWithUrl(
+  url: string,
+  props: Omit<Browser.windows.CreateData, 'url'> = {},
+): Promise<ChromeTabData> {
+  const [tab] = await createWindowWithUrls([url], props);
+  return tab;
+}
+
+/**
+ * Create a new Chrome window with one tab per URL, in order. Returns the
+ * tab data for each of those tabs.
+ */
+export async function createWindowWithUrls(
+  urls: readonly string[],
+  props: Omit<Browser.windows.CreateData, 'url'> = {},
+): Promise<ChromeTabData[]> {
   let win: Browser.windows.Window | undefined;
   try {
-    win = await browser.windows.create({ url });
+    win = await browser.windows.create({ ...props, url: [...urls] });
   } catch (err) {
     throw new ChromeApiError('Failed to create window', 'windows.create', err);
   }
@@ -95,21 +128,10 @@ export async function createWindowWithUrl(url: string): Promise<ChromeTabData> {
       'Window not returned after create',
       'windows.create',
     );
-  const tab = win.tabs?.[0];
-  if (!tab)
+  const tabs = win.tabs ?? [];
+  if (tabs.length === 0)
     throw new ChromeApiError('No tab returned in new window', 'windows.create');
-  return {
-    id: tab.id,
-    windowId: tab.windowId,
-    url: tab.url,
-    title: tab.title,
-    favIconUrl: tab.favIconUrl,
-    status: tab.status,
-    pinned: tab.pinned,
-    incognito: tab.incognito,
-    active: tab.active,
-    highlighted: tab.highlighted,
-  };
+  return tabs.map(toChromeTabData);
 }
 
 /**
@@ -187,3 +209,14 @@ export function onWindowFocusChanged(
   browser.windows.onFocusChanged.addListener(cb);
   return () => browser.windows.onFocusChanged.removeListener(cb);
 }
+
+/** Window moved or resized (Chrome 86+; a no-op where unsupported). */
+export function onWindowBoundsChanged(
+  cb: (win: ChromeWindowData) => void,
+): () => void {
+  const event = browser.windows.onBoundsChanged;
+  if (!event) return () => {};
+  const listener = (win: Browser.windows.Window) => cb(toChromeWindowData(win));
+  event.addListener(listener);
+  return () => event.removeListener(listener);
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hierarchyToBookmarksHtml,
+  isBookmarksHtml,
+  parseBookmarksHtml,
+} from '../bookmarks-html';
+import { isValidHierarchyJSO } from '../hierarchy-jso';
+import type { HierarchyJSO } from '@/types/serialized';
+
+const CREATED = Date.UTC(2024, 0, 2, 3, 4, 5);
+
+const tree: HierarchyJSO = {
+  n: { type: 'session', data: { treeId: 't', nextDId: 1, nonDumpedDId: 1 } },
+  s: [
+    {
+      n: {
+        type: 'savedwin',
+        data: {},
+        created: CREATED,
+        marks: { relicons: [], customTitle: 'Research' },
+      },
+      s: [
+        { n: { type: 'textnote', data: { note: 'Read these first' } } },
+        {
+          n: {
+            data: { url: 'https://a.com/?x=1&y=2', title: 'A <site>' },
+            created: CREATED,
+            marks: { relicons: [], customTitle: 'My A' },
+          },
+        },
+        { n: { type: 'separatorline', data: { separatorIndx: 0 } } },
+        {
+          n: { type: 'group', data: null },
+          s: [{ n: { data: { url: 'https://b.com', title: 'B' } } }],
+        },
+      ],
+    },
+  ],
+};
+
+describe('hierarchyToBookmarksHtml', () => {
+  const html = hierarchyToBookmarksHtml(tree);
+
+  it('writes a Netscape bookmark file', () => {
+    expect(html.startsWith('<!DOCTYPE NETSCAPE-Bookmark-file-1>')).toBe(true);
+    expect(isBookmarksHtml(html)).toBe(true);
+  });
+
+  it('writes containers as folders and tabs as bookmarks', () => {
+    expect(html).toContain('<DT><H3 ADD_DATE="1704164645">Research</H3>');
+    expect(html).toContain('<DT><H3>Group</H3>');
+    expect(html).toContain(
+      '<DT><A HREF="https://a.com/?x=1&amp;y=2" ADD_DATE="1704164645">A &lt;site&gt;</A>',
+    );
+    expect(html).toContain('<HR>');
+  });
+
+  it('writes customTitle and notes as descriptions', () => {
+    expect(html).toContain('<DD>My A');
+    expect(html).toContain('<DD>Read these first');
+    expect(html).not.toContain('<H3>Read these first</H3>');
+  });
+
+  it('exports a non-session root as the single top-level item', () => {
+    const subtree = tree.s![0].s![3];
+    const parsed = parseBookmarksHtml(hierarchyToBookmarksHtml(subtree));
+    expect(parsed!.s).toHaveLength(1);
+    expect(parsed!.s![0].s![0].n.data).toEqual({
+      url: 'https://b.com',
+      title: 'B',
+    });
+  });
+});
+
+describe('parseBookmarksHtml', () => {
+  it('round-trips structure, titles, dates and descriptions', () => {
+    const parsed = parseBookmarksHtml(hierarchyToBookmarksHtml(tree));
+    expect(parsed).not.toBeNull();
+    expect(isValidHierarchyJSO(parsed)).toBe(true);
+    expect(parsed!.n.type).toBe('session');
+
+    const win = parsed!.s![0];
+    expect(win.n).toEqual({
+      type: 'savedwin',
+      data: {},
+      created: CREATED,
+      marks: { relicons: [], customTitle: 'Research' },
+    });
+    expect(win.s!.map((h) => h.n.type)).toEqual([
+      'textnote',
+      undefined,
+      'separatorline',
+      'group',
+    ]);
+    expect(win.s![0].n.data).toEqual({ note: 'Read these first' });
+    expect(win.s![1].n).toEqual({
+      data: { url: 'https://a.com/?x=1&y=2', title: 'A <site>' },
+      created: CREATED,
+      marks: { relicons: [], customTitle: 'My A' },
+    });
+    expect(win.s![3].s![0].n.data).toEqual({
+      url: 'https://b.com',
+      title: 'B',
+    });
+  });
+
+  it('reads a browser export', () => {
+    const html = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<!-- This is an automatically generated file. -->
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000" LAST_MODIFIED="1700000001" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://example.com/" ADD_DATE="1700000002" ICON="data:image/png;base64,AAAA">Example</A>
+        <DT><H3>Nested</H3>
+        <DL><p>
+        </DL><p>
+    </DL><p>
+    <DT><A HREF="https://loose.com/">Loose</A>
+</DL><p>
+`;
+    const parsed = parseBookmarksHtml(html)!;
+    expect(parsed.s).toHaveLength(2);
+
+    const bar = parsed.s![0];
+    expect(bar.n.type).toBe('savedwin');
+    expect(bar.n.created).toBe(1700000000000);
+    expect(bar.n.marks?.customTitle).toBe('Bookmarks bar');
+    expect(bar.s![0].n).toEqual({
+      data: { url: 'https://example.com/', title: 'Example' },
+      created: 1700000002000,
+    });
+    expect(bar.s![1].n.type).toBe('group');
+    expect(bar.s![1].s).toBeUndefined();
+
+    expect(parsed.s![1].n.data).toEqual({
+      url: 'https://loose.com/',
+      title: 'Loose',
+    });
+  });
+
+  it('returns null without a bookmark list', () => {
+    expect(parseBookmarksHtml('<p>Just a page</p>')).toBeNull();
+    expect(isBookmarksHtml('<ul><li>Outline</li></ul>')).toBe(false);
+  });
+});
@@ -111,6 +111,26 @@ describe('encodeEntry', () => {
     expect(tuple[2]).toEqual(marks);
   });
 
+  it('appends timestamps after the marks slot', () => {
+    const node: SerializedNode = {
+      data: { url: 'https://example.com' },
+      created: 1000,
+      lastVisited: 2000,
+    };
+    const tuple = encodeEntry(node);
+    expect(tuple).toEqual([
+      5,
+      { url: 'https://example.com' },
+      null,
+      { created: 1000, lastVisited: 2000 },
+    ]);
+
+    const decoded = decodeEntry(JSON.stringify(tuple));
+    expect(decoded.created).toBe(1000);
+    expect(decoded.lastVisited).toBe(2000);
+    expect(decoded.marks).toBeUndefined();
+  });
+
   it('round-trips all node types', () => {
     const types = [
       undefined, // savedtab
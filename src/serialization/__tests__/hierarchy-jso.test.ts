@@ -6,6 +6,7 @@ import {
   hierarchiesEqual,
   importTreeFile,
   exportTreeFile,
+  withoutDiffIds,
 } from '../hierarchy-jso';
 import type { HierarchyJSO } from '@/types/serialized';
 
@@ -164,6 +165,20 @@ describe('normalizeSerializedNode', () => {
     expect(raw.marks.U).toBe('#ff0000');
     expect(raw.marks.J).toBe('Title');
   });
+
+  it("flattens legacy tab data's mutedInfo into the muted flag", () => {
+    const muted = normalizeSerializedNode({
+      type: 'savedtab',
+      data: { url: 'https://a.com', mutedInfo: { muted: true } },
+    });
+    expect(muted.data).toEqual({ url: 'https://a.com', muted: true });
+
+    const unmuted = normalizeSerializedNode({
+      type: 'savedtab',
+      data: { url: 'https://a.com', mutedInfo: { muted: false } },
+    });
+    expect(unmuted.data).toEqual({ url: 'https://a.com' });
+  });
 });
 
 describe('countNodes', () => {
@@ -203,6 +218,25 @@ describe('hierarchiesEqual', () => {
     const b: HierarchyJSO = { n: { data: null } };
     expect(hierarchiesEqual(a, b)).toBe(false);
   });
+
+  it('ignores key order', () => {
+    const a: HierarchyJSO = { n: { type: 'tab', data: { url: 'a', id: 1 } } };
+    const b: HierarchyJSO = { n: { data: { id: 1, url: 'a' }, type: 'tab' } };
+    expect(hierarchiesEqual(a, b)).toBe(true);
+  });
+});
+
+describe('withoutDiffIds', () => {
+  it('strips diff ids at every level', () => {
+    const tree: HierarchyJSO = {
+      n: { type: 'session', data: null, dId: 3, cdId: 2 },
+      s: [{ n: { data: { url: 'a' }, dId: 1, cdId: 1, sdId: 1 } }],
+    };
+    expect(withoutDiffIds(tree)).toEqual({
+      n: { type: 'session', data: null },
+      s: [{ n: { data: { url: 'a' } } }],
+    });
+  });
 });
 
 describe('importTreeFile / exportTreeFile', () => {
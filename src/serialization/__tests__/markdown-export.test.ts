@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { treeToMarkdown } from '../markdown-export';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { TabTreeNode } from '@/tree/nodes/tab-node';
+import { TextNoteTreeNode } from '@/tree/nodes/text-note-node';
+import { SeparatorTreeNode } from '@/tree/nodes/separator-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
+
+function buildSession(): SessionTreeNode {
+  const session = new SessionTreeNode();
+  const win = new SavedWindowTreeNode();
+  win.setMarks({ relicons: [], customTitle: 'Research' });
+  const saved = new SavedTabTreeNode({
+    url: 'https://a.com/x (1)',
+    title: 'A [draft]',
+  });
+  saved.setMarks({ relicons: [], customTitle: 'My A' });
+  const live = new TabTreeNode({ url: 'https://b.com', title: 'B' });
+  const group = new GroupTreeNode();
+  group.insertSubnode(0, new TextNoteTreeNode({ note: 'Read *first*' }));
+
+  win.insertSubnode(0, saved);
+  win.insertSubnode(1, live);
+  win.insertSubnode(2, new SeparatorTreeNode({ separatorIndx: 0 }));
+  win.insertSubnode(3, group);
+  session.insertSubnode(0, win);
+  return session;
+}
+
+describe('treeToMarkdown', () => {
+  it('writes a nested bullet list with links, notes and separators', () => {
+    expect(treeToMarkdown(buildSession())).toBe(
+      '- Research\n' +
+        '  - [My A](https://a.com/x%20%281%29)\n' +
+        '  - [B](https://b.com)\n' +
+        '  ---\n' +
+        '  - Group\n' +
+        '    - Read \\*first\\*\n',
+    );
+  });
+
+  it('uses the page title when custom titles are off', () => {
+    const md = treeToMarkdown(buildSession(), { useCustomTitles: false });
+    expect(md).toContain('  - [A \\[draft\\]](https://a.com/x%20%281%29)\n');
+  });
+
+  it('leaves out live or saved tabs', () => {
+    const withoutLive = treeToMarkdown(buildSession(), {
+      includeLiveTabs: false,
+    });
+    expect(withoutLive).not.toContain('https://b.com');
+    expect(withoutLive).toContain('[My A]');
+
+    const withoutSaved = treeToMarkdown(buildSession(), {
+      includeSavedTabs: false,
+    });
+    expect(withoutSaved).not.toContain('[My A]');
+    expect(withoutSaved).toContain('[B](https://b.com)');
+  });
+
+  it('stops at maxDepth', () => {
+    expect(treeToMarkdown(buildSession(), { maxDepth: 1 })).toBe(
+      '- Research\n',
+    );
+    expect(treeToMarkdown(buildSession(), { maxDepth: 2 })).not.toContain(
+      'Read',
+    );
+  });
+
+  it('exports a non-session root as the one top-level item', () => {
+    const note = new TextNoteTreeNode({ note: 'Line one\nLine two' });
+    note.insertSubnode(
+      0,
+      new SavedTabTreeNode({ url: 'https://c.com', title: '' }),
+    );
+    expect(treeToMarkdown(note)).toBe(
+      '- Line one\n  Line two\n  - [https://c.com](https://c.com)\n',
+    );
+  });
+
+  it('returns an empty string when nothing is left', () => {
+    expect(treeToMarkdown(new SessionTreeNode())).toBe('');
+  });
+});
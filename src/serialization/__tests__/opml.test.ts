@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { isOpml, parseOpml, treeToOpml } from '../opml';
+import { isValidHierarchyJSO } from '../hierarchy-jso';
+import { SessionTreeNode } from '@/tree/nodes/session-node';
+import { SavedTabTreeNode } from '@/tree/nodes/saved-tab-node';
+import { SavedWindowTreeNode } from '@/tree/nodes/saved-window-node';
+import { TextNoteTreeNode } from '@/tree/nodes/text-note-node';
+import { SeparatorTreeNode } from '@/tree/nodes/separator-node';
+import { GroupTreeNode } from '@/tree/nodes/group-node';
+
+const CREATED = Date.UTC(2024, 0, 2, 3, 4, 5);
+
+function buildSession(): SessionTreeNode {
+  const session = new SessionTreeNode();
+  const win = new SavedWindowTreeNode();
+  win.setMarks({ relicons: [], customTitle: 'Research' });
+  const tab = new SavedTabTreeNode({
+    url: 'https://a.com/?x=1&y=2',
+    title: 'A "site"',
+  });
+  tab.setMarks({ relicons: [], customTitle: 'My A' });
+  tab.created = CREATED;
+  const group = new GroupTreeNode();
+  group.insertSubnode(
+    0,
+    new SavedTabTreeNode({ url: 'https://b.com', title: 'B' }),
+  );
+
+  win.insertSubnode(0, new TextNoteTreeNode({ note: 'First\nSecond' }));
+  win.insertSubnode(1, tab);
+  win.insertSubnode(2, new SeparatorTreeNode({ separatorIndx: 0 }));
+  win.insertSubnode(3, group);
+  session.insertSubnode(0, win);
+  return session;
+}
+
+describe('treeToOpml', () => {
+  const opml = treeToOpml(buildSession());
+
+  it('writes an OPML 2.0 document', () => {
+    expect(opml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(
+      true,
+    );
+    expect(opml).toContain('<opml version="2.0">');
+    expect(isOpml(opml)).toBe(true);
+  });
+
+  it('writes tabs with htmlUrl, customTitle as _note and created', () => {
+    expect(opml).toContain(
+      '<outline text="A &quot;site&quot;" htmlUrl="https://a.com/?x=1&amp;y=2" _note="My A" created="Tue, 02 Jan 2024 03:04:05 GMT"/>',
+    );
+  });
+
+  it('writes containers, notes and separators as text outlines', () => {
+    expect(opml).toContain('<outline text="Research"');
+    expect(opml).toContain('<outline text="First&#10;Second"');
+    expect(opml).toContain('<outline text="---"');
+    expect(opml).toContain('<outline text="Group"');
+  });
+});
+
+describe('parseOpml', () => {
+  it('round-trips structure, titles, dates and notes', () => {
+    const parsed = parseOpml(treeToOpml(buildSession()));
+    expect(parsed).not.toBeNull();
+    expect(isValidHierarchyJSO(parsed)).toBe(true);
+    expect(parsed!.n.type).toBe('session');
+
+    const win = parsed!.s![0];
+    expect(win.n.type).toBe('savedwin');
+    expect(win.n.marks?.customTitle).toBe('Research');
+    expect(win.s!.map((h) => h.n.type)).toEqual([
+      'textnote',
+      undefined,
+      'separatorline',
+      'group',
+    ]);
+    expect(win.s![0].n.data).toEqual({ note: 'First\nSecond' });
+    expect(win.s![1].n).toEqual({
+      data: { url: 'https://a.com/?x=1&y=2', title: 'A "site"' },
+      created: CREATED,
+      marks: { relicons: [], customTitle: 'My A' },
+    });
+    expect(win.s![3].s![0].n.data).toEqual({
+      url: 'https://b.com',
+      title: 'B',
+    });
+  });
+
+  it('reads outlines from other tools', () => {
+    const xml = `<?xml version="1.0"?>
+<!-- exported -->
+<opml version="1.0">
+  <head><title>Feeds</title></head>
+  <body>
+    <outline text='Tech'>
+      <outline type="rss" text="Blog" xmlUrl="https://blog.com/feed" />
+      <outline type="link" text="Docs" url="https://docs.com" _note="Reference"></outline>
+    </outline>
+    <outline text="Loose idea" _note="Details"/>
+  </body>
+</opml>`;
+    const parsed = parseOpml(xml)!;
+    expect(parsed.s).toHaveLength(2);
+
+    const tech = parsed.s![0];
+    expect(tech.n.type).toBe('savedwin');
+    expect(tech.s!.map((h) => h.n.data)).toEqual([
+      { url: 'https://blog.com/feed', title: 'Blog' },
+      { url: 'https://docs.com', title: 'Docs' },
+    ]);
+    expect(tech.s![1].n.marks?.customTitle).toBe('Reference');
+    expect(parsed.s![1].n).toEqual({
+      type: 'textnote',
+      data: { note: 'Loose idea\nDetails' },
+    });
+  });
+
+  it('returns null for anything but OPML', () => {
+    expect(parseOpml('<html><body></body></html>')).toBeNull();
+    expect(parseOpml('<opml version="2.0"><head/></opml>')).toBeNull();
+  });
+});
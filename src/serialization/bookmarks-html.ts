@@ -0,0 +1,331 @@
+/**
+ * Netscape bookmark file export and import — the `<DL><DT><A HREF>` format
+ * every browser and bookmark manager reads and writes.
+ *
+ * Mapping:
+ *   window, group, session     → folder `<DT><H3>` (title: customTitle)
+ *   node with a URL            → bookmark `<DT><A HREF>`; customTitle → `<DD>`
+ *   text note without children → a line of its folder's `<DD>`
+ *   text note with children    → folder titled with the note text
+ *   separator                  → `<HR>`
+ *   created                    → ADD_DATE (seconds since epoch)
+ *
+ * Import reverses this. Bookmark files don't say which folders were
+ * windows, so top-level folders become saved windows (tabs need one) and
+ * nested folders become groups.
+ */
+
+import type { HierarchyJSO, SerializedNode } from '@/types/serialized';
+import { NodeTypesEnum } from '@/types/enums';
+import { encodeEntities } from './html-export';
+
+const HEADER =
+  '<!DOCTYPE NETSCAPE-Bookmark-file-1>\n' +
+  '<!-- This is an automatically generated file.\n' +
+  '     It will be read and overwritten.\n' +
+  '     DO NOT EDIT! -->\n' +
+  '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">\n' +
+  '<TITLE>Bookmarks</TITLE>\n' +
+  '<H1>Bookmarks</H1>\n';
+
+const INDENT = '    ';
+
+/** Folder names for containers without a customTitle. */
+const FOLDER_DEFAULTS: Partial<Record<string, string>> = {
+  [NodeTypesEnum.SESSION]: 'Session',
+  [NodeTypesEnum.WINDOW]: 'Window',
+  [NodeTypesEnum.SAVEDWINDOW]: 'Window',
+  [NodeTypesEnum.WAITINGWINDOW]: 'Window',
+  [NodeTypesEnum.GROUP]: 'Group',
+};
+
+// -- Export --
+
+function nodeUrl(n: SerializedNode): string | undefined {
+  const url = (n.data as { url?: unknown } | null)?.url;
+  return typeof url === 'string' && url !== '' ? url : undefined;
+}
+
+function nodeTitle(n: SerializedNode): string {
+  const title = (n.data as { title?: unknown } | null)?.title;
+  return typeof title === 'string' ? title : '';
+}
+
+function noteText(n: SerializedNode): string {
+  const note = (n.data as { note?: unknown } | null)?.note;
+  return typeof note === 'string' ? note : '';
+}
+
+function isLeafNote(h: HierarchyJSO): boolean {
+  return h.n.type === NodeTypesEnum.TEXTNOTE && !h.s?.length;
+}
+
+function addDate(n: SerializedNode): string {
+  return n.created ? ` ADD_DATE="${Math.floor(n.created / 1000)}"` : '';
+}
+
+function folderTitle(n: SerializedNode): string {
+  if (n.type === NodeTypesEnum.TEXTNOTE) return noteText(n);
+  const tabGroupTitle = (n.data as { title?: unknown } | null)?.title;
+  return (
+    n.marks?.customTitle ||
+    (typeof tabGroupTitle === 'string' && tabGroupTitle) ||
+    FOLDER_DEFAULTS[n.type ?? ''] ||
+    ''
+  );
+}
+
+/** `<DD>` for the leaf notes among `children`, or nothing. */
+function notesDescription(
+  children: readonly HierarchyJSO[],
+  indent: string,
+): string {
+  const notes = children.filter(isLeafNote).map((h) => noteText(h.n));
+  return notes.length > 0
+    ? `${indent}<DD>${encodeEntities(notes.join('\n'))}\n`
+    : '';
+}
+
+function serializeList(
+  children: readonly HierarchyJSO[],
+  indent: string,
+): string {
+  let out = `${indent}<DL><p>\n`;
+  for (const child of children) {
+    if (!isLeafNote(child)) out += serializeItem(child, indent + INDENT);
+  }
+  return out + `${indent}</DL><p>\n`;
+}
+
+function serializeItem(h: HierarchyJSO, indent: string): string {
+  const { n } = h;
+  if (n.type === NodeTypesEnum.SEPARATORLINE) return `${indent}<HR>\n`;
+
+  const url = nodeUrl(n);
+  if (url !== undefined) {
+    const title = encodeEntities(nodeTitle(n) || url);
+    const customTitle = n.marks?.customTitle;
+    return (
+      `${indent}<DT><A HREF="${encodeEntities(url)}"${addDate(n)}>${title}</A>\n` +
+      (customTitle ? `${indent}<DD>${encodeEntities(customTitle)}\n` : '')
+    );
+  }
+
+  const children = h.s ?? [];
+  return (
+    `${indent}<DT><H3${addDate(n)}>${encodeEntities(folderTitle(n))}</H3>\n` +
+    notesDescription(children, indent) +
+    serializeList(children, indent)
+  );
+}
+
+/**
+ * Serialize a hierarchy as a Netscape bookmark file. A session root stands
+ * for the file itself (its children are the top-level items); any other
+ * root is exported as the one top-level item.
+ */
+export function hierarchyToBookmarksHtml(hierarchy: HierarchyJSO): string {
+  const top =
+    hierarchy.n.type === NodeTypesEnum.SESSION
+      ? (hierarchy.s ?? [])
+      : [hierarchy];
+  return HEADER + notesDescription(top, '') + serializeList(top, '');
+}
+
+// -- Import --
+
+interface DraftNode {
+  kind: 'folder' | 'bookmark' | 'separator';
+  title: string;
+  url?: string;
+  created?: number;
+  description?: string;
+  readonly children: DraftNode[];
+}
+
+/** Tags and text runs, in document order. */
+const TOKEN_RE = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)/g;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&amp;/g, '&');
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i').exec(attrs);
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+function parseAddDate(attrs: string): number | undefined {
+  const seconds = Number(attribute(attrs, 'ADD_DATE'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function newDraft(kind: DraftNode['kind'], attrs = ''): DraftNode {
+  const created = parseAddDate(attrs);
+  return {
+    kind,
+    title: '',
+    ...(created ? { created } : {}),
+    children: [],
+  };
+}
+
+function timestamps(draft: DraftNode): { created?: number } {
+  return draft.created ? { created: draft.created } : {};
+}
+
+function noteNodes(description: string | undefined): HierarchyJSO[] {
+  return (description ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .map((note) => ({ n: { type: 'textnote', data: { note } } }));
+}
+
+function toHierarchy(draft: DraftNode, depth: number): HierarchyJSO {
+  if (draft.kind === 'separator') {
+    return { n: { type: 'separatorline', data: { separatorIndx: 0 } } };
+  }
+  if (draft.kind === 'bookmark') {
+    const customTitle = draft.description?.trim();
+    return {
+      n: {
+        data: { url: draft.url, title: draft.title.trim() },
+        ...timestamps(draft),
+        ...(customTitle ? { marks: { relicons: [], customTitle } } : {}),
+      },
+    };
+  }
+
+  const title = draft.title.trim();
+  const s = [
+    ...noteNodes(draft.description),
+    ...draft.children.map((c) => toHierarchy(c, depth + 1)),
+  ];
+  return {
+    n: {
+      ...(depth === 1
+        ? { type: 'savedwin' as const, data: {} }
+        : { type: 'group' as const, data: null }),
+      ...timestamps(draft),
+      ...(title ? { marks: { relicons: [], customTitle: title } } : {}),
+    },
+    ...(s.length > 0 ? { s } : {}),
+  };
+}
+
+/** Whether `html` looks like a Netscape bookmark file. */
+export function isBookmarksHtml(html: string): boolean {
+  return (
+    /<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i.test(html) ||
+    /<DL[\s>]/i.test(html)
+  );
+}
+
+/**
+ * Parse a Netscape bookmark file into a hierarchy under a session root.
+ * Returns null when the file holds no bookmark list.
+ */
+export function parseBookmarksHtml(html: string): HierarchyJSO | null {
+  const root = newDraft('folder');
+  const open: DraftNode[] = [];
+  let sawList = false;
+  /** Folder waiting for its `<DL>`. */
+  let pendingFolder: DraftNode | null = null;
+  /** Item a following `<DD>` describes. */
+  let described: DraftNode | null = null;
+  /** Where text runs currently go. */
+  let capture: 'title' | 'description' | null = null;
+  let target: DraftNode | null = null;
+
+  const current = (): DraftNode => open[open.length - 1] ?? root;
+
+  const source = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const match of source.matchAll(TOKEN_RE)) {
+    const [, closing, rawName, attrs = '', text] = match;
+    if (text !== undefined) {
+      if (capture && target) {
+        const decoded = decodeEntities(text);
+        if (capture === 'title') target.title += decoded;
+        else target.description = (target.description ?? '') + decoded;
+      }
+      continue;
+    }
+
+    const name = rawName.toUpperCase();
+    // A description runs until the next tag.
+    if (capture === 'description') capture = null;
+
+    if (closing) {
+      if (name === 'A' || name === 'H3' || name === 'H1') capture = null;
+      if (name === 'DL' && open.length > 0) {
+        described = open.pop() ?? null;
+      }
+      continue;
+    }
+
+    switch (name) {
+      case 'H1':
+        described = root;
+        break;
+      case 'H3': {
+        const folder = newDraft('folder', attrs);
+        current().children.push(folder);
+        pendingFolder = folder;
+        described = folder;
+        capture = 'title';
+        target = folder;
+        break;
+      }
+      case 'A': {
+        const bookmark = newDraft('bookmark', attrs);
+        bookmark.url = attribute(attrs, 'HREF') ?? '';
+        current().children.push(bookmark);
+        pendingFolder = null;
+        described = bookmark;
+        capture = 'title';
+        target = bookmark;
+        break;
+      }
+      case 'HR':
+        current().children.push(newDraft('separator'));
+        pendingFolder = null;
+        described = null;
+        break;
+      case 'DD':
+        if (described) {
+          capture = 'description';
+          target = described;
+        }
+        break;
+      case 'DL':
+        sawList = true;
+        open.push(pendingFolder ?? current());
+        pendingFolder = null;
+        break;
+    }
+  }
+
+  if (!sawList) return null;
+  return {
+    n: {
+      type: 'session',
+      data: { treeId: `imported-${Date.now()}`, nextDId: 1, nonDumpedDId: 1 },
+    },
+    s: [
+      ...noteNodes(root.description),
+      ...root.children.map((c) => toHierarchy(c, 1)),
+    ],
+  };
+}
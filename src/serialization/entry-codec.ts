@@ -5,14 +5,19 @@
  *
  * The entry wire format is a JSON-encoded tuple: [typeCode, data] or [typeCode, data, marks]
  * where typeCode is negative if the node is collapsed. The type code sign bit encodes
- * collapsed state.
+ * collapsed state. Entries written by this version append the node's timestamps as a
+ * fourth element (marks is then null when absent); legacy entries never have it.
  *
  * Note: marks normalization (mangled Closure Compiler field names) is NOT done here —
  * it happens in normalizeSerializedNode() in hierarchy-jso.ts.
  */
 
 import { NODE_TYPE_NUM2STR, NODE_TYPE_STR2NUM } from '@/types/enums';
-import type { SerializedNode, EntryWireFormat } from '@/types/serialized';
+import type {
+  SerializedNode,
+  EntryWireFormat,
+  EntryTimestamps,
+} from '@/types/serialized';
 import type { NodeMarks } from '@/types/marks';
 
 /**
@@ -26,7 +31,8 @@ export function decodeEntry(json: string): SerializedNode {
 
   const typeCode = tuple[0] as number;
   const data = tuple[1];
-  const marks = tuple[2] as NodeMarks | undefined;
+  const marks = tuple[2] as NodeMarks | null | undefined;
+  const timestamps = tuple[3] as EntryTimestamps | undefined;
 
   // Fallback to savedtab for out-of-range or unknown type codes
   const typeStr = NODE_TYPE_NUM2STR[Math.abs(typeCode)] ?? 'savedtab';
@@ -49,6 +55,10 @@ export function decodeEntry(json: string): SerializedNode {
     node.marks = marks;
   }
 
+  if (timestamps) {
+    Object.assign(node, timestamps);
+  }
+
   return node as unknown as SerializedNode;
 }
 
@@ -56,13 +66,19 @@ export function decodeEntry(json: string): SerializedNode {
  * Encode a SerializedNode → EntryWireFormat tuple.
  *
  * Port of treemodel.js serializeNodeBodyContent_forDiff.
- * The type code is negative if collapsed.
+ * The type code is negative if collapsed; timestamps ride in a fourth element.
  */
 export function encodeEntry(node: SerializedNode): EntryWireFormat {
   const typeStr = node.type ?? 'savedtab';
   const typeNum = NODE_TYPE_STR2NUM[typeStr];
   const typeCode = typeNum * (node.colapsed ? -1 : 1);
 
+  const { created, savedAt, lastVisited } = node;
+  if (created != null || savedAt != null || lastVisited != null) {
+    const timestamps: EntryTimestamps = { created, savedAt, lastVisited };
+    return [typeCode, node.data, node.marks ?? null, timestamps];
+  }
+
   if (node.marks) {
     return [typeCode, node.data, node.marks];
   }
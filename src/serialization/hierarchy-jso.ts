@@ -99,6 +99,20 @@ export function normalizeSerializedNode(
     result.marks = marks as unknown as NodeMarks;
   }
 
+  // Tab data saved straight from a chrome.tabs.Tab carries the mute state
+  // as Chrome's mutedInfo object rather than our flat `muted` flag.
+  if (result.data && typeof result.data === 'object') {
+    const mutedInfo = (result.data as Record<string, unknown>).mutedInfo as
+      | { muted?: unknown }
+      | undefined;
+    if (mutedInfo && typeof mutedInfo === 'object') {
+      const data = { ...(result.data as Record<string, unknown>) };
+      delete data.mutedInfo;
+      if (mutedInfo.muted === true) data.muted = true;
+      result.data = data;
+    }
+  }
+
   return result as unknown as SerializedNode;
 }
 
@@ -113,10 +127,21 @@ export function countNodes(hierarchy: HierarchyJSO): number {
   return count;
 }
 
+/** JSON with object keys sorted, so key order doesn't matter. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v !== null && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : v,
+  );
+}
+
 /** Deep-compare two HierarchyJSO trees for migration validation. */
 export function hierarchiesEqual(a: HierarchyJSO, b: HierarchyJSO): boolean {
   // Compare nodes via JSON (order-independent for objects)
-  if (JSON.stringify(a.n) !== JSON.stringify(b.n)) return false;
+  if (canonicalJson(a.n) !== canonicalJson(b.n)) return false;
 
   const aChildren = a.s ?? [];
   const bChildren = b.s ?? [];
@@ -130,6 +155,23 @@ export function hierarchiesEqual(a: HierarchyJSO, b: HierarchyJSO): boolean {
   return true;
 }
 
+/**
+ * Copy of a hierarchy without the diff bookkeeping (dId, cdId, sdId,
+ * sdIdKnot), which storage assigns anew.
+ */
+export function withoutDiffIds(hierarchy: HierarchyJSO): HierarchyJSO {
+  const n: Record<string, unknown> = { ...hierarchy.n };
+  delete n.dId;
+  delete n.cdId;
+  delete n.sdId;
+  delete n.sdIdKnot;
+  const result: { n: SerializedNode; s?: HierarchyJSO[] } = {
+    n: n as unknown as SerializedNode,
+  };
+  if (hierarchy.s) result.s = hierarchy.s.map(withoutDiffIds);
+  return result;
+}
+
 /** Parse a .tree file JSON string → HierarchyJSO. Throws on invalid input. */
 export function importTreeFile(json: string): HierarchyJSO {
   const parsed: unknown = JSON.parse(json);
@@ -56,6 +56,14 @@ function getDisplayText(node: TreeNode): string {
   if (node.getHref()) {
     return node.getNodeText();
   }
+  return plainNodeTitle(node);
+}
+
+/**
+ * Title for a node without a URL: its customTitle, else a static container
+ * label, else getNodeText(). Shared by the outline exporters.
+ */
+export function plainNodeTitle(node: TreeNode): string {
   if (node.marks.customTitle) {
     return node.marks.customTitle;
   }
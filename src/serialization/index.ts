@@ -23,6 +23,7 @@ export {
   normalizeSerializedNode,
   countNodes,
   hierarchiesEqual,
+  withoutDiffIds,
   importTreeFile,
   exportTreeFile,
 } from './hierarchy-jso';
@@ -39,5 +40,20 @@ export type {
   WireOperation,
 } from './operations-codec';
 
-export { resolveKnotsToHierarchy } from './knot-resolver';
-export type { DiffSnapshot } from './knot-resolver';
+export {
+  hierarchyToBookmarksHtml,
+  isBookmarksHtml,
+  parseBookmarksHtml,
+} from './bookmarks-html';
+
+export { treeToMarkdown } from './markdown-export';
+export type { MarkdownExportOptions } from './markdown-export';
+
+export { treeToOpml, isOpml, parseOpml } from './opml';
+
+export {
+  resolveKnotsToHierarchy,
+  readKnot,
+  encodeHierarchyAsKnots,
+} from './knot-resolver';
+export type { DiffSnapshot, KnotContent } from './knot-resolver';
@@ -1,5 +1,5 @@
 /**
- * Recursive knot resolution: DiffSnapshot → HierarchyJSO.
+ * Recursive knot resolution: DiffSnapshot → HierarchyJSO, and back.
  *
  * Port of frontendview.js:9-66 (getKnotSubnodes, restoreTreeStructure, deserializeKnot).
  *
@@ -11,8 +11,14 @@
  */
 
 import { NodeTypesEnum } from '@/types/enums';
+import { i2s36 } from './base36';
+import {
+  CDID_SDID_SEPARATOR,
+  CDID_SUBNODESLIST_SEPARATOR,
+  SUBNODES_DIDS_SEPARATOR,
+} from './constants';
 import { restoreSubnodesList } from './knot-codec';
-import { decodeEntry } from './entry-codec';
+import { decodeEntry, encodeEntry } from './entry-codec';
 import { normalizeSerializedNode } from './hierarchy-jso';
 import type { SerializedNode, HierarchyJSO } from '@/types/serialized';
 
@@ -32,6 +38,64 @@ export function resolveKnotsToHierarchy(snapshot: DiffSnapshot): HierarchyJSO {
   return resolveNode(snapshot, snapshot.rootDid, new Set(), new Set());
 }
 
+export interface KnotContent {
+  readonly cdId: string;
+  readonly subnodesDids: string[];
+  /** dId of the knot whose subnodes list this one is a delta against. */
+  readonly baseDid: string | null;
+}
+
+/** Read the knot stored under `dId`; a missing knot reads as childless. */
+export function readKnot(
+  allKnots: ReadonlyMap<string, string>,
+  dId: string,
+): KnotContent {
+  const knotContent = allKnots.get(dId) ?? '';
+  const { subnodesDids, cdId } = getKnotSubnodes(
+    dId,
+    knotContent,
+    allKnots,
+    new Set(),
+  );
+  const parts = knotContent.includes(CDID_SUBNODESLIST_SEPARATOR)
+    ? []
+    : knotContent.split(CDID_SDID_SEPARATOR);
+  return { cdId, subnodesDids, baseDid: parts.length >= 2 ? parts[1] : null };
+}
+
+/**
+ * Encode a HierarchyJSO as a diff snapshot, numbering every node afresh
+ * from `firstDId`. Knots list their subnodes inline. Returns the snapshot
+ * and the first unused dId.
+ */
+export function encodeHierarchyAsKnots(
+  hierarchy: HierarchyJSO,
+  firstDId: number,
+): { snapshot: DiffSnapshot; nextDId: number } {
+  const allKnots = new Map<string, string>();
+  const entries = new Map<string, string>();
+  let nextDId = firstDId;
+
+  const encode = (node: HierarchyJSO): string => {
+    const subDids = (node.s ?? []).map(encode);
+    const cdId = i2s36(nextDId++);
+    entries.set(cdId, JSON.stringify(encodeEntry(node.n)));
+    const dId = i2s36(nextDId++);
+    allKnots.set(
+      dId,
+      subDids.length > 0
+        ? cdId +
+            CDID_SUBNODESLIST_SEPARATOR +
+            subDids.join(SUBNODES_DIDS_SEPARATOR)
+        : cdId,
+    );
+    return dId;
+  };
+
+  const rootDid = encode(hierarchy);
+  return { snapshot: { rootDid, allKnots, entries }, nextDId };
+}
+
 // -- Internal helpers --
 
 function resolveNode(
@@ -0,0 +1,97 @@
+/**
+ * Markdown export — the tree as a nested bullet list, for pasting into
+ * notes apps and documents.
+ *
+ * Format:
+ *   - [Title](URL)       → tab (saved or live)
+ *   - Title              → container (window, group) or text note
+ *   ---                  → separator
+ *   two-space indent     → one level of nesting
+ *
+ * A session root stands for the document itself: its children are the
+ * top-level bullets.
+ */
+
+import type { TreeNode } from '@/tree/tree-node';
+import { NodeTypesEnum } from '@/types/enums';
+import { plainNodeTitle } from './html-export';
+
+export interface MarkdownExportOptions {
+  /** List levels to write; deeper nodes are left out. 0 means no limit. */
+  readonly maxDepth?: number;
+  /** Include tabs open in the browser (default true). */
+  readonly includeLiveTabs?: boolean;
+  /** Include saved (closed) tabs (default true). */
+  readonly includeSavedTabs?: boolean;
+  /** Title tabs with their customTitle where set, not the page title (default true). */
+  readonly useCustomTitles?: boolean;
+}
+
+const INDENT = '  ';
+
+/** Escape characters Markdown would read as inline formatting. */
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, '\\$&');
+}
+
+/** Keep a URL inside `(...)`: spaces and parentheses would end it. */
+function escapeUrl(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/** Continuation lines of a multi-line item, indented under its bullet. */
+function indentLines(text: string, indent: string): string {
+  return text.split('\n').join(`\n${indent}${INDENT}`);
+}
+
+function isIncluded(node: TreeNode, options: MarkdownExportOptions): boolean {
+  if (!node.getHref()) return true;
+  return node.type === NodeTypesEnum.TAB
+    ? options.includeLiveTabs !== false
+    : options.includeSavedTabs !== false;
+}
+
+function itemText(node: TreeNode, options: MarkdownExportOptions): string {
+  const href = node.getHref();
+  if (!href) return escapeText(plainNodeTitle(node));
+
+  const customTitle =
+    options.useCustomTitles !== false ? node.marks.customTitle : undefined;
+  const title = customTitle || node.getNodeText() || href;
+  return `[${escapeText(title)}](${escapeUrl(href)})`;
+}
+
+function serializeItems(
+  nodes: readonly TreeNode[],
+  depth: number,
+  options: MarkdownExportOptions,
+): string[] {
+  const maxDepth = options.maxDepth ?? 0;
+  if (maxDepth > 0 && depth > maxDepth) return [];
+
+  const indent = INDENT.repeat(depth - 1);
+  const lines: string[] = [];
+  for (const node of nodes) {
+    if (!isIncluded(node, options)) continue;
+    if (node.type === NodeTypesEnum.SEPARATORLINE) {
+      lines.push(`${indent}---`);
+    } else {
+      lines.push(`${indent}- ${indentLines(itemText(node, options), indent)}`);
+    }
+    lines.push(...serializeItems(node.subnodes, depth + 1, options));
+  }
+  return lines;
+}
+
+/**
+ * Serialize a tree as a Markdown bullet list. A tab left out by the
+ * options is left out with its subtree.
+ */
+export function treeToMarkdown(
+  root: TreeNode,
+  options: MarkdownExportOptions = {},
+): string {
+  const top = root.type === NodeTypesEnum.SESSION ? root.subnodes : [root];
+  const lines = serializeItems(top, 1, options);
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
@@ -0,0 +1,213 @@
+/**
+ * OPML 2.0 outline export and import, for outliners and notes apps.
+ *
+ * Mapping:
+ *   node with a URL          → `<outline text htmlUrl>`; customTitle → `_note`
+ *   window, group, note      → `<outline text>` (title: customTitle or label)
+ *   separator                → `<outline text="---">`
+ *   created                  → `created` (RFC 822 date)
+ *
+ * Import reverses this, also taking a link from `xmlUrl` (feed lists) or
+ * `url` (`type="link"`). OPML doesn't say which outlines were windows, so
+ * top-level outlines with children become saved windows and nested ones
+ * groups; childless outlines without a link become text notes.
+ */
+
+import type { TreeNode } from '@/tree/tree-node';
+import type { HierarchyJSO } from '@/types/serialized';
+import { NodeTypesEnum } from '@/types/enums';
+import { encodeEntities, plainNodeTitle } from './html-export';
+
+const INDENT = '  ';
+const SEPARATOR_TEXT = '---';
+
+// -- Export --
+
+function outlineAttributes(node: TreeNode): string {
+  const attrs: [string, string][] = [];
+  const href = node.getHref();
+  if (href) {
+    attrs.push(['text', node.getNodeText() || href], ['htmlUrl', href]);
+    if (node.marks.customTitle) attrs.push(['_note', node.marks.customTitle]);
+  } else if (node.type === NodeTypesEnum.SEPARATORLINE) {
+    attrs.push(['text', SEPARATOR_TEXT]);
+  } else {
+    attrs.push(['text', plainNodeTitle(node)]);
+  }
+  if (node.created) {
+    attrs.push(['created', new Date(node.created).toUTCString()]);
+  }
+  return attrs
+    .map(([name, value]) => ` ${name}="${encodeAttribute(value)}"`)
+    .join('');
+}
+
+/** encodeEntities plus line breaks, which attribute values would fold into spaces. */
+function encodeAttribute(value: string): string {
+  return encodeEntities(value).replace(/\n/g, '&#10;');
+}
+
+function serializeOutline(node: TreeNode, indent: string): string {
+  const open = `${indent}<outline${outlineAttributes(node)}`;
+  if (node.subnodes.length === 0) return `${open}/>\n`;
+  return (
+    `${open}>\n` +
+    node.subnodes.map((c) => serializeOutline(c, indent + INDENT)).join('') +
+    `${indent}</outline>\n`
+  );
+}
+
+/**
+ * Serialize a tree as an OPML 2.0 document. A session root stands for the
+ * document body (its children are the top-level outlines); any other root
+ * is exported as the one top-level outline.
+ */
+export function treeToOpml(root: TreeNode): string {
+  const top = root.type === NodeTypesEnum.SESSION ? root.subnodes : [root];
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<opml version="2.0">\n' +
+    `${INDENT}<head>\n` +
+    `${INDENT}${INDENT}<title>Tabs Outliner</title>\n` +
+    `${INDENT}${INDENT}<dateCreated>${new Date().toUTCString()}</dateCreated>\n` +
+    `${INDENT}</head>\n` +
+    `${INDENT}<body>\n` +
+    top.map((node) => serializeOutline(node, INDENT + INDENT)).join('') +
+    `${INDENT}</body>\n` +
+    '</opml>\n'
+  );
+}
+
+// -- Import --
+
+interface DraftOutline {
+  readonly attrs: Readonly<Record<string, string>>;
+  readonly children: DraftOutline[];
+}
+
+/** `<outline>` tags (opening, closing or empty) and the `<body>` tags. */
+const TAG_RE = /<(\/?)(outline|body)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi;
+const ATTR_RE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, double, single] of source.matchAll(ATTR_RE)) {
+    attrs[name] = decodeEntities(double ?? single ?? '');
+  }
+  return attrs;
+}
+
+function outlineUrl(attrs: Readonly<Record<string, string>>): string {
+  return attrs.htmlUrl || attrs.xmlUrl || attrs.url || '';
+}
+
+function outlineCreated(attrs: Readonly<Record<string, string>>): {
+  created?: number;
+} {
+  const created = attrs.created ? Date.parse(attrs.created) : NaN;
+  return Number.isFinite(created) ? { created } : {};
+}
+
+function toHierarchy(draft: DraftOutline, depth: number): HierarchyJSO {
+  const { attrs } = draft;
+  const text = (attrs.text ?? attrs.title ?? '').trim();
+  const note = attrs._note?.trim();
+  const url = outlineUrl(attrs);
+  const s = draft.children.map((c) => toHierarchy(c, depth + 1));
+  const subnodes = s.length > 0 ? { s } : {};
+
+  if (url) {
+    return {
+      n: {
+        data: { url, title: text },
+        ...outlineCreated(attrs),
+        ...(note ? { marks: { relicons: [], customTitle: note } } : {}),
+      },
+      ...subnodes,
+    };
+  }
+  if (s.length === 0) {
+    if (text === SEPARATOR_TEXT) {
+      return { n: { type: 'separatorline', data: { separatorIndx: 0 } } };
+    }
+    return {
+      n: {
+        type: 'textnote',
+        data: { note: note ? `${text}\n${note}` : text },
+        ...outlineCreated(attrs),
+      },
+    };
+  }
+  return {
+    n: {
+      ...(depth === 1
+        ? { type: 'savedwin' as const, data: {} }
+        : { type: 'group' as const, data: null }),
+      ...outlineCreated(attrs),
+      ...(text ? { marks: { relicons: [], customTitle: text } } : {}),
+    },
+    ...subnodes,
+  };
+}
+
+/** Whether `text` looks like an OPML document. */
+export function isOpml(text: string): boolean {
+  return /<opml[\s>]/i.test(text);
+}
+
+/**
+ * Parse an OPML document into a hierarchy under a session root.
+ * Returns null when the document has no OPML body.
+ */
+export function parseOpml(xml: string): HierarchyJSO | null {
+  if (!isOpml(xml)) return null;
+
+  const root: DraftOutline = { attrs: {}, children: [] };
+  const open: DraftOutline[] = [];
+  let inBody = false;
+  let sawBody = false;
+
+  const source = xml.replace(/<!--[\s\S]*?-->/g, '');
+  for (const [tag, closing, rawName, rest] of source.matchAll(TAG_RE)) {
+    if (rawName.toLowerCase() === 'body') {
+      inBody = !closing;
+      sawBody = true;
+      continue;
+    }
+    if (!inBody) continue;
+    if (closing) {
+      open.pop();
+      continue;
+    }
+    const outline: DraftOutline = {
+      attrs: parseAttributes(rest),
+      children: [],
+    };
+    (open[open.length - 1] ?? root).children.push(outline);
+    if (!tag.endsWith('/>')) open.push(outline);
+  }
+
+  if (!sawBody) return null;
+  return {
+    n: {
+      type: 'session',
+      data: { treeId: `imported-${Date.now()}`, nextDId: 1, nonDumpedDId: 1 },
+    },
+    s: root.children.map((c) => toHierarchy(c, 1)),
+  };
+}
@@ -64,6 +64,15 @@ describe('saveSettings', () => {
       oneClickToOpen: true,
       lightBackground: true,
       wrapImportsInContainer: false,
+      relateNewTabToOpener: false,
+      openSavedWindowsInOriginalPos: false,
+      restoreTabsDiscarded: true,
+      autoHibernateTabs: true,
+      autoHibernateAfterMinutes: 15,
+      markdownExportDepth: 2,
+      markdownExportLiveTabs: false,
+      markdownExportSavedTabs: false,
+      markdownExportCustomTitles: false,
     };
     await saveSettings(updates);
     const loaded = await loadSettings();
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import {
+  listSnapshots,
+  loadSnapshot,
+  takeSnapshot,
+  deleteSnapshot,
+  dueTiers,
+} from '../snapshot-storage';
+import { SNAPSHOT_KEY_PREFIX, SNAPSHOT_TIERS } from '@/types/snapshot';
+import type { SnapshotMeta } from '@/types/snapshot';
+import type { HierarchyJSO } from '@/types/serialized';
+
+beforeEach(() => {
+  fakeBrowser.reset();
+});
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 1);
+
+const sampleTree: HierarchyJSO = {
+  n: { type: 'session', data: { treeId: 'test', nextDId: 100 } },
+  s: [
+    {
+      n: { type: 'savedwin', data: null },
+      s: [
+        { n: { data: { url: 'https://a.com', title: 'A' } } },
+        { n: { data: { url: 'https://b.com', title: 'B' } } },
+      ],
+    },
+  ],
+};
+
+async function storedPayloadKeys(): Promise<string[]> {
+  const all = await fakeBrowser.storage.local.get(null);
+  return Object.keys(all).filter((k) => k.startsWith(SNAPSHOT_KEY_PREFIX));
+}
+
+describe('dueTiers', () => {
+  it('marks every tier due when there are no snapshots', () => {
+    expect(dueTiers([], T0)).toEqual(['hourly', 'daily', 'weekly']);
+  });
+
+  it('only marks tiers whose interval has elapsed', () => {
+    const index: SnapshotMeta[] = [
+      { id: 'h', tier: 'hourly', timestamp: T0, nodeCount: 1 },
+      { id: 'd', tier: 'daily', timestamp: T0, nodeCount: 1 },
+      { id: 'w', tier: 'weekly', timestamp: T0, nodeCount: 1 },
+    ];
+    expect(dueTiers(index, T0 + 30 * 60 * 1000)).toEqual([]);
+    expect(dueTiers(index, T0 + HOUR)).toEqual(['hourly']);
+    expect(dueTiers(index, T0 + 24 * HOUR)).toEqual(['hourly', 'daily']);
+  });
+
+  it('tolerates an alarm firing slightly early', () => {
+    const index: SnapshotMeta[] = [
+      { id: 'h', tier: 'hourly', timestamp: T0, nodeCount: 1 },
+    ];
+    expect(dueTiers(index, T0 + HOUR - 60 * 1000)).toContain('hourly');
+  });
+});
+
+describe('takeSnapshot', () => {
+  it('records one snapshot per due tier with node count', async () => {
+    const created = await takeSnapshot(sampleTree, T0);
+
+    expect(created.map((m) => m.tier)).toEqual(['hourly', 'daily', 'weekly']);
+    expect(created.every((m) => m.nodeCount === 4)).toBe(true);
+    expect(created.every((m) => m.timestamp === T0)).toBe(true);
+
+    const listed = await listSnapshots();
+    expect(listed).toHaveLength(3);
+  });
+
+  it('stores the tree once for all tiers due in the same run', async () => {
+    const created = await takeSnapshot(sampleTree, T0);
+
+    expect(await storedPayloadKeys()).toEqual([SNAPSHOT_KEY_PREFIX + T0]);
+    expect(new Set(created.map((m) => m.payloadId))).toEqual(
+      new Set([String(T0)]),
+    );
+  });
+
+  it('does nothing when no tier is due', async () => {
+    await takeSnapshot(sampleTree, T0);
+    const created = await takeSnapshot(sampleTree, T0 + 10 * 60 * 1000);
+
+    expect(created).toEqual([]);
+    expect(await listSnapshots()).toHaveLength(3);
+  });
+
+  it('rotates each tier down to its retention limit', async () => {
+    const keep = SNAPSHOT_TIERS.hourly.keep;
+    for (let i = 0; i <= keep + 2; i++) {
+      await takeSnapshot(sampleTree, T0 + i * HOUR);
+    }
+
+    const hourly = (await listSnapshots()).filter((m) => m.tier === 'hourly');
+    expect(hourly).toHaveLength(keep);
+    // Oldest hourly entries were dropped
+    expect(hourly[hourly.length - 1].timestamp).toBe(T0 + 3 * HOUR);
+
+    // Payloads no kept entry references are removed too; the first run's
+    // payload stays for its daily and weekly entries.
+    const listed = await listSnapshots();
+    expect((await storedPayloadKeys()).sort()).toEqual(
+      [...new Set(listed.map((m) => SNAPSHOT_KEY_PREFIX + m.payloadId))].sort(),
+    );
+    expect(await storedPayloadKeys()).toContain(SNAPSHOT_KEY_PREFIX + T0);
+  });
+});
+
+describe('listSnapshots', () => {
+  it('returns empty when none are stored', async () => {
+    expect(await listSnapshots()).toEqual([]);
+  });
+
+  it('orders newest first', async () => {
+    await takeSnapshot(sampleTree, T0);
+    await takeSnapshot(sampleTree, T0 + HOUR);
+
+    const listed = await listSnapshots();
+    expect(listed[0].timestamp).toBe(T0 + HOUR);
+    expect(listed[listed.length - 1].timestamp).toBe(T0);
+  });
+});
+
+describe('loadSnapshot', () => {
+  it('round-trips the stored tree', async () => {
+    const [meta] = await takeSnapshot(sampleTree, T0);
+    const loaded = await loadSnapshot(meta.id);
+
+    expect(loaded).toEqual(sampleTree);
+  });
+
+  it('returns null for an unknown id', async () => {
+    expect(await loadSnapshot('missing')).toBeNull();
+  });
+
+  it('loads entries stored before payloads were shared', async () => {
+    const legacy: SnapshotMeta = {
+      id: 'hourly-1',
+      tier: 'hourly',
+      timestamp: T0,
+      nodeCount: 4,
+    };
+    await fakeBrowser.storage.local.set({
+      tabs_outliner_snapshots: [legacy],
+      [SNAPSHOT_KEY_PREFIX + legacy.id]: sampleTree,
+    });
+
+    expect(await loadSnapshot(legacy.id)).toEqual(sampleTree);
+  });
+});
+
+describe('deleteSnapshot', () => {
+  it('removes the index entry and payload', async () => {
+    const [meta] = await takeSnapshot(sampleTree, T0);
+    await deleteSnapshot(meta.id);
+
+    expect((await listSnapshots()).map((m) => m.id)).not.toContain(meta.id);
+    expect(await loadSnapshot(meta.id)).toBeNull();
+  });
+
+  it('keeps a shared payload until its last entry is deleted', async () => {
+    const [hourly, daily, weekly] = await takeSnapshot(sampleTree, T0);
+
+    await deleteSnapshot(hourly.id);
+    await deleteSnapshot(daily.id);
+    expect(await loadSnapshot(weekly.id)).toEqual(sampleTree);
+
+    await deleteSnapshot(weekly.id);
+    expect(await storedPayloadKeys()).toEqual([]);
+  });
+});
@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { fakeBrowser } from 'wxt/testing';
-import { loadTree, saveTree, treeExists } from '../tree-storage';
+import { TreeStore, loadTree, saveTree, treeExists } from '../tree-storage';
+import { withoutDiffIds } from '@/serialization/hierarchy-jso';
+import { TreeModel } from '@/tree/tree-model';
 import type { HierarchyJSO } from '@/types/serialized';
 
 beforeEach(() => {
@@ -47,3 +49,157 @@ describe('treeExists', () => {
     expect(await treeExists()).toBe(true);
   });
 });
+
+describe('TreeStore', () => {
+  async function storedKeys(): Promise<string[]> {
+    return Object.keys(await fakeBrowser.storage.local.get(null)).sort();
+  }
+
+  async function save(store: TreeStore, model: TreeModel): Promise<void> {
+    const changes = model.serializeForDiff(store.nextDId, store.committed);
+    await store.saveChanges(changes, model.getNextDId());
+  }
+
+  function renameSavedTab(model: TreeModel, title: string): void {
+    const tab = model.root.subnodes[0].subnodes[0];
+    model.setMarks(tab, { ...tab.marks, customTitle: title });
+  }
+
+  it('writes only what changed as a new chunk', async () => {
+    const store = new TreeStore();
+    const model = TreeModel.fromHierarchyJSO(sampleTree);
+    await save(store, model);
+    renameSavedTab(model, 'Renamed');
+    await save(store, model);
+
+    expect(await storedKeys()).toEqual([
+      'tabs_outliner_tree_chunk_0',
+      'tabs_outliner_tree_chunk_1',
+      'tabs_outliner_tree_manifest',
+    ]);
+    const { tabs_outliner_tree_chunk_1: chunk } =
+      await fakeBrowser.storage.local.get('tabs_outliner_tree_chunk_1');
+    expect(Object.keys(chunk.entries)).toHaveLength(1);
+    expect(Object.keys(chunk.knots)).toHaveLength(3);
+  });
+
+  it('skips the write when nothing changed', async () => {
+    const store = new TreeStore();
+    const model = TreeModel.fromHierarchyJSO(sampleTree);
+    await save(store, model);
+    await save(store, model);
+
+    expect(await storedKeys()).toContain('tabs_outliner_tree_chunk_0');
+    expect(await storedKeys()).not.toContain('tabs_outliner_tree_chunk_1');
+  });
+
+  it('loads the tree as last saved', async () => {
+    const store = new TreeStore();
+    const model = TreeModel.fromHierarchyJSO(sampleTree);
+    await save(store, model);
+    renameSavedTab(model, 'Renamed');
+    await save(store, model);
+
+    const loaded = await new TreeStore().load();
+    expect(withoutDiffIds(loaded!).s).toEqual(
+      withoutDiffIds(model.toHierarchyJSO()).s,
+    );
+    expect(loaded!.n.type).toBe('session');
+    expect(loaded!.n.data).toMatchObject({
+      treeId: 'test',
+      nextDId: model.getNextDId(),
+    });
+  });
+
+  it('keeps the previous tree when the manifest write fails', async () => {
+    const store = new TreeStore();
+    const model = TreeModel.fromHierarchyJSO(sampleTree);
+    await save(store, model);
+    const before = await loadTree();
+
+    const set = fakeBrowser.storage.local.set.bind(fakeBrowser.storage.local);
+    vi.spyOn(fakeBrowser.storage.local, 'set').mockImplementation(
+      async (items: Record<string, unknown>) => {
+        if ('tabs_outliner_tree_manifest' in items) throw new Error('quota');
+        return set(items);
+      },
+    );
+    renameSavedTab(model, 'Renamed');
+    await expect(save(store, model)).rejects.toThrow();
+    vi.restoreAllMocks();
+
+    expect(await loadTree()).toEqual(before);
+  });
+
+  it('removes chunks the manifest does not list on load', async () => {
+    const store = new TreeStore();
+    const model = TreeModel.fromHierarchyJSO(sampleTree);
+    await save(store, model);
+    const before = await loadTree();
+    await fakeBrowser.storage.local.set({
+      tabs_outliner_tree_chunk_99: { entries: {}, knots: {} },
+    });
+
+    expect(await new TreeStore().load()).toEqual(before);
+    expect(await storedKeys()).toEqual([
+      'tabs_outliner_tree_chunk_0',
+      'tabs_outliner_tree_manifest',
+    ]);
+  });
+
+  it('compacts once dead items outweigh live ones', async () => {
+    const store = new TreeStore();
+    const model = TreeModel.fromHierarchyJSO(sampleTree);
+    await save(store, model);
+    for (let i = 0; i < 5; i++) {
+      renameSavedTab(model, `Title ${i}`);
+      await save(store, model);
+    }
+
+    const chunkKeys = (await storedKeys()).filter((k) => k.includes('chunk'));
+    expect(chunkKeys.length).toBeLessThan(6);
+    const loaded = await new TreeStore().load();
+    expect(withoutDiffIds(loaded!).s).toEqual(
+      withoutDiffIds(model.toHierarchyJSO()).s,
+    );
+  });
+
+  it('compacts as soon as dead items match the live ones', async () => {
+    const store = new TreeStore();
+    const model = TreeModel.fromHierarchyJSO(sampleTree);
+    await save(store, model);
+    // Each rename leaves one entry and three knots dead. Nine items stay
+    // live: four entries, four knots and the base of the window's delta
+    // knot.
+    renameSavedTab(model, 'First');
+    await save(store, model);
+    expect((await storedKeys()).filter((k) => k.includes('chunk'))).toEqual([
+      'tabs_outliner_tree_chunk_0',
+      'tabs_outliner_tree_chunk_1',
+    ]);
+
+    // A store counts from what it loads.
+    const reloaded = new TreeStore();
+    await reloaded.load();
+    renameSavedTab(model, 'Second');
+    await save(reloaded, model);
+    expect(await storedKeys()).toContain('tabs_outliner_tree_chunk_2');
+    renameSavedTab(model, 'Third');
+    await save(reloaded, model);
+    expect(await storedKeys()).toEqual([
+      'tabs_outliner_tree_chunk_4',
+      'tabs_outliner_tree_manifest',
+    ]);
+  });
+
+  it('reads a tree stored before chunking and drops it on the first save', async () => {
+    await fakeBrowser.storage.local.set({ tabs_outliner_tree: sampleTree });
+    const store = new TreeStore();
+    const loaded = await store.load();
+    expect(loaded).toEqual(sampleTree);
+
+    await save(store, TreeModel.fromHierarchyJSO(loaded!));
+    expect(await storedKeys()).not.toContain('tabs_outliner_tree');
+    expect(await treeExists()).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Typed storage helpers for remote backup settings and run status.
+ *
+ * Both live in chrome.storage.local (never sync — settings include
+ * credentials) and are merged with defaults on load, like AppSettings.
+ */
+
+import { storageGet, storageSet } from '@/chrome/storage';
+import {
+  BACKUP_SETTINGS_DEFAULTS,
+  BACKUP_SETTINGS_KEY,
+  BACKUP_STATUS_DEFAULTS,
+  BACKUP_STATUS_KEY,
+} from '@/types/backup';
+import type { BackupSettings, BackupStatus } from '@/types/backup';
+
+/** Load backup settings, filling any missing keys from defaults. */
+export async function loadBackupSettings(): Promise<BackupSettings> {
+  const stored = await storageGet<Partial<BackupSettings>>(
+    'local',
+    BACKUP_SETTINGS_KEY,
+    {},
+  );
+  return {
+    ...BACKUP_SETTINGS_DEFAULTS,
+    ...stored,
+    http: { ...BACKUP_SETTINGS_DEFAULTS.http, ...stored.http },
+  };
+}
+
+/** Persist a partial settings update (read-merge-write). */
+export async function saveBackupSettings(
+  partial: Partial<BackupSettings>,
+): Promise<void> {
+  const current = await loadBackupSettings();
+  await storageSet('local', {
+    [BACKUP_SETTINGS_KEY]: { ...current, ...partial },
+  });
+}
+
+export async function loadBackupStatus(): Promise<BackupStatus> {
+  const stored = await storageGet<Partial<BackupStatus>>(
+    'local',
+    BACKUP_STATUS_KEY,
+    {},
+  );
+  return { ...BACKUP_STATUS_DEFAULTS, ...stored };
+}
+
+export async function saveBackupStatus(status: BackupStatus): Promise<void> {
+  await storageSet('local', { [BACKUP_STATUS_KEY]: status });
+}
@@ -8,5 +8,22 @@ export type { LegacyDbConfig } from './indexeddb-reader';
 
 export { loadTree, saveTree, treeExists } from './tree-storage';
 
+export {
+  listSnapshots,
+  loadSnapshot,
+  takeSnapshot,
+  deleteSnapshot,
+  dueTiers,
+} from './snapshot-storage';
+
+export {
+  loadBackupSettings,
+  saveBackupSettings,
+  loadBackupStatus,
+  saveBackupStatus,
+} from './backup-storage';
+
+export { loadOrganizeRules, saveOrganizeRules } from './organize-storage';
+
 export { migrateFromLegacy, isMigrationNeeded } from './migration';
 export type { MigrationResult } from './migration';
@@ -20,7 +20,11 @@ import {
   validateOperationsLog,
   operationsToHierarchy,
 } from '@/serialization/operations-codec';
-import { countNodes, hierarchiesEqual } from '@/serialization/hierarchy-jso';
+import {
+  countNodes,
+  hierarchiesEqual,
+  withoutDiffIds,
+} from '@/serialization/hierarchy-jso';
 import type { LegacyDbConfig } from './indexeddb-reader';
 
 export interface MigrationResult {
@@ -121,7 +125,10 @@ async function tryMigrateFromDB(
       };
     }
 
-    if (!hierarchiesEqual(hierarchy, reloaded)) {
+    // Storage numbers the nodes for its diff format; compare the content.
+    if (
+      !hierarchiesEqual(withoutDiffIds(hierarchy), withoutDiffIds(reloaded))
+    ) {
       errors.push(
         `${source}: round-trip verification failed — trees differ after save/load`,
       );
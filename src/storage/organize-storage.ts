@@ -0,0 +1,19 @@
+/**
+ * Typed storage helpers for the auto-organize rule list.
+ *
+ * Rules live in chrome.storage.local as one array, in evaluation order.
+ */
+
+import { storageGet, storageSet } from '@/chrome/storage';
+import { ORGANIZE_RULES_KEY } from '@/types/organize';
+import type { OrganizeRule } from '@/types/organize';
+
+export async function loadOrganizeRules(): Promise<OrganizeRule[]> {
+  return storageGet<OrganizeRule[]>('local', ORGANIZE_RULES_KEY, []);
+}
+
+export async function saveOrganizeRules(
+  rules: readonly OrganizeRule[],
+): Promise<void> {
+  await storageSet('local', { [ORGANIZE_RULES_KEY]: rules });
+}
@@ -0,0 +1,164 @@
+/**
+ * Rolling snapshot history for the tree in chrome.storage.local.
+ *
+ * Snapshots are grouped into hourly / daily / weekly tiers (see
+ * SNAPSHOT_TIERS). Each payload lives under its own key so listing the
+ * history only reads the small SnapshotMeta index, never the trees. When
+ * several tiers are due at once the tree is written once, and every entry
+ * of that run references it; a payload is removed only when the last
+ * entry referencing it goes.
+ *
+ * Write order keeps the index honest: payload first, then index; on
+ * rotation the index drops the entry before the payload is removed. A
+ * crash between the two steps leaves at worst an orphaned payload, never
+ * an index entry pointing at nothing.
+ */
+
+import { storageGet, storageSet, storageRemove } from '@/chrome/storage';
+import { countNodes, isValidHierarchyJSO } from '@/serialization/hierarchy-jso';
+import type { HierarchyJSO } from '@/types/serialized';
+import {
+  SNAPSHOT_INDEX_KEY,
+  SNAPSHOT_KEY_PREFIX,
+  SNAPSHOT_TIERS,
+} from '@/types/snapshot';
+import type { SnapshotMeta, SnapshotTier } from '@/types/snapshot';
+
+/**
+ * Alarm jitter tolerance. The scheduler fires roughly hourly; without
+ * slack a tick landing a few seconds early would skip a whole hour.
+ */
+const DUE_GRACE_MS = 5 * 60 * 1000;
+
+const TIER_ORDER: readonly SnapshotTier[] = ['hourly', 'daily', 'weekly'];
+
+function payloadKey(payloadId: string): string {
+  return SNAPSHOT_KEY_PREFIX + payloadId;
+}
+
+function payloadIdOf(meta: SnapshotMeta): string {
+  return meta.payloadId ?? meta.id;
+}
+
+/**
+ * Keys of the payloads referenced by `dropped` entries and by none of the
+ * `remaining` ones.
+ */
+function unreferencedPayloadKeys(
+  dropped: readonly SnapshotMeta[],
+  remaining: readonly SnapshotMeta[],
+): string[] {
+  const referenced = new Set(remaining.map(payloadIdOf));
+  const unreferenced = new Set(
+    dropped.map(payloadIdOf).filter((id) => !referenced.has(id)),
+  );
+  return [...unreferenced].map(payloadKey);
+}
+
+/** List stored snapshots, newest first. */
+export async function listSnapshots(): Promise<SnapshotMeta[]> {
+  const index = await storageGet<SnapshotMeta[]>(
+    'local',
+    SNAPSHOT_INDEX_KEY,
+    [],
+  );
+  return [...index].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/** Load a snapshot's tree. Returns null if missing or invalid. */
+export async function loadSnapshot(id: string): Promise<HierarchyJSO | null> {
+  const meta = (await listSnapshots()).find((m) => m.id === id);
+  if (!meta) return null;
+  const raw = await storageGet<unknown>(
+    'local',
+    payloadKey(payloadIdOf(meta)),
+    null,
+  );
+  if (raw === null) return null;
+  if (!isValidHierarchyJSO(raw)) return null;
+  return raw;
+}
+
+/**
+ * Tiers whose most recent snapshot is older than the tier interval (or
+ * that have none yet) at time `now`.
+ */
+export function dueTiers(
+  index: readonly SnapshotMeta[],
+  now: number,
+): SnapshotTier[] {
+  return TIER_ORDER.filter((tier) => {
+    let latest = -Infinity;
+    for (const meta of index) {
+      if (meta.tier === tier && meta.timestamp > latest) {
+        latest = meta.timestamp;
+      }
+    }
+    return now - latest >= SNAPSHOT_TIERS[tier].intervalMs - DUE_GRACE_MS;
+  });
+}
+
+/**
+ * Record a snapshot for every tier that is due, then rotate each tier down
+ * to its retention limit. Returns the newly created entries (empty when no
+ * tier was due).
+ */
+export async function takeSnapshot(
+  hierarchy: HierarchyJSO,
+  now: number = Date.now(),
+): Promise<SnapshotMeta[]> {
+  const index = await listSnapshots();
+  const tiers = dueTiers(index, now);
+  if (tiers.length === 0) return [];
+
+  const nodeCount = countNodes(hierarchy);
+  const payloadId = String(now);
+  const created = tiers.map(
+    (tier): SnapshotMeta => ({
+      id: `${tier}-${now}`,
+      tier,
+      timestamp: now,
+      nodeCount,
+      payloadId,
+    }),
+  );
+
+  await storageSet('local', { [payloadKey(payloadId)]: hierarchy });
+
+  const { kept, evicted } = rotate([...created, ...index]);
+  await storageSet('local', { [SNAPSHOT_INDEX_KEY]: kept });
+  const unreferenced = unreferencedPayloadKeys(evicted, kept);
+  if (unreferenced.length > 0) await storageRemove('local', unreferenced);
+  return created;
+}
+
+/**
+ * Remove a single snapshot: its index entry, and its payload unless
+ * another tier's entry still references it.
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  const index = await listSnapshots();
+  const remaining = index.filter((m) => m.id !== id);
+  await storageSet('local', { [SNAPSHOT_INDEX_KEY]: remaining });
+  const unreferenced = unreferencedPayloadKeys(
+    index.filter((m) => m.id === id),
+    remaining,
+  );
+  if (unreferenced.length > 0) await storageRemove('local', unreferenced);
+}
+
+/** Split a newest-first index into entries within tier retention and the rest. */
+function rotate(index: readonly SnapshotMeta[]): {
+  kept: SnapshotMeta[];
+  evicted: SnapshotMeta[];
+} {
+  const seen: Record<SnapshotTier, number> = { hourly: 0, daily: 0, weekly: 0 };
+  const kept: SnapshotMeta[] = [];
+  const evicted: SnapshotMeta[] = [];
+  for (const meta of index) {
+    seen[meta.tier]++;
+    if (seen[meta.tier] <= SNAPSHOT_TIERS[meta.tier].keep) kept.push(meta);
+    else evicted.push(meta);
+  }
+  return { kept, evicted };
+}
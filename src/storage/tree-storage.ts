@@ -1,30 +1,420 @@
 /**
- * Chrome storage.local read/write for HierarchyJSO tree data.
+ * Chrome storage.local persistence for the tree, written incrementally.
  *
- * Uses Epic 2's storageGet/storageSet wrappers from src/chrome/storage.ts.
+ * The tree is stored in the diff format (entries keyed by cdId, knots
+ * keyed by dId — see knot-resolver.ts) spread over chunks. A save writes
+ * one new chunk holding only the entries and knots TreeModel.serializeForDiff
+ * produced, then the manifest listing the chunks and the root knot. The
+ * manifest write is the commit: until it lands, the previous manifest
+ * still describes a complete tree, since committed chunks are never
+ * modified. Once dead entries and knots outweigh live ones (or chunks
+ * pile up) the live ones are compacted into a single chunk, again
+ * committed by the manifest before the old chunks are removed; chunks
+ * left behind by a crash between those steps are swept on load. The live
+ * count is kept by reference counting (LiveCount), so a save only visits
+ * what it added and what that made unreachable.
+ *
+ * Trees saved before chunking live whole under TREE_STORAGE_KEY; they are
+ * still read, and the key is dropped by the first chunked commit.
  */
 
-import { storageGet, storageSet } from '@/chrome/storage';
+import {
+  storageGet,
+  storageKeys,
+  storageSet,
+  storageRemove,
+} from '@/chrome/storage';
 import { isValidHierarchyJSO } from '@/serialization/hierarchy-jso';
+import { decodeEntry } from '@/serialization/entry-codec';
+import {
+  encodeHierarchyAsKnots,
+  readKnot,
+  resolveKnotsToHierarchy,
+} from '@/serialization/knot-resolver';
+import type { DiffSnapshot } from '@/serialization/knot-resolver';
 import type { HierarchyJSO } from '@/types/serialized';
 
 const TREE_STORAGE_KEY = 'tabs_outliner_tree';
+const MANIFEST_KEY = 'tabs_outliner_tree_manifest';
+const CHUNK_KEY_PREFIX = 'tabs_outliner_tree_chunk_';
 
-/** Load tree from chrome.storage.local. Returns null if not found or invalid. */
-export async function loadTree(): Promise<HierarchyJSO | null> {
+/** Compact once stored items reach this multiple of the live ones… */
+const COMPACT_GARBAGE_RATIO = 2;
+/** …or the manifest lists more chunks than this. */
+const MAX_CHUNKS = 64;
+
+/** The commit record: which chunks make up the tree. */
+interface TreeManifest {
+  readonly rootDid: string;
+  /** First dId not yet used by any chunk. */
+  readonly nextDId: number;
+  /** Chunk ids in write order; later chunks win on duplicate keys. */
+  readonly chunks: readonly number[];
+  /** Entries plus knots across all chunks, live or not. */
+  readonly storedCount: number;
+}
+
+interface TreeChunk {
+  readonly entries: Record<string, string>;
+  readonly knots: Record<string, string>;
+}
+
+function chunkKey(id: number): string {
+  return CHUNK_KEY_PREFIX + id;
+}
+
+function isManifest(value: unknown): value is TreeManifest {
+  if (value === null || typeof value !== 'object') return false;
+  const m = value as Record<string, unknown>;
+  return (
+    typeof m.rootDid === 'string' &&
+    typeof m.nextDId === 'number' &&
+    Array.isArray(m.chunks) &&
+    typeof m.storedCount === 'number'
+  );
+}
+
+/**
+ * How many committed entries and knots are reachable from the root.
+ *
+ * A knot holds its entry, its child knots and the base of a delta list
+ * while it is held itself — by the root or by a live parent — and lets go
+ * of them when the last holder does. A delta base only has to stay
+ * stored (with the bases it is a delta against), so it counts as live
+ * without holding what it lists.
+ */
+class LiveCount {
+  private readonly entryRefs = new Map<string, number>();
+  private readonly knotRefs = new Map<string, number>();
+  private readonly baseRefs = new Map<string, number>();
+  private _count = 0;
+
+  constructor(
+    private readonly entries: ReadonlyMap<string, string>,
+    private readonly knots: ReadonlyMap<string, string>,
+  ) {}
+
+  get count(): number {
+    return this._count;
+  }
+
+  /** Count afresh from `rootDid`. */
+  reset(rootDid: string): void {
+    this.entryRefs.clear();
+    this.knotRefs.clear();
+    this.baseRefs.clear();
+    this._count = 0;
+    this.holdKnot(rootDid);
+  }
+
+  /** Move the root hold; what only the old root reached stops counting. */
+  moveRoot(from: string, to: string): void {
+    this.holdKnot(to);
+    this.releaseKnot(from);
+  }
+
+  private holdKnot(dId: string): void {
+    const pending = [dId];
+    for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+      if (!this.knots.has(id)) continue;
+      const refs = (this.knotRefs.get(id) ?? 0) + 1;
+      this.knotRefs.set(id, refs);
+      if (refs > 1) continue;
+      if (!this.baseRefs.get(id)) this._count++;
+
+      const { cdId, subnodesDids, baseDid } = readKnot(this.knots, id);
+      this.adjustEntry(cdId, 1);
+      this.holdBase(baseDid);
+      pending.push(...subnodesDids);
+    }
+  }
+
+  private releaseKnot(dId: string): void {
+    const pending = [dId];
+    for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+      const refs = (this.knotRefs.get(id) ?? 0) - 1;
+      if (refs < 0) continue;
+      this.knotRefs.set(id, refs);
+      if (refs > 0) continue;
+      this.knotRefs.delete(id);
+      if (!this.baseRefs.get(id)) this._count--;
+
+      const { cdId, subnodesDids, baseDid } = readKnot(this.knots, id);
+      this.adjustEntry(cdId, -1);
+      this.releaseBase(baseDid);
+      pending.push(...subnodesDids);
+    }
+  }
+
+  /** Hold `dId` as a delta base, and the bases it is a delta against. */
+  private holdBase(dId: string | null): void {
+    for (let b = dId; b !== null && this.knots.has(b); ) {
+      const refs = (this.baseRefs.get(b) ?? 0) + 1;
+      this.baseRefs.set(b, refs);
+      if (refs > 1) return;
+      if (!this.knotRefs.get(b)) this._count++;
+      b = readKnot(this.knots, b).baseDid;
+    }
+  }
+
+  private releaseBase(dId: string | null): void {
+    for (let b = dId; b !== null && this.knots.has(b); ) {
+      const refs = (this.baseRefs.get(b) ?? 0) - 1;
+      if (refs < 0) return;
+      if (refs > 0) {
+        this.baseRefs.set(b, refs);
+        return;
+      }
+      this.baseRefs.delete(b);
+      if (!this.knotRefs.get(b)) this._count--;
+      b = readKnot(this.knots, b).baseDid;
+    }
+  }
+
+  /** Hold or release an entry; the live count follows when it crosses zero. */
+  private adjustEntry(cdId: string, delta: 1 | -1): void {
+    if (!this.entries.has(cdId)) return;
+    const refs = (this.entryRefs.get(cdId) ?? 0) + delta;
+    if (refs > 0) this.entryRefs.set(cdId, refs);
+    else this.entryRefs.delete(cdId);
+    if (delta === 1 && refs === 1) this._count++;
+    if (delta === -1 && refs === 0) this._count--;
+  }
+}
+
+/**
+ * The stored tree plus an in-memory copy of what is committed, which a
+ * save diffs against. One store belongs to the session for its lifetime.
+ */
+export class TreeStore {
+  private readonly _entries = new Map<string, string>();
+  private readonly _knots = new Map<string, string>();
+  private _manifest: TreeManifest | null = null;
+  private readonly _live = new LiveCount(this._entries, this._knots);
+
+  /** Committed entries and knots, the base for TreeModel.serializeForDiff. */
+  get committed(): DiffSnapshot {
+    return {
+      rootDid: this._manifest?.rootDid ?? '',
+      entries: this._entries,
+      allKnots: this._knots,
+    };
+  }
+
+  /** First dId free for new entries and knots. */
+  get nextDId(): number {
+    return this._manifest?.nextDId ?? 1;
+  }
+
+  /** Read the stored tree. Returns null if there is none or it is invalid. */
+  async load(): Promise<HierarchyJSO | null> {
+    this._entries.clear();
+    this._knots.clear();
+    this._manifest = null;
+
+    const manifest = await storageGet<unknown>('local', MANIFEST_KEY, null);
+    if (!isManifest(manifest)) return loadUnchunkedTree();
+
+    const chunks = await Promise.all(
+      manifest.chunks.map((id) =>
+        storageGet<TreeChunk | null>('local', chunkKey(id), null),
+      ),
+    );
+    chunks.forEach((chunk, i) => {
+      if (!chunk) {
+        console.warn(
+          `[Tabs Outliner] Tree chunk ${manifest.chunks[i]} is missing`,
+        );
+        return;
+      }
+      for (const [k, v] of Object.entries(chunk.entries)) {
+        this._entries.set(k, v);
+      }
+      for (const [k, v] of Object.entries(chunk.knots)) this._knots.set(k, v);
+    });
+    this._manifest = manifest;
+    this._live.reset(manifest.rootDid);
+    await sweepOrphanChunks(manifest);
+    return this.resolve();
+  }
+
+  /**
+   * Commit the entries and knots a diff produced, making `changes.rootDid`
+   * the root. `nextDId` is the model's counter after the diff.
+   */
+  async saveChanges(changes: DiffSnapshot, nextDId: number): Promise<void> {
+    const previous = this._manifest;
+    if (
+      previous &&
+      changes.entries.size === 0 &&
+      changes.allKnots.size === 0 &&
+      changes.rootDid === previous.rootDid
+    ) {
+      return;
+    }
+    await this.commit(changes, nextDId, false);
+
+    const manifest = this._manifest;
+    if (
+      manifest &&
+      (manifest.chunks.length > MAX_CHUNKS ||
+        manifest.storedCount >= COMPACT_GARBAGE_RATIO * this._live.count)
+    ) {
+      await this.commit(this.collectLive(), manifest.nextDId, true);
+    }
+  }
+
+  /** Replace whatever is stored with `hierarchy`, numbered afresh. */
+  async replaceAll(hierarchy: HierarchyJSO): Promise<void> {
+    const stored = await storageGet<unknown>('local', MANIFEST_KEY, null);
+    this._manifest = isManifest(stored) ? stored : null;
+    const { snapshot, nextDId } = encodeHierarchyAsKnots(
+      hierarchy,
+      this.nextDId,
+    );
+    await this.commit(snapshot, nextDId, true);
+  }
+
+  /**
+   * Write `items` as a new chunk, then commit a manifest that adds it to
+   * the current chunks or, with `replace`, stands it in for all of them.
+   * Chunks the manifest no longer lists are removed only after that.
+   */
+  private async commit(
+    items: DiffSnapshot,
+    nextDId: number,
+    replace: boolean,
+  ): Promise<void> {
+    const previous = this._manifest;
+    const id = previous ? Math.max(-1, ...previous.chunks) + 1 : 0;
+    const size = items.entries.size + items.allKnots.size;
+    await storageSet('local', {
+      [chunkKey(id)]: {
+        entries: Object.fromEntries(items.entries),
+        knots: Object.fromEntries(items.allKnots),
+      } satisfies TreeChunk,
+    });
+
+    const append = previous !== null && !replace;
+    const manifest: TreeManifest = {
+      rootDid: items.rootDid,
+      nextDId: Math.max(nextDId, this.nextDId),
+      chunks: append ? [...previous.chunks, id] : [id],
+      storedCount: append ? previous.storedCount + size : size,
+    };
+    await storageSet('local', { [MANIFEST_KEY]: manifest });
+    this._manifest = manifest;
+
+    if (replace) {
+      this._entries.clear();
+      this._knots.clear();
+    }
+    for (const [k, v] of items.entries) this._entries.set(k, v);
+    for (const [k, v] of items.allKnots) this._knots.set(k, v);
+    if (append) this._live.moveRoot(previous.rootDid, items.rootDid);
+    else this._live.reset(items.rootDid);
+
+    if (!previous) {
+      await storageRemove('local', TREE_STORAGE_KEY);
+    } else if (replace) {
+      await storageRemove('local', previous.chunks.map(chunkKey));
+    }
+  }
+
+  /** Rebuild the HierarchyJSO from the committed entries and knots. */
+  private resolve(): HierarchyJSO | null {
+    const manifest = this._manifest;
+    if (!manifest || !this._knots.has(manifest.rootDid)) return null;
+
+    const hierarchy = resolveKnotsToHierarchy(this.committed);
+    // The resolver stands in a blank session for the root; the root entry
+    // has the real one. Entries from a live model leave the dId counter to
+    // the manifest.
+    const { cdId } = readKnot(this._knots, manifest.rootDid);
+    const entry = this._entries.get(cdId);
+    const n = entry ? decodeEntry(entry) : hierarchy.n;
+    return {
+      ...hierarchy,
+      n: {
+        ...hierarchy.n,
+        ...n,
+        data: { nextDId: manifest.nextDId, ...(n.data as object) },
+      },
+    };
+  }
+
+  /** Entries and knots reachable from the committed root. */
+  private collectLive(): DiffSnapshot {
+    const rootDid = this._manifest?.rootDid ?? '';
+    const entries = new Map<string, string>();
+    const allKnots = new Map<string, string>();
+    const visited = new Set<string>();
+
+    const pending = [rootDid];
+    for (let dId = pending.pop(); dId !== undefined; dId = pending.pop()) {
+      const knot = this._knots.get(dId);
+      if (knot === undefined || visited.has(dId)) continue;
+      visited.add(dId);
+      allKnots.set(dId, knot);
+
+      const { cdId, subnodesDids, baseDid } = readKnot(this._knots, dId);
+      const entry = this._entries.get(cdId);
+      if (entry !== undefined) entries.set(cdId, entry);
+      // A delta knot needs the knots its list is based on.
+      for (
+        let b = baseDid;
+        b !== null && !allKnots.has(b);
+        b = readKnot(this._knots, b).baseDid
+      ) {
+        const base = this._knots.get(b);
+        if (base === undefined) break;
+        allKnots.set(b, base);
+      }
+      pending.push(...subnodesDids);
+    }
+    return { rootDid, entries, allKnots };
+  }
+}
+
+/**
+ * Remove chunks `manifest` doesn't list: ones a crash kept from being
+ * committed, or from being removed after a compaction. Failing to is not
+ * worth failing the load over; the next load tries again.
+ */
+async function sweepOrphanChunks(manifest: TreeManifest): Promise<void> {
+  try {
+    const listed = new Set(manifest.chunks.map(chunkKey));
+    const orphans = (await storageKeys('local')).filter(
+      (key) => key.startsWith(CHUNK_KEY_PREFIX) && !listed.has(key),
+    );
+    if (orphans.length > 0) await storageRemove('local', orphans);
+  } catch (err) {
+    console.warn('[Tabs Outliner] Failed to remove orphan tree chunks:', err);
+  }
+}
+
+/** A tree saved whole, before chunked storage. */
+async function loadUnchunkedTree(): Promise<HierarchyJSO | null> {
   const raw = await storageGet<unknown>('local', TREE_STORAGE_KEY, null);
   if (raw === null) return null;
   if (!isValidHierarchyJSO(raw)) return null;
   return raw;
 }
 
-/** Save tree to chrome.storage.local. */
+/** Load tree from chrome.storage.local. Returns null if not found or invalid. */
+export async function loadTree(): Promise<HierarchyJSO | null> {
+  return new TreeStore().load();
+}
+
+/** Save a whole tree to chrome.storage.local, replacing the stored one. */
 export async function saveTree(hierarchy: HierarchyJSO): Promise<void> {
-  await storageSet('local', { [TREE_STORAGE_KEY]: hierarchy });
+  await new TreeStore().replaceAll(hierarchy);
 }
 
 /** Check if tree data exists in new storage. */
 export async function treeExists(): Promise<boolean> {
+  const manifest = await storageGet<unknown>('local', MANIFEST_KEY, null);
+  if (manifest !== null) return true;
   const raw = await storageGet<unknown>('local', TREE_STORAGE_KEY, null);
   return raw !== null;
 }
@@ -86,6 +86,29 @@ describe('deserializeNode', () => {
     expect(node).toBeInstanceOf(SavedWindowTreeNode);
   });
 
+  it('restores the node timestamps', () => {
+    const node = deserializeNode({
+      data: { url: 'https://a.com' },
+      created: 1000,
+      savedAt: 3000,
+      lastVisited: 2000,
+    });
+    expect(node).toMatchObject({
+      created: 1000,
+      savedAt: 3000,
+      lastVisited: 2000,
+    });
+  });
+
+  it('leaves the unknown timestamps of legacy nodes unset', () => {
+    const node = deserializeNode({ data: { url: 'https://a.com' } });
+    expect(node!.created).toBeNull();
+    expect(node!.savedAt).toBeNull();
+    expect(node!.lastVisited).toBeNull();
+    // ...and does not write made-up ones back
+    expect(node!.serialize()).not.toHaveProperty('created');
+  });
+
   it('deserializes waiting window node', () => {
     const node = deserializeNode({
       type: 'waitingwin',
@@ -99,6 +122,14 @@ describe('deserializeNode', () => {
     expect(node).toBeInstanceOf(GroupTreeNode);
   });
 
+  it('deserializes a tab group node with its title and color', () => {
+    const data = { title: 'Research', color: 'green' as const };
+    const node = deserializeNode({ type: 'group', data });
+    expect(node).toBeInstanceOf(GroupTreeNode);
+    expect(node!.data).toEqual(data);
+    expect(node!.getNodeText()).toBe('Research');
+  });
+
   it('deserializes text note node', () => {
     const node = deserializeNode({
       type: 'textnote',
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { normalizeUrl, findDuplicateGroups } from '../duplicates';
+import { TreeModel } from '../tree-model';
+import { resetMvcIdCounter } from '../mvc-id';
+import { SessionTreeNode } from '../nodes/session-node';
+import { WindowTreeNode } from '../nodes/window-node';
+import { GroupTreeNode } from '../nodes/group-node';
+import { TabTreeNode } from '../nodes/tab-node';
+import { SavedTabTreeNode } from '../nodes/saved-tab-node';
+import { TextNoteTreeNode } from '../nodes/text-note-node';
+import {
+  DEFAULT_DUPLICATE_SCAN_OPTIONS,
+  type DuplicateScanOptions,
+} from '@/types/duplicates';
+
+const STRICT: DuplicateScanOptions = {
+  ignoreFragment: false,
+  ignoreTrackingParams: false,
+  ignoreTrailingSlash: false,
+};
+const ALL = DEFAULT_DUPLICATE_SCAN_OPTIONS;
+
+describe('normalizeUrl', () => {
+  it('folds scheme and host case even in strict mode', () => {
+    expect(normalizeUrl('HTTPS://Example.COM/Path', STRICT)).toBe(
+      'https://example.com/Path',
+    );
+  });
+
+  it('drops the fragment only when asked to', () => {
+    expect(normalizeUrl('https://a.com/p#x', ALL)).toBe('https://a.com/p');
+    expect(normalizeUrl('https://a.com/p#x', STRICT)).toBe('https://a.com/p#x');
+  });
+
+  it('drops tracking params and keeps the rest untouched', () => {
+    expect(
+      normalizeUrl('https://a.com/p?id=1&utm_source=x&fbclid=y&q=a%20b', ALL),
+    ).toBe('https://a.com/p?id=1&q=a+b');
+    expect(normalizeUrl('https://a.com/p?utm_medium=x&gclid=1', ALL)).toBe(
+      'https://a.com/p',
+    );
+    expect(normalizeUrl('https://a.com/p?q=a%20b', ALL)).toBe(
+      'https://a.com/p?q=a%20b',
+    );
+    expect(normalizeUrl('https://a.com/p?utm_source=x', STRICT)).toBe(
+      'https://a.com/p?utm_source=x',
+    );
+  });
+
+  it('drops trailing slashes but keeps the root path', () => {
+    expect(normalizeUrl('https://a.com/docs//', ALL)).toBe(
+      'https://a.com/docs',
+    );
+    expect(normalizeUrl('https://a.com/', ALL)).toBe('https://a.com/');
+    expect(normalizeUrl('https://a.com/docs/', STRICT)).toBe(
+      'https://a.com/docs/',
+    );
+  });
+
+  it('compares unparseable strings verbatim', () => {
+    expect(normalizeUrl('  not a url ', ALL)).toBe('not a url');
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  beforeEach(() => {
+    resetMvcIdCounter();
+  });
+
+  /**
+   * root
+   * ├─ win (window 1): open "/a", open "/b#top"
+   * ├─ group "Reading": saved "/a/", saved "/b", saved "/c"
+   * └─ note
+   */
+  function setup() {
+    const root = new SessionTreeNode();
+    const win = new WindowTreeNode({ id: 1, type: 'normal' });
+    const openA = new TabTreeNode({
+      id: 1,
+      url: 'https://x.com/a',
+      title: 'A',
+    });
+    const openB = new TabTreeNode({
+      id: 2,
+      url: 'https://x.com/b#top',
+      title: 'B',
+    });
+    const group = new GroupTreeNode();
+    group.marks = { relicons: [], customTitle: 'Reading' };
+    const savedA = new SavedTabTreeNode({
+      url: 'https://x.com/a/',
+      title: 'A',
+    });
+    const savedB = new SavedTabTreeNode({ url: 'https://x.com/b', title: 'B' });
+    const savedC = new SavedTabTreeNode({ url: 'https://x.com/c', title: 'C' });
+    root.insertSubnode(0, win);
+    root.insertSubnode(1, group);
+    root.insertSubnode(2, new TextNoteTreeNode({ note: 'note' }));
+    win.insertSubnode(0, openA);
+    win.insertSubnode(1, openB);
+    group.insertSubnode(0, savedA);
+    group.insertSubnode(1, savedB);
+    group.insertSubnode(2, savedC);
+    return { model: new TreeModel(root), openA, openB, savedA, savedB };
+  }
+
+  it('groups nodes by normalized URL in tree order', () => {
+    const { model, openA, openB, savedA, savedB } = setup();
+    const groups = findDuplicateGroups(model, ALL);
+
+    expect(groups.map((g) => g.url)).toEqual([
+      'https://x.com/a',
+      'https://x.com/b',
+    ]);
+    expect(groups[0].occurrences).toEqual([
+      {
+        idMVC: openA.idMVC,
+        nodeText: 'A',
+        href: 'https://x.com/a',
+        active: true,
+        containerText: 'Window',
+      },
+      {
+        idMVC: savedA.idMVC,
+        nodeText: 'A',
+        href: 'https://x.com/a/',
+        active: false,
+        containerText: 'Reading',
+      },
+    ]);
+    expect(groups[1].occurrences.map((o) => o.idMVC)).toEqual([
+      openB.idMVC,
+      savedB.idMVC,
+    ]);
+  });
+
+  it('finds nothing when the options keep the URLs apart', () => {
+    const { model } = setup();
+    expect(findDuplicateGroups(model, STRICT)).toEqual([]);
+  });
+
+  it('orders larger groups first', () => {
+    const { model } = setup();
+    const group = model.root.subnodes[1];
+    group.insertSubnode(
+      -1,
+      new SavedTabTreeNode({ url: 'https://x.com/b', title: 'B again' }),
+    );
+    const groups = findDuplicateGroups(model, ALL);
+    expect(groups.map((g) => g.occurrences.length)).toEqual([3, 2]);
+    expect(groups[0].url).toBe('https://x.com/b');
+  });
+});
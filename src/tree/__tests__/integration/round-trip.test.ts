@@ -25,11 +25,18 @@ function assertHierarchyEqual(a: HierarchyJSO, b: HierarchyJSO): void {
   }
 }
 
+const CREATED = Date.UTC(2025, 0, 1);
+
+/** Give every node the creation time nodes serialized by this version carry. */
+function stamped(jso: HierarchyJSO): HierarchyJSO {
+  return { n: { ...jso.n, created: CREATED }, s: jso.s?.map(stamped) };
+}
+
 describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
   beforeEach(() => resetMvcIdCounter());
 
   it('round-trips a simple session with saved tabs', () => {
-    const jso: HierarchyJSO = {
+    const jso = stamped({
       n: {
         type: 'session',
         data: { treeId: 'test', nextDId: 1, nonDumpedDId: 1 },
@@ -43,7 +50,7 @@ describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
           ],
         },
       ],
-    };
+    });
 
     const model = TreeModel.fromHierarchyJSO(jso);
     const roundTripped = model.toHierarchyJSO();
@@ -52,7 +59,7 @@ describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
   });
 
   it('round-trips all 11 node types', () => {
-    const jso: HierarchyJSO = {
+    const jso = stamped({
       n: {
         type: 'session',
         data: { treeId: 'test', nextDId: 1, nonDumpedDId: 1 },
@@ -105,7 +112,7 @@ describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
         { n: { type: 'textnote', data: { note: 'Hello' } } },
         { n: { type: 'separatorline', data: { separatorIndx: 1 } } },
       ],
-    };
+    });
 
     const model = TreeModel.fromHierarchyJSO(jso);
     const roundTripped = model.toHierarchyJSO();
@@ -114,7 +121,7 @@ describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
   });
 
   it('round-trips marks and collapsed state', () => {
-    const jso: HierarchyJSO = {
+    const jso = stamped({
       n: {
         type: 'session',
         data: { treeId: 'test', nextDId: 1, nonDumpedDId: 1 },
@@ -144,7 +151,7 @@ describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
           ],
         },
       ],
-    };
+    });
 
     const model = TreeModel.fromHierarchyJSO(jso);
     const roundTripped = model.toHierarchyJSO();
@@ -164,7 +171,7 @@ describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
   });
 
   it('round-trips diff IDs', () => {
-    const jso: HierarchyJSO = {
+    const jso = stamped({
       n: {
         type: 'session',
         data: { treeId: 'test', nextDId: 100, nonDumpedDId: 50 },
@@ -184,7 +191,7 @@ describe('Round-trip: HierarchyJSO → TreeModel → HierarchyJSO', () => {
           s: [{ n: { data: { url: 'https://a.com' }, dId: 30, cdId: 31 } }],
         },
       ],
-    };
+    });
 
     const model = TreeModel.fromHierarchyJSO(jso);
     const roundTripped = model.toHierarchyJSO();
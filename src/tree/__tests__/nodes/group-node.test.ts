@@ -66,6 +66,53 @@ describe('GroupTreeNode', () => {
     expect(clone.colapsed).toBe(true);
   });
 
+  describe('mirroring a Chrome tab group', () => {
+    const tabGroup = {
+      id: 7,
+      windowId: 1,
+      title: 'Research',
+      color: 'blue',
+      collapsed: true,
+    } as const;
+
+    it('shows the group title and color unless a custom title is set', () => {
+      const node = new GroupTreeNode(tabGroup);
+      expect(node.tabGroupId).toBe(7);
+      expect(node.getNodeText()).toBe('Research');
+      expect(node.getNodeContentCssClass()).toBe('tabgroup-blue');
+
+      node.marks = { relicons: [], customTitle: 'Mine' };
+      expect(node.getNodeText()).toBe('Mine');
+    });
+
+    it('falls back to the default text for untitled groups', () => {
+      expect(new GroupTreeNode({ id: 7, title: '' }).getNodeText()).toBe(
+        'Group',
+      );
+    });
+
+    it('serializes the tab group data', () => {
+      expect(new GroupTreeNode(tabGroup).serializeData()).toEqual(tabGroup);
+    });
+
+    it('updateTabGroupData replaces the mirrored data', () => {
+      const node = new GroupTreeNode(tabGroup);
+      node.updateTabGroupData({ ...tabGroup, title: 'Renamed', color: 'red' });
+      expect(node.getNodeText()).toBe('Renamed');
+      expect(node.getNodeContentCssClass()).toBe('tabgroup-red');
+    });
+
+    it('cloneAsSaved keeps title and color but drops the Chrome IDs', () => {
+      const clone = new GroupTreeNode(tabGroup).cloneAsSaved();
+      expect(clone.data).toEqual({
+        title: 'Research',
+        color: 'blue',
+        collapsed: true,
+      });
+      expect(clone.tabGroupId).toBeUndefined();
+    });
+  });
+
   it('has editTitle in hovering menu', () => {
     const node = new GroupTreeNode();
     const actions = node.getHoveringMenuActions();
@@ -46,7 +46,26 @@ describe('SavedTabTreeNode', () => {
     expect(node.getHref()).toBe('https://example.com');
     expect(node.getIcon()).toBe('https://example.com/icon.png');
     expect(node.getIconForHtmlExport()).toBe('https://example.com/icon.png');
-    expect(node.getTooltipText()).toBe('');
+  });
+
+  it('shows its timestamps in the tooltip', () => {
+    const node = new SavedTabTreeNode(sampleTabData);
+    node.created = Date.UTC(2026, 0, 1);
+    node.savedAt = Date.UTC(2026, 1, 1);
+    node.lastVisited = Date.UTC(2026, 0, 15);
+    const local = (t: number) => new Date(t).toLocaleString();
+    expect(node.getTooltipText()).toBe(
+      [
+        `Created: ${local(node.created)}`,
+        `Saved: ${local(node.savedAt)}`,
+        `Last visited: ${local(node.lastVisited)}`,
+      ].join('\n'),
+    );
+  });
+
+  it('counts as saved from when it is created', () => {
+    const node = new SavedTabTreeNode(sampleTabData);
+    expect(node.savedAt).toBe(node.created);
   });
 
   it('returns loading icon when status is loading', () => {
@@ -101,6 +120,67 @@ describe('SavedTabTreeNode', () => {
     expect(data.url).toBe('https://example.com');
   });
 
+  it('persists the opener tab ID', () => {
+    const node = new SavedTabTreeNode({ ...sampleTabData, openerTabId: 7 });
+    expect(node.serializeData()).toMatchObject({ openerTabId: 7 });
+    expect(
+      new SavedTabTreeNode(sampleTabData).serializeData(),
+    ).not.toHaveProperty('openerTabId');
+  });
+
+  it('replaces a restored opener tab ID with the live one', () => {
+    const node = new TabTreeNode({ ...sampleTabData, openerTabId: 7 });
+    node.updateChromeData({ ...sampleTabData, id: 42 });
+    expect(node.serializeData()).not.toHaveProperty('openerTabId');
+  });
+
+  it('persists muted and wasActive only when set', () => {
+    const flagged = new SavedTabTreeNode({
+      ...sampleTabData,
+      muted: true,
+      wasActive: true,
+    });
+    expect(flagged.serializeData()).toMatchObject({
+      muted: true,
+      wasActive: true,
+    });
+
+    const plain = new SavedTabTreeNode({
+      ...sampleTabData,
+      muted: false,
+      wasActive: false,
+    });
+    expect(plain.serializeData()).not.toHaveProperty('muted');
+    expect(plain.serializeData()).not.toHaveProperty('wasActive');
+  });
+
+  it('persists audible and lastAccessed, dropping the ungrouped groupId', () => {
+    const node = new SavedTabTreeNode({
+      ...sampleTabData,
+      audible: true,
+      lastAccessed: 1767225600000,
+      groupId: -1,
+    });
+    const data = node.serializeData();
+    expect(data).toMatchObject({ audible: true, lastAccessed: 1767225600000 });
+    expect(data).not.toHaveProperty('groupId');
+
+    const grouped = new SavedTabTreeNode({ ...sampleTabData, groupId: 5 });
+    expect(grouped.serializeData()).toMatchObject({ groupId: 5 });
+  });
+
+  it('shows pinned and muted indicators but never audible', () => {
+    const node = new SavedTabTreeNode({
+      ...sampleTabData,
+      pinned: true,
+      audible: true,
+    });
+    expect(node.getTabStateIndicators()).toEqual(['pinned']);
+
+    const muted = new SavedTabTreeNode({ ...sampleTabData, muted: true });
+    expect(muted.getTabStateIndicators()).toEqual(['muted']);
+  });
+
   it('has editTitle in hovering menu', () => {
     const node = new SavedTabTreeNode(sampleTabData);
     const actions = node.getHoveringMenuActions();
@@ -135,6 +215,52 @@ describe('TabTreeNode', () => {
     expect(new TabTreeNode(sampleTabData).isAnOpenTab()).toBe(true);
   });
 
+  it('renders as sleeping while discarded', () => {
+    const node = new TabTreeNode(sampleTabData);
+    expect(node.getNodeContentCssClass()).toBeNull();
+    node.updateChromeData({ ...sampleTabData, discarded: true });
+    expect(node.getNodeContentCssClass()).toBe('sleeping');
+  });
+
+  it('persists discarded when set, and autoDiscardable only when off', () => {
+    const node = new TabTreeNode({
+      ...sampleTabData,
+      discarded: true,
+      autoDiscardable: true,
+    });
+    expect(node.serializeData()).toMatchObject({ discarded: true });
+    expect(node.serializeData()).not.toHaveProperty('autoDiscardable');
+
+    node.updateChromeData({ ...sampleTabData, discarded: false });
+    expect(node.serializeData()).not.toHaveProperty('discarded');
+
+    node.updateChromeData({ ...sampleTabData, autoDiscardable: false });
+    expect(node.serializeData()).toMatchObject({ autoDiscardable: false });
+  });
+
+  it('has no saved time, and leaves unknown times out of the tooltip', () => {
+    const node = new TabTreeNode(sampleTabData);
+    expect(node.savedAt).toBeNull();
+    const created = node.created ?? 0;
+    expect(node.getTooltipText()).toBe(
+      `Created: ${new Date(created).toLocaleString()}`,
+    );
+
+    node.created = null;
+    expect(node.getTooltipText()).toBe('');
+  });
+
+  it('shows an audible indicator unless the tab is muted', () => {
+    const node = new TabTreeNode({ ...sampleTabData, audible: true });
+    expect(node.getTabStateIndicators()).toEqual(['audible']);
+
+    node.updateChromeData({ ...sampleTabData, audible: true, muted: true });
+    expect(node.getTabStateIndicators()).toEqual(['muted']);
+
+    node.updateChromeData(sampleTabData);
+    expect(node.getTabStateIndicators()).toEqual([]);
+  });
+
   it('updateChromeData replaces data', () => {
     const node = new TabTreeNode(sampleTabData);
     node.updateChromeData({ ...sampleTabData, title: 'Updated' });
@@ -151,10 +277,11 @@ describe('TabTreeNode', () => {
     expect(clone.isSelectedTab()).toBe(false);
   });
 
-  it('has close action in hovering menu', () => {
+  it('has close and hibernate actions in hovering menu', () => {
     const node = new TabTreeNode(sampleTabData);
     const actions = node.getHoveringMenuActions();
     expect(actions.closeAction).toBeDefined();
+    expect(actions.hibernateAction).toBeDefined();
     expect(actions.editTitleAction).toBeDefined();
   });
 
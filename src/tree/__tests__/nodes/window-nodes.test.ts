@@ -175,6 +175,7 @@ describe('WindowTreeNode', () => {
     const node = new WindowTreeNode(sampleWindowData);
     const actions = node.getHoveringMenuActions();
     expect(actions.closeAction).toBeDefined();
+    expect(actions.hibernateAction).toBeDefined();
   });
 
   it('counts as active window in stats', () => {
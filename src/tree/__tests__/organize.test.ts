@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { matchesRule, organizeNode, previewOrganizeRules } from '../organize';
+import { TreeModel } from '../tree-model';
+import { resetMvcIdCounter } from '../mvc-id';
+import { SessionTreeNode } from '../nodes/session-node';
+import { WindowTreeNode } from '../nodes/window-node';
+import { SavedWindowTreeNode } from '../nodes/saved-window-node';
+import { GroupTreeNode } from '../nodes/group-node';
+import { TabTreeNode } from '../nodes/tab-node';
+import { SavedTabTreeNode } from '../nodes/saved-tab-node';
+import { TextNoteTreeNode } from '../nodes/text-note-node';
+import type { OrganizeRule } from '@/types/organize';
+
+function rule(partial: Partial<OrganizeRule>): OrganizeRule {
+  return {
+    id: 'r',
+    enabled: true,
+    urlPattern: '',
+    titleContains: '',
+    windowTitleContains: '',
+    action: { kind: 'moveToGroup', groupPath: 'Work/Repos' },
+    ...partial,
+  };
+}
+
+const repos = rule({ id: 'repos', urlPattern: 'github.com/myorg/*' });
+const red = rule({
+  id: 'red',
+  windowTitleContains: 'research',
+  action: { kind: 'mark', color: '#ff0000' },
+});
+
+/** root → win (window 1): tab 10 (github.com/myorg/app), tab 11 (x.com) */
+function setup() {
+  const root = new SessionTreeNode();
+  const win = new WindowTreeNode({ id: 1, type: 'normal' });
+  const app = new TabTreeNode({
+    id: 10,
+    windowId: 1,
+    url: 'https://github.com/myorg/app',
+    title: 'App',
+  });
+  const other = new TabTreeNode({
+    id: 11,
+    windowId: 1,
+    url: 'https://x.com/',
+    title: 'X',
+  });
+  root.insertSubnode(0, win);
+  win.insertSubnode(0, app);
+  win.insertSubnode(1, other);
+  return { model: new TreeModel(root), win, app, other };
+}
+
+beforeEach(() => resetMvcIdCounter());
+
+describe('matchesRule', () => {
+  it('matches URL globs with or without the scheme', () => {
+    const { app, other } = setup();
+    expect(matchesRule(repos, app)).toBe(true);
+    expect(matchesRule(repos, other)).toBe(false);
+    expect(matchesRule(rule({ urlPattern: 'https://github.com/*' }), app)).toBe(
+      true,
+    );
+    expect(matchesRule(rule({ urlPattern: 'github.com' }), app)).toBe(false);
+  });
+
+  it('requires every non-empty condition', () => {
+    const { app } = setup();
+    expect(matchesRule({ ...repos, titleContains: 'app' }, app)).toBe(true);
+    expect(matchesRule({ ...repos, titleContains: 'lib' }, app)).toBe(false);
+  });
+
+  it('checks the title of the enclosing window', () => {
+    const { win, app } = setup();
+    expect(matchesRule(red, app)).toBe(false);
+    win.setMarks({ ...win.marks, customTitle: 'My Research' });
+    expect(matchesRule(red, app)).toBe(true);
+  });
+
+  it('never matches with no conditions, when disabled, or for non-tabs', () => {
+    const { app } = setup();
+    expect(matchesRule(rule({}), app)).toBe(false);
+    expect(matchesRule({ ...repos, enabled: false }, app)).toBe(false);
+    const note = new TextNoteTreeNode({ note: 'github.com/myorg/x' });
+    expect(matchesRule(rule({ titleContains: 'github' }), note)).toBe(false);
+  });
+});
+
+describe('organizeNode', () => {
+  it('creates the group path inside the window and moves the tab', () => {
+    const { model, win, app } = setup();
+
+    expect(organizeNode(model, [repos], app)).toBe(true);
+
+    const work = win.subnodes[1];
+    expect(work).toBeInstanceOf(GroupTreeNode);
+    expect(work.getNodeText()).toBe('Work');
+    expect(app.parent?.getNodeText()).toBe('Repos');
+    expect(app.parent?.parent).toBe(work);
+    expect(model.findByMvcId(work.idMVC)).toBe(work);
+
+    // Already in place: nothing more to do.
+    expect(organizeNode(model, [repos], app)).toBe(false);
+  });
+
+  it('reuses existing groups', () => {
+    const { model, win, app } = setup();
+    const saved = new SavedWindowTreeNode();
+    const tab = new SavedTabTreeNode({
+      url: 'https://github.com/myorg/lib',
+      title: 'Lib',
+    });
+    model.insertAsLastChild(model.root, saved);
+    model.insertAsLastChild(saved, tab);
+
+    organizeNode(model, [repos], app);
+    const target = app.parent;
+    organizeNode(model, [repos], tab);
+
+    // Groups are per window.
+    expect(tab.parent).not.toBe(target);
+    expect(tab.parent?.parent?.parent).toBe(saved);
+    expect(win.subnodes.filter((n) => n.getNodeText() === 'Work')).toHaveLength(
+      1,
+    );
+  });
+
+  it('colors the tab for both its open and saved states', () => {
+    const { model, win, app } = setup();
+    win.setMarks({ ...win.marks, customTitle: 'Research' });
+
+    organizeNode(model, [red], app);
+
+    expect(app.marks.customColorActive).toBe('#ff0000');
+    expect(app.marks.customColorSaved).toBe('#ff0000');
+    expect(organizeNode(model, [red], app)).toBe(false);
+  });
+
+  it('applies only the first matching rule of each kind', () => {
+    const { model, win, app } = setup();
+    const other = rule({
+      urlPattern: '*github*',
+      action: { kind: 'moveToGroup', groupPath: 'Elsewhere' },
+    });
+
+    organizeNode(model, [repos, other], app);
+
+    expect(app.parent?.getNodeText()).toBe('Repos');
+    expect(win.subnodes.some((n) => n.getNodeText() === 'Elsewhere')).toBe(
+      false,
+    );
+  });
+
+  it('leaves tabs in a Chrome tab group where they are', () => {
+    const { model, win, app } = setup();
+    const tabGroup = new GroupTreeNode({ id: 5, windowId: 1 });
+    model.insertAsFirstChild(win, tabGroup);
+    model.moveNode(app, { containerIdMVC: tabGroup.idMVC, position: 0 });
+
+    expect(organizeNode(model, [repos], app)).toBe(false);
+    expect(app.parent).toBe(tabGroup);
+  });
+});
+
+describe('previewOrganizeRules', () => {
+  it('lists pending changes without touching the tree', () => {
+    const { model, win, app } = setup();
+    win.setMarks({ ...win.marks, customTitle: 'Research' });
+
+    const entries = previewOrganizeRules(model, [repos, red]);
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        ruleId: 'repos',
+        idMVC: app.idMVC,
+        change: 'Move to Work/Repos',
+      }),
+      expect.objectContaining({ ruleId: 'red', idMVC: app.idMVC }),
+      expect.objectContaining({ ruleId: 'red', nodeText: 'X' }),
+    ]);
+    expect(app.parent).toBe(win);
+    expect(win.subnodes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { findSearchMatches } from '../search';
+import { TreeModel } from '../tree-model';
+import { resetMvcIdCounter } from '../mvc-id';
+import { SessionTreeNode } from '../nodes/session-node';
+import { SavedWindowTreeNode } from '../nodes/saved-window-node';
+import { SavedTabTreeNode } from '../nodes/saved-tab-node';
+import { TextNoteTreeNode } from '../nodes/text-note-node';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('findSearchMatches', () => {
+  beforeEach(() => resetMvcIdCounter());
+
+  function setup() {
+    const root = new SessionTreeNode();
+    const win = new SavedWindowTreeNode();
+    win.setMarks({ relicons: [], customTitle: 'Research' });
+    const docs = new SavedTabTreeNode({
+      url: 'https://docs.example.com/api',
+      title: 'API reference',
+    });
+    docs.created = docs.savedAt = NOW - 200 * DAY;
+    const issues = new SavedTabTreeNode({
+      url: 'https://github.com/x/issues',
+      title: 'Issues',
+    });
+    issues.created = issues.savedAt = NOW - 2 * DAY;
+    const note = new TextNoteTreeNode({ note: 'Read the API docs' });
+    note.created = NOW - 2 * DAY;
+
+    win.insertSubnode(0, docs);
+    win.insertSubnode(1, issues);
+    root.insertSubnode(0, win);
+    root.insertSubnode(1, note);
+    win.colapsed = true;
+    return { model: new TreeModel(root), win, docs, issues, note };
+  }
+
+  it('finds nodes inside collapsed containers, in tree order', () => {
+    const { model, docs, note } = setup();
+    expect(findSearchMatches(model, 'api', NOW)).toEqual([
+      docs.idMVC,
+      note.idMVC,
+    ]);
+  });
+
+  it('matches terms across title, URL and custom title', () => {
+    const { model, win, issues } = setup();
+    expect(findSearchMatches(model, 'github ISSUES', NOW)).toEqual([
+      issues.idMVC,
+    ]);
+    expect(findSearchMatches(model, 'research', NOW)).toEqual([win.idMVC]);
+  });
+
+  it('applies age filters', () => {
+    const { model, docs, issues } = setup();
+    expect(findSearchMatches(model, 'example older:90d', NOW)).toEqual([
+      docs.idMVC,
+    ]);
+    expect(findSearchMatches(model, 'github newer:1w', NOW)).toEqual([
+      issues.idMVC,
+    ]);
+  });
+
+  it('matches nothing for an empty query', () => {
+    const { model } = setup();
+    expect(findSearchMatches(model, '   ', NOW)).toEqual([]);
+  });
+});
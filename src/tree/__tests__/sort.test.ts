@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { domainOf, sortedSubnodes, groupedByDomain } from '../sort';
+import { resetMvcIdCounter } from '../mvc-id';
+import { GroupTreeNode } from '../nodes/group-node';
+import { SavedWindowTreeNode } from '../nodes/saved-window-node';
+import { SavedTabTreeNode } from '../nodes/saved-tab-node';
+import { TextNoteTreeNode } from '../nodes/text-note-node';
+import type { TreeNode } from '../tree-node';
+
+function saved(title: string, url: string): SavedTabTreeNode {
+  return new SavedTabTreeNode({ title, url });
+}
+
+function containerOf(...nodes: TreeNode[]): SavedWindowTreeNode {
+  const win = new SavedWindowTreeNode();
+  nodes.forEach((node) => win.insertSubnode(-1, node));
+  return win;
+}
+
+function titles(nodes: readonly TreeNode[]): string[] {
+  return nodes.map((n) => n.getNodeText());
+}
+
+describe('domainOf', () => {
+  it('returns the host name without www', () => {
+    expect(domainOf('https://www.Example.com/a?b')).toBe('example.com');
+    expect(domainOf('https://docs.example.com/')).toBe('docs.example.com');
+  });
+
+  it('returns null for URLs without a host', () => {
+    expect(domainOf(null)).toBeNull();
+    expect(domainOf('not a url')).toBeNull();
+    expect(domainOf('about:blank')).toBeNull();
+  });
+});
+
+describe('sortedSubnodes', () => {
+  beforeEach(() => resetMvcIdCounter());
+
+  it('sorts by title either way, ignoring case and comparing numbers', () => {
+    const win = containerOf(
+      saved('item 10', 'https://a.com'),
+      saved('Banana', 'https://b.com'),
+      saved('item 9', 'https://c.com'),
+      saved('apple', 'https://d.com'),
+    );
+
+    expect(titles(sortedSubnodes(win, 'title', 'asc'))).toEqual([
+      'apple',
+      'Banana',
+      'item 9',
+      'item 10',
+    ]);
+    expect(titles(sortedSubnodes(win, 'title', 'desc'))).toEqual([
+      'item 10',
+      'item 9',
+      'Banana',
+      'apple',
+    ]);
+  });
+
+  it('prefers a custom title', () => {
+    const renamed = saved('Zed', 'https://z.com');
+    renamed.setMarks({ ...renamed.marks, customTitle: 'Aardvark' });
+    const win = containerOf(saved('Mid', 'https://m.com'), renamed);
+
+    expect(sortedSubnodes(win, 'title', 'asc')[0]).toBe(renamed);
+  });
+
+  it('sorts by domain, keeping ties in order and hostless nodes last', () => {
+    const note = new TextNoteTreeNode({ note: 'note' });
+    const win = containerOf(
+      note,
+      saved('b1', 'https://www.b.com/1'),
+      saved('a', 'https://a.com/'),
+      saved('b2', 'https://b.com/2'),
+    );
+
+    expect(titles(sortedSubnodes(win, 'domain', 'asc'))).toEqual([
+      'a',
+      'b1',
+      'b2',
+      'note',
+    ]);
+    expect(titles(sortedSubnodes(win, 'domain', 'desc'))).toEqual([
+      'b1',
+      'b2',
+      'a',
+      'note',
+    ]);
+  });
+
+  it('sorts by full URL', () => {
+    const win = containerOf(
+      saved('2', 'https://a.com/b'),
+      saved('1', 'https://a.com/a'),
+    );
+    expect(titles(sortedSubnodes(win, 'url', 'asc'))).toEqual(['1', '2']);
+  });
+
+  it('sorts by saved date, falling back to creation', () => {
+    const older = saved('older', 'https://a.com');
+    older.savedAt = 1000;
+    const newer = saved('newer', 'https://b.com');
+    newer.savedAt = 3000;
+    const note = new TextNoteTreeNode({ note: 'note' });
+    note.created = 2000;
+    const win = containerOf(newer, note, older);
+
+    expect(titles(sortedSubnodes(win, 'date', 'asc'))).toEqual([
+      'older',
+      'note',
+      'newer',
+    ]);
+    expect(titles(sortedSubnodes(win, 'date', 'desc'))).toEqual([
+      'newer',
+      'note',
+      'older',
+    ]);
+  });
+});
+
+describe('groupedByDomain', () => {
+  beforeEach(() => resetMvcIdCounter());
+
+  it('buckets links into new groups after the other children', () => {
+    const note = new TextNoteTreeNode({ note: 'note' });
+    const b1 = saved('b1', 'https://b.com/1');
+    const a = saved('a', 'https://www.a.com/');
+    const b2 = saved('b2', 'https://b.com/2');
+    const blank = saved('blank', 'about:blank');
+    const win = containerOf(b1, note, a, blank, b2);
+
+    const layout = groupedByDomain(win);
+
+    expect(layout.slice(0, 2)).toEqual([note, blank]);
+    const groups = layout.slice(2).map((slot) => {
+      if (!('container' in slot)) throw new Error('expected a group');
+      return slot;
+    });
+    expect(groups.map((g) => g.container.getNodeText())).toEqual([
+      'a.com',
+      'b.com',
+    ]);
+    expect(groups.every((g) => g.container instanceof GroupTreeNode)).toBe(
+      true,
+    );
+    expect(groups.map((g) => g.subnodes)).toEqual([[a], [b1, b2]]);
+  });
+
+  it('leaves containers alone', () => {
+    const inner = containerOf(saved('x', 'https://x.com'));
+    const win = containerOf(inner);
+    expect(groupedByDomain(win)).toEqual([inner]);
+  });
+});
@@ -80,6 +80,18 @@ describe('TreeModel', () => {
       expect(win!.type).toBe(NodeTypesEnum.WINDOW);
     });
 
+    it('findActiveTabGroup indexes live tab groups by chrome group id', () => {
+      const model = createTestTree();
+      const win = model.root.subnodes[0];
+      const live = new GroupTreeNode({ id: 5, windowId: 1, title: 'G' });
+      model.insertAsLastChild(win, live);
+      model.insertAsLastChild(win, new GroupTreeNode({ title: 'Saved' }));
+      expect(model.findActiveTabGroup(5)).toBe(live);
+
+      model.replaceNode(live, live.cloneAsSaved());
+      expect(model.findActiveTabGroup(5)).toBeNull();
+    });
+
     it('getActiveWindowNodes returns all active windows', () => {
       const model = createTestTree();
       expect(model.getActiveWindowNodes()).toHaveLength(1);
@@ -471,6 +483,76 @@ describe('TreeModel', () => {
       expect(savedWinReplacement.previousIdMVC).toBe(oldId);
       expect(result.type).toBe('replace');
     });
+
+    it('carries the creation and last-visit times over', () => {
+      const model = createTestTree();
+      const win = model.root.subnodes[0];
+      win.created = 1000;
+      win.lastVisited = 2000;
+
+      const replacement = new SavedWindowTreeNode({ id: 99 });
+      model.replaceNode(win, replacement);
+
+      expect(replacement.created).toBe(1000);
+      expect(replacement.lastVisited).toBe(2000);
+      expect(replacement.savedAt).toBeGreaterThan(2000);
+    });
+  });
+
+  describe('rearrangeSubnodes', () => {
+    it('reorders children in a single mutation', () => {
+      const listener = vi.fn();
+      const model = new TreeModel(createTestTree().root, {
+        onMutation: listener,
+      });
+      const win = model.root.subnodes[0];
+      const [tab1, tab2] = win.subnodes;
+
+      const result = model.rearrangeSubnodes(win, [tab2, tab1]);
+
+      expect(win.subnodes).toEqual([tab2, tab1]);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(result.affectedNodeId).toBe(win.idMVC);
+      expect(result.record?.kind).toBe('rearrange');
+    });
+
+    it('inserts new containers and dissolves ones left out', () => {
+      const model = createTestTree();
+      const win = model.root.subnodes[0];
+      const [tab1, tab2] = win.subnodes;
+      const group = new GroupTreeNode();
+
+      model.rearrangeSubnodes(win, [
+        { container: group, subnodes: [tab2] },
+        tab1,
+      ]);
+      expect(win.subnodes).toEqual([group, tab1]);
+      expect(group.subnodes).toEqual([tab2]);
+      expect(model.findByMvcId(group.idMVC)).toBe(group);
+
+      model.rearrangeSubnodes(win, [tab1, tab2]);
+      expect(win.subnodes).toEqual([tab1, tab2]);
+      expect(group.parent).toBeNull();
+      expect(model.findByMvcId(group.idMVC)).toBeNull();
+      expect(model.findActiveTab(102)).toBe(tab2);
+    });
+
+    it('rejects layouts that drop or repeat a child', () => {
+      const model = createTestTree();
+      const win = model.root.subnodes[0];
+      const [tab1, tab2] = win.subnodes;
+
+      expect(() => model.rearrangeSubnodes(win, [tab1])).toThrow();
+      expect(() => model.rearrangeSubnodes(win, [tab1, tab2, tab1])).toThrow();
+      expect(() =>
+        model.rearrangeSubnodes(win, [
+          tab1,
+          tab2,
+          { container: new GroupTreeNode(), subnodes: [] },
+        ]),
+      ).toThrow();
+      expect(win.subnodes).toEqual([tab1, tab2]);
+    });
   });
 
   describe('serialization', () => {
@@ -484,6 +566,66 @@ describe('TreeModel', () => {
     });
   });
 
+  describe('serializeForDiff', () => {
+    const emptyBase = { allKnots: new Map(), entries: new Map() };
+
+    function committed(model: TreeModel) {
+      return model.serializeForDiff(1, emptyBase);
+    }
+
+    it('writes every node against an empty base', () => {
+      const model = createTestTree();
+      const diff = committed(model);
+      expect(diff.entries.size).toBe(6);
+      expect(diff.allKnots.size).toBe(6);
+      expect(diff.allKnots.has(diff.rootDid)).toBe(true);
+    });
+
+    it('writes nothing when the base is up to date', () => {
+      const model = createTestTree();
+      const base = committed(model);
+      const diff = model.serializeForDiff(model.getNextDId(), base);
+      expect(diff.entries.size).toBe(0);
+      expect(diff.allKnots.size).toBe(0);
+      expect(diff.rootDid).toBe(base.rootDid);
+    });
+
+    it('writes a changed node and the knots on its path', () => {
+      const model = createTestTree();
+      const base = committed(model);
+      const savedTab = model.root.subnodes[1].subnodes[0];
+      model.setMarks(savedTab, { ...savedTab.marks, customTitle: 'Mine' });
+
+      const diff = model.serializeForDiff(model.getNextDId(), base);
+      expect(diff.entries.size).toBe(1);
+      expect(diff.allKnots.size).toBe(3);
+      expect(diff.rootDid).not.toBe(base.rootDid);
+    });
+
+    it('notices changes made to nodes outside the model', () => {
+      const model = createTestTree();
+      const base = committed(model);
+      const tab = model.root.subnodes[0].subnodes[1];
+      tab.setMarks({ ...tab.marks, customTitle: 'Direct' });
+
+      const diff = model.serializeForDiff(model.getNextDId(), base);
+      expect([...diff.entries.values()]).toEqual([
+        expect.stringContaining('Direct'),
+      ]);
+    });
+
+    it('skips subtrees off the changed path', () => {
+      const model = createTestTree();
+      const base = committed(model);
+      const savedTab = model.root.subnodes[1].subnodes[0];
+      model.setMarks(savedTab, { ...savedTab.marks, customTitle: 'Mine' });
+      const untouched = vi.spyOn(model.root.subnodes[0], 'serialize');
+
+      model.serializeForDiff(model.getNextDId(), base);
+      expect(untouched).not.toHaveBeenCalled();
+    });
+  });
+
   describe('static factories', () => {
     it('fromHierarchyJSO creates a TreeModel', () => {
       const jso: HierarchyJSO = {
@@ -543,5 +685,40 @@ describe('TreeModel', () => {
         'delete',
       ]);
     });
+
+    it('attaches a record with the before/after state', () => {
+      const results: TreeMutationResult[] = [];
+      const model = createTestTree();
+      const win = model.root.subnodes[0];
+      const tab1 = win.subnodes[0];
+      const savedWin = model.root.subnodes[1];
+      const listened = new TreeModel(model.root, {
+        onMutation: (r) => results.push(r),
+      });
+
+      listened.moveNode(tab1, {
+        containerIdMVC: savedWin.idMVC,
+        position: 1,
+      });
+      listened.setMarks(tab1, { relicons: [], customTitle: 'Renamed' });
+      listened.removeSubtree(tab1);
+
+      expect(results[0].record).toEqual({
+        kind: 'move',
+        node: tab1,
+        from: { parent: win, index: 0 },
+        to: { parent: savedWin, index: 1 },
+      });
+      expect(results[1].record).toMatchObject({
+        kind: 'marks',
+        before: { relicons: [] },
+        after: { customTitle: 'Renamed' },
+      });
+      expect(results[2].record).toEqual({
+        kind: 'remove',
+        node: tab1,
+        at: { parent: savedWin, index: 1 },
+      });
+    });
   });
 });
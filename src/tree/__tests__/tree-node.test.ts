@@ -445,6 +445,7 @@ describe('TreeNode', () => {
 
       const actions = parent.getHoveringMenuActions();
       expect(actions.closeAction).toBeDefined();
+      expect(actions.hibernateAction).toBeDefined();
     });
 
     it('does not add closeAction when collapsed without active tabs', () => {
@@ -455,6 +456,7 @@ describe('TreeNode', () => {
 
       const actions = parent.getHoveringMenuActions();
       expect(actions.closeAction).toBeUndefined();
+      expect(actions.hibernateAction).toBeUndefined();
     });
   });
 
@@ -535,6 +537,20 @@ describe('TreeNode', () => {
       expect(result.sdId).toBe(12);
       expect(result.sdIdKnot).toBe('knot-value');
     });
+
+    it('always includes created, and saved/visited times once set', () => {
+      const node = new TestNode();
+      expect(node.serialize()).toMatchObject({ created: node.created });
+      expect(node.serialize()).not.toHaveProperty('savedAt');
+      expect(node.serialize()).not.toHaveProperty('lastVisited');
+
+      node.savedAt = 2000;
+      node.lastVisited = 1500;
+      expect(node.serialize()).toMatchObject({
+        savedAt: 2000,
+        lastVisited: 1500,
+      });
+    });
   });
 
   describe('serializeToHierarchy', () => {
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UndoStack } from '../undo-stack';
+import { TreeModel } from '../tree-model';
+import { SessionTreeNode } from '../nodes/session-node';
+import { SavedWindowTreeNode } from '../nodes/saved-window-node';
+import { SavedTabTreeNode } from '../nodes/saved-tab-node';
+import { TextNoteTreeNode } from '../nodes/text-note-node';
+import { GroupTreeNode } from '../nodes/group-node';
+import { resetMvcIdCounter } from '../mvc-id';
+import type { TreeNode } from '../tree-node';
+
+interface Fixture {
+  model: TreeModel;
+  stack: UndoStack;
+  winA: SavedWindowTreeNode;
+  winB: SavedWindowTreeNode;
+  tabs: SavedTabTreeNode[];
+}
+
+/** root → winA [t0, t1, t2], winB [] — model wired to the stack. */
+function setup(maxEntries?: number): Fixture {
+  const stack = new UndoStack(maxEntries);
+  const root = new SessionTreeNode();
+  const winA = new SavedWindowTreeNode();
+  const winB = new SavedWindowTreeNode();
+  const tabs = [0, 1, 2].map(
+    (i) => new SavedTabTreeNode({ url: `https://${i}.com`, title: `T${i}` }),
+  );
+  root.insertSubnode(-1, winA);
+  root.insertSubnode(-1, winB);
+  for (const tab of tabs) winA.insertSubnode(-1, tab);
+  const model = new TreeModel(root, {
+    onMutation: (r) => stack.observe(r),
+  });
+  return { model, stack, winA, winB, tabs };
+}
+
+function childTitles(node: TreeNode): string[] {
+  return node.subnodes.map((n) => n.getNodeText());
+}
+
+describe('UndoStack', () => {
+  beforeEach(() => resetMvcIdCounter());
+
+  it('ignores mutations made outside a transaction', () => {
+    const { model, stack, tabs } = setup();
+    model.removeSubtree(tabs[0]);
+    expect(stack.canUndo).toBe(false);
+  });
+
+  it('undoes and redoes a delete with the same node', () => {
+    const { model, stack, winA, tabs } = setup();
+    stack.transaction('Delete', () => model.removeSubtree(tabs[1]));
+
+    expect(stack.undo(model)?.label).toBe('Delete');
+    expect(winA.subnodes[1]).toBe(tabs[1]);
+    expect(model.findByMvcId(tabs[1].idMVC)).toBe(tabs[1]);
+
+    stack.redo(model);
+    expect(childTitles(winA)).toEqual(['T0', 'T2']);
+    expect(model.findByMvcId(tabs[1].idMVC)).toBeNull();
+  });
+
+  it('undoes a move within the same parent in both directions', () => {
+    const { model, stack, winA, tabs } = setup();
+    // Move T0 below T2 (insert-then-remove position 3)
+    stack.transaction('Move', () =>
+      model.moveNode(tabs[0], { containerIdMVC: winA.idMVC, position: 3 }),
+    );
+    expect(childTitles(winA)).toEqual(['T1', 'T2', 'T0']);
+
+    stack.undo(model);
+    expect(childTitles(winA)).toEqual(['T0', 'T1', 'T2']);
+
+    stack.redo(model);
+    expect(childTitles(winA)).toEqual(['T1', 'T2', 'T0']);
+  });
+
+  it('undoes a move across parents', () => {
+    const { model, stack, winA, winB, tabs } = setup();
+    stack.transaction('Move', () =>
+      model.moveNode(tabs[1], { containerIdMVC: winB.idMVC, position: 0 }),
+    );
+
+    stack.undo(model);
+    expect(childTitles(winA)).toEqual(['T0', 'T1', 'T2']);
+    expect(winB.subnodes).toHaveLength(0);
+  });
+
+  it('reverts every step of a transaction as one entry', () => {
+    const { model, stack, winA, tabs } = setup();
+    const group = new GroupTreeNode();
+    stack.transaction('Paste', () => {
+      model.insertSubnode(model.root, 0, group);
+      model.moveNode(tabs[2], { containerIdMVC: group.idMVC, position: 0 });
+      model.setCollapsed(group, true);
+    });
+
+    stack.undo(model);
+    expect(stack.canUndo).toBe(false);
+    expect(model.root.subnodes).not.toContain(group);
+    expect(childTitles(winA)).toEqual(['T0', 'T1', 'T2']);
+  });
+
+  it('restores collapse state, marks and note text', () => {
+    const { model, stack, winA, tabs } = setup();
+    const note = new TextNoteTreeNode({ note: 'before' });
+    model.insertSubnode(model.root, -1, note);
+
+    stack.transaction('Collapse', () => model.setCollapsed(winA, true));
+    stack.transaction('Edit title', () =>
+      model.setMarks(tabs[0], { relicons: [], customTitle: 'Custom' }),
+    );
+    stack.transaction('Edit note', () => model.setNoteText(note, 'after'));
+
+    stack.undo(model);
+    expect(note.getNodeText()).toBe('before');
+    stack.undo(model);
+    expect(tabs[0].marks.customTitle).toBeUndefined();
+    stack.undo(model);
+    expect(winA.colapsed).toBe(false);
+
+    stack.redo(model);
+    expect(winA.colapsed).toBe(true);
+  });
+
+  it('undoes a replace and hands the children back', () => {
+    const { model, stack, winA } = setup();
+    const group = new GroupTreeNode();
+    stack.transaction('Replace', () => model.replaceNode(winA, group));
+    expect(group.subnodes).toHaveLength(3);
+
+    stack.undo(model);
+    expect(model.root.subnodes[0]).toBe(winA);
+    expect(winA.subnodes).toHaveLength(3);
+  });
+
+  it('clears redo history when a new action is recorded', () => {
+    const { model, stack, tabs } = setup();
+    stack.transaction('Delete', () => model.removeSubtree(tabs[0]));
+    stack.undo(model);
+    expect(stack.canRedo).toBe(true);
+
+    stack.transaction('Delete', () => model.removeSubtree(tabs[1]));
+    expect(stack.canRedo).toBe(false);
+  });
+
+  it('does not record steps it applies itself', () => {
+    const { model, stack, tabs } = setup();
+    stack.transaction('Delete', () => model.removeSubtree(tabs[0]));
+    stack.undo(model);
+    expect(stack.canUndo).toBe(false);
+    expect(stack.canRedo).toBe(true);
+  });
+
+  it('undoes and redoes a rearrangement with the same group nodes', () => {
+    const { model, stack, winA, tabs } = setup();
+    const group = new GroupTreeNode();
+    stack.transaction('Group by domain', () =>
+      model.rearrangeSubnodes(winA, [
+        tabs[1],
+        { container: group, subnodes: [tabs[2], tabs[0]] },
+      ]),
+    );
+
+    stack.undo(model);
+    expect(winA.subnodes).toEqual(tabs);
+    expect(model.findByMvcId(group.idMVC)).toBeNull();
+
+    stack.redo(model);
+    expect(winA.subnodes).toEqual([tabs[1], group]);
+    expect(childTitles(group)).toEqual(['T2', 'T0']);
+    expect(model.findByMvcId(group.idMVC)).toBe(group);
+  });
+
+  it('drops the oldest entries past the limit', () => {
+    const { model, stack, tabs } = setup(2);
+    for (const tab of tabs) {
+      stack.transaction('Delete', () => model.removeSubtree(tab));
+    }
+    expect(stack.undo(model)).not.toBeNull();
+    expect(stack.undo(model)).not.toBeNull();
+    expect(stack.undo(model)).toBeNull();
+  });
+
+  it('joins nested transactions into the outer one', () => {
+    const { model, stack, tabs } = setup();
+    stack.transaction('Outer', () => {
+      model.removeSubtree(tabs[0]);
+      stack.transaction('Inner', () => model.removeSubtree(tabs[1]));
+    });
+    expect(stack.undo(model)?.label).toBe('Outer');
+    expect(stack.canUndo).toBe(false);
+  });
+
+  it('clears history when the tree no longer matches the record', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { model, stack, winB, tabs } = setup();
+    stack.transaction('Delete', () => model.removeSubtree(tabs[0]));
+    stack.transaction('Delete', () => model.removeSubtree(winB));
+    // Something outside the stack re-parents the removed tab
+    winB.insertSubnode(0, tabs[0]);
+
+    stack.undo(model);
+    expect(stack.undo(model)).toBeNull();
+    expect(stack.canUndo).toBe(false);
+    expect(stack.canRedo).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('reverts the steps already undone when a later one fails', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { model, stack, winA, winB, tabs } = setup();
+    const note = new TextNoteTreeNode({ note: 'N' });
+    stack.transaction('Edit', () => {
+      model.insertAsLastChild(winA, note);
+      model.moveNode(tabs[0], { containerIdMVC: winB.idMVC, position: 0 });
+    });
+    // Removed outside the stack: undoing the insert can't find it.
+    model.removeSubtree(note);
+
+    expect(stack.undo(model)).toBeNull();
+    expect(winB.subnodes).toEqual([tabs[0]]);
+    expect(childTitles(winA)).toEqual(['T1', 'T2']);
+    expect(stack.canUndo).toBe(false);
+    warn.mockRestore();
+  });
+});
@@ -14,6 +14,7 @@ import type {
   WindowData,
   TextNoteData,
   SeparatorData,
+  GroupData,
 } from '@/types/node-data';
 import type { HierarchyJSO, SerializedNode } from '@/types/serialized';
 import { normalizeSerializedNode } from '@/serialization/hierarchy-jso';
@@ -77,7 +78,7 @@ export function deserializeNode(raw: SerializedNode): TreeNode | null {
       node = new WaitingWindowTreeNode(d as WindowData);
       break;
     case NodeTypesEnum.GROUP:
-      node = new GroupTreeNode();
+      node = new GroupTreeNode(d as GroupData);
       break;
     case NodeTypesEnum.TEXTNOTE:
       node = new TextNoteTreeNode(d as TextNoteData);
@@ -105,6 +106,13 @@ export function deserializeNode(raw: SerializedNode): TreeNode | null {
   if (serialized.sdId) node.sdId = serialized.sdId;
   if (serialized.sdIdKnot) node.sdIdKnot = serialized.sdIdKnot as string;
 
+  // Legacy files have no timestamps. Their creation time stays unknown
+  // rather than counting as now, which would make every upgraded tree
+  // look brand new to the aging view and age filters.
+  node.created = serialized.created ?? null;
+  node.savedAt = serialized.savedAt ?? null;
+  node.lastVisited = serialized.lastVisited ?? null;
+
   return node;
 }
 
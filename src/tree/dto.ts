@@ -78,6 +78,7 @@ export function toNodeDTO(node: TreeNode): NodeDTO {
   const statsBlock: StatsBlock | null = node.colapsed
     ? node.countSubnodesStats()
     : null;
+  const indicators = node.getTabStateIndicators();
 
   return {
     id: node.idMVC,
@@ -103,10 +104,15 @@ export function toNodeDTO(node: TreeNode): NodeDTO {
     nodeText: node.getNodeText(),
     isSelectedTab: node.isSelectedTab(),
     isFocusedWindow: node.isFocusedWindow(),
+    chromeWindowId: node.getChromeWindowId() ?? undefined,
+    tabStateIndicators: indicators.length > 0 ? indicators : undefined,
     isProtectedFromGoneOnClose: node.isProtectedFromGoneOnClose(),
     nodeContentCssClass: node.getNodeContentCssClass() ?? '',
     nodeTextCustomStyle: node.getNodeTextCustomStyle(),
     isSubnodesPresent: node.subnodes.length > 0,
+    created: node.created ?? undefined,
+    savedAt: node.savedAt ?? undefined,
+    lastVisited: node.lastVisited ?? undefined,
   };
 }
 
@@ -0,0 +1,112 @@
+/**
+ * Duplicate detection — groups tree nodes whose URLs point at the same page.
+ *
+ * A single pre-order pass over the model collects every node with an href
+ * under its normalized URL; keys seen more than once become a
+ * DuplicateGroup. Pure (no Chrome APIs), so the background can run it on
+ * demand and tests can drive it with a bare TreeModel.
+ */
+
+import type {
+  DuplicateGroup,
+  DuplicateOccurrence,
+  DuplicateScanOptions,
+} from '@/types/duplicates';
+import { NodeTypesEnum } from '@/types/enums';
+import type { TreeModel } from './tree-model';
+import type { TreeNode } from './tree-node';
+
+/**
+ * Query parameters that only identify the campaign or click that led to a
+ * page, never the page itself.
+ */
+const TRACKING_PARAM_RE =
+  /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|mc_cid|mc_eid|igshid|_ga|_gl)$/i;
+
+const CONTAINER_TYPES: ReadonlySet<string> = new Set([
+  NodeTypesEnum.WINDOW,
+  NodeTypesEnum.SAVEDWINDOW,
+  NodeTypesEnum.WAITINGWINDOW,
+  NodeTypesEnum.GROUP,
+]);
+
+/**
+ * Reduce `href` to the key duplicates are compared by. Scheme and host
+ * case are always folded (URL parsing does that); the rest depends on
+ * `options`. Strings that don't parse as URLs are compared verbatim.
+ */
+export function normalizeUrl(
+  href: string,
+  options: DuplicateScanOptions,
+): string {
+  let url: URL;
+  try {
+    url = new URL(href.trim());
+  } catch {
+    return href.trim();
+  }
+
+  if (options.ignoreFragment) url.hash = '';
+
+  if (options.ignoreTrackingParams) {
+    const tracking = [...url.searchParams.keys()].filter((key) =>
+      TRACKING_PARAM_RE.test(key),
+    );
+    // Only touch the query when there is something to drop: rewriting it
+    // through URLSearchParams re-encodes the remaining parameters.
+    for (const key of tracking) url.searchParams.delete(key);
+    if (tracking.length > 0 && url.searchParams.toString() === '') {
+      url.search = '';
+    }
+  }
+
+  if (options.ignoreTrailingSlash && url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, '') || '/';
+  }
+
+  return url.href;
+}
+
+/** Text of the nearest window or group above `node`; '' at the top level. */
+function containerTextOf(node: TreeNode): string {
+  for (let p = node.parent; p; p = p.parent) {
+    if (CONTAINER_TYPES.has(p.type)) return p.getNodeText();
+  }
+  return '';
+}
+
+/**
+ * Find every set of two or more nodes sharing a normalized URL. Groups are
+ * ordered by size (largest first), then by URL; occurrences keep tree order.
+ */
+export function findDuplicateGroups(
+  model: TreeModel,
+  options: DuplicateScanOptions,
+): DuplicateGroup[] {
+  const byUrl = new Map<string, DuplicateOccurrence[]>();
+
+  model.forEach((node) => {
+    const href = node.getHref();
+    if (!href) return;
+    const key = normalizeUrl(href, options);
+    const occurrence: DuplicateOccurrence = {
+      idMVC: node.idMVC,
+      nodeText: node.getNodeText(),
+      href,
+      active: node.type === NodeTypesEnum.TAB,
+      containerText: containerTextOf(node),
+    };
+    const list = byUrl.get(key);
+    if (list) list.push(occurrence);
+    else byUrl.set(key, [occurrence]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const [url, occurrences] of byUrl) {
+    if (occurrences.length > 1) groups.push({ url, occurrences });
+  }
+  return groups.sort(
+    (a, b) =>
+      b.occurrences.length - a.occurrences.length || a.url.localeCompare(b.url),
+  );
+}
@@ -11,11 +11,20 @@ export {
 } from './dto';
 export { CloseTracker } from './close-tracker';
 export type { CloseRecord } from './close-tracker';
+export { UndoStack } from './undo-stack';
+export type { UndoEntry, StepListener } from './undo-stack';
+export { normalizeUrl, findDuplicateGroups } from './duplicates';
+export { findSearchMatches } from './search';
+export { domainOf, sortedSubnodes, groupedByDomain } from './sort';
 export type {
   TreeMutationResult,
+  MutationRecord,
+  NodePosition,
+  SubnodeSlot,
   MutationListener,
   TreeModelOptions,
   DiffAccumulator,
+  DiffBase,
 } from './types';
 
 // Node classes
@@ -38,6 +38,7 @@ export class AttachWaitTabTreeNode extends TreeNode {
   updateChromeData(newData: TabData): void {
     this._chromeTabObj = { ...newData };
     this.lastmod = Date.now();
+    this.invalidateDiffPath();
   }
 
   getIcon(): string {
@@ -2,10 +2,13 @@
  * GroupTreeNode — a folder/group container in the tree.
  *
  * Port of legacy NodeGroup. Uses windowFrame styling and supports
- * custom favicon/title via marks.
+ * custom favicon/title via marks. A group may also mirror a native Chrome
+ * tab group: it then carries the group's title and color, plus the Chrome
+ * group ID while the group is live.
  */
 
 import { NodeTypesEnum } from '@/types/enums';
+import type { ChromeTabGroupData } from '@/types/chrome';
 import type { GroupData } from '@/types/node-data';
 import type { HoveringMenuActionId, HoveringMenuAction } from '@/types/node';
 import type { MutableStatsBlock } from '@/types/node-dto';
@@ -18,8 +21,26 @@ export class GroupTreeNode extends TreeNode {
   readonly isLink = false;
   readonly needFaviconAndTextHelperContainer = true;
 
+  private _tabGroup: ChromeTabGroupData | null;
+
+  constructor(tabGroup?: GroupData) {
+    super();
+    this._tabGroup = tabGroup ? { ...tabGroup } : null;
+  }
+
   get data(): GroupData {
-    return null;
+    return this._tabGroup;
+  }
+
+  /** Chrome group ID while this node mirrors a live tab group. */
+  get tabGroupId(): number | undefined {
+    return this._tabGroup?.id;
+  }
+
+  updateTabGroupData(newData: ChromeTabGroupData): void {
+    this._tabGroup = { ...newData };
+    this.lastmod = Date.now();
+    this.invalidateDiffPath();
   }
 
   getIcon(): string {
@@ -31,7 +52,7 @@ export class GroupTreeNode extends TreeNode {
   }
 
   getNodeText(): string {
-    return this.marks.customTitle ?? 'Group';
+    return this.marks.customTitle ?? (this._tabGroup?.title || 'Group');
   }
 
   getTooltipText(): string {
@@ -47,7 +68,7 @@ export class GroupTreeNode extends TreeNode {
   }
 
   getNodeContentCssClass(): string | null {
-    return null;
+    return this._tabGroup?.color ? `tabgroup-${this._tabGroup.color}` : null;
   }
 
   protected override countSelf(stats: MutableStatsBlock): void {
@@ -77,11 +98,18 @@ export class GroupTreeNode extends TreeNode {
   }
 
   serializeData(): GroupData {
-    return null;
+    return this._tabGroup;
   }
 
+  /** Clones keep the tab group's look but never its live Chrome IDs. */
   cloneAsSaved(): GroupTreeNode {
-    const clone = new GroupTreeNode();
+    const clone = new GroupTreeNode(
+      this._tabGroup && {
+        title: this._tabGroup.title,
+        color: this._tabGroup.color,
+        collapsed: this._tabGroup.collapsed,
+      },
+    );
     clone.copyMarksAndCollapsedFrom(this);
     return clone;
   }
@@ -7,10 +7,14 @@
 
 import { NodeTypesEnum } from '@/types/enums';
 import type { TabData } from '@/types/node-data';
-import type { HoveringMenuActionId, HoveringMenuAction } from '@/types/node';
+import type {
+  HoveringMenuActionId,
+  HoveringMenuAction,
+  TabStateIndicator,
+} from '@/types/node';
 import type { MutableStatsBlock } from '@/types/node-dto';
 import { TreeNode } from '../tree-node';
-import { serializeTabData } from './tab-utils';
+import { serializeTabData, tabStateIndicators } from './tab-utils';
 
 export class SavedTabTreeNode extends TreeNode {
   readonly type = NodeTypesEnum.SAVEDTAB;
@@ -38,6 +42,7 @@ export class SavedTabTreeNode extends TreeNode {
     if (record.active) record.active = false;
     if (record.focused) record.focused = false;
     this._persistentData = d;
+    this.savedAt = this.created;
   }
 
   get data(): TabData {
@@ -64,7 +69,7 @@ export class SavedTabTreeNode extends TreeNode {
   }
 
   getTooltipText(): string {
-    return '';
+    return this.timestampsTooltip();
   }
 
   getHref(): string | null {
@@ -83,6 +88,10 @@ export class SavedTabTreeNode extends TreeNode {
     return false;
   }
 
+  override getTabStateIndicators(): TabStateIndicator[] {
+    return tabStateIndicators(this._persistentData, false);
+  }
+
   protected override countSelf(stats: MutableStatsBlock): void {
     stats.nodesCount++;
     stats.savedTabsCount++;
@@ -29,6 +29,7 @@ export class SavedWindowTreeNode extends TreeNode {
     const record = d as Record<string, unknown>;
     if (record.focused) record.focused = false;
     this._persistentData = d;
+    this.savedAt = this.created;
   }
 
   get data(): WindowData {
@@ -9,6 +9,7 @@ import { NodeTypesEnum } from '@/types/enums';
 import type { SessionData } from '@/types/node-data';
 import type { HoveringMenuActionId, HoveringMenuAction } from '@/types/node';
 import type { MutableStatsBlock } from '@/types/node-dto';
+import type { SerializedNode } from '@/types/serialized';
 import { TreeNode } from '../tree-node';
 import { GroupTreeNode } from './group-node';
 
@@ -107,6 +108,16 @@ export class SessionTreeNode extends TreeNode {
     return { ...this._persistentData };
   }
 
+  /**
+   * Leaves nextDId out: it moves on every diff, and the storage commit
+   * record keeps it instead.
+   */
+  protected override serializeDiffEntry(): SerializedNode {
+    const data: Partial<MutableSessionData> = this.serializeData();
+    delete data.nextDId;
+    return { ...this.serialize(), data };
+  }
+
   /** Session clones as a Group (used during drag-and-drop). */
   cloneAsSaved(): TreeNode {
     const group = new GroupTreeNode();
@@ -7,11 +7,15 @@
 
 import { NodeTypesEnum } from '@/types/enums';
 import type { TabData } from '@/types/node-data';
-import type { HoveringMenuActionId, HoveringMenuAction } from '@/types/node';
+import type {
+  HoveringMenuActionId,
+  HoveringMenuAction,
+  TabStateIndicator,
+} from '@/types/node';
 import type { MutableStatsBlock } from '@/types/node-dto';
 import { TreeNode } from '../tree-node';
 import { SavedTabTreeNode } from './saved-tab-node';
-import { serializeTabData } from './tab-utils';
+import { serializeTabData, tabStateIndicators } from './tab-utils';
 
 export class TabTreeNode extends TreeNode {
   readonly type = NodeTypesEnum.TAB;
@@ -27,6 +31,14 @@ export class TabTreeNode extends TreeNode {
    */
   restoredFromSaved = false;
 
+  /**
+   * When the tab was last the active tab of its window — or, until it is
+   * first activated, when this node was created (so tabs found at startup
+   * count from then). Auto-hibernation falls back to it where Chrome
+   * reports no `lastAccessed`. Runtime-only, unlike `lastVisited`.
+   */
+  lastActivatedAt = Date.now();
+
   private _chromeTabObj: TabData;
 
   constructor(data?: TabData) {
@@ -46,6 +58,7 @@ export class TabTreeNode extends TreeNode {
   updateChromeData(newData: TabData): void {
     this._chromeTabObj = { ...newData };
     this.lastmod = Date.now();
+    this.invalidateDiffPath();
   }
 
   getIcon(): string {
@@ -64,7 +77,7 @@ export class TabTreeNode extends TreeNode {
   }
 
   getTooltipText(): string {
-    return '';
+    return this.timestampsTooltip();
   }
 
   getHref(): string | null {
@@ -75,8 +88,9 @@ export class TabTreeNode extends TreeNode {
     return this.marks.customTitle ?? null;
   }
 
+  /** Discarded tabs render as sleeping until they load again. */
   getNodeContentCssClass(): string | null {
-    return null;
+    return this._chromeTabObj.discarded ? 'sleeping' : null;
   }
 
   override isAnOpenTab(): boolean {
@@ -87,6 +101,10 @@ export class TabTreeNode extends TreeNode {
     return this._chromeTabObj.active ?? false;
   }
 
+  override getTabStateIndicators(): TabStateIndicator[] {
+    return tabStateIndicators(this._chromeTabObj, true);
+  }
+
   override calculateIsProtectedFromGoneOnClose(): boolean {
     this.isProtectedFromGoneOnCloseCache =
       this.isCustomMarksPresent() ||
@@ -121,6 +139,7 @@ export class TabTreeNode extends TreeNode {
       addNoteAction: { id: 'addNoteAction', performAction: () => {} },
       editTitleAction: { id: 'editTitleAction', performAction: () => {} },
       closeAction: { id: 'closeAction', performAction: () => {} },
+      hibernateAction: { id: 'hibernateAction', performAction: () => {} },
     };
   }
 }
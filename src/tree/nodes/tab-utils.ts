@@ -6,6 +6,22 @@
  */
 
 import type { TabData, WindowData } from '@/types/node-data';
+import type { TabStateIndicator } from '@/types/node';
+
+/**
+ * Indicators for a tab's pinned/muted/audible state. Only a live tab can be
+ * playing sound, and a muted one shows as muted rather than audible.
+ */
+export function tabStateIndicators(
+  data: TabData,
+  live: boolean,
+): TabStateIndicator[] {
+  const indicators: TabStateIndicator[] = [];
+  if (data.pinned) indicators.push('pinned');
+  if (data.muted) indicators.push('muted');
+  else if (live && data.audible) indicators.push('audible');
+  return indicators;
+}
 
 /** Serialize tab data, stripping runtime-only and default-value fields. */
 export function serializeTabData(data: TabData): TabData {
@@ -15,11 +31,20 @@ export function serializeTabData(data: TabData): TabData {
   if (!r.incognito) delete r.incognito;
   if (!r.active) delete r.active;
   if (!r.highlighted) delete r.highlighted;
+  if (!r.muted) delete r.muted;
+  if (!r.audible) delete r.audible;
+  if (!r.discarded) delete r.discarded;
+  if (!r.wasActive) delete r.wasActive;
+  if (r.autoDiscardable !== false) delete r.autoDiscardable;
   // Remove deprecated/runtime-only fields
   delete r.selected;
   delete r.height;
   delete r.width;
   delete r.index;
+  if (r.groupId === -1) delete r.groupId; // ungrouped
+  // openerTabId is kept as recorded, like `id`: both name tabs of the
+  // session that saved them, and a tab that comes back live gets fresh
+  // values from Chrome (updateChromeData replaces the whole object).
   return r as TabData;
 }
 
@@ -29,6 +54,7 @@ export function serializeWindowData(data: WindowData): WindowData {
   if (!r.incognito) delete r.incognito;
   if (!r.alwaysOnTop) delete r.alwaysOnTop;
   if (!r.focused) delete r.focused;
+  if (r.state === 'normal') delete r.state;
   // Remove runtime-only fields
   delete r.tabs;
   return r as WindowData;
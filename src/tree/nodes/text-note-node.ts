@@ -61,6 +61,7 @@ export class TextNoteTreeNode extends TreeNode {
   /** Replace the note text content. */
   setNote(text: string): void {
     this._persistentData = { note: text };
+    this.invalidateDiffPath();
   }
 
   getNodeContentCssClass(): string | null {
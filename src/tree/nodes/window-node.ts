@@ -39,6 +39,7 @@ export class WindowTreeNode extends TreeNode {
   updateChromeData(newData: WindowData): void {
     this._chromeWindowObj = { ...newData };
     this.lastmod = Date.now();
+    this.invalidateDiffPath();
   }
 
   getIcon(): string {
@@ -83,6 +84,10 @@ export class WindowTreeNode extends TreeNode {
     return this._chromeWindowObj.focused ?? false;
   }
 
+  override getChromeWindowId(): number | null {
+    return this._chromeWindowObj.id ?? null;
+  }
+
   override calculateIsProtectedFromGoneOnClose(): boolean {
     this.isProtectedFromGoneOnCloseCache =
       this.isCustomMarksPresent() ||
@@ -129,6 +134,7 @@ export class WindowTreeNode extends TreeNode {
       addNoteAction: { id: 'addNoteAction', performAction: () => {} },
       editTitleAction: { id: 'editTitleAction', performAction: () => {} },
       closeAction: { id: 'closeAction', performAction: () => {} },
+      hibernateAction: { id: 'hibernateAction', performAction: () => {} },
     };
   }
 }
@@ -0,0 +1,251 @@
+/**
+ * Auto-organize — applies the user's OrganizeRules to tab nodes.
+ *
+ * Rules are checked in order; among the enabled rules matching a tab, the
+ * first move rule and the first mark rule apply. Moves stay inside the
+ * tab's window — target groups are found or created there — so Chrome
+ * never has to move the tab, and a live tab in a Chrome tab group is left
+ * where the group puts it. Pure (no Chrome APIs): the background runs
+ * organizeNode from its tab event handlers, and previewOrganizeRules gives
+ * the options page a dry run over the existing tree.
+ */
+
+import type { OrganizePreviewEntry, OrganizeRule } from '@/types/organize';
+import { NodeTypesEnum } from '@/types/enums';
+import { GroupTreeNode } from './nodes/group-node';
+import type { TreeModel } from './tree-model';
+import type { TreeNode } from './tree-node';
+import type { MutationRecord, TreeMutationResult } from './types';
+
+/** Node types rules apply to. */
+const ORGANIZED_TYPES: ReadonlySet<string> = new Set([
+  NodeTypesEnum.TAB,
+  NodeTypesEnum.SAVEDTAB,
+]);
+
+const WINDOW_TYPES: ReadonlySet<string> = new Set([
+  NodeTypesEnum.WINDOW,
+  NodeTypesEnum.SAVEDWINDOW,
+  NodeTypesEnum.WAITINGWINDOW,
+]);
+
+interface PendingMove {
+  readonly rule: OrganizeRule;
+  readonly path: readonly string[];
+}
+
+interface PendingMark {
+  readonly rule: OrganizeRule;
+  readonly color: string;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function containsText(text: string, wanted: string): boolean {
+  const needle = wanted.trim().toLowerCase();
+  return needle === '' || text.toLowerCase().includes(needle);
+}
+
+function enclosingWindow(node: TreeNode): TreeNode | null {
+  for (let p = node.parent; p; p = p.parent) {
+    if (WINDOW_TYPES.has(p.type)) return p;
+  }
+  return null;
+}
+
+/** True for a live tab whose place follows a Chrome tab group. */
+function inChromeTabGroup(node: TreeNode): boolean {
+  if (node.type !== NodeTypesEnum.TAB) return false;
+  for (let p = node.parent; p && !WINDOW_TYPES.has(p.type); p = p.parent) {
+    if (p instanceof GroupTreeNode && p.tabGroupId != null) return true;
+  }
+  return false;
+}
+
+function parseGroupPath(groupPath: string): string[] {
+  return groupPath
+    .split('/')
+    .map((name) => name.trim())
+    .filter((name) => name !== '');
+}
+
+/** Plain (non tab group) child group of `parent` named `name`. */
+function childGroup(parent: TreeNode, name: string): TreeNode | null {
+  return (
+    parent.subnodes.find(
+      (n) =>
+        n instanceof GroupTreeNode &&
+        n.tabGroupId == null &&
+        n.getNodeText() === name,
+    ) ?? null
+  );
+}
+
+function findGroupPath(
+  scope: TreeNode,
+  path: readonly string[],
+): TreeNode | null {
+  let current: TreeNode | null = scope;
+  for (const name of path) {
+    current = current && childGroup(current, name);
+  }
+  return current;
+}
+
+/** Whether `rule` is enabled and all of its conditions hold for `node`. */
+export function matchesRule(rule: OrganizeRule, node: TreeNode): boolean {
+  if (!rule.enabled || !ORGANIZED_TYPES.has(node.type)) return false;
+  const { urlPattern, titleContains, windowTitleContains } = rule;
+  if (
+    !urlPattern.trim() &&
+    !titleContains.trim() &&
+    !windowTitleContains.trim()
+  ) {
+    return false;
+  }
+
+  if (urlPattern.trim()) {
+    const href = node.getHref() ?? '';
+    const re = globToRegExp(urlPattern);
+    if (!re.test(href) && !re.test(href.replace(/^[a-z][\w+.-]*:\/\//i, ''))) {
+      return false;
+    }
+  }
+  if (!containsText(node.getNodeText(), titleContains)) return false;
+  if (windowTitleContains.trim()) {
+    const win = enclosingWindow(node);
+    if (!win || !containsText(win.getNodeText(), windowTitleContains)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** The changes the rules would make to `node`, skipping ones already made. */
+function pendingChanges(
+  model: TreeModel,
+  rules: readonly OrganizeRule[],
+  node: TreeNode,
+): { move: PendingMove | null; mark: PendingMark | null } {
+  const matching = rules.filter((rule) => matchesRule(rule, node));
+  let move: PendingMove | null = null;
+  let mark: PendingMark | null = null;
+
+  const moveRule = matching.find((r) => r.action.kind === 'moveToGroup');
+  if (moveRule?.action.kind === 'moveToGroup' && !inChromeTabGroup(node)) {
+    const path = parseGroupPath(moveRule.action.groupPath);
+    const scope = enclosingWindow(node) ?? model.root;
+    if (path.length > 0 && findGroupPath(scope, path) !== node.parent) {
+      move = { rule: moveRule, path };
+    }
+  }
+
+  const markRule = matching.find((r) => r.action.kind === 'mark');
+  if (markRule?.action.kind === 'mark') {
+    const { color } = markRule.action;
+    const { customColorActive, customColorSaved } = node.marks;
+    if (color && (customColorActive !== color || customColorSaved !== color)) {
+      mark = { rule: markRule, color };
+    }
+  }
+
+  return { move, mark };
+}
+
+/** The group at `path` under `scope`, creating missing groups on the way. */
+function ensureGroupPath(
+  model: TreeModel,
+  scope: TreeNode,
+  path: readonly string[],
+  onStep: (result: TreeMutationResult) => void,
+): TreeNode {
+  let current = scope;
+  for (const name of path) {
+    let next = childGroup(current, name);
+    if (!next) {
+      next = new GroupTreeNode();
+      next.setMarks({ ...next.marks, customTitle: name });
+      onStep(model.insertAsLastChild(current, next));
+    }
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Apply the rules to `node` through the model's mutations, handing each
+ * one to `onStep` as it is made. Returns whether anything changed.
+ */
+export function organizeNode(
+  model: TreeModel,
+  rules: readonly OrganizeRule[],
+  node: TreeNode,
+  onStep?: (record: MutationRecord) => void,
+): boolean {
+  const { move, mark } = pendingChanges(model, rules, node);
+  const step = (result: TreeMutationResult) => {
+    if (result.record) onStep?.(result.record);
+  };
+
+  if (mark) {
+    step(
+      model.setMarks(node, {
+        ...node.marks,
+        customColorActive: mark.color,
+        customColorSaved: mark.color,
+      }),
+    );
+  }
+  if (move) {
+    const scope = enclosingWindow(node) ?? model.root;
+    const group = ensureGroupPath(model, scope, move.path, step);
+    step(
+      model.moveNode(node, {
+        containerIdMVC: group.idMVC,
+        position: group.subnodes.length,
+      }),
+    );
+  }
+  return move !== null || mark !== null;
+}
+
+/**
+ * Dry run: every change the rules would make to the tabs already in the
+ * tree, in tree order. Nothing is modified.
+ */
+export function previewOrganizeRules(
+  model: TreeModel,
+  rules: readonly OrganizeRule[],
+): OrganizePreviewEntry[] {
+  const entries: OrganizePreviewEntry[] = [];
+  model.forEach((node) => {
+    const { move, mark } = pendingChanges(model, rules, node);
+    const base = {
+      idMVC: node.idMVC,
+      nodeText: node.getNodeText(),
+      href: node.getHref() ?? '',
+    };
+    if (move) {
+      entries.push({
+        ...base,
+        ruleId: move.rule.id,
+        change: `Move to ${move.path.join('/')}`,
+      });
+    }
+    if (mark) {
+      entries.push({
+        ...base,
+        ruleId: mark.rule.id,
+        change: `Mark ${mark.color}`,
+      });
+    }
+  });
+  return entries;
+}
@@ -0,0 +1,120 @@
+/**
+ * Search query parsing and node matching, shared by the tree view's filter
+ * box (over its NodeDTO index) and the background's full-tree search (over
+ * the TreeModel). Pure, so neither side depends on the other.
+ *
+ * A node matches when every whitespace-separated term appears
+ * (case-insensitively) in its title, URL, or custom title / note text.
+ * `older:90d` and `newer:2w` terms filter by when a node was last touched
+ * instead; units are d, w, m (30 days) and y (365 days).
+ */
+
+import type { NodeDTO } from '@/types/node-dto';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The fields a node is searched by. */
+export type SearchableNode = Pick<
+  NodeDTO,
+  'nodeText' | 'href' | 'customTitle' | 'created' | 'savedAt' | 'lastVisited'
+>;
+
+/**
+ * When the node was last created, saved or visited — whichever is latest;
+ * null when unknown.
+ */
+export function lastTouched(
+  dto: Pick<NodeDTO, 'created' | 'savedAt' | 'lastVisited'>,
+): number | null {
+  const times = [dto.created, dto.savedAt, dto.lastVisited].filter(
+    (t): t is number => t != null,
+  );
+  return times.length > 0 ? Math.max(...times) : null;
+}
+
+/** Keeps nodes last touched more (`older`) or less (`newer`) than `ms` ago. */
+export interface AgeFilter {
+  readonly kind: 'older' | 'newer';
+  readonly ms: number;
+}
+
+const AGE_FILTER_RE = /^(older|newer):(\d+)([dwmy])$/;
+
+const AGE_UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+function parseAgeFilter(token: string): AgeFilter | null {
+  const match = AGE_FILTER_RE.exec(token);
+  if (!match) return null;
+  return {
+    kind: match[1] as AgeFilter['kind'],
+    ms: Number(match[2]) * AGE_UNIT_DAYS[match[3]] * DAY_MS,
+  };
+}
+
+function tokenize(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((t) => t.length > 0);
+}
+
+/**
+ * Split a raw query into lowercase text terms, leaving out age filters.
+ * Empty query yields no terms.
+ */
+export function parseSearchQuery(query: string): string[] {
+  return tokenize(query).filter((t) => !parseAgeFilter(t));
+}
+
+/** The age filters in a raw query. */
+export function parseAgeFilters(query: string): AgeFilter[] {
+  return tokenize(query)
+    .map(parseAgeFilter)
+    .filter((f): f is AgeFilter => f != null);
+}
+
+/**
+ * True if the node passes every age filter as of `now`. Nodes of unknown
+ * age (from legacy data) count as old: they pass `older` filters and
+ * fail `newer` ones.
+ */
+export function nodeMatchesAge(
+  dto: SearchableNode,
+  filters: readonly AgeFilter[],
+  now: number,
+): boolean {
+  const touched = lastTouched(dto);
+  if (touched == null) return filters.every((f) => f.kind === 'older');
+  const age = now - touched;
+  return filters.every((f) => (f.kind === 'older' ? age >= f.ms : age < f.ms));
+}
+
+/**
+ * True if every term occurs in at least one of the node's searchable
+ * fields. Terms may match different fields ("github issues" matches a
+ * tab whose URL contains github and whose title contains issues).
+ */
+export function nodeMatchesTerms(
+  dto: SearchableNode,
+  terms: readonly string[],
+): boolean {
+  if (terms.length === 0) return false;
+  const haystack = [dto.nodeText, dto.href ?? '', dto.customTitle ?? '']
+    .join('\n')
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+/**
+ * True if the node is a hit for a parsed query: it matches every term
+ * (when there are any) and passes every age filter.
+ */
+export function nodeMatchesQuery(
+  dto: SearchableNode,
+  terms: readonly string[],
+  ageFilters: readonly AgeFilter[],
+  now: number,
+): boolean {
+  if (terms.length > 0 && !nodeMatchesTerms(dto, terms)) return false;
+  return nodeMatchesAge(dto, ageFilters, now);
+}
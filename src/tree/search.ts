@@ -0,0 +1,46 @@
+/**
+ * Full-tree search — the background side of the view's filter box.
+ *
+ * The view can only match the nodes it has DTOs for, and collapsed
+ * containers are sent without their subnodes. This runs the same matcher
+ * (search-query.ts) over every node of the model instead, so a hit deep
+ * inside a collapsed window is found and can then be revealed.
+ */
+
+import {
+  nodeMatchesQuery,
+  parseAgeFilters,
+  parseSearchQuery,
+} from './search-query';
+import type { TreeModel } from './tree-model';
+
+/**
+ * idMVCs of every node matching `query`, in tree (pre-)order. The session
+ * root is never included; an empty query matches nothing.
+ */
+export function findSearchMatches(
+  model: TreeModel,
+  query: string,
+  now: number = Date.now(),
+): string[] {
+  const terms = parseSearchQuery(query);
+  const ageFilters = parseAgeFilters(query);
+  if (terms.length === 0 && ageFilters.length === 0) return [];
+
+  const matches: string[] = [];
+  model.forEach((node) => {
+    if (node === model.root) return;
+    const fields = {
+      nodeText: node.getNodeText(),
+      href: node.getHref(),
+      customTitle: node.getCustomTitle(),
+      created: node.created ?? undefined,
+      savedAt: node.savedAt ?? undefined,
+      lastVisited: node.lastVisited ?? undefined,
+    };
+    if (nodeMatchesQuery(fields, terms, ageFilters, now)) {
+      matches.push(node.idMVC);
+    }
+  });
+  return matches;
+}
@@ -0,0 +1,96 @@
+/**
+ * Sorting — reorders a container's children, or buckets its links into
+ * one group per domain.
+ *
+ * Both build a layout for TreeModel.rearrangeSubnodes rather than moving
+ * nodes one at a time, so the background applies the whole change as a
+ * single mutation (one undo entry, one refresh, one save). Pure (no Chrome
+ * APIs), and only direct children move: their subtrees go along as-is.
+ */
+
+import type { SortDirection, SortKey } from '@/types/sort';
+import { GroupTreeNode } from './nodes/group-node';
+import type { TreeNode } from './tree-node';
+import type { SubnodeSlot } from './types';
+
+/** Host name of `href` without a leading "www."; null when it has none. */
+export function domainOf(href: string | null): string | null {
+  if (!href) return null;
+  try {
+    const host = new URL(href).hostname;
+    return host ? host.replace(/^www\./, '') : null;
+  } catch {
+    return null;
+  }
+}
+
+function sortValue(node: TreeNode, key: SortKey): string | number | null {
+  switch (key) {
+    case 'title':
+      return node.getCustomTitle() ?? node.getNodeText();
+    case 'url':
+      return node.getHref();
+    case 'domain':
+      return domainOf(node.getHref());
+    case 'date':
+      return node.savedAt ?? node.created;
+  }
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, {
+    numeric: true,
+    sensitivity: 'base',
+  });
+}
+
+/**
+ * `parent`'s children ordered by `key`. Children without a value for the
+ * key go last whichever the direction; ties keep their current order.
+ */
+export function sortedSubnodes(
+  parent: TreeNode,
+  key: SortKey,
+  direction: SortDirection,
+): TreeNode[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return parent.subnodes
+    .map((node) => ({ node, value: sortValue(node, key) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        return Number(a.value === null) - Number(b.value === null);
+      }
+      return sign * compareValues(a.value, b.value);
+    })
+    .map(({ node }) => node);
+}
+
+/**
+ * Layout moving each of `parent`'s links into a new group named after its
+ * domain. Other children (notes, windows, groups, links without a host)
+ * stay first in their current order; the groups follow, sorted by domain.
+ */
+export function groupedByDomain(parent: TreeNode): SubnodeSlot[] {
+  const others: TreeNode[] = [];
+  const byDomain = new Map<string, TreeNode[]>();
+  for (const node of parent.subnodes) {
+    const domain = node.isLink ? domainOf(node.getHref()) : null;
+    if (!domain) {
+      others.push(node);
+      continue;
+    }
+    const bucket = byDomain.get(domain);
+    if (bucket) bucket.push(node);
+    else byDomain.set(domain, [node]);
+  }
+
+  const groups = [...byDomain]
+    .sort(([a], [b]) => compareValues(a, b))
+    .map(([domain, subnodes]) => {
+      const container = new GroupTreeNode();
+      container.setMarks({ ...container.marks, customTitle: domain });
+      return { container, subnodes };
+    });
+  return [...others, ...groups];
+}
@@ -13,12 +13,15 @@ import type { HierarchyJSO } from '@/types/serialized';
 import type { DropTarget } from '@/types/drop';
 import { TreeNode } from './tree-node';
 import { SessionTreeNode } from './nodes/session-node';
+import type { TextNoteTreeNode } from './nodes/text-note-node';
 import { restoreTree } from './deserialize';
 import type {
   TreeMutationResult,
   MutationListener,
   TreeModelOptions,
   DiffAccumulator,
+  DiffBase,
+  SubnodeSlot,
 } from './types';
 
 export class TreeModel {
@@ -26,6 +29,7 @@ export class TreeModel {
   private readonly nodeIndex: Map<string, TreeNode> = new Map();
   private readonly chromeTabIndex: Map<number, TreeNode> = new Map();
   private readonly chromeWindowIndex: Map<number, TreeNode> = new Map();
+  private readonly chromeTabGroupIndex: Map<number, TreeNode> = new Map();
   private readonly onMutation?: MutationListener;
 
   constructor(root: TreeNode, options?: TreeModelOptions) {
@@ -52,6 +56,10 @@ export class TreeModel {
     return this.chromeWindowIndex.get(windowId) ?? null;
   }
 
+  findActiveTabGroup(groupId: number): TreeNode | null {
+    return this.chromeTabGroupIndex.get(groupId) ?? null;
+  }
+
   getActiveWindowNodes(): TreeNode[] {
     return Array.from(this.chromeWindowIndex.values());
   }
@@ -103,7 +111,14 @@ export class TreeModel {
     parent.calculateIsProtectedFromGoneOnClose();
     this.invalidateAncestors(parent);
 
-    const result = this.buildResult('insert', node.idMVC, parent);
+    const result: TreeMutationResult = {
+      ...this.buildResult('insert', node.idMVC, parent),
+      record: {
+        kind: 'insert',
+        node,
+        at: { parent, index: parent.subnodes.indexOf(node) },
+      },
+    };
     this.emitMutation(result);
     return result;
   }
@@ -158,6 +173,7 @@ export class TreeModel {
       ...this.buildResult('delete', node.idMVC, parent),
       deletedNodeIds: deletedIds,
       cursorSuggestion,
+      record: { kind: 'remove', node, at: { parent, index: sibIdx } },
     };
     this.emitMutation(result);
     return result;
@@ -200,12 +216,21 @@ export class TreeModel {
     this.invalidateAncestors(oldParent);
     this.invalidateAncestors(container);
 
-    const result = this.buildResult('move', source.idMVC, container);
+    const result: TreeMutationResult = {
+      ...this.buildResult('move', source.idMVC, container),
+      record: {
+        kind: 'move',
+        node: source,
+        from: { parent: oldParent, index: oldIndex },
+        to: { parent: container, index: container.subnodes.indexOf(source) },
+      },
+    };
     this.emitMutation(result);
     return result;
   }
 
   setCollapsed(node: TreeNode, collapsed: boolean): TreeMutationResult {
+    const before = node.colapsed;
     // Don't allow collapsing empty nodes
     if (node.subnodes.length === 0) {
       node.colapsed = false;
@@ -214,20 +239,36 @@ export class TreeModel {
     }
     this.invalidateAncestors(node);
 
-    const result = this.buildResult(
-      'collapse',
-      node.idMVC,
-      node.parent ?? node,
-    );
+    const result: TreeMutationResult = {
+      ...this.buildResult('collapse', node.idMVC, node.parent ?? node),
+      record: { kind: 'collapse', node, before, after: node.colapsed },
+    };
     this.emitMutation(result);
     return result;
   }
 
   setMarks(node: TreeNode, marks: NodeMarks): TreeMutationResult {
+    const before = node.marks;
     node.setMarks(marks);
     this.invalidateAncestors(node);
 
-    const result = this.buildResult('update', node.idMVC, node.parent ?? node);
+    const result: TreeMutationResult = {
+      ...this.buildResult('update', node.idMVC, node.parent ?? node),
+      record: { kind: 'marks', node, before, after: marks },
+    };
+    this.emitMutation(result);
+    return result;
+  }
+
+  setNoteText(node: TextNoteTreeNode, text: string): TreeMutationResult {
+    const before = node.getNodeText();
+    node.setNote(text);
+    this.invalidateAncestors(node);
+
+    const result: TreeMutationResult = {
+      ...this.buildResult('update', node.idMVC, node.parent ?? node),
+      record: { kind: 'note', node, before, after: text },
+    };
     this.emitMutation(result);
     return result;
   }
@@ -238,6 +279,7 @@ export class TreeModel {
 
     const idx = parent.subnodes.indexOf(oldNode);
     newNode.previousIdMVC = oldNode.idMVC;
+    newNode.copyTimestampsFrom(oldNode);
 
     // Transfer children
     while (oldNode.subnodes.length > 0) {
@@ -259,6 +301,98 @@ export class TreeModel {
     const result: TreeMutationResult = {
       ...this.buildResult('replace', newNode.idMVC, parent),
       cursorSuggestion: newNode.idMVC,
+      record: { kind: 'replace', oldNode, newNode },
+    };
+    this.emitMutation(result);
+    return result;
+  }
+
+  /**
+   * Whether `layout` is a valid new child list for `parent`: every current
+   * child appears exactly once, either as-is or inside a new container (a
+   * detached, empty node given at least one child), except children that
+   * are themselves left out, which must be non-empty containers whose own
+   * children all appear instead.
+   */
+  canRearrangeSubnodes(
+    parent: TreeNode,
+    layout: readonly SubnodeSlot[],
+  ): boolean {
+    const expected = new Set<TreeNode>();
+    const placed = new Set(layout.flatMap(slotNodes));
+    for (const child of parent.subnodes) {
+      if (placed.has(child)) {
+        expected.add(child);
+      } else if (child.subnodes.length > 0) {
+        child.subnodes.forEach((n) => expected.add(n));
+      } else {
+        return false;
+      }
+    }
+    let count = 0;
+    for (const slot of layout) {
+      if (!(slot instanceof TreeNode)) {
+        const { container, subnodes } = slot;
+        if (container.parent || container.subnodes.length > 0) return false;
+        if (subnodes.length === 0) return false;
+      }
+      for (const node of slotNodes(slot)) {
+        if (!expected.has(node)) return false;
+        count++;
+      }
+    }
+    return count === expected.size && placed.size === count;
+  }
+
+  /**
+   * Give `parent` a new child list in one mutation — used to sort and
+   * group a container's children, so views refresh and the tree saves once.
+   * New containers in `layout` are inserted; current children left out of
+   * it are dissolved (see canRearrangeSubnodes). The record swaps layouts
+   * on undo, bringing dissolved containers back as the same nodes.
+   */
+  rearrangeSubnodes(
+    parent: TreeNode,
+    layout: readonly SubnodeSlot[],
+  ): TreeMutationResult {
+    if (!this.canRearrangeSubnodes(parent, layout)) {
+      throw new Error('Layout does not match the current children');
+    }
+    const placed = new Set(layout.flatMap(slotNodes));
+
+    const before: SubnodeSlot[] = [];
+    for (const child of [...parent.subnodes]) {
+      if (placed.has(child)) {
+        before.push(child);
+      } else {
+        const subnodes = [...child.subnodes];
+        subnodes.forEach((n) => n.removeFromParent());
+        before.push({ container: child, subnodes });
+        this.unindexNode(child);
+      }
+      child.removeFromParent();
+    }
+
+    for (const slot of layout) {
+      if (slot instanceof TreeNode) {
+        slot.resetStructureDidsRecursive();
+        parent.insertSubnode(-1, slot);
+        continue;
+      }
+      const { container, subnodes } = slot;
+      subnodes.forEach((n) => container.insertSubnode(-1, n));
+      container.resetStructureDidsRecursive();
+      parent.insertSubnode(-1, container);
+      this.indexNode(container);
+      container.calculateIsProtectedFromGoneOnClose();
+    }
+
+    parent.calculateIsProtectedFromGoneOnClose();
+    this.invalidateAncestors(parent);
+
+    const result: TreeMutationResult = {
+      ...this.buildResult('move', parent.idMVC, parent),
+      record: { kind: 'rearrange', node: parent, before, after: layout },
     };
     this.emitMutation(result);
     return result;
@@ -277,12 +411,14 @@ export class TreeModel {
    * need to compute them from the new root.
    */
   replaceWith(other: TreeModel): void {
+    const before = this._root;
     this._root = other.root;
     this.rebuildIndices();
     this.emitMutation({
       type: 'replace',
       affectedNodeId: this._root.idMVC,
       parentUpdates: {},
+      record: { kind: 'replaceRoot', before, after: this._root },
     });
   }
 
@@ -292,7 +428,11 @@ export class TreeModel {
     return this.root.serializeToHierarchy();
   }
 
-  serializeForDiff(startingDId: number): DiffAccumulator {
+  /**
+   * Collect the entries and knots that `base` (what storage already
+   * holds) lacks, allocating dIds from at least `startingDId`.
+   */
+  serializeForDiff(startingDId: number, base: DiffBase): DiffAccumulator {
     const session = this.root as SessionTreeNode;
     if (session.advanceNextDIdTo) {
       session.advanceNextDIdTo(startingDId);
@@ -311,7 +451,7 @@ export class TreeModel {
       return startingDId++;
     };
 
-    this.root.serializeForDiff(allocate, accumulator);
+    this.root.serializeForDiff(allocate, accumulator, base);
 
     // Set the root dId as the rootDid
     (accumulator as { rootDid: string }).rootDid = this.root.dId.toString(36);
@@ -347,13 +487,14 @@ export class TreeModel {
     this.nodeIndex.clear();
     this.chromeTabIndex.clear();
     this.chromeWindowIndex.clear();
+    this.chromeTabGroupIndex.clear();
     this.forEach((node) => this.indexNode(node));
   }
 
   private indexNode(node: TreeNode): void {
     this.nodeIndex.set(node.idMVC, node);
 
-    // Index active tabs/windows by Chrome ID
+    // Index active tabs/windows/tab groups by Chrome ID
     if (
       node.type === NodeTypesEnum.TAB ||
       node.type === NodeTypesEnum.ATTACHWAITINGTAB
@@ -367,6 +508,11 @@ export class TreeModel {
       if (data?.id !== undefined) {
         this.chromeWindowIndex.set(data.id, node);
       }
+    } else if (node.type === NodeTypesEnum.GROUP) {
+      const data = node.data as { id?: number } | null;
+      if (data?.id !== undefined) {
+        this.chromeTabGroupIndex.set(data.id, node);
+      }
     }
   }
 
@@ -386,6 +532,11 @@ export class TreeModel {
       if (data?.id !== undefined) {
         this.chromeWindowIndex.delete(data.id);
       }
+    } else if (node.type === NodeTypesEnum.GROUP) {
+      const data = node.data as { id?: number } | null;
+      if (data?.id !== undefined) {
+        this.chromeTabGroupIndex.delete(data.id);
+      }
     }
   }
 
@@ -411,11 +562,7 @@ export class TreeModel {
   }
 
   private invalidateAncestors(node: TreeNode): void {
-    let current: TreeNode | null = node;
-    while (current) {
-      current.invalidateDids();
-      current = current.parent;
-    }
+    node.invalidateDiffPath();
   }
 
   private buildResult(
@@ -456,3 +603,8 @@ export class TreeModel {
     }
   }
 }
+
+/** The nodes a layout slot places under the rearranged parent. */
+function slotNodes(slot: SubnodeSlot): readonly TreeNode[] {
+  return slot instanceof TreeNode ? [slot] : slot.subnodes;
+}
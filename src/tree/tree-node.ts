@@ -11,11 +11,15 @@ import type { MvcId } from '@/types/brands';
 import type { NodeType } from '@/types/enums';
 import { NodeTypesEnum } from '@/types/enums';
 import type { NodeMarks } from '@/types/marks';
-import type { HoveringMenuActionId, HoveringMenuAction } from '@/types/node';
+import type {
+  HoveringMenuActionId,
+  HoveringMenuAction,
+  TabStateIndicator,
+} from '@/types/node';
 import type { MutableStatsBlock, StatsBlock } from '@/types/node-dto';
 import type { SerializedNode, HierarchyJSO } from '@/types/serialized';
 import { generateMvcId } from './mvc-id';
-import type { DiffAccumulator } from './types';
+import type { DiffAccumulator, DiffBase } from './types';
 import { i2s36 } from '@/serialization/base36';
 import {
   CDID_SDID_SEPARATOR,
@@ -24,7 +28,6 @@ import {
 } from '@/serialization/constants';
 import { encodeEntry } from '@/serialization/entry-codec';
 import {
-  isChangesToBase,
   serializeCurSubnodes,
   getBaseSubnodesArray,
 } from '@/serialization/knot-codec';
@@ -51,8 +54,17 @@ export abstract class TreeNode {
   /** Serialized knot with dId == sdId, used as base for subnodes diff */
   sdIdKnot: string | null = null;
 
-  readonly created: number;
+  /**
+   * When the node was created. Persisted, and carried over when a tab or
+   * window is replaced by its saved or live counterpart. Null for nodes
+   * loaded from legacy data, which never recorded it.
+   */
+  created: number | null;
   lastmod: number;
+  /** When the tab or window was last saved (closed but kept), or null. */
+  savedAt: number | null = null;
+  /** When the tab was last the active tab, or null if never seen active. */
+  lastVisited: number | null = null;
   isProtectedFromGoneOnCloseCache: boolean = false;
 
   constructor() {
@@ -103,7 +115,8 @@ export abstract class TreeNode {
   > {
     const actions = this.buildHoveringMenuActions();
 
-    // When collapsed and has active tabs, dynamically add close action
+    // When collapsed and has active tabs, dynamically add close and
+    // hibernate actions
     if (this.colapsed && !actions.closeAction) {
       const stats = this.countSubnodesStats();
       if (stats.activeTabsCount > 0) {
@@ -113,6 +126,10 @@ export abstract class TreeNode {
             id: 'closeAction',
             performAction: () => {},
           },
+          hibernateAction: {
+            id: 'hibernateAction',
+            performAction: () => {},
+          },
         };
       }
     }
@@ -217,12 +234,38 @@ export abstract class TreeNode {
   setMarks(marks: NodeMarks): void {
     this.marks = marks;
     this.calculateIsProtectedFromGoneOnClose();
+    this.invalidateDiffPath();
+  }
+
+  /** Take over `source`'s creation and last-visit times. */
+  copyTimestampsFrom(source: TreeNode): void {
+    this.created = source.created;
+    this.lastVisited = source.lastVisited;
+    this.invalidateDiffPath();
+  }
+
+  /** Tooltip lines for the node's timestamps, in local time. */
+  protected timestampsTooltip(): string {
+    const lines: string[] = [];
+    if (this.created != null) {
+      lines.push(`Created: ${new Date(this.created).toLocaleString()}`);
+    }
+    if (this.savedAt != null) {
+      lines.push(`Saved: ${new Date(this.savedAt).toLocaleString()}`);
+    }
+    if (this.lastVisited != null) {
+      lines.push(
+        `Last visited: ${new Date(this.lastVisited).toLocaleString()}`,
+      );
+    }
+    return lines.join('\n');
   }
 
   copyMarksAndCollapsedFrom(source: TreeNode): void {
     this.marks = source.marks;
     this.colapsed = source.colapsed;
     this.calculateIsProtectedFromGoneOnClose();
+    this.invalidateDiffPath();
   }
 
   // -- Stats --
@@ -317,6 +360,15 @@ export abstract class TreeNode {
     return false;
   }
 
+  /** Chrome id of the open window this node stands for, if any. */
+  getChromeWindowId(): number | null {
+    return null;
+  }
+
+  getTabStateIndicators(): TabStateIndicator[] {
+    return [];
+  }
+
   isProtectedFromGoneOnClose(): boolean {
     return this.isProtectedFromGoneOnCloseCache;
   }
@@ -359,6 +411,22 @@ export abstract class TreeNode {
     this.sdIdKnot = null;
   }
 
+  /**
+   * Drop the knot ids on the path to the root, so the next diff revisits
+   * this node. Every change to what a node persists must call this: the
+   * diff skips subtrees whose knot id is still set. Entries are checked
+   * against storage when diffing, so cdId and the delta base (sdId) stay
+   * usable.
+   */
+  invalidateDiffPath(): void {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    let current: TreeNode | null = this;
+    while (current) {
+      current.dId = 0;
+      current = current.parent;
+    }
+  }
+
   /** Reset dIds on this node and all descendants. */
   resetStructureDids(): void {
     this.dId = 0;
@@ -378,65 +446,85 @@ export abstract class TreeNode {
   /**
    * Serialize this node for incremental diff.
    *
-   * Assigns dIds from the counter, encodes entry + knot data into the accumulator.
+   * A subtree whose knot id (dId) is still set and stored in `base` is
+   * unchanged (see invalidateDiffPath) and skipped whole, so a save costs
+   * the changed paths rather than the tree. On those paths a node keeps
+   * its content id (cdId) while the entry `base` holds under it still
+   * matches, and its dId while the knot does, so only changed entries and
+   * knots go into the accumulator.
    * Port of treemodel.js node serialization for diff system.
    */
   serializeForDiff(
     allocateDId: () => number,
     accumulator: DiffAccumulator,
+    base: DiffBase,
   ): void {
-    // Allocate content dId if needed
-    if (this.cdId === 0) {
+    if (this.dId !== 0 && base.allKnots.has(i2s36(this.dId))) return;
+
+    const entry = JSON.stringify(encodeEntry(this.serializeDiffEntry()));
+    if (this.cdId === 0 || base.entries.get(i2s36(this.cdId)) !== entry) {
       this.cdId = allocateDId();
-      const serialized = this.serialize();
-      const entry = encodeEntry(serialized);
-      (accumulator.entries as Map<string, string>).set(
-        i2s36(this.cdId),
-        JSON.stringify(entry),
-      );
+      accumulator.entries.set(i2s36(this.cdId), entry);
     }
 
-    // Recurse into children
     for (const child of this.subnodes) {
-      child.serializeForDiff(allocateDId, accumulator);
+      child.serializeForDiff(allocateDId, accumulator, base);
     }
 
-    // Build subnodes dId list
+    const cdIdStr = i2s36(this.cdId);
     const subDids = this.subnodes.map((c) => i2s36(c.dId));
+    this.dId = allocateDId();
+    accumulator.allKnots.set(
+      i2s36(this.dId),
+      this.buildKnot(cdIdStr, subDids, base),
+    );
+  }
 
-    // Check if subnodes changed from base
-    const baseArray = this.sdIdKnot ? getBaseSubnodesArray(this.sdIdKnot) : [];
-    const subnodesChanged =
-      this.sdId === 0 || isChangesToBase(subDids, baseArray);
-
-    if (subnodesChanged) {
-      this.sdId = allocateDId();
-      const changesStr = serializeCurSubnodes(subDids, baseArray);
-      const knot =
-        i2s36(this.cdId) +
-        CDID_SUBNODESLIST_SEPARATOR +
-        subDids.join(SUBNODES_DIDS_SEPARATOR);
-      this.sdIdKnot = knot;
-
-      const knotWithChanges =
-        i2s36(this.cdId) + CDID_SDID_SEPARATOR + changesStr;
-
-      (accumulator.allKnots as Map<string, string>).set(
-        i2s36(this.sdId),
-        knotWithChanges,
+  /**
+   * Knot for the current dId. The subnodes list is written as a delta
+   * against the last full list (sdId) when that is shorter; otherwise it
+   * is written in full and becomes the new base.
+   */
+  private buildKnot(cdId: string, subDids: string[], base: DiffBase): string {
+    if (subDids.length === 0) return cdId;
+
+    const list = subDids.join(SUBNODES_DIDS_SEPARATOR);
+    if (
+      this.sdId !== 0 &&
+      this.sdIdKnot !== null &&
+      base.allKnots.get(i2s36(this.sdId)) === this.sdIdKnot
+    ) {
+      const changes = serializeCurSubnodes(
+        subDids,
+        getBaseSubnodesArray(this.sdIdKnot),
       );
+      if (changes.length < list.length) {
+        return (
+          cdId +
+          CDID_SDID_SEPARATOR +
+          i2s36(this.sdId) +
+          CDID_SDID_SEPARATOR +
+          changes
+        );
+      }
     }
 
-    // Allocate structure dId if needed
-    if (this.dId === 0) {
-      this.dId = allocateDId();
-    }
+    const knot = cdId + CDID_SUBNODESLIST_SEPARATOR + list;
+    this.sdId = this.dId;
+    this.sdIdKnot = knot;
+    return knot;
+  }
+
+  /** What the diff entry records for this node. */
+  protected serializeDiffEntry(): SerializedNode {
+    return this.serialize();
   }
 
   // -- Serialization --
 
   /** Serialize this node to a SerializedNode for persistence.
-   *  Key order matches legacy: dId, cdId, sdId, sdIdKnot, type, data, colapsed, marks */
+   *  Key order matches legacy: dId, cdId, sdId, sdIdKnot, type, data, colapsed, marks;
+   *  the timestamps legacy files lack come last. */
   serialize(): SerializedNode {
     const result: Record<string, unknown> = {};
 
@@ -460,6 +548,10 @@ export abstract class TreeNode {
       result.marks = this.marks;
     }
 
+    if (this.created != null) result.created = this.created;
+    if (this.savedAt != null) result.savedAt = this.savedAt;
+    if (this.lastVisited != null) result.lastVisited = this.lastVisited;
+
     return result as unknown as SerializedNode;
   }
 
@@ -7,7 +7,9 @@
  */
 
 import type { MvcId } from '@/types/brands';
+import type { NodeMarks } from '@/types/marks';
 import type { ParentsUpdateData } from '@/types/node-dto';
+import type { TreeNode } from './tree-node';
 
 export interface TreeMutationResult {
   readonly type:
@@ -21,8 +23,76 @@ export interface TreeMutationResult {
   readonly parentUpdates: ParentsUpdateData;
   readonly deletedNodeIds?: MvcId[];
   readonly cursorSuggestion?: MvcId;
+  /**
+   * Before/after state of the change, detailed enough to invert it and
+   * re-apply it (see UndoStack). Holds live TreeNode references, so it must
+   * never be copied into a view message.
+   */
+  readonly record?: MutationRecord;
 }
 
+/** A node's slot in the tree: parent plus final index among its siblings. */
+export interface NodePosition {
+  readonly parent: TreeNode;
+  readonly index: number;
+}
+
+/**
+ * One entry of a container's new child list (see
+ * TreeModel.rearrangeSubnodes): a child kept as-is, or a new container
+ * holding some of the children.
+ */
+export type SubnodeSlot =
+  | TreeNode
+  | { readonly container: TreeNode; readonly subnodes: readonly TreeNode[] };
+
+export type MutationRecord =
+  | {
+      readonly kind: 'insert' | 'remove';
+      readonly node: TreeNode;
+      readonly at: NodePosition;
+    }
+  | {
+      readonly kind: 'move';
+      readonly node: TreeNode;
+      readonly from: NodePosition;
+      readonly to: NodePosition;
+    }
+  | {
+      readonly kind: 'collapse';
+      readonly node: TreeNode;
+      readonly before: boolean;
+      readonly after: boolean;
+    }
+  | {
+      readonly kind: 'marks';
+      readonly node: TreeNode;
+      readonly before: NodeMarks;
+      readonly after: NodeMarks;
+    }
+  | {
+      readonly kind: 'note';
+      readonly node: TreeNode;
+      readonly before: string;
+      readonly after: string;
+    }
+  | {
+      readonly kind: 'replace';
+      readonly oldNode: TreeNode;
+      readonly newNode: TreeNode;
+    }
+  | {
+      readonly kind: 'rearrange';
+      readonly node: TreeNode;
+      readonly before: readonly SubnodeSlot[];
+      readonly after: readonly SubnodeSlot[];
+    }
+  | {
+      readonly kind: 'replaceRoot';
+      readonly before: TreeNode;
+      readonly after: TreeNode;
+    };
+
 export type MutationListener = (result: TreeMutationResult) => void;
 
 export interface TreeModelOptions {
@@ -40,3 +110,9 @@ export interface DiffAccumulator {
   readonly entries: Map<string, string>;
   readonly rootDid: string;
 }
+
+/** Entries and knots an earlier diff already persisted, keyed like DiffAccumulator. */
+export interface DiffBase {
+  readonly allKnots: ReadonlyMap<string, string>;
+  readonly entries: ReadonlyMap<string, string>;
+}
@@ -0,0 +1,262 @@
+/**
+ * UndoStack — undo/redo history for user-initiated tree mutations.
+ *
+ * Fed by the TreeModel onMutation listener. Only mutations made inside a
+ * transaction() are recorded, so Chrome-event driven changes (tab opened,
+ * window closed, ...) never land on the stack. Each transaction becomes
+ * one entry; undo applies the inverse of its MutationRecords in reverse
+ * order, redo re-applies them in order.
+ *
+ * Records hold live TreeNode references, so a removed subtree is restored
+ * as the very same nodes (same idMVC). Before applying each step the stack
+ * checks that the tree still looks the way the record expects; if a Chrome
+ * event has since moved things around, the steps already applied are
+ * reverted and both stacks are cleared rather than leaving a half-applied
+ * change.
+ */
+
+import { TreeModel } from './tree-model';
+import type { TreeNode } from './tree-node';
+import type { TextNoteTreeNode } from './nodes/text-note-node';
+import type { MutationRecord, NodePosition, TreeMutationResult } from './types';
+
+/** Called after each step undo or redo applies, with the step as applied. */
+export type StepListener = (record: MutationRecord) => void;
+
+export interface UndoEntry {
+  /** Short description of the user action, e.g. "Delete". */
+  readonly label: string;
+  readonly records: readonly MutationRecord[];
+}
+
+export class UndoStack {
+  private readonly undoEntries: UndoEntry[] = [];
+  private readonly redoEntries: UndoEntry[] = [];
+  private readonly maxEntries: number;
+  private pending: MutationRecord[] | null = null;
+  private applying = false;
+
+  constructor(maxEntries: number = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  get canUndo(): boolean {
+    return this.undoEntries.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoEntries.length > 0;
+  }
+
+  /** MutationListener — pass as (or call from) TreeModelOptions.onMutation. */
+  observe(result: TreeMutationResult): void {
+    if (this.pending && !this.applying && result.record) {
+      this.pending.push(result.record);
+    }
+  }
+
+  /**
+   * Run `fn` and record every mutation it makes as a single undo entry.
+   * `fn` must be synchronous — anything awaited would interleave with
+   * Chrome-event mutations. Nested calls join the outer transaction.
+   */
+  transaction<T>(label: string, fn: () => T): T {
+    if (this.pending) return fn();
+
+    const records: MutationRecord[] = [];
+    this.pending = records;
+    try {
+      return fn();
+    } finally {
+      this.pending = null;
+      if (records.length > 0) this.push({ label, records });
+    }
+  }
+
+  /**
+   * Revert the most recent entry. Returns it, or null when there is
+   * nothing to undo or the tree no longer matches the recorded state.
+   */
+  undo(model: TreeModel, onStep?: StepListener): UndoEntry | null {
+    const entry = this.undoEntries.pop();
+    if (!entry) return null;
+
+    const steps = [...entry.records].reverse().map(invert);
+    if (!this.apply(model, steps, onStep)) return null;
+    this.redoEntries.push(entry);
+    return entry;
+  }
+
+  /** Re-apply the most recently undone entry. */
+  redo(model: TreeModel, onStep?: StepListener): UndoEntry | null {
+    const entry = this.redoEntries.pop();
+    if (!entry) return null;
+
+    if (!this.apply(model, entry.records, onStep)) return null;
+    this.undoEntries.push(entry);
+    return entry;
+  }
+
+  clear(): void {
+    this.undoEntries.length = 0;
+    this.redoEntries.length = 0;
+  }
+
+  private push(entry: UndoEntry): void {
+    this.undoEntries.push(entry);
+    while (this.undoEntries.length > this.maxEntries) {
+      this.undoEntries.shift();
+    }
+    this.redoEntries.length = 0;
+  }
+
+  /**
+   * Apply `steps` in order, all or nothing: if one fails its precondition
+   * the ones before it are reverted, newest first, and history is cleared.
+   * `onStep` sees every step as applied, reverts included.
+   */
+  private apply(
+    model: TreeModel,
+    steps: readonly MutationRecord[],
+    onStep?: StepListener,
+  ): boolean {
+    this.applying = true;
+    try {
+      const applied: MutationRecord[] = [];
+      for (const step of steps) {
+        const done = applyRecord(model, step);
+        if (!done) {
+          for (const record of applied.reverse()) {
+            const reverted = applyRecord(model, invert(record));
+            if (reverted) onStep?.(reverted);
+          }
+          console.warn(
+            '[UndoStack] Tree changed since the action was recorded; clearing history',
+          );
+          this.clear();
+          return false;
+        }
+        applied.push(done);
+        onStep?.(done);
+      }
+      return true;
+    } finally {
+      this.applying = false;
+    }
+  }
+}
+
+/** Build the record that reverses `record`. */
+function invert(record: MutationRecord): MutationRecord {
+  switch (record.kind) {
+    case 'insert':
+      return { ...record, kind: 'remove' };
+    case 'remove':
+      return { ...record, kind: 'insert' };
+    case 'move':
+      return { ...record, from: record.to, to: record.from };
+    case 'collapse':
+    case 'marks':
+    case 'note':
+    case 'rearrange':
+      return {
+        ...record,
+        before: record.after,
+        after: record.before,
+      } as MutationRecord;
+    case 'replace':
+      return {
+        kind: 'replace',
+        oldNode: record.newNode,
+        newNode: record.oldNode,
+      };
+    case 'replaceRoot':
+      return {
+        kind: 'replaceRoot',
+        before: record.after,
+        after: record.before,
+      };
+  }
+}
+
+function isAttached(model: TreeModel, node: TreeNode): boolean {
+  return model.findByMvcId(node.idMVC) === node;
+}
+
+function isAt(node: TreeNode, pos: NodePosition): boolean {
+  return node.parent === pos.parent && pos.parent.subnodes[pos.index] === node;
+}
+
+/**
+ * Apply a record forwards. Returns the record as applied (positions as
+ * they ended up), or null if its preconditions don't hold.
+ */
+function applyRecord(
+  model: TreeModel,
+  record: MutationRecord,
+): MutationRecord | null {
+  switch (record.kind) {
+    case 'insert': {
+      const { node, at } = record;
+      if (node.parent || !isAttached(model, at.parent)) return null;
+      const index = Math.min(at.index, at.parent.subnodes.length);
+      model.insertSubnode(at.parent, index, node);
+      return { ...record, at: { parent: at.parent, index } };
+    }
+    case 'remove': {
+      if (!isAttached(model, record.node) || !record.node.parent) return null;
+      const parent = record.node.parent;
+      const index = parent.subnodes.indexOf(record.node);
+      model.removeSubtree(record.node);
+      return { ...record, at: { parent, index } };
+    }
+    case 'move': {
+      const { node, from, to } = record;
+      if (!isAt(node, from) || !isAttached(model, to.parent)) return null;
+      // moveNode takes a position counted with the source still present.
+      const position =
+        to.parent === from.parent && from.index < to.index
+          ? to.index + 1
+          : Math.min(to.index, to.parent.subnodes.length);
+      model.moveNode(node, {
+        containerIdMVC: to.parent.idMVC,
+        position,
+      });
+      return {
+        ...record,
+        to: { parent: to.parent, index: to.parent.subnodes.indexOf(node) },
+      };
+    }
+    case 'collapse':
+      if (!isAttached(model, record.node)) return null;
+      model.setCollapsed(record.node, record.after);
+      return record;
+    case 'marks':
+      if (!isAttached(model, record.node)) return null;
+      model.setMarks(record.node, record.after);
+      return record;
+    case 'note':
+      if (!isAttached(model, record.node)) return null;
+      model.setNoteText(record.node as TextNoteTreeNode, record.after);
+      return record;
+    case 'rearrange':
+      if (
+        !isAttached(model, record.node) ||
+        !model.canRearrangeSubnodes(record.node, record.after)
+      ) {
+        return null;
+      }
+      model.rearrangeSubnodes(record.node, record.after);
+      return record;
+    case 'replace':
+      if (!isAttached(model, record.oldNode) || !record.oldNode.parent) {
+        return null;
+      }
+      model.replaceNode(record.oldNode, record.newNode);
+      return record;
+    case 'replaceRoot':
+      if (model.root !== record.before) return null;
+      model.replaceWith(new TreeModel(record.after));
+      return record;
+  }
+}
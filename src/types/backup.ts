@@ -0,0 +1,89 @@
+/**
+ * Remote backup — settings, status and listing types shared by the
+ * background scheduler, the providers and the options page.
+ */
+
+/** Registered backup provider implementations. */
+export type BackupProviderId = 'http';
+
+/**
+ * Wire protocol spoken by the generic HTTP provider. Both store one
+ * object per backup under the endpoint URL.
+ */
+export type HttpBackupDialect = 'webdav' | 's3';
+
+export interface HttpBackupConfig {
+  readonly dialect: HttpBackupDialect;
+  /**
+   * Base URL the backup files live under: a WebDAV collection, or an S3
+   * bucket URL (path-style `https://host/bucket` or virtual-hosted
+   * `https://bucket.host`).
+   */
+  readonly endpoint: string;
+  /** WebDAV: Basic auth user name. S3: access key id. Empty = anonymous. */
+  readonly username: string;
+  /** WebDAV: Basic auth password. S3: secret access key. */
+  readonly password: string;
+  /** S3 only: SigV4 signing region. */
+  readonly region: string;
+}
+
+export interface BackupSettings {
+  /** Run scheduled backups. Manual "Back up now" works regardless. */
+  readonly enabled: boolean;
+  readonly provider: BackupProviderId;
+  /** Minimum time between two scheduled backups. */
+  readonly intervalHours: number;
+  /** Number of backups to retain remotely; older ones are rotated out. */
+  readonly keep: number;
+  readonly http: HttpBackupConfig;
+}
+
+export const BACKUP_SETTINGS_DEFAULTS: BackupSettings = {
+  enabled: false,
+  provider: 'http',
+  intervalHours: 24,
+  keep: 14,
+  http: {
+    dialect: 'webdav',
+    endpoint: '',
+    username: '',
+    password: '',
+    region: 'us-east-1',
+  },
+};
+
+/** Outcome of the most recent backup runs, for the options page. */
+export interface BackupStatus {
+  /** Epoch ms of the last attempt, successful or not. */
+  readonly lastAttemptAt: number | null;
+  /** Epoch ms of the last successful upload. */
+  readonly lastSuccessAt: number | null;
+  /** Message of the last failure; cleared by the next success. */
+  readonly lastError: string | null;
+}
+
+export const BACKUP_STATUS_DEFAULTS: BackupStatus = {
+  lastAttemptAt: null,
+  lastSuccessAt: null,
+  lastError: null,
+};
+
+/** One stored backup as reported by BackupProvider.list(). */
+export interface BackupEntry {
+  /** Provider-side file / object name. */
+  readonly id: string;
+  /** Epoch ms the backup was taken (parsed from the name). */
+  readonly timestamp: number;
+  /** Size in bytes, when the remote reports it. */
+  readonly size: number | null;
+}
+
+/**
+ * chrome.storage.local key for BackupSettings. Kept out of sync storage
+ * because it holds credentials.
+ */
+export const BACKUP_SETTINGS_KEY = 'tabs_outliner_backup_settings';
+
+/** chrome.storage.local key for BackupStatus. */
+export const BACKUP_STATUS_KEY = 'tabs_outliner_backup_status';
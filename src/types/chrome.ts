@@ -1,8 +1,9 @@
 /**
- * Serialized subsets of Chrome tab and window data.
+ * Serialized subsets of Chrome tab, tab group and window data.
  *
  * These represent the shape of data persisted to IndexedDB, which is a
- * subset of the full chrome.tabs.Tab / chrome.windows.Window APIs.
+ * subset of the full chrome.tabs.Tab / chrome.tabGroups.TabGroup /
+ * chrome.windows.Window APIs.
  */
 
 export type ChromeWindowType =
@@ -12,6 +13,13 @@ export type ChromeWindowType =
   | 'app'
   | 'devtools';
 
+export type ChromeWindowState =
+  | 'normal'
+  | 'minimized'
+  | 'maximized'
+  | 'fullscreen'
+  | 'locked-fullscreen';
+
 export interface ChromeTabData {
   readonly id?: number;
   readonly windowId?: number;
@@ -23,11 +31,61 @@ export interface ChromeTabData {
   readonly incognito?: boolean;
   readonly active?: boolean;
   readonly highlighted?: boolean;
+  /** Whether the tab's audio is muted. */
+  readonly muted?: boolean;
+  /** Whether the tab was playing sound (muted or not). */
+  readonly audible?: boolean;
+  /** When the tab was last active, in ms since the epoch (Chrome 121+). */
+  readonly lastAccessed?: number;
+  /**
+   * Unloaded from memory (by the user, Chrome's memory saver, or a lazy
+   * restore); it reloads when next focused.
+   */
+  readonly discarded?: boolean;
+  /** False when Chrome may not discard the tab on its own. */
+  readonly autoDiscardable?: boolean;
+  /**
+   * Set on saved tabs that were the active tab of their window when it was
+   * saved, so restoring the window activates the same tab. (Saved tabs
+   * never carry `active` itself.)
+   */
+  readonly wasActive?: boolean;
+  /** Native tab group the tab belongs to; -1 (or absent) when ungrouped. */
+  readonly groupId?: number;
+  /**
+   * Tab this one was opened from (link, Ctrl+click). Saved as recorded;
+   * like `id`, it names a tab of the session that saved it.
+   */
+  readonly openerTabId?: number;
+}
+
+export type ChromeTabGroupColor =
+  | 'grey'
+  | 'blue'
+  | 'red'
+  | 'yellow'
+  | 'green'
+  | 'pink'
+  | 'purple'
+  | 'cyan'
+  | 'orange';
+
+/**
+ * A native Chrome tab group. `id` and `windowId` are only meaningful while
+ * the group is live — group ids do not survive a browser restart.
+ */
+export interface ChromeTabGroupData {
+  readonly id?: number;
+  readonly windowId?: number;
+  readonly title?: string;
+  readonly color?: ChromeTabGroupColor;
+  readonly collapsed?: boolean;
 }
 
 export interface ChromeWindowData {
   readonly id?: number;
   readonly type?: ChromeWindowType;
+  readonly state?: ChromeWindowState;
   readonly incognito?: boolean;
   readonly alwaysOnTop?: boolean;
   readonly focused?: boolean;
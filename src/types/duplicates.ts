@@ -0,0 +1,40 @@
+/**
+ * Duplicate detection — options and results of the background analysis
+ * pass that groups tree nodes by normalized URL.
+ */
+
+/** How URLs are normalized before being compared. */
+export interface DuplicateScanOptions {
+  /** Treat `page#a` and `page#b` as the same URL. */
+  readonly ignoreFragment: boolean;
+  /** Drop utm_*, fbclid, gclid and similar tracking query parameters. */
+  readonly ignoreTrackingParams: boolean;
+  /** Treat `/path/` and `/path` as the same URL. */
+  readonly ignoreTrailingSlash: boolean;
+}
+
+export const DEFAULT_DUPLICATE_SCAN_OPTIONS: DuplicateScanOptions = {
+  ignoreFragment: true,
+  ignoreTrackingParams: true,
+  ignoreTrailingSlash: true,
+};
+
+/** One node taking part in a duplicate group. */
+export interface DuplicateOccurrence {
+  readonly idMVC: string;
+  readonly nodeText: string;
+  /** The node's own URL, before normalization. */
+  readonly href: string;
+  /** True for a tab open in Chrome, false for a saved one. */
+  readonly active: boolean;
+  /** Text of the window or group the node lives in, '' at the top level. */
+  readonly containerText: string;
+}
+
+/** Two or more nodes whose URLs normalize to the same key. */
+export interface DuplicateGroup {
+  /** The normalized URL shared by every occurrence. */
+  readonly url: string;
+  /** Occurrences in tree (display) order. */
+  readonly occurrences: readonly DuplicateOccurrence[];
+}
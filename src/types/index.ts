@@ -14,7 +14,10 @@ export type { NodeMarks } from './marks';
 
 export type {
   ChromeWindowType,
+  ChromeWindowState,
   ChromeTabData,
+  ChromeTabGroupColor,
+  ChromeTabGroupData,
   ChromeWindowData,
 } from './chrome';
 
@@ -57,6 +60,7 @@ export type {
   SerializedNode,
   HierarchyJSO,
   EntryWireFormat,
+  EntryTimestamps,
 } from './serialized';
 
 export type {
@@ -80,7 +84,8 @@ export type {
   BackgroundToViewMessage,
   ViewToBackgroundMessage,
   Msg_InitTreeView,
-  Msg_NotifyObserver,
+  Msg_TreeDelta,
+  TreeDelta,
   Msg_NotifyObserverOnNodeUpdated,
   Msg_SetCursorHere,
   Msg_RequestScrollNodeToView,
@@ -10,6 +10,9 @@
  */
 
 import type { NodeDTO, ParentsUpdateData } from './node-dto';
+import type { DuplicateGroup, DuplicateScanOptions } from './duplicates';
+import type { SortDirection, SortKey } from './sort';
+import type { OrganizePreviewEntry, OrganizeRule } from './organize';
 
 // -- Background -> View messages -------------------------------------------------------
 
@@ -18,18 +21,59 @@ export interface Msg_InitTreeView {
   readonly rootNode_currentSession: NodeDTO;
   readonly globalViewId: number;
   readonly instanceId: string;
+  /** Seq of the last tree delta already reflected in this snapshot. */
+  readonly deltaSeq: number;
 }
 
-export interface Msg_NotifyObserver {
-  readonly command: 'msg2view_notifyObserver';
-  readonly idMVC: string;
-  readonly parameters: unknown[];
-  readonly parentsUpdateData?: ParentsUpdateData;
+/**
+ * One structural change to the tree, as a view applies it to its copy.
+ * `index` is the node's final position among the new parent's children.
+ * `parentsUpdateData` covers the (new) parent and its ancestors up to the
+ * root; a move also carries the old parent's chain.
+ */
+export type TreeDelta =
+  | {
+      readonly op: 'insert';
+      readonly parentIdMVC: string;
+      readonly index: number;
+      readonly node: NodeDTO;
+      readonly parentsUpdateData: ParentsUpdateData;
+    }
+  | {
+      readonly op: 'remove';
+      readonly idMVC: string;
+      readonly parentIdMVC: string;
+      readonly parentsUpdateData: ParentsUpdateData;
+    }
+  | {
+      readonly op: 'move';
+      readonly idMVC: string;
+      readonly parentIdMVC: string;
+      readonly index: number;
+      readonly parentsUpdateData: ParentsUpdateData;
+      readonly oldParentsUpdateData: ParentsUpdateData;
+    }
+  | {
+      readonly op: 'replace';
+      /** The replaced node; `node` carries the replacement's own idMVC. */
+      readonly idMVC: string;
+      readonly parentIdMVC: string;
+      readonly node: NodeDTO;
+      readonly parentsUpdateData: ParentsUpdateData;
+    };
+
+export interface Msg_TreeDelta {
+  readonly command: 'msg2view_treeDelta';
+  /** Consecutive within a background session; a gap means a lost delta. */
+  readonly seq: number;
+  readonly delta: TreeDelta;
 }
 
 export interface Msg_NotifyObserverOnNodeUpdated {
   readonly command: 'msg2view_notifyObserver_onNodeUpdated';
   readonly idMVC: string;
+  /** The node's parent (null for the root), so a view can tell whether it should hold the node. */
+  readonly parentIdMVC: string | null;
   readonly modelDataCopy: NodeDTO;
 }
 
@@ -114,9 +158,48 @@ export interface Msg_ExportResult {
   readonly success: boolean;
   readonly treeJson?: string;
   readonly treeHtml?: string;
+  readonly bookmarksHtml?: string;
+  readonly treeMarkdown?: string;
+  readonly treeOpml?: string;
+  readonly error?: string;
+}
+
+export interface Msg_SnapshotRestoreResult {
+  readonly command: 'msg2view_snapshotRestoreResult';
+  readonly success: boolean;
+  readonly nodeCount: number;
+  readonly error?: string;
+}
+
+export interface Msg_BackupResult {
+  readonly command: 'msg2view_backupResult';
+  readonly success: boolean;
+  /** Name of the uploaded backup file on success. */
+  readonly backupId?: string;
   readonly error?: string;
 }
 
+/** Reply to Req_FindDuplicates, sent to the requesting view only. */
+export interface Msg_DuplicatesResult {
+  readonly command: 'msg2view_duplicatesResult';
+  readonly groups: readonly DuplicateGroup[];
+}
+
+/** Reply to Req_SearchTree, sent to the requesting view only. */
+export interface Msg_SearchResult {
+  readonly command: 'msg2view_searchResult';
+  /** The query as sent, so the view can drop replies to older ones. */
+  readonly query: string;
+  /** Matching idMVCs in tree order; the session root is never included. */
+  readonly matchIds: readonly string[];
+}
+
+/** Reply to Req_PreviewOrganizeRules, sent to the requesting view only. */
+export interface Msg_OrganizePreviewResult {
+  readonly command: 'msg2view_organizePreviewResult';
+  readonly entries: readonly OrganizePreviewEntry[];
+}
+
 /** Catch-all for remaining background->view messages not yet fully typed */
 export interface Msg_BackgroundToViewGeneric {
   readonly command: string;
@@ -125,7 +208,7 @@ export interface Msg_BackgroundToViewGeneric {
 
 export type BackgroundToViewMessage =
   | Msg_InitTreeView
-  | Msg_NotifyObserver
+  | Msg_TreeDelta
   | Msg_NotifyObserverOnNodeUpdated
   | Msg_SetCursorHere
   | Msg_RequestScrollNodeToView
@@ -142,6 +225,11 @@ export type BackgroundToViewMessage =
   | Msg_SetLicenseStateInvalidNoKey
   | Msg_ImportResult
   | Msg_ExportResult
+  | Msg_SnapshotRestoreResult
+  | Msg_BackupResult
+  | Msg_DuplicatesResult
+  | Msg_SearchResult
+  | Msg_OrganizePreviewResult
   | Msg_BackgroundToViewGeneric;
 
 // -- View -> Background messages -------------------------------------------------------
@@ -225,9 +313,16 @@ export interface Req_FocusTab {
   readonly tabId: number;
 }
 
+/**
+ * Save and close every open window except the kept ones. The requesting
+ * view's own window is always kept when the port sender reports it.
+ */
 export interface Req_CloseAllWindowsExceptThis {
   readonly request: 'request2bkg_closeAllWindowsExceptThis';
-  readonly preserveWinId: number;
+  /** Chrome window to keep open. */
+  readonly preserveWinId?: number;
+  /** Active window node to keep open (context menu on a window). */
+  readonly preserveIdMVC?: string;
 }
 
 export interface Req_OnViewWindowBeforeUnload {
@@ -237,11 +332,21 @@ export interface Req_OnViewWindowBeforeUnload {
 export interface Req_ImportTree {
   readonly request: 'request2bkg_import_tree';
   readonly treeJson: string;
+  /** Insert the imported nodes as children of this node (default: the end of the tree). */
+  readonly targetParentIdMVC?: string;
+  /** Index within the target parent (-1 = last child). */
+  readonly targetPosition?: number;
 }
 
 export interface Req_ExportTree {
   readonly request: 'request2bkg_export_tree';
-  readonly format?: 'json' | 'html';
+  /**
+   * `bookmarks` is a Netscape bookmark file, `html` the outline dialect,
+   * `markdown` a bullet list shaped by the markdownExport* settings.
+   */
+  readonly format?: 'json' | 'html' | 'bookmarks' | 'markdown' | 'opml';
+  /** Export only this node and its subtree (default: the whole tree). */
+  readonly rootIdMVC?: string;
 }
 
 export interface Req_CopyHierarchy {
@@ -270,6 +375,127 @@ export interface Req_CreateSeparator {
   readonly afterIdMVC: string | null;
 }
 
+export interface Req_RestoreSnapshot {
+  readonly request: 'request2bkg_restoreSnapshot';
+  /** SnapshotMeta.id of the snapshot to restore. */
+  readonly snapshotId: string;
+}
+
+/** Revert the last user tree edit (delete, move, paste, rename, ...). */
+export interface Req_Undo {
+  readonly request: 'request2bkg_undo';
+}
+
+export interface Req_Redo {
+  readonly request: 'request2bkg_redo';
+}
+
+/** Upload a backup to the configured remote target now. */
+export interface Req_BackupNow {
+  readonly request: 'request2bkg_backupNow';
+}
+
+// Multi-target variants of the requests above, sent for a multi-selection.
+// Ids may arrive in any order and may include descendants of other ids:
+// the background acts on the top-most nodes in tree order, ignores ids
+// that no longer exist, and records the whole batch as one undo entry.
+
+export interface Req_MoveHierarchies {
+  readonly request: 'request2bkg_moveHierarchies';
+  readonly targetNodeIdsMVC: readonly string[];
+  readonly containerIdMVC: string | null; // new parent (null = root)
+  readonly position: number; // index within new parent, sources still in place
+}
+
+export interface Req_CopyHierarchies {
+  readonly request: 'request2bkg_copyHierarchies';
+  readonly sourceIdsMVC: readonly string[];
+  /** Target parent node (null = root). */
+  readonly targetParentIdMVC: string | null;
+  /** Index within target parent (-1 = last child). */
+  readonly targetPosition: number;
+}
+
+export interface Req_ActivateHoveringMenuActionOnNodes {
+  readonly request: 'request2bkg_activateHoveringMenuActionOnNodes';
+  readonly targetNodeIdsMVC: readonly string[];
+  readonly actionId: 'closeAction' | 'deleteAction' | 'hibernateAction';
+}
+
+/** Restore (open) every saved tab, window and group in the batch. */
+export interface Req_RestoreNodes {
+  readonly request: 'request2bkg_restoreNodes';
+  readonly targetNodeIdsMVC: readonly string[];
+}
+
+/** Wrap the batch in a new group placed where the first node was. */
+export interface Req_MoveHierarchiesToNewGroup {
+  readonly request: 'request2bkg_moveHierarchiesToNewGroup';
+  readonly targetNodeIdsMVC: readonly string[];
+}
+
+/** Group the tree's tabs by normalized URL; answered with Msg_DuplicatesResult. */
+export interface Req_FindDuplicates {
+  readonly request: 'request2bkg_findDuplicates';
+  readonly options: DuplicateScanOptions;
+}
+
+/**
+ * Search the whole tree, collapsed containers included; answered with
+ * Msg_SearchResult. Same query syntax as the view's filter box.
+ */
+export interface Req_SearchTree {
+  readonly request: 'request2bkg_searchTree';
+  readonly query: string;
+}
+
+/** Expand every collapsed ancestor of a node and move the cursor to it. */
+export interface Req_RevealNode {
+  readonly request: 'request2bkg_revealNode';
+  readonly targetNodeIdMVC: string;
+}
+
+/**
+ * Keep one occurrence of a duplicated URL and remove the others. Open
+ * duplicates have their Chrome tabs closed; children of a removed node
+ * take its place instead of being deleted with it.
+ */
+export interface Req_MergeDuplicates {
+  readonly request: 'request2bkg_mergeDuplicates';
+  readonly keepIdMVC: string;
+  readonly removeIdsMVC: readonly string[];
+}
+
+/**
+ * Reorder a container's children. Children without a value for the key
+ * (a note has no URL) go last in either direction; ties keep their order.
+ */
+export interface Req_SortSubnodes {
+  readonly request: 'request2bkg_sortSubnodes';
+  readonly targetNodeIdMVC: string;
+  readonly by: SortKey;
+  readonly direction: SortDirection;
+}
+
+/**
+ * Move a container's links into one new group per domain, placed after
+ * its other children and ordered by domain.
+ */
+export interface Req_GroupSubnodesByDomain {
+  readonly request: 'request2bkg_groupSubnodesByDomain';
+  readonly targetNodeIdMVC: string;
+}
+
+/**
+ * List what `rules` would change in the current tree without changing it;
+ * answered with Msg_OrganizePreviewResult. The rules come with the request
+ * so unsaved edits can be previewed.
+ */
+export interface Req_PreviewOrganizeRules {
+  readonly request: 'request2bkg_previewOrganizeRules';
+  readonly rules: readonly OrganizeRule[];
+}
+
 /** Catch-all for remaining view->background messages not yet fully typed */
 export interface Req_ViewToBackgroundGeneric {
   readonly request: string;
@@ -298,4 +524,20 @@ export type ViewToBackgroundMessage =
   | Req_CreateWindow
   | Req_CreateGroup
   | Req_CreateSeparator
+  | Req_RestoreSnapshot
+  | Req_Undo
+  | Req_Redo
+  | Req_BackupNow
+  | Req_MoveHierarchies
+  | Req_CopyHierarchies
+  | Req_ActivateHoveringMenuActionOnNodes
+  | Req_RestoreNodes
+  | Req_MoveHierarchiesToNewGroup
+  | Req_FindDuplicates
+  | Req_MergeDuplicates
+  | Req_SearchTree
+  | Req_RevealNode
+  | Req_SortSubnodes
+  | Req_GroupSubnodesByDomain
+  | Req_PreviewOrganizeRules
   | Req_ViewToBackgroundGeneric;
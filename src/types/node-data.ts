@@ -4,7 +4,11 @@
  * These map to the `polymorficSerializeData()` output for each node type.
  */
 
-import type { ChromeTabData, ChromeWindowData } from './chrome';
+import type {
+  ChromeTabData,
+  ChromeTabGroupData,
+  ChromeWindowData,
+} from './chrome';
 
 export interface SessionData {
   readonly treeId: string;
@@ -26,5 +30,8 @@ export type TabData = ChromeTabData;
 /** Window data is the serialized subset of a Chrome window */
 export type WindowData = ChromeWindowData;
 
-/** Group nodes have no persistent data beyond marks/collapsed */
-export type GroupData = null;
+/**
+ * Plain group nodes have no persistent data beyond marks/collapsed; groups
+ * mirroring a Chrome tab group carry its title, color and (while live) id.
+ */
+export type GroupData = ChromeTabGroupData | null;
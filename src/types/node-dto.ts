@@ -7,7 +7,11 @@
 
 import type { MvcId } from './brands';
 import type { NodeMarks } from './marks';
-import type { HoveringMenuActionId, TitleBackgroundCssClass } from './node';
+import type {
+  HoveringMenuActionId,
+  TabStateIndicator,
+  TitleBackgroundCssClass,
+} from './node';
 
 export interface StatsBlock {
   readonly nodesCount: number;
@@ -55,10 +59,18 @@ export interface NodeDTO {
   nodeText: string;
   isSelectedTab: boolean;
   isFocusedWindow: boolean;
+  /** Chrome window id of an open window node; absent on other nodes. */
+  readonly chromeWindowId?: number;
+  /** Pinned/muted/audible icons for tabs; absent when there are none. */
+  tabStateIndicators?: readonly TabStateIndicator[];
   isProtectedFromGoneOnClose: boolean;
   nodeContentCssClass: string;
   nodeTextCustomStyle: string | null;
   isSubnodesPresent: boolean;
+  /** Node timestamps (ms since epoch), for age-based views. */
+  readonly created?: number;
+  readonly savedAt?: number;
+  readonly lastVisited?: number;
 }
 
 /**
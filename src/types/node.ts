@@ -26,11 +26,15 @@ export type TitleBackgroundCssClass =
   | 'tabFrame'
   | 'defaultFrame';
 
+/** Tab state shown as a small icon next to a tab's title. */
+export type TabStateIndicator = 'pinned' | 'muted' | 'audible';
+
 export type HoveringMenuActionId =
   | 'addNoteAction'
   | 'closeAction'
   | 'deleteAction'
   | 'editTitleAction'
+  | 'hibernateAction'
   | 'setCursorAction';
 
 export interface HoveringMenuAction {
@@ -0,0 +1,54 @@
+/**
+ * Auto-organize rules — user-defined conditions that file tabs into groups
+ * or color them as they are opened, navigate or get saved.
+ */
+
+/** What a matching rule does to a tab. */
+export type OrganizeAction =
+  | {
+      readonly kind: 'moveToGroup';
+      /**
+       * Slash-separated group names, e.g. "Work/Repos". Groups are looked
+       * up (and created when missing) inside the tab's window, or at the
+       * top of the tree for a tab outside any window.
+       */
+      readonly groupPath: string;
+    }
+  | {
+      readonly kind: 'mark';
+      /** CSS color applied to the tab's title, open or saved. */
+      readonly color: string;
+    };
+
+/**
+ * One rule. Every non-empty condition must hold; a rule whose conditions
+ * are all empty matches nothing.
+ */
+export interface OrganizeRule {
+  readonly id: string;
+  readonly enabled: boolean;
+  /**
+   * Glob matched against the whole URL, with or without its scheme; `*`
+   * stands for any run of characters. "github.com/myorg/*" matches
+   * every page under https://github.com/myorg/.
+   */
+  readonly urlPattern: string;
+  /** Case-insensitive text the tab's title must contain. */
+  readonly titleContains: string;
+  /** Case-insensitive text the title of the tab's window must contain. */
+  readonly windowTitleContains: string;
+  readonly action: OrganizeAction;
+}
+
+/** A change a rule would make to an existing node (dry-run preview). */
+export interface OrganizePreviewEntry {
+  readonly ruleId: string;
+  readonly idMVC: string;
+  readonly nodeText: string;
+  readonly href: string;
+  /** Human-readable change, e.g. "Move to Work/Repos". */
+  readonly change: string;
+}
+
+/** chrome.storage.local key for the OrganizeRule list. */
+export const ORGANIZE_RULES_KEY = 'tabs_outliner_organize_rules';
@@ -15,6 +15,7 @@ import type { NodeMarks } from './marks';
  *    stripped for space savings)
  * - `marks` is omitted when empty (only relicons present and relicons is [])
  * - `colapsed` is omitted when false
+ * - the timestamps are absent from legacy files
  */
 export interface SerializedNode {
   /** Node type — absent means 'savedtab' */
@@ -33,6 +34,12 @@ export interface SerializedNode {
   readonly colapsed?: boolean;
   /** Polymorphic node data (shape depends on type) */
   readonly data: unknown;
+  /** When the node was created (ms since epoch) */
+  readonly created?: number;
+  /** When the tab or window was saved — omitted when never */
+  readonly savedAt?: number;
+  /** When the tab was last active — omitted when never */
+  readonly lastVisited?: number;
 }
 
 /**
@@ -47,12 +54,26 @@ export interface HierarchyJSO {
   readonly s?: HierarchyJSO[];
 }
 
+/** Node timestamps carried by a diff entry; legacy entries have none. */
+export interface EntryTimestamps {
+  readonly created?: number;
+  readonly savedAt?: number;
+  readonly lastVisited?: number;
+}
+
 /**
  * Entry wire format used in diff serialization.
  *
- * Encoded as a tuple: [typeCode, data] or [typeCode, data, marks]
- * where typeCode is negative if collapsed.
+ * Encoded as a tuple: [typeCode, data], [typeCode, data, marks] or
+ * [typeCode, data, marks | null, timestamps] where typeCode is negative
+ * if collapsed.
  */
 export type EntryWireFormat =
   | readonly [typeCode: number, data: unknown]
-  | readonly [typeCode: number, data: unknown, marks: NodeMarks];
+  | readonly [typeCode: number, data: unknown, marks: NodeMarks]
+  | readonly [
+      typeCode: number,
+      data: unknown,
+      marks: NodeMarks | null,
+      timestamps: EntryTimestamps,
+    ];
@@ -17,6 +17,36 @@ export interface AppSettings {
    * appended directly as siblings of the existing tree's top-level nodes.
    */
   wrapImportsInContainer: boolean;
+  /**
+   * Nest tabs opened from another tab (links, Ctrl+click) under their
+   * opener instead of appending them to the window.
+   */
+  relateNewTabToOpener: boolean;
+  /**
+   * Reopen saved windows at their last position, size and state (fitted
+   * to the current displays) instead of wherever Chrome puts new windows.
+   */
+  openSavedWindowsInOriginalPos: boolean;
+  /**
+   * When restoring a whole saved window or group, unload every tab but the
+   * active one right away so they load only when first focused.
+   */
+  restoreTabsDiscarded: boolean;
+  /**
+   * Discard live tabs that haven't been active for
+   * `autoHibernateAfterMinutes`. Pinned and audible tabs are left alone.
+   */
+  autoHibernateTabs: boolean;
+  /** Idle time, in minutes, after which auto-hibernation discards a tab. */
+  autoHibernateAfterMinutes: number;
+  /** List levels a Markdown export writes; 0 writes the whole tree. */
+  markdownExportDepth: number;
+  /** Include tabs open in the browser in Markdown exports. */
+  markdownExportLiveTabs: boolean;
+  /** Include saved tabs in Markdown exports. */
+  markdownExportSavedTabs: boolean;
+  /** Link text in Markdown exports: a tab's customTitle where set, else its page title. */
+  markdownExportCustomTitles: boolean;
 }
 
 export const SETTINGS_DEFAULTS: AppSettings = {
@@ -25,6 +55,15 @@ export const SETTINGS_DEFAULTS: AppSettings = {
   oneClickToOpen: false,
   lightBackground: false,
   wrapImportsInContainer: true,
+  relateNewTabToOpener: true,
+  openSavedWindowsInOriginalPos: true,
+  restoreTabsDiscarded: false,
+  autoHibernateTabs: false,
+  autoHibernateAfterMinutes: 60,
+  markdownExportDepth: 0,
+  markdownExportLiveTabs: true,
+  markdownExportSavedTabs: true,
+  markdownExportCustomTitles: true,
 };
 
 /** chrome.storage.local key for persisted AppSettings. */
@@ -0,0 +1,48 @@
+/**
+ * Rolling tree snapshots — point-in-time copies of the HierarchyJSO kept
+ * alongside the live tree so a bad import or accidental delete can be
+ * rolled back.
+ */
+
+/** Retention tier. Each tier keeps its own rotating set of snapshots. */
+export type SnapshotTier = 'hourly' | 'daily' | 'weekly';
+
+/** Index entry describing one stored snapshot (the tree itself is stored separately). */
+export interface SnapshotMeta {
+  /** Unique id; also the suffix of the storage key holding the tree. */
+  readonly id: string;
+  readonly tier: SnapshotTier;
+  /** Epoch ms when the snapshot was taken. */
+  readonly timestamp: number;
+  /** Total node count (root inclusive), from countNodes. */
+  readonly nodeCount: number;
+  /**
+   * Suffix of the storage key holding the tree. Every tier entry taken in
+   * the same run shares one payload. Absent on entries written before
+   * payloads were shared, whose tree is stored under `id`.
+   */
+  readonly payloadId?: string;
+}
+
+export interface SnapshotTierPolicy {
+  /** Minimum time between two snapshots of this tier. */
+  readonly intervalMs: number;
+  /** Number of snapshots of this tier to retain; oldest are rotated out. */
+  readonly keep: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SNAPSHOT_TIERS: Readonly<
+  Record<SnapshotTier, SnapshotTierPolicy>
+> = {
+  hourly: { intervalMs: HOUR_MS, keep: 24 },
+  daily: { intervalMs: 24 * HOUR_MS, keep: 7 },
+  weekly: { intervalMs: 7 * 24 * HOUR_MS, keep: 4 },
+};
+
+/** chrome.storage.local key for the SnapshotMeta[] index. */
+export const SNAPSHOT_INDEX_KEY = 'tabs_outliner_snapshots';
+
+/** chrome.storage.local key prefix for snapshot payloads (`<prefix><payloadId>`). */
+export const SNAPSHOT_KEY_PREFIX = 'tabs_outliner_snapshot_';
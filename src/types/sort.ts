@@ -0,0 +1,12 @@
+/**
+ * Sort options for reordering a container's children.
+ */
+
+/**
+ * What children are sorted by. `domain` is the URL's host name without a
+ * leading "www."; `date` is when the node was saved, or created if it
+ * never was.
+ */
+export type SortKey = 'title' | 'url' | 'domain' | 'date';
+
+export type SortDirection = 'asc' | 'desc';
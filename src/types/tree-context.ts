@@ -41,8 +41,19 @@ export interface TreeContextValue {
    * away.
    */
   isScrolling: boolean;
-  /** idMVC of the node currently in the cut/copy clipboard, or null. */
-  clipboardSourceId: string | null;
+  /** idMVCs of the nodes currently in the cut/copy clipboard. */
+  clipboardSourceIds: readonly string[];
   /** Kind of clipboard entry — drives row-level visual indicator. */
   clipboardKind: 'cut' | 'copy' | null;
+  /** Lowercased search terms to highlight in node text; empty when not searching. */
+  searchTerms: readonly string[];
+  /** idMVC of the search hit currently navigated to, or null. */
+  searchCurrentId: string | null;
+  /** idMVC → number of nodes sharing its URL, for the duplicate badge. */
+  duplicateCounts: ReadonlyMap<string, number>;
+  /**
+   * While the aging view is on, saved tabs last touched before this time
+   * are flagged as stale; null when it is off.
+   */
+  staleBefore: number | null;
 }
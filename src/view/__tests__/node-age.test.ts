@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DAY_MS, lastTouched, isStaleSavedTab } from '../node-age';
+import { makeNodeDTO, resetFixtureCounter } from './fixtures';
+
+beforeEach(() => {
+  resetFixtureCounter();
+});
+
+const NOW = Date.UTC(2026, 5, 1);
+
+describe('lastTouched', () => {
+  it('is the latest of the created, saved and visited times', () => {
+    const node = makeNodeDTO({ created: 1, savedAt: 3, lastVisited: 2 });
+    expect(lastTouched(node)).toBe(3);
+  });
+
+  it('is null without any timestamp', () => {
+    expect(lastTouched(makeNodeDTO())).toBeNull();
+  });
+});
+
+describe('isStaleSavedTab', () => {
+  const cutoff = NOW - 90 * DAY_MS;
+
+  it('flags saved tabs last touched before the cutoff', () => {
+    const old = makeNodeDTO({
+      titleCssClass: 'savedtab',
+      created: NOW - 200 * DAY_MS,
+      lastVisited: NOW - 120 * DAY_MS,
+    });
+    const recent = makeNodeDTO({
+      titleCssClass: 'savedtab',
+      created: NOW - 200 * DAY_MS,
+      lastVisited: NOW - 10 * DAY_MS,
+    });
+    expect(isStaleSavedTab(old, cutoff)).toBe(true);
+    expect(isStaleSavedTab(recent, cutoff)).toBe(false);
+  });
+
+  it('flags saved tabs of unknown age', () => {
+    expect(
+      isStaleSavedTab(makeNodeDTO({ titleCssClass: 'savedtab' }), cutoff),
+    ).toBe(true);
+  });
+
+  it('never flags open tabs or other nodes', () => {
+    const created = NOW - 200 * DAY_MS;
+    expect(
+      isStaleSavedTab(makeNodeDTO({ titleCssClass: 'tab', created }), cutoff),
+    ).toBe(false);
+    expect(
+      isStaleSavedTab(
+        makeNodeDTO({ titleCssClass: 'savedwin', created }),
+        cutoff,
+      ),
+    ).toBe(false);
+  });
+});
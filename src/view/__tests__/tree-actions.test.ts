@@ -6,7 +6,28 @@ import {
   executeAction,
   notifyUnload,
   moveHierarchy,
+  restoreSnapshot,
+  undo,
+  redo,
+  backupNow,
+  addNote,
+  closeAllWindowsExceptThis,
+  moveHierarchies,
+  copyHierarchies,
+  executeActionOnNodes,
+  restoreNodes,
+  moveToNewGroup,
+  findDuplicates,
+  importTree,
+  exportTree,
+  exportTreeHtml,
+  exportTreeBookmarks,
+  exportTreeMarkdown,
+  exportTreeOpml,
+  mergeDuplicates,
+  revealNode,
 } from '../tree-actions';
+import { DEFAULT_DUPLICATE_SCAN_OPTIONS } from '@/types/duplicates';
 
 describe('tree-actions', () => {
   describe('requestTree', () => {
@@ -77,4 +98,148 @@ describe('tree-actions', () => {
       });
     });
   });
+
+  describe('restoreSnapshot', () => {
+    it('creates correct message', () => {
+      expect(restoreSnapshot('daily-1700000000000')).toEqual({
+        request: 'request2bkg_restoreSnapshot',
+        snapshotId: 'daily-1700000000000',
+      });
+    });
+  });
+
+  describe('undo / redo', () => {
+    it('creates correct messages', () => {
+      expect(undo()).toEqual({ request: 'request2bkg_undo' });
+      expect(redo()).toEqual({ request: 'request2bkg_redo' });
+    });
+  });
+
+  describe('backupNow', () => {
+    it('creates correct message', () => {
+      expect(backupNow()).toEqual({ request: 'request2bkg_backupNow' });
+    });
+  });
+
+  describe('addNote', () => {
+    it('maps placements to the add-note requests', () => {
+      expect(addNote('nextSibling', 'n1')).toEqual({
+        request: 'request2bkg_addNoteAsNextSiblingOfCurrentNode',
+        targetNodeIdMVC: 'n1',
+      });
+      expect(addNote('parent', 'n1').request).toBe(
+        'request2bkg_addNoteAsParentOfCurrentNode',
+      );
+      expect(addNote('firstSubnode', 'n1').request).toBe(
+        'request2bkg_addNoteAsFirstSubnodeOfCurrentNode',
+      );
+    });
+
+    it('omits the target for endOfTree without a cursor', () => {
+      expect(addNote('endOfTree', null)).toEqual({
+        request: 'request2bkg_addNoteAtTheEndOfTree',
+      });
+    });
+  });
+
+  describe('closeAllWindowsExceptThis', () => {
+    it('creates correct message', () => {
+      expect(closeAllWindowsExceptThis()).toEqual({
+        request: 'request2bkg_closeAllWindowsExceptThis',
+      });
+      expect(closeAllWindowsExceptThis('win1')).toEqual({
+        request: 'request2bkg_closeAllWindowsExceptThis',
+        preserveIdMVC: 'win1',
+      });
+    });
+  });
+
+  describe('multi-target requests', () => {
+    it('creates the bulk move, copy and action messages', () => {
+      expect(moveHierarchies(['a', 'b'], 'p', 2)).toEqual({
+        request: 'request2bkg_moveHierarchies',
+        targetNodeIdsMVC: ['a', 'b'],
+        containerIdMVC: 'p',
+        position: 2,
+      });
+      expect(copyHierarchies(['a', 'b'], null, -1)).toEqual({
+        request: 'request2bkg_copyHierarchies',
+        sourceIdsMVC: ['a', 'b'],
+        targetParentIdMVC: null,
+        targetPosition: -1,
+      });
+      expect(executeActionOnNodes(['a'], 'deleteAction')).toEqual({
+        request: 'request2bkg_activateHoveringMenuActionOnNodes',
+        targetNodeIdsMVC: ['a'],
+        actionId: 'deleteAction',
+      });
+    });
+
+    it('creates the restore and group messages', () => {
+      expect(restoreNodes(['a', 'b'])).toEqual({
+        request: 'request2bkg_restoreNodes',
+        targetNodeIdsMVC: ['a', 'b'],
+      });
+      expect(moveToNewGroup(['a'])).toEqual({
+        request: 'request2bkg_moveHierarchiesToNewGroup',
+        targetNodeIdsMVC: ['a'],
+      });
+    });
+  });
+
+  describe('duplicates', () => {
+    it('creates the scan, merge and reveal messages', () => {
+      expect(findDuplicates(DEFAULT_DUPLICATE_SCAN_OPTIONS)).toEqual({
+        request: 'request2bkg_findDuplicates',
+        options: DEFAULT_DUPLICATE_SCAN_OPTIONS,
+      });
+      expect(mergeDuplicates('keep', ['a', 'b'])).toEqual({
+        request: 'request2bkg_mergeDuplicates',
+        keepIdMVC: 'keep',
+        removeIdsMVC: ['a', 'b'],
+      });
+      expect(revealNode('a')).toEqual({
+        request: 'request2bkg_revealNode',
+        targetNodeIdMVC: 'a',
+      });
+    });
+  });
+
+  describe('import / export', () => {
+    it('targets the whole tree by default', () => {
+      expect(importTree('{}')).toEqual({
+        request: 'request2bkg_import_tree',
+        treeJson: '{}',
+      });
+      expect(exportTree()).toEqual({ request: 'request2bkg_export_tree' });
+    });
+
+    it('targets one node when given', () => {
+      expect(importTree('{}', 'a')).toEqual({
+        request: 'request2bkg_import_tree',
+        treeJson: '{}',
+        targetParentIdMVC: 'a',
+        targetPosition: -1,
+      });
+      expect(exportTreeHtml('a')).toEqual({
+        request: 'request2bkg_export_tree',
+        format: 'html',
+        rootIdMVC: 'a',
+      });
+      expect(exportTreeBookmarks('a')).toEqual({
+        request: 'request2bkg_export_tree',
+        format: 'bookmarks',
+        rootIdMVC: 'a',
+      });
+      expect(exportTreeMarkdown('a')).toEqual({
+        request: 'request2bkg_export_tree',
+        format: 'markdown',
+        rootIdMVC: 'a',
+      });
+      expect(exportTreeOpml()).toEqual({
+        request: 'request2bkg_export_tree',
+        format: 'opml',
+      });
+    });
+  });
 });
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  parseSearchQuery,
+  parseAgeFilters,
+  nodeMatchesTerms,
+  nodeMatchesAge,
+  splitHighlights,
+} from '../tree-search';
+import { DAY_MS } from '../node-age';
+import { makeNodeDTO, resetFixtureCounter } from './fixtures';
+
+beforeEach(() => {
+  resetFixtureCounter();
+});
+
+describe('parseSearchQuery', () => {
+  it('lowercases and splits on whitespace', () => {
+    expect(parseSearchQuery('  GitHub   Issues ')).toEqual([
+      'github',
+      'issues',
+    ]);
+  });
+
+  it('returns no terms for a blank query', () => {
+    expect(parseSearchQuery('')).toEqual([]);
+    expect(parseSearchQuery('   ')).toEqual([]);
+  });
+
+  it('leaves out age filters', () => {
+    expect(parseSearchQuery('github older:90d')).toEqual(['github']);
+  });
+});
+
+describe('parseAgeFilters', () => {
+  it('reads older: and newer: with day, week, month and year units', () => {
+    expect(parseAgeFilters('Older:3d x newer:2w older:1m newer:1y')).toEqual([
+      { kind: 'older', ms: 3 * DAY_MS },
+      { kind: 'newer', ms: 14 * DAY_MS },
+      { kind: 'older', ms: 30 * DAY_MS },
+      { kind: 'newer', ms: 365 * DAY_MS },
+    ]);
+  });
+
+  it('ignores malformed filters', () => {
+    expect(parseAgeFilters('older: older:d older:5h newer:-1d')).toEqual([]);
+  });
+});
+
+describe('nodeMatchesAge', () => {
+  const NOW = Date.UTC(2026, 5, 1);
+
+  it('ages a node from its latest created, saved or visited time', () => {
+    const node = makeNodeDTO({
+      created: NOW - 200 * DAY_MS,
+      savedAt: NOW - 100 * DAY_MS,
+      lastVisited: NOW - 150 * DAY_MS,
+    });
+    const older = (days: number) => [
+      { kind: 'older' as const, ms: days * DAY_MS },
+    ];
+    expect(nodeMatchesAge(node, older(90), NOW)).toBe(true);
+    expect(nodeMatchesAge(node, older(120), NOW)).toBe(false);
+  });
+
+  it('requires every filter', () => {
+    const node = makeNodeDTO({ created: NOW - 10 * DAY_MS });
+    const filters = parseAgeFilters('older:1w newer:2w');
+    expect(nodeMatchesAge(node, filters, NOW)).toBe(true);
+    expect(nodeMatchesAge(node, parseAgeFilters('newer:1w'), NOW)).toBe(false);
+  });
+
+  it('treats a node of unknown age as old', () => {
+    expect(
+      nodeMatchesAge(makeNodeDTO(), parseAgeFilters('older:1d'), NOW),
+    ).toBe(true);
+    expect(
+      nodeMatchesAge(makeNodeDTO(), parseAgeFilters('newer:1y'), NOW),
+    ).toBe(false);
+  });
+});
+
+describe('nodeMatchesTerms', () => {
+  it('matches the title case-insensitively', () => {
+    const node = makeNodeDTO({ nodeText: 'Stack Overflow' });
+    expect(nodeMatchesTerms(node, ['overflow'])).toBe(true);
+  });
+
+  it('matches the URL', () => {
+    const node = makeNodeDTO({
+      nodeText: 'Home',
+      href: 'https://example.com/docs',
+    });
+    expect(nodeMatchesTerms(node, ['example.com'])).toBe(true);
+  });
+
+  it('matches the custom title / note', () => {
+    const node = makeNodeDTO({ nodeText: 'Home', customTitle: 'read later' });
+    expect(nodeMatchesTerms(node, ['later'])).toBe(true);
+  });
+
+  it('requires every term, which may come from different fields', () => {
+    const node = makeNodeDTO({
+      nodeText: 'Issues',
+      href: 'https://github.com/org/repo/issues',
+    });
+    expect(nodeMatchesTerms(node, ['github', 'issues'])).toBe(true);
+    expect(nodeMatchesTerms(node, ['github', 'pulls'])).toBe(false);
+  });
+
+  it('never matches with no terms', () => {
+    expect(nodeMatchesTerms(makeNodeDTO(), [])).toBe(false);
+  });
+});
+
+describe('splitHighlights', () => {
+  it('returns a single plain segment with no terms', () => {
+    expect(splitHighlights('Hello', [])).toEqual([
+      { text: 'Hello', match: false },
+    ]);
+  });
+
+  it('marks every occurrence, preserving original case', () => {
+    expect(splitHighlights('Foo bar foo', ['foo'])).toEqual([
+      { text: 'Foo', match: true },
+      { text: ' bar ', match: false },
+      { text: 'foo', match: true },
+    ]);
+  });
+
+  it('merges overlapping and adjacent term hits', () => {
+    expect(splitHighlights('abcdef', ['abc', 'cde'])).toEqual([
+      { text: 'abcde', match: true },
+      { text: 'f', match: false },
+    ]);
+  });
+
+  it('handles a match covering the whole text', () => {
+    expect(splitHighlights('Docs', ['docs'])).toEqual([
+      { text: 'Docs', match: true },
+    ]);
+  });
+});
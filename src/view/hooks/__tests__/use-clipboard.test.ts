@@ -31,25 +31,25 @@ describe('useClipboard', () => {
   describe('entry exposure for visual indicators', () => {
     it('cut sets entry with kind="cut" and the source id', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.cut('node1', 'Tab Title'));
+      act(() => result.current.cut(['node1'], 'Tab Title'));
       expect(result.current.entry).toEqual({
-        sourceIdMVC: 'node1',
+        sourceIdMVCs: ['node1'],
         kind: 'cut',
       });
     });
 
     it('copy sets entry with kind="copy" and the source id', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.copy('node2', 'Window'));
+      act(() => result.current.copy(['node2'], 'Window'));
       expect(result.current.entry).toEqual({
-        sourceIdMVC: 'node2',
+        sourceIdMVCs: ['node2'],
         kind: 'copy',
       });
     });
 
     it('clearClipboard nulls the entry', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.cut('node1', 'x'));
+      act(() => result.current.cut(['node1'], 'x'));
       expect(result.current.entry).not.toBeNull();
       act(() => result.current.clearClipboard());
       expect(result.current.entry).toBeNull();
@@ -57,7 +57,7 @@ describe('useClipboard', () => {
 
     it('paste does NOT change entry — visual indicator persists for retry/multi-paste', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.copy('node3', 'x'));
+      act(() => result.current.copy(['node3'], 'x'));
       const before = result.current.entry;
       act(() => result.current.paste('p', 0));
       expect(result.current.entry).toBe(before);
@@ -67,13 +67,13 @@ describe('useClipboard', () => {
   describe('cut()', () => {
     it('sets hasClipboard to true', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.cut('node1', 'Tab Title'));
+      act(() => result.current.cut(['node1'], 'Tab Title'));
       expect(result.current.hasClipboard).toBe(true);
     });
 
     it('writes to navigator.clipboard', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.cut('node1', 'Tab Title'));
+      act(() => result.current.cut(['node1'], 'Tab Title'));
       expect(navigator.clipboard.writeText).toHaveBeenCalledWith('Tab Title');
     });
   });
@@ -81,13 +81,13 @@ describe('useClipboard', () => {
   describe('copy()', () => {
     it('sets hasClipboard to true', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.copy('node2', 'Window Title'));
+      act(() => result.current.copy(['node2'], 'Window Title'));
       expect(result.current.hasClipboard).toBe(true);
     });
 
     it('writes to navigator.clipboard', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.copy('node2', 'Window Title'));
+      act(() => result.current.copy(['node2'], 'Window Title'));
       expect(navigator.clipboard.writeText).toHaveBeenCalledWith(
         'Window Title',
       );
@@ -99,7 +99,7 @@ describe('useClipboard', () => {
       const opts = makeOptions();
       const { result } = renderHook(() => useClipboard(opts));
 
-      act(() => result.current.cut('node1', 'Tab Title'));
+      act(() => result.current.cut(['node1'], 'Tab Title'));
       act(() => result.current.paste('parent1', 2));
 
       expect(opts.postMessage).toHaveBeenCalledWith({
@@ -114,7 +114,7 @@ describe('useClipboard', () => {
       const opts = makeOptions();
       const { result } = renderHook(() => useClipboard(opts));
 
-      act(() => result.current.cut('node1', 'Tab Title'));
+      act(() => result.current.cut(['node1'], 'Tab Title'));
       expect(result.current.entry?.kind).toBe('cut');
 
       act(() => result.current.paste('parent1', 2));
@@ -123,7 +123,7 @@ describe('useClipboard', () => {
       // (dashed outline → solid blue tint) matches the new behavior:
       // future pastes clone from the moved location.
       expect(result.current.entry).toEqual({
-        sourceIdMVC: 'node1',
+        sourceIdMVCs: ['node1'],
         kind: 'copy',
       });
       expect(result.current.hasClipboard).toBe(true);
@@ -133,7 +133,7 @@ describe('useClipboard', () => {
       const opts = makeOptions();
       const { result } = renderHook(() => useClipboard(opts));
 
-      act(() => result.current.cut('node1', 'x'));
+      act(() => result.current.cut(['node1'], 'x'));
       act(() => result.current.paste('p', 0));
       act(() => result.current.paste('q', 1));
 
@@ -158,7 +158,7 @@ describe('useClipboard', () => {
       const opts = makeOptions();
       const { result } = renderHook(() => useClipboard(opts));
 
-      act(() => result.current.copy('node2', 'Window Title'));
+      act(() => result.current.copy(['node2'], 'Window Title'));
       act(() => result.current.paste('parent2', 0));
 
       expect(opts.postMessage).toHaveBeenCalledWith({
@@ -174,7 +174,7 @@ describe('useClipboard', () => {
       const opts = makeOptions();
       const { result } = renderHook(() => useClipboard(opts));
 
-      act(() => result.current.copy('node2', 'x'));
+      act(() => result.current.copy(['node2'], 'x'));
       act(() => result.current.paste('p', 0));
       act(() => result.current.paste('p', 1));
 
@@ -185,7 +185,7 @@ describe('useClipboard', () => {
   describe('clearClipboard()', () => {
     it('sets hasClipboard to false', () => {
       const { result } = renderHook(() => useClipboard(makeOptions()));
-      act(() => result.current.copy('node1', 'x'));
+      act(() => result.current.copy(['node1'], 'x'));
       act(() => result.current.clearClipboard());
       expect(result.current.hasClipboard).toBe(false);
     });
@@ -194,7 +194,7 @@ describe('useClipboard', () => {
       const opts = makeOptions();
       const { result } = renderHook(() => useClipboard(opts));
 
-      act(() => result.current.copy('node1', 'x'));
+      act(() => result.current.copy(['node1'], 'x'));
       act(() => result.current.clearClipboard());
       act(() => result.current.paste('p', 0));
 
@@ -207,7 +207,7 @@ describe('useClipboard', () => {
       const opts = makeOptions();
       const { result } = renderHook(() => useClipboard(opts));
 
-      act(() => result.current.cut('node1', 'x'));
+      act(() => result.current.cut(['node1'], 'x'));
       act(() => result.current.paste(null, 0));
 
       expect(opts.postMessage).toHaveBeenCalledWith(
@@ -215,4 +215,28 @@ describe('useClipboard', () => {
       );
     });
   });
+
+  describe('multi-selection', () => {
+    it('posts moveHierarchies for a cut selection, then copyHierarchies', () => {
+      const opts = makeOptions();
+      const { result } = renderHook(() => useClipboard(opts));
+
+      act(() => result.current.cut(['a', 'b'], 'A\nB'));
+      act(() => result.current.paste('p', 1));
+      act(() => result.current.paste('q', 0));
+
+      expect(opts.postMessage).toHaveBeenNthCalledWith(1, {
+        request: 'request2bkg_moveHierarchies',
+        targetNodeIdsMVC: ['a', 'b'],
+        containerIdMVC: 'p',
+        position: 1,
+      });
+      expect(opts.postMessage).toHaveBeenNthCalledWith(2, {
+        request: 'request2bkg_copyHierarchies',
+        sourceIdsMVC: ['a', 'b'],
+        targetParentIdMVC: 'q',
+        targetPosition: 0,
+      });
+    });
+  });
 });
@@ -0,0 +1,122 @@
+/**
+ * Tests for the side panel's current-window data source.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/preact';
+import {
+  useCurrentWindow,
+  findFocusedWindow,
+  findChromeWindow,
+} from '../use-current-window';
+import { makeTree } from '../../__tests__/fixtures';
+import { getCurrentWindow } from '@/chrome/windows';
+import type { NodeDTO } from '@/types/node-dto';
+
+vi.mock('@/chrome/windows', () => ({
+  getCurrentWindow: vi.fn(),
+}));
+
+/**
+ * makeTree() with the given window flagged as focused. Windows get Chrome
+ * ids from their position: win1 is 1, and so on.
+ */
+function treeFocusedOn(idMVC: string | null): NodeDTO {
+  const root = makeTree();
+  return {
+    ...root,
+    subnodes: root.subnodes.map((w, i) => ({
+      ...w,
+      isFocusedWindow: w.idMVC === idMVC,
+      chromeWindowId: i + 1,
+    })),
+  };
+}
+
+beforeEach(() => {
+  vi.mocked(getCurrentWindow).mockResolvedValue(null);
+});
+
+describe('findFocusedWindow', () => {
+  it('finds the flagged window', () => {
+    expect(findFocusedWindow(treeFocusedOn('win3'))?.idMVC).toBe('win3');
+  });
+
+  it('finds a window nested inside a group', () => {
+    const root = treeFocusedOn('win1');
+    const nested = { ...root, subnodes: [{ ...root, idMVC: 'group' }] };
+    expect(findFocusedWindow(nested as NodeDTO)?.idMVC).toBe('win1');
+  });
+
+  it('returns null when no window is focused', () => {
+    expect(findFocusedWindow(treeFocusedOn(null))).toBeNull();
+  });
+});
+
+describe('findChromeWindow', () => {
+  it('finds the window with the Chrome id', () => {
+    expect(findChromeWindow(treeFocusedOn(null), 2)?.idMVC).toBe('win2');
+    expect(findChromeWindow(treeFocusedOn(null), 9)).toBeNull();
+  });
+});
+
+describe('useCurrentWindow', () => {
+  it('is null before the tree arrives', () => {
+    const { result } = renderHook(() => useCurrentWindow(null));
+    expect(result.current).toBeNull();
+  });
+
+  it('follows focus changes', () => {
+    const { result, rerender } = renderHook(
+      (root: NodeDTO) => useCurrentWindow(root),
+      { initialProps: treeFocusedOn('win1') },
+    );
+    expect(result.current?.idMVC).toBe('win1');
+
+    rerender(treeFocusedOn('win3'));
+    expect(result.current?.idMVC).toBe('win3');
+    expect(result.current?.subnodes.map((n) => n.idMVC)).toEqual(['tab3']);
+  });
+
+  it('keeps the last window while focus is outside Chrome', () => {
+    const { result, rerender } = renderHook(
+      (root: NodeDTO) => useCurrentWindow(root),
+      { initialProps: treeFocusedOn('win3') },
+    );
+
+    rerender(treeFocusedOn(null));
+    expect(result.current?.idMVC).toBe('win3');
+  });
+
+  it('drops the window once it leaves the tree', () => {
+    const { result, rerender } = renderHook(
+      (root: NodeDTO) => useCurrentWindow(root),
+      { initialProps: treeFocusedOn('win3') },
+    );
+
+    const root = treeFocusedOn(null);
+    rerender({ ...root, subnodes: root.subnodes.slice(0, 2) });
+    expect(result.current).toBeNull();
+  });
+
+  it("shows the panel's own window, not the focused one", async () => {
+    vi.mocked(getCurrentWindow).mockResolvedValue({ id: 2 });
+    const { result, rerender } = renderHook(
+      (root: NodeDTO) => useCurrentWindow(root),
+      { initialProps: treeFocusedOn('win1') },
+    );
+    await waitFor(() => expect(result.current?.idMVC).toBe('win2'));
+
+    rerender(treeFocusedOn('win3'));
+    expect(result.current?.idMVC).toBe('win2');
+  });
+
+  it('falls back to focus while its own window is not in the tree', async () => {
+    vi.mocked(getCurrentWindow).mockResolvedValue({ id: 9 });
+    const { result } = renderHook((root: NodeDTO) => useCurrentWindow(root), {
+      initialProps: treeFocusedOn('win3'),
+    });
+    await waitFor(() => expect(getCurrentWindow).toHaveBeenCalled());
+    expect(result.current?.idMVC).toBe('win3');
+  });
+});
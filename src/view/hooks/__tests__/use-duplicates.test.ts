@@ -0,0 +1,119 @@
+/**
+ * Tests for the duplicate review state hook.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import {
+  useDuplicates,
+  DUPLICATE_RESCAN_DELAY_MS,
+  type UseDuplicatesOptions,
+} from '../use-duplicates';
+import { makeTree } from '../../__tests__/fixtures';
+import {
+  DEFAULT_DUPLICATE_SCAN_OPTIONS,
+  type DuplicateGroup,
+} from '@/types/duplicates';
+
+function occurrence(idMVC: string) {
+  return {
+    idMVC,
+    nodeText: idMVC,
+    href: 'https://x.com/',
+    active: false,
+    containerText: '',
+  };
+}
+
+const GROUPS: DuplicateGroup[] = [
+  { url: 'https://x.com/', occurrences: ['a', 'b', 'c'].map(occurrence) },
+  { url: 'https://y.com/', occurrences: ['d', 'e'].map(occurrence) },
+];
+
+function setup(groups: DuplicateGroup[] | null = null) {
+  const postMessage = vi.fn();
+  const hook = renderHook(
+    (props: UseDuplicatesOptions) => useDuplicates(props),
+    { initialProps: { postMessage, root: makeTree(), groups } },
+  );
+  return { ...hook, postMessage };
+}
+
+const scan = (options = DEFAULT_DUPLICATE_SCAN_OPTIONS) => ({
+  request: 'request2bkg_findDuplicates',
+  options,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useDuplicates', () => {
+  it('does not scan while closed and unflagged', () => {
+    const { postMessage } = setup();
+    act(() => {
+      vi.advanceTimersByTime(DUPLICATE_RESCAN_DELAY_MS);
+    });
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('scans after opening and again when an option changes', () => {
+    const { result, postMessage } = setup();
+
+    act(() => result.current.toggle());
+    act(() => {
+      vi.advanceTimersByTime(DUPLICATE_RESCAN_DELAY_MS);
+    });
+    expect(postMessage).toHaveBeenLastCalledWith(scan());
+
+    act(() => result.current.setOption('ignoreFragment', false));
+    act(() => {
+      vi.advanceTimersByTime(DUPLICATE_RESCAN_DELAY_MS);
+    });
+    expect(postMessage).toHaveBeenLastCalledWith(
+      scan({ ...DEFAULT_DUPLICATE_SCAN_OPTIONS, ignoreFragment: false }),
+    );
+    expect(postMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('debounces rescans across a burst of tree changes', () => {
+    const { result, rerender, postMessage } = setup();
+    act(() => result.current.setFlagInTree(true));
+
+    for (let i = 0; i < 3; i++) {
+      rerender({ postMessage, root: makeTree(), groups: null });
+      act(() => {
+        vi.advanceTimersByTime(DUPLICATE_RESCAN_DELAY_MS / 2);
+      });
+    }
+    act(() => {
+      vi.advanceTimersByTime(DUPLICATE_RESCAN_DELAY_MS);
+    });
+    expect(postMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('exposes badge counts only while flagging', () => {
+    const { result } = setup(GROUPS);
+    expect(result.current.counts.size).toBe(0);
+
+    act(() => result.current.setFlagInTree(true));
+    expect(result.current.counts.get('a')).toBe(3);
+    expect(result.current.counts.get('e')).toBe(2);
+    expect(result.current.counts.has('z')).toBe(false);
+  });
+
+  it('keepOnly merges the rest of the group into the kept node', () => {
+    const { result, postMessage } = setup(GROUPS);
+
+    act(() => result.current.keepOnly(GROUPS[0], 'b'));
+    expect(postMessage).toHaveBeenCalledWith({
+      request: 'request2bkg_mergeDuplicates',
+      keepIdMVC: 'b',
+      removeIdsMVC: ['a', 'c'],
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import type { NodeApi } from 'react-arborist';
+import type { NodeDTO } from '@/types/node-dto';
+import { useSelection, selectionTargets } from '../use-selection';
+
+const nodes = (...ids: string[]) =>
+  ids.map((id) => ({ id }) as NodeApi<NodeDTO>);
+
+describe('selectionTargets', () => {
+  it('returns the whole selection when the node is part of it', () => {
+    expect(selectionTargets(['a', 'b'], 'b')).toEqual(['a', 'b']);
+  });
+
+  it('returns just the node when it is outside the selection', () => {
+    expect(selectionTargets(['a', 'b'], 'c')).toEqual(['c']);
+  });
+
+  it('returns just the node for a single selection', () => {
+    expect(selectionTargets(['a'], 'a')).toEqual(['a']);
+    expect(selectionTargets([], 'a')).toEqual(['a']);
+  });
+});
+
+describe('useSelection', () => {
+  it('mirrors the tree selection reported through onSelect', () => {
+    const { result } = renderHook(() => useSelection());
+    expect(result.current.selectedIds).toEqual([]);
+
+    act(() => result.current.onSelect(nodes('x', 'y')));
+    expect(result.current.selectedIds).toEqual(['x', 'y']);
+    expect(result.current.targetsFor('y')).toEqual(['x', 'y']);
+
+    act(() => result.current.onSelect([]));
+    expect(result.current.targetsFor('y')).toEqual(['y']);
+  });
+});
@@ -7,19 +7,26 @@ import {
   resetFixtureCounter,
 } from '../../__tests__/fixtures';
 import type { MvcId } from '@/types/brands';
+import type { ParentUpdateData } from '@/types/node-dto';
 import type {
   Msg_InitTreeView,
   Msg_NotifyObserverOnNodeUpdated,
-  Msg_NotifyObserver,
+  Msg_TreeDelta,
+  TreeDelta,
   Msg_SetCursorHere,
   Msg_ImportResult,
   Msg_ExportResult,
+  Msg_DuplicatesResult,
+  Msg_SearchResult,
   BackgroundToViewMessage,
 } from '@/types/messages';
 
+let lastSeq = 0;
+
 beforeEach(() => {
   resetFixtureCounter();
   vi.restoreAllMocks();
+  lastSeq = 0;
 });
 
 function makeInitMessage(root = makeTree()): Msg_InitTreeView {
@@ -28,32 +35,64 @@ function makeInitMessage(root = makeTree()): Msg_InitTreeView {
     rootNode_currentSession: root,
     globalViewId: 1,
     instanceId: 'test-instance',
+    deltaSeq: 0,
   };
 }
 
 function makeNodeUpdatedMessage(
   idMVC: string,
   overrides: Record<string, unknown> = {},
+  parentIdMVC: string | null = 'win1',
 ): Msg_NotifyObserverOnNodeUpdated {
   const node = makeNodeDTO({ idMVC: idMVC as MvcId, ...overrides });
   return {
     command: 'msg2view_notifyObserver_onNodeUpdated',
     idMVC,
+    parentIdMVC,
     modelDataCopy: node,
   };
 }
 
-function makeNotifyMessage(
-  idMVC: string,
-  eventName: string,
-): Msg_NotifyObserver {
+/** A delta under the next sequence number (init messages start at 0). */
+function makeDeltaMessage(delta: TreeDelta, seq = lastSeq + 1): Msg_TreeDelta {
+  lastSeq = seq;
+  return { command: 'msg2view_treeDelta', seq, delta };
+}
+
+function parentUpdate(
+  overrides: Partial<ParentUpdateData> = {},
+): ParentUpdateData {
   return {
-    command: 'msg2view_notifyObserver',
-    idMVC,
-    parameters: [eventName],
+    isSubnodesPresent: true,
+    isCollapsed: false,
+    subnodesStatBlock: null,
+    isProtectedFromGoneOnClose: false,
+    titleCssClass: 'defaultTitle',
+    titleBackgroundCssClass: 'windowFrame',
+    isSelectedTab: false,
+    isFocusedWindow: false,
+    nodeContentCssClass: '',
+    ...overrides,
   };
 }
 
+/** Remove `idMVC` from `parentIdMVC`, which keeps `remaining` children. */
+function makeRemoveMessage(
+  idMVC: string,
+  parentIdMVC: string,
+  remaining = 1,
+): Msg_TreeDelta {
+  return makeDeltaMessage({
+    op: 'remove',
+    idMVC,
+    parentIdMVC,
+    parentsUpdateData: {
+      [parentIdMVC]: parentUpdate({ isSubnodesPresent: remaining > 0 }),
+      root: parentUpdate(),
+    },
+  });
+}
+
 function makeCursorMessage(targetId: string): Msg_SetCursorHere {
   return {
     command: 'msg2view_setCursorHere',
@@ -118,7 +157,7 @@ describe('useTreeData', () => {
       // Set up a state that needs refresh
       act(() => result.current.handleMessage(makeInitMessage()));
       act(() => {
-        result.current.handleMessage(makeNotifyMessage('win1', 'onNodeMoved'));
+        result.current.handleMessage(makeRemoveMessage('tab1', 'win3'));
       });
       expect(result.current.state.needsFullRefresh).toBe(true);
 
@@ -137,6 +176,38 @@ describe('useTreeData', () => {
       act(() => result.current.handleMessage(makeInitMessage()));
       expect(result.current.state.selectedId).toBeNull();
     });
+
+    it('keeps an open editor whose node survives the re-init', () => {
+      const { result } = renderHook(() => useTreeData());
+
+      act(() => result.current.handleMessage(makeInitMessage()));
+      act(() =>
+        result.current.handleMessage({
+          command: 'msg2view_activateNodeNoteEditTextPrompt',
+          targetNodeIdMVC: 'tab1',
+          defaultText: '',
+        }),
+      );
+
+      act(() => result.current.handleMessage(makeInitMessage()));
+      expect(result.current.state.editingNode?.idMVC).toBe('tab1');
+    });
+
+    it('drops an open editor whose node is gone after re-init', () => {
+      const { result } = renderHook(() => useTreeData());
+
+      act(() => result.current.handleMessage(makeInitMessage()));
+      act(() =>
+        result.current.handleMessage({
+          command: 'msg2view_activateNodeNoteEditTextPrompt',
+          targetNodeIdMVC: 'gone',
+          defaultText: '',
+        }),
+      );
+
+      act(() => result.current.handleMessage(makeInitMessage()));
+      expect(result.current.state.editingNode).toBeNull();
+    });
   });
 
   describe('NODE_UPDATED (msg2view_notifyObserver_onNodeUpdated)', () => {
@@ -190,19 +261,60 @@ describe('useTreeData', () => {
       expect(result.current.state.root).not.toBe(rootBefore);
     });
 
-    it('sets needsFullRefresh for unknown node ID', () => {
+    it('ignores nodes the view does not hold (under a collapsed node)', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+      const rootBefore = result.current.state.root;
+
+      act(() => {
+        result.current.handleMessage(
+          makeNodeUpdatedMessage('hidden-tab', { nodeText: 'New Tab' }, 'win2'),
+        );
+      });
+
+      expect(result.current.state.root).toBe(rootBefore);
+      expect(result.current.state.needsFullRefresh).toBe(false);
+    });
+
+    it('resyncs when a node missing from the index sits under a shown parent', () => {
       const { result } = renderHook(() => useTreeData());
       act(() => result.current.handleMessage(makeInitMessage()));
 
       act(() => {
         result.current.handleMessage(
-          makeNodeUpdatedMessage('unknown-node', { nodeText: 'New Tab' }),
+          makeNodeUpdatedMessage('lost-tab', { nodeText: 'Lost' }, 'win1'),
         );
       });
 
       expect(result.current.state.needsFullRefresh).toBe(true);
     });
 
+    it('re-indexes the children an expand brings', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      const child = makeNodeDTO({ idMVC: 'saved1' as MvcId, nodeText: 'Kept' });
+      act(() => {
+        result.current.handleMessage(
+          makeNodeUpdatedMessage('win2', {
+            colapsed: false,
+            subnodes: [child],
+            isSubnodesPresent: true,
+          }),
+        );
+      });
+      act(() => {
+        result.current.handleMessage(
+          makeNodeUpdatedMessage('saved1', { nodeText: 'Renamed' }),
+        );
+      });
+
+      expect(result.current.state.root!.subnodes[1].subnodes[0].nodeText).toBe(
+        'Renamed',
+      );
+      expect(result.current.findMatches('renamed')).toEqual(['saved1']);
+    });
+
     it('does nothing before init', () => {
       const { result } = renderHook(() => useTreeData());
 
@@ -216,111 +328,212 @@ describe('useTreeData', () => {
     });
   });
 
-  describe('NODE_REMOVED (msg2view_notifyObserver → onNodeRemoved)', () => {
-    it('removes a node from its parent subnodes', () => {
+  describe('TREE_DELTA (msg2view_treeDelta)', () => {
+    const newTab = () =>
+      makeNodeDTO({ idMVC: 'tab9' as MvcId, nodeText: 'New Tab' });
+
+    it('inserts a node at its index and indexes it', () => {
       const { result } = renderHook(() => useTreeData());
       act(() => result.current.handleMessage(makeInitMessage()));
 
-      // win1 initially has tab1 and tab2
-      expect(result.current.state.root!.subnodes[0].subnodes).toHaveLength(2);
-
       act(() => {
         result.current.handleMessage(
-          makeNotifyMessage('tab1', 'onNodeRemoved'),
+          makeDeltaMessage({
+            op: 'insert',
+            parentIdMVC: 'win1',
+            index: 1,
+            node: newTab(),
+            parentsUpdateData: { win1: parentUpdate(), root: parentUpdate() },
+          }),
+        );
+      });
+      act(() => {
+        result.current.handleMessage(
+          makeNodeUpdatedMessage('tab9', { nodeText: 'Loaded docs' }),
         );
       });
 
       const win1 = result.current.state.root!.subnodes[0];
-      expect(win1.subnodes).toHaveLength(1);
-      expect(win1.subnodes[0].idMVC).toBe('tab2');
+      expect(win1.subnodes.map((n) => n.idMVC)).toEqual([
+        'tab1',
+        'tab9',
+        'tab2',
+      ]);
+      expect(win1.subnodes[1].nodeText).toBe('Loaded docs');
+      expect(result.current.findMatches('docs')).toEqual(['tab9', 'tab3']);
+      expect(result.current.state.needsFullRefresh).toBe(false);
+      expect(result.current.state.deltaSeq).toBe(1);
     });
 
-    it('ignores removal of unknown node', () => {
+    it('only patches a collapsed parent', () => {
       const { result } = renderHook(() => useTreeData());
       act(() => result.current.handleMessage(makeInitMessage()));
-
-      const rootBefore = result.current.state.root;
+      const stats = {
+        nodesCount: 3,
+        activeTabsCount: 0,
+        savedTabsCount: 3,
+        activeWinsCount: 0,
+        savedWinsCount: 0,
+        activeGroupsCount: 0,
+        savedGroupsCount: 0,
+        notesCount: 0,
+        separatorsCount: 0,
+        sessionsCount: 0,
+      };
 
       act(() => {
         result.current.handleMessage(
-          makeNotifyMessage('nonexistent', 'onNodeRemoved'),
+          makeDeltaMessage({
+            op: 'insert',
+            parentIdMVC: 'win2',
+            index: 2,
+            node: newTab(),
+            parentsUpdateData: {
+              win2: parentUpdate({
+                isCollapsed: true,
+                subnodesStatBlock: stats,
+              }),
+              root: parentUpdate(),
+            },
+          }),
         );
       });
 
-      // State unchanged (same reference)
-      expect(result.current.state.root).toBe(rootBefore);
+      const win2 = result.current.state.root!.subnodes[1];
+      expect(win2.subnodes).toEqual([]);
+      expect(win2.statsBlockData).toEqual(stats);
+      expect(result.current.state.needsFullRefresh).toBe(false);
     });
 
-    it('does nothing before init', () => {
+    it('removes a node and patches its parent', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      act(() =>
+        result.current.handleMessage(makeRemoveMessage('tab3', 'win3', 0)),
+      );
+
+      const win3 = result.current.state.root!.subnodes[2];
+      expect(win3.subnodes).toEqual([]);
+      expect(win3.isSubnodesPresent).toBe(false);
+      expect(result.current.findMatches('docs')).toEqual([]);
+    });
+
+    it('moves a node between parents', () => {
       const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
 
       act(() => {
         result.current.handleMessage(
-          makeNotifyMessage('tab1', 'onNodeRemoved'),
+          makeDeltaMessage({
+            op: 'move',
+            idMVC: 'tab3',
+            parentIdMVC: 'win1',
+            index: 0,
+            parentsUpdateData: { win1: parentUpdate(), root: parentUpdate() },
+            oldParentsUpdateData: {
+              win3: parentUpdate({ isSubnodesPresent: false }),
+              root: parentUpdate(),
+            },
+          }),
         );
       });
 
-      expect(result.current.state.root).toBeNull();
+      const [win1, , win3] = result.current.state.root!.subnodes;
+      expect(win1.subnodes.map((n) => n.idMVC)).toEqual([
+        'tab3',
+        'tab1',
+        'tab2',
+      ]);
+      expect(win3.subnodes).toEqual([]);
+      expect(result.current.findMatches('docs')).toEqual(['tab3']);
     });
 
-    it('ignores removal of the root node (not recoverable)', () => {
+    it('replaces a node, carrying the new idMVC', () => {
       const { result } = renderHook(() => useTreeData());
       act(() => result.current.handleMessage(makeInitMessage()));
 
-      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-
       act(() => {
         result.current.handleMessage(
-          makeNotifyMessage('root', 'onNodeRemoved'),
+          makeDeltaMessage({
+            op: 'replace',
+            idMVC: 'tab1',
+            parentIdMVC: 'win1',
+            node: makeNodeDTO({
+              idMVC: 'saved1' as MvcId,
+              previousIdMVC: 'tab1' as MvcId,
+              nodeText: 'GitHub (saved)',
+            }),
+            parentsUpdateData: { win1: parentUpdate(), root: parentUpdate() },
+          }),
         );
       });
 
-      // Root should be preserved, not null or needsFullRefresh
-      expect(result.current.state.root).not.toBeNull();
-      expect(result.current.state.root!.idMVC).toBe('root');
-      expect(result.current.state.needsFullRefresh).toBe(false);
-      expect(errorSpy).toHaveBeenCalledWith(
-        'useTreeData: received NODE_REMOVED for root node',
-      );
+      const win1 = result.current.state.root!.subnodes[0];
+      expect(win1.subnodes.map((n) => n.idMVC)).toEqual(['saved1', 'tab2']);
+      expect(result.current.findMatches('github')).toEqual(['saved1']);
     });
-  });
-
-  describe('FULL_REFRESH_NEEDED triggers', () => {
-    const structuralEvents = [
-      'onNodeMoved',
-      'onNodeReplaced',
-      'onWindowClosed',
-      'onParentUpdated',
-    ];
 
-    it.each(structuralEvents)('sets needsFullRefresh for %s', (eventName) => {
+    it('resyncs when a node the view should hold is missing', () => {
       const { result } = renderHook(() => useTreeData());
       act(() => result.current.handleMessage(makeInitMessage()));
 
-      act(() => {
-        result.current.handleMessage(makeNotifyMessage('win1', eventName));
-      });
+      act(() =>
+        result.current.handleMessage(makeRemoveMessage('tab7', 'win1')),
+      );
 
       expect(result.current.state.needsFullRefresh).toBe(true);
     });
 
-    it('sets needsFullRefresh for unknown observer event', () => {
+    it('resyncs on a sequence gap and drops deltas until re-init', () => {
       const { result } = renderHook(() => useTreeData());
       act(() => result.current.handleMessage(makeInitMessage()));
-
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
 
       act(() => {
+        result.current.handleMessage(makeRemoveMessage('tab1', 'win1'));
         result.current.handleMessage(
-          makeNotifyMessage('win1', 'onSomethingUnexpected'),
+          makeDeltaMessage(
+            {
+              op: 'remove',
+              idMVC: 'tab2',
+              parentIdMVC: 'win1',
+              parentsUpdateData: {},
+            },
+            3,
+          ),
         );
       });
-
       expect(result.current.state.needsFullRefresh).toBe(true);
       expect(warnSpy).toHaveBeenCalledWith(
-        'useTreeData: unknown observer event',
-        'onSomethingUnexpected',
+        'useTreeData: missed tree deltas (1 → 3)',
+      );
+
+      const rootBefore = result.current.state.root;
+      act(() =>
+        result.current.handleMessage(makeRemoveMessage('tab3', 'win3')),
+      );
+      expect(result.current.state.root).toBe(rootBefore);
+
+      act(() =>
+        result.current.handleMessage({ ...makeInitMessage(), deltaSeq: 4 }),
       );
+      expect(result.current.state.needsFullRefresh).toBe(false);
+      act(() =>
+        result.current.handleMessage(makeRemoveMessage('tab3', 'win3')),
+      );
+      expect(result.current.state.root!.subnodes[2].subnodes).toEqual([]);
+    });
+
+    it('does nothing before init', () => {
+      const { result } = renderHook(() => useTreeData());
+
+      act(() =>
+        result.current.handleMessage(makeRemoveMessage('tab1', 'win1')),
+      );
+
+      expect(result.current.state.root).toBeNull();
+      expect(result.current.state.needsFullRefresh).toBe(false);
     });
   });
 
@@ -396,9 +609,7 @@ describe('useTreeData', () => {
 
       // Remove tab1
       act(() => {
-        result.current.handleMessage(
-          makeNotifyMessage('tab1', 'onNodeRemoved'),
-        );
+        result.current.handleMessage(makeRemoveMessage('tab1', 'win1'));
       });
 
       // Update tab2 (now the only child of win1)
@@ -429,9 +640,7 @@ describe('useTreeData', () => {
         );
       });
       act(() => {
-        result.current.handleMessage(
-          makeNotifyMessage('tab1', 'onNodeRemoved'),
-        );
+        result.current.handleMessage(makeRemoveMessage('tab1', 'win1'));
       });
       act(() => {
         result.current.handleMessage(
@@ -464,9 +673,7 @@ describe('useTreeData', () => {
         );
       });
       act(() => {
-        result.current.handleMessage(
-          makeNotifyMessage('tab2', 'onNodeRemoved'),
-        );
+        result.current.handleMessage(makeRemoveMessage('tab2', 'win1'));
       });
 
       // Re-init with fresh tree
@@ -651,5 +858,162 @@ describe('useTreeData', () => {
 
       expect(result.current.state.exportHtml).toBeNull();
     });
+
+    it('stores and clears a bookmark file export', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      act(() => {
+        result.current.handleMessage({
+          command: 'msg2view_exportResult',
+          success: true,
+          bookmarksHtml: '<DL><p></DL><p>',
+        } as Msg_ExportResult);
+      });
+      expect(result.current.state.exportBookmarks).toBe('<DL><p></DL><p>');
+      expect(result.current.state.exportHtml).toBeNull();
+
+      act(() => result.current.clearExportBookmarks());
+
+      expect(result.current.state.exportBookmarks).toBeNull();
+    });
+
+    it('stores Markdown (even empty) and OPML exports until cleared', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      act(() => {
+        result.current.handleMessage({
+          command: 'msg2view_exportResult',
+          success: true,
+          treeMarkdown: '',
+        } as Msg_ExportResult);
+        result.current.handleMessage({
+          command: 'msg2view_exportResult',
+          success: true,
+          treeOpml: '<opml version="2.0"></opml>',
+        } as Msg_ExportResult);
+      });
+      expect(result.current.state.exportMarkdown).toBe('');
+      expect(result.current.state.exportOpml).toBe(
+        '<opml version="2.0"></opml>',
+      );
+      expect(result.current.state.exportError).toBeNull();
+
+      act(() => {
+        result.current.clearExportMarkdown();
+        result.current.clearExportOpml();
+      });
+
+      expect(result.current.state.exportMarkdown).toBeNull();
+      expect(result.current.state.exportOpml).toBeNull();
+    });
+  });
+
+  describe('DUPLICATES_RESULT (msg2view_duplicatesResult)', () => {
+    it('starts with no analysis', () => {
+      const { result } = renderHook(() => useTreeData());
+      expect(result.current.state.duplicateGroups).toBeNull();
+    });
+
+    it('stores the latest groups, replacing earlier ones', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      const groups: Msg_DuplicatesResult['groups'] = [
+        {
+          url: 'https://example.com/',
+          occurrences: [
+            {
+              idMVC: 'a',
+              nodeText: 'Example',
+              href: 'https://example.com/',
+              active: true,
+              containerText: 'Window',
+            },
+            {
+              idMVC: 'b',
+              nodeText: 'Example',
+              href: 'https://example.com/#top',
+              active: false,
+              containerText: 'Group',
+            },
+          ],
+        },
+      ];
+      act(() => {
+        result.current.handleMessage({
+          command: 'msg2view_duplicatesResult',
+          groups,
+        } as Msg_DuplicatesResult);
+      });
+      expect(result.current.state.duplicateGroups).toEqual(groups);
+
+      act(() => {
+        result.current.handleMessage({
+          command: 'msg2view_duplicatesResult',
+          groups: [],
+        } as Msg_DuplicatesResult);
+      });
+      expect(result.current.state.duplicateGroups).toEqual([]);
+    });
+  });
+
+  describe('SEARCH_RESULT (msg2view_searchResult)', () => {
+    it('stores the latest answer with its query', () => {
+      const { result } = renderHook(() => useTreeData());
+      expect(result.current.state.searchResult).toBeNull();
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      act(() => {
+        result.current.handleMessage({
+          command: 'msg2view_searchResult',
+          query: 'docs',
+          matchIds: ['tab3', 'hidden'],
+        } as Msg_SearchResult);
+      });
+      expect(result.current.state.searchResult).toEqual({
+        query: 'docs',
+        matchIds: ['tab3', 'hidden'],
+      });
+    });
+  });
+
+  describe('findMatches', () => {
+    it('returns matching ids in display order', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      expect(result.current.findMatches('window')).toEqual(['win1', 'win2']);
+      expect(result.current.findMatches('docs')).toEqual(['tab3']);
+    });
+
+    it('returns empty for a blank query', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      expect(result.current.findMatches('   ')).toEqual([]);
+    });
+
+    it('reflects node updates', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      act(() => {
+        result.current.handleMessage(
+          makeNodeUpdatedMessage('tab1', { nodeText: 'Renamed docs page' }),
+        );
+      });
+
+      expect(result.current.findMatches('docs')).toEqual(['tab1', 'tab3']);
+    });
+
+    it('never matches the root node', () => {
+      const { result } = renderHook(() => useTreeData());
+      act(() => result.current.handleMessage(makeInitMessage()));
+
+      // makeTree's root is titled "Session Root"
+      expect(result.current.findMatches('session')).toEqual([]);
+    });
   });
 });
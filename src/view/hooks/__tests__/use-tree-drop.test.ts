@@ -34,8 +34,14 @@ function makeOptions(
     importResult: null,
     exportJson: null,
     exportHtml: null,
+    exportBookmarks: null,
+    exportMarkdown: null,
+    exportOpml: null,
     clearExport: vi.fn(),
     clearExportHtml: vi.fn(),
+    clearExportBookmarks: vi.fn(),
+    clearExportMarkdown: vi.fn(),
+    clearExportOpml: vi.fn(),
     ...overrides,
   };
 }
@@ -250,5 +256,58 @@ describe('useTreeDrop', () => {
       expect(anchor.download).toMatch(/\.html$/);
       expect(anchor.href).toBe('blob:test-html');
     });
+
+    it('downloads a bookmark file when exportBookmarks is set', () => {
+      const clearExportBookmarks = vi.fn();
+      vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:test-bookmarks');
+      vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+      const appendSpy = vi.spyOn(document.body, 'appendChild');
+
+      renderHook(() =>
+        useTreeDrop(
+          makeOptions({
+            exportBookmarks: '<DL><p></DL><p>',
+            clearExportBookmarks,
+          }),
+        ),
+      );
+
+      expect(clearExportBookmarks).toHaveBeenCalledTimes(1);
+      const anchorCall = appendSpy.mock.calls.find(
+        ([el]) => (el as HTMLElement).tagName === 'A',
+      );
+      const anchor = anchorCall![0] as HTMLAnchorElement;
+      expect(anchor.download).toMatch(/^tabs-outliner-bookmarks-.*\.html$/);
+    });
+
+    it('downloads Markdown and OPML outlines, even an empty Markdown list', () => {
+      const clearExportMarkdown = vi.fn();
+      const clearExportOpml = vi.fn();
+      vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:test-outline');
+      vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+      const appendSpy = vi.spyOn(document.body, 'appendChild');
+
+      renderHook(() =>
+        useTreeDrop(
+          makeOptions({
+            exportMarkdown: '',
+            exportOpml: '<opml version="2.0"></opml>',
+            clearExportMarkdown,
+            clearExportOpml,
+          }),
+        ),
+      );
+
+      expect(clearExportMarkdown).toHaveBeenCalledTimes(1);
+      expect(clearExportOpml).toHaveBeenCalledTimes(1);
+      const downloads = appendSpy.mock.calls
+        .map(([el]) => el as HTMLElement)
+        .filter((el): el is HTMLAnchorElement => el.tagName === 'A')
+        .map((a) => a.download);
+      expect(downloads).toEqual([
+        expect.stringMatching(/^tabs-outliner-outline-.*\.md$/),
+        expect.stringMatching(/^tabs-outliner-outline-.*\.opml$/),
+      ]);
+    });
   });
 });
@@ -0,0 +1,190 @@
+/**
+ * Tests for the search/filter state hook.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/preact';
+import {
+  useTreeSearch,
+  SEARCH_QUERY_DELAY_MS,
+  type UseTreeSearchOptions,
+} from '../use-tree-search';
+import { makeTree } from '../../__tests__/fixtures';
+
+function setup(hits: string[] = ['a', 'b', 'c']) {
+  const postMessage = vi.fn();
+  const findMatches = vi.fn((query: string) => (query.trim() ? hits : []));
+  // The view's index holds a–d; anything else has no row.
+  const hasNode = vi.fn((id: string) => ['a', 'b', 'c', 'd'].includes(id));
+  const initialProps: UseTreeSearchOptions = {
+    postMessage,
+    root: makeTree(),
+    findMatches,
+    hasNode,
+    result: null,
+  };
+  const hook = renderHook(
+    (props: UseTreeSearchOptions) => useTreeSearch(props),
+    { initialProps },
+  );
+  return { ...hook, initialProps, postMessage };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useTreeSearch', () => {
+  it('starts inactive with no hits', () => {
+    const { result } = setup();
+    expect(result.current.isActive).toBe(false);
+    expect(result.current.matchIds).toEqual([]);
+    expect(result.current.currentId).toBeNull();
+  });
+
+  it('parses terms and exposes hits for a query', () => {
+    const { result } = setup();
+    act(() => result.current.setQuery('Foo Bar'));
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.terms).toEqual(['foo', 'bar']);
+    expect(result.current.matchIds).toEqual(['a', 'b', 'c']);
+    expect(result.current.matchSet.has('b')).toBe(true);
+  });
+
+  it('is active for an age filter alone, with nothing to highlight', () => {
+    const { result } = setup();
+    act(() => result.current.setQuery('older:90d'));
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.terms).toEqual([]);
+  });
+
+  it('next walks hits forward and wraps around', () => {
+    const { result } = setup();
+    act(() => result.current.setQuery('x'));
+
+    const visited: (string | null)[] = [];
+    for (let i = 0; i < 4; i++) {
+      act(() => {
+        visited.push(result.current.next());
+      });
+    }
+    expect(visited).toEqual(['a', 'b', 'c', 'a']);
+    expect(result.current.currentId).toBe('a');
+  });
+
+  it('prev from the start jumps to the last hit', () => {
+    const { result } = setup();
+    act(() => result.current.setQuery('x'));
+
+    let id: string | null = null;
+    act(() => {
+      id = result.current.prev();
+    });
+    expect(id).toBe('c');
+    expect(result.current.currentIndex).toBe(2);
+  });
+
+  it('next returns null when there are no hits', () => {
+    const { result } = setup([]);
+    act(() => result.current.setQuery('x'));
+
+    let id: string | null = 'unset';
+    act(() => {
+      id = result.current.next();
+    });
+    expect(id).toBeNull();
+  });
+
+  it('changing the query resets the current hit', () => {
+    const { result } = setup();
+    act(() => result.current.setQuery('x'));
+    act(() => {
+      result.current.next();
+    });
+    expect(result.current.currentId).toBe('a');
+
+    act(() => result.current.setQuery('xy'));
+    expect(result.current.currentIndex).toBe(-1);
+    expect(result.current.currentId).toBeNull();
+  });
+
+  it('clear empties the query', () => {
+    const { result } = setup();
+    act(() => result.current.setQuery('x'));
+    act(() => result.current.clear());
+    expect(result.current.query).toBe('');
+    expect(result.current.isActive).toBe(false);
+    expect(result.current.matchIds).toEqual([]);
+  });
+
+  describe('full-tree query', () => {
+    it('asks the background once typing settles', () => {
+      vi.useFakeTimers();
+      const { result, postMessage } = setup();
+      act(() => result.current.setQuery('f'));
+      act(() => result.current.setQuery('foo'));
+      act(() => {
+        vi.advanceTimersByTime(SEARCH_QUERY_DELAY_MS);
+      });
+      expect(postMessage).toHaveBeenCalledTimes(1);
+      expect(postMessage).toHaveBeenCalledWith({
+        request: 'request2bkg_searchTree',
+        query: 'foo',
+      });
+    });
+
+    it('does not query while inactive', () => {
+      vi.useFakeTimers();
+      const { postMessage } = setup();
+      act(() => {
+        vi.advanceTimersByTime(SEARCH_QUERY_DELAY_MS);
+      });
+      expect(postMessage).not.toHaveBeenCalled();
+    });
+
+    it('does not ask again when the tree changes', () => {
+      vi.useFakeTimers();
+      const { result, rerender, initialProps, postMessage } = setup();
+      act(() => result.current.setQuery('foo'));
+      act(() => {
+        vi.advanceTimersByTime(SEARCH_QUERY_DELAY_MS);
+      });
+
+      rerender({ ...initialProps, root: makeTree() });
+      act(() => {
+        vi.advanceTimersByTime(SEARCH_QUERY_DELAY_MS);
+      });
+      expect(postMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('refresh asks again for the current query', () => {
+      const { result, postMessage } = setup();
+      act(() => result.current.setQuery('foo'));
+      act(() => result.current.refresh());
+      expect(postMessage).toHaveBeenCalledWith({
+        request: 'request2bkg_searchTree',
+        query: 'foo',
+      });
+    });
+
+    it('merges in the hidden hits from the answer to the current query', () => {
+      const { result, rerender, initialProps } = setup();
+      act(() => result.current.setQuery('foo'));
+
+      rerender({
+        ...initialProps,
+        result: { query: 'fo', matchIds: ['stale'] },
+      });
+      expect(result.current.matchIds).toEqual(['a', 'b', 'c']);
+
+      // 'd' is shown but no longer matches; 'c' started matching after
+      // the answer was sent.
+      rerender({
+        ...initialProps,
+        result: { query: 'foo', matchIds: ['a', 'hidden', 'b', 'd'] },
+      });
+      expect(result.current.matchIds).toEqual(['a', 'hidden', 'b', 'c']);
+      expect(result.current.matchSet.has('hidden')).toBe(true);
+    });
+  });
+});
@@ -1,20 +1,28 @@
 /**
  * In-memory clipboard for cut/copy/paste of tree node hierarchies.
  *
- * - Cut: stores source idMVC; paste moves the node (moveHierarchy).
- * - Copy: stores source idMVC; paste clones the node (copyHierarchy).
+ * - Cut: stores source idMVCs; paste moves the nodes (moveHierarchy, or
+ *   moveHierarchies for a multi-selection).
+ * - Copy: stores source idMVCs; paste clones the nodes (copyHierarchy /
+ *   copyHierarchies).
  * - Also writes plain text to the OS clipboard via navigator.clipboard
  *   for external interoperability (best-effort, no clipboardRead permission).
  */
 
 import { useCallback, useRef, useState } from 'react';
 import type { ViewToBackgroundMessage } from '@/types/messages';
-import { moveHierarchy, copyHierarchy } from '../tree-actions';
+import {
+  moveHierarchy,
+  copyHierarchy,
+  moveHierarchies,
+  copyHierarchies,
+} from '../tree-actions';
 
 export type ClipboardKind = 'cut' | 'copy';
 
 export interface ClipboardEntry {
-  sourceIdMVC: string;
+  /** One id, or the multi-selection the cut/copy was made on. */
+  sourceIdMVCs: readonly string[];
   kind: ClipboardKind;
 }
 
@@ -23,8 +31,8 @@ export interface UseClipboardOptions {
 }
 
 export interface UseClipboardReturn {
-  cut: (idMVC: string, nodeText: string) => void;
-  copy: (idMVC: string, nodeText: string) => void;
+  cut: (idsMVC: readonly string[], nodeText: string) => void;
+  copy: (idsMVC: readonly string[], nodeText: string) => void;
   paste: (targetParentIdMVC: string | null, targetPosition: number) => void;
   hasClipboard: boolean;
   /**
@@ -48,16 +56,16 @@ export function useClipboard({
   const [entry, setEntry] = useState<ClipboardEntry | null>(null);
   const entryRef = useRef<ClipboardEntry | null>(null);
 
-  const cut = useCallback((idMVC: string, nodeText: string) => {
-    const next: ClipboardEntry = { sourceIdMVC: idMVC, kind: 'cut' };
+  const cut = useCallback((idsMVC: readonly string[], nodeText: string) => {
+    const next: ClipboardEntry = { sourceIdMVCs: idsMVC, kind: 'cut' };
     entryRef.current = next;
     setEntry(next);
     // Write plain text to the OS clipboard for external interop (best-effort).
     navigator.clipboard.writeText(nodeText).catch(() => {});
   }, []);
 
-  const copy = useCallback((idMVC: string, nodeText: string) => {
-    const next: ClipboardEntry = { sourceIdMVC: idMVC, kind: 'copy' };
+  const copy = useCallback((idsMVC: readonly string[], nodeText: string) => {
+    const next: ClipboardEntry = { sourceIdMVCs: idsMVC, kind: 'copy' };
     entryRef.current = next;
     setEntry(next);
     navigator.clipboard.writeText(nodeText).catch(() => {});
@@ -67,10 +75,14 @@ export function useClipboard({
     (targetParentIdMVC: string | null, targetPosition: number) => {
       const e = entryRef.current;
       if (!e) return;
+      const [single] = e.sourceIdMVCs;
+      const isBatch = e.sourceIdMVCs.length > 1;
 
       if (e.kind === 'cut') {
         postMessage(
-          moveHierarchy(e.sourceIdMVC, targetParentIdMVC, targetPosition),
+          isBatch
+            ? moveHierarchies(e.sourceIdMVCs, targetParentIdMVC, targetPosition)
+            : moveHierarchy(single, targetParentIdMVC, targetPosition),
         );
         // Transition cut → copy after the move fires. The node keeps its
         // idMVC at the new location, so subsequent pastes clone from there
@@ -80,14 +92,16 @@ export function useClipboard({
         // just-moved node) and feels broken. Visual: the dashed outline
         // drops on the next render, the blue tint persists.
         const next: ClipboardEntry = {
-          sourceIdMVC: e.sourceIdMVC,
+          sourceIdMVCs: e.sourceIdMVCs,
           kind: 'copy',
         };
         entryRef.current = next;
         setEntry(next);
       } else {
         postMessage(
-          copyHierarchy(e.sourceIdMVC, targetParentIdMVC, targetPosition),
+          isBatch
+            ? copyHierarchies(e.sourceIdMVCs, targetParentIdMVC, targetPosition)
+            : copyHierarchy(single, targetParentIdMVC, targetPosition),
         );
         // Copy keeps the entry so the user can paste multiple times.
       }
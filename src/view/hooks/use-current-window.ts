@@ -0,0 +1,84 @@
+/**
+ * Data source for the side panel: the subtree of the current Chrome window.
+ *
+ * "Current" is the window the panel itself is shown in, resolved once
+ * through `windows.getCurrent()` and matched by Chrome window id — each
+ * browser window has its own panel, so it must not follow focus into
+ * another one. Until that resolves, or while the panel's window is not in
+ * the tree, it falls back to the window the background reports as focused
+ * (handleWindowFocusChanged keeps `isFocusedWindow` up to date on every
+ * window DTO). While focus is outside Chrome or on an untracked window
+ * (DevTools, popups) no window is flagged, and the panel keeps showing the
+ * last one.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { getCurrentWindow } from '@/chrome/windows';
+import type { NodeDTO } from '@/types/node-dto';
+
+/** First node in pre-order that satisfies `match`. */
+function findNode(
+  root: NodeDTO,
+  match: (node: NodeDTO) => boolean,
+): NodeDTO | null {
+  if (match(root)) return root;
+  for (const child of root.subnodes) {
+    const found = findNode(child, match);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** First node flagged as the focused window, in pre-order. */
+export function findFocusedWindow(root: NodeDTO): NodeDTO | null {
+  return findNode(root, (node) => node.isFocusedWindow);
+}
+
+/** The open window node with the given Chrome window id. */
+export function findChromeWindow(
+  root: NodeDTO,
+  windowId: number,
+): NodeDTO | null {
+  return findNode(root, (node) => node.chromeWindowId === windowId);
+}
+
+/** The current window's DTO, or null until one is known. */
+export function useCurrentWindow(root: NodeDTO | null): NodeDTO | null {
+  const [ownWindowId, setOwnWindowId] = useState<number | null>(null);
+  const [lastWindowId, setLastWindowId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCurrentWindow()
+      .then((win) => {
+        if (!cancelled && win?.id !== undefined) setOwnWindowId(win.id);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // The tree walks only rerun when a new root arrives.
+  const own = useMemo(
+    () =>
+      root && ownWindowId !== null ? findChromeWindow(root, ownWindowId) : null,
+    [root, ownWindowId],
+  );
+  const focused = useMemo(
+    () => (root && !own ? findFocusedWindow(root) : null),
+    [root, own],
+  );
+
+  const current = own ?? focused;
+  // "Update during render" pattern: remember the shown window without
+  // an extra effect pass.
+  if (current && current.idMVC !== lastWindowId) {
+    setLastWindowId(current.idMVC);
+  }
+
+  if (current) return current;
+  return root && lastWindowId
+    ? findNode(root, (node) => node.idMVC === lastWindowId)
+    : null;
+}
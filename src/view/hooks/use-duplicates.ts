@@ -0,0 +1,119 @@
+/**
+ * Duplicate review state for the tree view.
+ *
+ * The analysis itself runs in the background (findDuplicateGroups over the
+ * TreeModel); this hook owns the scan options, decides when to ask for a
+ * fresh result and turns the reply into what the panel and NodeRow need.
+ * While the panel is open or duplicates are flagged in the tree, every
+ * tree change triggers a rescan, debounced so a burst of tab updates
+ * (page loads, bulk deletes) costs one round-trip.
+ */
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { NodeDTO } from '@/types/node-dto';
+import type { ViewToBackgroundMessage } from '@/types/messages';
+import {
+  DEFAULT_DUPLICATE_SCAN_OPTIONS,
+  type DuplicateGroup,
+  type DuplicateScanOptions,
+} from '@/types/duplicates';
+import { findDuplicates, mergeDuplicates } from '../tree-actions';
+
+/** Quiet period after the last tree change before rescanning. */
+export const DUPLICATE_RESCAN_DELAY_MS = 300;
+
+const NO_GROUPS: readonly DuplicateGroup[] = [];
+const NO_COUNTS: ReadonlyMap<string, number> = new Map();
+
+export interface UseDuplicatesOptions {
+  postMessage: (msg: ViewToBackgroundMessage) => void;
+  /** Current tree root — a new root means the tree changed. */
+  root: NodeDTO | null;
+  /** Latest analysis from useTreeData, or null before the first scan. */
+  groups: readonly DuplicateGroup[] | null;
+}
+
+export interface UseDuplicatesReturn {
+  isOpen: boolean;
+  toggle: () => void;
+  close: () => void;
+  options: DuplicateScanOptions;
+  setOption: (key: keyof DuplicateScanOptions, value: boolean) => void;
+  /** Show a badge on every duplicated row in the tree. */
+  flagInTree: boolean;
+  setFlagInTree: (flag: boolean) => void;
+  groups: readonly DuplicateGroup[];
+  /** idMVC → size of its duplicate group. Empty unless flagInTree. */
+  counts: ReadonlyMap<string, number>;
+  /** Remove every occurrence in `group` except `keepIdMVC`. */
+  keepOnly: (group: DuplicateGroup, keepIdMVC: string) => void;
+}
+
+export function useDuplicates({
+  postMessage,
+  root,
+  groups,
+}: UseDuplicatesOptions): UseDuplicatesReturn {
+  const [isOpen, setIsOpen] = useState(false);
+  const [flagInTree, setFlagInTree] = useState(false);
+  const [options, setOptions] = useState<DuplicateScanOptions>(
+    DEFAULT_DUPLICATE_SCAN_OPTIONS,
+  );
+
+  const isScanning = isOpen || flagInTree;
+
+  // `root` is a dependency on purpose: it is replaced on every tree change.
+  useEffect(() => {
+    if (!isScanning || !root) return;
+    const timer = setTimeout(
+      () => postMessage(findDuplicates(options)),
+      DUPLICATE_RESCAN_DELAY_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [isScanning, root, options, postMessage]);
+
+  const toggle = useCallback(() => setIsOpen((open) => !open), []);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  const setOption = useCallback(
+    (key: keyof DuplicateScanOptions, value: boolean) =>
+      setOptions((prev) => ({ ...prev, [key]: value })),
+    [],
+  );
+
+  const counts = useMemo(() => {
+    if (!flagInTree || !groups) return NO_COUNTS;
+    const map = new Map<string, number>();
+    for (const group of groups) {
+      for (const occurrence of group.occurrences) {
+        map.set(occurrence.idMVC, group.occurrences.length);
+      }
+    }
+    return map;
+  }, [flagInTree, groups]);
+
+  const keepOnly = useCallback(
+    (group: DuplicateGroup, keepIdMVC: string) => {
+      const removeIds = group.occurrences
+        .map((occurrence) => occurrence.idMVC)
+        .filter((id) => id !== keepIdMVC);
+      if (removeIds.length > 0) {
+        postMessage(mergeDuplicates(keepIdMVC, removeIds));
+      }
+    },
+    [postMessage],
+  );
+
+  return {
+    isOpen,
+    toggle,
+    close,
+    options,
+    setOption,
+    flagInTree,
+    setFlagInTree,
+    groups: groups ?? NO_GROUPS,
+    counts,
+    keepOnly,
+  };
+}
@@ -7,7 +7,14 @@
  *  - editingId is set in tree state
  *
  * Shortcuts use the cursor node (selectedId) as the target. If no node
- * is selected, only Escape (close context menu) is handled.
+ * is selected, only Escape (close context menu), undo/redo (Ctrl+Z /
+ * Ctrl+Shift+Z), note-at-end-of-tree (e) and the search shortcuts
+ * (Ctrl+F, F3 / Shift+F3) are handled. Ctrl+F also works while another
+ * input has focus, so it can jump from anywhere into the search box.
+ *
+ * Shift+ArrowUp/Down extend a range selection from the cursor. While the
+ * target node is part of a multi-selection, cut/copy, Delete, Backspace
+ * and `o` act on the whole selection.
  */
 
 import { useEffect } from 'react';
@@ -15,34 +22,51 @@ import type { TreeApi } from 'react-arborist';
 import type { NodeDTO } from '@/types/node-dto';
 import type { ViewToBackgroundMessage } from '@/types/messages';
 import type { UseClipboardReturn } from './use-clipboard';
+import { selectionTargets } from './use-selection';
 import {
   executeAction,
+  executeActionOnNodes,
   activateNode,
+  restoreNodes,
   toggleCollapse,
   moveHierarchy,
+  undo,
+  redo,
+  addNote,
 } from '../tree-actions';
 
+const NO_SELECTION: readonly string[] = [];
+
 export interface UseKeyboardShortcutsOptions {
   treeRef: React.RefObject<TreeApi<NodeDTO> | null>;
   postMessage: (msg: ViewToBackgroundMessage) => void;
   selectedId: string | null;
+  /** idMVCs of the multi-selection (see useSelection). */
+  multiSelection?: readonly string[];
   /** Ref to the last deliberately interacted-with node. Stable target independent of mouse position. */
   lastKeyboardTargetId: { current: string | null };
   editingId: string | null;
   clipboard: UseClipboardReturn;
   closeContextMenu: () => void;
   contextMenuOpen: boolean;
+  /** Focus the search box (Ctrl+F). Omit to leave Ctrl+F to the browser. */
+  onFocusSearch?: () => void;
+  /** Jump to the next (1) or previous (-1) search hit (F3 / Shift+F3). */
+  onSearchStep?: (direction: 1 | -1) => void;
 }
 
 export function useKeyboardShortcuts({
   treeRef,
   postMessage,
   selectedId,
+  multiSelection = NO_SELECTION,
   lastKeyboardTargetId,
   editingId,
   clipboard,
   closeContextMenu,
   contextMenuOpen,
+  onFocusSearch,
+  onSearchStep,
 }: UseKeyboardShortcutsOptions): void {
   useEffect(() => {
     // Throttle move operations: react-arborist's node tree (prev/parent/children)
@@ -52,9 +76,45 @@ export function useKeyboardShortcuts({
     let moveCooldownUntil = 0;
 
     const handler = (e: KeyboardEvent) => {
+      if (editingId) return;
+      if (
+        onFocusSearch &&
+        e.ctrlKey &&
+        !e.shiftKey &&
+        !e.altKey &&
+        e.key === 'f'
+      ) {
+        e.preventDefault();
+        e.stopPropagation();
+        onFocusSearch();
+        return;
+      }
       const tag = (document.activeElement as HTMLElement | null)?.tagName ?? '';
       if (tag === 'INPUT' || tag === 'TEXTAREA') return;
-      if (editingId) return;
+
+      if (onSearchStep && e.key === 'F3' && !e.ctrlKey && !e.altKey) {
+        e.preventDefault();
+        e.stopPropagation();
+        onSearchStep(e.shiftKey ? -1 : 1);
+        return;
+      }
+
+      // Undo history lives in the background and is shared by all views,
+      // so these don't need a target node. With Shift held e.key is 'Z'.
+      if (e.ctrlKey && !e.altKey && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        e.stopPropagation();
+        postMessage(e.shiftKey ? redo() : undo());
+        return;
+      }
+
+      // A note at the end of the tree needs no cursor node.
+      if (!e.ctrlKey && !e.shiftKey && !e.altKey && e.key === 'e') {
+        e.preventDefault();
+        e.stopPropagation();
+        postMessage(addNote('endOfTree', null));
+        return;
+      }
 
       // Escape cancels the most recent transient state, in priority order:
       // open context menu first, then a pending cut/copy. Without the
@@ -85,6 +145,12 @@ export function useKeyboardShortcuts({
         ? null
         : (arboristNode.parent?.id ?? null);
       const idx = arboristNode.childIndex;
+      const targets = selectionTargets(multiSelection, idMVC);
+      const isBatch = targets.length > 1;
+      const targetsText = () =>
+        targets
+          .map((id) => treeRef.current?.get(id)?.data.nodeText ?? '')
+          .join('\n');
 
       let handled = true;
       const isMoveKey =
@@ -105,10 +171,10 @@ export function useKeyboardShortcuts({
       if (e.ctrlKey && !e.shiftKey && !e.altKey) {
         switch (e.key) {
           case 'x':
-            clipboard.cut(idMVC, arboristNode.data.nodeText ?? '');
+            clipboard.cut(targets, targetsText());
             break;
           case 'c':
-            clipboard.copy(idMVC, arboristNode.data.nodeText ?? '');
+            clipboard.copy(targets, targetsText());
             break;
           case 'v':
             clipboard.paste(parentId, idx + 1);
@@ -181,20 +247,58 @@ export function useKeyboardShortcuts({
       } else if (!e.ctrlKey && !e.shiftKey && !e.altKey) {
         switch (e.key) {
           case 'Delete':
-            postMessage(executeAction(idMVC, 'deleteAction'));
+            postMessage(
+              isBatch
+                ? executeActionOnNodes(targets, 'deleteAction')
+                : executeAction(idMVC, 'deleteAction'),
+            );
             break;
           case 'Backspace':
-            postMessage(executeAction(idMVC, 'closeAction'));
+            postMessage(
+              isBatch
+                ? executeActionOnNodes(targets, 'closeAction')
+                : executeAction(idMVC, 'closeAction'),
+            );
             break;
           case 'F2':
             postMessage(executeAction(idMVC, 'editTitleAction'));
             break;
           case 'o':
-            postMessage(activateNode(idMVC));
+            postMessage(isBatch ? restoreNodes(targets) : activateNode(idMVC));
             break;
           case '-':
             postMessage(toggleCollapse(idMVC));
             break;
+          case 'n':
+            postMessage(addNote('nextSibling', idMVC));
+            break;
+          case 'a':
+            postMessage(addNote('lastSubnode', idMVC));
+            break;
+          case 'p':
+            postMessage(addNote('parent', idMVC));
+            break;
+          default:
+            handled = false;
+        }
+      } else if (e.shiftKey && !e.ctrlKey && !e.altKey) {
+        // With Shift held e.key is the upper-case letter.
+        switch (e.key) {
+          case 'N':
+            postMessage(addNote('prevSibling', idMVC));
+            break;
+          case 'A':
+            postMessage(addNote('firstSubnode', idMVC));
+            break;
+          case 'ArrowUp':
+          case 'ArrowDown': {
+            // Grow or shrink the range from the selection anchor (the
+            // cursor) to the row above/below its current far end.
+            const end = treeRef.current?.mostRecentNode ?? arboristNode;
+            const next = e.key === 'ArrowUp' ? end.prev : end.next;
+            next?.selectContiguous();
+            break;
+          }
           default:
             handled = false;
         }
@@ -217,6 +321,7 @@ export function useKeyboardShortcuts({
     return () => document.removeEventListener('keydown', handler, true);
   }, [
     selectedId,
+    multiSelection,
     lastKeyboardTargetId,
     editingId,
     treeRef,
@@ -224,5 +329,7 @@ export function useKeyboardShortcuts({
     clipboard,
     closeContextMenu,
     contextMenuOpen,
+    onFocusSearch,
+    onSearchStep,
   ]);
 }
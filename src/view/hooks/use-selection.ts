@@ -0,0 +1,52 @@
+/**
+ * Mirror of react-arborist's multi-selection for bulk actions.
+ *
+ * react-arborist owns the selection (Ctrl/Cmd-click, Shift-click,
+ * Shift+Arrow); this hook tracks it through the Tree's onSelect so cut,
+ * copy, delete, close, restore, grouping and drag know which nodes to act
+ * on. An action only applies to the whole selection when the node it was
+ * invoked on is part of it — otherwise it stays a single-node action.
+ */
+
+import { useState, useCallback } from 'react';
+import type { NodeApi } from 'react-arborist';
+import type { NodeDTO } from '@/types/node-dto';
+
+const NO_SELECTION: readonly string[] = [];
+
+export interface UseSelectionReturn {
+  /** idMVCs of the selected nodes, in selection order. */
+  selectedIds: readonly string[];
+  /** Pass to the Tree's onSelect prop. */
+  onSelect: (nodes: NodeApi<NodeDTO>[]) => void;
+  /** The nodes an action invoked on `idMVC` should apply to. */
+  targetsFor: (idMVC: string) => readonly string[];
+}
+
+/** Pure form of targetsFor, for callers holding the selection themselves. */
+export function selectionTargets(
+  selectedIds: readonly string[],
+  idMVC: string,
+): readonly string[] {
+  return selectedIds.length > 1 && selectedIds.includes(idMVC)
+    ? selectedIds
+    : [idMVC];
+}
+
+export function useSelection(): UseSelectionReturn {
+  const [selectedIds, setSelectedIds] =
+    useState<readonly string[]>(NO_SELECTION);
+
+  const onSelect = useCallback((nodes: NodeApi<NodeDTO>[]) => {
+    setSelectedIds(
+      nodes.length === 0 ? NO_SELECTION : nodes.map((node) => node.id),
+    );
+  }, []);
+
+  const targetsFor = useCallback(
+    (idMVC: string) => selectionTargets(selectedIds, idMVC),
+    [selectedIds],
+  );
+
+  return { selectedIds, onSelect, targetsFor };
+}
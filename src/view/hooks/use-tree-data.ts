@@ -4,8 +4,10 @@
  * Uses `useReducer` for immutable state transitions and `useRef` for
  * mutable indexes (node and parent maps) that don't trigger re-renders.
  *
- * Incremental updates for NODE_UPDATED and NODE_REMOVED. Structural
- * changes (moves, replaces, window closes) trigger a full re-request.
+ * Node updates and the background's structural deltas (insert, remove,
+ * move, replace) are patched in place (see tree-index). Deltas are
+ * numbered; a gap, or one that doesn't fit the tree, triggers a full
+ * re-request.
  */
 
 import { useReducer, useRef, useCallback } from 'react';
@@ -13,16 +15,31 @@ import type { NodeDTO } from '@/types/node-dto';
 import type {
   BackgroundToViewMessage,
   Msg_InitTreeView,
-  Msg_NotifyObserver,
   Msg_NotifyObserverOnNodeUpdated,
+  Msg_TreeDelta,
+  TreeDelta,
   Msg_SetCursorHere,
   Msg_ImportResult,
   Msg_ExportResult,
   Msg_ActivateNodeTabEditTextPrompt,
   Msg_ActivateNodeNoteEditTextPrompt,
   Msg_ActivateNodeWindowEditTextPrompt,
+  Msg_DuplicatesResult,
+  Msg_SearchResult,
 } from '@/types/messages';
+import type { DuplicateGroup } from '@/types/duplicates';
 import { buildOpenMap } from '../tree-adapter';
+import {
+  applyTreeDelta,
+  buildIndexes,
+  updateNode,
+  type TreeIndexes,
+} from '../tree-index';
+import {
+  parseSearchQuery,
+  parseAgeFilters,
+  nodeMatchesQuery,
+} from '../tree-search';
 
 // -- State types --
 
@@ -40,6 +57,13 @@ export interface EditingNodeState {
   kind: EditKind;
 }
 
+export interface SearchResultState {
+  /** The query the background answered. */
+  query: string;
+  /** Hits across the whole tree, collapsed subtrees included. */
+  matchIds: readonly string[];
+}
+
 export interface TreeState {
   root: NodeDTO | null;
   selectedId: string | null;
@@ -47,11 +71,20 @@ export interface TreeState {
   instanceId: string | null;
   initialOpenMap: Record<string, boolean> | null;
   needsFullRefresh: boolean;
+  /** Seq of the last tree delta applied, or from the last init. */
+  deltaSeq: number | null;
   importResult: ImportResultState | null;
   exportJson: string | null;
   exportHtml: string | null;
+  exportBookmarks: string | null;
+  exportMarkdown: string | null;
+  exportOpml: string | null;
   exportError: string | null;
   editingNode: EditingNodeState | null;
+  /** Latest duplicate analysis, or null before the first scan. */
+  duplicateGroups: readonly DuplicateGroup[] | null;
+  /** Latest full-tree search reply, or null before the first query. */
+  searchResult: SearchResultState | null;
 }
 
 const INITIAL_STATE: TreeState = {
@@ -61,19 +94,30 @@ const INITIAL_STATE: TreeState = {
   instanceId: null,
   initialOpenMap: null,
   needsFullRefresh: false,
+  deltaSeq: null,
   importResult: null,
   exportJson: null,
   exportHtml: null,
+  exportBookmarks: null,
+  exportMarkdown: null,
+  exportOpml: null,
   exportError: null,
   editingNode: null,
+  duplicateGroups: null,
+  searchResult: null,
 };
 
 // -- Reducer actions --
 
 type TreeAction =
   | { type: 'INIT'; msg: Msg_InitTreeView }
-  | { type: 'NODE_UPDATED'; idMVC: string; modelDataCopy: NodeDTO }
-  | { type: 'NODE_REMOVED'; idMVC: string }
+  | {
+      type: 'NODE_UPDATED';
+      idMVC: string;
+      parentIdMVC: string | null;
+      modelDataCopy: NodeDTO;
+    }
+  | { type: 'TREE_DELTA'; seq: number; delta: TreeDelta }
   | { type: 'SET_CURSOR'; targetId: string }
   | { type: 'FULL_REFRESH_NEEDED' }
   | {
@@ -84,112 +128,28 @@ type TreeAction =
     }
   | { type: 'EXPORT_READY'; treeJson: string }
   | { type: 'EXPORT_HTML_READY'; treeHtml: string }
+  | { type: 'EXPORT_BOOKMARKS_READY'; bookmarksHtml: string }
+  | { type: 'EXPORT_MARKDOWN_READY'; treeMarkdown: string }
+  | { type: 'EXPORT_OPML_READY'; treeOpml: string }
   | { type: 'EXPORT_ERROR'; error: string }
   | { type: 'EXPORT_CLEAR' }
   | { type: 'EXPORT_HTML_CLEAR' }
+  | { type: 'EXPORT_BOOKMARKS_CLEAR' }
+  | { type: 'EXPORT_MARKDOWN_CLEAR' }
+  | { type: 'EXPORT_OPML_CLEAR' }
   | {
       type: 'START_EDITING';
       idMVC: string;
       defaultText: string;
       kind: EditKind;
     }
-  | { type: 'CLEAR_EDITING' };
-
-// -- Index types --
-
-interface Indexes {
-  nodeIndex: Map<string, NodeDTO>;
-  parentIndex: Map<string, string>;
-}
-
-// -- Index building --
-
-function buildIndexes(root: NodeDTO): Indexes {
-  const nodeIndex = new Map<string, NodeDTO>();
-  const parentIndex = new Map<string, string>();
-
-  function walk(node: NodeDTO, parentId: string | null): void {
-    nodeIndex.set(node.idMVC, node);
-    if (parentId !== null) {
-      parentIndex.set(node.idMVC, parentId);
-    }
-    for (const child of node.subnodes) {
-      walk(child, node.idMVC);
-    }
-  }
-
-  walk(root, null);
-  return { nodeIndex, parentIndex };
-}
-
-// -- Immutable path cloning --
-
-/**
- * Clone the path from a target node up to the root, replacing the
- * target node in its parent's subnodes array. Returns a new root.
- *
- * `replacementOrNull`:
- *   - NodeDTO: replace the node at its position
- *   - null: remove the node from parent's subnodes
- */
-function clonePathToRoot(
-  targetId: string,
-  replacementOrNull: NodeDTO | null,
-  indexes: Indexes,
-): NodeDTO | null {
-  const { nodeIndex, parentIndex } = indexes;
-
-  // Build the path from target to root
-  const path: string[] = [targetId];
-  let currentId = targetId;
-  while (parentIndex.has(currentId)) {
-    currentId = parentIndex.get(currentId) as string;
-    path.push(currentId);
-  }
-
-  // Clone bottom-up
-  let currentReplacement = replacementOrNull;
-
-  for (let i = 0; i < path.length; i++) {
-    const nodeId = path[i];
-
-    if (i === 0) {
-      // This is the target node — use the replacement directly
-      continue;
-    }
-
-    const parentNode = nodeIndex.get(nodeId);
-    if (!parentNode) return null;
-
-    const childId = path[i - 1];
-    let newSubnodes: NodeDTO[];
-
-    if (currentReplacement === null) {
-      // Remove mode
-      newSubnodes = parentNode.subnodes.filter((s) => s.idMVC !== childId);
-    } else {
-      // Replace mode (currentReplacement is non-null in this branch)
-      const replacement = currentReplacement;
-      newSubnodes = parentNode.subnodes.map((s) =>
-        s.idMVC === childId ? replacement : s,
-      );
-    }
-
-    currentReplacement = {
-      ...parentNode,
-      subnodes: newSubnodes,
-      // Recompute isSubnodesPresent so expand/collapse arrow updates correctly
-      // after the last child is removed.
-      isSubnodesPresent: newSubnodes.length > 0,
-    };
-  }
-
-  return currentReplacement;
-}
+  | { type: 'CLEAR_EDITING' }
+  | { type: 'DUPLICATES_RESULT'; groups: readonly DuplicateGroup[] }
+  | { type: 'SEARCH_RESULT'; result: SearchResultState };
 
 // -- Reducer --
 
-function createReducer(indexesRef: { current: Indexes }) {
+function createReducer(indexesRef: { current: TreeIndexes }) {
   return function treeReducer(state: TreeState, action: TreeAction): TreeState {
     switch (action.type) {
       case 'INIT': {
@@ -204,48 +164,38 @@ function createReducer(indexesRef: { current: Indexes }) {
           instanceId: action.msg.instanceId,
           initialOpenMap: buildOpenMap(root),
           needsFullRefresh: false,
+          deltaSeq: action.msg.deltaSeq,
           importResult: null,
           exportJson: null,
           exportHtml: null,
+          exportBookmarks: null,
+          exportMarkdown: null,
+          exportOpml: null,
           exportError: null,
-          editingNode: null,
+          // A refresh can race a just-opened editor (e.g. a new note at
+          // the top level); keep the edit if its node survived.
+          editingNode:
+            state.editingNode && indexes.nodeIndex.has(state.editingNode.idMVC)
+              ? state.editingNode
+              : null,
+          // Kept until the rescan the new root triggers replaces it.
+          duplicateGroups: state.duplicateGroups,
+          searchResult: state.searchResult,
         };
       }
 
       case 'NODE_UPDATED': {
         if (!state.root) return state;
 
-        const { nodeIndex } = indexesRef.current;
-        const existing = nodeIndex.get(action.idMVC);
-
-        if (!existing) {
-          // Unknown node — likely a new tab. Request full refresh.
-          return { ...state, needsFullRefresh: true };
-        }
-
-        // Use the update's subnodes if present (expand sends children).
-        // Preserve existing subnodes only when the node is collapsed
-        // (subnodes:[] but isSubnodesPresent:true = hidden children).
-        const updateData = action.modelDataCopy;
-        const subnodes =
-          updateData.subnodes.length > 0
-            ? updateData.subnodes
-            : updateData.isSubnodesPresent
-              ? existing.subnodes
-              : [];
-        const updatedNode: NodeDTO = { ...updateData, subnodes };
-
-        const newRoot = clonePathToRoot(
-          action.idMVC,
-          updatedNode,
+        const newRoot = updateNode(
           indexesRef.current,
+          action.idMVC,
+          action.parentIdMVC,
+          action.modelDataCopy,
         );
-
         if (!newRoot) return { ...state, needsFullRefresh: true };
-
-        // Update indexes
-        const newIndexes = buildIndexes(newRoot);
-        indexesRef.current = newIndexes;
+        // Under a collapsed node: nothing to show.
+        if (newRoot === state.root) return state;
 
         // If this update is for the node currently being edited, clear the
         // editing state in the same render so the committed text is visible
@@ -256,34 +206,26 @@ function createReducer(indexesRef: { current: Indexes }) {
         return {
           ...state,
           root: newRoot,
-          needsFullRefresh: false,
           editingNode: clearEdit,
         };
       }
 
-      case 'NODE_REMOVED': {
-        if (!state.root) return state;
+      case 'TREE_DELTA': {
+        // Before the first init, or already waiting for a fresh tree.
+        if (!state.root || state.needsFullRefresh) return state;
 
-        // Root removal is not recoverable via incremental patch
-        if (action.idMVC === state.root.idMVC) {
-          console.error('useTreeData: received NODE_REMOVED for root node');
-          return state;
+        if (state.deltaSeq !== null && action.seq !== state.deltaSeq + 1) {
+          console.warn(
+            `useTreeData: missed tree deltas (${state.deltaSeq} → ${action.seq})`,
+          );
+          return { ...state, needsFullRefresh: true };
         }
 
-        const { nodeIndex } = indexesRef.current;
-        if (!nodeIndex.has(action.idMVC)) {
-          // Node already removed or unknown — ignore
-          return state;
+        const newRoot = applyTreeDelta(indexesRef.current, action.delta);
+        if (!newRoot) {
+          return { ...state, deltaSeq: action.seq, needsFullRefresh: true };
         }
-
-        const newRoot = clonePathToRoot(action.idMVC, null, indexesRef.current);
-
-        if (!newRoot) return { ...state, needsFullRefresh: true };
-
-        const newIndexes = buildIndexes(newRoot);
-        indexesRef.current = newIndexes;
-
-        return { ...state, root: newRoot, needsFullRefresh: false };
+        return { ...state, root: newRoot, deltaSeq: action.seq };
       }
 
       case 'SET_CURSOR':
@@ -308,6 +250,23 @@ function createReducer(indexesRef: { current: Indexes }) {
       case 'EXPORT_HTML_READY':
         return { ...state, exportHtml: action.treeHtml, exportError: null };
 
+      case 'EXPORT_BOOKMARKS_READY':
+        return {
+          ...state,
+          exportBookmarks: action.bookmarksHtml,
+          exportError: null,
+        };
+
+      case 'EXPORT_MARKDOWN_READY':
+        return {
+          ...state,
+          exportMarkdown: action.treeMarkdown,
+          exportError: null,
+        };
+
+      case 'EXPORT_OPML_READY':
+        return { ...state, exportOpml: action.treeOpml, exportError: null };
+
       case 'EXPORT_ERROR':
         return { ...state, exportJson: null, exportError: action.error };
 
@@ -317,6 +276,15 @@ function createReducer(indexesRef: { current: Indexes }) {
       case 'EXPORT_HTML_CLEAR':
         return { ...state, exportHtml: null, exportError: null };
 
+      case 'EXPORT_BOOKMARKS_CLEAR':
+        return { ...state, exportBookmarks: null, exportError: null };
+
+      case 'EXPORT_MARKDOWN_CLEAR':
+        return { ...state, exportMarkdown: null, exportError: null };
+
+      case 'EXPORT_OPML_CLEAR':
+        return { ...state, exportOpml: null, exportError: null };
+
       case 'START_EDITING':
         return {
           ...state,
@@ -330,6 +298,12 @@ function createReducer(indexesRef: { current: Indexes }) {
       case 'CLEAR_EDITING':
         return { ...state, editingNode: null };
 
+      case 'DUPLICATES_RESULT':
+        return { ...state, duplicateGroups: action.groups };
+
+      case 'SEARCH_RESULT':
+        return { ...state, searchResult: action.result };
+
       default:
         return state;
     }
@@ -344,11 +318,23 @@ export interface UseTreeDataReturn {
   handleMessage: (msg: BackgroundToViewMessage) => void;
   clearExport: () => void;
   clearExportHtml: () => void;
+  clearExportBookmarks: () => void;
+  clearExportMarkdown: () => void;
+  clearExportOpml: () => void;
   clearEditing: () => void;
+  /**
+   * Search the current node index for `query`. Returns matching idMVCs in
+   * tree (display) order; the session root is never included. Reads the
+   * index ref directly so callers don't pay for a second tree walk.
+   */
+  findMatches: (query: string) => string[];
+  /** True if the current node index has a node with this idMVC. */
+  hasNode: (idMVC: string) => boolean;
 }
 
 export function useTreeData(): UseTreeDataReturn {
-  const indexesRef = useRef<Indexes>({
+  const indexesRef = useRef<TreeIndexes>({
+    rootId: null,
     nodeIndex: new Map(),
     parentIndex: new Map(),
   });
@@ -369,29 +355,15 @@ export function useTreeData(): UseTreeDataReturn {
         dispatch({
           type: 'NODE_UPDATED',
           idMVC: updated.idMVC,
+          parentIdMVC: updated.parentIdMVC,
           modelDataCopy: updated.modelDataCopy,
         });
         break;
       }
 
-      case 'msg2view_notifyObserver': {
-        const notify = msg as Msg_NotifyObserver;
-        const eventName = notify.parameters[0];
-
-        switch (eventName) {
-          case 'onNodeRemoved':
-            dispatch({ type: 'NODE_REMOVED', idMVC: notify.idMVC });
-            break;
-          case 'onNodeMoved':
-          case 'onNodeReplaced':
-          case 'onWindowClosed':
-          case 'onParentUpdated':
-            dispatch({ type: 'FULL_REFRESH_NEEDED' });
-            break;
-          default:
-            console.warn('useTreeData: unknown observer event', eventName);
-            dispatch({ type: 'FULL_REFRESH_NEEDED' });
-        }
+      case 'msg2view_treeDelta': {
+        const { seq, delta } = msg as Msg_TreeDelta;
+        dispatch({ type: 'TREE_DELTA', seq, delta });
         break;
       }
 
@@ -414,7 +386,20 @@ export function useTreeData(): UseTreeDataReturn {
 
       case 'msg2view_exportResult': {
         const result = msg as Msg_ExportResult;
-        if (result.success && result.treeHtml) {
+        // A Markdown export with every tab filtered out may be empty.
+        if (result.success && result.treeMarkdown !== undefined) {
+          dispatch({
+            type: 'EXPORT_MARKDOWN_READY',
+            treeMarkdown: result.treeMarkdown,
+          });
+        } else if (result.success && result.treeOpml) {
+          dispatch({ type: 'EXPORT_OPML_READY', treeOpml: result.treeOpml });
+        } else if (result.success && result.bookmarksHtml) {
+          dispatch({
+            type: 'EXPORT_BOOKMARKS_READY',
+            bookmarksHtml: result.bookmarksHtml,
+          });
+        } else if (result.success && result.treeHtml) {
           dispatch({ type: 'EXPORT_HTML_READY', treeHtml: result.treeHtml });
         } else if (result.success && result.treeJson) {
           dispatch({ type: 'EXPORT_READY', treeJson: result.treeJson });
@@ -460,6 +445,22 @@ export function useTreeData(): UseTreeDataReturn {
         break;
       }
 
+      case 'msg2view_duplicatesResult':
+        dispatch({
+          type: 'DUPLICATES_RESULT',
+          groups: (msg as Msg_DuplicatesResult).groups,
+        });
+        break;
+
+      case 'msg2view_searchResult': {
+        const searchMsg = msg as Msg_SearchResult;
+        dispatch({
+          type: 'SEARCH_RESULT',
+          result: { query: searchMsg.query, matchIds: searchMsg.matchIds },
+        });
+        break;
+      }
+
       default:
         // Messages not handled by tree data (scroll, drag, etc.) are silently ignored.
         break;
@@ -474,16 +475,58 @@ export function useTreeData(): UseTreeDataReturn {
     dispatch({ type: 'EXPORT_HTML_CLEAR' });
   }, []);
 
+  const clearExportBookmarks = useCallback(() => {
+    dispatch({ type: 'EXPORT_BOOKMARKS_CLEAR' });
+  }, []);
+
+  const clearExportMarkdown = useCallback(() => {
+    dispatch({ type: 'EXPORT_MARKDOWN_CLEAR' });
+  }, []);
+
+  const clearExportOpml = useCallback(() => {
+    dispatch({ type: 'EXPORT_OPML_CLEAR' });
+  }, []);
+
   const clearEditing = useCallback(() => {
     dispatch({ type: 'CLEAR_EDITING' });
   }, []);
 
+  const findMatches = useCallback((query: string): string[] => {
+    const terms = parseSearchQuery(query);
+    const ageFilters = parseAgeFilters(query);
+    if (terms.length === 0 && ageFilters.length === 0) return [];
+    const now = Date.now();
+    const { rootId, nodeIndex } = indexesRef.current;
+    const root = rootId !== null ? nodeIndex.get(rootId) : undefined;
+    const matches: string[] = [];
+    // Pre-order walk, so hits come out in display order for next/prev
+    // navigation.
+    const walk = (dto: NodeDTO): void => {
+      if (nodeMatchesQuery(dto, terms, ageFilters, now)) {
+        matches.push(dto.idMVC);
+      }
+      dto.subnodes.forEach(walk);
+    };
+    root?.subnodes.forEach(walk);
+    return matches;
+  }, []);
+
+  const hasNode = useCallback(
+    (idMVC: string): boolean => indexesRef.current.nodeIndex.has(idMVC),
+    [],
+  );
+
   return {
     state,
     isLoading: state.root === null,
     handleMessage,
     clearExport,
     clearExportHtml,
+    clearExportBookmarks,
+    clearExportMarkdown,
+    clearExportOpml,
     clearEditing,
+    findMatches,
+    hasNode,
   };
 }
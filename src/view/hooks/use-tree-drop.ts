@@ -1,6 +1,6 @@
 /**
  * Hook managing external drag-drop import, file drop, first-run overlay,
- * the shared handleImport callback, and export download side-effect.
+ * the shared handleImport callback, and export download side-effects.
  */
 
 import { useEffect, useCallback, useState } from 'react';
@@ -12,7 +12,7 @@ import {
   extractTreeFromDrag,
   readFileAsText,
   importContainsTabs,
-  parseHtmlFile,
+  parseImportFile,
 } from '../../../entrypoints/tree/components/drag-import';
 
 const FIRST_RUN_KEY = 'importDismissed';
@@ -20,13 +20,41 @@ const FIRST_RUN_KEY = 'importDismissed';
 /** Delay before revoking blob URL — allows browser download machinery to capture the blob. */
 const URL_REVOCATION_DELAY_MS = 100;
 
+/** Download `content` as `<baseName>-<date>.<extension>`. */
+function downloadFile(
+  content: string,
+  type: string,
+  baseName: string,
+  extension: string,
+): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${baseName}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  // Defer revocation to ensure download starts before the URL is invalidated
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, URL_REVOCATION_DELAY_MS);
+}
+
 export interface UseTreeDropOptions {
   postMessage: (msg: ViewToBackgroundMessage) => void;
   importResult: ImportResultState | null;
   exportJson: string | null;
   exportHtml: string | null;
+  exportBookmarks: string | null;
+  exportMarkdown: string | null;
+  exportOpml: string | null;
   clearExport: () => void;
   clearExportHtml: () => void;
+  clearExportBookmarks: () => void;
+  clearExportMarkdown: () => void;
+  clearExportOpml: () => void;
 }
 
 export interface UseTreeDropReturn {
@@ -37,7 +65,12 @@ export interface UseTreeDropReturn {
   handleTreeDragOver: (e: ReactDragEvent<HTMLDivElement>) => void;
   handleTreeDragLeave: () => void;
   handleTreeDrop: (e: ReactDragEvent<HTMLDivElement>) => void;
-  handleImport: (json: string) => void;
+  /** Import at the end of the tree, or as children of `targetParentIdMVC`. */
+  handleImport: (
+    json: string,
+    targetParentIdMVC?: string,
+    targetPosition?: number,
+  ) => void;
 }
 
 export function useTreeDrop({
@@ -45,8 +78,14 @@ export function useTreeDrop({
   importResult,
   exportJson,
   exportHtml,
+  exportBookmarks,
+  exportMarkdown,
+  exportOpml,
   clearExport,
   clearExportHtml,
+  clearExportBookmarks,
+  clearExportMarkdown,
+  clearExportOpml,
 }: UseTreeDropOptions): UseTreeDropReturn {
   // First-run overlay: shown until dismissed or import succeeds
   const [showFirstRun, setShowFirstRun] = useState(
@@ -72,7 +111,7 @@ export function useTreeDrop({
 
   // Import handler shared by overlay and tree container drop
   const handleImport = useCallback(
-    (json: string) => {
+    (json: string, targetParentIdMVC?: string, targetPosition?: number) => {
       if (!importContainsTabs(json)) {
         const proceed = window.confirm(
           'This import appears to contain no tab data (only empty window shells). ' +
@@ -81,7 +120,7 @@ export function useTreeDrop({
         );
         if (!proceed) return;
       }
-      postMessage(importTree(json));
+      postMessage(importTree(json, targetParentIdMVC, targetPosition));
     },
     [postMessage],
   );
@@ -139,59 +178,65 @@ export function useTreeDrop({
         e.preventDefault();
         setIsExternalDragOver(false);
         void readFileAsText(file).then((text) => {
-          // HTML files need client-side parsing — the background only handles JSON
-          if (file.name.endsWith('.html') || file.name.endsWith('.htm')) {
-            const treeJson = parseHtmlFile(text);
-            if (treeJson) {
-              handleImport(treeJson);
-            }
-            return;
+          // HTML and OPML files need client-side parsing — the background
+          // only handles JSON
+          const treeJson = parseImportFile(file.name, text);
+          if (treeJson) {
+            handleImport(treeJson);
           }
-          handleImport(text);
         });
       }
     },
     [handleImport],
   );
 
-  // Trigger file download when JSON export is ready
+  // Trigger a file download when an export is ready, then reset so a
+  // subsequent export triggers a new download.
   useEffect(() => {
     if (!exportJson) return;
-    const blob = new Blob([exportJson], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `tabs-outliner-backup-${new Date().toISOString().slice(0, 10)}.tree`;
-    a.style.display = 'none';
-    document.body.appendChild(a);
-    a.click();
-    // Defer revocation to ensure download starts before the URL is invalidated
-    setTimeout(() => {
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }, URL_REVOCATION_DELAY_MS);
-    // Reset so a subsequent export triggers a new download
+    downloadFile(
+      exportJson,
+      'application/json',
+      'tabs-outliner-backup',
+      'tree',
+    );
     clearExport();
   }, [exportJson, clearExport]);
 
-  // Trigger file download when HTML export is ready
   useEffect(() => {
     if (!exportHtml) return;
-    const blob = new Blob([exportHtml], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `tabs-outliner-backup-${new Date().toISOString().slice(0, 10)}.html`;
-    a.style.display = 'none';
-    document.body.appendChild(a);
-    a.click();
-    setTimeout(() => {
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }, URL_REVOCATION_DELAY_MS);
+    downloadFile(exportHtml, 'text/html', 'tabs-outliner-backup', 'html');
     clearExportHtml();
   }, [exportHtml, clearExportHtml]);
 
+  useEffect(() => {
+    if (!exportBookmarks) return;
+    downloadFile(
+      exportBookmarks,
+      'text/html',
+      'tabs-outliner-bookmarks',
+      'html',
+    );
+    clearExportBookmarks();
+  }, [exportBookmarks, clearExportBookmarks]);
+
+  useEffect(() => {
+    if (exportMarkdown === null) return;
+    downloadFile(
+      exportMarkdown,
+      'text/markdown',
+      'tabs-outliner-outline',
+      'md',
+    );
+    clearExportMarkdown();
+  }, [exportMarkdown, clearExportMarkdown]);
+
+  useEffect(() => {
+    if (!exportOpml) return;
+    downloadFile(exportOpml, 'text/x-opml', 'tabs-outliner-outline', 'opml');
+    clearExportOpml();
+  }, [exportOpml, clearExportOpml]);
+
   return {
     showFirstRun,
     dismissFirstRun,
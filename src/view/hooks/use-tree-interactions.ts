@@ -38,6 +38,12 @@ const HOVER_COOLDOWN_MS = 150;
 // react-window itself used (which is what made the bug visible).
 const SCROLL_QUIESCE_MS = 32;
 
+// Shared defaults so the context value stays referentially stable when no
+// search is active and the clipboard is empty.
+const NO_SEARCH_TERMS: readonly string[] = [];
+const NO_CLIPBOARD_IDS: readonly string[] = [];
+const NO_DUPLICATE_COUNTS: ReadonlyMap<string, number> = new Map();
+
 export interface HoverState {
   idMVC: string;
   actions: HoveringMenuActions;
@@ -68,6 +74,14 @@ export interface UseTreeInteractionsOptions {
    * for copy) on the source node until the clipboard is consumed/cleared.
    */
   clipboardEntry: ClipboardEntry | null;
+  /** Active search terms, plumbed to NodeRow for match highlighting. */
+  searchTerms?: readonly string[];
+  /** Search hit currently navigated to, rendered with a distinct highlight. */
+  searchCurrentId?: string | null;
+  /** Duplicate group sizes by idMVC, rendered as a badge on each row. */
+  duplicateCounts?: ReadonlyMap<string, number>;
+  /** Cutoff for the aging view's stale flag; null/absent when it is off. */
+  staleBefore?: number | null;
 }
 
 export interface UseTreeInteractionsReturn {
@@ -90,6 +104,10 @@ export function useTreeInteractions({
   onOpenContextMenu,
   hasClipboard,
   clipboardEntry,
+  searchTerms = NO_SEARCH_TERMS,
+  searchCurrentId = null,
+  duplicateCounts = NO_DUPLICATE_COUNTS,
+  staleBefore = null,
 }: UseTreeInteractionsOptions): UseTreeInteractionsReturn {
   const [hoverState, setHoverState] = useState<HoverState | null>(null);
 
@@ -294,8 +312,12 @@ export function useTreeInteractions({
       onNodeClick: handleNodeClick,
       hasClipboard,
       isScrolling,
-      clipboardSourceId: clipboardEntry?.sourceIdMVC ?? null,
+      clipboardSourceIds: clipboardEntry?.sourceIdMVCs ?? NO_CLIPBOARD_IDS,
       clipboardKind: clipboardEntry?.kind ?? null,
+      searchTerms,
+      searchCurrentId,
+      duplicateCounts,
+      staleBefore,
     }),
     [
       localCursorId,
@@ -311,8 +333,12 @@ export function useTreeInteractions({
       handleNodeClick,
       hasClipboard,
       isScrolling,
-      clipboardEntry?.sourceIdMVC,
+      clipboardEntry?.sourceIdMVCs,
       clipboardEntry?.kind,
+      searchTerms,
+      searchCurrentId,
+      duplicateCounts,
+      staleBefore,
     ],
   );
 
@@ -0,0 +1,164 @@
+/**
+ * Search/filter mode state for the tree view.
+ *
+ * Owns the query string, the ordered list of hits (computed from
+ * useTreeData's node index) and the "current hit" used for next/prev
+ * keyboard navigation. The filtered rendering itself is delegated to
+ * react-arborist's `searchTerm` / `searchMatch` props, which keep every
+ * ancestor of a hit visible as context.
+ *
+ * Collapsed subtrees are not part of the view's index — the background
+ * sends collapsed nodes without subnodes — so the index only gives the
+ * visible hits. Those stay the hit list and follow every tree change. To
+ * reach the rest, each new query is also sent to the background once
+ * (debounced while typing); the hits of its answer that the view has no
+ * node for are merged in, and the caller reveals them when navigation
+ * reaches them. Tree changes never trigger a background scan.
+ */
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { NodeDTO } from '@/types/node-dto';
+import type { ViewToBackgroundMessage } from '@/types/messages';
+import { parseSearchQuery, parseAgeFilters } from '../tree-search';
+import { searchTree } from '../tree-actions';
+import type { SearchResultState } from './use-tree-data';
+
+/** Quiet period after the last keystroke before querying the background. */
+export const SEARCH_QUERY_DELAY_MS = 150;
+
+export interface UseTreeSearchOptions {
+  postMessage: (msg: ViewToBackgroundMessage) => void;
+  /** Current tree root — hits are recomputed whenever it changes. */
+  root: NodeDTO | null;
+  findMatches: (query: string) => string[];
+  /** True if the view's index has a node with this idMVC. */
+  hasNode: (idMVC: string) => boolean;
+  /** Latest full-tree reply from useTreeData, or null before the first. */
+  result: SearchResultState | null;
+}
+
+export interface UseTreeSearchReturn {
+  query: string;
+  setQuery: (query: string) => void;
+  /** Lowercased terms, for highlighting. Empty when search is inactive. */
+  terms: readonly string[];
+  /** True when the query contains at least one term or age filter. */
+  isActive: boolean;
+  /**
+   * Matching idMVCs in tree order. Once the background has answered, this
+   * includes hits inside collapsed containers that have no row yet; nodes
+   * that started matching after the answer come last.
+   */
+  matchIds: readonly string[];
+  matchSet: ReadonlySet<string>;
+  /** Index into matchIds of the current hit, or -1 before any navigation. */
+  currentIndex: number;
+  currentId: string | null;
+  /**
+   * Advance to the next/previous hit (wrapping) and return its idMVC so the
+   * caller can move the cursor and scroll. Null when there are no hits.
+   */
+  next: () => string | null;
+  prev: () => string | null;
+  /**
+   * Ask the background again for the current query — e.g. when a hidden
+   * hit is about to be revealed and may be gone since the last answer.
+   */
+  refresh: () => void;
+  clear: () => void;
+}
+
+export function useTreeSearch({
+  postMessage,
+  root,
+  findMatches,
+  hasNode,
+  result,
+}: UseTreeSearchOptions): UseTreeSearchReturn {
+  const [query, setQueryState] = useState('');
+  const [currentIndex, setCurrentIndex] = useState(-1);
+
+  const terms = useMemo(() => parseSearchQuery(query), [query]);
+  const hasAgeFilters = useMemo(
+    () => parseAgeFilters(query).length > 0,
+    [query],
+  );
+
+  const isActive = terms.length > 0 || hasAgeFilters;
+
+  // Only a new query reaches the background: tree deltas arrive for every
+  // tab title or status change, and the local hits already follow them.
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setTimeout(
+      () => postMessage(searchTree(query)),
+      SEARCH_QUERY_DELAY_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [isActive, query, postMessage]);
+
+  // `root` is a dependency on purpose: findMatches reads the index ref,
+  // which is rebuilt whenever the reducer produces a new root. The merge
+  // below follows through localIds.
+  const localIds = useMemo(
+    () => (root ? findMatches(query) : []),
+    [root, query, findMatches],
+  );
+  const matchIds = useMemo(() => {
+    if (!isActive || result?.query !== query) return localIds;
+    // Shown nodes are judged by the index, which is current; the answer
+    // only contributes the hits the view has no node for.
+    const local = new Set(localIds);
+    const merged = result.matchIds.filter(
+      (id) => local.has(id) || !hasNode(id),
+    );
+    const seen = new Set(merged);
+    return [...merged, ...localIds.filter((id) => !seen.has(id))];
+  }, [isActive, query, result, localIds, hasNode]);
+  const matchSet = useMemo(() => new Set(matchIds), [matchIds]);
+
+  // A tree update can shrink the hit list under the cursor — clamp rather
+  // than pointing past the end.
+  const clampedIndex = currentIndex < matchIds.length ? currentIndex : -1;
+  const currentId = clampedIndex >= 0 ? matchIds[clampedIndex] : null;
+
+  const setQuery = useCallback((q: string) => {
+    setQueryState(q);
+    setCurrentIndex(-1);
+  }, []);
+
+  const step = useCallback(
+    (delta: 1 | -1): string | null => {
+      if (matchIds.length === 0) return null;
+      const base = clampedIndex === -1 && delta === -1 ? 0 : clampedIndex;
+      const nextIndex = (base + delta + matchIds.length) % matchIds.length;
+      setCurrentIndex(nextIndex);
+      return matchIds[nextIndex];
+    },
+    [matchIds, clampedIndex],
+  );
+
+  const next = useCallback(() => step(1), [step]);
+  const prev = useCallback(() => step(-1), [step]);
+
+  const refresh = useCallback(() => {
+    if (isActive) postMessage(searchTree(query));
+  }, [isActive, query, postMessage]);
+
+  const clear = useCallback(() => setQuery(''), [setQuery]);
+
+  return {
+    query,
+    setQuery,
+    terms,
+    isActive,
+    matchIds,
+    matchSet,
+    currentIndex: clampedIndex,
+    currentId,
+    next,
+    prev,
+    refresh,
+    clear,
+  };
+}
@@ -2,7 +2,7 @@
  * View module barrel export.
  *
  * Re-exports hooks, adapters, and action constructors used by the
- * tree view entrypoint (App.tsx).
+ * tree view and side panel entrypoints (App.tsx).
  */
 
 export { usePort } from './hooks/use-port';
@@ -46,10 +46,33 @@ export type {
   UseContextMenuReturn,
 } from './hooks/use-context-menu';
 
+export { useSelection, selectionTargets } from './hooks/use-selection';
+export type { UseSelectionReturn } from './hooks/use-selection';
+
+export { useTreeSearch } from './hooks/use-tree-search';
+export type {
+  UseTreeSearchOptions,
+  UseTreeSearchReturn,
+} from './hooks/use-tree-search';
+
+export { useDuplicates } from './hooks/use-duplicates';
+export type {
+  UseDuplicatesOptions,
+  UseDuplicatesReturn,
+} from './hooks/use-duplicates';
+
+export {
+  useCurrentWindow,
+  findFocusedWindow,
+  findChromeWindow,
+} from './hooks/use-current-window';
+
 export { useKeyboardShortcuts } from './hooks/use-keyboard-shortcuts';
 export type { UseKeyboardShortcutsOptions } from './hooks/use-keyboard-shortcuts';
 
 export { nodeId, nodeChildren, buildOpenMap } from './tree-adapter';
+export { splitHighlights } from './tree-search';
+export type { HighlightSegment } from './tree-search';
 export {
   requestTree,
   activateNode,
@@ -59,9 +82,31 @@ export {
   importTree,
   exportTree,
   exportTreeHtml,
+  exportTreeBookmarks,
+  exportTreeMarkdown,
+  exportTreeOpml,
   moveHierarchy,
   copyHierarchy,
   applyNodeTabText,
   applyNodeNoteText,
   applyNodeWindowText,
+  restoreSnapshot,
+  undo,
+  redo,
+  backupNow,
+  addNote,
+  closeAllWindowsExceptThis,
+  moveHierarchies,
+  copyHierarchies,
+  executeActionOnNodes,
+  restoreNodes,
+  moveToNewGroup,
+  findDuplicates,
+  mergeDuplicates,
+  revealNode,
+  searchTree,
+  sortSubnodes,
+  groupSubnodesByDomain,
+  previewOrganizeRules,
 } from './tree-actions';
+export type { NotePlacement } from './tree-actions';
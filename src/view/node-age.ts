@@ -0,0 +1,26 @@
+/**
+ * Pure helpers for age-based views of the tree.
+ *
+ * A node was last touched when it was created, saved or last visited,
+ * whichever is latest — so a saved tab that was never opened again ages
+ * from the day it was saved. The aging view flags saved tabs untouched for
+ * STALE_AFTER_DAYS as candidates for pruning.
+ */
+
+import type { NodeDTO } from '@/types/node-dto';
+import { lastTouched } from '@/tree/search-query';
+
+export { DAY_MS, lastTouched } from '@/tree/search-query';
+
+/** Saved tabs untouched for this long are flagged by the aging view. */
+export const STALE_AFTER_DAYS = 90;
+
+/**
+ * True for a saved tab last touched before `cutoff`. A saved tab of
+ * unknown age predates timestamps altogether, so it counts as stale.
+ */
+export function isStaleSavedTab(dto: NodeDTO, cutoff: number): boolean {
+  if (dto.titleCssClass !== 'savedtab') return false;
+  const touched = lastTouched(dto);
+  return touched == null || touched < cutoff;
+}
@@ -21,7 +21,28 @@ import type {
   Req_CreateWindow,
   Req_CreateGroup,
   Req_CreateSeparator,
+  Req_RestoreSnapshot,
+  Req_Undo,
+  Req_Redo,
+  Req_BackupNow,
+  Req_AddNote,
+  Req_CloseAllWindowsExceptThis,
+  Req_MoveHierarchies,
+  Req_CopyHierarchies,
+  Req_ActivateHoveringMenuActionOnNodes,
+  Req_RestoreNodes,
+  Req_MoveHierarchiesToNewGroup,
+  Req_FindDuplicates,
+  Req_MergeDuplicates,
+  Req_RevealNode,
+  Req_SearchTree,
+  Req_SortSubnodes,
+  Req_GroupSubnodesByDomain,
+  Req_PreviewOrganizeRules,
 } from '@/types/messages';
+import type { DuplicateScanOptions } from '@/types/duplicates';
+import type { SortDirection, SortKey } from '@/types/sort';
+import type { OrganizeRule } from '@/types/organize';
 
 /** Request the full tree structure from the background. */
 export function requestTree(): Req_GetTreeStructure {
@@ -61,19 +82,58 @@ export function notifyUnload(): Req_OnViewWindowBeforeUnload {
   return { request: 'request2bkg_onViewWindowBeforeUnload_saveNow' };
 }
 
-/** Request import of a tree from a JSON string (HierarchyJSO or operations log). */
-export function importTree(treeJson: string): Req_ImportTree {
-  return { request: 'request2bkg_import_tree', treeJson };
+/**
+ * Request import of a tree from a JSON string (HierarchyJSO or operations
+ * log), at the end of the tree or as children of `targetParentIdMVC`.
+ */
+export function importTree(
+  treeJson: string,
+  targetParentIdMVC?: string,
+  targetPosition = -1,
+): Req_ImportTree {
+  return targetParentIdMVC === undefined
+    ? { request: 'request2bkg_import_tree', treeJson }
+    : {
+        request: 'request2bkg_import_tree',
+        treeJson,
+        targetParentIdMVC,
+        targetPosition,
+      };
+}
+
+/** Request export of the current tree, or of one node's subtree, as a JSON string. */
+export function exportTree(rootIdMVC?: string): Req_ExportTree {
+  return rootIdMVC === undefined
+    ? { request: 'request2bkg_export_tree' }
+    : { request: 'request2bkg_export_tree', rootIdMVC };
+}
+
+/** Request export of the current tree, or of one node's subtree, as HTML. */
+export function exportTreeHtml(rootIdMVC?: string): Req_ExportTree {
+  return rootIdMVC === undefined
+    ? { request: 'request2bkg_export_tree', format: 'html' }
+    : { request: 'request2bkg_export_tree', format: 'html', rootIdMVC };
+}
+
+/** Request export of the current tree, or of one node's subtree, as a bookmark file. */
+export function exportTreeBookmarks(rootIdMVC?: string): Req_ExportTree {
+  return rootIdMVC === undefined
+    ? { request: 'request2bkg_export_tree', format: 'bookmarks' }
+    : { request: 'request2bkg_export_tree', format: 'bookmarks', rootIdMVC };
 }
 
-/** Request export of the current tree as a JSON string. */
-export function exportTree(): Req_ExportTree {
-  return { request: 'request2bkg_export_tree' };
+/** Request export of the current tree, or of one node's subtree, as Markdown. */
+export function exportTreeMarkdown(rootIdMVC?: string): Req_ExportTree {
+  return rootIdMVC === undefined
+    ? { request: 'request2bkg_export_tree', format: 'markdown' }
+    : { request: 'request2bkg_export_tree', format: 'markdown', rootIdMVC };
 }
 
-/** Request export of the current tree as HTML. */
-export function exportTreeHtml(): Req_ExportTree {
-  return { request: 'request2bkg_export_tree', format: 'html' };
+/** Request export of the current tree, or of one node's subtree, as OPML. */
+export function exportTreeOpml(rootIdMVC?: string): Req_ExportTree {
+  return rootIdMVC === undefined
+    ? { request: 'request2bkg_export_tree', format: 'opml' }
+    : { request: 'request2bkg_export_tree', format: 'opml', rootIdMVC };
 }
 
 /** Move a node to a new position in the tree. */
@@ -156,3 +216,174 @@ export function applyNodeWindowText(
     newText,
   };
 }
+
+/** Replace the whole tree with a stored snapshot. */
+export function restoreSnapshot(snapshotId: string): Req_RestoreSnapshot {
+  return { request: 'request2bkg_restoreSnapshot', snapshotId };
+}
+
+/** Revert the last tree edit. */
+export function undo(): Req_Undo {
+  return { request: 'request2bkg_undo' };
+}
+
+/** Re-apply the last reverted tree edit. */
+export function redo(): Req_Redo {
+  return { request: 'request2bkg_redo' };
+}
+
+/** Upload a backup to the configured remote target now. */
+export function backupNow(): Req_BackupNow {
+  return { request: 'request2bkg_backupNow' };
+}
+
+/**
+ * Save and close every open window except this view's own window and,
+ * when given, the active window node `preserveIdMVC`.
+ */
+export function closeAllWindowsExceptThis(
+  preserveIdMVC?: string,
+): Req_CloseAllWindowsExceptThis {
+  return { request: 'request2bkg_closeAllWindowsExceptThis', preserveIdMVC };
+}
+
+const ADD_NOTE_REQUESTS = {
+  nextSibling: 'request2bkg_addNoteAsNextSiblingOfCurrentNode',
+  prevSibling: 'request2bkg_addNoteAsPrevSiblingOfCurrentNode',
+  firstSubnode: 'request2bkg_addNoteAsFirstSubnodeOfCurrentNode',
+  lastSubnode: 'request2bkg_addNoteAsLastSubnodeOfCurrentNode',
+  parent: 'request2bkg_addNoteAsParentOfCurrentNode',
+  endOfTree: 'request2bkg_addNoteAtTheEndOfTree',
+} as const satisfies Record<string, Req_AddNote['request']>;
+
+/** Where addNote() puts the new note relative to the cursor node. */
+export type NotePlacement = keyof typeof ADD_NOTE_REQUESTS;
+
+/**
+ * Insert a new text note and open it for editing. `parent` wraps the
+ * cursor node in the note; `endOfTree` ignores idMVC.
+ */
+export function addNote(
+  placement: NotePlacement,
+  idMVC: string | null,
+): Req_AddNote {
+  return {
+    request: ADD_NOTE_REQUESTS[placement],
+    targetNodeIdMVC: idMVC ?? undefined,
+  };
+}
+
+/** Move several nodes, kept in tree order, to one drop position. */
+export function moveHierarchies(
+  idsMVC: readonly string[],
+  containerIdMVC: string | null,
+  position: number,
+): Req_MoveHierarchies {
+  return {
+    request: 'request2bkg_moveHierarchies',
+    targetNodeIdsMVC: idsMVC,
+    containerIdMVC,
+    position,
+  };
+}
+
+/** Deep-copy several nodes to one paste position. */
+export function copyHierarchies(
+  idsMVC: readonly string[],
+  targetParentIdMVC: string | null,
+  targetPosition: number,
+): Req_CopyHierarchies {
+  return {
+    request: 'request2bkg_copyHierarchies',
+    sourceIdsMVC: idsMVC,
+    targetParentIdMVC,
+    targetPosition,
+  };
+}
+
+/** Save & close or delete several nodes at once. */
+export function executeActionOnNodes(
+  idsMVC: readonly string[],
+  actionId: Req_ActivateHoveringMenuActionOnNodes['actionId'],
+): Req_ActivateHoveringMenuActionOnNodes {
+  return {
+    request: 'request2bkg_activateHoveringMenuActionOnNodes',
+    targetNodeIdsMVC: idsMVC,
+    actionId,
+  };
+}
+
+/** Restore every saved tab, window and group among the given nodes. */
+export function restoreNodes(idsMVC: readonly string[]): Req_RestoreNodes {
+  return { request: 'request2bkg_restoreNodes', targetNodeIdsMVC: idsMVC };
+}
+
+/** Wrap the given nodes in a new group. */
+export function moveToNewGroup(
+  idsMVC: readonly string[],
+): Req_MoveHierarchiesToNewGroup {
+  return {
+    request: 'request2bkg_moveHierarchiesToNewGroup',
+    targetNodeIdsMVC: idsMVC,
+  };
+}
+
+/** Ask the background to group the tree's tabs by normalized URL. */
+export function findDuplicates(
+  options: DuplicateScanOptions,
+): Req_FindDuplicates {
+  return { request: 'request2bkg_findDuplicates', options };
+}
+
+/** Keep `keepIdMVC` and remove the other occurrences of its URL. */
+export function mergeDuplicates(
+  keepIdMVC: string,
+  removeIdsMVC: readonly string[],
+): Req_MergeDuplicates {
+  return {
+    request: 'request2bkg_mergeDuplicates',
+    keepIdMVC,
+    removeIdsMVC,
+  };
+}
+
+/** Ask the background for every node in the tree matching `query`. */
+export function searchTree(query: string): Req_SearchTree {
+  return { request: 'request2bkg_searchTree', query };
+}
+
+/** Expand the node's collapsed ancestors so it can be scrolled into view. */
+export function revealNode(idMVC: string): Req_RevealNode {
+  return { request: 'request2bkg_revealNode', targetNodeIdMVC: idMVC };
+}
+
+/** Sort a container's children by `by`. */
+export function sortSubnodes(
+  idMVC: string,
+  by: SortKey,
+  direction: SortDirection,
+): Req_SortSubnodes {
+  return {
+    request: 'request2bkg_sortSubnodes',
+    targetNodeIdMVC: idMVC,
+    by,
+    direction,
+  };
+}
+
+/** Bucket a container's links into one group per domain. */
+export function groupSubnodesByDomain(
+  idMVC: string,
+): Req_GroupSubnodesByDomain {
+  return {
+    request: 'request2bkg_groupSubnodesByDomain',
+    targetNodeIdMVC: idMVC,
+  };
+}
+
+/** Ask the background what `rules` would change in the current tree. */
+export function previewOrganizeRules(
+  rules: readonly OrganizeRule[],
+): Req_PreviewOrganizeRules {
+  return { request: 'request2bkg_previewOrganizeRules', rules };
+}
@@ -0,0 +1,299 @@
+/**
+ * View-side tree indexes and incremental patching.
+ *
+ * The view holds an immutable NodeDTO tree plus two mutable maps: idMVC →
+ * node and idMVC → parent idMVC. A change copies only the path from the
+ * changed node up to the root and keeps both maps in step, so it costs
+ * O(depth) (plus the size of any subtree it adds or drops) instead of a
+ * rebuild over the whole tree.
+ *
+ * The view only holds what it displays: a collapsed node's children may
+ * be missing (or stale until it is expanded again). Deltas under such a
+ * node just patch the visible ancestors. Every patch function returns the
+ * new root, or null when the change doesn't fit the view's copy — the
+ * indexes may then be half-updated, and the caller must resync.
+ */
+
+import type {
+  NodeDTO,
+  ParentUpdateData,
+  ParentsUpdateData,
+} from '@/types/node-dto';
+import type { TreeDelta } from '@/types/messages';
+
+export interface TreeIndexes {
+  readonly rootId: string | null;
+  readonly nodeIndex: Map<string, NodeDTO>;
+  readonly parentIndex: Map<string, string>;
+}
+
+export function buildIndexes(root: NodeDTO): TreeIndexes {
+  const indexes: TreeIndexes = {
+    rootId: root.idMVC,
+    nodeIndex: new Map(),
+    parentIndex: new Map(),
+  };
+  indexSubtree(indexes, root, null);
+  return indexes;
+}
+
+function indexSubtree(
+  indexes: TreeIndexes,
+  node: NodeDTO,
+  parentId: string | null,
+): void {
+  indexes.nodeIndex.set(node.idMVC, node);
+  if (parentId !== null) indexes.parentIndex.set(node.idMVC, parentId);
+  for (const child of node.subnodes) {
+    indexSubtree(indexes, child, node.idMVC);
+  }
+}
+
+function unindexSubtree(indexes: TreeIndexes, node: NodeDTO): void {
+  indexes.nodeIndex.delete(node.idMVC);
+  indexes.parentIndex.delete(node.idMVC);
+  for (const child of node.subnodes) {
+    unindexSubtree(indexes, child);
+  }
+}
+
+function patchNode(
+  node: NodeDTO,
+  update: ParentUpdateData | undefined,
+): NodeDTO {
+  if (!update) return node;
+  return {
+    ...node,
+    isSubnodesPresent: update.isSubnodesPresent,
+    statsBlockData: update.subnodesStatBlock,
+    isProtectedFromGoneOnClose: update.isProtectedFromGoneOnClose,
+    titleCssClass: update.titleCssClass,
+    titleBackgroundCssClass: update.titleBackgroundCssClass,
+    isSelectedTab: update.isSelectedTab,
+    isFocusedWindow: update.isFocusedWindow,
+    nodeContentCssClass: update.nodeContentCssClass,
+  };
+}
+
+/**
+ * Put `replacement` in place of the indexed node with the same idMVC and
+ * copy its ancestors up to the root, patching those listed in `parents`.
+ */
+function replaceOnPath(
+  indexes: TreeIndexes,
+  replacement: NodeDTO,
+  parents: ParentsUpdateData = {},
+): NodeDTO | null {
+  const { nodeIndex, parentIndex } = indexes;
+  let child = patchNode(replacement, parents[replacement.idMVC]);
+  nodeIndex.set(child.idMVC, child);
+
+  for (
+    let parentId = parentIndex.get(child.idMVC);
+    parentId !== undefined;
+    parentId = parentIndex.get(parentId)
+  ) {
+    const parent = nodeIndex.get(parentId);
+    if (!parent) return null;
+    const at = parent.subnodes.findIndex((s) => s.idMVC === child.idMVC);
+    if (at < 0) return null;
+    const subnodes = parent.subnodes.slice();
+    subnodes[at] = child;
+    child = patchNode({ ...parent, subnodes }, parents[parentId]);
+    nodeIndex.set(parentId, child);
+  }
+  return child;
+}
+
+/** Give the indexed node `parentId` a new child list (already indexed). */
+function setSubnodes(
+  indexes: TreeIndexes,
+  parentId: string,
+  subnodes: NodeDTO[],
+  parents: ParentsUpdateData,
+): NodeDTO | null {
+  const parent = indexes.nodeIndex.get(parentId);
+  if (!parent) return null;
+  return replaceOnPath(
+    indexes,
+    { ...parent, subnodes, isSubnodesPresent: subnodes.length > 0 },
+    parents,
+  );
+}
+
+/** Whether the node's children are on screen: it and its ancestors are expanded. */
+function childrenShown(indexes: TreeIndexes, id: string): boolean {
+  for (
+    let current: string | undefined = id;
+    current !== undefined;
+    current = indexes.parentIndex.get(current)
+  ) {
+    const node = indexes.nodeIndex.get(current);
+    if (!node || node.colapsed) return false;
+  }
+  return true;
+}
+
+/**
+ * A change happened below a collapsed node: patch the nearest ancestor the
+ * view holds and everything above it. `parents` lists the chain from the
+ * changed node's parent up to the root, nearest first. If that ancestor's
+ * children are on screen the view is missing a node it should have.
+ */
+function patchHidden(
+  indexes: TreeIndexes,
+  parents: ParentsUpdateData,
+): NodeDTO | null {
+  const nearest = Object.keys(parents).find((id) => indexes.nodeIndex.has(id));
+  if (nearest === undefined || childrenShown(indexes, nearest)) return null;
+  const node = indexes.nodeIndex.get(nearest);
+  return node ? replaceOnPath(indexes, node, parents) : null;
+}
+
+/** Drop the indexed node `id` (and its subtree) from its parent. */
+function detach(
+  indexes: TreeIndexes,
+  id: string,
+  parents: ParentsUpdateData,
+): NodeDTO | null {
+  const node = indexes.nodeIndex.get(id);
+  const parentId = indexes.parentIndex.get(id);
+  const parent = parentId !== undefined && indexes.nodeIndex.get(parentId);
+  if (!node || !parent) return null;
+  unindexSubtree(indexes, node);
+  return setSubnodes(
+    indexes,
+    parent.idMVC,
+    parent.subnodes.filter((s) => s.idMVC !== id),
+    parents,
+  );
+}
+
+/** Insert `node` (and its subtree) at `index` under the shown `parentId`. */
+function attach(
+  indexes: TreeIndexes,
+  parentId: string,
+  index: number,
+  node: NodeDTO,
+  parents: ParentsUpdateData,
+): NodeDTO | null {
+  const parent = indexes.nodeIndex.get(parentId);
+  if (!parent || index < 0 || index > parent.subnodes.length) return null;
+  indexSubtree(indexes, node, parentId);
+  const subnodes = parent.subnodes.slice();
+  subnodes.splice(index, 0, node);
+  return setSubnodes(indexes, parentId, subnodes, parents);
+}
+
+/**
+ * Replace the indexed node `idMVC` with `update`, keeping its known
+ * children unless the update carries its own (an expand sends them). A
+ * collapsed node arrives without children but with isSubnodesPresent set.
+ *
+ * A node the view doesn't hold is fine below a collapsed node (the root is
+ * returned unchanged); under a shown parent the view has lost it.
+ */
+export function updateNode(
+  indexes: TreeIndexes,
+  idMVC: string,
+  parentIdMVC: string | null,
+  update: NodeDTO,
+): NodeDTO | null {
+  const existing = indexes.nodeIndex.get(idMVC);
+  if (!existing) {
+    if (parentIdMVC === null || childrenShown(indexes, parentIdMVC)) {
+      return null;
+    }
+    return indexes.rootId !== null
+      ? (indexes.nodeIndex.get(indexes.rootId) ?? null)
+      : null;
+  }
+
+  const subnodes =
+    update.subnodes.length > 0
+      ? update.subnodes
+      : update.isSubnodesPresent
+        ? existing.subnodes
+        : [];
+  if (subnodes !== existing.subnodes) {
+    for (const child of existing.subnodes) unindexSubtree(indexes, child);
+    for (const child of subnodes) indexSubtree(indexes, child, idMVC);
+  }
+  return replaceOnPath(indexes, { ...update, subnodes });
+}
+
+/** Apply one structural change from the background. */
+export function applyTreeDelta(
+  indexes: TreeIndexes,
+  delta: TreeDelta,
+): NodeDTO | null {
+  const { nodeIndex, parentIndex } = indexes;
+
+  switch (delta.op) {
+    case 'insert':
+      if (nodeIndex.has(delta.node.idMVC)) return null;
+      return childrenShown(indexes, delta.parentIdMVC)
+        ? attach(
+            indexes,
+            delta.parentIdMVC,
+            delta.index,
+            delta.node,
+            delta.parentsUpdateData,
+          )
+        : patchHidden(indexes, delta.parentsUpdateData);
+
+    case 'remove':
+      if (!nodeIndex.has(delta.idMVC)) {
+        return patchHidden(indexes, delta.parentsUpdateData);
+      }
+      if (parentIndex.get(delta.idMVC) !== delta.parentIdMVC) return null;
+      return detach(indexes, delta.idMVC, delta.parentsUpdateData);
+
+    case 'move': {
+      const node = nodeIndex.get(delta.idMVC);
+      const shown = childrenShown(indexes, delta.parentIdMVC);
+      if (!node) {
+        // Out of a collapsed node: the view has nothing to show there.
+        if (shown) return null;
+        return (
+          patchHidden(indexes, delta.oldParentsUpdateData) &&
+          patchHidden(indexes, delta.parentsUpdateData)
+        );
+      }
+      // A node kept under a collapsed parent may be stale.
+      const from = parentIndex.get(delta.idMVC);
+      if (shown && (from === undefined || !childrenShown(indexes, from))) {
+        return null;
+      }
+      if (!detach(indexes, delta.idMVC, delta.oldParentsUpdateData)) {
+        return null;
+      }
+      return shown
+        ? attach(
+            indexes,
+            delta.parentIdMVC,
+            delta.index,
+            node,
+            delta.parentsUpdateData,
+          )
+        : patchHidden(indexes, delta.parentsUpdateData);
+    }
+
+    case 'replace': {
+      const old = nodeIndex.get(delta.idMVC);
+      if (!old) return patchHidden(indexes, delta.parentsUpdateData);
+      const parent = nodeIndex.get(delta.parentIdMVC);
+      if (!parent || parentIndex.get(delta.idMVC) !== delta.parentIdMVC) {
+        return null;
+      }
+      unindexSubtree(indexes, old);
+      indexSubtree(indexes, delta.node, delta.parentIdMVC);
+      return setSubnodes(
+        indexes,
+        delta.parentIdMVC,
+        parent.subnodes.map((s) => (s.idMVC === delta.idMVC ? delta.node : s)),
+        delta.parentsUpdateData,
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Pure helpers for the tree view's search/filter mode.
+ *
+ * The view filters its NodeDTO index as the query is typed, with the
+ * parser and matcher from search-query.ts; the background runs the same
+ * ones over the full TreeModel when a hit inside a collapsed container
+ * needs finding. This module adds what only the view needs: highlighting.
+ */
+
+export {
+  parseSearchQuery,
+  parseAgeFilters,
+  nodeMatchesAge,
+  nodeMatchesTerms,
+  nodeMatchesQuery,
+} from '@/tree/search-query';
+export type { AgeFilter, SearchableNode } from '@/tree/search-query';
+
+/** A run of text, flagged when it matched one of the search terms. */
+export interface HighlightSegment {
+  readonly text: string;
+  readonly match: boolean;
+}
+
+/**
+ * Split `text` into alternating plain / matched segments for rendering
+ * highlights. Overlapping term occurrences are merged into one segment.
+ */
+export function splitHighlights(
+  text: string,
+  terms: readonly string[],
+): HighlightSegment[] {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  const lower = text.toLowerCase();
+  const covered = new Array<boolean>(text.length).fill(false);
+  for (const term of terms) {
+    let from = 0;
+    for (;;) {
+      const idx = lower.indexOf(term, from);
+      if (idx === -1) break;
+      for (let i = idx; i < idx + term.length; i++) covered[i] = true;
+      from = idx + 1;
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || covered[i] !== covered[start]) {
+      segments.push({ text: text.slice(start, i), match: covered[start] });
+      start = i;
+    }
+  }
+  return segments;
+}
@@ -49,7 +49,14 @@ export default defineConfig({
       extension_pages:
         "script-src 'self'; object-src 'none'; style-src 'self' 'unsafe-inline'",
     },
-    permissions: ['alarms', 'storage', 'tabs', 'unlimitedStorage', 'favicon'],
+    permissions: [
+      'alarms',
+      'storage',
+      'tabs',
+      'tabGroups',
+      'unlimitedStorage',
+      'favicon',
+    ],
     optional_permissions: [
       'identity',
       'identity.email',
@@ -57,6 +64,8 @@ export default defineConfig({
       'clipboardRead',
       'clipboardWrite',
     ],
+    // Requested per-origin at runtime for the remote backup endpoint.
+    optional_host_permissions: ['https://*/*', 'http://*/*'],
     oauth2: {
       client_id:
         '264571147925-gl2i51b5j91lkd21gojr9jh06kp2gos3.apps.googleusercontent.com',